@@ -1,5 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from "vitest"
-import { callConvex, extractSenderName } from "./convexClient"
+import {
+  callConvex,
+  extractSenderName,
+  type ConvexConfig,
+} from "./convexClient"
 import type { Env, EmailPayload } from "./types"
 
 describe("convexClient", () => {
@@ -37,6 +41,11 @@ describe("convexClient", () => {
       INTERNAL_API_KEY: "test-api-key",
     }
 
+    const mockConfig: ConvexConfig = {
+      url: mockEnv.CONVEX_URL,
+      apiKey: mockEnv.INTERNAL_API_KEY,
+    }
+
     const mockPayload: EmailPayload = {
       to: "user@newsletter.example.com",
       from: "sender@example.com",
@@ -126,6 +135,23 @@ describe("convexClient", () => {
       })
     })
 
+    it("returns the error code when Convex provides one", async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 403,
+        json: () =>
+          Promise.resolve({ error: "Alias disabled", code: "ALIAS_DISABLED" }),
+      })
+
+      const result = await callConvex(mockConfig, mockPayload)
+
+      expect(result).toEqual({
+        success: false,
+        error: "Alias disabled - [ALIAS_DISABLED]",
+        code: "ALIAS_DISABLED",
+      })
+    })
+
     it("handles network error gracefully", async () => {
       global.fetch = vi.fn().mockResolvedValue({
         ok: false,
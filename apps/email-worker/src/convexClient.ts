@@ -32,6 +32,14 @@ export async function callConvex(
       receivedAt: payload.receivedAt,
       htmlContent: payload.htmlContent,
       textContent: payload.textContent,
+      attachments: payload.attachments,
+      messageId: payload.messageId,
+      listId: payload.listId,
+      listUnsubscribe: payload.listUnsubscribe,
+      listUnsubscribePost: payload.listUnsubscribePost,
+      precedence: payload.precedence,
+      rawEmail: payload.rawEmail,
+      senderAuth: payload.senderAuth,
     }),
   })
 
@@ -50,6 +58,7 @@ export async function callConvex(
     return {
       success: false,
       error: errorParts.join(" - "),
+      code: errorData.code,
     }
   }
 
@@ -1,5 +1,16 @@
 import { describe, it, expect } from "vitest"
-import { parseEmail, sanitizeHtml, getStorableContent, type ParsedEmail } from "./emailParser"
+import {
+  parseEmail,
+  sanitizeHtml,
+  getStorableContent,
+  getForwardableAttachments,
+  getForwardableRawEmail,
+  normalizeMessageId,
+  MAX_FORWARDED_ATTACHMENTS_BYTES,
+  MAX_FORWARDED_RAW_EMAIL_BYTES,
+  type ParsedAttachment,
+  type ParsedEmail,
+} from "./emailParser"
 
 /**
  * Helper to create a ReadableStream from a string
@@ -103,6 +114,181 @@ Content without subject`
     expect(result.subject).toBe("(no subject)")
     expect(result.from).toBe("")
   })
+
+  it("should keep attachments as base64 with filename, type and size", async () => {
+    const rawEmail = `From: Newsletter <news@example.com>
+To: recipient@example.com
+Subject: Slides inside
+Date: Wed, 15 Jan 2026 10:00:00 +0000
+Content-Type: multipart/mixed; boundary="mixed123"
+
+--mixed123
+Content-Type: text/html; charset=utf-8
+
+<html><body><p>See the attached deck.</p></body></html>
+
+--mixed123
+Content-Type: application/pdf; name="deck.pdf"
+Content-Disposition: attachment; filename="deck.pdf"
+Content-Transfer-Encoding: base64
+
+SGVsbG8gUERG
+
+--mixed123--`
+
+    const result = await parseEmail(createStream(rawEmail))
+
+    expect(result.hasAttachments).toBe(true)
+    expect(result.attachments).toHaveLength(1)
+    expect(result.attachments[0]).toMatchObject({
+      filename: "deck.pdf",
+      mimeType: "application/pdf",
+      disposition: "attachment",
+      size: 9,
+      content: "SGVsbG8gUERG",
+    })
+  })
+})
+
+describe("parseEmail headers", () => {
+  it("should extract Message-ID and mailing-list headers", async () => {
+    const rawEmail = `From: Newsletter <news@example.com>
+To: recipient@example.com
+Subject: Weekly digest
+Date: Wed, 15 Jan 2026 10:00:00 +0000
+Message-ID: <abc123@mail.example.com>
+List-Id: Weekly Digest <weekly.example.com>
+List-Unsubscribe: <https://example.com/unsub?u=1>,
+ <mailto:unsub@example.com>
+List-Unsubscribe-Post: List-Unsubscribe=One-Click
+Precedence: Bulk
+Content-Type: text/plain; charset=utf-8
+
+Hello`
+
+    const result = await parseEmail(createStream(rawEmail))
+
+    expect(result.messageId).toBe("abc123@mail.example.com")
+    expect(result.listId).toBe("Weekly Digest <weekly.example.com>")
+    expect(result.listUnsubscribe).toBe(
+      "<https://example.com/unsub?u=1>, <mailto:unsub@example.com>"
+    )
+    expect(result.listUnsubscribePost).toBe("List-Unsubscribe=One-Click")
+    expect(result.precedence).toBe("bulk")
+  })
+
+  it("should leave list headers undefined when absent", async () => {
+    const rawEmail = `From: sender@example.com
+To: recipient@example.com
+Subject: Personal note
+Content-Type: text/plain
+
+Hi`
+
+    const result = await parseEmail(createStream(rawEmail))
+
+    expect(result.messageId).toBeUndefined()
+    expect(result.listId).toBeUndefined()
+    expect(result.listUnsubscribe).toBeUndefined()
+    expect(result.listUnsubscribePost).toBeUndefined()
+    expect(result.precedence).toBeUndefined()
+  })
+})
+
+describe("getForwardableRawEmail", () => {
+  it("should base64-encode the message exactly as received", async () => {
+    const rawEmail = `From: sender@example.com
+To: recipient@example.com
+Subject: Original
+Content-Type: text/plain
+
+Keep me`
+
+    const parsed = await parseEmail(createStream(rawEmail))
+    const forwarded = getForwardableRawEmail(parsed)
+
+    expect(forwarded).toBeDefined()
+    expect(atob(forwarded!)).toBe(rawEmail)
+  })
+
+  it("should skip messages over the size limit", () => {
+    const parsed: ParsedEmail = {
+      subject: "Huge",
+      from: "test@example.com",
+      date: new Date(),
+      hasAttachments: false,
+      attachments: [],
+      raw: new Uint8Array(MAX_FORWARDED_RAW_EMAIL_BYTES + 1),
+    }
+
+    expect(getForwardableRawEmail(parsed)).toBeUndefined()
+  })
+})
+
+describe("normalizeMessageId", () => {
+  it("should strip angle brackets and whitespace", () => {
+    expect(normalizeMessageId(" <abc@example.com> ")).toBe("abc@example.com")
+    expect(normalizeMessageId("abc@example.com")).toBe("abc@example.com")
+  })
+
+  it("should return undefined for empty values", () => {
+    expect(normalizeMessageId(undefined)).toBeUndefined()
+    expect(normalizeMessageId("<>")).toBeUndefined()
+  })
+})
+
+describe("getForwardableAttachments", () => {
+  function makeAttachment(overrides: Partial<ParsedAttachment> = {}): ParsedAttachment {
+    return {
+      filename: "file.pdf",
+      mimeType: "application/pdf",
+      size: 4,
+      content: "AAAAAA==",
+      disposition: "attachment",
+      related: false,
+      ...overrides,
+    }
+  }
+
+  function makeParsed(attachments: ParsedAttachment[]): ParsedEmail {
+    return {
+      subject: "Test",
+      from: "test@example.com",
+      date: new Date(),
+      hasAttachments: attachments.length > 0,
+      attachments,
+      raw: new Uint8Array(),
+    }
+  }
+
+  it("should skip images embedded in the HTML body", () => {
+    const result = getForwardableAttachments(
+      makeParsed([
+        makeAttachment({ filename: "logo.png", mimeType: "image/png", related: true, disposition: "inline" }),
+        makeAttachment({ filename: "invite.ics", mimeType: "text/calendar" }),
+      ])
+    )
+
+    expect(result.map((a) => a.filename)).toEqual(["invite.ics"])
+  })
+
+  it("should drop attachments that exceed the size budget", () => {
+    const result = getForwardableAttachments(
+      makeParsed([
+        makeAttachment({ filename: "huge.zip", size: MAX_FORWARDED_ATTACHMENTS_BYTES + 1 }),
+        makeAttachment({ filename: "small.pdf", size: 1024 }),
+      ])
+    )
+
+    expect(result.map((a) => a.filename)).toEqual(["small.pdf"])
+  })
+
+  it("should not leak parser-only fields into the payload", () => {
+    const [attachment] = getForwardableAttachments(makeParsed([makeAttachment()]))
+
+    expect(attachment).not.toHaveProperty("related")
+    expect(attachment).not.toHaveProperty("disposition")
+  })
 })
 
 describe("sanitizeHtml", () => {
@@ -231,6 +417,8 @@ describe("getStorableContent", () => {
       html: "<p>HTML content</p>",
       text: "Plain text content",
       hasAttachments: false,
+      attachments: [],
+      raw: new Uint8Array(),
     }
 
     const result = getStorableContent(parsed)
@@ -246,6 +434,8 @@ describe("getStorableContent", () => {
       date: new Date(),
       text: "Plain text only",
       hasAttachments: false,
+      attachments: [],
+      raw: new Uint8Array(),
     }
 
     const result = getStorableContent(parsed)
@@ -261,6 +451,8 @@ describe("getStorableContent", () => {
       date: new Date(),
       html: '<p onclick="evil()">Content</p>',
       hasAttachments: false,
+      attachments: [],
+      raw: new Uint8Array(),
     }
 
     const result = getStorableContent(parsed)
@@ -276,6 +468,8 @@ describe("getStorableContent", () => {
       from: "test@example.com",
       date: new Date(),
       hasAttachments: false,
+      attachments: [],
+      raw: new Uint8Array(),
     }
 
     const result = getStorableContent(parsed)
@@ -1,6 +1,36 @@
 import PostalMime from "postal-mime"
 // Import sanitizeHtml from shared package to avoid duplication
 import { sanitizeHtml } from "@hushletter/shared/utils"
+import type { EmailAttachmentPayload } from "./types"
+
+/** Maximum number of attachments forwarded to Convex per email */
+export const MAX_FORWARDED_ATTACHMENTS = 20
+
+/** Maximum combined (decoded) size of attachments forwarded to Convex (10MB) */
+export const MAX_FORWARDED_ATTACHMENTS_BYTES = 10 * 1024 * 1024
+
+/**
+ * Maximum size of the raw message forwarded for archiving (4MB)
+ * Keeps the base64 raw message plus attachments under Convex's 20MB HTTP body limit
+ */
+export const MAX_FORWARDED_RAW_EMAIL_BYTES = 4 * 1024 * 1024
+
+/**
+ * Attachment extracted from a parsed email
+ * Content is kept base64-encoded so it can travel in the JSON payload
+ */
+export interface ParsedAttachment {
+  filename: string
+  mimeType: string
+  /** Decoded size in bytes */
+  size: number
+  /** Base64-encoded content */
+  content: string
+  contentId?: string
+  disposition: "attachment" | "inline" | null
+  /** True for parts of multipart/related (images embedded in the HTML body) */
+  related: boolean
+}
 
 /**
  * Parsed email data structure
@@ -13,6 +43,20 @@ export interface ParsedEmail {
   html?: string
   text?: string
   hasAttachments: boolean
+  attachments: ParsedAttachment[]
+  /** Message-ID header without angle brackets */
+  messageId?: string
+  /** Mailing list headers (RFC 2369 / RFC 2919) */
+  listId?: string
+  listUnsubscribe?: string
+  /** List-Unsubscribe-Post header (RFC 8058 one-click unsubscribe) */
+  listUnsubscribePost?: string
+  /** Precedence header, e.g. "bulk" or "list" */
+  precedence?: string
+  /** Topmost Authentication-Results header (trusted only if its authserv-id is ours, see senderAuth.ts) */
+  authenticationResults?: string
+  /** The original RFC 822 message exactly as received */
+  raw: Uint8Array
 }
 
 /**
@@ -51,10 +95,28 @@ export async function parseEmail(
     offset += chunk.length
   }
 
-  // Parse email using postal-mime
-  const parser = new PostalMime()
+  // Parse email using postal-mime (attachments as base64 for JSON transport)
+  const parser = new PostalMime({ attachmentEncoding: "base64" })
   const email = await parser.parse(emailBuffer)
 
+  const attachments: ParsedAttachment[] = (email.attachments ?? []).map(
+    (attachment, index) => {
+      const content =
+        typeof attachment.content === "string"
+          ? attachment.content
+          : arrayBufferToBase64(attachment.content)
+      return {
+        filename: attachment.filename || `attachment-${index + 1}`,
+        mimeType: attachment.mimeType || "application/octet-stream",
+        size: getBase64DecodedSize(content),
+        content,
+        contentId: attachment.contentId || undefined,
+        disposition: attachment.disposition,
+        related: attachment.related ?? false,
+      }
+    }
+  )
+
   return {
     subject: email.subject || "(no subject)",
     from: email.from?.address || "",
@@ -62,8 +124,61 @@ export async function parseEmail(
     date: email.date ? new Date(email.date) : new Date(),
     html: email.html || undefined,
     text: email.text || undefined,
-    hasAttachments: (email.attachments?.length ?? 0) > 0,
+    hasAttachments: attachments.length > 0,
+    attachments,
+    messageId: normalizeMessageId(email.messageId),
+    listId: getHeaderValue(email.headers, "list-id"),
+    listUnsubscribe: getHeaderValue(email.headers, "list-unsubscribe"),
+    listUnsubscribePost: getHeaderValue(email.headers, "list-unsubscribe-post"),
+    precedence: getHeaderValue(email.headers, "precedence")?.toLowerCase(),
+    authenticationResults: getHeaderValue(email.headers, "authentication-results"),
+    raw: emailBuffer,
+  }
+}
+
+/**
+ * Normalize a Message-ID header value
+ * Removes angle brackets (e.g., "<abc123@mail.example.com>" -> "abc123@mail.example.com")
+ *
+ * @returns Message-ID without angle brackets, or undefined if empty
+ */
+export function normalizeMessageId(rawMessageId: string | undefined): string | undefined {
+  if (!rawMessageId) return undefined
+  return rawMessageId.trim().replace(/^<|>$/g, "").trim() || undefined
+}
+
+/**
+ * Get the first value of a header (postal-mime lowercases header keys)
+ * Folded whitespace is collapsed so the value fits on one line
+ */
+function getHeaderValue(
+  headers: Array<{ key: string; value: string }> | undefined,
+  name: string
+): string | undefined {
+  const header = headers?.find((h) => h.key === name)
+  const value = header?.value.replace(/\s+/g, " ").trim()
+  return value || undefined
+}
+
+/**
+ * Compute the decoded byte size of a base64 string without decoding it
+ */
+function getBase64DecodedSize(base64: string): number {
+  if (base64.length === 0) return 0
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0
+  return Math.floor((base64.length * 3) / 4) - padding
+}
+
+/**
+ * Base64-encode an ArrayBuffer (fallback when postal-mime returns raw bytes)
+ */
+function arrayBufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
+  let binary = ""
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]!)
   }
+  return btoa(binary)
 }
 
 // Re-export sanitizeHtml for backwards compatibility
@@ -86,3 +201,45 @@ export function getStorableContent(parsed: ParsedEmail): StorableContent {
     contentType: "text",
   }
 }
+
+/**
+ * Select the attachments worth forwarding to Convex
+ * Skips images embedded in the HTML body (multipart/related parts) and
+ * stops once the count or combined size budget is exhausted
+ */
+export function getForwardableAttachments(
+  parsed: ParsedEmail
+): EmailAttachmentPayload[] {
+  const forwardable: EmailAttachmentPayload[] = []
+  let totalBytes = 0
+
+  for (const attachment of parsed.attachments) {
+    if (attachment.related && attachment.disposition !== "attachment") continue
+    if (forwardable.length >= MAX_FORWARDED_ATTACHMENTS) break
+    if (totalBytes + attachment.size > MAX_FORWARDED_ATTACHMENTS_BYTES) continue
+
+    totalBytes += attachment.size
+    forwardable.push({
+      filename: attachment.filename,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      content: attachment.content,
+      contentId: attachment.contentId,
+    })
+  }
+
+  return forwardable
+}
+
+/**
+ * Get the raw message to forward for archiving ("keep original emails")
+ * Convex decides whether to keep it based on the user's setting
+ *
+ * @returns Base64-encoded raw message, or undefined when it is too large
+ */
+export function getForwardableRawEmail(parsed: ParsedEmail): string | undefined {
+  if (parsed.raw.length === 0 || parsed.raw.length > MAX_FORWARDED_RAW_EMAIL_BYTES) {
+    return undefined
+  }
+  return arrayBufferToBase64(parsed.raw)
+}
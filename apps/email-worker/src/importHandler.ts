@@ -2,6 +2,7 @@ import PostalMime from "postal-mime"
 import type { Env, ImportEmailPayload, ConvexImportResponse } from "./types"
 import { type ConvexConfig } from "./convexClient"
 import { sanitizeHtml } from "@hushletter/shared/utils"
+import { normalizeMessageId } from "./emailParser"
 
 /**
  * Rate limit: 50 imports per hour per user
@@ -353,11 +354,7 @@ async function incrementRateLimit(env: Env, userId: string): Promise<void> {
  */
 function extractMessageIdFromParsed(parsed: PostalMime.Email): string | undefined {
   // postal-mime stores messageId directly on the parsed result
-  const rawMessageId = parsed.messageId
-  if (!rawMessageId) return undefined
-
-  // Remove angle brackets if present (e.g., "<abc123@mail.example.com>" -> "abc123@mail.example.com")
-  return rawMessageId.replace(/^<|>$/g, "").trim() || undefined
+  return normalizeMessageId(parsed.messageId)
 }
 
 /**
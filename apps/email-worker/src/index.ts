@@ -1,75 +1,41 @@
 import type { Env } from "./types"
-import { callConvex, extractSenderName, type ConvexConfig } from "./convexClient"
-import { parseEmail, getStorableContent } from "./emailParser"
+import { callConvex, extractSenderName } from "./convexClient"
+import {
+  parseEmail,
+  getStorableContent,
+  getForwardableAttachments,
+  getForwardableRawEmail,
+} from "./emailParser"
 import { handleImportEmail } from "./importHandler"
-
-/**
- * Determines if email should be routed to dev environment
- * Matches pattern: *-dev@domain.com
- */
-function isDevEmail(toAddress: string): boolean {
-  const localPart = toAddress.split("@")[0]
-  return localPart?.endsWith("-dev") ?? false
-}
-
-/**
- * Gets the Convex configuration based on the email address
- */
-function getConvexConfig(toAddress: string, env: Env): ConvexConfig | null {
-  const isDev = isDevEmail(toAddress)
-
-  if (isDev) {
-    if (!env.CONVEX_URL_DEV || !env.INTERNAL_API_KEY_DEV) {
-      console.log("[Email Worker] Dev email received but dev environment not configured")
-      return null
-    }
-    return {
-      url: env.CONVEX_URL_DEV,
-      apiKey: env.INTERNAL_API_KEY_DEV,
-    }
-  }
-
-  return {
-    url: env.CONVEX_URL,
-    apiKey: env.INTERNAL_API_KEY,
-  }
-}
-
-/**
- * Checks if this is an import email (to import@hushletter.com)
- * Story 8.3: Forward-to-import endpoint routing
- */
-function isImportEmail(toAddress: string): boolean {
-  const localPart = toAddress.split("@")[0]
-  return localPart?.toLowerCase() === "import"
-}
+import { getSenderAuthVerdict, getTrustedAuthservIds } from "./senderAuth"
+import { resolveEmailRoute, getConvexConfig } from "./routing"
 
 export default {
   /**
    * Handles incoming emails from Cloudflare Email Routing
    * Parses the email content and sends it to Convex for storage
-   * Routes based on email address:
+   * Routes based on email address (see resolveEmailRoute):
    * - import@ → Import handler (Story 8.3)
    * - *-dev@ → Dev environment
-   * - other → Prod environment (dedicated address)
+   * - other (incl. custom domains) → Prod environment
    */
   async email(message: ForwardableEmailMessage, env: Env): Promise<void> {
     const toAddress = message.to
     const fromAddress = message.from
+    const route = resolveEmailRoute(toAddress, env)
 
     // Story 8.3: Route import@ emails to dedicated handler (AC #1, #7)
-    if (isImportEmail(toAddress)) {
+    if (route.type === "import") {
       console.log(`[Email Worker] Import email from: ${fromAddress}`)
       await handleImportEmail(message, env)
       return
     }
 
-    const isDev = isDevEmail(toAddress)
-    console.log(`[Email Worker] Received email to: ${toAddress} from: ${fromAddress} (env: ${isDev ? "dev" : "prod"})`)
+    console.log(`[Email Worker] Received email to: ${toAddress} from: ${fromAddress} (env: ${route.environment})`)
 
     try {
       // Get the Convex config for this email (dev or prod)
-      const convexConfig = getConvexConfig(toAddress, env)
+      const convexConfig = getConvexConfig(route.environment, env)
       if (!convexConfig) {
         console.log("[Email Worker] Skipping email - no valid Convex config")
         return
@@ -86,6 +52,14 @@ export default {
           `hasHtml=${!!parsed.html}, hasText=${!!parsed.text}`
       )
 
+      const attachments = getForwardableAttachments(parsed)
+      if (attachments.length < parsed.attachments.length) {
+        console.log(
+          `[Email Worker] Forwarding ${attachments.length} of ${parsed.attachments.length} attachments ` +
+            `(embedded images and over-budget files skipped)`
+        )
+      }
+
       // Use parsed sender info, fallback to envelope for name extraction
       const senderName = parsed.senderName || extractSenderName(fromAddress)
 
@@ -98,10 +72,26 @@ export default {
         receivedAt: parsed.date.getTime(),
         htmlContent: contentType === "html" ? content : undefined,
         textContent: contentType === "text" ? content : undefined,
+        attachments: attachments.length > 0 ? attachments : undefined,
+        messageId: parsed.messageId,
+        listId: parsed.listId,
+        listUnsubscribe: parsed.listUnsubscribe,
+        listUnsubscribePost: parsed.listUnsubscribePost,
+        precedence: parsed.precedence,
+        rawEmail: getForwardableRawEmail(parsed),
+        senderAuth: getSenderAuthVerdict(
+          parsed.authenticationResults,
+          parsed.from || fromAddress,
+          getTrustedAuthservIds(env)
+        ),
       })
 
       if (result.success) {
         console.log(`[Email Worker] Newsletter created: ${result.newsletterId} for user: ${result.userId}`)
+      } else if (result.code === "ALIAS_DISABLED") {
+        // The user burned this alias - bounce it so the sender stops mailing it
+        console.log(`[Email Worker] Rejecting email to disabled alias: ${toAddress}`)
+        message.setReject("This address has been disabled")
       } else {
         // Log the error but don't throw - we don't want to reject the email
         console.log(`[Email Worker] Email processing returned error: ${result.error}`)
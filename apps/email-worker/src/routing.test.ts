@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest"
+import { getConvexConfig, getServiceDomains, resolveEmailRoute } from "./routing"
+import type { Env } from "./types"
+
+describe("routing", () => {
+  const env = { SERVICE_EMAIL_DOMAINS: "hushletter.com, Mail.Hushletter.com" }
+
+  describe("getServiceDomains", () => {
+    it("parses the comma-separated list", () => {
+      expect(getServiceDomains(env)).toEqual(["hushletter.com", "mail.hushletter.com"])
+    })
+
+    it("returns null when not configured", () => {
+      expect(getServiceDomains({})).toBeNull()
+      expect(getServiceDomains({ SERVICE_EMAIL_DOMAINS: " , " })).toBeNull()
+    })
+  })
+
+  describe("resolveEmailRoute", () => {
+    it("routes import@ on our domains to the import handler", () => {
+      expect(resolveEmailRoute("import@hushletter.com", env)).toEqual({ type: "import" })
+      expect(resolveEmailRoute("IMPORT@mail.hushletter.com", env)).toEqual({ type: "import" })
+    })
+
+    it("routes *-dev@ on our domains to the dev backend", () => {
+      expect(resolveEmailRoute("alex-dev@hushletter.com", env)).toEqual({
+        type: "newsletter",
+        environment: "dev",
+      })
+      expect(resolveEmailRoute("alex-dev+shop@hushletter.com", env)).toEqual({
+        type: "newsletter",
+        environment: "dev",
+      })
+    })
+
+    it("routes other addresses on our domains to prod", () => {
+      expect(resolveEmailRoute("alex-1234@hushletter.com", env)).toEqual({
+        type: "newsletter",
+        environment: "prod",
+      })
+      expect(resolveEmailRoute("import+x@hushletter.com", env)).toEqual({
+        type: "newsletter",
+        environment: "prod",
+      })
+    })
+
+    it("routes everything on custom domains to prod", () => {
+      for (const address of ["import@ourcompany.com", "team-dev@ourcompany.com", "reading@ourcompany.com"]) {
+        expect(resolveEmailRoute(address, env)).toEqual({ type: "newsletter", environment: "prod" })
+      }
+    })
+
+    it("treats every domain as ours when not configured", () => {
+      expect(resolveEmailRoute("import@anything.example", {})).toEqual({ type: "import" })
+      expect(resolveEmailRoute("alex-dev@anything.example", {})).toEqual({
+        type: "newsletter",
+        environment: "dev",
+      })
+    })
+  })
+
+  describe("getConvexConfig", () => {
+    const fullEnv = {
+      CONVEX_URL: "https://prod.convex.cloud",
+      INTERNAL_API_KEY: "prod-key",
+      CONVEX_URL_DEV: "https://dev.convex.cloud",
+      INTERNAL_API_KEY_DEV: "dev-key",
+    } as Env
+
+    it("returns the config of the route's environment", () => {
+      expect(getConvexConfig("prod", fullEnv)).toEqual({ url: "https://prod.convex.cloud", apiKey: "prod-key" })
+      expect(getConvexConfig("dev", fullEnv)).toEqual({ url: "https://dev.convex.cloud", apiKey: "dev-key" })
+    })
+
+    it("returns null when dev isn't configured", () => {
+      expect(getConvexConfig("dev", { ...fullEnv, CONVEX_URL_DEV: undefined })).toBeNull()
+    })
+  })
+})
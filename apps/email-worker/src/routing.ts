@@ -0,0 +1,85 @@
+import type { Env } from "./types"
+import type { ConvexConfig } from "./convexClient"
+
+/**
+ * Where an inbound email should go
+ * - import: forward-to-import handler (Story 8.3)
+ * - newsletter: regular ingestion on the dev or prod backend
+ */
+export type EmailRoute =
+  | { type: "import" }
+  | { type: "newsletter"; environment: "dev" | "prod" }
+
+/**
+ * Domains we hand out addresses on (comma-separated SERVICE_EMAIL_DOMAINS)
+ * Any other domain is a user's custom domain.
+ *
+ * @returns null when not configured: every domain is then treated as ours
+ */
+export function getServiceDomains(env: Pick<Env, "SERVICE_EMAIL_DOMAINS">): string[] | null {
+  const domains = (env.SERVICE_EMAIL_DOMAINS ?? "")
+    .split(",")
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean)
+  return domains.length > 0 ? domains : null
+}
+
+/**
+ * Split an address into its local part (without +tag) and domain
+ */
+function splitAddress(toAddress: string): { localPart: string; domain: string } {
+  const atIndex = toAddress.lastIndexOf("@")
+  const localPart = atIndex === -1 ? toAddress : toAddress.slice(0, atIndex)
+  return {
+    localPart: localPart.split("+")[0].toLowerCase(),
+    domain: atIndex === -1 ? "" : toAddress.slice(atIndex + 1).toLowerCase(),
+  }
+}
+
+/**
+ * Decide where an email goes based on its recipient
+ *
+ * The import@ and *-dev@ conventions only apply on our own domains: on a
+ * custom domain (e.g. import@ourcompany.com) they are regular addresses that
+ * belong to the domain's owner, so they go to prod ingestion like any other.
+ */
+export function resolveEmailRoute(
+  toAddress: string,
+  env: Pick<Env, "SERVICE_EMAIL_DOMAINS">
+): EmailRoute {
+  const { localPart, domain } = splitAddress(toAddress)
+  const serviceDomains = getServiceDomains(env)
+  if (serviceDomains && !serviceDomains.includes(domain)) {
+    return { type: "newsletter", environment: "prod" }
+  }
+
+  // Story 8.3: import@ (no plus-addressing) is the forward-to-import endpoint
+  if (toAddress.slice(0, toAddress.lastIndexOf("@")).toLowerCase() === "import") {
+    return { type: "import" }
+  }
+
+  // *-dev@ (and plus-addresses like *-dev+tag@) go to the dev backend
+  return { type: "newsletter", environment: localPart.endsWith("-dev") ? "dev" : "prod" }
+}
+
+/**
+ * Gets the Convex configuration for a route's environment
+ * @returns null when the dev environment isn't configured
+ */
+export function getConvexConfig(environment: "dev" | "prod", env: Env): ConvexConfig | null {
+  if (environment === "dev") {
+    if (!env.CONVEX_URL_DEV || !env.INTERNAL_API_KEY_DEV) {
+      console.log("[Email Worker] Dev email received but dev environment not configured")
+      return null
+    }
+    return {
+      url: env.CONVEX_URL_DEV,
+      apiKey: env.INTERNAL_API_KEY_DEV,
+    }
+  }
+
+  return {
+    url: env.CONVEX_URL,
+    apiKey: env.INTERNAL_API_KEY,
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest"
+import {
+  getAuthservId,
+  getSenderAuthVerdict,
+  getTrustedAuthservIds,
+  parseAuthenticationResults,
+} from "./senderAuth"
+
+const TRUSTED = ["mx.cloudflare.net"]
+
+describe("senderAuth", () => {
+  describe("parseAuthenticationResults", () => {
+    it("parses method results and their properties", () => {
+      const results = parseAuthenticationResults(
+        "mx.cloudflare.net; dkim=pass (2048-bit key) header.d=example.com header.s=s1 header.b=AbC; " +
+          "spf=softfail (mx.cloudflare.net: domain does not designate) smtp.mailfrom=bounce@esp.example.net; " +
+          'dmarc=pass header.from=example.com policy.dmarc="reject"'
+      )
+
+      expect(results).toEqual([
+        {
+          method: "dkim",
+          result: "pass",
+          properties: { "header.d": "example.com", "header.s": "s1", "header.b": "AbC" },
+        },
+        {
+          method: "spf",
+          result: "softfail",
+          properties: { "smtp.mailfrom": "bounce@esp.example.net" },
+        },
+        {
+          method: "dmarc",
+          result: "pass",
+          properties: { "header.from": "example.com", "policy.dmarc": "reject" },
+        },
+      ])
+    })
+
+    it("returns nothing for a missing header or one without results", () => {
+      expect(parseAuthenticationResults(undefined)).toEqual([])
+      expect(parseAuthenticationResults("mx.cloudflare.net; none")).toEqual([])
+    })
+  })
+
+  describe("getSenderAuthVerdict", () => {
+    it("passes when DMARC passes", () => {
+      expect(
+        getSenderAuthVerdict(
+          "mx.cloudflare.net; dkim=pass header.d=example.com; spf=pass smtp.mailfrom=example.com; dmarc=pass header.from=example.com",
+          "news@example.com",
+          TRUSTED
+        )
+      ).toEqual({ verdict: "pass", spf: "pass", dkim: "pass", dmarc: "pass" })
+    })
+
+    it("passes on a DKIM signature aligned with the From domain", () => {
+      expect(
+        getSenderAuthVerdict(
+          "mx.cloudflare.net; dkim=pass header.d=mail.example.com; spf=none smtp.mailfrom=esp.example.net",
+          "news@example.com",
+          TRUSTED
+        ).verdict
+      ).toBe("pass")
+    })
+
+    it("fails when only an unrelated domain is authenticated", () => {
+      // A spoofer can pass SPF and DKIM for their own domain
+      expect(
+        getSenderAuthVerdict(
+          "mx.cloudflare.net; dkim=pass header.d=spoofer.example.org; spf=pass smtp.mailfrom=spoofer.example.org; dmarc=none",
+          "news@trusted.example.com",
+          TRUSTED
+        )
+      ).toEqual({ verdict: "fail", spf: "pass", dkim: "pass", dmarc: "none" })
+    })
+
+    it("fails when DMARC fails", () => {
+      expect(
+        getSenderAuthVerdict(
+          "mx.cloudflare.net; dkim=fail header.d=example.com; spf=fail smtp.mailfrom=example.com; dmarc=fail header.from=example.com",
+          "news@example.com",
+          TRUSTED
+        ).verdict
+      ).toBe("fail")
+    })
+
+    it("has no verdict without an Authentication-Results header", () => {
+      expect(getSenderAuthVerdict(undefined, "news@example.com", TRUSTED)).toEqual({ verdict: "none" })
+    })
+
+    it("ignores a header added by a server we don't trust", () => {
+      const forged =
+        "mail.spoofer.example.org; dkim=pass header.d=example.com; dmarc=pass header.from=example.com"
+
+      expect(getSenderAuthVerdict(forged, "news@example.com", TRUSTED)).toEqual({ verdict: "none" })
+      expect(
+        getSenderAuthVerdict(forged.replace("mail.spoofer.example.org", "mx.cloudflare.net"), "news@example.com", [])
+      ).toEqual({ verdict: "none" })
+    })
+  })
+
+  describe("getAuthservId", () => {
+    it("reads the authserv-id, without version or comments", () => {
+      expect(getAuthservId("MX.Cloudflare.net 1 (our mx); spf=pass")).toBe("mx.cloudflare.net")
+      expect(getAuthservId("mx.cloudflare.net; none")).toBe("mx.cloudflare.net")
+      expect(getAuthservId(undefined)).toBeUndefined()
+    })
+  })
+
+  describe("getTrustedAuthservIds", () => {
+    it("splits and normalizes the configured ids", () => {
+      expect(getTrustedAuthservIds({ TRUSTED_AUTHSERV_IDS: " MX.cloudflare.net, mx2.example.com ," })).toEqual([
+        "mx.cloudflare.net",
+        "mx2.example.com",
+      ])
+      expect(getTrustedAuthservIds({})).toEqual([])
+    })
+  })
+})
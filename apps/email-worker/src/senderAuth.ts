@@ -0,0 +1,125 @@
+import type { Env, SenderAuthPayload } from "./types"
+
+/**
+ * One method result from an Authentication-Results header (RFC 8601)
+ * e.g. "dkim=pass header.d=example.com header.s=s1"
+ */
+export interface AuthenticationResult {
+  method: string
+  result: string
+  /** Properties such as header.d, header.from, smtp.mailfrom (lowercased keys) */
+  properties: Record<string, string>
+}
+
+/**
+ * Parse an Authentication-Results header value
+ * Comments in parentheses are ignored; the leading authserv-id is skipped.
+ *
+ * @example
+ * parseAuthenticationResults("mx.cloudflare.net; spf=pass smtp.mailfrom=news.example.com; dmarc=pass header.from=example.com")
+ */
+export function parseAuthenticationResults(value: string | undefined): AuthenticationResult[] {
+  if (!value) return []
+
+  const withoutComments = value.replace(/\([^()]*\)/g, " ")
+  const [, ...resinfos] = withoutComments.split(";")
+
+  const results: AuthenticationResult[] = []
+  for (const resinfo of resinfos) {
+    const match = resinfo.trim().match(/^([a-z0-9-]+)\s*=\s*([a-z]+)/i)
+    if (!match) continue
+
+    const properties: Record<string, string> = {}
+    for (const property of resinfo.matchAll(/([a-z]+\.[a-z0-9-]+)\s*=\s*"?([^\s";]+)"?/gi)) {
+      properties[property[1].toLowerCase()] = property[2]
+    }
+    results.push({ method: match[1].toLowerCase(), result: match[2].toLowerCase(), properties })
+  }
+  return results
+}
+
+/**
+ * The authserv-id of an Authentication-Results header: who ran the checks
+ * e.g. "mx.cloudflare.net" (an optional version after it is dropped)
+ */
+export function getAuthservId(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  const [authservInfo] = value.replace(/\([^()]*\)/g, " ").split(";")
+  return authservInfo.trim().split(/\s+/)[0]?.toLowerCase() || undefined
+}
+
+/**
+ * Authserv-ids of our receiving servers (comma-separated TRUSTED_AUTHSERV_IDS)
+ * An empty list trusts no Authentication-Results header at all.
+ */
+export function getTrustedAuthservIds(env: Pick<Env, "TRUSTED_AUTHSERV_IDS">): string[] {
+  return (env.TRUSTED_AUTHSERV_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+/**
+ * Domain part of an address, or the value itself if it's already a domain
+ */
+function getDomain(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  return value.slice(value.lastIndexOf("@") + 1).toLowerCase() || undefined
+}
+
+/**
+ * Relaxed DMARC-style alignment: same domain, or one is a subdomain of the other
+ */
+function isAligned(domain: string | undefined, fromDomain: string): boolean {
+  if (!domain || !fromDomain) return false
+  return domain === fromDomain || domain.endsWith(`.${fromDomain}`) || fromDomain.endsWith(`.${domain}`)
+}
+
+/**
+ * Decide whether the From address was authenticated
+ *
+ * - pass: DMARC passed, or DKIM/SPF passed for a domain aligned with From
+ * - fail: our receiving server checked the message but nothing vouches for From
+ * - none: no Authentication-Results header from our receiving server, so
+ *   nothing can be said
+ *
+ * Only the topmost Authentication-Results header should be passed in: it is
+ * the one added by our receiving server. Headers further down come from the
+ * sender (or earlier hops) and can be forged - and so can the topmost one if
+ * our server didn't add any, which is why its authserv-id must be trusted.
+ */
+export function getSenderAuthVerdict(
+  authenticationResults: string | undefined,
+  fromAddress: string,
+  trustedAuthservIds: string[]
+): SenderAuthPayload {
+  const authservId = getAuthservId(authenticationResults)
+  if (!authservId || !trustedAuthservIds.includes(authservId)) return { verdict: "none" }
+
+  const results = parseAuthenticationResults(authenticationResults)
+  if (results.length === 0) return { verdict: "none" }
+
+  const fromDomain = getDomain(fromAddress) ?? ""
+  const dmarc = results.find((r) => r.method === "dmarc")
+  const spf = results.find((r) => r.method === "spf")
+  const dkims = results.filter((r) => r.method === "dkim")
+
+  const dkimAlignedPass = dkims.some(
+    (r) =>
+      r.result === "pass" &&
+      isAligned(getDomain(r.properties["header.d"] ?? r.properties["header.i"]), fromDomain)
+  )
+  const spfAlignedPass =
+    spf?.result === "pass" &&
+    isAligned(getDomain(spf.properties["smtp.mailfrom"] ?? spf.properties["smtp.helo"]), fromDomain)
+
+  const isAuthenticated = dmarc?.result === "pass" || dkimAlignedPass || spfAlignedPass
+  const dkimResult = dkims.find((r) => r.result === "pass")?.result ?? dkims[0]?.result
+
+  return {
+    verdict: isAuthenticated ? "pass" : "fail",
+    spf: spf?.result,
+    dkim: dkimResult,
+    dmarc: dmarc?.result,
+  }
+}
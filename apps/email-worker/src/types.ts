@@ -10,6 +10,12 @@ export interface Env {
   INTERNAL_API_KEY_DEV?: string
   // Rate limiting for import (optional - Story 8.3)
   IMPORT_RATE_LIMIT?: KVNamespace
+  // Our own receiving domains, comma-separated (optional - any other domain
+  // is a user's custom domain, where import@ and *-dev@ aren't special)
+  SERVICE_EMAIL_DOMAINS?: string
+  // Authserv-ids of our receiving servers, comma-separated (optional - an
+  // Authentication-Results header from anyone else is ignored)
+  TRUSTED_AUTHSERV_IDS?: string
 }
 
 /**
@@ -25,6 +31,46 @@ export interface EmailPayload {
   htmlContent?: string
   /** Plain text content - fallback if no HTML */
   textContent?: string
+  /** File attachments (PDFs, calendar invites, ...) to store alongside the body */
+  attachments?: EmailAttachmentPayload[]
+  /** Message-ID header (without angle brackets) for duplicate detection */
+  messageId?: string
+  /** List-Id header (RFC 2919) */
+  listId?: string
+  /** List-Unsubscribe header (RFC 2369) */
+  listUnsubscribe?: string
+  /** List-Unsubscribe-Post header (RFC 8058), e.g. "List-Unsubscribe=One-Click" */
+  listUnsubscribePost?: string
+  /** Precedence header (lowercased), e.g. "bulk" or "list" */
+  precedence?: string
+  /** Base64-encoded original message, archived when the user keeps original emails */
+  rawEmail?: string
+  /** SPF/DKIM/DMARC outcome for the From address (see senderAuth.ts) */
+  senderAuth?: SenderAuthPayload
+}
+
+/**
+ * Sender authentication verdict sent to Convex
+ * Raw results are the method results from Authentication-Results, e.g. "pass", "softfail"
+ */
+export interface SenderAuthPayload {
+  verdict: "pass" | "fail" | "none"
+  spf?: string
+  dkim?: string
+  dmarc?: string
+}
+
+/**
+ * Attachment sent to Convex as part of the email payload
+ */
+export interface EmailAttachmentPayload {
+  filename: string
+  mimeType: string
+  /** Decoded size in bytes */
+  size: number
+  /** Base64-encoded content */
+  content: string
+  contentId?: string
 }
 
 /**
@@ -35,6 +81,8 @@ export interface ConvexEmailResponse {
   userId?: string
   newsletterId?: string
   error?: string
+  /** Machine-readable error code (e.g. ALIAS_DISABLED) */
+  code?: string
 }
 
 // ============================================================
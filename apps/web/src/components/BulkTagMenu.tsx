@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation } from "convex/react";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { toast } from "sonner";
+import {
+  Button,
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@hushletter/ui";
+import { Tag } from "lucide-react";
+import type { TagChipData } from "./TagChips";
+import { m } from "@/paraglide/messages.js";
+
+interface BulkTagMenuProps {
+  userNewsletterIds: string[];
+}
+
+/**
+ * BulkTagMenu - Adds one tag to every newsletter shown in a list
+ */
+export function BulkTagMenu({ userNewsletterIds }: BulkTagMenuProps) {
+  const { data } = useQuery(convexQuery(api.tags.listTags, {}));
+  const tagNewsletters = useMutation(api.tags.tagNewsletters);
+  const [isPending, setIsPending] = useState(false);
+  const tags = (data ?? []) as TagChipData[];
+
+  const handleTag = async (tag: TagChipData) => {
+    setIsPending(true);
+    try {
+      const result = await tagNewsletters({
+        tagId: tag._id as Id<"tags">,
+        userNewsletterIds: userNewsletterIds as Id<"userNewsletters">[],
+      });
+      toast.success(
+        m.tags_bulkTagged({ count: result.tagged, name: tag.name }),
+      );
+    } catch (error) {
+      console.error("[BulkTagMenu] Failed to tag newsletters:", error);
+      toast.error(m.tags_saveError());
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        render={
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1.5 px-2 text-xs text-muted-foreground"
+            aria-label={m.tags_bulkTagLabel({
+              count: userNewsletterIds.length,
+            })}
+            disabled={isPending || userNewsletterIds.length === 0}
+          />
+        }
+      >
+        <Tag className="size-3.5" />
+        {m.tags_bulkTag()}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-48">
+        {tags.length === 0 ? (
+          <DropdownMenuItem disabled>{m.tags_emptyHint()}</DropdownMenuItem>
+        ) : (
+          tags.map((tag) => (
+            <DropdownMenuItem
+              key={tag._id}
+              onClick={() => void handleTag(tag)}
+            >
+              <span
+                aria-hidden="true"
+                className="size-2 shrink-0 rounded-full bg-muted-foreground/50"
+                style={tag.color ? { backgroundColor: tag.color } : undefined}
+              />
+              {tag.name}
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
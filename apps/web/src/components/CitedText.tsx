@@ -0,0 +1,81 @@
+import { Link } from "@tanstack/react-router";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { parseBriefing, type BriefingSegment } from "@/lib/digestBriefing";
+import { m } from "@/paraglide/messages.js";
+
+export interface CitedNewsletter {
+  userNewsletterId: Id<"userNewsletters">;
+  subject: string;
+}
+
+function CitedSegments({
+  segments,
+  newslettersByRef,
+}: {
+  segments: BriefingSegment[];
+  newslettersByRef: Map<number, CitedNewsletter>;
+}) {
+  return segments.map((segment, index) => {
+    if (segment.type === "text") return segment.text;
+
+    const newsletter = newslettersByRef.get(segment.ref);
+    if (!newsletter) return `[${segment.ref}]`;
+    return (
+      <Link
+        key={index}
+        to="/newsletters/$id"
+        params={{ id: newsletter.userNewsletterId }}
+        className="align-super text-xs font-medium text-primary hover:underline"
+        aria-label={`${m.digest_openNewsletter()}: ${newsletter.subject}`}
+      >
+        [{segment.ref}]
+      </Link>
+    );
+  });
+}
+
+/**
+ * CitedText - AI text (digest briefings, answers) whose [n] citations link to
+ * the newsletters they refer to
+ *
+ * Citations missing from `newslettersByRef` stay plain text.
+ */
+export function CitedText({
+  text,
+  newslettersByRef,
+}: {
+  text: string;
+  newslettersByRef: Map<number, CitedNewsletter>;
+}) {
+  return (
+    <div className="space-y-3 leading-relaxed">
+      {parseBriefing(text).map((block, index) =>
+        block.type === "heading" ? (
+          <h2 key={index} className="pt-2 text-lg font-semibold">
+            <CitedSegments
+              segments={block.segments}
+              newslettersByRef={newslettersByRef}
+            />
+          </h2>
+        ) : block.type === "bullet" ? (
+          <p key={index} className="flex gap-2">
+            <span aria-hidden="true">•</span>
+            <span>
+              <CitedSegments
+                segments={block.segments}
+                newslettersByRef={newslettersByRef}
+              />
+            </span>
+          </p>
+        ) : (
+          <p key={index}>
+            <CitedSegments
+              segments={block.segments}
+              newslettersByRef={newslettersByRef}
+            />
+          </p>
+        ),
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { Link } from "@tanstack/react-router";
 import { Badge, Button, Card, CardContent, Checkbox } from "@hushletter/ui";
 import { cn } from "@/lib/utils";
-import { Sparkles, Users, Lock, Download, Check } from "lucide-react";
+import { Sparkles, Users, Lock, Download, Check, ListPlus } from "lucide-react";
 import { m } from "@/paraglide/messages.js";
 
 /**
@@ -41,6 +41,8 @@ interface CommunityNewsletterCardProps {
   isSelected?: boolean;
   onSelectionChange?: (selected: boolean) => void;
   onQuickImport?: () => void;
+  /** Add to the collection (if needed) and to the reading queue */
+  onReadLater?: () => void;
 }
 
 /**
@@ -131,6 +133,7 @@ export function CommunityNewsletterCard({
   isSelected,
   onSelectionChange,
   onQuickImport,
+  onReadLater,
 }: CommunityNewsletterCardProps) {
   const senderDisplay = getSenderDisplay(newsletter);
 
@@ -168,6 +171,14 @@ export function CommunityNewsletterCard({
     }
   };
 
+  const handleReadLater = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (onReadLater) {
+      onReadLater();
+    }
+  };
+
   const cardContent = (
     <Card
       className={cn(
@@ -228,7 +239,18 @@ export function CommunityNewsletterCard({
           <div className="flex flex-col items-end gap-1 shrink-0">
             {/* Story 9.9 Task 6.1-6.2: Quick import button or "In Collection" badge */}
             {!selectionMode && (
-              <div className="mb-1">
+              <div className="mb-1 flex items-center gap-1.5">
+                {onReadLater && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 text-xs"
+                    onClick={handleReadLater}
+                  >
+                    <ListPlus className="h-3 w-3 mr-1" aria-hidden="true" />
+                    {m.readingQueue_readLater()}
+                  </Button>
+                )}
                 {alreadyOwned ? (
                   <Badge variant="secondary" className="text-xs py-0.5 px-2">
                     <Check className="h-3 w-3 mr-1" aria-hidden="true" />
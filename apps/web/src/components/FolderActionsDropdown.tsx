@@ -1,8 +1,9 @@
-import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { useConvexMutation } from "@convex-dev/react-query";
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
 import { api } from "@hushletter/backend";
 import { toast } from "sonner";
+import { ConvexError } from "convex/values";
 import {
   ArchiveBoldIcon,
   Button,
@@ -10,12 +11,24 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
   EditOneIcon,
 } from "@hushletter/ui";
-import { MoreHorizontal, Merge } from "lucide-react";
+import {
+  MoreHorizontal,
+  Merge,
+  MailX,
+  FolderInput,
+  Hourglass,
+} from "lucide-react";
 import { RenameFolderDialog } from "./RenameFolderDialog";
 import { MergeFolderDialog } from "./MergeFolderDialog";
+import { UnsubscribeSenderDialog } from "./UnsubscribeSenderDialog";
+import { FolderRetentionDialog } from "./FolderRetentionDialog";
+import { getFolderDescendantIds, orderFolderTree } from "@/lib/folderTree";
 import { m } from "@/paraglide/messages.js";
 
 /**
@@ -25,8 +38,21 @@ import { m } from "@/paraglide/messages.js";
  * Actions:
  * - Rename: Opens rename dialog
  * - Hide: Hides folder from sidebar (immediate action)
+ * - Move to: Nests the folder under another folder (or back to the top level)
+ * - Retention...: Opens retention policy dialog
  * - Merge into...: Opens merge dialog
+ * - Unsubscribe: Opens unsubscribe dialog (List-Unsubscribe / RFC 8058)
+ */
+
+/**
+ * Message of a ConvexError, or the fallback for anything else
  */
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ConvexError) {
+    return (error.data as { message?: string }).message ?? fallback;
+  }
+  return fallback;
+}
 
 interface FolderActionsDropdownProps {
   folderId: string;
@@ -42,6 +68,8 @@ export function FolderActionsDropdown({
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isRenameOpen, setIsRenameOpen] = useState(false);
   const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const [isUnsubscribeOpen, setIsUnsubscribeOpen] = useState(false);
+  const [isRetentionOpen, setIsRetentionOpen] = useState(false);
   const queryClient = useQueryClient();
 
   // Code Review Fix MEDIUM-1: Use specific query keys for invalidation
@@ -58,6 +86,48 @@ export function FolderActionsDropdown({
     },
   });
 
+  // Only needed for the "Move to" submenu, so wait until the menu opens
+  const { data: folders } = useQuery({
+    ...convexQuery(api.folders.listVisibleFoldersWithUnreadCounts, {}),
+    enabled: isMenuOpen,
+  });
+
+  // A folder can't move into itself or its own subfolders
+  const moveTargets = useMemo(() => {
+    const folderList = (folders ?? []) as Array<{
+      _id: string;
+      name: string;
+      parentId?: string;
+    }>;
+    const excluded = getFolderDescendantIds(folderList, folderId);
+    excluded.add(folderId);
+    return orderFolderTree(
+      folderList.filter((folder) => !excluded.has(folder._id)),
+    );
+  }, [folders, folderId]);
+  const currentParentId = (
+    folders as Array<{ _id: string; parentId?: string }> | undefined
+  )?.find((folder) => folder._id === folderId)?.parentId;
+
+  const moveMutation = useMutation({
+    mutationFn: useConvexMutation(api.folders.moveFolder),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["folders"] });
+      toast.success(m.folderActions_movedSuccess({ folderName }));
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, m.folderActions_moveError()));
+    },
+  });
+
+  const handleMove = (parentId: string | undefined) => {
+    type MoveArgs = Parameters<typeof moveMutation.mutate>[0];
+    moveMutation.mutate({
+      folderId: folderId as MoveArgs["folderId"],
+      parentId: parentId as MoveArgs["parentId"],
+    });
+  };
+
   const handleHide = () => {
     hideMutation.mutate({
       folderId: folderId as Parameters<
@@ -97,10 +167,42 @@ export function FolderActionsDropdown({
             {m.folderActions_hide()}
           </DropdownMenuItem>
           <DropdownMenuSeparator />
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger disabled={moveMutation.isPending}>
+              <FolderInput className="size-3.5" />
+              {m.folderActions_moveTo()}
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+              <DropdownMenuItem
+                disabled={!currentParentId}
+                onClick={() => handleMove(undefined)}
+              >
+                {m.folderActions_moveToTopLevel()}
+              </DropdownMenuItem>
+              {moveTargets.map(({ folder, depth }) => (
+                <DropdownMenuItem
+                  key={folder._id}
+                  disabled={folder._id === currentParentId}
+                  onClick={() => handleMove(folder._id)}
+                  style={{ paddingLeft: 8 + depth * 12 }}
+                >
+                  <span className="truncate">{folder.name}</span>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuItem onClick={() => setIsRetentionOpen(true)}>
+            <Hourglass className="size-3.5" />
+            {m.folderActions_retention()}
+          </DropdownMenuItem>
           <DropdownMenuItem onClick={() => setIsMergeOpen(true)}>
             <Merge className="size-3.5" />
             {m.folderActions_mergeInto()}
           </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setIsUnsubscribeOpen(true)}>
+            <MailX className="size-3.5" />
+            {m.folderActions_unsubscribe()}
+          </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
 
@@ -117,6 +219,26 @@ export function FolderActionsDropdown({
         sourceFolderId={folderId}
         sourceFolderName={folderName}
       />
+
+      {/* Mounted only while open: it subscribes to the folder's retention */}
+      {isRetentionOpen && (
+        <FolderRetentionDialog
+          open={isRetentionOpen}
+          onOpenChange={setIsRetentionOpen}
+          folderId={folderId}
+          folderName={folderName}
+        />
+      )}
+
+      {/* Likewise: it loads the folder's senders and their unsubscribe links */}
+      {isUnsubscribeOpen && (
+        <UnsubscribeSenderDialog
+          open={isUnsubscribeOpen}
+          onOpenChange={setIsUnsubscribeOpen}
+          folderId={folderId}
+          folderName={folderName}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { ConvexError } from "convex/values";
+
+const mockSetFolderRetention = vi.fn();
+let savedData: unknown;
+let previewData: unknown;
+
+vi.mock("@convex-dev/react-query", () => ({
+  convexQuery: (api: unknown, args: unknown) => ({ queryKey: [api, args] }),
+}));
+
+vi.mock("@tanstack/react-query", async () => {
+  const actual = await vi.importActual("@tanstack/react-query");
+  return {
+    ...actual,
+    useQuery: ({ queryKey }: { queryKey: [string, unknown] }) => {
+      const args = queryKey[1];
+      if (args === "skip") return { data: undefined };
+      return {
+        data: (args as { policy?: unknown }).policy ? previewData : savedData,
+      };
+    },
+  };
+});
+
+vi.mock("convex/react", () => ({
+  useMutation: () => mockSetFolderRetention,
+}));
+
+vi.mock("@hushletter/backend", () => ({
+  api: {
+    folderRetention: {
+      previewFolderRetention: "previewFolderRetention",
+      setFolderRetention: "setFolderRetention",
+    },
+  },
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+import { FolderRetentionDialog } from "./FolderRetentionDialog";
+
+describe("FolderRetentionDialog", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    savedData = {
+      policy: { type: "days", days: 7 },
+      removeCount: 0,
+      totalCount: 12,
+    };
+    previewData = { removeCount: 4, totalCount: 12 };
+  });
+
+  it("loads the saved policy, previews it and saves changes", async () => {
+    const user = userEvent.setup();
+    const onOpenChange = vi.fn();
+    mockSetFolderRetention.mockResolvedValue(null);
+
+    render(
+      <FolderRetentionDialog
+        open
+        onOpenChange={onOpenChange}
+        folderId="folder_1"
+        folderName="Deals"
+      />,
+    );
+
+    const amount = screen.getByRole("spinbutton");
+    expect(amount).toHaveValue(7);
+    expect(screen.getByRole("status").textContent).toBe(
+      "This would move 4 of 12 issues to the bin now",
+    );
+
+    await user.clear(amount);
+    await user.type(amount, "14");
+    await user.click(screen.getByRole("button", { name: /^save$/i }));
+
+    await waitFor(() => {
+      expect(onOpenChange).toHaveBeenCalledWith(false);
+    });
+    expect(mockSetFolderRetention).toHaveBeenCalledWith({
+      folderId: "folder_1",
+      policy: { type: "days", days: 14 },
+    });
+  });
+
+  it("shows server validation errors inline", async () => {
+    const user = userEvent.setup();
+    mockSetFolderRetention.mockRejectedValue(
+      new ConvexError({
+        code: "VALIDATION_ERROR",
+        message: "Days must be a whole number between 1 and 3650",
+      }),
+    );
+
+    render(
+      <FolderRetentionDialog
+        open
+        onOpenChange={vi.fn()}
+        folderId="folder_1"
+        folderName="Deals"
+      />,
+    );
+
+    await user.click(screen.getByRole("button", { name: /^save$/i }));
+
+    expect((await screen.findByRole("alert")).textContent).toBe(
+      "Days must be a whole number between 1 and 3650",
+    );
+  });
+});
@@ -0,0 +1,252 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { toast } from "sonner";
+import {
+  Button,
+  Dialog,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogPanel,
+  DialogPopup,
+  DialogTitle,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@hushletter/ui";
+import { m } from "@/paraglide/messages.js";
+
+/** Select value for "no policy" */
+const KEEP_FOREVER = "forever";
+
+type RetentionPolicy =
+  | { type: "days"; days: number }
+  | { type: "lastIssues"; count: number }
+  | { type: "unreadOnly" };
+
+type RetentionMode = typeof KEEP_FOREVER | RetentionPolicy["type"];
+
+interface FolderRetentionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  folderId: string;
+  folderName: string;
+}
+
+/**
+ * Message of a ConvexError, or the fallback for anything else
+ */
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ConvexError) {
+    return (error.data as { message?: string }).message ?? fallback;
+  }
+  return fallback;
+}
+
+/**
+ * Policy from the form, or undefined for "keep forever" / an unusable number
+ */
+function toPolicy(
+  mode: RetentionMode,
+  amount: string,
+): RetentionPolicy | undefined {
+  const value = Number(amount);
+  const isValidAmount = amount.trim() !== "" && Number.isInteger(value);
+  switch (mode) {
+    case "days":
+      return isValidAmount ? { type: "days", days: value } : undefined;
+    case "lastIssues":
+      return isValidAmount ? { type: "lastIssues", count: value } : undefined;
+    case "unreadOnly":
+      return { type: "unreadOnly" };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * FolderRetentionDialog - Choose how long a folder keeps its newsletters
+ *
+ * Newsletters outside the policy are moved to the bin by an hourly job;
+ * favorites are always kept. Shows how many issues the chosen policy would
+ * remove right now. Range validation happens server-side.
+ */
+export function FolderRetentionDialog({
+  open,
+  onOpenChange,
+  folderId,
+  folderName,
+}: FolderRetentionDialogProps) {
+  const setFolderRetention = useMutation(
+    api.folderRetention.setFolderRetention,
+  );
+  const [mode, setMode] = useState<RetentionMode>(KEEP_FOREVER);
+  const [amount, setAmount] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const typedFolderId = folderId as Id<"folders">;
+  const { data: saved } = useQuery(
+    convexQuery(
+      api.folderRetention.previewFolderRetention,
+      open ? { folderId: typedFolderId } : "skip",
+    ),
+  );
+  const draftPolicy = toPolicy(mode, amount);
+  const { data: preview } = useQuery(
+    convexQuery(
+      api.folderRetention.previewFolderRetention,
+      open && draftPolicy
+        ? { folderId: typedFolderId, policy: draftPolicy }
+        : "skip",
+    ),
+  );
+
+  // Load the saved policy whenever the dialog opens (and once it arrives)
+  const savedPolicy = saved?.policy as RetentionPolicy | undefined;
+  const hasLoaded = saved !== undefined;
+  useEffect(() => {
+    if (!open) return;
+    setMode(savedPolicy?.type ?? KEEP_FOREVER);
+    setAmount(
+      savedPolicy?.type === "days"
+        ? String(savedPolicy.days)
+        : savedPolicy?.type === "lastIssues"
+          ? String(savedPolicy.count)
+          : "",
+    );
+    setError(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, hasLoaded]);
+
+  const modeLabels: Record<RetentionMode, string> = {
+    [KEEP_FOREVER]: m.retention_keepForever(),
+    days: m.retention_keepDays(),
+    lastIssues: m.retention_keepLastIssues(),
+    unreadOnly: m.retention_keepUnreadOnly(),
+  };
+  const needsAmount = mode === "days" || mode === "lastIssues";
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (needsAmount && !draftPolicy) {
+      setError(m.retention_amountRequired());
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await setFolderRetention({
+        folderId: typedFolderId,
+        policy: draftPolicy,
+      });
+      toast.success(m.retention_saved({ folderName }));
+      onOpenChange(false);
+    } catch (err) {
+      setError(getErrorMessage(err, m.retention_saveError()));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogPopup onClick={(e) => e.stopPropagation()}>
+        <form
+          noValidate
+          className="flex w-full flex-col gap-4"
+          onSubmit={(e) => void handleSubmit(e)}
+        >
+          <DialogHeader>
+            <DialogTitle>{m.retention_title({ folderName })}</DialogTitle>
+            <DialogDescription>{m.retention_description()}</DialogDescription>
+          </DialogHeader>
+          <DialogPanel className="grid gap-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-1.5">
+                <Label>{m.retention_policyLabel()}</Label>
+                <Select
+                  value={mode}
+                  onValueChange={(value) => {
+                    setMode(value as RetentionMode);
+                    setError(null);
+                  }}
+                >
+                  <SelectTrigger aria-label={m.retention_policyLabel()}>
+                    <SelectValue>{modeLabels[mode]}</SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(modeLabels) as RetentionMode[]).map(
+                      (value) => (
+                        <SelectItem key={value} value={value}>
+                          {modeLabels[value]}
+                        </SelectItem>
+                      ),
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              {needsAmount && (
+                <div className="grid gap-1.5">
+                  <Label htmlFor="retention-amount">
+                    {mode === "days"
+                      ? m.retention_daysLabel()
+                      : m.retention_issuesLabel()}
+                  </Label>
+                  <Input
+                    id="retention-amount"
+                    type="number"
+                    min={1}
+                    inputMode="numeric"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+            <p role="status" className="text-sm text-muted-foreground">
+              {mode === KEEP_FOREVER
+                ? m.retention_previewForever()
+                : preview && draftPolicy
+                  ? m.retention_preview({
+                      count: preview.removeCount,
+                      total: preview.totalCount,
+                    })
+                  : ""}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {m.retention_favoritesExempt()}
+            </p>
+            {error && (
+              <p role="alert" className="text-sm text-destructive">
+                {error}
+              </p>
+            )}
+          </DialogPanel>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              {m.retention_cancel()}
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? m.retention_saving() : m.retention_save()}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogPopup>
+    </Dialog>
+  );
+}
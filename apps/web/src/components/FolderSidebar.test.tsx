@@ -28,6 +28,10 @@ vi.mock("@hushletter/backend", () => ({
     folders: {
       listVisibleFoldersWithUnreadCounts: "folders.listVisibleFoldersWithUnreadCounts",
     },
+    folderRetention: {
+      previewFolderRetention: "folderRetention.previewFolderRetention",
+      setFolderRetention: "folderRetention.setFolderRetention",
+    },
     newsletters: {
       getHiddenNewsletterCount: "newsletters.getHiddenNewsletterCount",
       getFavoritedNewsletterCount: "newsletters.getFavoritedNewsletterCount",
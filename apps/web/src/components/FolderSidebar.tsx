@@ -6,6 +6,7 @@ import { Skeleton } from "@hushletter/ui";
 import { cn } from "@/lib/utils";
 import { FolderIcon, EyeOff, AlertCircle, Star, Trash2 } from "lucide-react";
 import { FolderActionsDropdown } from "./FolderActionsDropdown";
+import { orderFolderTree } from "@/lib/folderTree";
 import { m } from "@/paraglide/messages.js";
 
 /**
@@ -20,6 +21,8 @@ export interface FolderData {
   _id: string;
   userId: string;
   name: string;
+  /** Parent folder; top-level folders have none */
+  parentId?: string;
   senderEmail?: string;
   senderPreviews?: Array<{
     senderEmail: string;
@@ -32,6 +35,11 @@ export interface FolderData {
   newsletterCount: number;
   unreadCount: number;
   senderCount: number;
+  /** Counts including every subfolder */
+  totalNewsletterCount?: number;
+  totalUnreadCount?: number;
+  /** A sender in this folder kept mailing after the user unsubscribed */
+  isStillSendingAfterUnsubscribe?: boolean;
 }
 
 /** Type guard to validate folder data at runtime */
@@ -93,8 +101,8 @@ export function FolderSidebarSkeleton() {
  *
  * Features:
  * - "All Newsletters" at top (aggregate across visible folders)
- * - Folder list (visible folders only, sorted alphabetically)
- * - Each folder shows unread indicator and newsletter count
+ * - Folder list (visible folders only, subfolders indented under their parent)
+ * - Each folder shows unread indicator and newsletter count (including subfolders)
  * - "Hidden" section at bottom (count of hidden newsletters)
  *
  * Key differences from SenderSidebar:
@@ -135,7 +143,10 @@ export function FolderSidebar({
     return (folders as unknown[]).filter(isFolderData);
   }, [folders]);
 
-  // Calculate totals for "All Newsletters" (across visible folders only)
+  const folderTree = useMemo(() => orderFolderTree(folderList), [folderList]);
+
+  // Calculate totals for "All Newsletters" (across visible folders only).
+  // Uses direct counts so subfolders aren't counted twice.
   const { totalNewsletterCount, totalUnreadCount } = useMemo(() => {
     return folderList.reduce(
       (acc, folder) => ({
@@ -230,56 +241,63 @@ export function FolderSidebar({
 
       {/* Folder list - Primary navigation - Story 9.4 Task 1.1-1.4, Story 9.5 Task 4.2 */}
       <ul role="list" className="space-y-1">
-        {folderList.map((folder) => (
-          <li key={folder._id} className="group relative">
-            {/* Wrapper div instead of button to avoid nested buttons with dropdown */}
-            <div
-              className={cn(
-                "w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm",
-                "hover:bg-accent transition-colors text-left cursor-pointer",
-                selectedFolderId === folder._id && "bg-accent font-medium",
-              )}
+        {folderTree.map(({ folder, depth }) => {
+          const unreadCount = folder.totalUnreadCount ?? folder.unreadCount;
+          return (
+            <li
+              key={folder._id}
+              className="group relative"
+              style={depth > 0 ? { paddingLeft: depth * 12 } : undefined}
             >
-              {/* Main clickable area - triggers folder selection */}
-              <button
-                onClick={() => handleFolderClick(folder._id)}
-                aria-current={selectedFolderId === folder._id ? "page" : undefined}
-                className="flex items-center gap-2 truncate flex-1 mr-2 bg-transparent border-none p-0 text-left cursor-pointer"
+              {/* Wrapper div instead of button to avoid nested buttons with dropdown */}
+              <div
+                className={cn(
+                  "w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm",
+                  "hover:bg-accent transition-colors text-left cursor-pointer",
+                  selectedFolderId === folder._id && "bg-accent font-medium",
+                )}
               >
-                <FolderIcon
-                  className="h-4 w-4 flex-shrink-0 text-muted-foreground"
-                  aria-hidden="true"
-                  data-testid="folder-icon"
-                />
-                <span className="truncate">{folder.name}</span>
-              </button>
-              <div className="flex items-center gap-2 flex-shrink-0">
-                {/* Story 9.4 AC2: Unread count indicator */}
-                {folder.unreadCount > 0 && (
-                  <span
-                    className="h-2 w-2 rounded-full bg-primary/60"
-                    role="status"
-                    aria-label={m.folder_unreadInFolder({ count: folder.unreadCount, name: folder.name })}
+                {/* Main clickable area - triggers folder selection */}
+                <button
+                  onClick={() => handleFolderClick(folder._id)}
+                  aria-current={selectedFolderId === folder._id ? "page" : undefined}
+                  className="flex items-center gap-2 truncate flex-1 mr-2 bg-transparent border-none p-0 text-left cursor-pointer"
+                >
+                  <FolderIcon
+                    className="h-4 w-4 flex-shrink-0 text-muted-foreground"
+                    aria-hidden="true"
+                    data-testid="folder-icon"
                   />
-                )}
-                <span className="text-muted-foreground text-xs group-hover:hidden">
-                  {folder.newsletterCount}
-                </span>
-                {/* Story 9.5: Folder actions dropdown - appears on hover */}
-                <FolderActionsDropdown
-                  folderId={folder._id}
-                  folderName={folder.name}
-                  onHideSuccess={() => {
-                    // If hidden folder was selected, clear selection
-                    if (selectedFolderId === folder._id) {
-                      onFolderSelect(null);
-                    }
-                  }}
-                />
+                  <span className="truncate">{folder.name}</span>
+                </button>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {/* Story 9.4 AC2: Unread count indicator */}
+                  {unreadCount > 0 && (
+                    <span
+                      className="h-2 w-2 rounded-full bg-primary/60"
+                      role="status"
+                      aria-label={m.folder_unreadInFolder({ count: unreadCount, name: folder.name })}
+                    />
+                  )}
+                  <span className="text-muted-foreground text-xs group-hover:hidden">
+                    {folder.totalNewsletterCount ?? folder.newsletterCount}
+                  </span>
+                  {/* Story 9.5: Folder actions dropdown - appears on hover */}
+                  <FolderActionsDropdown
+                    folderId={folder._id}
+                    folderName={folder.name}
+                    onHideSuccess={() => {
+                      // If hidden folder was selected, clear selection
+                      if (selectedFolderId === folder._id) {
+                        onFolderSelect(null);
+                      }
+                    }}
+                  />
+                </div>
               </div>
-            </div>
-          </li>
-        ))}
+            </li>
+          );
+        })}
       </ul>
 
       {/* Empty state when no folders - Story 9.4 Task 6.1 */}
@@ -11,6 +11,9 @@ const DASHBOARD_PREFIXES = [
   "/settings",
   "/import",
   "/community",
+  "/highlights",
+  "/digests",
+  "/ask",
   "/admin",
   "/onboarding",
 ];
@@ -20,6 +20,7 @@ import {
   DialogTitle,
 } from "@hushletter/ui";
 import { AlertCircle } from "lucide-react";
+import { getFolderDescendantIds } from "@/lib/folderTree";
 import { m } from "@/paraglide/messages.js";
 
 /**
@@ -34,6 +35,7 @@ import { m } from "@/paraglide/messages.js";
 interface FolderData {
   _id: string;
   name: string;
+  parentId?: string;
   newsletterCount: number;
 }
 
@@ -107,6 +109,8 @@ export function MergeFolderDialog({
       if (error instanceof Error) {
         if (error.message.includes("Cannot merge folder into itself")) {
           toast.error(m.mergeFolderDlg_errorSelfMerge());
+        } else if (error.message.includes("one of its subfolders")) {
+          toast.error(m.mergeFolderDlg_errorSubfolderMerge());
         } else if (error.message.includes("Target folder not found")) {
           toast.error(m.mergeFolderDlg_errorTargetNotFound());
         } else if (error.message.includes("Source folder not found")) {
@@ -161,8 +165,11 @@ export function MergeFolderDialog({
     }
   }, [open]);
 
-  // Filter out source folder from targets
-  const availableTargets = folders.filter((f) => f._id !== sourceFolderId);
+  // Filter out source folder and its subfolders from targets
+  const sourceDescendantIds = getFolderDescendantIds(folders, sourceFolderId);
+  const availableTargets = folders.filter(
+    (f) => f._id !== sourceFolderId && !sourceDescendantIds.has(f._id),
+  );
 
   const folderItems: FolderItem[] = availableTargets.map((f) => ({
     value: f._id,
@@ -27,6 +27,12 @@ export interface NewsletterData {
   source?: "email" | "gmail" | "manual" | "community";
   isFavorited?: boolean;
   folderId?: string;
+  /** Ids of the user's tags on this newsletter (omitted when untagged) */
+  tagIds?: string[];
+  /** Set while the newsletter is snoozed (Unix timestamp ms) */
+  snoozedUntil?: number;
+  /** Reading time estimated at ingestion */
+  estimatedReadMinutes?: number;
 }
 
 interface NewsletterCardProps {
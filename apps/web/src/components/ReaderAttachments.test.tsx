@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { render, screen, waitFor } from "@testing-library/react"
+import userEvent from "@testing-library/user-event"
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel"
+
+let mockAttachments: unknown = []
+const mockGetDownloadUrl = vi.fn()
+const mockToastError = vi.fn()
+
+vi.mock("@convex-dev/react-query", () => ({
+  convexQuery: (api: unknown, args: unknown) => ({ queryKey: [api, args] }),
+}))
+
+vi.mock("@tanstack/react-query", async () => {
+  const actual = await vi.importActual("@tanstack/react-query")
+  return {
+    ...actual,
+    useQuery: () => ({ data: mockAttachments, isPending: false }),
+  }
+})
+
+vi.mock("convex/react", () => ({
+  useAction: () => mockGetDownloadUrl,
+}))
+
+vi.mock("@hushletter/backend", () => ({
+  api: {
+    attachments: {
+      listNewsletterAttachments: "listNewsletterAttachments",
+      getAttachmentDownloadUrl: "getAttachmentDownloadUrl",
+    },
+  },
+}))
+
+vi.mock("sonner", () => ({
+  toast: { error: (...args: unknown[]) => mockToastError(...args) },
+}))
+
+import { ReaderAttachments } from "./ReaderAttachments"
+
+const newsletterId = "newsletter_1" as Id<"userNewsletters">
+
+describe("ReaderAttachments", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockAttachments = [
+      { _id: "att_1", filename: "deck.pdf", mimeType: "application/pdf", sizeBytes: 2048 },
+      { _id: "att_2", filename: "invite.ics", mimeType: "text/calendar", sizeBytes: 512 },
+    ]
+  })
+
+  it("renders nothing when the newsletter has no attachments", () => {
+    mockAttachments = []
+    const { container } = render(<ReaderAttachments userNewsletterId={newsletterId} />)
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it("lists attachments with their size", () => {
+    render(<ReaderAttachments userNewsletterId={newsletterId} />)
+
+    expect(screen.getByText("Attachments (2)")).toBeInTheDocument()
+    expect(screen.getByText("deck.pdf")).toBeInTheDocument()
+    expect(screen.getByText("2.0 KB")).toBeInTheDocument()
+    expect(screen.getByText("512 B")).toBeInTheDocument()
+  })
+
+  it("opens a freshly signed URL when an attachment is clicked", async () => {
+    const user = userEvent.setup()
+    const openSpy = vi.spyOn(window, "open").mockImplementation(() => null)
+    mockGetDownloadUrl.mockResolvedValue({ url: "https://r2.example.com/deck.pdf", filename: "deck.pdf" })
+
+    render(<ReaderAttachments userNewsletterId={newsletterId} />)
+    await user.click(screen.getByRole("button", { name: "Download deck.pdf" }))
+
+    await waitFor(() => {
+      expect(openSpy).toHaveBeenCalledWith(
+        "https://r2.example.com/deck.pdf",
+        "_blank",
+        "noopener,noreferrer"
+      )
+    })
+    expect(mockGetDownloadUrl).toHaveBeenCalledWith({ attachmentId: "att_1" })
+    openSpy.mockRestore()
+  })
+
+  it("shows an error toast when the download URL cannot be created", async () => {
+    const user = userEvent.setup()
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    mockGetDownloadUrl.mockRejectedValue(new Error("Access denied"))
+
+    render(<ReaderAttachments userNewsletterId={newsletterId} />)
+    await user.click(screen.getByRole("button", { name: "Download invite.ics" }))
+
+    await waitFor(() => {
+      expect(mockToastError).toHaveBeenCalledWith(
+        "Couldn't download this attachment. Please try again."
+      )
+    })
+  })
+})
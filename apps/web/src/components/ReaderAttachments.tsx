@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { useAction } from "convex/react";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { Download, Loader2, Paperclip } from "lucide-react";
+import { toast } from "sonner";
+import { m } from "@/paraglide/messages.js";
+
+interface ReaderAttachmentsProps {
+  /** userNewsletter document ID */
+  userNewsletterId: Id<"userNewsletters">;
+}
+
+type AttachmentListItem = {
+  _id: Id<"newsletterAttachments">;
+  filename: string;
+  mimeType: string;
+  sizeBytes: number;
+};
+
+/**
+ * Helper function to format bytes into human-readable format
+ */
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB"];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return `${(bytes / Math.pow(k, i)).toFixed(i === 0 ? 0 : 1)} ${sizes[i]}`;
+}
+
+/**
+ * ReaderAttachments - Lists files received with a newsletter (PDFs, decks,
+ * calendar invites) with download links.
+ * Download URLs are signed on click so they never go stale in the cache.
+ */
+export function ReaderAttachments({ userNewsletterId }: ReaderAttachmentsProps) {
+  const { data } = useQuery(
+    convexQuery(api.attachments.listNewsletterAttachments, { userNewsletterId }),
+  );
+  const getDownloadUrl = useAction(api.attachments.getAttachmentDownloadUrl);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const attachments = (data ?? []) as AttachmentListItem[];
+  if (attachments.length === 0) return null;
+
+  const handleDownload = async (attachmentId: Id<"newsletterAttachments">) => {
+    setPendingId(attachmentId);
+    try {
+      const { url } = await getDownloadUrl({ attachmentId });
+      window.open(url, "_blank", "noopener,noreferrer");
+    } catch (error) {
+      console.error("[ReaderAttachments] Failed to get download URL:", error);
+      toast.error(m.reader_attachmentDownloadFailed());
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <section
+      data-testid="reader-attachments"
+      aria-label={m.reader_attachments({ count: attachments.length })}
+      className="mt-6 border-t pt-4 px-4 md:px-0"
+    >
+      <h2 className="mb-2 flex items-center gap-1.5 text-sm font-medium text-muted-foreground">
+        <Paperclip className="h-4 w-4" />
+        {m.reader_attachments({ count: attachments.length })}
+      </h2>
+      <ul className="space-y-1.5">
+        {attachments.map((attachment) => (
+          <li key={attachment._id}>
+            <button
+              type="button"
+              onClick={() => void handleDownload(attachment._id)}
+              disabled={pendingId === attachment._id}
+              aria-label={m.reader_downloadAttachment({
+                filename: attachment.filename,
+              })}
+              className="flex w-full items-center gap-3 rounded-md border bg-card px-3 py-2 text-left text-sm hover:bg-accent disabled:opacity-60"
+            >
+              <span className="min-w-0 flex-1 truncate">{attachment.filename}</span>
+              <span className="shrink-0 tabular-nums text-xs text-muted-foreground">
+                {formatBytes(attachment.sizeBytes)}
+              </span>
+              {pendingId === attachment._id ? (
+                <Loader2 className="h-4 w-4 shrink-0 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4 shrink-0" />
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,269 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { Button, Textarea } from "@hushletter/ui";
+import { StickyNote, Trash2, X } from "lucide-react";
+import { useNewsletterHighlights } from "@/hooks/useNewsletterHighlights";
+import {
+  getHighlightAnchor,
+  getHighlightIdFromTarget,
+  HIGHLIGHT_COLORS,
+  paintHighlights,
+  type HighlightAnchor,
+  type HighlightColor,
+} from "@/lib/highlightAnchoring";
+import { m } from "@/paraglide/messages.js";
+
+interface ReaderHighlightsProps {
+  /** userNewsletter document ID */
+  userNewsletterId: Id<"userNewsletters">;
+  /** The reader iframe, used to position the toolbar */
+  iframe: HTMLIFrameElement;
+  /** Loaded document of the reader iframe */
+  frameDocument: Document;
+}
+
+type ToolbarState =
+  | { kind: "selection"; anchor: HighlightAnchor; top: number; left: number }
+  | { kind: "highlight"; highlightId: string; top: number; left: number };
+
+const COLOR_ORDER: HighlightColor[] = ["yellow", "green", "blue", "pink"];
+
+const TOOLBAR_WIDTH = 288;
+
+function getColorLabel(color: HighlightColor): string {
+  switch (color) {
+    case "yellow":
+      return m.highlights_colorYellow();
+    case "green":
+      return m.highlights_colorGreen();
+    case "blue":
+      return m.highlights_colorBlue();
+    case "pink":
+      return m.highlights_colorPink();
+  }
+}
+
+/**
+ * Toolbar position (viewport coordinates) below a rect inside the iframe
+ */
+function getToolbarPosition(
+  iframe: HTMLIFrameElement,
+  rect: DOMRect,
+): { top: number; left: number } {
+  const frameRect = iframe.getBoundingClientRect();
+  const maxLeft = Math.max(8, window.innerWidth - TOOLBAR_WIDTH - 8);
+  return {
+    top: frameRect.top + rect.bottom + 8,
+    left: Math.min(Math.max(8, frameRect.left + rect.left), maxLeft),
+  };
+}
+
+/**
+ * ReaderHighlights - Paints the user's highlights into the reader iframe and
+ * shows a floating toolbar to highlight a selection, pick its color and attach
+ * a margin note. Clicking a highlight opens it for editing.
+ */
+export function ReaderHighlights({
+  userNewsletterId,
+  iframe,
+  frameDocument,
+}: ReaderHighlightsProps) {
+  const { highlights, createHighlight, updateHighlight, deleteHighlight } =
+    useNewsletterHighlights(userNewsletterId);
+  const [toolbar, setToolbar] = useState<ToolbarState | null>(null);
+  const [isEditingNote, setIsEditingNote] = useState(false);
+  const [noteDraft, setNoteDraft] = useState("");
+
+  const activeHighlight =
+    toolbar?.kind === "highlight"
+      ? (highlights.find(
+          (highlight) => highlight._id === toolbar.highlightId,
+        ) ?? null)
+      : null;
+
+  const dismiss = useCallback(() => {
+    setToolbar(null);
+    setIsEditingNote(false);
+    setNoteDraft("");
+  }, []);
+
+  // Re-anchor highlights whenever they change or the content is reloaded
+  useEffect(() => {
+    if (!frameDocument.body) return;
+    paintHighlights(frameDocument.body, highlights);
+  }, [frameDocument, highlights]);
+
+  useEffect(() => {
+    const handleSelection = (event: Event) => {
+      const selection = frameDocument.getSelection();
+      if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+        const highlightId =
+          event.type === "mouseup"
+            ? getHighlightIdFromTarget(event.target)
+            : null;
+        if (!highlightId) return;
+
+        const rect = frameDocument
+          .querySelector(`mark[data-highlight-id="${highlightId}"]`)
+          ?.getBoundingClientRect();
+        if (!rect) return;
+        setNoteDraft(
+          highlights.find((highlight) => highlight._id === highlightId)
+            ?.note ?? "",
+        );
+        setIsEditingNote(false);
+        setToolbar({
+          kind: "highlight",
+          highlightId,
+          ...getToolbarPosition(iframe, rect),
+        });
+        return;
+      }
+
+      const range = selection.getRangeAt(0);
+      const anchor = getHighlightAnchor(frameDocument.body, range);
+      if (!anchor) return;
+      setNoteDraft("");
+      setIsEditingNote(false);
+      setToolbar({
+        kind: "selection",
+        anchor,
+        ...getToolbarPosition(iframe, range.getBoundingClientRect()),
+      });
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") dismiss();
+    };
+
+    frameDocument.addEventListener("mouseup", handleSelection);
+    frameDocument.addEventListener("keyup", handleSelection);
+    frameDocument.addEventListener("keydown", handleKeyDown);
+    return () => {
+      frameDocument.removeEventListener("mouseup", handleSelection);
+      frameDocument.removeEventListener("keyup", handleSelection);
+      frameDocument.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [frameDocument, iframe, highlights, dismiss]);
+
+  // The toolbar is fixed-positioned, so it can't follow the content
+  useEffect(() => {
+    if (!toolbar) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") dismiss();
+    };
+    window.addEventListener("scroll", dismiss, true);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("scroll", dismiss, true);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [toolbar, dismiss]);
+
+  if (!toolbar) return null;
+
+  const handleColor = (color: HighlightColor) => {
+    if (toolbar.kind === "selection") {
+      frameDocument.getSelection()?.removeAllRanges();
+      void createHighlight(toolbar.anchor, { color });
+      dismiss();
+    } else {
+      void updateHighlight(toolbar.highlightId, { color });
+    }
+  };
+
+  const handleSaveNote = () => {
+    if (toolbar.kind === "selection") {
+      frameDocument.getSelection()?.removeAllRanges();
+      void createHighlight(toolbar.anchor, {
+        color: "yellow",
+        note: noteDraft,
+      });
+    } else {
+      void updateHighlight(toolbar.highlightId, { note: noteDraft });
+    }
+    dismiss();
+  };
+
+  const handleDelete = () => {
+    if (toolbar.kind !== "highlight") return;
+    void deleteHighlight(toolbar.highlightId);
+    dismiss();
+  };
+
+  const selectedColor = activeHighlight?.color;
+
+  return (
+    <div
+      role="dialog"
+      aria-label={m.highlights_highlight()}
+      data-testid="reader-highlight-toolbar"
+      className="fixed z-50 rounded-lg border bg-popover p-2 text-popover-foreground shadow-lg"
+      style={{ top: toolbar.top, left: toolbar.left, width: TOOLBAR_WIDTH }}
+    >
+      <div className="flex items-center gap-1">
+        {COLOR_ORDER.map((color) => (
+          <button
+            key={color}
+            type="button"
+            aria-label={m.highlights_colorAria({ color: getColorLabel(color) })}
+            aria-pressed={selectedColor === color}
+            className="h-6 w-6 rounded-full border border-border transition-transform hover:scale-110 aria-pressed:ring-2 aria-pressed:ring-ring"
+            style={{ backgroundColor: HIGHLIGHT_COLORS[color] }}
+            onClick={() => handleColor(color)}
+          />
+        ))}
+        <div className="ml-auto flex items-center gap-1">
+          {!isEditingNote && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsEditingNote(true)}
+            >
+              <StickyNote className="h-4 w-4" aria-hidden="true" />
+              {m.highlights_addNote()}
+            </Button>
+          )}
+          {toolbar.kind === "highlight" && (
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              aria-label={m.highlights_delete()}
+              onClick={handleDelete}
+            >
+              <Trash2 className="h-4 w-4" aria-hidden="true" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            aria-label={m.highlights_close()}
+            onClick={dismiss}
+          >
+            <X className="h-4 w-4" aria-hidden="true" />
+          </Button>
+        </div>
+      </div>
+      {toolbar.kind === "highlight" && !isEditingNote && activeHighlight?.note && (
+        <p className="mt-2 whitespace-pre-wrap text-sm text-muted-foreground">
+          {activeHighlight.note}
+        </p>
+      )}
+      {isEditingNote && (
+        <div className="mt-2 space-y-2">
+          <Textarea
+            autoFocus
+            value={noteDraft}
+            placeholder={m.highlights_notePlaceholder()}
+            maxLength={2000}
+            onChange={(event) => setNoteDraft(event.target.value)}
+          />
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleSaveNote}>
+              {m.highlights_saveNote()}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -19,6 +19,7 @@ vi.mock("convex/react", () => ({
   useConvex: () => ({
     action: mockGetNewsletterWithContent,
   }),
+  useAction: () => mockGetNewsletterWithContent,
   useMutation: () => mockUpdateReadProgress,
 }))
 
@@ -777,4 +778,113 @@ describe("ReaderView", () => {
       expect(mockUpdateReadProgress).toBeDefined()
     })
   })
+  describe("Sender Authentication", () => {
+    beforeEach(() => {
+      mockGetNewsletterWithContent.mockResolvedValue({
+        _id: "test-id",
+        contentUrl: "https://r2.example.com/content.html?signed=abc",
+        contentStatus: "available",
+      })
+      mockFetch.mockResolvedValue({
+        ok: true,
+        text: () => Promise.resolve("<p>Newsletter content here</p>"),
+      })
+    })
+
+    it("warns when the sender could not be verified", async () => {
+      renderReader(
+        <ReaderView
+          userNewsletterId={testId("test-id")}
+          senderEmail="news@bank.example.com"
+          senderAuth={{ verdict: "fail", spf: "pass", dmarc: "fail" }}
+          isQuarantined
+        />
+      )
+
+      const banner = await screen.findByRole("alert")
+      expect(banner).toHaveTextContent("Could not verify sender")
+      expect(banner).toHaveTextContent("news@bank.example.com")
+      expect(banner).toHaveTextContent("SPF: pass · DMARC: fail")
+      expect(banner).toHaveTextContent("moved to the bin")
+    })
+
+    it("shows no warning for authenticated or unchecked mail", async () => {
+      const { rerender } = renderReader(
+        <ReaderView userNewsletterId={testId("test-id")} senderAuth={{ verdict: "pass" }} />
+      )
+      await waitFor(() => {
+        expect(getReaderFrame().srcdoc).toContain("Newsletter content here")
+      })
+      expect(screen.queryByRole("alert")).not.toBeInTheDocument()
+
+      rerender(
+        <QueryClientProvider client={queryClient}>
+          <ReaderView userNewsletterId={testId("test-id")} senderAuth={{ verdict: "none" }} />
+        </QueryClientProvider>
+      )
+      expect(screen.queryByRole("alert")).not.toBeInTheDocument()
+    })
+  })
+
+  describe("Translation", () => {
+    beforeEach(() => {
+      mockGetNewsletterWithContent.mockImplementation(async (args: { language?: string }) =>
+        args.language
+          ? { contentUrl: "https://r2.example.com/translation.html", isShared: false }
+          : {
+              _id: "test-id",
+              contentUrl: "https://r2.example.com/content.html?signed=abc",
+              contentStatus: "available",
+            }
+      )
+      mockFetch.mockImplementation(async (url: string) => ({
+        ok: true,
+        text: () =>
+          Promise.resolve(
+            url.includes("translation") ? "<p>Translated content</p>" : "<p>Contenu original</p>"
+          ),
+      }))
+    })
+
+    it("shows the translation with a way back to the original", async () => {
+      const onShowOriginal = vi.fn()
+      renderReader(
+        <ReaderView
+          userNewsletterId={testId("test-id")}
+          translationLanguage="en"
+          onShowOriginal={onShowOriginal}
+        />
+      )
+
+      await waitFor(() => {
+        expect(getReaderFrame().srcdoc).toContain("Translated content")
+      })
+      expect(mockGetNewsletterWithContent).toHaveBeenCalledWith({
+        userNewsletterId: "test-id",
+        language: "en",
+      })
+      expect(screen.getByRole("status")).toHaveTextContent("Translated into English by AI")
+
+      screen.getByRole("button", { name: "Show original" }).click()
+      expect(onShowOriginal).toHaveBeenCalledTimes(1)
+    })
+
+    it("keeps the original and shows the error when translation fails", async () => {
+      mockGetNewsletterWithContent.mockImplementation(async (args: { language?: string }) => {
+        if (args.language) throw new Error("AI down")
+        return {
+          _id: "test-id",
+          contentUrl: "https://r2.example.com/content.html?signed=abc",
+          contentStatus: "available",
+        }
+      })
+
+      renderReader(<ReaderView userNewsletterId={testId("test-id")} translationLanguage="en" />)
+
+      await waitFor(() => {
+        expect(screen.getByRole("status")).toHaveTextContent("Couldn't translate this newsletter")
+      })
+      expect(getReaderFrame().srcdoc).toContain("Contenu original")
+    })
+  })
 })
@@ -3,7 +3,9 @@ import { useAction, useMutation } from "convex/react";
 import { useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
 import { api } from "@hushletter/backend";
 import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { ConvexError } from "convex/values";
 import DOMPurify from "dompurify";
+import { Languages, ShieldAlert } from "lucide-react";
 import {
   type ReaderBackgroundPreference,
   type ReaderFontPreference,
@@ -14,9 +16,12 @@ import {
   useReaderPreferences,
 } from "@/hooks/useReaderPreferences";
 import { useScrollProgress } from "@/hooks/useScrollProgress";
-import { estimateReadMinutesFromContent } from "@/lib/readingTime";
-import { cn } from "@/lib/utils";
+import type { SummaryLanguage } from "@/hooks/useSummaryPreferences";
+import { estimateReadMinutesFromContent } from "@hushletter/shared";
+import { cn, languageName } from "@/lib/utils";
 import { m } from "@/paraglide/messages.js";
+import { ReaderAttachments } from "./ReaderAttachments";
+import { ReaderHighlights } from "./ReaderHighlights";
 
 interface ReaderViewProps {
   /** userNewsletter document ID */
@@ -39,6 +44,26 @@ interface ReaderViewProps {
   progressResetSignal?: number;
   /** Skip the initial "content fits => 100%" auto-progress check */
   skipInitialProgressCheck?: boolean;
+  /** SPF/DKIM/DMARC verdict for the sender - "fail" shows a warning banner */
+  senderAuth?: SenderAuthResult;
+  /** Sender address shown in the warning banner */
+  senderEmail?: string;
+  /** The newsletter was binned on arrival for failing sender authentication */
+  isQuarantined?: boolean;
+  /** Let the user highlight text and attach notes inside the content */
+  enableHighlights?: boolean;
+  /** Show the content translated into this language (Pro, AI) */
+  translationLanguage?: SummaryLanguage | null;
+  /** Go back to the original content from the translation banner */
+  onShowOriginal?: () => void;
+}
+
+/** Sender authentication verdict stored on the newsletter */
+export interface SenderAuthResult {
+  verdict: "pass" | "fail" | "none";
+  spf?: string;
+  dkim?: string;
+  dmarc?: string;
 }
 
 /**
@@ -167,11 +192,13 @@ export function markReaderSelectionStart(
 type NewsletterContentActionResult = {
   contentStatus: "available" | "missing" | "error" | "locked";
   contentUrl?: string | null;
+  attachmentCount?: number;
 };
 
 type ReaderContentQueryData = {
   baseDocument: string | null;
   estimatedReadMinutes: number | null;
+  attachmentCount: number;
 };
 type ReaderLoadSource = "view" | "prefetch";
 type ReaderLoadStatus = "available" | "missing" | "error";
@@ -197,12 +224,50 @@ type GetNewsletterWithContentAction = (
   args: { userNewsletterId: Id<"userNewsletters"> },
 ) => Promise<NewsletterContentActionResult>;
 
+type TranslateNewsletterAction = (args: {
+  userNewsletterId: Id<"userNewsletters">;
+  language: SummaryLanguage;
+}) => Promise<{ contentUrl: string; isShared: boolean }>;
+
 function getReaderContentQueryKey(
   userNewsletterId: Id<"userNewsletters"> | string,
 ) {
   return [READER_CONTENT_QUERY_KEY_PREFIX, userNewsletterId] as const;
 }
 
+/** Nested under the content key, so clearing an entry drops its translations */
+function getReaderTranslationQueryKey(
+  userNewsletterId: Id<"userNewsletters"> | string,
+  language: SummaryLanguage | null,
+) {
+  return [
+    ...getReaderContentQueryKey(userNewsletterId),
+    "translation",
+    language,
+  ] as const;
+}
+
+/**
+ * Translate the newsletter (or get the cached translation) and build its
+ * reader document. The translation keeps the original markup, so it goes
+ * through the same sanitizing as the original.
+ */
+async function fetchTranslatedContent(
+  translateNewsletter: TranslateNewsletterAction,
+  userNewsletterId: Id<"userNewsletters">,
+  language: SummaryLanguage,
+): Promise<string> {
+  const { contentUrl } = await translateNewsletter({
+    userNewsletterId,
+    language,
+  });
+  const response = await fetch(contentUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch translation: ${response.status}`);
+  }
+  return buildReaderDocument(await response.text());
+}
+
 function getPerfNowMs(): number {
   if (typeof performance !== "undefined") return performance.now();
   return Date.now();
@@ -442,6 +507,7 @@ async function fetchReaderContent(
       return {
         baseDocument: null,
         estimatedReadMinutes: null,
+        attachmentCount: result.attachmentCount ?? 0,
       };
     }
 
@@ -492,6 +558,7 @@ async function fetchReaderContent(
     return {
       baseDocument,
       estimatedReadMinutes,
+      attachmentCount: result.attachmentCount ?? 0,
     };
   } catch (error) {
     const totalMs = Math.round(getPerfNowMs() - startedAt);
@@ -866,6 +933,102 @@ function ContentError({ message }: { message: string }) {
   );
 }
 
+/**
+ * Warning shown above mail that failed sender authentication
+ * The From address may be spoofed, so links and attachments deserve caution.
+ */
+function SenderAuthBanner({
+  senderAuth,
+  senderEmail,
+  isQuarantined,
+}: {
+  senderAuth: SenderAuthResult;
+  senderEmail?: string;
+  isQuarantined?: boolean;
+}) {
+  const checks = (["spf", "dkim", "dmarc"] as const)
+    .filter((method) => senderAuth[method])
+    .map((method) => `${method.toUpperCase()}: ${senderAuth[method]}`)
+    .join(" · ");
+
+  return (
+    <div
+      role="alert"
+      className="mx-4 mt-4 flex gap-3 rounded-md border border-amber-500/40 bg-amber-500/10 p-3 text-sm"
+    >
+      <ShieldAlert className="mt-0.5 size-4 shrink-0 text-amber-600 dark:text-amber-500" />
+      <div className="space-y-1">
+        <p className="font-medium">{m.reader_senderUnverifiedTitle()}</p>
+        <p className="text-muted-foreground">
+          {m.reader_senderUnverifiedDescription({
+            sender: senderEmail ?? m.reader_senderUnverifiedUnknownSender(),
+          })}
+          {isQuarantined && ` ${m.reader_senderUnverifiedQuarantined()}`}
+        </p>
+        {checks && (
+          <p className="font-mono text-xs text-muted-foreground">{checks}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Banner above translated content, with the way back to the original
+ */
+function TranslationBanner({
+  language,
+  status,
+  error,
+  onShowOriginal,
+}: {
+  language: SummaryLanguage;
+  status: "pending" | "success" | "error";
+  error: unknown;
+  onShowOriginal?: () => void;
+}) {
+  const languageLabel = languageName(language);
+  let text = m.reader_translatedInto({ language: languageLabel });
+  if (status === "pending") {
+    text = m.reader_translating({ language: languageLabel });
+  } else if (status === "error") {
+    text =
+      error instanceof ConvexError
+        ? ((error.data as { message?: string }).message ??
+          m.reader_translationFailed())
+        : m.reader_translationFailed();
+  }
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        "mx-4 mt-4 flex items-center gap-3 rounded-md border p-3 text-sm",
+        status === "error"
+          ? "border-destructive/40 bg-destructive/5"
+          : "bg-muted/50",
+      )}
+    >
+      <Languages
+        className={cn(
+          "size-4 shrink-0 text-muted-foreground",
+          status === "pending" && "animate-pulse",
+        )}
+      />
+      <p className="flex-1 text-muted-foreground">{text}</p>
+      {onShowOriginal && (
+        <button
+          type="button"
+          onClick={onShowOriginal}
+          className="shrink-0 font-medium underline-offset-4 hover:underline"
+        >
+          {m.reader_showOriginal()}
+        </button>
+      )}
+    </div>
+  );
+}
+
 /**
  * Empty content state
  */
@@ -895,11 +1058,18 @@ export function ReaderView({
   progressContainerElement,
   progressResetSignal,
   skipInitialProgressCheck = false,
+  senderAuth,
+  senderEmail,
+  isQuarantined,
+  enableHighlights = false,
+  translationLanguage = null,
+  onShowOriginal,
 }: ReaderViewProps) {
   const queryClient = useQueryClient();
   const getNewsletterWithContent = useAction(
     api.newsletters.getUserNewsletterWithContent,
   );
+  const translateNewsletter = useAction(api.translations.translateNewsletter);
   activeReaderQueryClient = queryClient;
 
   const { preferences: persistedPreferences } = useReaderPreferences();
@@ -914,9 +1084,32 @@ export function ReaderView({
     enabled: typeof window !== "undefined",
   });
 
-  const contentDocument = readerContentQuery.data?.baseDocument ?? null;
+  // Translations count toward AI limits, so they are never refetched or retried
+  const translationQuery = useQuery({
+    queryKey: getReaderTranslationQueryKey(
+      userNewsletterId,
+      translationLanguage,
+    ),
+    queryFn: () =>
+      fetchTranslatedContent(
+        translateNewsletter,
+        userNewsletterId,
+        translationLanguage as SummaryLanguage,
+      ),
+    staleTime: Infinity,
+    gcTime: READER_CONTENT_GC_MS,
+    retry: false,
+    enabled: typeof window !== "undefined" && translationLanguage !== null,
+  });
+  const isTranslated =
+    translationLanguage !== null && translationQuery.data !== undefined;
+
+  const contentDocument = isTranslated
+    ? translationQuery.data
+    : (readerContentQuery.data?.baseDocument ?? null);
   const estimatedReadMinutes =
     readerContentQuery.data?.estimatedReadMinutes ?? null;
+  const attachmentCount = readerContentQuery.data?.attachmentCount ?? 0;
   const isLoading = readerContentQuery.isPending || readerContentQuery.isFetching;
   const error = readerContentQuery.error
     ? readerContentQuery.error instanceof Error
@@ -928,12 +1121,15 @@ export function ReaderView({
     iframeHeightCache.get(userNewsletterId) ?? getDefaultIframeHeight(),
   );
   const [iframeMeasured, setIframeMeasured] = useState(false);
+  // Document of the loaded iframe, for painting highlights into it
+  const [frameDocument, setFrameDocument] = useState<Document | null>(null);
 
   useEffect(() => {
     setIframeHeight(
       iframeHeightCache.get(userNewsletterId) ?? getDefaultIframeHeight(),
     );
     setIframeMeasured(false);
+    setFrameDocument(null);
   }, [userNewsletterId]);
 
   const waitingForExternalProgressContainer = progressContainerElement === null;
@@ -1006,6 +1202,7 @@ export function ReaderView({
   const handleIframeLoad = useCallback(() => {
     syncIframeHeight();
     setIframeMeasured(true);
+    setFrameDocument(iframeRef.current?.contentDocument ?? null);
 
     const nowMs = getPerfNowMs();
     const contentReadyAt = contentReadyAtRef.current;
@@ -1164,6 +1361,21 @@ export function ReaderView({
           READER_BACKGROUND_OPTIONS[effectivePreferences.background].color,
       }}
     >
+      {senderAuth?.verdict === "fail" && (
+        <SenderAuthBanner
+          senderAuth={senderAuth}
+          senderEmail={senderEmail}
+          isQuarantined={isQuarantined}
+        />
+      )}
+      {translationLanguage !== null && (
+        <TranslationBanner
+          language={translationLanguage}
+          status={translationQuery.status}
+          error={translationQuery.error}
+          onShowOriginal={onShowOriginal}
+        />
+      )}
       <iframe
         ref={iframeRef}
         title="Newsletter content"
@@ -1182,6 +1394,20 @@ export function ReaderView({
         }}
         onLoad={handleIframeLoad}
       />
+      {/* Highlights are anchored to the original text */}
+      {enableHighlights &&
+        !isTranslated &&
+        frameDocument &&
+        iframeRef.current && (
+          <ReaderHighlights
+            userNewsletterId={userNewsletterId}
+            iframe={iframeRef.current}
+            frameDocument={frameDocument}
+          />
+        )}
+      {attachmentCount > 0 && (
+        <ReaderAttachments userNewsletterId={userNewsletterId} />
+      )}
     </div>
   );
 }
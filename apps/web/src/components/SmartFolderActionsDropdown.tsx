@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { toast } from "sonner";
+import {
+  ArchiveBoldIcon,
+  Button,
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+  EditOneIcon,
+  TrashBoldIcon,
+} from "@hushletter/ui";
+import { MoreHorizontal } from "lucide-react";
+import {
+  SmartFolderDialog,
+  type SmartFolderFilterData,
+} from "./SmartFolderDialog";
+import { m } from "@/paraglide/messages.js";
+
+/**
+ * SmartFolderActionsDropdown - Dropdown menu for smart folder actions
+ *
+ * Actions:
+ * - Edit: Opens the smart folder dialog (rename + filter)
+ * - Hide: Hides the smart folder from the sidebar
+ * - Delete: Removes the saved filter (newsletters are untouched)
+ */
+
+interface SmartFolderActionsDropdownProps {
+  smartFolder: {
+    _id: string;
+    name: string;
+    filter: SmartFolderFilterData;
+  };
+  onHideSuccess?: () => void;
+}
+
+export function SmartFolderActionsDropdown({
+  smartFolder,
+  onHideSuccess,
+}: SmartFolderActionsDropdownProps) {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isPending, setIsPending] = useState(false);
+  const hideSmartFolder = useMutation(api.smartFolders.hideSmartFolder);
+  const deleteSmartFolder = useMutation(api.smartFolders.deleteSmartFolder);
+  const smartFolderId = smartFolder._id as Id<"smartFolders">;
+
+  const handleHide = async () => {
+    setIsPending(true);
+    try {
+      await hideSmartFolder({ smartFolderId });
+      toast.success(m.smartFolders_hiddenSuccess({ name: smartFolder.name }));
+      onHideSuccess?.();
+    } catch {
+      toast.error(m.smartFolders_saveError());
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsPending(true);
+    try {
+      await deleteSmartFolder({ smartFolderId });
+      toast.success(m.smartFolders_deletedSuccess({ name: smartFolder.name }));
+      onHideSuccess?.();
+    } catch {
+      toast.error(m.smartFolders_saveError());
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu open={isMenuOpen} onOpenChange={setIsMenuOpen}>
+        <DropdownMenuTrigger
+          render={
+            <Button
+              variant="ghost"
+              size="icon"
+              className={`h-6 w-6 transition-opacity ${
+                isMenuOpen ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+              }`}
+              aria-label={m.folderActions_ariaLabel({
+                folderName: smartFolder.name,
+              })}
+              onClick={(e) => e.stopPropagation()}
+            />
+          }
+        >
+          <MoreHorizontal className="h-4 w-4" />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+          <DropdownMenuItem onClick={() => setIsEditOpen(true)}>
+            <EditOneIcon className="size-4" />
+            {m.smartFolders_edit()}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => void handleHide()}
+            disabled={isPending}
+          >
+            <ArchiveBoldIcon className="size-4" />
+            {m.folderActions_hide()}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => void handleDelete()}
+            disabled={isPending}
+          >
+            <TrashBoldIcon className="size-4" />
+            {m.smartFolders_delete()}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <SmartFolderDialog
+        open={isEditOpen}
+        onOpenChange={setIsEditOpen}
+        smartFolder={smartFolder}
+      />
+    </>
+  );
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { ConvexError } from "convex/values";
+
+const mockMutations: Record<string, ReturnType<typeof vi.fn>> = {
+  createSmartFolder: vi.fn(),
+  renameSmartFolder: vi.fn(),
+  updateSmartFolderFilter: vi.fn(),
+};
+
+vi.mock("convex/react", () => ({
+  useMutation: (name: string) => mockMutations[name],
+}));
+
+vi.mock("@hushletter/backend", () => ({
+  api: {
+    smartFolders: {
+      createSmartFolder: "createSmartFolder",
+      renameSmartFolder: "renameSmartFolder",
+      updateSmartFolderFilter: "updateSmartFolderFilter",
+    },
+  },
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+import { SmartFolderDialog } from "./SmartFolderDialog";
+
+describe("SmartFolderDialog", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("creates a smart folder from the filled-in criteria", async () => {
+    const user = userEvent.setup();
+    const onCreated = vi.fn();
+    const onOpenChange = vi.fn();
+    mockMutations.createSmartFolder.mockResolvedValue("smart_1");
+
+    render(
+      <SmartFolderDialog
+        open
+        onOpenChange={onOpenChange}
+        onCreated={onCreated}
+      />,
+    );
+
+    await user.type(screen.getByLabelText(/^name$|^nom$/i), "Antitrust");
+    await user.type(screen.getByPlaceholderText("example.com"), "example.com");
+    await user.type(screen.getByRole("spinbutton"), "30");
+    await user.click(screen.getByRole("button", { name: /save|enregistrer/i }));
+
+    await waitFor(() => {
+      expect(mockMutations.createSmartFolder).toHaveBeenCalledWith({
+        name: "Antitrust",
+        filter: {
+          senderEmail: undefined,
+          domain: "example.com",
+          subjectKeyword: undefined,
+          readState: undefined,
+          receivedWithinDays: 30,
+        },
+      });
+    });
+    expect(onCreated).toHaveBeenCalledWith("smart_1");
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+  });
+
+  it("shows validation errors from the server", async () => {
+    const user = userEvent.setup();
+    const onOpenChange = vi.fn();
+    mockMutations.createSmartFolder.mockRejectedValue(
+      new ConvexError({
+        code: "VALIDATION_ERROR",
+        message: "A smart folder needs at least one filter",
+      }),
+    );
+
+    render(<SmartFolderDialog open onOpenChange={onOpenChange} />);
+
+    await user.type(screen.getByLabelText(/^name$|^nom$/i), "Empty");
+    await user.click(screen.getByRole("button", { name: /save|enregistrer/i }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "A smart folder needs at least one filter",
+    );
+    expect(onOpenChange).not.toHaveBeenCalled();
+  });
+
+  it("renames and updates the filter of an existing smart folder", async () => {
+    const user = userEvent.setup();
+    mockMutations.updateSmartFolderFilter.mockResolvedValue(null);
+    mockMutations.renameSmartFolder.mockResolvedValue({ name: "Unread news" });
+
+    render(
+      <SmartFolderDialog
+        open
+        onOpenChange={vi.fn()}
+        smartFolder={{
+          _id: "smart_1",
+          name: "Unread",
+          filter: { readState: "unread" },
+        }}
+      />,
+    );
+
+    const nameInput = screen.getByLabelText(/^name$|^nom$/i);
+    await user.clear(nameInput);
+    await user.type(nameInput, "Unread news");
+    await user.click(screen.getByRole("button", { name: /save|enregistrer/i }));
+
+    await waitFor(() => {
+      expect(mockMutations.renameSmartFolder).toHaveBeenCalledWith({
+        smartFolderId: "smart_1",
+        newName: "Unread news",
+      });
+    });
+    expect(mockMutations.updateSmartFolderFilter).toHaveBeenCalledWith({
+      smartFolderId: "smart_1",
+      filter: expect.objectContaining({ readState: "unread" }),
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { toast } from "sonner";
+import {
+  Button,
+  Dialog,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogPanel,
+  DialogPopup,
+  DialogTitle,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@hushletter/ui";
+import { m } from "@/paraglide/messages.js";
+
+/** Select value for "read or unread" */
+const ANY_READ_STATE = "any";
+
+type ReadStateValue = typeof ANY_READ_STATE | "unread" | "read";
+
+export interface SmartFolderFilterData {
+  senderEmail?: string;
+  domain?: string;
+  subjectKeyword?: string;
+  readState?: "unread" | "read";
+  receivedWithinDays?: number;
+}
+
+interface SmartFolderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Smart folder to edit; creates a new one when omitted */
+  smartFolder?: {
+    _id: string;
+    name: string;
+    filter: SmartFolderFilterData;
+  };
+  onCreated?: (smartFolderId: string) => void;
+}
+
+/**
+ * Message of a ConvexError, or the fallback for anything else
+ */
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ConvexError) {
+    return (error.data as { message?: string }).message ?? fallback;
+  }
+  return fallback;
+}
+
+/**
+ * SmartFolderDialog - Create or edit a smart folder (saved filter)
+ *
+ * Every filled-in criterion must match. Validation (at least one criterion,
+ * sender/domain format, date window range) happens server-side and is shown
+ * inline.
+ */
+export function SmartFolderDialog({
+  open,
+  onOpenChange,
+  smartFolder,
+  onCreated,
+}: SmartFolderDialogProps) {
+  const createSmartFolder = useMutation(api.smartFolders.createSmartFolder);
+  const renameSmartFolder = useMutation(api.smartFolders.renameSmartFolder);
+  const updateSmartFolderFilter = useMutation(
+    api.smartFolders.updateSmartFolderFilter,
+  );
+  const [name, setName] = useState("");
+  const [senderEmail, setSenderEmail] = useState("");
+  const [domain, setDomain] = useState("");
+  const [subjectKeyword, setSubjectKeyword] = useState("");
+  const [readState, setReadState] = useState<ReadStateValue>(ANY_READ_STATE);
+  const [receivedWithinDays, setReceivedWithinDays] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form whenever the dialog opens (not on live updates while open)
+  useEffect(() => {
+    if (!open) return;
+    const filter = smartFolder?.filter ?? {};
+    setName(smartFolder?.name ?? "");
+    setSenderEmail(filter.senderEmail ?? "");
+    setDomain(filter.domain ?? "");
+    setSubjectKeyword(filter.subjectKeyword ?? "");
+    setReadState(filter.readState ?? ANY_READ_STATE);
+    setReceivedWithinDays(
+      filter.receivedWithinDays !== undefined
+        ? String(filter.receivedWithinDays)
+        : "",
+    );
+    setError(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const readStateLabels: Record<ReadStateValue, string> = {
+    [ANY_READ_STATE]: m.smartFolders_readStateAny(),
+    unread: m.smartFolders_readStateUnread(),
+    read: m.smartFolders_readStateRead(),
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setError(m.smartFolders_nameRequired());
+      return;
+    }
+
+    const days = receivedWithinDays.trim();
+    const filter: SmartFolderFilterData = {
+      senderEmail: senderEmail.trim() || undefined,
+      domain: domain.trim() || undefined,
+      subjectKeyword: subjectKeyword.trim() || undefined,
+      readState: readState === ANY_READ_STATE ? undefined : readState,
+      receivedWithinDays: days ? Number(days) : undefined,
+    };
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (smartFolder) {
+        const smartFolderId = smartFolder._id as Id<"smartFolders">;
+        await updateSmartFolderFilter({ smartFolderId, filter });
+        if (trimmedName !== smartFolder.name) {
+          await renameSmartFolder({ smartFolderId, newName: trimmedName });
+        }
+        toast.success(m.smartFolders_saved({ name: trimmedName }));
+      } else {
+        const smartFolderId = await createSmartFolder({
+          name: trimmedName,
+          filter,
+        });
+        toast.success(m.smartFolders_created({ name: trimmedName }));
+        onCreated?.(smartFolderId);
+      }
+      onOpenChange(false);
+    } catch (err) {
+      setError(getErrorMessage(err, m.smartFolders_saveError()));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogPopup onClick={(e) => e.stopPropagation()}>
+        <form
+          noValidate
+          className="flex w-full flex-col gap-4"
+          onSubmit={(e) => void handleSubmit(e)}
+        >
+          <DialogHeader>
+            <DialogTitle>
+              {smartFolder
+                ? m.smartFolders_editTitle()
+                : m.smartFolders_createTitle()}
+            </DialogTitle>
+            <DialogDescription>
+              {m.smartFolders_dialogDescription()}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogPanel className="grid gap-3">
+            <div className="grid gap-1.5">
+              <Label htmlFor="smart-folder-name">
+                {m.smartFolders_nameLabel()}
+              </Label>
+              <Input
+                id="smart-folder-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={m.smartFolders_namePlaceholder()}
+                autoFocus
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="smart-folder-sender">
+                {m.smartFolders_senderLabel()}
+              </Label>
+              <Input
+                id="smart-folder-sender"
+                value={senderEmail}
+                onChange={(e) => setSenderEmail(e.target.value)}
+                placeholder="news@example.com"
+                className="font-mono text-xs!"
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="smart-folder-domain">
+                {m.smartFolders_domainLabel()}
+              </Label>
+              <Input
+                id="smart-folder-domain"
+                value={domain}
+                onChange={(e) => setDomain(e.target.value)}
+                placeholder="example.com"
+                className="font-mono text-xs!"
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="smart-folder-keyword">
+                {m.smartFolders_keywordLabel()}
+              </Label>
+              <Input
+                id="smart-folder-keyword"
+                value={subjectKeyword}
+                onChange={(e) => setSubjectKeyword(e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-1.5">
+                <Label>{m.smartFolders_readStateLabel()}</Label>
+                <Select
+                  value={readState}
+                  onValueChange={(value) =>
+                    setReadState(value as ReadStateValue)
+                  }
+                >
+                  <SelectTrigger aria-label={m.smartFolders_readStateLabel()}>
+                    <SelectValue>{readStateLabels[readState]}</SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(readStateLabels) as ReadStateValue[]).map(
+                      (value) => (
+                        <SelectItem key={value} value={value}>
+                          {readStateLabels[value]}
+                        </SelectItem>
+                      ),
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="smart-folder-days">
+                  {m.smartFolders_daysLabel()}
+                </Label>
+                <Input
+                  id="smart-folder-days"
+                  type="number"
+                  min={1}
+                  inputMode="numeric"
+                  value={receivedWithinDays}
+                  onChange={(e) => setReceivedWithinDays(e.target.value)}
+                  placeholder={m.smartFolders_daysPlaceholder()}
+                />
+              </div>
+            </div>
+            {error && (
+              <p role="alert" className="text-sm text-destructive">
+                {error}
+              </p>
+            )}
+          </DialogPanel>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              {m.smartFolders_cancel()}
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? m.smartFolders_saving() : m.smartFolders_save()}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogPopup>
+    </Dialog>
+  );
+}
@@ -90,6 +90,8 @@ describe("SummaryPanel", () => {
     mockIsPro = true
     try {
       localStorage.removeItem("hushletter:summary-collapsed")
+      localStorage.removeItem("hushletter:summary-style")
+      localStorage.removeItem("hushletter:summary-language")
     } catch {
       // ignore
     }
@@ -273,6 +275,7 @@ describe("SummaryPanel", () => {
         expect(mockGenerateSummary).toHaveBeenCalledWith({
           userNewsletterId: "test-id",
           forceRegenerate: false,
+          style: "bullets",
         })
       })
     })
@@ -295,6 +298,38 @@ describe("SummaryPanel", () => {
         expect(mockGenerateSummary).toHaveBeenCalledWith({
           userNewsletterId: "test-id",
           forceRegenerate: true,
+          style: "bullets",
+        })
+      })
+    })
+
+    it("generates the style and language picked in the preferences", async () => {
+      localStorage.setItem("hushletter:summary-style", "tldr")
+      localStorage.setItem("hushletter:summary-language", "fr")
+      mockSummaryData.mockReturnValue({
+        summary: null,
+        isShared: false,
+        generatedAt: null,
+      })
+      mockGenerateSummary.mockResolvedValue({ summary: "Une phrase" })
+
+      render(<SummaryPanel userNewsletterId={"test-id" as Id<"userNewsletters">} />, {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(screen.getByRole("combobox", { name: "Summary style" })).toHaveTextContent(
+          "TL;DR"
+        )
+      })
+      fireEvent.click(screen.getByRole("button", { name: /Summarize/i }))
+
+      await waitFor(() => {
+        expect(mockGenerateSummary).toHaveBeenCalledWith({
+          userNewsletterId: "test-id",
+          forceRegenerate: false,
+          style: "tldr",
+          language: "fr",
         })
       })
     })
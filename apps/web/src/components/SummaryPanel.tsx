@@ -4,13 +4,28 @@ import { useAction } from "convex/react";
 import { convexQuery } from "@convex-dev/react-query";
 import { api } from "@hushletter/backend";
 import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
-import { Button, SparklesIcon } from "@hushletter/ui";
+import {
+  Button,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  SparklesIcon,
+} from "@hushletter/ui";
 import { AlertCircle, RefreshCw, Users, Zap } from "lucide-react";
 import { ConvexError } from "convex/values";
 import { AnimatePresence, motion } from "motion/react";
-import { cn } from "@/lib/utils";
+import { cn, languageName } from "@/lib/utils";
 import { m } from "@/paraglide/messages.js";
 import { PricingDialog } from "@/components/pricing-dialog";
+import {
+  SUMMARY_LANGUAGES,
+  SUMMARY_STYLES,
+  useSummaryPreferences,
+  type SummaryLanguage,
+  type SummaryStyle,
+} from "@/hooks/useSummaryPreferences";
 
 interface SummaryPanelProps {
   /** userNewsletter document ID - typed for Convex safety */
@@ -26,9 +41,23 @@ interface SummaryData {
   generatedAt: number | null;
 }
 
+/** Select value for "the newsletter's own language" */
+const ORIGINAL_LANGUAGE = "original";
+
+const STYLE_LABELS: Record<SummaryStyle, () => string> = {
+  bullets: () => m.summaryPanel_styleBullets(),
+  tldr: () => m.summaryPanel_styleTldr(),
+  detailed: () => m.summaryPanel_styleDetailed(),
+  actionItems: () => m.summaryPanel_styleActionItems(),
+  beginner: () => m.summaryPanel_styleBeginner(),
+};
+
 /**
  * SummaryPanel - Displays AI-generated summary for a newsletter
  *
+ * The style and target language come from useSummaryPreferences; each pair
+ * is generated and cached on its own, so switching back shows the earlier one.
+ *
  * Note on useState for isGenerating: This is an ACCEPTED EXCEPTION to project-context.md rules.
  * Convex useAction doesn't provide isPending like useMutation does, so manual loading
  * state management is required here. See ReaderView.tsx for same pattern.
@@ -41,6 +70,7 @@ export function SummaryPanel({
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isPricingDialogOpen, setIsPricingDialogOpen] = useState(false);
+  const { style, setStyle, language, setLanguage } = useSummaryPreferences();
 
   const { data: entitlements } = useQuery(
     convexQuery(api.entitlements.getEntitlements, {}),
@@ -52,7 +82,9 @@ export function SummaryPanel({
   const { data } = useQuery(
     convexQuery(
       api.ai.getNewsletterSummary,
-      isPro ? { userNewsletterId } : "skip",
+      isPro
+        ? { userNewsletterId, style, language: language ?? undefined }
+        : "skip",
     ),
   );
   const summaryData = data as SummaryData | undefined;
@@ -64,7 +96,12 @@ export function SummaryPanel({
     setError(null);
 
     try {
-      await generateSummaryAction({ userNewsletterId, forceRegenerate });
+      await generateSummaryAction({
+        userNewsletterId,
+        forceRegenerate,
+        style,
+        language: language ?? undefined,
+      });
     } catch (err) {
       if (err instanceof ConvexError) {
         const data = err.data as { message?: string; code?: string };
@@ -112,6 +149,67 @@ export function SummaryPanel({
           </div>
         )}
 
+        {/* Style and language */}
+        {isPro && (
+          <div className="mb-3 flex items-center gap-2">
+            <Select
+              value={style}
+              onValueChange={(value) => {
+                setStyle(value as SummaryStyle);
+                setError(null);
+              }}
+              disabled={isGenerating}
+            >
+              <SelectTrigger
+                className="h-8 min-w-0 flex-1 px-2.5 text-xs"
+                aria-label={m.summaryPanel_style()}
+              >
+                <SelectValue>{STYLE_LABELS[style]()}</SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                {SUMMARY_STYLES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {STYLE_LABELS[option]()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={language ?? ORIGINAL_LANGUAGE}
+              onValueChange={(value) => {
+                setLanguage(
+                  value === ORIGINAL_LANGUAGE
+                    ? null
+                    : (value as SummaryLanguage),
+                );
+                setError(null);
+              }}
+              disabled={isGenerating}
+            >
+              <SelectTrigger
+                className="h-8 min-w-0 flex-1 px-2.5 text-xs"
+                aria-label={m.summaryPanel_language()}
+              >
+                <SelectValue>
+                  {language
+                    ? languageName(language)
+                    : m.summaryPanel_languageOriginal()}
+                </SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ORIGINAL_LANGUAGE}>
+                  {m.summaryPanel_languageOriginal()}
+                </SelectItem>
+                {SUMMARY_LANGUAGES.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {languageName(code)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Error state */}
         {isPro && error && (
           <motion.div
@@ -0,0 +1,70 @@
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { api } from "@hushletter/backend";
+import { cn } from "@/lib/utils";
+
+export interface TagChipData {
+  _id: string;
+  name: string;
+  color?: string;
+}
+
+/** Preset tag colors offered in settings (stored as lowercase hex) */
+export const TAG_COLORS = [
+  "#ef4444",
+  "#f59e0b",
+  "#10b981",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+] as const;
+
+/**
+ * TagChips - Small colored labels for a newsletter's tags
+ */
+export function TagChips({
+  tags,
+  className,
+}: {
+  tags: TagChipData[];
+  className?: string;
+}) {
+  if (tags.length === 0) return null;
+
+  return (
+    <span className={cn("flex flex-wrap items-center gap-1", className)}>
+      {tags.map((tag) => (
+        <span
+          key={tag._id}
+          className="inline-flex max-w-[120px] items-center gap-1 rounded-full border px-1.5 py-px text-[10px] leading-4 text-muted-foreground"
+        >
+          <span
+            aria-hidden="true"
+            className="size-1.5 shrink-0 rounded-full bg-muted-foreground/50"
+            style={tag.color ? { backgroundColor: tag.color } : undefined}
+          />
+          <span className="truncate">{tag.name}</span>
+        </span>
+      ))}
+    </span>
+  );
+}
+
+/**
+ * NewsletterTagChips - Resolves tag ids from list items to chips
+ * Uses the (shared, cached) listTags query, so rendering many rows stays cheap.
+ */
+export function NewsletterTagChips({
+  tagIds,
+  className,
+}: {
+  tagIds: string[];
+  className?: string;
+}) {
+  const { data } = useQuery(convexQuery(api.tags.listTags, {}));
+  const tags = ((data ?? []) as TagChipData[]).filter((tag) =>
+    tagIds.includes(tag._id),
+  );
+
+  return <TagChips tags={tags} className={className} />;
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+
+let mockOptions: unknown = [];
+const mockUnsubscribe = vi.fn();
+const mockToastSuccess = vi.fn();
+const mockToastError = vi.fn();
+const mockToastInfo = vi.fn();
+
+vi.mock("@convex-dev/react-query", () => ({
+  convexQuery: (api: unknown, args: unknown) => ({ queryKey: [api, args] }),
+}));
+
+vi.mock("@tanstack/react-query", async () => {
+  const actual = await vi.importActual("@tanstack/react-query");
+  return {
+    ...actual,
+    useQuery: () => ({ data: mockOptions, isPending: false }),
+  };
+});
+
+vi.mock("convex/react", () => ({
+  useAction: () => mockUnsubscribe,
+}));
+
+vi.mock("@hushletter/backend", () => ({
+  api: {
+    unsubscribe: {
+      listFolderUnsubscribeOptions: "listFolderUnsubscribeOptions",
+      unsubscribeFromSender: "unsubscribeFromSender",
+    },
+  },
+}));
+
+vi.mock("sonner", () => ({
+  toast: {
+    success: (...args: unknown[]) => mockToastSuccess(...args),
+    error: (...args: unknown[]) => mockToastError(...args),
+    info: (...args: unknown[]) => mockToastInfo(...args),
+  },
+}));
+
+import { UnsubscribeSenderDialog } from "./UnsubscribeSenderDialog";
+
+function renderDialog() {
+  return render(
+    <UnsubscribeSenderDialog
+      open
+      onOpenChange={vi.fn()}
+      folderId="folder_1"
+      folderName="Tech News"
+    />,
+  );
+}
+
+describe("UnsubscribeSenderDialog", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockOptions = [
+      {
+        senderId: "sender_1",
+        email: "news@example.com",
+        displayName: "Example News",
+        supportsOneClick: true,
+        webUrl: "https://example.com/unsub",
+        binAfterUnsubscribe: false,
+        mailAfterUnsubscribeCount: 0,
+        isStillSending: false,
+      },
+    ];
+  });
+
+  it("lists senders with their one-click support", () => {
+    renderDialog();
+
+    expect(screen.getByText("Unsubscribe from Tech News")).toBeInTheDocument();
+    expect(screen.getByText("Example News")).toBeInTheDocument();
+    expect(screen.getByText("news@example.com · One-click")).toBeInTheDocument();
+  });
+
+  it("unsubscribes and passes the bin-future-mail choice", async () => {
+    const user = userEvent.setup();
+    mockUnsubscribe.mockResolvedValue({ status: "unsubscribed" });
+
+    renderDialog();
+    await user.click(screen.getByRole("checkbox"));
+    await user.click(
+      screen.getByRole("button", { name: "Unsubscribe from Example News" }),
+    );
+
+    await waitFor(() => {
+      expect(mockToastSuccess).toHaveBeenCalledWith(
+        "Unsubscribed from Example News",
+      );
+    });
+    expect(mockUnsubscribe).toHaveBeenCalledWith({
+      senderId: "sender_1",
+      binFutureMail: true,
+    });
+  });
+
+  it("opens the unsubscribe page when one-click is not available", async () => {
+    const user = userEvent.setup();
+    const openSpy = vi.spyOn(window, "open").mockImplementation(() => null);
+    mockUnsubscribe.mockResolvedValue({
+      status: "manual",
+      method: "url",
+      url: "https://example.com/unsub",
+    });
+
+    renderDialog();
+    await user.click(
+      screen.getByRole("button", { name: "Unsubscribe from Example News" }),
+    );
+
+    await waitFor(() => {
+      expect(openSpy).toHaveBeenCalledWith(
+        "https://example.com/unsub",
+        "_blank",
+        "noopener,noreferrer",
+      );
+    });
+    expect(mockToastInfo).toHaveBeenCalledWith(
+      "Finish unsubscribing on the page we opened",
+    );
+    openSpy.mockRestore();
+  });
+
+  it("warns about senders still sending after unsubscribe", () => {
+    mockOptions = [
+      {
+        senderId: "sender_1",
+        email: "news@example.com",
+        displayName: "Example News",
+        supportsOneClick: true,
+        status: "unsubscribed",
+        requestedAt: Date.now(),
+        binAfterUnsubscribe: false,
+        mailAfterUnsubscribeCount: 3,
+        isStillSending: true,
+      },
+    ];
+
+    renderDialog();
+
+    expect(
+      screen.getByText("Still sending: 3 emails since you unsubscribed"),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "Unsubscribe from Example News" }),
+    ).toHaveTextContent("Try again");
+  });
+
+  it("shows an error toast when the sender rejects the request", async () => {
+    const user = userEvent.setup();
+    mockUnsubscribe.mockResolvedValue({ status: "failed", error: "HTTP 500" });
+
+    renderDialog();
+    await user.click(
+      screen.getByRole("button", { name: "Unsubscribe from Example News" }),
+    );
+
+    await waitFor(() => {
+      expect(mockToastError).toHaveBeenCalledWith(
+        "Example News didn't accept the unsubscribe request",
+      );
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useAction } from "convex/react";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { toast } from "sonner";
+import {
+  Button,
+  Checkbox,
+  Dialog,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogPanel,
+  DialogPopup,
+  DialogTitle,
+} from "@hushletter/ui";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { m } from "@/paraglide/messages.js";
+
+/**
+ * UnsubscribeSenderDialog - Leave the mailing lists of the senders in a folder
+ *
+ * Uses RFC 8058 one-click unsubscribe when the sender supports it, otherwise
+ * opens the sender's unsubscribe page (or a pre-filled email).
+ * Also surfaces senders that keep mailing after an unsubscribe.
+ */
+
+type UnsubscribeOption = {
+  senderId: Id<"senders">;
+  email: string;
+  displayName: string;
+  supportsOneClick: boolean;
+  webUrl?: string;
+  mailtoUrl?: string;
+  status?: "unsubscribed" | "failed" | "manual";
+  requestedAt?: number;
+  error?: string;
+  binAfterUnsubscribe: boolean;
+  mailAfterUnsubscribeCount: number;
+  isStillSending: boolean;
+};
+
+type UnsubscribeResult =
+  | { status: "unsubscribed" }
+  | { status: "failed"; error: string }
+  | { status: "manual"; method: "mailto" | "url"; url: string };
+
+interface UnsubscribeSenderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  folderId: string;
+  folderName: string;
+}
+
+function getStatusText(option: UnsubscribeOption): string | null {
+  const date = option.requestedAt
+    ? new Date(option.requestedAt).toLocaleDateString()
+    : "";
+  switch (option.status) {
+    case "unsubscribed":
+      return m.unsubscribeDlg_statusUnsubscribed({ date });
+    case "manual":
+      return m.unsubscribeDlg_statusManual({ date });
+    case "failed":
+      return m.unsubscribeDlg_statusFailed({ error: option.error ?? "" });
+    default:
+      return null;
+  }
+}
+
+export function UnsubscribeSenderDialog({
+  open,
+  onOpenChange,
+  folderId,
+  folderName,
+}: UnsubscribeSenderDialogProps) {
+  const { data, isPending } = useQuery(
+    convexQuery(
+      api.unsubscribe.listFolderUnsubscribeOptions,
+      open ? { folderId: folderId as Id<"folders"> } : "skip",
+    ),
+  );
+  const unsubscribe = useAction(api.unsubscribe.unsubscribeFromSender);
+  const [binFutureMail, setBinFutureMail] = useState(false);
+  const [pendingSenderId, setPendingSenderId] = useState<string | null>(null);
+
+  const options = (data ?? []) as UnsubscribeOption[];
+
+  const handleUnsubscribe = async (option: UnsubscribeOption) => {
+    setPendingSenderId(option.senderId);
+    try {
+      const result = (await unsubscribe({
+        senderId: option.senderId,
+        binFutureMail,
+      })) as UnsubscribeResult;
+
+      if (result.status === "unsubscribed") {
+        toast.success(
+          m.unsubscribeDlg_success({ senderName: option.displayName }),
+        );
+      } else if (result.status === "failed") {
+        toast.error(m.unsubscribeDlg_failed({ senderName: option.displayName }));
+      } else {
+        window.open(result.url, "_blank", "noopener,noreferrer");
+        toast.info(
+          result.method === "mailto"
+            ? m.unsubscribeDlg_manualMailto()
+            : m.unsubscribeDlg_manualUrl(),
+        );
+      }
+    } catch (error) {
+      console.error("[UnsubscribeSenderDialog] Unsubscribe failed:", error);
+      toast.error(m.unsubscribeDlg_error());
+    } finally {
+      setPendingSenderId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogPopup onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle>{m.unsubscribeDlg_title({ folderName })}</DialogTitle>
+          <DialogDescription>{m.unsubscribeDlg_description()}</DialogDescription>
+        </DialogHeader>
+
+        <DialogPanel className="space-y-4">
+          {isPending ? (
+            <div className="h-14 bg-muted rounded-md animate-pulse" />
+          ) : (
+            <ul className="space-y-2">
+              {options.map((option) => {
+                const hasLink = Boolean(
+                  option.supportsOneClick || option.webUrl || option.mailtoUrl,
+                );
+                const statusText = getStatusText(option);
+                return (
+                  <li
+                    key={option.senderId}
+                    className="flex items-start gap-3 rounded-md border p-3"
+                  >
+                    <div className="min-w-0 flex-1 space-y-0.5">
+                      <p className="truncate text-sm font-medium">
+                        {option.displayName}
+                      </p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {option.email}
+                        {option.supportsOneClick &&
+                          ` · ${m.unsubscribeDlg_oneClick()}`}
+                      </p>
+                      {statusText && (
+                        <p
+                          className={
+                            option.status === "failed"
+                              ? "text-xs text-destructive"
+                              : "text-xs text-muted-foreground"
+                          }
+                        >
+                          {statusText}
+                        </p>
+                      )}
+                      {option.isStillSending && (
+                        <p className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+                          <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                          {m.unsubscribeDlg_stillSending({
+                            count: option.mailAfterUnsubscribeCount,
+                          })}
+                        </p>
+                      )}
+                    </div>
+                    {hasLink ? (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant={option.status ? "outline" : "default"}
+                        disabled={pendingSenderId !== null}
+                        onClick={() => void handleUnsubscribe(option)}
+                        aria-label={m.unsubscribeDlg_unsubscribeAria({
+                          senderName: option.displayName,
+                        })}
+                      >
+                        {pendingSenderId === option.senderId && (
+                          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                        )}
+                        {option.status
+                          ? m.unsubscribeDlg_retry()
+                          : m.unsubscribeDlg_unsubscribe()}
+                      </Button>
+                    ) : (
+                      <span className="shrink-0 text-xs text-muted-foreground">
+                        {m.unsubscribeDlg_noLink()}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={binFutureMail}
+              onCheckedChange={(checked) => setBinFutureMail(checked === true)}
+            />
+            {m.unsubscribeDlg_binFutureMail()}
+          </label>
+        </DialogPanel>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            {m.unsubscribeDlg_close()}
+          </Button>
+        </DialogFooter>
+      </DialogPopup>
+    </Dialog>
+  );
+}
@@ -1,19 +1,37 @@
 import { describe, expect, it, vi, beforeEach } from "vitest"
-import { render, screen, fireEvent } from "@testing-library/react"
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"
 import { DeliveryDetailPanel } from "./DeliveryDetailPanel"
 import type { Id } from "@hushletter/backend/convex/_generated/dataModel"
 
 // Mock the mutation hook
 const mockMutate = vi.fn()
+let mockAttempts: unknown[] = []
 vi.mock("@tanstack/react-query", () => ({
   useMutation: () => ({
     mutate: mockMutate,
     isPending: false,
   }),
+  useQuery: () => ({ data: mockAttempts }),
 }))
 
 vi.mock("@convex-dev/react-query", () => ({
   useConvexMutation: () => vi.fn(),
+  convexQuery: (api: unknown, args: unknown) => ({ queryKey: [api, args] }),
+}))
+
+// All actions (re-parse, retry, bulk retry) share one mock - tests tell them apart by args
+const mockAction = vi.fn()
+vi.mock("convex/react", () => ({
+  useAction: () => mockAction,
+}))
+
+const mockToastSuccess = vi.fn()
+const mockToastError = vi.fn()
+vi.mock("sonner", () => ({
+  toast: {
+    success: (...args: unknown[]) => mockToastSuccess(...args),
+    error: (...args: unknown[]) => mockToastError(...args),
+  },
 }))
 
 /**
@@ -40,6 +58,10 @@ const createMockLog = (overrides = {}) => ({
 describe("DeliveryDetailPanel", () => {
   beforeEach(() => {
     mockMutate.mockClear()
+    mockAction.mockReset()
+    mockToastSuccess.mockClear()
+    mockToastError.mockClear()
+    mockAttempts = []
   })
 
   it("renders email details", () => {
@@ -221,4 +243,115 @@ describe("DeliveryDetailPanel", () => {
 
     expect(screen.getByText("Unknown error")).toBeInTheDocument()
   })
+
+  it("does not offer re-parsing without an original email", () => {
+    const log = createMockLog()
+
+    render(<DeliveryDetailPanel log={log} />)
+
+    expect(screen.queryByText("Re-parse from original")).not.toBeInTheDocument()
+  })
+
+  it("re-parses the delivery from its original email", async () => {
+    mockAction.mockResolvedValue({ status: "stored", userNewsletterId: "newsletter1" })
+    const log = createMockLog({
+      status: "failed",
+      rawEmailR2Key: "private/user1/originals/1-abc.eml",
+    })
+
+    render(<DeliveryDetailPanel log={log} />)
+
+    fireEvent.click(screen.getByText("Re-parse from original"))
+
+    expect(mockAction).toHaveBeenCalledWith({ logId: "log123" })
+    await waitFor(() => {
+      expect(mockToastSuccess).toHaveBeenCalledWith("Newsletter stored from the original email")
+    })
+  })
+
+  it("explains when a failed delivery can't be retried", () => {
+    const log = createMockLog({ status: "failed", errorCode: "R2_UPLOAD_FAILED" })
+
+    render(<DeliveryDetailPanel log={log} />)
+
+    expect(screen.queryByText("Retry")).not.toBeInTheDocument()
+    expect(
+      screen.getByText("The delivery payload wasn't kept, so it can't be retried")
+    ).toBeInTheDocument()
+  })
+
+  it("retries a failed delivery from its stored payload", async () => {
+    mockAction.mockResolvedValue({ status: "stored", attempt: 1 })
+    const log = createMockLog({
+      status: "failed",
+      errorCode: "R2_UPLOAD_FAILED",
+      payloadStorageId: "storage1" as Id<"_storage">,
+    })
+
+    render(<DeliveryDetailPanel log={log} />)
+
+    fireEvent.click(screen.getByText("Retry"))
+
+    expect(mockAction).toHaveBeenCalledWith({ logId: "log123" })
+    await waitFor(() => {
+      expect(mockToastSuccess).toHaveBeenCalledWith("Delivery retried and stored")
+    })
+  })
+
+  it("reports a retry that failed again", async () => {
+    mockAction.mockResolvedValue({ status: "failed", attempt: 2, errorCode: "R2_UPLOAD_FAILED" })
+    const log = createMockLog({
+      status: "failed",
+      errorCode: "R2_UPLOAD_FAILED",
+      payloadStorageId: "storage1" as Id<"_storage">,
+    })
+
+    render(<DeliveryDetailPanel log={log} />)
+
+    fireEvent.click(screen.getByText("Retry"))
+
+    await waitFor(() => {
+      expect(mockToastError).toHaveBeenCalledWith("Retry failed again (R2_UPLOAD_FAILED)")
+    })
+  })
+
+  it("retries all failures with the same error code", async () => {
+    mockAction.mockResolvedValue({ scheduled: 12 })
+    const log = createMockLog({
+      status: "failed",
+      errorCode: "R2_UPLOAD_FAILED",
+      payloadStorageId: "storage1" as Id<"_storage">,
+    })
+
+    render(<DeliveryDetailPanel log={log} />)
+
+    fireEvent.click(screen.getByText("Retry all R2_UPLOAD_FAILED"))
+
+    expect(mockAction).toHaveBeenCalledWith({ errorCode: "R2_UPLOAD_FAILED" })
+    await waitFor(() => {
+      expect(mockToastSuccess).toHaveBeenCalledWith("12 deliveries scheduled for retry")
+    })
+  })
+
+  it("lists previous retry attempts", () => {
+    mockAttempts = [
+      {
+        _id: "attempt2",
+        attempt: 2,
+        status: "failed",
+        errorCode: "PLAN_STORAGE_LIMIT",
+        startedAt: Date.now() - 1000,
+        isBulk: true,
+      },
+      { _id: "attempt1", attempt: 1, status: "failed", startedAt: Date.now() - 2000 },
+    ]
+    const log = createMockLog({ status: "failed", retryCount: 2 })
+
+    render(<DeliveryDetailPanel log={log} />)
+
+    expect(screen.getByText("Attempt 2")).toBeInTheDocument()
+    expect(screen.getByText("Attempt 1")).toBeInTheDocument()
+    expect(screen.getByText("PLAN_STORAGE_LIMIT")).toBeInTheDocument()
+    expect(screen.getByText("· bulk retry")).toBeInTheDocument()
+  })
 })
@@ -1,8 +1,12 @@
-import { useMutation } from "@tanstack/react-query";
-import { useConvexMutation } from "@convex-dev/react-query";
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useAction } from "convex/react";
 import { api } from "@hushletter/backend";
 import { Badge, Button } from "@hushletter/ui";
 import { format } from "date-fns";
+import { toast } from "sonner";
+import { DeliveryStatusBadge } from "./DeliveryStatusBadge";
 import type { DeliveryLog } from "./DeliveryLogTable";
 import { m } from "@/paraglide/messages.js";
 
@@ -23,7 +27,10 @@ interface DeliveryDetailPanelProps {
  * - Processing timeline with timestamps
  * - Content information (size, type)
  * - Error details for failed deliveries
- * - Acknowledge button for failed deliveries
+ * - Acknowledge and retry buttons for failed deliveries
+ * - Bulk retry of all failures with the same error code
+ * - History of retry attempts
+ * - Re-parse button when the original email was kept
  *
  * @example
  * <DeliveryDetailPanel log={selectedLog} />
@@ -34,6 +41,62 @@ export function DeliveryDetailPanel({ log }: DeliveryDetailPanelProps) {
   const acknowledgeMutation = useMutation({
     mutationFn: acknowledgeConvexMutation,
   });
+  const reparseFromOriginal = useAction(api.admin.reparseDeliveryFromOriginal);
+  const [isReparsing, setIsReparsing] = useState(false);
+  const retryDelivery = useAction(api.admin.retryFailedDelivery);
+  const retryDeliveriesByErrorCode = useAction(api.admin.retryFailedDeliveriesByErrorCode);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [isRetryingAll, setIsRetryingAll] = useState(false);
+  const { data: attempts } = useQuery(
+    convexQuery(
+      api.admin.listDeliveryAttempts,
+      log.retryCount > 0 ? { logId: log._id } : "skip",
+    ),
+  );
+
+  const handleReparse = async () => {
+    setIsReparsing(true);
+    try {
+      const result = await reparseFromOriginal({ logId: log._id });
+      toast.success(
+        result.status === "updated"
+          ? m.deliveryDetail_reparseUpdated()
+          : m.deliveryDetail_reparseStored(),
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : m.deliveryDetail_reparseFailed());
+    } finally {
+      setIsReparsing(false);
+    }
+  };
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    try {
+      const result = await retryDelivery({ logId: log._id });
+      if (result.status === "stored") {
+        toast.success(m.deliveryDetail_retryStored());
+      } else {
+        toast.error(m.deliveryDetail_retryFailedAgain({ errorCode: result.errorCode ?? "UNKNOWN" }));
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : m.deliveryDetail_retryError());
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  const handleRetryAll = async (errorCode: string) => {
+    setIsRetryingAll(true);
+    try {
+      const result = await retryDeliveriesByErrorCode({ errorCode });
+      toast.success(m.deliveryDetail_retryAllScheduled({ count: result.scheduled }));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : m.deliveryDetail_retryAllError());
+    } finally {
+      setIsRetryingAll(false);
+    }
+  };
 
   return (
     <div className="p-4 space-y-4">
@@ -127,7 +190,55 @@ export function DeliveryDetailPanel({ log }: DeliveryDetailPanelProps) {
               </Button>
             )}
             {log.isAcknowledged && <Badge variant="secondary">{m.deliveryDetail_acknowledgedBadge()}</Badge>}
+            {log.payloadStorageId && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  void handleRetry();
+                }}
+                disabled={isRetrying}
+              >
+                {isRetrying ? m.deliveryDetail_retryingButton() : m.deliveryDetail_retryButton()}
+              </Button>
+            )}
+            {log.payloadStorageId && log.errorCode && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  void handleRetryAll(log.errorCode!);
+                }}
+                disabled={isRetryingAll}
+              >
+                {m.deliveryDetail_retryAllButton({ errorCode: log.errorCode })}
+              </Button>
+            )}
           </div>
+          {!log.payloadStorageId && (
+            <p className="mt-2 text-muted-foreground text-sm">{m.deliveryDetail_noPayload()}</p>
+          )}
+        </div>
+      )}
+
+      {/* Original email (kept when the user opted in) */}
+      {log.rawEmailR2Key && (
+        <div className="border-t pt-4">
+          <p className="font-medium mb-2">{m.deliveryDetail_originalTitle()}</p>
+          <p className="text-muted-foreground text-sm mb-2">{m.deliveryDetail_originalDescription()}</p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={(e) => {
+              e.stopPropagation();
+              void handleReparse();
+            }}
+            disabled={isReparsing}
+          >
+            {isReparsing ? m.deliveryDetail_reparsingButton() : m.deliveryDetail_reparseButton()}
+          </Button>
         </div>
       )}
 
@@ -146,6 +257,21 @@ export function DeliveryDetailPanel({ log }: DeliveryDetailPanelProps) {
           <p className="text-muted-foreground text-sm">
             {m.deliveryDetail_retryAttemptsLabel()}: <span className="font-medium">{log.retryCount}</span>
           </p>
+          {attempts && attempts.length > 0 && (
+            <ul className="mt-2 space-y-1 text-sm">
+              {attempts.map((attempt) => (
+                <li key={attempt._id} className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{m.deliveryDetail_attemptLabel({ attempt: attempt.attempt })}</span>
+                  <DeliveryStatusBadge status={attempt.status} />
+                  {attempt.errorCode && <Badge variant="outline">{attempt.errorCode}</Badge>}
+                  <span className="text-muted-foreground">{format(attempt.startedAt, "PPpp")}</span>
+                  {attempt.isBulk && (
+                    <span className="text-muted-foreground">· {m.deliveryDetail_attemptBulk()}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
     </div>
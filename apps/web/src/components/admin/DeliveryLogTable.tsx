@@ -21,6 +21,9 @@ export interface DeliveryLog {
   subject: string;
   messageId: string;
   userId?: Id<"users">;
+  userNewsletterId?: Id<"userNewsletters">;
+  rawEmailR2Key?: string;
+  payloadStorageId?: Id<"_storage">;
   status: "received" | "processing" | "stored" | "failed";
   receivedAt: number;
   processingStartedAt?: number;
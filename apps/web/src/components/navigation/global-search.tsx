@@ -17,6 +17,11 @@ import {
   Button,
   Kbd,
   KbdGroup,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
 } from "@hushletter/ui/components";
 import {
   ArrowDownIcon,
@@ -24,14 +29,30 @@ import {
   CornerDownLeftIcon,
   SearchIcon,
   EyeOffIcon,
+  StarIcon,
 } from "lucide-react";
-import { useDeferredValue, useEffect, useMemo, useRef, useState } from "react";
+import {
+  type ReactNode,
+  useDeferredValue,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { Fragment } from "react/jsx-runtime";
 import { formatForDisplay, useHotkey } from "@tanstack/react-hotkeys";
 import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
 import { useNavigate } from "@tanstack/react-router";
 import { useConvex, useMutation } from "convex/react";
 import { api } from "@hushletter/backend";
+import {
+  SEARCH_OPERATOR_VALUES,
+  applySearchQueryCompletion,
+  getSearchQueryCompletion,
+  hasSearchCriteria,
+  parseSearchQuery,
+} from "@hushletter/shared";
 import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
 import { formatDistanceToNow } from "date-fns";
 import { useAppHotkeys } from "@/hooks/use-app-hotkeys";
@@ -42,6 +63,54 @@ type Props = {
 
 const LAST_READ_KEY = "hushletter:lastNewsletter";
 
+/** Select value for "any folder/sender/tag" */
+const ANY = "any";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Maximum operator value suggestions shown while typing */
+const MAX_SUGGESTIONS = 6;
+
+const DATE_RANGES = {
+  any: { label: "Any time", days: null },
+  week: { label: "Past week", days: 7 },
+  month: { label: "Past month", days: 30 },
+  year: { label: "Past year", days: 365 },
+} as const;
+
+type DateRange = keyof typeof DATE_RANGES;
+
+const READ_STATES = {
+  any: { label: "Read & unread", isRead: undefined },
+  unread: { label: "Unread", isRead: false },
+  read: { label: "Read", isRead: true },
+} as const;
+
+type ReadState = keyof typeof READ_STATES;
+
+type SearchFilters = {
+  folderId: string;
+  senderId: string;
+  tagId: string;
+  dateRange: DateRange;
+  readState: ReadState;
+  favoritesOnly: boolean;
+};
+
+const DEFAULT_FILTERS: SearchFilters = {
+  folderId: ANY,
+  senderId: ANY,
+  tagId: ANY,
+  dateRange: "any",
+  readState: "any",
+  favoritesOnly: false,
+};
+
+type SearchSnippet = {
+  text: string;
+  highlights: Array<{ start: number; end: number }>;
+};
+
 type NewsletterSearchResult = {
   userNewsletterId: Id<"userNewsletters">;
   subject: string;
@@ -50,6 +119,7 @@ type NewsletterSearchResult = {
   receivedAt: number;
   isHidden: boolean;
   isRead: boolean;
+  snippet?: SearchSnippet;
 };
 
 export type NewsletterItem = {
@@ -62,6 +132,7 @@ export type NewsletterItem = {
   receivedAt: number;
   isHidden: boolean;
   isRead: boolean;
+  snippet?: SearchSnippet;
 };
 
 export type InfoItem = {
@@ -71,17 +142,211 @@ export type InfoItem = {
   disabled: true;
 };
 
-export type Item = NewsletterItem | InfoItem;
+export type SuggestionItem = {
+  kind: "suggestion";
+  value: string;
+  label: string;
+  disabled?: boolean;
+  /** Query with the suggested operator value filled in */
+  query: string;
+};
+
+export type Item = NewsletterItem | InfoItem | SuggestionItem;
 
 export type Group = {
   value: string;
   items: Item[];
 };
 
+/**
+ * Body excerpt with the matched query terms highlighted
+ */
+function HighlightedSnippet({ snippet }: { snippet: SearchSnippet }) {
+  const parts: ReactNode[] = [];
+  let position = 0;
+  for (const { start, end } of snippet.highlights) {
+    if (start < position) continue;
+    parts.push(snippet.text.slice(position, start));
+    parts.push(
+      <mark
+        key={start}
+        className="rounded-sm bg-primary/15 text-foreground"
+      >
+        {snippet.text.slice(start, end)}
+      </mark>,
+    );
+    position = end;
+  }
+  parts.push(snippet.text.slice(position));
+
+  return (
+    <div className="line-clamp-2 text-muted-foreground text-xs">{parts}</div>
+  );
+}
+
+/**
+ * Folder, sender, tag, date, read state and favorites filters for the search
+ */
+function SearchFilterBar({
+  filters,
+  onChange,
+  enabled,
+}: {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+  enabled: boolean;
+}) {
+  const { data: folders } = useQuery({
+    ...convexQuery(api.folders.listFolders, {}),
+    enabled,
+  });
+  const { data: senders } = useQuery({
+    ...convexQuery(api.senders.listSendersForUser, {}),
+    enabled,
+  });
+  const { data: tags } = useQuery({
+    ...convexQuery(api.tags.listTags, {}),
+    enabled,
+  });
+
+  const folderOptions = (folders ?? []) as Array<{ _id: string; name: string }>;
+  const senderOptions = (senders ?? []) as Array<{
+    _id: string;
+    displayName: string;
+  }>;
+  const tagOptions = (tags ?? []) as Array<{ _id: string; name: string }>;
+  const update = (patch: Partial<SearchFilters>) =>
+    onChange({ ...filters, ...patch });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 border-b px-3 py-2">
+      <Select
+        value={filters.folderId}
+        onValueChange={(value) => update({ folderId: value as string })}
+      >
+        <SelectTrigger
+          className="h-8 w-auto gap-2 text-xs"
+          aria-label="Folder"
+        >
+          <SelectValue>
+            {folderOptions.find((folder) => folder._id === filters.folderId)
+              ?.name ?? "All folders"}
+          </SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>All folders</SelectItem>
+          {folderOptions.map((folder) => (
+            <SelectItem key={folder._id} value={folder._id}>
+              {folder.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.senderId}
+        onValueChange={(value) => update({ senderId: value as string })}
+      >
+        <SelectTrigger
+          className="h-8 w-auto gap-2 text-xs"
+          aria-label="Sender"
+        >
+          <SelectValue>
+            {senderOptions.find((sender) => sender._id === filters.senderId)
+              ?.displayName ?? "All senders"}
+          </SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>All senders</SelectItem>
+          {senderOptions.map((sender) => (
+            <SelectItem key={sender._id} value={sender._id}>
+              {sender.displayName}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {tagOptions.length > 0 && (
+        <Select
+          value={filters.tagId}
+          onValueChange={(value) => update({ tagId: value as string })}
+        >
+          <SelectTrigger
+            className="h-8 w-auto gap-2 text-xs"
+            aria-label="Tag"
+          >
+            <SelectValue>
+              {tagOptions.find((tag) => tag._id === filters.tagId)?.name ??
+                "All tags"}
+            </SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All tags</SelectItem>
+            {tagOptions.map((tag) => (
+              <SelectItem key={tag._id} value={tag._id}>
+                {tag.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <Select
+        value={filters.dateRange}
+        onValueChange={(value) => update({ dateRange: value as DateRange })}
+      >
+        <SelectTrigger
+          className="h-8 w-auto gap-2 text-xs"
+          aria-label="Date"
+        >
+          <SelectValue>{DATE_RANGES[filters.dateRange].label}</SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(DATE_RANGES).map(([value, { label }]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.readState}
+        onValueChange={(value) => update({ readState: value as ReadState })}
+      >
+        <SelectTrigger
+          className="h-8 w-auto gap-2 text-xs"
+          aria-label="Read state"
+        >
+          <SelectValue>{READ_STATES[filters.readState].label}</SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(READ_STATES).map(([value, { label }]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button
+        variant={filters.favoritesOnly ? "secondary" : "ghost"}
+        size="sm"
+        aria-pressed={filters.favoritesOnly}
+        onClick={() => update({ favoritesOnly: !filters.favoritesOnly })}
+      >
+        <StarIcon className="size-3.5" />
+        Favorites
+      </Button>
+    </div>
+  );
+}
+
 export const GlobalSearch = ({ enableHotkey = true }: Props) => {
   const { bindings } = useAppHotkeys();
   const [open, setOpen] = useState(false);
   const [query, setQuery] = useState("");
+  const [filters, setFilters] = useState<SearchFilters>(DEFAULT_FILTERS);
   const deferredQuery = useDeferredValue(query);
   const navigate = useNavigate();
   const convex = useConvex();
@@ -93,7 +358,30 @@ export const GlobalSearch = ({ enableHotkey = true }: Props) => {
   const [lastOpenedId, setLastOpenedId] = useState<string | null>(null);
 
   const trimmedQuery = deferredQuery.trim();
-  const searchEnabled = open && trimmedQuery.length >= 2;
+  const parsedQuery = useMemo(
+    () => parseSearchQuery(trimmedQuery),
+    [trimmedQuery],
+  );
+  // Operators alone (e.g. "is:unread") are enough to search
+  const isSearchable =
+    parsedQuery.success &&
+    (parsedQuery.query.text.length >= 2 ||
+      hasSearchCriteria({ ...parsedQuery.query, text: "" }));
+  const completion = useMemo(() => getSearchQueryCompletion(query), [query]);
+  const searchEnabled = open && isSearchable;
+
+  const { data: folders } = useQuery({
+    ...convexQuery(api.folders.listFolders, {}),
+    enabled: open,
+  });
+  const { data: senders } = useQuery({
+    ...convexQuery(api.senders.listSendersForUser, {}),
+    enabled: open,
+  });
+  const { data: tags } = useQuery({
+    ...convexQuery(api.tags.listTags, {}),
+    enabled: open,
+  });
 
   useEffect(() => {
     if (!open) return;
@@ -110,11 +398,25 @@ export const GlobalSearch = ({ enableHotkey = true }: Props) => {
     isFetching,
     refetch,
   } = useQuery({
-    queryKey: ["globalSearch", trimmedQuery],
+    queryKey: ["globalSearch", trimmedQuery, filters],
     queryFn: async () => {
+      const { days } = DATE_RANGES[filters.dateRange];
       return (await convex.query(api.newsletters.searchUserNewslettersMeta, {
         query: trimmedQuery,
         limit: 20,
+        folderId:
+          filters.folderId === ANY
+            ? undefined
+            : (filters.folderId as Id<"folders">),
+        senderId:
+          filters.senderId === ANY
+            ? undefined
+            : (filters.senderId as Id<"senders">),
+        tagId:
+          filters.tagId === ANY ? undefined : (filters.tagId as Id<"tags">),
+        receivedAfter: days === null ? undefined : Date.now() - days * DAY_MS,
+        isRead: READ_STATES[filters.readState].isRead,
+        isFavorited: filters.favoritesOnly ? true : undefined,
       })) as NewsletterSearchResult[];
     },
     enabled: searchEnabled,
@@ -146,7 +448,8 @@ export const GlobalSearch = ({ enableHotkey = true }: Props) => {
         return null;
       }
     },
-    enabled: open && trimmedQuery.length < 2 && Boolean(lastOpenedId),
+    enabled:
+      open && !completion && trimmedQuery.length < 2 && Boolean(lastOpenedId),
     staleTime: 30_000,
     gcTime: 5 * 60_000,
     placeholderData: (prev) => prev,
@@ -172,55 +475,67 @@ export const GlobalSearch = ({ enableHotkey = true }: Props) => {
     };
   }, [searchEnabled, backfillSearchMeta, refetch]);
 
-  const items = useMemo((): Group[] => {
-    if (trimmedQuery.length < 2) {
-      if (isFetchingLastOpened) {
-        return [
-          {
-            value: "Recent",
-            items: [
-              {
-                kind: "info",
-                value: "loading-last",
-                label: "Loading...",
-                disabled: true,
-              },
-            ],
-          },
-        ];
-      }
+  const suggestions = useMemo((): SuggestionItem[] => {
+    if (!completion) return [];
+
+    const values =
+      completion.operator === "from"
+        ? ((senders ?? []) as Array<{ email: string }>).map((s) => s.email)
+        : completion.operator === "folder"
+          ? ((folders ?? []) as Array<{ name: string }>).map((f) => f.name)
+          : completion.operator === "tag"
+            ? ((tags ?? []) as Array<{ name: string }>).map((t) => t.name)
+            : (SEARCH_OPERATOR_VALUES[completion.operator] ?? []);
+    const partial = completion.partial.toLowerCase();
 
-      if (lastOpened) {
-        const senderLine = lastOpened.senderName
-          ? `${lastOpened.senderName} <${lastOpened.senderEmail}>`
-          : lastOpened.senderEmail;
-        return [
+    return values
+      .filter((value) => {
+        const lower = value.toLowerCase();
+        return lower !== partial && lower.includes(partial);
+      })
+      .slice(0, MAX_SUGGESTIONS)
+      .map((value) => ({
+        kind: "suggestion",
+        value: `suggestion:${completion.operator}:${value}`,
+        label: `${completion.operator}:${value}`,
+        query: applySearchQueryCompletion(query, completion, value),
+      }));
+  }, [completion, query, senders, folders, tags]);
+
+  const items = useMemo((): Group[] => {
+    const groups: Group[] = [];
+    if (suggestions.length > 0) {
+      groups.push({ value: "Suggestions", items: suggestions });
+    } else if (
+      completion &&
+      (completion.operator === "after" || completion.operator === "before") &&
+      !completion.partial
+    ) {
+      groups.push({
+        value: "Suggestions",
+        items: [
           {
-            value: "Recent",
-            items: [
-              {
-                kind: "newsletter",
-                value: String(lastOpened.userNewsletterId),
-                label: lastOpened.subject,
-                senderLine,
-                receivedAt: lastOpened.receivedAt,
-                isHidden: lastOpened.isHidden,
-                isRead: lastOpened.isRead,
-                userNewsletterId: lastOpened.userNewsletterId,
-              },
-            ],
+            kind: "info",
+            value: "date-hint",
+            label: `Type a date like ${completion.operator}:2026-01-31`,
+            disabled: true,
           },
-        ];
-      }
+        ],
+      });
+    }
 
+    // Invalid syntax: explain instead of searching. Values still being typed
+    // (e.g. "from:" or an open quote) aren't errors yet.
+    if (!parsedQuery.success) {
+      if (completion) return groups;
       return [
         {
           value: "Search",
           items: [
             {
               kind: "info",
-              value: "empty",
-              label: "Start typing to search your newsletters...",
+              value: "query-error",
+              label: parsedQuery.error.message,
               disabled: true,
             },
           ],
@@ -228,6 +543,81 @@ export const GlobalSearch = ({ enableHotkey = true }: Props) => {
       ];
     }
 
+    if (isSearchable) {
+      return [...groups, ...searchResultGroups()];
+    }
+    if (groups.length > 0) return groups;
+    return idleGroups();
+  }, [
+    suggestions,
+    completion,
+    parsedQuery,
+    isSearchable,
+    results,
+    isFetching,
+    isIndexing,
+    lastOpened,
+    isFetchingLastOpened,
+  ]);
+
+  /** Last opened newsletter, or a prompt to start typing */
+  function idleGroups(): Group[] {
+    if (isFetchingLastOpened) {
+      return [
+        {
+          value: "Recent",
+          items: [
+            {
+              kind: "info",
+              value: "loading-last",
+              label: "Loading...",
+              disabled: true,
+            },
+          ],
+        },
+      ];
+    }
+
+    if (lastOpened) {
+      const senderLine = lastOpened.senderName
+        ? `${lastOpened.senderName} <${lastOpened.senderEmail}>`
+        : lastOpened.senderEmail;
+      return [
+        {
+          value: "Recent",
+          items: [
+            {
+              kind: "newsletter",
+              value: String(lastOpened.userNewsletterId),
+              label: lastOpened.subject,
+              senderLine,
+              receivedAt: lastOpened.receivedAt,
+              isHidden: lastOpened.isHidden,
+              isRead: lastOpened.isRead,
+              userNewsletterId: lastOpened.userNewsletterId,
+            },
+          ],
+        },
+      ];
+    }
+
+    return [
+      {
+        value: "Search",
+        items: [
+          {
+            kind: "info",
+            value: "empty",
+            label: "Start typing to search your newsletters...",
+            disabled: true,
+          },
+        ],
+      },
+    ];
+  }
+
+  /** Results of the current query */
+  function searchResultGroups(): Group[] {
     const newsletterItems: Item[] = (results ?? []).map((r) => {
       const senderLine = r.senderName
         ? `${r.senderName} <${r.senderEmail}>`
@@ -241,6 +631,7 @@ export const GlobalSearch = ({ enableHotkey = true }: Props) => {
         receivedAt: r.receivedAt,
         isHidden: r.isHidden,
         isRead: r.isRead,
+        snippet: r.snippet,
         userNewsletterId: r.userNewsletterId,
       };
     });
@@ -261,18 +652,16 @@ export const GlobalSearch = ({ enableHotkey = true }: Props) => {
         : newsletterItems;
 
     return [{ value: "Newsletters", items: effectiveItems }];
-  }, [
-    trimmedQuery,
-    results,
-    isFetching,
-    isIndexing,
-    lastOpened,
-    isFetchingLastOpened,
-  ]);
+  }
 
   function handleItemClick(item: Item) {
     if (item.disabled) return;
 
+    if (item.kind === "suggestion") {
+      setQuery(item.query);
+      return;
+    }
+
     if (item.kind === "newsletter") {
       navigate({
         to: "/newsletters",
@@ -295,7 +684,10 @@ export const GlobalSearch = ({ enableHotkey = true }: Props) => {
       open={open}
       onOpenChange={(nextOpen) => {
         setOpen(nextOpen);
-        if (!nextOpen) setQuery("");
+        if (!nextOpen) {
+          setQuery("");
+          setFilters(DEFAULT_FILTERS);
+        }
       }}
     >
       <CommandDialogTrigger
@@ -330,7 +722,12 @@ export const GlobalSearch = ({ enableHotkey = true }: Props) => {
           value={query}
           onValueChange={setQuery}
         >
-          <CommandInput placeholder="Search newsletters by subject or sender..." />
+          <CommandInput placeholder="Search newsletters... try from:, folder:, tag:, is:unread or after:2026-01-01" />
+          <SearchFilterBar
+            filters={filters}
+            onChange={setFilters}
+            enabled={open}
+          />
           <CommandPanel>
             <CommandEmpty>No results found.</CommandEmpty>
             <CommandList>
@@ -355,6 +752,9 @@ export const GlobalSearch = ({ enableHotkey = true }: Props) => {
                                 <div className="truncate text-muted-foreground text-xs">
                                   {item.senderLine}
                                 </div>
+                                {item.snippet && (
+                                  <HighlightedSnippet snippet={item.snippet} />
+                                )}
                               </div>
                               <div className="flex items-center gap-2">
                                 {item.isHidden && (
@@ -6,6 +6,7 @@ import { useQuery } from "@tanstack/react-query";
 import { convexQuery } from "@convex-dev/react-query";
 import { api } from "@hushletter/backend";
 import { useMutation } from "convex/react";
+import { useNavigate } from "@tanstack/react-router";
 import { signOut, useSession } from "@/lib/auth-client";
 import { formatForDisplay } from "@tanstack/react-hotkeys";
 import {
@@ -35,7 +36,13 @@ import {
   Label,
   Textarea,
 } from "@hushletter/ui";
-import { ChevronsUpDownIcon, ExternalLink } from "lucide-react";
+import {
+  ChevronsUpDownIcon,
+  ExternalLink,
+  Highlighter,
+  MessageCircleQuestion,
+  Sparkles,
+} from "lucide-react";
 import { importDialogHandle } from "../import";
 import {
   CheckCircleSolidIcon,
@@ -51,6 +58,7 @@ import { useAppHotkeys } from "@/hooks/use-app-hotkeys";
 
 export const UserMenu = () => {
   const { bindings } = useAppHotkeys();
+  const navigate = useNavigate();
   const { data: session } = useSession();
   const sendFeedback = useMutation(api.users.sendFeedbackToDiscord);
   const { data: currentUser } = useQuery(
@@ -270,6 +278,21 @@ export const UserMenu = () => {
             </MenuShortcut>
           </MenuItem>
 
+          <MenuItem onClick={() => void navigate({ to: "/highlights" })}>
+            <Highlighter className="size-4" />
+            Highlights
+          </MenuItem>
+
+          <MenuItem onClick={() => void navigate({ to: "/digests" })}>
+            <Sparkles className="size-4" />
+            Digests
+          </MenuItem>
+
+          <MenuItem onClick={() => void navigate({ to: "/ask" })}>
+            <MessageCircleQuestion className="size-4" />
+            Ask your newsletters
+          </MenuItem>
+
           <MenuItem
             onClick={() => {
               document
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+
+const mockQueryData: Record<string, unknown> = {};
+const mockMutations: Record<string, ReturnType<typeof vi.fn>> = {
+  acceptFolderSuggestion: vi.fn(),
+  rejectFolderSuggestion: vi.fn(),
+};
+const mockToastSuccess = vi.fn();
+const mockToastError = vi.fn();
+
+vi.mock("@convex-dev/react-query", () => ({
+  convexQuery: (api: unknown, args: unknown) => ({ queryKey: [api, args] }),
+}));
+
+vi.mock("@tanstack/react-query", async () => {
+  const actual = await vi.importActual("@tanstack/react-query");
+  return {
+    ...actual,
+    useQuery: ({ queryKey }: { queryKey: [string, unknown] }) => ({
+      data: mockQueryData[queryKey[0]],
+    }),
+  };
+});
+
+vi.mock("convex/react", () => ({
+  useMutation: (name: string) => mockMutations[name],
+}));
+
+vi.mock("@hushletter/backend", () => ({
+  api: {
+    folderSuggestions: {
+      listFolderSuggestions: "listFolderSuggestions",
+      acceptFolderSuggestion: "acceptFolderSuggestion",
+      rejectFolderSuggestion: "rejectFolderSuggestion",
+    },
+  },
+}));
+
+vi.mock("sonner", () => ({
+  toast: {
+    success: (...args: unknown[]) => mockToastSuccess(...args),
+    error: (...args: unknown[]) => mockToastError(...args),
+  },
+}));
+
+import { FolderSuggestionsCard } from "./FolderSuggestionsCard";
+
+describe("FolderSuggestionsCard", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockMutations.acceptFolderSuggestion.mockResolvedValue({ folderId: "f1" });
+    mockMutations.rejectFolderSuggestion.mockResolvedValue(null);
+    mockQueryData.listFolderSuggestions = [
+      {
+        _id: "suggestion_1",
+        senderEmail: "hello@chips.example.com",
+        senderName: "Chip Letter",
+        folderName: "Tech",
+        isNewFolder: false,
+        tagName: "Must read",
+      },
+      {
+        _id: "suggestion_2",
+        senderEmail: "chef@food.example.com",
+        folderName: "Cooking",
+        isNewFolder: true,
+      },
+    ];
+  });
+
+  it("renders nothing without suggestions", () => {
+    mockQueryData.listFolderSuggestions = [];
+
+    const { container } = render(<FolderSuggestionsCard />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("describes each suggested folder and tag", () => {
+    render(<FolderSuggestionsCard />);
+
+    expect(screen.getByText("Chip Letter")).toBeInTheDocument();
+    expect(screen.getByText("Move to Tech · tag Must read")).toBeInTheDocument();
+    expect(
+      screen.getByText("Move to a new folder, Cooking"),
+    ).toBeInTheDocument();
+  });
+
+  it("accepts a suggestion", async () => {
+    render(<FolderSuggestionsCard />);
+
+    await userEvent.click(
+      screen.getByRole("button", { name: "Accept suggestion for Chip Letter" }),
+    );
+
+    expect(mockMutations.acceptFolderSuggestion).toHaveBeenCalledWith({
+      suggestionId: "suggestion_1",
+    });
+    await waitFor(() => {
+      expect(mockToastSuccess).toHaveBeenCalledWith("Chip Letter moved to Tech");
+    });
+  });
+
+  it("rejects a suggestion, and reports failures", async () => {
+    mockMutations.rejectFolderSuggestion.mockRejectedValue(new Error("boom"));
+    render(<FolderSuggestionsCard />);
+
+    await userEvent.click(
+      screen.getByRole("button", {
+        name: "Reject suggestion for chef@food.example.com",
+      }),
+    );
+
+    expect(mockMutations.rejectFolderSuggestion).toHaveBeenCalledWith({
+      suggestionId: "suggestion_2",
+    });
+    await waitFor(() => {
+      expect(mockToastError).toHaveBeenCalledWith(
+        "Couldn’t update the suggestion",
+      );
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { Button } from "@hushletter/ui";
+import { Check, Sparkles, X } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { m } from "@/paraglide/messages.js";
+import { SenderAvatar } from "./SenderAvatar";
+
+interface FolderSuggestion {
+  _id: Id<"folderSuggestions">;
+  senderEmail: string;
+  senderName?: string;
+  folderName: string;
+  isNewFolder: boolean;
+  tagName?: string;
+}
+
+interface FolderSuggestionsCardProps {
+  className?: string;
+}
+
+/**
+ * Message of a ConvexError, or the fallback for anything else
+ */
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ConvexError) {
+    return (error.data as { message?: string }).message ?? fallback;
+  }
+  return fallback;
+}
+
+/**
+ * "Folder suggestions" card: where the AI thinks new senders belong, each
+ * with accept/reject buttons. Renders nothing when there are none.
+ */
+export function FolderSuggestionsCard({ className }: FolderSuggestionsCardProps) {
+  const { data } = useQuery(
+    convexQuery(api.folderSuggestions.listFolderSuggestions, {}),
+  );
+  const acceptSuggestion = useMutation(
+    api.folderSuggestions.acceptFolderSuggestion,
+  );
+  const rejectSuggestion = useMutation(
+    api.folderSuggestions.rejectFolderSuggestion,
+  );
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const suggestions = (data ?? []) as FolderSuggestion[];
+  if (suggestions.length === 0) return null;
+
+  const handleResolve = async (
+    suggestion: FolderSuggestion,
+    decision: "accept" | "reject",
+  ) => {
+    setResolvingId(suggestion._id);
+    try {
+      if (decision === "accept") {
+        await acceptSuggestion({ suggestionId: suggestion._id });
+        toast.success(
+          m.folderSuggestions_accepted({
+            sender: suggestion.senderName || suggestion.senderEmail,
+            folder: suggestion.folderName,
+          }),
+        );
+      } else {
+        await rejectSuggestion({ suggestionId: suggestion._id });
+      }
+    } catch (error) {
+      console.error("[FolderSuggestionsCard] Failed to resolve:", error);
+      toast.error(getErrorMessage(error, m.folderSuggestions_failed()));
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <section
+      aria-label={m.folderSuggestions_title()}
+      className={cn(
+        "rounded-2xl border border-primary/30 bg-primary/5 p-3",
+        className,
+      )}
+    >
+      <div className="mb-2 flex items-center gap-2 px-1">
+        <Sparkles className="size-3.5 text-primary" />
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          {m.folderSuggestions_title()}
+        </h3>
+        <span className="rounded-full border border-border/70 px-2 py-0.5 text-[10px] text-muted-foreground">
+          {suggestions.length}
+        </span>
+      </div>
+      <p className="mb-3 px-1 text-xs text-muted-foreground">
+        {m.folderSuggestions_description()}
+      </p>
+
+      <ul className="space-y-2">
+        {suggestions.map((suggestion) => {
+          const sender = suggestion.senderName || suggestion.senderEmail;
+          const destination = suggestion.isNewFolder
+            ? m.folderSuggestions_moveToNew({ folder: suggestion.folderName })
+            : m.folderSuggestions_moveTo({ folder: suggestion.folderName });
+          return (
+            <li
+              key={suggestion._id}
+              className="flex items-center gap-2.5 rounded-xl bg-background/80 px-3 py-2"
+            >
+              <SenderAvatar
+                senderName={suggestion.senderName}
+                senderEmail={suggestion.senderEmail}
+                size="sm"
+                className="shrink-0"
+              />
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-foreground">
+                  {sender}
+                </p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {suggestion.tagName
+                    ? `${destination} · ${m.folderSuggestions_tag({ tag: suggestion.tagName })}`
+                    : destination}
+                </p>
+              </div>
+              <Button
+                size="icon-sm"
+                disabled={resolvingId === suggestion._id}
+                onClick={() => void handleResolve(suggestion, "accept")}
+                aria-label={m.folderSuggestions_accept({ sender })}
+              >
+                <Check className="size-3.5" />
+              </Button>
+              <Button
+                size="icon-sm"
+                variant="ghost"
+                disabled={resolvingId === suggestion._id}
+                onClick={() => void handleResolve(suggestion, "reject")}
+                aria-label={m.folderSuggestions_reject({ sender })}
+              >
+                <X className="size-3.5" />
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
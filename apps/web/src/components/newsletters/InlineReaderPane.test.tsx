@@ -38,10 +38,25 @@ vi.mock("@hushletter/backend", () => ({
       markNewsletterRead: "markNewsletterRead",
       markNewsletterUnread: "markNewsletterUnread",
       binNewsletter: "binNewsletter",
+      listReadingQueue: "listReadingQueue",
+    },
+    readingQueue: {
+      addToReadingQueue: "addToReadingQueue",
+      removeFromReadingQueue: "removeFromReadingQueue",
+      reorderReadingQueue: "reorderReadingQueue",
     },
     share: {
       ensureNewsletterShareToken: "ensureNewsletterShareToken",
     },
+    rawEmails: {
+      getOriginalEmailDownloadUrl: "getOriginalEmailDownloadUrl",
+    },
+    tags: {
+      listTags: "listTags",
+      listTagsForNewsletter: "listTagsForNewsletter",
+      tagNewsletters: "tagNewsletters",
+      untagNewsletters: "untagNewsletters",
+    },
   },
 }));
 
@@ -54,6 +69,7 @@ vi.mock("convex/react", () => ({
     if (mutationRef === "binNewsletter") return mockBinNewsletter;
     return vi.fn();
   },
+  useAction: () => vi.fn(),
 }));
 
 vi.mock("@/components/ReaderView", () => ({
@@ -140,6 +156,12 @@ function renderPane(
     if (key === "getEntitlements") {
       return { data: { isPro: false }, isPending: false };
     }
+    if (key === "listTags" || key === "listTagsForNewsletter") {
+      return { data: [], isPending: false };
+    }
+    if (key === "listReadingQueue") {
+      return { data: { items: [], totalReadMinutes: 0 }, isPending: false };
+    }
     return {
       data: { ...baseNewsletter, ...overrides },
       isPending: false,
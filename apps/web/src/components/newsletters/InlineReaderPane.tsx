@@ -1,6 +1,6 @@
 import { useEffect, useRef, useState } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { useMutation } from "convex/react";
+import { useAction, useMutation } from "convex/react";
 import { convexQuery } from "@convex-dev/react-query";
 import { api } from "@hushletter/backend";
 import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
@@ -21,18 +21,26 @@ import {
   ReaderView,
   ContentSkeleton,
   clearCacheEntry,
+  type SenderAuthResult,
 } from "@/components/ReaderView";
 import { PricingDialog } from "@/components/pricing-dialog";
 import {
   READER_BACKGROUND_OPTIONS,
   useReaderPreferences,
 } from "@/hooks/useReaderPreferences";
+import {
+  SUMMARY_LANGUAGES,
+  type SummaryLanguage,
+} from "@/hooks/useSummaryPreferences";
 import { ReaderActionBar } from "./ReaderActionBar";
+import type { TagChipData } from "@/components/TagChips";
 import { AnimatePresence, motion } from "motion/react";
 import { FloatingSummaryPanel } from "./FloatingSummaryPanel";
 import { m } from "@/paraglide/messages.js";
+import { getLocale } from "@/paraglide/runtime.js";
 import { Calligraph } from "calligraph";
 import { useAppHotkeys } from "@/hooks/use-app-hotkeys";
+import { useReadingQueue } from "@/hooks/useReadingQueue";
 
 interface InlineReaderPaneProps {
   newsletterId: Id<"userNewsletters">;
@@ -49,6 +57,8 @@ interface InlineReaderPaneProps {
   onOpenFullscreen?: () => void;
   onClose?: () => void;
   isFullscreen?: boolean;
+  /** Set while reading through the reading queue */
+  queuePosition?: { position: number; total: number };
 }
 
 interface NewsletterMetadata {
@@ -64,6 +74,11 @@ interface NewsletterMetadata {
   readProgress?: number;
   contentStatus: "available" | "missing" | "error" | "locked";
   source?: "email" | "gmail" | "manual" | "community";
+  rawEmailR2Key?: string;
+  subAddressTag?: string;
+  senderAuth?: SenderAuthResult;
+  quarantinedAt?: number;
+  snoozedUntil?: number;
 }
 
 // Dev-only debug memory that survives InlineReaderPane remounts when switching newsletters.
@@ -132,6 +147,7 @@ export function InlineReaderPane({
   onOpenFullscreen,
   onClose,
   isFullscreen = false,
+  queuePosition,
 }: InlineReaderPaneProps) {
   const queryClient = useQueryClient();
   const { bindings } = useAppHotkeys();
@@ -141,6 +157,10 @@ export function InlineReaderPane({
     READER_BACKGROUND_OPTIONS[preferences.background].color;
   const paneRef = useRef<HTMLDivElement>(null);
   const [isSummaryOpen, setIsSummaryOpen] = useState(false);
+  // Set while the content is shown translated into this language
+  const [translationLanguage, setTranslationLanguage] = useState<SummaryLanguage | null>(
+    null,
+  );
   const [isAppearanceOpen, setIsAppearanceOpen] = useState(false);
   const [isPricingDialogOpen, setIsPricingDialogOpen] = useState(false);
   const [favoriteFeedback, setFavoriteFeedback] = useState<string | null>(null);
@@ -172,6 +192,14 @@ export function InlineReaderPane({
     }),
   );
   const newsletter = data as NewsletterMetadata | null | undefined;
+  const { data: allTagsData } = useQuery(convexQuery(api.tags.listTags, {}));
+  const { data: newsletterTagsData } = useQuery(
+    convexQuery(api.tags.listTagsForNewsletter, {
+      userNewsletterId: newsletterId,
+    }),
+  );
+  const allTags = (allTagsData ?? []) as TagChipData[];
+  const newsletterTags = (newsletterTagsData ?? []) as TagChipData[];
   const showReadStateDebugOverlay = false;
   const currentReturnPath =
     typeof window !== "undefined"
@@ -185,10 +213,18 @@ export function InlineReaderPane({
     api.newsletters.markNewsletterUnread,
   );
   const binNewsletter = useMutation((api.newsletters as any).binNewsletter);
+  const snoozeNewsletter = useMutation(api.newsletters.snoozeNewsletter);
+  const unsnoozeNewsletter = useMutation(api.newsletters.unsnoozeNewsletter);
+  const { getIsQueued, toggleQueued } = useReadingQueue();
   const setReadProgress = useMutation(api.newsletters.setReadProgress);
   const ensureNewsletterShareToken = useMutation(
     api.share.ensureNewsletterShareToken,
   );
+  const tagNewsletters = useMutation(api.tags.tagNewsletters);
+  const untagNewsletters = useMutation(api.tags.untagNewsletters);
+  const getOriginalEmailDownloadUrl = useAction(
+    api.rawEmails.getOriginalEmailDownloadUrl,
+  );
 
   useHotkey(bindings.closeInlineReaderPane, () => {
     onClose?.();
@@ -203,6 +239,10 @@ export function InlineReaderPane({
     setIsReadMetaHovered(false);
   }, [newsletterId]);
 
+  useEffect(() => {
+    setTranslationLanguage(null);
+  }, [newsletterId]);
+
   useEffect(() => {
     setDebugProgressResetSignal(0);
     setSkipInitialReadProgressCheck(
@@ -445,10 +485,11 @@ export function InlineReaderPane({
     }
   };
 
-  const handleShare = async () => {
+  const handleShare = async (includeHighlights = false) => {
     try {
       const { token } = await ensureNewsletterShareToken({
         userNewsletterId: newsletterId,
+        includeHighlights,
       });
       const url = `${window.location.origin}/share/${token}`;
 
@@ -465,6 +506,21 @@ export function InlineReaderPane({
     }
   };
 
+  const handleDownloadOriginal = async () => {
+    try {
+      const { url } = await getOriginalEmailDownloadUrl({
+        userNewsletterId: newsletterId,
+      });
+      window.open(url, "_blank", "noopener,noreferrer");
+    } catch (error) {
+      console.error(
+        "[InlineReaderPane] Failed to get original email download URL:",
+        error,
+      );
+      toast.error(m.reader_downloadOriginalFailed());
+    }
+  };
+
   const handleDebugResetReadState = async () => {
     if (!showReadStateDebugOverlay || isDebugResetPending) return;
 
@@ -523,10 +579,42 @@ export function InlineReaderPane({
     }
   };
 
+  const handleToggleTag = async (tagId: string, isTagged: boolean) => {
+    const args = {
+      tagId: tagId as Id<"tags">,
+      userNewsletterIds: [newsletterId],
+    };
+    try {
+      if (isTagged) {
+        await untagNewsletters(args);
+      } else {
+        await tagNewsletters(args);
+      }
+    } catch (error) {
+      console.error("[InlineReaderPane] Failed to update tags:", error);
+      toast.error(m.tags_saveError());
+    }
+  };
+
   const handleRestoreReadEstimate = () => {
     setIsReadEstimateDismissed(false);
   };
 
+  const handleToggleTranslation = () => {
+    if (translationLanguage !== null) {
+      setTranslationLanguage(null);
+      return;
+    }
+    if (!isPro) {
+      setIsPricingDialogOpen(true);
+      return;
+    }
+    const locale = getLocale();
+    setTranslationLanguage(
+      SUMMARY_LANGUAGES.find((language) => language === locale) ?? "en",
+    );
+  };
+
   return (
     <div
       ref={paneRef}
@@ -534,6 +622,7 @@ export function InlineReaderPane({
     >
       <ReaderActionBar
         senderName={senderDisplay}
+        subAddressTag={newsletter.subAddressTag}
         subject={newsletter.subject}
         date={date.toLocaleDateString(undefined, {
           year: "numeric",
@@ -547,7 +636,8 @@ export function InlineReaderPane({
         isArchivePending={isArchivePending}
         onArchive={handleArchive}
         onToggleFavorite={handleFavoriteToggle}
-        onShare={handleShare}
+        onShare={() => void handleShare()}
+        onShareWithHighlights={() => void handleShare(true)}
         onToggleRead={isReadTogglePending ? undefined : handleToggleRead}
         onBin={handleBin}
         isBinPending={isBinPending}
@@ -560,6 +650,8 @@ export function InlineReaderPane({
         onAppearanceOpenChange={setIsAppearanceOpen}
         onToggleSummary={() => setIsSummaryOpen((prev) => !prev)}
         isSummaryOpen={isSummaryOpen}
+        onToggleTranslation={handleToggleTranslation}
+        isTranslated={translationLanguage !== null}
         canGoPrevious={canGoPrevious}
         canGoNext={canGoNext}
         onPrevious={onPrevious}
@@ -568,7 +660,30 @@ export function InlineReaderPane({
         isFullscreen={isFullscreen}
         isReadEstimateHidden={canRestoreReadEstimate}
         onShowReadEstimate={handleRestoreReadEstimate}
+        onDownloadOriginal={
+          newsletter.rawEmailR2Key ? handleDownloadOriginal : undefined
+        }
         onUpgradeToPro={() => setIsPricingDialogOpen(true)}
+        tags={newsletterTags}
+        availableTags={allTags}
+        onToggleTag={(tagId, isTagged) =>
+          void handleToggleTag(tagId, isTagged)
+        }
+        snoozedUntil={newsletter.snoozedUntil}
+        onSnooze={async (until) => {
+          await snoozeNewsletter({
+            userNewsletterId: newsletterId,
+            snoozedUntil: until,
+          });
+        }}
+        onUnsnooze={async () => {
+          await unsnoozeNewsletter({ userNewsletterId: newsletterId });
+        }}
+        isQueued={getIsQueued(newsletterId)}
+        onToggleQueue={() =>
+          void toggleQueued(newsletterId, getIsQueued(newsletterId))
+        }
+        queuePosition={queuePosition}
       />
 
       <TooltipProvider>
@@ -730,6 +845,12 @@ export function InlineReaderPane({
               progressContainerElement={progressContainerElement}
               progressResetSignal={debugProgressResetSignal}
               skipInitialProgressCheck={skipInitialReadProgressCheck}
+              senderAuth={newsletter.senderAuth}
+              senderEmail={newsletter.senderEmail}
+              isQuarantined={newsletter.quarantinedAt !== undefined}
+              enableHighlights
+              translationLanguage={translationLanguage}
+              onShowOriginal={() => setTranslationLanguage(null)}
             />
           </ErrorBoundary>
         </div>
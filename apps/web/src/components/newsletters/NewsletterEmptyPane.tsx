@@ -1,6 +1,7 @@
 import { type ReactNode, useMemo } from "react";
 import { Clock, Inbox } from "lucide-react";
 import { SenderAvatar } from "./SenderAvatar";
+import { PendingConfirmationsCard } from "./PendingConfirmationsCard";
 import { m } from "@/paraglide/messages.js";
 import { BookOpenIcon, ClockCircleIcon } from "@hushletter/ui/icons";
 
@@ -191,6 +192,8 @@ export function NewsletterEmptyPane({
           </div>
         </header>
 
+        <PendingConfirmationsCard className="mx-auto mb-6 w-full max-w-2xl" />
+
         {hasSuggestions ? (
           <div className="mx-auto grid w-full max-w-2xl gap-6 md:grid-cols-2">
             <EmptyPaneSection
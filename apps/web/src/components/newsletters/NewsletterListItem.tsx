@@ -2,7 +2,14 @@ import { useState } from "react";
 import { cn } from "@/lib/utils";
 import { m } from "@/paraglide/messages.js";
 import type { NewsletterData } from "@/components/NewsletterCard";
-import { Check, LockKeyhole, RotateCcw } from "lucide-react";
+import {
+  AlarmClock,
+  Check,
+  ListChecks,
+  ListPlus,
+  LockKeyhole,
+  RotateCcw,
+} from "lucide-react";
 import {
   ArchiveBoldIcon,
   ArchiveUpBoldIcon,
@@ -16,6 +23,8 @@ import {
   TooltipTrigger,
 } from "@hushletter/ui";
 import { SenderAvatar } from "./SenderAvatar";
+import { NewsletterTagChips } from "@/components/TagChips";
+import { SnoozeMenu, formatSnoozeTime } from "./SnoozeMenu";
 
 interface NewsletterListItemProps {
   newsletter: NewsletterData;
@@ -33,6 +42,11 @@ interface NewsletterListItemProps {
   onArchive?: (newsletterId: string) => Promise<void>;
   onUnarchive?: (newsletterId: string) => Promise<void>;
   onBin?: (newsletterId: string) => Promise<void>;
+  onSnooze?: (newsletterId: string, until: number) => Promise<void>;
+  onUnsnooze?: (newsletterId: string) => Promise<void>;
+  /** Whether the newsletter is in the reading queue */
+  isQueued?: boolean;
+  onToggleQueue?: (newsletterId: string, isQueued: boolean) => Promise<void>;
   onPrefetch?: (newsletterId: string) => void;
 }
 
@@ -73,10 +87,14 @@ export function NewsletterListItem({
   onArchive,
   onUnarchive,
   onBin,
+  onSnooze,
+  onUnsnooze,
+  isQueued = false,
+  onToggleQueue,
   onPrefetch,
 }: NewsletterListItemProps) {
   const [pendingAction, setPendingAction] = useState<
-    "favorite" | "read" | "archive" | "unarchive" | "bin" | null
+    "favorite" | "read" | "archive" | "unarchive" | "bin" | "queue" | null
   >(null);
   const [favoriteFeedback, setFavoriteFeedback] = useState<string | null>(null);
 
@@ -182,13 +200,35 @@ export function NewsletterListItem({
     }
   };
 
+  const handleQueueClick = async (
+    event: React.MouseEvent<HTMLButtonElement>,
+  ) => {
+    event.preventDefault();
+    event.stopPropagation();
+    if (!onToggleQueue || pendingAction !== null) return;
+
+    try {
+      setPendingAction("queue");
+      await onToggleQueue(newsletter._id, isQueued);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
   const showReadAction = Boolean(onToggleRead);
   const showUnarchiveAction = newsletter.isHidden && Boolean(onUnarchive);
   const showArchiveAction =
     !newsletter.isHidden && (enableHideAction || Boolean(onArchive));
   const showBinAction = Boolean(onBin);
+  const showSnoozeAction = Boolean(onSnooze);
+  const showQueueAction = Boolean(onToggleQueue);
   const hasQuickActions =
-    showReadAction || showArchiveAction || showUnarchiveAction || showBinAction;
+    showReadAction ||
+    showArchiveAction ||
+    showUnarchiveAction ||
+    showSnoozeAction ||
+    showQueueAction ||
+    showBinAction;
 
   const quickActionButtonClass = cn(
     "size-6 flex items-center justify-center rounded-md transition-colors",
@@ -252,6 +292,17 @@ export function NewsletterListItem({
               {newsletter.senderName}
             </p>
           )}
+          {newsletter.snoozedUntil !== undefined && (
+            <p className="flex items-center gap-1 text-[11px] text-muted-foreground mt-0.5">
+              <AlarmClock className="size-3" aria-hidden="true" />
+              {m.snooze_until({
+                time: formatSnoozeTime(newsletter.snoozedUntil),
+              })}
+            </p>
+          )}
+          {newsletter.tagIds && newsletter.tagIds.length > 0 && (
+            <NewsletterTagChips tagIds={newsletter.tagIds} className="mt-1" />
+          )}
           {favoriteFeedback && (
             <p className="text-[11px] text-destructive mt-1" role="status">
               {favoriteFeedback}
@@ -374,6 +425,66 @@ export function NewsletterListItem({
             </Tooltip>
           )}
 
+          {showSnoozeAction && onSnooze && (
+            <SnoozeMenu
+              snoozedUntil={newsletter.snoozedUntil}
+              onSnooze={(until) => onSnooze(newsletter._id, until)}
+              onUnsnooze={
+                onUnsnooze ? () => onUnsnooze(newsletter._id) : undefined
+              }
+              trigger={
+                <button
+                  type="button"
+                  className={cn(
+                    quickActionButtonClass,
+                    pendingAction !== null && "opacity-50 cursor-not-allowed",
+                  )}
+                  aria-label={m.snooze_action()}
+                  disabled={pendingAction !== null}
+                  onClick={(event) => event.stopPropagation()}
+                >
+                  <AlarmClock className="size-3.5" />
+                </button>
+              }
+            />
+          )}
+
+          {showQueueAction && (
+            <Tooltip>
+              <TooltipTrigger
+                render={
+                  <button
+                    type="button"
+                    className={cn(
+                      quickActionButtonClass,
+                      isQueued && "text-primary",
+                      pendingAction !== null && "opacity-50 cursor-not-allowed",
+                    )}
+                    aria-label={
+                      isQueued
+                        ? m.readingQueue_remove()
+                        : m.readingQueue_add()
+                    }
+                    aria-pressed={isQueued}
+                    disabled={pendingAction !== null}
+                    onClick={(event) => {
+                      void handleQueueClick(event);
+                    }}
+                  >
+                    {isQueued ? (
+                      <ListChecks className="size-3.5" />
+                    ) : (
+                      <ListPlus className="size-3.5" />
+                    )}
+                  </button>
+                }
+              />
+              <TooltipContent>
+                {isQueued ? m.readingQueue_remove() : m.readingQueue_add()}
+              </TooltipContent>
+            </Tooltip>
+          )}
+
           {hasQuickActions && showBinAction && (
             <Tooltip>
               <TooltipTrigger
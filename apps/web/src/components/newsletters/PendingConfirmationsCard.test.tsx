@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+
+const mockQueryData: Record<string, unknown> = {};
+const mockResolveConfirmation = vi.fn();
+const mockToastError = vi.fn();
+
+vi.mock("@convex-dev/react-query", () => ({
+  convexQuery: (api: unknown, args: unknown) => ({ queryKey: [api, args] }),
+}));
+
+vi.mock("@tanstack/react-query", async () => {
+  const actual = await vi.importActual("@tanstack/react-query");
+  return {
+    ...actual,
+    useQuery: ({ queryKey }: { queryKey: [string, unknown] }) => ({
+      data: mockQueryData[queryKey[0]],
+    }),
+  };
+});
+
+vi.mock("convex/react", () => ({
+  useMutation: () => mockResolveConfirmation,
+}));
+
+vi.mock("@hushletter/backend", () => ({
+  api: {
+    subscriptionConfirmations: {
+      listPendingConfirmations: "listPendingConfirmations",
+      resolveConfirmation: "resolveConfirmation",
+    },
+  },
+}));
+
+vi.mock("sonner", () => ({
+  toast: {
+    error: (...args: unknown[]) => mockToastError(...args),
+  },
+}));
+
+import { PendingConfirmationsCard } from "./PendingConfirmationsCard";
+
+describe("PendingConfirmationsCard", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockResolveConfirmation.mockResolvedValue({ success: true });
+    mockQueryData.listPendingConfirmations = [
+      {
+        _id: "confirmation_1",
+        senderEmail: "hello@weekly.example.com",
+        senderName: "The Weekly",
+        subject: "Please confirm your subscription",
+        confirmUrl: "https://weekly.example.com/confirm?t=abc",
+        receivedAt: Date.now(),
+      },
+    ];
+  });
+
+  it("renders nothing without pending confirmations", () => {
+    mockQueryData.listPendingConfirmations = [];
+
+    const { container } = render(<PendingConfirmationsCard />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("opens the confirm link and marks the confirmation as confirmed", async () => {
+    const openSpy = vi.spyOn(window, "open").mockReturnValue(null);
+    render(<PendingConfirmationsCard />);
+
+    expect(screen.getByText("The Weekly")).toBeInTheDocument();
+    await userEvent.click(screen.getByRole("button", { name: "Confirm" }));
+
+    expect(openSpy).toHaveBeenCalledWith(
+      "https://weekly.example.com/confirm?t=abc",
+      "_blank",
+      "noopener,noreferrer",
+    );
+    expect(mockResolveConfirmation).toHaveBeenCalledWith({
+      confirmationId: "confirmation_1",
+      status: "confirmed",
+    });
+    openSpy.mockRestore();
+  });
+
+  it("dismisses without opening the link", async () => {
+    const openSpy = vi.spyOn(window, "open").mockReturnValue(null);
+    render(<PendingConfirmationsCard />);
+
+    await userEvent.click(
+      screen.getByRole("button", {
+        name: "Dismiss confirmation from The Weekly",
+      }),
+    );
+
+    expect(openSpy).not.toHaveBeenCalled();
+    expect(mockResolveConfirmation).toHaveBeenCalledWith({
+      confirmationId: "confirmation_1",
+      status: "dismissed",
+    });
+    openSpy.mockRestore();
+  });
+
+  it("shows an error toast when resolving fails", async () => {
+    mockResolveConfirmation.mockRejectedValue(new Error("boom"));
+    render(<PendingConfirmationsCard />);
+
+    await userEvent.click(
+      screen.getByRole("button", {
+        name: "Dismiss confirmation from The Weekly",
+      }),
+    );
+
+    await waitFor(() => {
+      expect(mockToastError).toHaveBeenCalledWith(
+        "Failed to update confirmation",
+      );
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation } from "convex/react";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { Button } from "@hushletter/ui";
+import { MailCheck, X } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { m } from "@/paraglide/messages.js";
+import { SenderAvatar } from "./SenderAvatar";
+
+interface PendingConfirmation {
+  _id: Id<"subscriptionConfirmations">;
+  senderEmail: string;
+  senderName?: string;
+  subject: string;
+  confirmUrl: string;
+  receivedAt: number;
+}
+
+interface PendingConfirmationsCardProps {
+  className?: string;
+}
+
+/**
+ * "Pending confirmations" card: double opt-in emails detected at ingestion,
+ * each with a one-click confirm button. Renders nothing when there are none.
+ */
+export function PendingConfirmationsCard({
+  className,
+}: PendingConfirmationsCardProps) {
+  const { data } = useQuery(
+    convexQuery(api.subscriptionConfirmations.listPendingConfirmations, {}),
+  );
+  const resolveConfirmation = useMutation(
+    api.subscriptionConfirmations.resolveConfirmation,
+  );
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const confirmations = (data ?? []) as PendingConfirmation[];
+  if (confirmations.length === 0) return null;
+
+  const handleResolve = async (
+    confirmation: PendingConfirmation,
+    status: "confirmed" | "dismissed",
+  ) => {
+    // Open the link synchronously so popup blockers treat it as user-initiated
+    if (status === "confirmed") {
+      window.open(confirmation.confirmUrl, "_blank", "noopener,noreferrer");
+    }
+    setResolvingId(confirmation._id);
+    try {
+      await resolveConfirmation({ confirmationId: confirmation._id, status });
+    } catch (error) {
+      console.error("[PendingConfirmationsCard] Failed to resolve:", error);
+      toast.error(m.confirmations_resolveFailed());
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <section
+      aria-label={m.confirmations_title()}
+      className={cn(
+        "rounded-2xl border border-primary/30 bg-primary/5 p-3",
+        className,
+      )}
+    >
+      <div className="mb-2 flex items-center gap-2 px-1">
+        <MailCheck className="size-3.5 text-primary" />
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          {m.confirmations_title()}
+        </h3>
+        <span className="rounded-full border border-border/70 px-2 py-0.5 text-[10px] text-muted-foreground">
+          {confirmations.length}
+        </span>
+      </div>
+      <p className="mb-3 px-1 text-xs text-muted-foreground">
+        {m.confirmations_description()}
+      </p>
+
+      <ul className="space-y-2">
+        {confirmations.map((confirmation) => (
+          <li
+            key={confirmation._id}
+            className="flex items-center gap-2.5 rounded-xl bg-background/80 px-3 py-2"
+          >
+            <SenderAvatar
+              senderName={confirmation.senderName}
+              senderEmail={confirmation.senderEmail}
+              size="sm"
+              className="shrink-0"
+            />
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium text-foreground">
+                {confirmation.senderName || confirmation.senderEmail}
+              </p>
+              <p className="truncate text-xs text-muted-foreground">
+                {confirmation.subject}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              disabled={resolvingId === confirmation._id}
+              onClick={() => void handleResolve(confirmation, "confirmed")}
+            >
+              {m.confirmations_confirm()}
+            </Button>
+            <Button
+              size="icon-sm"
+              variant="ghost"
+              disabled={resolvingId === confirmation._id}
+              onClick={() => void handleResolve(confirmation, "dismissed")}
+              aria-label={m.confirmations_dismiss({
+                sender: confirmation.senderName || confirmation.senderEmail,
+              })}
+            >
+              <X className="size-3.5" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
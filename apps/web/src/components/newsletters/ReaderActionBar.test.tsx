@@ -1,6 +1,7 @@
 import { describe, it, expect, vi } from "vitest";
-import { render, screen, fireEvent } from "@testing-library/react";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
 import { ReaderActionBar } from "./ReaderActionBar";
+import { getSnoozePresets } from "@/lib/snooze";
 
 describe("ReaderActionBar", () => {
   it("calls fullscreen and next handlers, and keeps previous disabled when unavailable", () => {
@@ -108,6 +109,38 @@ describe("ReaderActionBar", () => {
     expect(onShare).toHaveBeenCalledTimes(1);
   });
 
+  it("offers sharing with highlights only when the handler is provided", () => {
+    const onShareWithHighlights = vi.fn();
+    const props = {
+      isRead: false,
+      isHidden: false,
+      isFavorited: false,
+      isFavoritePending: false,
+      onArchive: () => {},
+      onToggleFavorite: () => {},
+      onShare: () => {},
+      senderName: "Sender",
+      subject: "Subject",
+    };
+
+    const { rerender } = render(<ReaderActionBar {...props} />);
+    fireEvent.click(screen.getByRole("button", { name: "More actions" }));
+    expect(
+      screen.queryByRole("menuitem", { name: "Share with highlights" }),
+    ).not.toBeInTheDocument();
+
+    rerender(
+      <ReaderActionBar
+        {...props}
+        onShareWithHighlights={onShareWithHighlights}
+      />,
+    );
+    fireEvent.click(
+      screen.getByRole("menuitem", { name: "Share with highlights" }),
+    );
+    expect(onShareWithHighlights).toHaveBeenCalledTimes(1);
+  });
+
   it("calls upgrade handler from appearance popover for non-pro users", () => {
     const onUpgradeToPro = vi.fn();
 
@@ -223,6 +256,46 @@ describe("ReaderActionBar", () => {
     expect(screen.queryByRole("menuitem", { name: "Show read time" })).toBeNull();
   });
 
+  it("shows download original action only when the original was kept", () => {
+    const onDownloadOriginal = vi.fn();
+    const { rerender } = render(
+      <ReaderActionBar
+        isRead={false}
+        isHidden={false}
+        isFavorited={false}
+        isFavoritePending={false}
+        onArchive={() => {}}
+        onToggleFavorite={() => {}}
+        senderName="Sender"
+        subject="Subject"
+      />,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "More actions" }));
+    expect(
+      screen.queryByRole("menuitem", { name: "Download original (.eml)" }),
+    ).toBeNull();
+
+    rerender(
+      <ReaderActionBar
+        isRead={false}
+        isHidden={false}
+        isFavorited={false}
+        isFavoritePending={false}
+        onArchive={() => {}}
+        onToggleFavorite={() => {}}
+        onDownloadOriginal={onDownloadOriginal}
+        senderName="Sender"
+        subject="Subject"
+      />,
+    );
+
+    fireEvent.click(
+      screen.getByRole("menuitem", { name: "Download original (.eml)" }),
+    );
+    expect(onDownloadOriginal).toHaveBeenCalledTimes(1);
+  });
+
   it("disables read toggle action when callback is missing", () => {
     render(
       <ReaderActionBar
@@ -267,4 +340,119 @@ describe("ReaderActionBar", () => {
       screen.getByRole("menuitem", { name: "Reply (coming soon)" }),
     ).toHaveAttribute("aria-disabled", "true");
   });
+
+  it("shows the sub-address the newsletter was sent to", () => {
+    render(
+      <ReaderActionBar
+        isRead={false}
+        isHidden={false}
+        isFavorited={false}
+        isFavoritePending={false}
+        onArchive={() => {}}
+        onToggleFavorite={() => {}}
+        senderName="Sender"
+        subAddressTag="shop"
+        subject="Subject"
+      />,
+    );
+
+    expect(screen.getByText("Sender · via +shop")).toBeInTheDocument();
+  });
+
+  it("snoozes until a preset time and offers unsnooze while snoozed", async () => {
+    const onSnooze = vi.fn().mockResolvedValue(undefined);
+    const onUnsnooze = vi.fn().mockResolvedValue(undefined);
+    const baseProps = {
+      isRead: true,
+      isHidden: false,
+      isFavorited: false,
+      isFavoritePending: false,
+      onArchive: () => {},
+      onToggleFavorite: () => {},
+      onSnooze,
+      onUnsnooze,
+    };
+
+    const { rerender } = render(<ReaderActionBar {...baseProps} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Snooze" }));
+    expect(screen.queryByRole("menuitem", { name: "Unsnooze" })).toBeNull();
+    fireEvent.click(
+      screen.getByRole("menuitem", { name: /Tomorrow morning/ }),
+    );
+
+    await waitFor(() => {
+      expect(onSnooze).toHaveBeenCalledWith(
+        getSnoozePresets(new Date())[0].until,
+      );
+    });
+
+    rerender(<ReaderActionBar {...baseProps} snoozedUntil={Date.now() + 1} />);
+    fireEvent.click(screen.getByRole("button", { name: "Snooze" }));
+    fireEvent.click(screen.getByRole("menuitem", { name: "Unsnooze" }));
+
+    await waitFor(() => {
+      expect(onUnsnooze).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it("toggles the reading queue and shows the queue position", () => {
+    const onToggleQueue = vi.fn();
+    const baseProps = {
+      isRead: true,
+      isHidden: false,
+      isFavorited: false,
+      isFavoritePending: false,
+      onArchive: () => {},
+      onToggleFavorite: () => {},
+      onToggleQueue,
+    };
+
+    const { rerender } = render(<ReaderActionBar {...baseProps} />);
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "Add to reading queue" }),
+    );
+    expect(onToggleQueue).toHaveBeenCalledTimes(1);
+    expect(screen.queryByText(/Reading queue ·/)).toBeNull();
+
+    rerender(
+      <ReaderActionBar
+        {...baseProps}
+        isQueued
+        queuePosition={{ position: 2, total: 5 }}
+      />,
+    );
+
+    expect(
+      screen.getByRole("button", { name: "Remove from reading queue" }),
+    ).toHaveAttribute("aria-pressed", "true");
+    expect(screen.getByText("Reading queue · 2 of 5")).toBeInTheDocument();
+  });
+
+  it("toggles translation and offers the original while translated", () => {
+    const onToggleTranslation = vi.fn();
+    const props = {
+      isRead: false,
+      isHidden: false,
+      isFavorited: false,
+      isFavoritePending: false,
+      onArchive: () => {},
+      onToggleFavorite: () => {},
+      onToggleTranslation,
+      senderName: "Sender",
+      subject: "Subject",
+    };
+
+    const { rerender } = render(<ReaderActionBar {...props} />);
+    fireEvent.click(
+      screen.getByRole("button", { name: "Translate into your language" }),
+    );
+    expect(onToggleTranslation).toHaveBeenCalledTimes(1);
+
+    rerender(<ReaderActionBar {...props} isTranslated />);
+    expect(
+      screen.getByRole("button", { name: "Show original" }),
+    ).toHaveAttribute("aria-pressed", "true");
+  });
 });
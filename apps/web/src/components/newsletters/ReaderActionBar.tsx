@@ -1,6 +1,7 @@
 import {
   Button,
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
@@ -31,12 +32,19 @@ import {
   GlassesIcon,
 } from "@hushletter/ui";
 import {
+  AlarmClock,
   ChevronLeft,
   ChevronRight,
   Clock3,
+  FileDown,
+  Highlighter,
+  Languages,
+  ListChecks,
+  ListPlus,
   Maximize2,
   Minimize2,
   MoreHorizontal,
+  Tag,
 } from "lucide-react";
 import {
   type ReaderBackgroundPreference,
@@ -50,6 +58,8 @@ import { m } from "@/paraglide/messages.js";
 import { cn } from "@hushletter/ui/lib/utils";
 import { formatForDisplay, useHotkey } from "@tanstack/react-hotkeys";
 import { useAppHotkeys } from "@/hooks/use-app-hotkeys";
+import { TagChips, type TagChipData } from "@/components/TagChips";
+import { SnoozeMenu } from "./SnoozeMenu";
 
 interface ReaderActionBarProps {
   isRead: boolean;
@@ -60,6 +70,8 @@ interface ReaderActionBarProps {
   onArchive: () => void;
   onToggleFavorite: () => void;
   onShare?: () => void;
+  /** Share a link that also shows the user's highlights and notes */
+  onShareWithHighlights?: () => void;
   onToggleRead?: () => void;
   onBin?: () => void;
   preferences?: ReaderPreferences;
@@ -72,6 +84,9 @@ interface ReaderActionBarProps {
   onAppearanceOpenChange?: (open: boolean) => void;
   onToggleSummary?: () => void;
   isSummaryOpen?: boolean;
+  /** Translate into the reader's language, or back to the original when translated */
+  onToggleTranslation?: () => void;
+  isTranslated?: boolean;
   canGoPrevious?: boolean;
   canGoNext?: boolean;
   onPrevious?: () => void;
@@ -80,16 +95,35 @@ interface ReaderActionBarProps {
   isFullscreen?: boolean;
   isReadEstimateHidden?: boolean;
   onShowReadEstimate?: () => void;
+  /** Only provided when the original email (.eml) was kept */
+  onDownloadOriginal?: () => void;
   onUpgradeToPro?: () => void;
   senderName?: string;
+  /** Sub-address the newsletter was sent to (name+tag@domain) */
+  subAddressTag?: string;
   subject?: string;
   date?: string;
   isBinPending?: boolean;
+  /** Tags on this newsletter, shown as chips under the subject */
+  tags?: TagChipData[];
+  /** All of the user's tags, offered in the tag menu */
+  availableTags?: TagChipData[];
+  onToggleTag?: (tagId: string, isTagged: boolean) => void;
+  /** Set while the newsletter is snoozed */
+  snoozedUntil?: number;
+  onSnooze?: (until: number) => Promise<void>;
+  onUnsnooze?: () => Promise<void>;
+  isQueued?: boolean;
+  onToggleQueue?: () => void;
+  /** Set while reading through the queue (1-based position) */
+  queuePosition?: { position: number; total: number };
 }
 
 /**
  * Top action bar above the inline reader.
  * Archive maps to hideNewsletter. Star is fully wired with optimistic favorite state.
+ * Snooze opens SnoozeMenu (presets + custom time).
+ * Previous/Next walk the reading queue when it's the open list.
  */
 export function ReaderActionBar({
   isRead,
@@ -97,6 +131,7 @@ export function ReaderActionBar({
   onArchive,
   onToggleFavorite,
   onShare,
+  onShareWithHighlights,
   onToggleRead,
   onBin,
   isFavorited,
@@ -110,6 +145,8 @@ export function ReaderActionBar({
   onAppearanceOpenChange,
   onToggleSummary,
   isSummaryOpen = false,
+  onToggleTranslation,
+  isTranslated = false,
   canGoPrevious = false,
   canGoNext = false,
   onPrevious,
@@ -118,14 +155,29 @@ export function ReaderActionBar({
   isFullscreen = false,
   isReadEstimateHidden = false,
   onShowReadEstimate,
+  onDownloadOriginal,
   onUpgradeToPro,
   senderName,
+  subAddressTag,
   subject,
   isBinPending = false,
+  tags = [],
+  availableTags = [],
+  onToggleTag,
+  snoozedUntil,
+  onSnooze,
+  onUnsnooze,
+  isQueued = false,
+  onToggleQueue,
+  queuePosition,
 }: ReaderActionBarProps) {
   const { bindings } = useAppHotkeys();
   const archiveLabel = isHidden ? m.newsletters_unhide() : m.reader_archive();
   const binLabel = m.bin_label?.() ?? "Bin";
+  const queueLabel = isQueued
+    ? m.readingQueue_remove()
+    : m.readingQueue_add();
+  const taggedIds = new Set(tags.map((tag) => tag._id));
   const fullscreenHotkeyLabel = formatForDisplay(
     bindings.toggleReaderFullscreen,
   );
@@ -203,12 +255,19 @@ export function ReaderActionBar({
             />
             <TooltipContent>Next</TooltipContent>
           </Tooltip>
+
+          {queuePosition && (
+            <span className="hidden md:inline text-xs text-muted-foreground tabular-nums">
+              {m.readingQueue_position(queuePosition)}
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-2 px-4">
           <div className="flex flex-col text-center">
             <p className="text-[10px] text-muted-foreground line-clamp-1">
               {senderName}
+              {subAddressTag && ` · ${m.reader_viaSubAddress({ tag: subAddressTag })}`}
             </p>
             <p
               title={subject}
@@ -216,6 +275,7 @@ export function ReaderActionBar({
             >
               {subject}
             </p>
+            <TagChips tags={tags} className="justify-center mt-0.5" />
             {/*  <span className="text-[10px] text-muted-foreground">{date}</span> */}
           </div>
         </div>
@@ -242,6 +302,31 @@ export function ReaderActionBar({
             <TooltipContent>{m.floatingSummary_toggle()}</TooltipContent>
           </Tooltip>
 
+          {/* AI translation */}
+          {onToggleTranslation && (
+            <Tooltip>
+              <TooltipTrigger
+                render={
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={
+                      isTranslated ? m.reader_showOriginal() : m.reader_translate()
+                    }
+                    aria-pressed={isTranslated}
+                    onClick={onToggleTranslation}
+                    className={isTranslated ? "text-primary" : undefined}
+                  >
+                    <Languages className="size-5" />
+                  </Button>
+                }
+              />
+              <TooltipContent>
+                {isTranslated ? m.reader_showOriginal() : m.reader_translate()}
+              </TooltipContent>
+            </Tooltip>
+          )}
+
           {/* Pro-only: reader appearance controls */}
           <Popover
             open={isAppearanceOpen}
@@ -355,6 +440,41 @@ export function ReaderActionBar({
             </PopoverContent>
           </Popover>
 
+          {onToggleTag && (
+            <DropdownMenu>
+              <DropdownMenuTrigger
+                render={
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={m.tags_menuLabel()}
+                  >
+                    <Tag className="h-4 w-4" />
+                  </Button>
+                }
+              />
+              <DropdownMenuContent align="end" className="w-48">
+                {availableTags.length === 0 ? (
+                  <DropdownMenuItem disabled>
+                    {m.tags_emptyHint()}
+                  </DropdownMenuItem>
+                ) : (
+                  availableTags.map((tag) => (
+                    <DropdownMenuCheckboxItem
+                      key={tag._id}
+                      checked={taggedIds.has(tag._id)}
+                      onCheckedChange={() =>
+                        onToggleTag(tag._id, taggedIds.has(tag._id))
+                      }
+                    >
+                      {tag.name}
+                    </DropdownMenuCheckboxItem>
+                  ))
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
           <Separator orientation="vertical" className="h-4" />
 
           <div className="flex items-center gap-0.5">
@@ -387,6 +507,34 @@ export function ReaderActionBar({
               <TooltipContent>{m.reader_star()}</TooltipContent>
             </Tooltip>
 
+            {/* Reading queue */}
+            {onToggleQueue && (
+              <Tooltip>
+                <TooltipTrigger
+                  render={
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-pressed={isQueued}
+                      aria-label={queueLabel}
+                      onClick={onToggleQueue}
+                      className={cn(
+                        "text-muted-foreground",
+                        isQueued && "text-primary",
+                      )}
+                    >
+                      {isQueued ? (
+                        <ListChecks className="size-4" />
+                      ) : (
+                        <ListPlus className="size-4" />
+                      )}
+                    </Button>
+                  }
+                />
+                <TooltipContent>{queueLabel}</TooltipContent>
+              </Tooltip>
+            )}
+
             {/* Archive — desktop only */}
             <Tooltip>
               <TooltipTrigger
@@ -410,6 +558,28 @@ export function ReaderActionBar({
               <TooltipContent>{archiveLabel}</TooltipContent>
             </Tooltip>
 
+            {/* Snooze */}
+            {onSnooze && (
+              <SnoozeMenu
+                snoozedUntil={snoozedUntil}
+                onSnooze={onSnooze}
+                onUnsnooze={onUnsnooze}
+                trigger={
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={m.snooze_action()}
+                    className={cn(
+                      "text-muted-foreground",
+                      snoozedUntil !== undefined && "text-primary",
+                    )}
+                  >
+                    <AlarmClock className="size-4" />
+                  </Button>
+                }
+              />
+            )}
+
             {/* Bin — desktop only */}
             <Tooltip>
               <TooltipTrigger
@@ -485,6 +655,16 @@ export function ReaderActionBar({
                   <ShareIcon />
                   {m.reader_share()}
                 </DropdownMenuItem>
+                {onShareWithHighlights && (
+                  <DropdownMenuItem
+                    onClick={() => {
+                      onShareWithHighlights();
+                    }}
+                  >
+                    <Highlighter className="size-4" />
+                    {m.reader_shareWithHighlights()}
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem
                   onClick={() => {
                     onToggleRead?.();
@@ -507,6 +687,12 @@ export function ReaderActionBar({
                     Show read time
                   </DropdownMenuItem>
                 ) : null}
+                {onDownloadOriginal ? (
+                  <DropdownMenuItem onClick={onDownloadOriginal}>
+                    <FileDown className="h-4 w-4" />
+                    {m.reader_downloadOriginal()}
+                  </DropdownMenuItem>
+                ) : null}
                 <DropdownMenuSeparator />
                 <DropdownMenuItem disabled>
                   <MinusCircleIcon />
@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Reorder, useDragControls } from "motion/react";
+import { GripVertical, ListChecks } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { NewsletterData } from "@/components/NewsletterCard";
+import { m } from "@/paraglide/messages.js";
+import { NewsletterListItem } from "./NewsletterListItem";
+import { SidebarEmptyState } from "./SidebarEmptyState";
+
+type QueueItemActions = Pick<
+  React.ComponentProps<typeof NewsletterListItem>,
+  "onToggleRead" | "onBin" | "onToggleQueue"
+> & {
+  selectedNewsletterId: string | null;
+  onNewsletterSelect: (newsletterId: string) => void;
+  onNewsletterPrefetch?: (newsletterId: string) => void;
+  getIsFavorited: (newsletterId: string, serverValue?: boolean) => boolean;
+  isFavoritePending: (newsletterId: string) => boolean;
+  onToggleFavorite: (
+    newsletterId: string,
+    currentValue: boolean,
+  ) => Promise<void>;
+};
+
+interface ReadingQueueListProps extends QueueItemActions {
+  /** Queued newsletters, in queue order */
+  items: NewsletterData[];
+  totalReadMinutes: number;
+  onReorder: (orderedNewsletterIds: string[]) => Promise<void>;
+}
+
+function areOrdersEqual(a: readonly string[], b: readonly string[]) {
+  return a.length === b.length && a.every((id, index) => id === b[index]);
+}
+
+/**
+ * One queue row; the grip is the only drag handle so the row stays clickable
+ */
+function ReadingQueueRow({
+  newsletter,
+  onDragStart,
+  onDragEnd,
+  selectedNewsletterId,
+  onNewsletterSelect,
+  onNewsletterPrefetch,
+  getIsFavorited,
+  isFavoritePending,
+  ...actions
+}: QueueItemActions & {
+  newsletter: NewsletterData;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+}) {
+  const dragControls = useDragControls();
+
+  return (
+    <Reorder.Item
+      as="div"
+      value={newsletter._id}
+      dragListener={false}
+      dragControls={dragControls}
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      className="flex items-start gap-0.5 bg-background rounded-md"
+    >
+      <button
+        type="button"
+        aria-label={m.readingQueue_dragHandle()}
+        className="mt-2.5 p-0.5 rounded text-muted-foreground/60 hover:text-foreground cursor-grab active:cursor-grabbing touch-none"
+        onPointerDown={(event) => dragControls.start(event)}
+      >
+        <GripVertical className="size-3.5" />
+      </button>
+      <div className="flex-1 min-w-0">
+        <NewsletterListItem
+          newsletter={newsletter}
+          isSelected={selectedNewsletterId === newsletter._id}
+          isFavorited={getIsFavorited(
+            newsletter._id,
+            Boolean(newsletter.isFavorited),
+          )}
+          isFavoritePending={isFavoritePending(newsletter._id)}
+          onClick={onNewsletterSelect}
+          onPrefetch={onNewsletterPrefetch}
+          isQueued
+          {...actions}
+        />
+      </div>
+    </Reorder.Item>
+  );
+}
+
+/**
+ * ReadingQueueList - The reading queue detail panel of the sidebar
+ *
+ * Newsletters are shown in the user's order and reordered by dragging the
+ * grip; the new order is saved when the drag ends. The header totals the
+ * reading time estimated at ingestion.
+ */
+export function ReadingQueueList({
+  items,
+  totalReadMinutes,
+  onReorder,
+  ...itemProps
+}: ReadingQueueListProps) {
+  const serverOrderIds = useMemo(() => items.map((item) => item._id), [items]);
+  const itemById = useMemo(
+    () =>
+      new Map<string, NewsletterData>(items.map((item) => [item._id, item])),
+    [items],
+  );
+  const [localOrderIds, setLocalOrderIds] = useState<string[]>(serverOrderIds);
+  const [isReordering, setIsReordering] = useState(false);
+
+  // Sync local drag order from server data when not mid-drag
+  useEffect(() => {
+    if (isReordering) return;
+    setLocalOrderIds((previous) =>
+      areOrdersEqual(previous, serverOrderIds) ? previous : serverOrderIds,
+    );
+  }, [serverOrderIds, isReordering]);
+
+  const handleDragEnd = useCallback(() => {
+    setIsReordering(false);
+    if (areOrdersEqual(localOrderIds, serverOrderIds)) return;
+    void onReorder(localOrderIds);
+  }, [localOrderIds, serverOrderIds, onReorder]);
+
+  if (items.length === 0) {
+    return (
+      <SidebarEmptyState
+        icon={ListChecks}
+        title={m.readingQueue_emptyState()}
+        description={m.readingQueue_emptyStateDesc()}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="px-2 text-xs text-muted-foreground">
+        {m.readingQueue_totalTime({ minutes: totalReadMinutes })}
+      </p>
+      <Reorder.Group
+        axis="y"
+        as="div"
+        layoutScroll
+        values={localOrderIds}
+        onReorder={setLocalOrderIds}
+        className={cn("space-y-0.5", isReordering && "select-none")}
+      >
+        {localOrderIds.map((id) => {
+          const newsletter = itemById.get(id);
+          if (!newsletter) return null;
+          return (
+            <ReadingQueueRow
+              key={id}
+              newsletter={newsletter}
+              onDragStart={() => setIsReordering(true)}
+              onDragEnd={handleDragEnd}
+              {...itemProps}
+            />
+          );
+        })}
+      </Reorder.Group>
+    </div>
+  );
+}
@@ -16,11 +16,16 @@ import { cn } from "@/lib/utils";
 import { NewsletterListItem } from "./NewsletterListItem";
 import { SenderAvatar, SenderAvatarGroup } from "./SenderAvatar";
 import { FolderActionsDropdown } from "@/components/FolderActionsDropdown";
+import {
+  SmartFolderActionsDropdown,
+} from "@/components/SmartFolderActionsDropdown";
+import type { SmartFolderFilterData } from "@/components/SmartFolderDialog";
+import { BulkTagMenu } from "@/components/BulkTagMenu";
 import type { FolderData } from "@/components/FolderSidebar";
 import type { NewsletterData } from "@/components/NewsletterCard";
 import { m } from "@/paraglide/messages.js";
 import { ChevronRightIcon } from "@hushletter/ui";
-import { RotateCcw } from "lucide-react";
+import { AlertTriangle, RotateCcw } from "lucide-react";
 import type { DragControls } from "motion/react";
 
 interface SenderFolderItemProps {
@@ -47,10 +52,19 @@ interface SenderFolderItemProps {
   onArchive?: (newsletterId: string) => Promise<void>;
   onUnarchive?: (newsletterId: string) => Promise<void>;
   onBin?: (newsletterId: string) => Promise<void>;
+  onSnooze?: (newsletterId: string, until: number) => Promise<void>;
+  getIsQueued?: (newsletterId: string) => boolean;
+  onToggleQueue?: (newsletterId: string, isQueued: boolean) => Promise<void>;
   onHideSuccess?: () => void;
   onRestoreFolder?: (folderId: string) => Promise<void> | void;
   isRestoreFolderPending?: boolean;
   dragControls?: DragControls;
+  /** Set for smart folders: newsletters come from the saved filter */
+  smartFolderFilter?: SmartFolderFilterData;
+  /** Set for tags: newsletters come from the tag */
+  isTag?: boolean;
+  /** Nesting level for subfolders (0 = top level) */
+  depth?: number;
 }
 
 /**
@@ -78,25 +92,63 @@ export function SenderFolderItem({
   onArchive,
   onUnarchive,
   onBin,
+  onSnooze,
+  getIsQueued,
+  onToggleQueue,
   onHideSuccess,
   onRestoreFolder,
   isRestoreFolderPending = false,
   dragControls,
+  smartFolderFilter,
+  isTag = false,
+  depth = 0,
 }: SenderFolderItemProps) {
   const folderId = folder._id as Id<"folders">;
+  const smartFolderId = folder._id as Id<"smartFolders">;
+  const tagId = folder._id as Id<"tags">;
+  const isSmartFolder = smartFolderFilter !== undefined;
+  const isFolder = !isSmartFolder && !isTag;
   const usesStaticNewsletters = newslettersOverride !== undefined;
+  // Parent folders surface unread mail from their subfolders too
+  const unreadCount = folder.totalUnreadCount ?? folder.unreadCount;
+  const shouldLoadHead = isExpanded && !usesStaticNewsletters;
 
   // Reactive head page (subscribed) only while expanded.
-  const { data: head, isPending: headPending } = useQuery(
+  const { data: folderHead, isPending: folderHeadPending } = useQuery(
     convexQuery(
       api.newsletters.listUserNewslettersByFolderHead,
-      isExpanded && !usesStaticNewsletters
-        ? { folderId, numItems: 20 }
-        : "skip",
+      shouldLoadHead && isFolder ? { folderId, numItems: 20 } : "skip",
+    ),
+  );
+  const { data: smartFolderHead, isPending: smartFolderHeadPending } =
+    useQuery(
+      convexQuery(
+        api.newsletters.listSmartFolderNewslettersHead,
+        shouldLoadHead && isSmartFolder
+          ? { smartFolderId, numItems: 20 }
+          : "skip",
+      ),
+    );
+  const { data: tagHead, isPending: tagHeadPending } = useQuery(
+    convexQuery(
+      api.newsletters.listNewslettersByTagHead,
+      shouldLoadHead && isTag ? { tagId, numItems: 20 } : "skip",
     ),
   );
+  const head = isSmartFolder ? smartFolderHead : isTag ? tagHead : folderHead;
+  const headPending = isSmartFolder
+    ? smartFolderHeadPending
+    : isTag
+      ? tagHeadPending
+      : folderHeadPending;
 
-  const loadPage = useAction(api.newsletters.listUserNewslettersByFolderPage);
+  const loadFolderPage = useAction(
+    api.newsletters.listUserNewslettersByFolderPage,
+  );
+  const loadSmartFolderPage = useAction(
+    api.newsletters.listSmartFolderNewslettersPage,
+  );
+  const loadTagPage = useAction(api.newsletters.listNewslettersByTagPage);
   const [tailPages, setTailPages] = useState<NewsletterData[][]>([]);
   const [cursor, setCursor] = useState<string | null>(null);
   const [isDone, setIsDone] = useState(true);
@@ -182,7 +234,11 @@ export function SenderFolderItem({
     if (!canLoadMore || isLoadingMore || cursor === null) return;
     setIsLoadingMore(true);
     try {
-      const result = await loadPage({ folderId, cursor, numItems: 50 });
+      const result = isSmartFolder
+        ? await loadSmartFolderPage({ smartFolderId, cursor, numItems: 50 })
+        : isTag
+          ? await loadTagPage({ tagId, cursor, numItems: 50 })
+          : await loadFolderPage({ folderId, cursor, numItems: 50 });
       const page = (result.page ?? []) as NewsletterData[];
       setTailPages((prev) => [...prev, page]);
       setCursor(result.continueCursor ?? null);
@@ -190,7 +246,19 @@ export function SenderFolderItem({
     } finally {
       setIsLoadingMore(false);
     }
-  }, [canLoadMore, isLoadingMore, cursor, loadPage, folderId]);
+  }, [
+    canLoadMore,
+    isLoadingMore,
+    cursor,
+    isSmartFolder,
+    loadSmartFolderPage,
+    smartFolderId,
+    isTag,
+    loadTagPage,
+    tagId,
+    loadFolderPage,
+    folderId,
+  ]);
 
   const handleFolderSelect = () => {
     if (selectFolderOnClick) {
@@ -206,6 +274,7 @@ export function SenderFolderItem({
   return (
     <Collapsible open={isExpanded} onOpenChange={onExpandedChange}>
       <div
+        style={depth > 0 ? { paddingLeft: depth * 16 } : undefined}
         className={cn(
           "group flex items-center rounded-lg",
           "hover:bg-hover",
@@ -240,8 +309,8 @@ export function SenderFolderItem({
               <SenderAvatarGroup
                 senders={senderPreviews}
                 className={cn(
-                  folder.unreadCount ? "" : "*:border",
-                  folder.unreadCount > 0 || isExpanded
+                  unreadCount ? "" : "*:border",
+                  unreadCount > 0 || isExpanded
                     ? "text-primary"
                     : "text-muted-foreground group-hover:text-foreground",
                 )}
@@ -249,8 +318,8 @@ export function SenderFolderItem({
             ) : (
               <SenderAvatar
                 className={cn(
-                  folder.unreadCount ? "" : "border",
-                  folder.unreadCount > 0 || isExpanded
+                  unreadCount ? "" : "border",
+                  unreadCount > 0 || isExpanded
                     ? "text-primary"
                     : "text-muted-foreground group-hover:text-foreground",
                 )}
@@ -263,25 +332,34 @@ export function SenderFolderItem({
                 }
               />
             )}
-            {folder.unreadCount > 0 && (
+            {unreadCount > 0 && (
               <Badge
                 variant="default"
                 className="!size-4 p-0 z-20 shrink-0 text-[10px] absolute -top-1  -right-1 font-medium  opacity-0 group-hover:opacity-100 transition-opacity"
               >
-                {folder.unreadCount}
+                {unreadCount}
               </Badge>
             )}
           </span>
           <span
             className={cn(
               "text-sm truncate font-medium transition-colors",
-              folder.unreadCount > 0 || isExpanded
+              unreadCount > 0 || isExpanded
                 ? "text-primary"
                 : "text-muted-foreground group-hover:text-foreground",
             )}
           >
             {folder.name}
           </span>
+          {folder.isStillSendingAfterUnsubscribe && (
+            <AlertTriangle
+              className="h-3.5 w-3.5 shrink-0 text-amber-500"
+              role="img"
+              aria-label={m.sidebar_stillSendingAfterUnsubscribe()}
+            >
+              <title>{m.sidebar_stillSendingAfterUnsubscribe()}</title>
+            </AlertTriangle>
+          )}
         </button>
 
         {(showFolderActions || onRestoreFolder) && (
@@ -311,7 +389,17 @@ export function SenderFolderItem({
               </button>
             )}
 
-            {showFolderActions && (
+            {showFolderActions && smartFolderFilter && (
+              <SmartFolderActionsDropdown
+                smartFolder={{
+                  _id: folder._id,
+                  name: folder.name,
+                  filter: smartFolderFilter,
+                }}
+                onHideSuccess={onHideSuccess}
+              />
+            )}
+            {showFolderActions && !smartFolderFilter && (
               <FolderActionsDropdown
                 folderId={folder._id}
                 folderName={folder.name}
@@ -333,7 +421,7 @@ export function SenderFolderItem({
             className={cn(
               "h-3.5 w-3.5 shrink-0 text-muted-foreground transition-transform ease-in-out duration-150",
               "stroke-[2.5px]",
-              folder.unreadCount > 0 || isExpanded
+              unreadCount > 0 || isExpanded
                 ? "text-primary"
                 : "text-muted-foreground/70",
               isExpanded && "rotate-90",
@@ -384,6 +472,9 @@ export function SenderFolderItem({
                   onArchive={onArchive}
                   onUnarchive={onUnarchive}
                   onBin={onBin}
+                  onSnooze={onSnooze}
+                  isQueued={getIsQueued?.(newsletter._id)}
+                  onToggleQueue={onToggleQueue}
                 />
               ))}
 
@@ -401,6 +492,16 @@ export function SenderFolderItem({
                   </Button>
                 </div>
               )}
+
+              {!usesStaticNewsletters && (
+                <div className="px-1 pt-0.5">
+                  <BulkTagMenu
+                    userNewsletterIds={filteredNewsletters.map(
+                      (newsletter) => newsletter._id,
+                    )}
+                  />
+                </div>
+              )}
             </>
           )}
         </div>
@@ -27,12 +27,14 @@ vi.mock("@hushletter/backend", () => ({
       listVisibleFoldersWithUnreadCounts: "folders.listVisibleFoldersWithUnreadCounts",
       listHiddenFolders: "folders.listHiddenFolders",
       reorderFolders: "folders.reorderFolders",
+      moveFolder: "folders.moveFolder",
       unhideFolder: "folders.unhideFolder",
     },
     newsletters: {
       getUserNewsletter: "newsletters.getUserNewsletter",
       getHiddenNewsletterCount: "newsletters.getHiddenNewsletterCount",
       getBinnedNewsletterCount: "newsletters.getBinnedNewsletterCount",
+      getSnoozedNewsletterCount: "newsletters.getSnoozedNewsletterCount",
       listRecentUnreadNewslettersHead: "newsletters.listRecentUnreadNewslettersHead",
       listRecentUnreadNewslettersPage: "newsletters.listRecentUnreadNewslettersPage",
       markNewsletterRead: "newsletters.markNewsletterRead",
@@ -40,6 +42,14 @@ vi.mock("@hushletter/backend", () => ({
       hideNewsletter: "newsletters.hideNewsletter",
       unhideNewsletter: "newsletters.unhideNewsletter",
       binNewsletter: "newsletters.binNewsletter",
+      snoozeNewsletter: "newsletters.snoozeNewsletter",
+      unsnoozeNewsletter: "newsletters.unsnoozeNewsletter",
+      listReadingQueue: "newsletters.listReadingQueue",
+    },
+    readingQueue: {
+      addToReadingQueue: "readingQueue.addToReadingQueue",
+      removeFromReadingQueue: "readingQueue.removeFromReadingQueue",
+      reorderReadingQueue: "readingQueue.reorderReadingQueue",
     },
   },
 }));
@@ -51,17 +61,20 @@ vi.mock("./SenderFolderItem", () => ({
     isExpanded,
     onExpandedChange,
     newslettersOverride = [],
+    depth = 0,
   }: {
     folder: { name: string };
     isSelected: boolean;
     isExpanded: boolean;
     onExpandedChange: (expanded: boolean) => void;
     newslettersOverride?: Array<{ _id: string; subject: string }>;
+    depth?: number;
   }) => (
     <div>
       <button
         type="button"
         data-testid="sender-folder-item"
+        data-depth={depth}
         data-expanded={isExpanded ? "true" : "false"}
         data-selected={isSelected ? "true" : "false"}
         onClick={() => onExpandedChange(!isExpanded)}
@@ -103,6 +116,10 @@ vi.mock("./SidebarFooter", () => ({
   SidebarFooter: () => null,
 }));
 
+vi.mock("./FolderSuggestionsCard", () => ({
+  FolderSuggestionsCard: () => null,
+}));
+
 import { useQuery } from "@tanstack/react-query";
 import { convexQuery } from "@convex-dev/react-query";
 import { useAction, useMutation } from "convex/react";
@@ -161,6 +178,8 @@ describe("SenderFolderSidebar", () => {
     hiddenPending: false,
     binnedNewsletters: [] as NewsletterData[],
     binnedPending: false,
+    snoozedNewsletters: [] as NewsletterData[],
+    snoozedPending: false,
     favoritedNewsletters: [] as NewsletterData[],
     favoritedPending: false,
     onEmptyBin: vi.fn().mockResolvedValue(undefined),
@@ -731,4 +750,53 @@ describe("SenderFolderSidebar", () => {
     expect(items[1]).toHaveTextContent("Sender Two");
     expect(items[1]).toHaveAttribute("data-selected", "true");
   });
+
+  it("groups subfolders under their parent and keeps parents with unread subfolders in the unread tab", () => {
+    foldersQueryData = [
+      {
+        _id: "folder-research",
+        name: "Research",
+        parentId: "folder-tech",
+        newsletterCount: 2,
+        unreadCount: 2,
+        totalNewsletterCount: 2,
+        totalUnreadCount: 2,
+      },
+      {
+        _id: "folder-cooking",
+        name: "Cooking",
+        newsletterCount: 1,
+        unreadCount: 0,
+        totalNewsletterCount: 1,
+        totalUnreadCount: 0,
+      },
+      {
+        _id: "folder-tech",
+        name: "Tech",
+        newsletterCount: 1,
+        unreadCount: 0,
+        totalNewsletterCount: 3,
+        totalUnreadCount: 2,
+      },
+    ];
+
+    render(<SenderFolderSidebar {...defaultProps} selectedFilter={null} />);
+
+    let items = screen.getAllByTestId("sender-folder-item");
+    expect(items.map((item) => item.textContent)).toEqual([
+      "Cooking",
+      "Tech",
+      "Research",
+    ]);
+    expect(items.map((item) => item.getAttribute("data-depth"))).toEqual([
+      "0",
+      "0",
+      "1",
+    ]);
+
+    fireEvent.click(screen.getByRole("button", { name: "Unread" }));
+
+    items = screen.getAllByTestId("sender-folder-item");
+    expect(items.map((item) => item.textContent)).toEqual(["Tech", "Research"]);
+  });
 });
@@ -2,6 +2,7 @@ import { useEffect, useState, useMemo, useRef, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { convexQuery } from "@convex-dev/react-query";
 import { useAction, useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
 import { api } from "@hushletter/backend";
 import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
 import {
@@ -22,6 +23,8 @@ import {
   ChevronLeftIcon,
 } from "@hushletter/ui";
 import { cn } from "@/lib/utils";
+import { getDropParentId, orderFolderTree } from "@/lib/folderTree";
+import { toast } from "sonner";
 import {
   AlertCircle,
   Trash2,
@@ -29,6 +32,9 @@ import {
   Star,
   CheckCircle2,
   ChevronDown,
+  Plus,
+  AlarmClock,
+  ListChecks,
 } from "lucide-react";
 import { SidebarEmptyState } from "./SidebarEmptyState";
 import {
@@ -43,16 +49,25 @@ import {
 } from "motion/react";
 import { SenderFolderItem } from "./SenderFolderItem";
 import { NewsletterListItem } from "./NewsletterListItem";
+import { ReadingQueueList } from "./ReadingQueueList";
+import { FolderSuggestionsCard } from "./FolderSuggestionsCard";
+import { useReadingQueue } from "@/hooks/useReadingQueue";
 import type { FolderData } from "@/components/FolderSidebar";
 import type { NewsletterData } from "@/components/NewsletterCard";
 import { m } from "@/paraglide/messages.js";
 import { SidebarFooter } from "./SidebarFooter";
+import {
+  SmartFolderDialog,
+  type SmartFolderFilterData,
+} from "@/components/SmartFolderDialog";
 
 type SidebarFilter = "all" | "unread" | "starred";
 
 const FILTER_HIDDEN = "hidden" as const;
 const FILTER_STARRED = "starred" as const;
 const FILTER_BIN = "bin" as const;
+const FILTER_SNOOZED = "snoozed" as const;
+const FILTER_QUEUE = "queue" as const;
 const LAST_NEWSLETTERS_VISIT_KEY = "hushletter:lastNewslettersVisit";
 const RECENT_UNREAD_HEAD_SIZE = 8;
 const RECENT_UNREAD_PAGE_SIZE = 20;
@@ -60,7 +75,9 @@ const RECENT_UNREAD_NOW_BUCKET_MS = 1_800_000;
 type FilterType =
   | typeof FILTER_HIDDEN
   | typeof FILTER_STARRED
-  | typeof FILTER_BIN;
+  | typeof FILTER_BIN
+  | typeof FILTER_SNOOZED
+  | typeof FILTER_QUEUE;
 type ManagementFolderGroup = {
   key: string;
   folder: FolderData;
@@ -106,6 +123,8 @@ interface SenderFolderSidebarProps {
   hiddenPending: boolean;
   binnedNewsletters: NewsletterData[];
   binnedPending: boolean;
+  snoozedNewsletters: NewsletterData[];
+  snoozedPending: boolean;
   favoritedNewsletters: NewsletterData[];
   favoritedPending: boolean;
   onFolderSelect: (folderId: string | null) => void;
@@ -124,6 +143,10 @@ interface SenderFolderSidebarProps {
   isLoadingMore?: boolean;
   onLoadMore?: () => void;
   enableSearchHotkey?: boolean;
+  selectedSmartFolderId?: string | null;
+  onSmartFolderSelect?: (smartFolderId: string | null) => void;
+  selectedTagId?: string | null;
+  onTagSelect?: (tagId: string | null) => void;
 }
 
 function isFolderData(item: unknown): item is FolderData {
@@ -137,6 +160,16 @@ function isFolderData(item: unknown): item is FolderData {
   );
 }
 
+/**
+ * Message of a ConvexError, or the fallback for anything else
+ */
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ConvexError) {
+    return (error.data as { message?: string }).message ?? fallback;
+  }
+  return fallback;
+}
+
 function areFolderOrdersEqual(a: readonly string[], b: readonly string[]) {
   if (a.length !== b.length) return false;
   for (let i = 0; i < a.length; i++) {
@@ -261,18 +294,29 @@ function SidebarSkeleton() {
 }
 
 /**
- * Management section — always-visible footer rows for Archive and Bin.
+ * Management section — always-visible footer rows for the Reading queue,
+ * Snoozed, Archive and Bin.
  */
 function ManagementSection({
+  queueCount,
+  queueReadMinutes,
+  snoozedCount,
   archiveCount,
   binCount,
   selectedFilter,
+  onQueueClick,
+  onSnoozedClick,
   onArchiveClick,
   onBinClick,
 }: {
+  queueCount: number;
+  queueReadMinutes: number;
+  snoozedCount: number;
   archiveCount: number;
   binCount: number;
   selectedFilter: FilterType | null;
+  onQueueClick: () => void;
+  onSnoozedClick: () => void;
   onArchiveClick: () => void;
   onBinClick: () => void;
 }) {
@@ -284,6 +328,46 @@ function ManagementSection({
         </p>
       </div>
       <div className="px-2 pb-2 space-y-0.5">
+        <button
+          type="button"
+          onClick={onQueueClick}
+          aria-current={selectedFilter === FILTER_QUEUE ? "page" : undefined}
+          className={cn(
+            "w-full flex items-center font-medium text-muted-foreground justify-between px-3 py-2 rounded-lg text-sm",
+            "hover:bg-accent hover:text-primary transition-colors text-left",
+            selectedFilter === FILTER_QUEUE && "bg-accent ",
+          )}
+        >
+          <div className="flex items-center gap-2 truncate flex-1 mr-2">
+            <ListChecks className="size-5 shrink-0" aria-hidden="true" />
+            <span className="truncate">{m.readingQueue_title()}</span>
+          </div>
+          <span className="text-muted-foreground text-xs flex-shrink-0">
+            {queueCount > 0 && queueReadMinutes > 0
+              ? `${queueCount} · ${m.reader_minuteRead({ minutes: queueReadMinutes })}`
+              : queueCount}
+          </span>
+        </button>
+
+        <button
+          type="button"
+          onClick={onSnoozedClick}
+          aria-current={selectedFilter === FILTER_SNOOZED ? "page" : undefined}
+          className={cn(
+            "w-full flex items-center font-medium text-muted-foreground justify-between px-3 py-2 rounded-lg text-sm",
+            "hover:bg-accent hover:text-primary transition-colors text-left",
+            selectedFilter === FILTER_SNOOZED && "bg-accent ",
+          )}
+        >
+          <div className="flex items-center gap-2 truncate flex-1 mr-2">
+            <AlarmClock className="size-5 shrink-0" aria-hidden="true" />
+            <span className="truncate">{m.sidebar_snoozed()}</span>
+          </div>
+          <span className="text-muted-foreground text-xs flex-shrink-0">
+            {snoozedCount}
+          </span>
+        </button>
+
         <button
           type="button"
           onClick={onArchiveClick}
@@ -330,6 +414,7 @@ function ManagementSection({
  * Draggable wrapper for SenderFolderItem using Motion's Reorder.Item.
  * The folder avatar acts as the drag handle. Applies spring + tilt physics:
  * velocity-based rotateZ tilt, scale lift, and elevated shadow while dragging.
+ * `onDragEnd` receives the horizontal drag offset so callers can reparent.
  *
  * Key design decisions:
  * - Keep `layout="position"` on for stable pointer tracking.
@@ -354,7 +439,7 @@ function DraggableFolderItem({
 > & {
   folder: FolderData;
   onDragStart?: () => void;
-  onDragEnd?: () => void;
+  onDragEnd?: (offsetX: number) => void;
   isReordering?: boolean;
 }) {
   const dragControls = useDragControls();
@@ -412,7 +497,7 @@ function DraggableFolderItem({
         setIsDragging(true);
         onDragStart?.();
       }}
-      onDragEnd={() => {
+      onDragEnd={(_: PointerEvent, info: { offset: { x: number } }) => {
         setIsDragging(false);
         clearSuppressClickTimeoutRef.current = window.setTimeout(() => {
           suppressClickAfterDragRef.current = false;
@@ -420,7 +505,7 @@ function DraggableFolderItem({
         }, 180);
         // Spring tilt back to 0 for follow-through
         animate(dragY, 0, { type: "spring", stiffness: 300, damping: 20 });
-        onDragEnd?.();
+        onDragEnd?.(info.offset.x);
       }}
       onClickCapture={(event) => {
         if (!suppressClickAfterDragRef.current) return;
@@ -443,6 +528,340 @@ function DraggableFolderItem({
   );
 }
 
+type SmartFolderListItem = FolderData & {
+  filter: SmartFolderFilterData;
+};
+
+/**
+ * Smart folders — saved filters listed above the sender folders.
+ * Same item UI as folders (live unread badge, expand to lazy-load
+ * newsletters, drag-to-reorder), backed by the smartFolders API.
+ */
+function SmartFolderSection({
+  sidebarFilter,
+  selectedSmartFolderId,
+  onSmartFolderSelect,
+  ...itemProps
+}: Pick<
+  React.ComponentProps<typeof SenderFolderItem>,
+  | "selectedNewsletterId"
+  | "onNewsletterSelect"
+  | "onNewsletterPrefetch"
+  | "getIsFavorited"
+  | "isFavoritePending"
+  | "onToggleFavorite"
+  | "onToggleRead"
+  | "onArchive"
+  | "onBin"
+  | "onSnooze"
+  | "getIsQueued"
+  | "onToggleQueue"
+> & {
+  sidebarFilter: "all" | "unread";
+  selectedSmartFolderId: string | null;
+  onSmartFolderSelect: (smartFolderId: string | null) => void;
+}) {
+  const { data } = useQuery(
+    convexQuery(api.smartFolders.listSmartFoldersWithUnreadCounts, {
+      includeHidden: true,
+    }),
+  );
+  const reorderSmartFolders = useMutation(
+    api.smartFolders.reorderSmartFolders,
+  );
+  const unhideSmartFolder = useMutation(api.smartFolders.unhideSmartFolder);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [showHidden, setShowHidden] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(
+    () => new Set(),
+  );
+  const [localOrderIds, setLocalOrderIds] = useState<string[]>([]);
+  const [isReordering, setIsReordering] = useState(false);
+
+  const allSmartFolders = useMemo(
+    () =>
+      ((data ?? []) as Array<Omit<SmartFolderListItem, "senderCount">>).map(
+        (smartFolder): SmartFolderListItem => ({
+          ...smartFolder,
+          senderCount: smartFolder.senderPreviews?.length ?? 0,
+        }),
+      ),
+    [data],
+  );
+  const smartFolders = useMemo(
+    () => allSmartFolders.filter((folder) => !folder.isHidden),
+    [allSmartFolders],
+  );
+  const hiddenSmartFolders = useMemo(
+    () => allSmartFolders.filter((folder) => folder.isHidden),
+    [allSmartFolders],
+  );
+  const smartFolderById = useMemo(
+    () => new Map(smartFolders.map((folder) => [folder._id, folder])),
+    [smartFolders],
+  );
+  const serverOrderIds = useMemo(
+    () => smartFolders.map((folder) => folder._id),
+    [smartFolders],
+  );
+
+  // Sync local drag order from server data when not mid-drag
+  useEffect(() => {
+    if (isReordering) return;
+    setLocalOrderIds((previous) =>
+      areFolderOrdersEqual(previous, serverOrderIds)
+        ? previous
+        : serverOrderIds,
+    );
+  }, [serverOrderIds, isReordering]);
+
+  const visibleSmartFolders = useMemo(() => {
+    const ordered = localOrderIds
+      .map((id) => smartFolderById.get(id))
+      .filter((folder): folder is SmartFolderListItem => folder !== undefined);
+    return sidebarFilter === "unread"
+      ? ordered.filter((folder) => folder.unreadCount > 0)
+      : ordered;
+  }, [localOrderIds, smartFolderById, sidebarFilter]);
+
+  const handleDragEnd = useCallback(() => {
+    setIsReordering(false);
+    if (areFolderOrdersEqual(localOrderIds, serverOrderIds)) return;
+    void reorderSmartFolders({
+      orderedSmartFolderIds: localOrderIds as Id<"smartFolders">[],
+    });
+  }, [localOrderIds, serverOrderIds, reorderSmartFolders]);
+
+  const handleRestore = async (smartFolderId: string) => {
+    setRestoringId(smartFolderId);
+    try {
+      await unhideSmartFolder({
+        smartFolderId: smartFolderId as Id<"smartFolders">,
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handleExpandedChange = (smartFolderId: string, expanded: boolean) => {
+    setExpandedIds((previous) => {
+      const next = new Set(previous);
+      if (expanded) {
+        next.add(smartFolderId);
+      } else {
+        next.delete(smartFolderId);
+      }
+      return next;
+    });
+  };
+
+  // In the unread view, only show the section when something is unread
+  if (sidebarFilter === "unread" && visibleSmartFolders.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="pb-2 mb-1 border-b border-border/60">
+      <div className="flex items-center justify-between pl-1 pr-0.5 py-1">
+        <p className="text-[13px] text-muted-foreground">
+          {m.smartFolders_sectionTitle()}
+        </p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="size-6"
+          aria-label={m.smartFolders_createTitle()}
+          onClick={() => setIsCreateOpen(true)}
+        >
+          <Plus className="size-3.5" />
+        </Button>
+      </div>
+
+      {visibleSmartFolders.length === 0 ? (
+        <p className="text-xs text-muted-foreground px-1 pb-1">
+          {m.smartFolders_emptyHint()}
+        </p>
+      ) : (
+        <Reorder.Group
+          axis="y"
+          as="div"
+          layoutScroll
+          values={localOrderIds}
+          onReorder={setLocalOrderIds}
+          className="space-y-0.5"
+        >
+          {visibleSmartFolders.map((smartFolder) => (
+            <DraggableFolderItem
+              key={smartFolder._id}
+              folder={smartFolder}
+              smartFolderFilter={smartFolder.filter}
+              isReordering={isReordering}
+              isSelected={selectedSmartFolderId === smartFolder._id}
+              sidebarFilter={sidebarFilter}
+              isExpanded={expandedIds.has(smartFolder._id)}
+              onExpandedChange={(expanded) =>
+                handleExpandedChange(smartFolder._id, expanded)
+              }
+              onFolderSelect={onSmartFolderSelect}
+              onHideSuccess={() => {
+                if (selectedSmartFolderId === smartFolder._id) {
+                  onSmartFolderSelect(null);
+                }
+              }}
+              onDragStart={() => setIsReordering(true)}
+              onDragEnd={handleDragEnd}
+              {...itemProps}
+            />
+          ))}
+        </Reorder.Group>
+      )}
+
+      {sidebarFilter === "all" && hiddenSmartFolders.length > 0 && (
+        <>
+          <button
+            type="button"
+            onClick={() => setShowHidden((previous) => !previous)}
+            aria-expanded={showHidden}
+            className="flex items-center gap-1 px-1 pt-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <ChevronDown
+              className={cn(
+                "size-3 transition-transform",
+                !showHidden && "-rotate-90",
+              )}
+            />
+            {m.smartFolders_hiddenCount({ count: hiddenSmartFolders.length })}
+          </button>
+          {showHidden &&
+            hiddenSmartFolders.map((smartFolder) => (
+              <SenderFolderItem
+                key={smartFolder._id}
+                folder={smartFolder}
+                smartFolderFilter={smartFolder.filter}
+                isSelected={selectedSmartFolderId === smartFolder._id}
+                sidebarFilter={sidebarFilter}
+                isExpanded={expandedIds.has(smartFolder._id)}
+                onExpandedChange={(expanded) =>
+                  handleExpandedChange(smartFolder._id, expanded)
+                }
+                onFolderSelect={onSmartFolderSelect}
+                showFolderActions={false}
+                onRestoreFolder={handleRestore}
+                isRestoreFolderPending={restoringId === smartFolder._id}
+                {...itemProps}
+              />
+            ))}
+        </>
+      )}
+
+      <SmartFolderDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        onCreated={onSmartFolderSelect}
+      />
+    </div>
+  );
+}
+
+type TagListItem = {
+  _id: string;
+  userId: string;
+  name: string;
+  color?: string;
+  createdAt: number;
+  updatedAt: number;
+  newsletterCount: number;
+};
+
+/**
+ * Tags — user labels listed below the smart folders.
+ * Each tag expands like a folder; tags are created and edited in Settings.
+ */
+function TagSection({
+  sidebarFilter,
+  selectedTagId,
+  onTagSelect,
+  ...itemProps
+}: Pick<
+  React.ComponentProps<typeof SenderFolderItem>,
+  | "selectedNewsletterId"
+  | "onNewsletterSelect"
+  | "onNewsletterPrefetch"
+  | "getIsFavorited"
+  | "isFavoritePending"
+  | "onToggleFavorite"
+  | "onToggleRead"
+  | "onArchive"
+  | "onBin"
+  | "onSnooze"
+  | "getIsQueued"
+  | "onToggleQueue"
+> & {
+  sidebarFilter: "all" | "unread";
+  selectedTagId: string | null;
+  onTagSelect: (tagId: string | null) => void;
+}) {
+  const { data } = useQuery(convexQuery(api.tags.listTags, {}));
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(
+    () => new Set(),
+  );
+
+  const tags = useMemo(
+    () =>
+      ((data ?? []) as TagListItem[]).map(
+        (tag): FolderData => ({
+          ...tag,
+          isHidden: false,
+          unreadCount: 0,
+          senderCount: 0,
+        }),
+      ),
+    [data],
+  );
+
+  const handleExpandedChange = (tagId: string, expanded: boolean) => {
+    setExpandedIds((previous) => {
+      const next = new Set(previous);
+      if (expanded) {
+        next.add(tagId);
+      } else {
+        next.delete(tagId);
+      }
+      return next;
+    });
+  };
+
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="pb-2 mb-1 border-b border-border/60">
+      <p className="text-[13px] text-muted-foreground pl-1 py-1">
+        {m.tags_sectionTitle()}
+      </p>
+      <div className="space-y-0.5">
+        {tags.map((tag) => (
+          <SenderFolderItem
+            key={tag._id}
+            folder={tag}
+            isTag
+            isSelected={selectedTagId === tag._id}
+            sidebarFilter={sidebarFilter}
+            isExpanded={expandedIds.has(tag._id)}
+            onExpandedChange={(expanded) =>
+              handleExpandedChange(tag._id, expanded)
+            }
+            onFolderSelect={onTagSelect}
+            showFolderActions={false}
+            {...itemProps}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
 /**
  * Sender folder sidebar with filter tabs and expandable folders.
  * Replaces the old FolderSidebar with a richer, nested design.
@@ -455,6 +874,8 @@ export function SenderFolderSidebar({
   hiddenPending,
   binnedNewsletters,
   binnedPending,
+  snoozedNewsletters,
+  snoozedPending,
   favoritedNewsletters,
   favoritedPending,
   onFolderSelect,
@@ -470,6 +891,10 @@ export function SenderFolderSidebar({
   isLoadingMore,
   onLoadMore,
   enableSearchHotkey = true,
+  selectedSmartFolderId = null,
+  onSmartFolderSelect,
+  selectedTagId = null,
+  onTagSelect,
 }: SenderFolderSidebarProps) {
   const [sidebarFilter, setSidebarFilter] = useState<SidebarFilter>(
     selectedFilter === FILTER_STARRED ? "starred" : "all",
@@ -511,8 +936,11 @@ export function SenderFolderSidebar({
   const hideNewsletter = useMutation(api.newsletters.hideNewsletter);
   const unhideNewsletter = useMutation(api.newsletters.unhideNewsletter);
   const binNewsletter = useMutation((api.newsletters as any).binNewsletter);
+  const snoozeNewsletter = useMutation(api.newsletters.snoozeNewsletter);
+  const unsnoozeNewsletter = useMutation(api.newsletters.unsnoozeNewsletter);
   const unhideFolder = useMutation(api.folders.unhideFolder);
   const reorderFoldersMutation = useMutation(api.folders.reorderFolders);
+  const moveFolderMutation = useMutation(api.folders.moveFolder);
   const [localFolderOrderIds, setLocalFolderOrderIds] = useState<string[]>([]);
   const [restoringFolderId, setRestoringFolderId] = useState<string | null>(
     null,
@@ -544,6 +972,17 @@ export function SenderFolderSidebar({
   const { data: binnedCount, isPending: binnedCountPending } = useQuery(
     convexQuery((api.newsletters as any).getBinnedNewsletterCount, {}),
   );
+  const { data: snoozedCount, isPending: snoozedCountPending } = useQuery(
+    convexQuery(api.newsletters.getSnoozedNewsletterCount, {}),
+  );
+  const {
+    items: queueItems,
+    totalReadMinutes: queueReadMinutes,
+    isPending: queuePending,
+    getIsQueued,
+    toggleQueued,
+    reorder: reorderQueue,
+  } = useReadingQueue();
 
   // Fetch hidden folders only when the Archive detail panel is active
   const { data: hiddenFoldersRaw, isPending: hiddenFoldersPending } = useQuery(
@@ -566,7 +1005,9 @@ export function SenderFolderSidebar({
     sidebarFilter === "all" &&
     selectedFilter !== FILTER_HIDDEN &&
     selectedFilter !== FILTER_STARRED &&
-    selectedFilter !== FILTER_BIN;
+    selectedFilter !== FILTER_BIN &&
+    selectedFilter !== FILTER_SNOOZED &&
+    selectedFilter !== FILTER_QUEUE;
 
   useEffect(() => {
     if (!shouldShowRecentSection) return;
@@ -603,8 +1044,12 @@ export function SenderFolderSidebar({
     return typeof folderId === "string" ? folderId : null;
   }, [selectedNewsletterMeta]);
 
+  // A newsletter opened from a smart folder or tag keeps it selected
   const effectiveSelectedFolderId =
-    selectedFolderId ?? selectedNewsletterFolderId ?? null;
+    selectedFolderId ??
+    (selectedSmartFolderId || selectedTagId
+      ? null
+      : selectedNewsletterFolderId);
 
   // Build a lookup map: folderId → folderName (from visible + hidden folders)
   const folderNameLookup = useMemo(() => {
@@ -769,29 +1214,54 @@ export function SenderFolderSidebar({
     lastPersistedFolderOrderIdsRef.current = serverFolderOrderIds;
   }, [serverFolderOrderIds, visibleFolderIdSet]);
 
-  const orderedFolders = useMemo(() => {
-    if (localFolderOrderIds.length === 0) return folderList;
-
-    const ordered = localFolderOrderIds
-      .map((id) => folderById.get(id))
-      .filter((folder): folder is FolderData => folder !== undefined);
+  const folderDepthById = useMemo(
+    () =>
+      new Map(
+        orderFolderTree(folderList).map(({ folder, depth }) => [
+          folder._id,
+          depth,
+        ]),
+      ),
+    [folderList],
+  );
 
-    return ordered.length > 0 ? ordered : folderList;
-  }, [localFolderOrderIds, folderById, folderList]);
+  const orderedFolders = useMemo(() => {
+    const flatOrder =
+      localFolderOrderIds.length === 0
+        ? folderList
+        : localFolderOrderIds
+            .map((id) => folderById.get(id))
+            .filter((folder): folder is FolderData => folder !== undefined);
+    const ordered = flatOrder.length > 0 ? flatOrder : folderList;
+
+    // Mid-drag, Reorder needs the raw order; otherwise keep subfolders
+    // grouped under their parent.
+    if (isReordering) return ordered;
+    return orderFolderTree(ordered).map(({ folder }) => folder);
+  }, [localFolderOrderIds, folderById, folderList, isReordering]);
 
   const visibleFolders = useMemo(() => {
     if (sidebarFilter === "unread") {
-      return orderedFolders.filter((folder) => folder.unreadCount > 0);
+      return orderedFolders.filter(
+        (folder) => (folder.totalUnreadCount ?? folder.unreadCount) > 0,
+      );
     }
     return orderedFolders;
   }, [orderedFolders, sidebarFilter]);
 
+  const visibleFolderOrderIds = useMemo(
+    () => visibleFolders.map((folder) => folder._id),
+    [visibleFolders],
+  );
+
   const canReorderFolders = sidebarFilter === "all";
 
   const handleFolderDragStart = useCallback(() => {
+    // Start from the displayed (tree) order so nothing jumps
+    setLocalFolderOrderIds(visibleFolderOrderIds);
     setIsReordering(true);
     isDraggingRef.current = true;
-  }, []);
+  }, [visibleFolderOrderIds]);
 
   const handleFolderReorder = useCallback((nextIds: string[]) => {
     setLocalFolderOrderIds((previous) =>
@@ -799,26 +1269,67 @@ export function SenderFolderSidebar({
     );
   }, []);
 
-  const handleFolderDragEnd = useCallback(() => {
-    setIsReordering(false);
-    isDraggingRef.current = false;
+  const handleFolderDragEnd = useCallback(
+    (folderId: string, offsetX: number) => {
+      setIsReordering(false);
+      isDraggingRef.current = false;
 
-    const reorderedIds = localFolderOrderIds.filter((id) =>
-      visibleFolderIdSet.has(id),
-    );
-    if (reorderedIds.length === 0) return;
+      const reorderedIds = localFolderOrderIds.filter((id) =>
+        visibleFolderIdSet.has(id),
+      );
+      if (reorderedIds.length === 0) return;
+
+      // Dragging sideways nests the folder or moves it up a level
+      const currentParentId = folderById.get(folderId)?.parentId;
+      const parentId = getDropParentId(
+        folderList,
+        reorderedIds,
+        folderId,
+        offsetX,
+      );
+      if (parentId !== currentParentId) {
+        void moveFolderMutation({
+          folderId: folderId as Id<"folders">,
+          parentId: parentId as Id<"folders"> | undefined,
+        }).catch((error: unknown) => {
+          toast.error(getErrorMessage(error, m.folder_moveError()));
+        });
+      }
 
-    if (
-      areFolderOrdersEqual(reorderedIds, lastPersistedFolderOrderIdsRef.current)
-    ) {
-      return;
-    }
+      // Regroup subfolders under their parent, keeping the dropped order
+      const treeOrderIds = orderFolderTree(
+        reorderedIds
+          .map((id) => folderById.get(id))
+          .filter((folder): folder is FolderData => folder !== undefined)
+          .map((folder) =>
+            folder._id === folderId ? { ...folder, parentId } : folder,
+          ),
+      ).map(({ folder }) => folder._id);
+      setLocalFolderOrderIds(treeOrderIds);
+
+      if (
+        areFolderOrdersEqual(
+          treeOrderIds,
+          lastPersistedFolderOrderIdsRef.current,
+        )
+      ) {
+        return;
+      }
 
-    lastPersistedFolderOrderIdsRef.current = reorderedIds;
-    void reorderFoldersMutation({
-      orderedFolderIds: reorderedIds as Id<"folders">[],
-    });
-  }, [localFolderOrderIds, reorderFoldersMutation, visibleFolderIdSet]);
+      lastPersistedFolderOrderIdsRef.current = treeOrderIds;
+      void reorderFoldersMutation({
+        orderedFolderIds: treeOrderIds as Id<"folders">[],
+      });
+    },
+    [
+      localFolderOrderIds,
+      visibleFolderIdSet,
+      folderById,
+      folderList,
+      moveFolderMutation,
+      reorderFoldersMutation,
+    ],
+  );
 
   const visibleFavoritedNewsletters = useMemo(
     () =>
@@ -891,7 +1402,9 @@ export function SenderFolderSidebar({
     if (
       selectedFilter === FILTER_STARRED ||
       selectedFilter === FILTER_HIDDEN ||
-      selectedFilter === FILTER_BIN
+      selectedFilter === FILTER_BIN ||
+      selectedFilter === FILTER_SNOOZED ||
+      selectedFilter === FILTER_QUEUE
     ) {
       onFilterSelect(null);
     }
@@ -908,6 +1421,28 @@ export function SenderFolderSidebar({
     onFilterSelect(FILTER_BIN);
   };
 
+  const handleQueueClick = () => {
+    if (selectedFilter === FILTER_QUEUE) {
+      onFilterSelect(null);
+      return;
+    }
+
+    setSidebarFilter("all");
+    onFolderSelect(null);
+    onFilterSelect(FILTER_QUEUE);
+  };
+
+  const handleSnoozedClick = () => {
+    if (selectedFilter === FILTER_SNOOZED) {
+      onFilterSelect(null);
+      return;
+    }
+
+    setSidebarFilter("all");
+    onFolderSelect(null);
+    onFilterSelect(FILTER_SNOOZED);
+  };
+
   const handleBackClick = () => {
     onFilterSelect(null);
   };
@@ -1067,6 +1602,25 @@ export function SenderFolderSidebar({
     [binNewsletter],
   );
 
+  const handleSnooze = useCallback(
+    async (newsletterId: string, until: number) => {
+      await snoozeNewsletter({
+        userNewsletterId: newsletterId as Id<"userNewsletters">,
+        snoozedUntil: until,
+      });
+    },
+    [snoozeNewsletter],
+  );
+
+  const handleUnsnooze = useCallback(
+    async (newsletterId: string) => {
+      await unsnoozeNewsletter({
+        userNewsletterId: newsletterId as Id<"userNewsletters">,
+      });
+    },
+    [unsnoozeNewsletter],
+  );
+
   const handleUnarchiveFolder = useCallback(
     async (folderId: string) => {
       if (restoringFolderId !== null) return;
@@ -1161,7 +1715,10 @@ export function SenderFolderSidebar({
 
   // Whether one of the management detail panels is active
   const isManagementDetailActive =
-    selectedFilter === FILTER_HIDDEN || selectedFilter === FILTER_BIN;
+    selectedFilter === FILTER_HIDDEN ||
+    selectedFilter === FILTER_BIN ||
+    selectedFilter === FILTER_SNOOZED ||
+    selectedFilter === FILTER_QUEUE;
 
   if (foldersError) {
     return (
@@ -1209,7 +1766,11 @@ export function SenderFolderSidebar({
                 <h2 className="text-sm font-medium ">
                   {selectedFilter === FILTER_HIDDEN
                     ? m.sidebar_archive()
-                    : (m.bin_label?.() ?? "Bin")}
+                    : selectedFilter === FILTER_SNOOZED
+                      ? m.sidebar_snoozed()
+                      : selectedFilter === FILTER_QUEUE
+                        ? m.readingQueue_title()
+                        : (m.bin_label?.() ?? "Bin")}
                 </h2>
               </div>
 
@@ -1297,6 +1858,89 @@ export function SenderFolderSidebar({
                 </ScrollArea>
               )}
 
+              {/* Reading queue detail content — in the user's order */}
+              {selectedFilter === FILTER_QUEUE && (
+                <ScrollArea className="flex-1">
+                  <div className="px-2 py-2">
+                    {queuePending ? (
+                      <SidebarSkeleton />
+                    ) : (
+                      <ReadingQueueList
+                        items={queueItems}
+                        totalReadMinutes={queueReadMinutes}
+                        onReorder={reorderQueue}
+                        selectedNewsletterId={selectedNewsletterId}
+                        onNewsletterSelect={onNewsletterSelect}
+                        onNewsletterPrefetch={onNewsletterPrefetch}
+                        getIsFavorited={getIsFavorited}
+                        isFavoritePending={isFavoritePending}
+                        onToggleFavorite={onToggleFavorite}
+                        onToggleRead={handleToggleRead}
+                        onToggleQueue={toggleQueued}
+                        onBin={handleMoveToBin}
+                      />
+                    )}
+                  </div>
+                </ScrollArea>
+              )}
+
+              {/* Snoozed detail content — soonest to come back first */}
+              {selectedFilter === FILTER_SNOOZED && (
+                <ScrollArea className="flex-1">
+                  <div className="px-2 py-2 space-y-2">
+                    {snoozedPending ? (
+                      <SidebarSkeleton />
+                    ) : snoozedNewsletters.length === 0 ? (
+                      <SidebarEmptyState
+                        icon={AlarmClock}
+                        title={m.snooze_emptyState()}
+                        description={m.snooze_emptyStateDesc()}
+                      />
+                    ) : (
+                      <div className="space-y-0.5">
+                        {snoozedNewsletters.map((newsletter) => (
+                          <NewsletterListItem
+                            key={newsletter._id}
+                            newsletter={newsletter}
+                            isSelected={selectedNewsletterId === newsletter._id}
+                            isFavorited={getIsFavorited(
+                              newsletter._id,
+                              Boolean(newsletter.isFavorited),
+                            )}
+                            isFavoritePending={isFavoritePending(
+                              newsletter._id,
+                            )}
+                            onClick={onNewsletterSelect}
+                            onPrefetch={onNewsletterPrefetch}
+                            onToggleFavorite={onToggleFavorite}
+                            onToggleRead={handleToggleRead}
+                            onSnooze={handleSnooze}
+                            isQueued={getIsQueued(newsletter._id)}
+                            onToggleQueue={toggleQueued}
+                            onUnsnooze={handleUnsnooze}
+                            onBin={handleMoveToBin}
+                          />
+                        ))}
+                        {canLoadMore && onLoadMore && (
+                          <div className="px-2 py-2">
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="w-full"
+                              disabled={Boolean(isLoadingMore)}
+                              onClick={() => onLoadMore()}
+                            >
+                              {isLoadingMore ? "Loading..." : "Load more"}
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </ScrollArea>
+              )}
+
               {/* Bin detail content */}
               {selectedFilter === FILTER_BIN && (
                 <ScrollArea className="flex-1">
@@ -1479,6 +2123,9 @@ export function SenderFolderSidebar({
                                 onPrefetch={onNewsletterPrefetch}
                                 onToggleFavorite={onToggleFavorite}
                                 onToggleRead={handleToggleRead}
+                                onSnooze={handleSnooze}
+                                isQueued={getIsQueued(newsletter._id)}
+                                onToggleQueue={toggleQueued}
                                 onBin={handleMoveToBin}
                               />
                             ))
@@ -1499,6 +2146,8 @@ export function SenderFolderSidebar({
                 </div>
               )}
 
+              <FolderSuggestionsCard className="mx-2 mt-2" />
+
               {/* Header: title + filter pills */}
               <div className="flex items-center justify-between px-4 pt-3 pb-1">
                 <h2 className="text-[13px] text-muted-foreground">
@@ -1534,6 +2183,50 @@ export function SenderFolderSidebar({
               {/* Folder list */}
               <ScrollArea className="h-fit mt-2">
                 <div className="px-2 pb-2 space-y-0.5">
+                  {sidebarFilter !== "starred" && onSmartFolderSelect && (
+                    <SmartFolderSection
+                      sidebarFilter={sidebarFilter}
+                      selectedSmartFolderId={selectedSmartFolderId}
+                      onSmartFolderSelect={(id) => {
+                        onFilterSelect(null);
+                        onSmartFolderSelect(id);
+                      }}
+                      selectedNewsletterId={selectedNewsletterId}
+                      onNewsletterSelect={onNewsletterSelect}
+                      onNewsletterPrefetch={onNewsletterPrefetch}
+                      getIsFavorited={getIsFavorited}
+                      isFavoritePending={isFavoritePending}
+                      onToggleFavorite={onToggleFavorite}
+                      onToggleRead={handleToggleRead}
+                      onArchive={handleArchive}
+                      onBin={handleMoveToBin}
+                      onSnooze={handleSnooze}
+                      getIsQueued={getIsQueued}
+                      onToggleQueue={toggleQueued}
+                    />
+                  )}
+                  {sidebarFilter !== "starred" && onTagSelect && (
+                    <TagSection
+                      sidebarFilter={sidebarFilter}
+                      selectedTagId={selectedTagId}
+                      onTagSelect={(id) => {
+                        onFilterSelect(null);
+                        onTagSelect(id);
+                      }}
+                      selectedNewsletterId={selectedNewsletterId}
+                      onNewsletterSelect={onNewsletterSelect}
+                      onNewsletterPrefetch={onNewsletterPrefetch}
+                      getIsFavorited={getIsFavorited}
+                      isFavoritePending={isFavoritePending}
+                      onToggleFavorite={onToggleFavorite}
+                      onToggleRead={handleToggleRead}
+                      onArchive={handleArchive}
+                      onBin={handleMoveToBin}
+                      onSnooze={handleSnooze}
+                      getIsQueued={getIsQueued}
+                      onToggleQueue={toggleQueued}
+                    />
+                  )}
                   {sidebarFilter === "starred" ? (
                     favoritedPending ? (
                       <SidebarSkeleton />
@@ -1566,6 +2259,9 @@ export function SenderFolderSidebar({
                             onToggleRead={handleToggleRead}
                             onArchive={handleArchive}
                             onBin={handleMoveToBin}
+                            onSnooze={handleSnooze}
+                            isQueued={getIsQueued(newsletter._id)}
+                            onToggleQueue={toggleQueued}
                           />
                         ))}
                         {canLoadMore && onLoadMore && (
@@ -1609,6 +2305,7 @@ export function SenderFolderSidebar({
                         <SenderFolderItem
                           key={folder._id}
                           folder={folder}
+                          depth={folderDepthById.get(folder._id) ?? 0}
                           isSelected={effectiveSelectedFolderId === folder._id}
                           selectedNewsletterId={selectedNewsletterId}
                           sidebarFilter={sidebarFilter}
@@ -1628,6 +2325,9 @@ export function SenderFolderSidebar({
                           onToggleRead={handleToggleRead}
                           onArchive={handleArchive}
                           onBin={handleMoveToBin}
+                          onSnooze={handleSnooze}
+                          getIsQueued={getIsQueued}
+                          onToggleQueue={toggleQueued}
                           onHideSuccess={() => {
                             if (selectedFolderId === folder._id) {
                               onFolderSelect(null);
@@ -1641,7 +2341,7 @@ export function SenderFolderSidebar({
                       axis="y"
                       as="div"
                       layoutScroll
-                      values={localFolderOrderIds}
+                      values={visibleFolderOrderIds}
                       onReorder={handleFolderReorder}
                       className="space-y-0.5"
                     >
@@ -1649,6 +2349,7 @@ export function SenderFolderSidebar({
                         <DraggableFolderItem
                           key={folder._id}
                           folder={folder}
+                          depth={folderDepthById.get(folder._id) ?? 0}
                           isReordering={isReordering}
                           isSelected={effectiveSelectedFolderId === folder._id}
                           selectedNewsletterId={selectedNewsletterId}
@@ -1669,13 +2370,18 @@ export function SenderFolderSidebar({
                           onToggleRead={handleToggleRead}
                           onArchive={handleArchive}
                           onBin={handleMoveToBin}
+                          onSnooze={handleSnooze}
+                          getIsQueued={getIsQueued}
+                          onToggleQueue={toggleQueued}
                           onHideSuccess={() => {
                             if (selectedFolderId === folder._id) {
                               onFolderSelect(null);
                             }
                           }}
                           onDragStart={handleFolderDragStart}
-                          onDragEnd={handleFolderDragEnd}
+                          onDragEnd={(offsetX) =>
+                            handleFolderDragEnd(folder._id, offsetX)
+                          }
                         />
                       ))}
                     </Reorder.Group>
@@ -1685,6 +2391,13 @@ export function SenderFolderSidebar({
 
               {/* Management section — always-visible, pinned at bottom */}
               <ManagementSection
+                queueCount={queueItems.length}
+                queueReadMinutes={queueReadMinutes}
+                snoozedCount={
+                  snoozedCountPending
+                    ? 0
+                    : (snoozedCount ?? snoozedNewsletters.length)
+                }
                 archiveCount={
                   hiddenCountPending
                     ? 0
@@ -1696,6 +2409,8 @@ export function SenderFolderSidebar({
                     : (binnedCount ?? visibleBinnedNewsletters.length)
                 }
                 selectedFilter={selectedFilter}
+                onQueueClick={handleQueueClick}
+                onSnoozedClick={handleSnoozedClick}
                 onArchiveClick={handleHiddenClick}
                 onBinClick={handleBinClick}
               />
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { ConvexError } from "convex/values";
+import { toast } from "sonner";
+import {
+  Button,
+  Dialog,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogPanel,
+  DialogPopup,
+  DialogTitle,
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+  Input,
+  Label,
+} from "@hushletter/ui";
+import { AlarmClockOff, CalendarClock } from "lucide-react";
+import {
+  getSnoozePresets,
+  toDateTimeLocalValue,
+  type SnoozePresetId,
+} from "@/lib/snooze";
+import { m } from "@/paraglide/messages.js";
+
+interface SnoozeMenuProps {
+  /** Element rendered as the menu trigger */
+  trigger: React.ReactElement;
+  /** Set when the newsletter is already snoozed */
+  snoozedUntil?: number;
+  onSnooze: (until: number) => Promise<void>;
+  onUnsnooze?: () => Promise<void>;
+  align?: "start" | "end";
+}
+
+/**
+ * Message of a ConvexError, or the fallback for anything else
+ */
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ConvexError) {
+    return (error.data as { message?: string }).message ?? fallback;
+  }
+  return fallback;
+}
+
+/**
+ * Short local date/time for snooze labels, e.g. "Sat 8:00 AM"
+ */
+export function formatSnoozeTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * SnoozeMenu - Snooze a newsletter until a preset or custom time
+ *
+ * Presets are tomorrow morning, Saturday and next week; "Pick date & time"
+ * opens a dialog. Snoozed newsletters come back unread at the top of the
+ * inbox when the snooze ends. Success and failure are reported with toasts
+ * (custom times also show errors inline).
+ */
+export function SnoozeMenu({
+  trigger,
+  snoozedUntil,
+  onSnooze,
+  onUnsnooze,
+  align = "end",
+}: SnoozeMenuProps) {
+  const [isCustomOpen, setIsCustomOpen] = useState(false);
+  const [customValue, setCustomValue] = useState("");
+  const [customError, setCustomError] = useState<string | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  // Recomputed on every render so presets stay correct across midnight
+  const presets = getSnoozePresets(new Date());
+
+  const presetLabels: Record<SnoozePresetId, string> = {
+    tomorrow: m.snooze_tomorrow(),
+    saturday: m.snooze_saturday(),
+    nextWeek: m.snooze_nextWeek(),
+  };
+
+  const snooze = async (until: number): Promise<boolean> => {
+    setIsPending(true);
+    try {
+      await onSnooze(until);
+      toast.success(m.snooze_success({ time: formatSnoozeTime(until) }));
+      return true;
+    } catch (error) {
+      const message = getErrorMessage(error, m.snooze_error());
+      if (isCustomOpen) {
+        setCustomError(message);
+      } else {
+        toast.error(message);
+      }
+      return false;
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleUnsnooze = async () => {
+    if (!onUnsnooze) return;
+    setIsPending(true);
+    try {
+      await onUnsnooze();
+      toast.success(m.snooze_unsnoozed());
+    } catch (error) {
+      toast.error(getErrorMessage(error, m.snooze_error()));
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleOpenCustom = () => {
+    setCustomValue(toDateTimeLocalValue(presets[0].until));
+    setCustomError(null);
+    setIsCustomOpen(true);
+  };
+
+  const handleCustomSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const until = new Date(customValue).getTime();
+    if (!customValue || Number.isNaN(until)) {
+      setCustomError(m.snooze_customRequired());
+      return;
+    }
+    if (await snooze(until)) {
+      setIsCustomOpen(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger render={trigger} />
+        <DropdownMenuContent
+          align={align}
+          className="w-60"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {presets.map((preset) => (
+            <DropdownMenuItem
+              key={preset.id}
+              disabled={isPending}
+              onClick={() => void snooze(preset.until)}
+            >
+              <span className="flex-1">{presetLabels[preset.id]}</span>
+              <span className="text-xs text-muted-foreground">
+                {formatSnoozeTime(preset.until)}
+              </span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuItem disabled={isPending} onClick={handleOpenCustom}>
+            <CalendarClock className="size-4" />
+            {m.snooze_custom()}
+          </DropdownMenuItem>
+          {snoozedUntil !== undefined && onUnsnooze && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                disabled={isPending}
+                onClick={() => void handleUnsnooze()}
+              >
+                <AlarmClockOff className="size-4" />
+                {m.snooze_unsnooze()}
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isCustomOpen} onOpenChange={setIsCustomOpen}>
+        <DialogPopup onClick={(e) => e.stopPropagation()}>
+          <form
+            noValidate
+            className="flex w-full flex-col gap-4"
+            onSubmit={(e) => void handleCustomSubmit(e)}
+          >
+            <DialogHeader>
+              <DialogTitle>{m.snooze_customTitle()}</DialogTitle>
+              <DialogDescription>
+                {m.snooze_customDescription()}
+              </DialogDescription>
+            </DialogHeader>
+            <DialogPanel className="grid gap-1.5">
+              <Label htmlFor="snooze-until">{m.snooze_customLabel()}</Label>
+              <Input
+                id="snooze-until"
+                type="datetime-local"
+                value={customValue}
+                onChange={(e) => {
+                  setCustomValue(e.target.value);
+                  setCustomError(null);
+                }}
+              />
+              {customError && (
+                <p role="alert" className="text-sm text-destructive">
+                  {customError}
+                </p>
+              )}
+            </DialogPanel>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsCustomOpen(false)}
+              >
+                {m.common_cancel()}
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {m.snooze_action()}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogPopup>
+      </Dialog>
+    </>
+  );
+}
@@ -2,6 +2,7 @@ import { Tabs, TabsList, TabsTrigger, ScrollArea } from "@hushletter/ui";
 import { SenderAvatar } from "./SenderAvatar";
 import { m } from "@/paraglide/messages.js";
 import { SidebarFooter } from "./SidebarFooter";
+import { PendingConfirmationsCard } from "./PendingConfirmationsCard";
 
 /**
  * Lightweight visual stand-in for SenderFolderSidebar when the user has
@@ -59,6 +60,9 @@ export function WelcomeSidebar() {
               {m.welcome_subject()}
             </p>
           </div>
+
+          {/* Double opt-in emails from the user's first subscriptions */}
+          <PendingConfirmationsCard className="mt-3" />
         </div>
       </ScrollArea>
       <SidebarFooter />
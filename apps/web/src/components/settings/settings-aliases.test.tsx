@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+
+const mockQueryData: Record<string, unknown> = {};
+const mockCreateAlias = vi.fn();
+const mockSetAliasDisabled = vi.fn();
+const mockToastError = vi.fn();
+
+vi.mock("@convex-dev/react-query", () => ({
+  convexQuery: (api: unknown, args: unknown) => ({ queryKey: [api, args] }),
+}));
+
+vi.mock("@tanstack/react-query", async () => {
+  const actual = await vi.importActual("@tanstack/react-query");
+  return {
+    ...actual,
+    useQuery: ({ queryKey }: { queryKey: [string, unknown] }) => ({
+      data: mockQueryData[queryKey[0]],
+    }),
+  };
+});
+
+vi.mock("convex/react", () => ({
+  useMutation: (apiFn: unknown) =>
+    apiFn === "setEmailAliasDisabled" ? mockSetAliasDisabled : mockCreateAlias,
+}));
+
+vi.mock("@hushletter/backend", () => ({
+  api: {
+    folders: { listFolders: "listFolders" },
+    emailAliases: {
+      listEmailAliases: "listEmailAliases",
+      createEmailAlias: "createEmailAlias",
+      setEmailAliasDisabled: "setEmailAliasDisabled",
+    },
+  },
+}));
+
+vi.mock("sonner", () => ({
+  toast: {
+    error: (...args: unknown[]) => mockToastError(...args),
+  },
+}));
+
+import { SettingsAliases } from "./settings-aliases";
+
+describe("SettingsAliases", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQueryData.listFolders = [{ _id: "folder_1", name: "Shopping" }];
+    mockQueryData.listEmailAliases = [
+      {
+        _id: "alias_1",
+        address: "shop.a1b2c3d4@hushletter.com",
+        label: "Shop",
+        expectedSender: "shop.example.com",
+        isDisabled: false,
+        deliveryCount: 12,
+        unexpectedSenderCount: 4,
+        rejectedCount: 0,
+      },
+      {
+        _id: "alias_2",
+        address: "forum.e5f6g7h8@hushletter.com",
+        isDisabled: true,
+        deliveryCount: 3,
+        unexpectedSenderCount: 0,
+        rejectedCount: 7,
+      },
+    ];
+  });
+
+  it("lists aliases with their delivery counts", () => {
+    render(<SettingsAliases />);
+
+    expect(screen.getByText("shop.a1b2c3d4@hushletter.com")).toBeInTheDocument();
+    expect(screen.getByText("Shop · expects shop.example.com")).toBeInTheDocument();
+    expect(screen.getByText("· 4 from unexpected senders", { exact: false })).toBeInTheDocument();
+    expect(screen.getByText("3 delivered · 7 rejected")).toBeInTheDocument();
+    expect(screen.getByText("Disabled")).toBeInTheDocument();
+  });
+
+  it("creates an alias for an expected sender", async () => {
+    const user = userEvent.setup();
+    mockCreateAlias.mockResolvedValue({ aliasId: "alias_3", address: "news.x@hushletter.com" });
+
+    render(<SettingsAliases />);
+    await user.type(screen.getByLabelText("Label, e.g. Shop"), "News");
+    await user.type(
+      screen.getByLabelText("Expected sender (optional)"),
+      "news.example.com",
+    );
+    await user.click(screen.getByRole("button", { name: "Create alias" }));
+
+    expect(mockCreateAlias).toHaveBeenCalledWith({
+      label: "News",
+      expectedSender: "news.example.com",
+      folderId: undefined,
+    });
+  });
+
+  it("shows an error when creating fails", async () => {
+    const user = userEvent.setup();
+    mockCreateAlias.mockRejectedValue(new Error("Expected sender must be"));
+
+    render(<SettingsAliases />);
+    await user.click(screen.getByRole("button", { name: "Create alias" }));
+
+    await waitFor(() => {
+      expect(mockToastError).toHaveBeenCalledWith("Failed to create the alias");
+    });
+  });
+
+  it("disables an alias", async () => {
+    const user = userEvent.setup();
+    mockSetAliasDisabled.mockResolvedValue({ success: true });
+
+    render(<SettingsAliases />);
+    await user.click(
+      screen.getByRole("switch", {
+        name: "Receive mail at shop.a1b2c3d4@hushletter.com",
+      }),
+    );
+
+    expect(mockSetAliasDisabled).toHaveBeenCalledWith({
+      aliasId: "alias_1",
+      disabled: true,
+    });
+  });
+});
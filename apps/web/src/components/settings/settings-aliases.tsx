@@ -0,0 +1,226 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation } from "convex/react";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { toast } from "sonner";
+import {
+  Badge,
+  Button,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Switch,
+} from "@hushletter/ui";
+import { Check, Copy } from "lucide-react";
+import { m } from "@/paraglide/messages.js";
+
+/** Select value for "no folder" (route by sender as usual) */
+const NO_FOLDER = "none";
+
+type EmailAlias = {
+  _id: Id<"emailAliases">;
+  address: string;
+  label?: string;
+  expectedSender?: string;
+  folderName?: string;
+  isDisabled: boolean;
+  deliveryCount: number;
+  unexpectedSenderCount: number;
+  rejectedCount: number;
+};
+
+/**
+ * SettingsAliases - Create and burn disposable alias addresses
+ *
+ * Each alias is meant for a single subscription. Delivery counts (and mail
+ * from unexpected senders) show which alias started getting spam, so users
+ * can disable just that address - mail to it is then rejected.
+ */
+export const SettingsAliases = () => {
+  const { data: aliasesData } = useQuery(
+    convexQuery(api.emailAliases.listEmailAliases, {}),
+  );
+  const { data: foldersData } = useQuery(convexQuery(api.folders.listFolders, {}));
+  const createAlias = useMutation(api.emailAliases.createEmailAlias);
+  const setAliasDisabled = useMutation(api.emailAliases.setEmailAliasDisabled);
+  const [label, setLabel] = useState("");
+  const [expectedSender, setExpectedSender] = useState("");
+  const [folderId, setFolderId] = useState<string>(NO_FOLDER);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<Id<"emailAliases"> | null>(null);
+
+  const aliases = (aliasesData ?? []) as EmailAlias[];
+  const folders = (foldersData ?? []) as { _id: Id<"folders">; name: string }[];
+  const selectedFolder = folders.find((folder) => folder._id === folderId);
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsCreating(true);
+    try {
+      await createAlias({
+        label: label.trim() || undefined,
+        expectedSender: expectedSender.trim() || undefined,
+        folderId:
+          folderId === NO_FOLDER ? undefined : (folderId as Id<"folders">),
+      });
+      setLabel("");
+      setExpectedSender("");
+      setFolderId(NO_FOLDER);
+    } catch (error) {
+      console.error("[SettingsAliases] Failed to create alias:", error);
+      toast.error(m.settings_aliasCreateFailed());
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleToggle = async (alias: EmailAlias, enabled: boolean) => {
+    try {
+      await setAliasDisabled({ aliasId: alias._id, disabled: !enabled });
+    } catch (error) {
+      console.error("[SettingsAliases] Failed to update alias:", error);
+      toast.error(m.settings_aliasSaveFailed());
+    }
+  };
+
+  const handleCopy = async (alias: EmailAlias) => {
+    await navigator.clipboard.writeText(alias.address);
+    setCopiedId(alias._id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-0.5">
+        <Label className="text-sm font-medium">{m.settings_aliasTitle()}</Label>
+        <p className="text-xs text-muted-foreground">
+          {m.settings_aliasDescription()}
+        </p>
+      </div>
+
+      <form className="grid gap-2 sm:grid-cols-[1fr_1fr_160px_auto]" onSubmit={handleCreate}>
+        <Input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder={m.settings_aliasLabelPlaceholder()}
+          aria-label={m.settings_aliasLabelPlaceholder()}
+          className="text-xs!"
+        />
+        <Input
+          value={expectedSender}
+          onChange={(e) => setExpectedSender(e.target.value)}
+          placeholder={m.settings_aliasSenderPlaceholder()}
+          aria-label={m.settings_aliasSenderPlaceholder()}
+          className="font-mono text-xs!"
+        />
+        <Select
+          value={folderId}
+          onValueChange={(value) => setFolderId(value as string)}
+        >
+          <SelectTrigger aria-label={m.settings_aliasFolderLabel()}>
+            <SelectValue>
+              {selectedFolder?.name ?? m.settings_subAddressNoFolder()}
+            </SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_FOLDER}>
+              {m.settings_subAddressNoFolder()}
+            </SelectItem>
+            {folders.map((folder) => (
+              <SelectItem key={folder._id} value={folder._id}>
+                {folder.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit" variant="outline" disabled={isCreating}>
+          {m.settings_aliasCreate()}
+        </Button>
+      </form>
+
+      {aliases.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {m.settings_aliasEmpty()}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {aliases.map((alias) => (
+            <li
+              key={alias._id}
+              className="flex items-center gap-3 rounded-md border p-3"
+            >
+              <div className="min-w-0 flex-1 space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <p
+                    className={`truncate font-mono text-xs font-medium ${alias.isDisabled ? "text-muted-foreground line-through" : ""}`}
+                  >
+                    {alias.address}
+                  </p>
+                  {alias.isDisabled && (
+                    <Badge variant="secondary">{m.settings_aliasDisabled()}</Badge>
+                  )}
+                </div>
+                {(alias.label || alias.expectedSender || alias.folderName) && (
+                  <p className="truncate text-xs text-muted-foreground">
+                    {[
+                      alias.label,
+                      alias.expectedSender &&
+                        m.settings_aliasExpectedSender({
+                          sender: alias.expectedSender,
+                        }),
+                      alias.folderName,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {m.settings_aliasDeliveryCount({ count: alias.deliveryCount })}
+                  {alias.unexpectedSenderCount > 0 && (
+                    <span className="text-amber-600 dark:text-amber-500">
+                      {` · ${m.settings_aliasUnexpectedCount({
+                        count: alias.unexpectedSenderCount,
+                      })}`}
+                    </span>
+                  )}
+                  {alias.rejectedCount > 0 &&
+                    ` · ${m.settings_aliasRejectedCount({
+                      count: alias.rejectedCount,
+                    })}`}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="shrink-0"
+                onClick={() => void handleCopy(alias)}
+                aria-label={m.settings_aliasCopy({ address: alias.address })}
+              >
+                {copiedId === alias._id ? (
+                  <Check className="size-4 text-emerald-500" />
+                ) : (
+                  <Copy className="size-4" />
+                )}
+              </Button>
+              <Switch
+                checked={!alias.isDisabled}
+                onCheckedChange={(checked) => void handleToggle(alias, checked)}
+                aria-label={m.settings_aliasEnabledLabel({
+                  address: alias.address,
+                })}
+              />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -23,13 +23,23 @@ type EntitlementsData = {
   unlockedCap: number;
   hardCap: number;
   aiDailyLimit: number;
+  attachmentStorageCapBytes?: number;
   usage?: {
     totalStored: number | null;
     unlockedStored: number | null;
     lockedStored: number | null;
+    attachmentBytesStored?: number | null;
   };
 };
 
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB"];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return `${(bytes / Math.pow(k, i)).toFixed(i === 0 ? 0 : 1)} ${sizes[i]}`;
+}
+
 export function SettingsBilling() {
   const { data: entitlementsData, isPending } = useQuery(
     convexQuery(api.entitlements.getEntitlements, {}),
@@ -61,6 +71,18 @@ export function SettingsBilling() {
   const lockedStored = entitlements?.usage?.lockedStored ?? null;
   const unlockedCap = entitlements?.unlockedCap ?? 1000;
   const aiDailyLimit = entitlements?.aiDailyLimit ?? 50;
+  const attachmentBytesStored = entitlements?.usage?.attachmentBytesStored ?? 0;
+  const attachmentStorageCapBytes = entitlements?.attachmentStorageCapBytes ?? null;
+  const attachmentPct =
+    typeof attachmentStorageCapBytes === "number" && attachmentStorageCapBytes > 0
+      ? Math.min(
+          100,
+          Math.max(
+            0,
+            Math.round((attachmentBytesStored / attachmentStorageCapBytes) * 100),
+          ),
+        )
+      : null;
   const at95 =
     typeof unlockedStored === "number" &&
     unlockedStored >= Math.floor(unlockedCap * 0.95);
@@ -160,6 +182,37 @@ export function SettingsBilling() {
               </div>
             </div> */}
 
+            {typeof attachmentStorageCapBytes === "number" && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground flex items-center gap-1">
+                    Attachment storage
+                    <Tooltip>
+                      <TooltipTrigger>
+                        <InfoIcon className="h-4 w-4" />
+                      </TooltipTrigger>
+                      <TooltipContent className="max-w-xs">
+                        Files sent with your newsletters (PDFs, slides, calendar
+                        invites) and kept original emails. Once full, new
+                        attachments and originals are no longer saved, but the
+                        newsletters still arrive.
+                      </TooltipContent>
+                    </Tooltip>
+                  </span>
+                  <span className="tabular-nums">
+                    {formatBytes(attachmentBytesStored)}/
+                    {formatBytes(attachmentStorageCapBytes)}
+                  </span>
+                </div>
+                <div className="h-2 w-full rounded bg-muted overflow-hidden">
+                  <div
+                    className={`h-full ${(attachmentPct ?? 0) >= 95 ? "bg-amber-500" : "bg-primary"}`}
+                    style={{ width: `${attachmentPct ?? 0}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
             {typeof lockedStored === "number" && (
               <div className="text-sm text-muted-foreground">
                 Locked newsletters:{" "}
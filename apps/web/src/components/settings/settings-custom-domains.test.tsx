@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { ConvexError } from "convex/values";
+
+const mockQueryData: Record<string, unknown> = {};
+const mockAddDomain = vi.fn();
+const mockRemoveDomain = vi.fn();
+const mockVerifyDomain = vi.fn();
+const mockToastError = vi.fn();
+const mockToastSuccess = vi.fn();
+
+vi.mock("@convex-dev/react-query", () => ({
+  convexQuery: (api: unknown, args: unknown) => ({ queryKey: [api, args] }),
+}));
+
+vi.mock("@tanstack/react-query", async () => {
+  const actual = await vi.importActual("@tanstack/react-query");
+  return {
+    ...actual,
+    useQuery: ({ queryKey }: { queryKey: [string, unknown] }) => ({
+      data: mockQueryData[queryKey[0]],
+    }),
+  };
+});
+
+vi.mock("convex/react", () => ({
+  useMutation: (apiFn: unknown) =>
+    apiFn === "removeCustomDomain" ? mockRemoveDomain : mockAddDomain,
+  useAction: () => mockVerifyDomain,
+}));
+
+vi.mock("@hushletter/backend", () => ({
+  api: {
+    entitlements: { getEntitlements: "getEntitlements" },
+    customDomains: {
+      listCustomDomains: "listCustomDomains",
+      addCustomDomain: "addCustomDomain",
+      removeCustomDomain: "removeCustomDomain",
+      verifyCustomDomain: "verifyCustomDomain",
+    },
+  },
+}));
+
+vi.mock("sonner", () => ({
+  toast: {
+    error: (...args: unknown[]) => mockToastError(...args),
+    success: (...args: unknown[]) => mockToastSuccess(...args),
+  },
+}));
+
+import { SettingsCustomDomains } from "./settings-custom-domains";
+
+describe("SettingsCustomDomains", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQueryData.getEntitlements = { isPro: true };
+    mockQueryData.listCustomDomains = [
+      {
+        _id: "domain_1",
+        domain: "ourcompany.com",
+        status: "verified",
+        recordName: "_hushletter.ourcompany.com",
+        recordValue: "hushletter-verify=aaa",
+      },
+      {
+        _id: "domain_2",
+        domain: "reading.example.org",
+        status: "failed",
+        lastError: "No TXT record found at _hushletter.reading.example.org",
+        recordName: "_hushletter.reading.example.org",
+        recordValue: "hushletter-verify=bbb",
+      },
+    ];
+  });
+
+  it("shows each domain's status and the record to create", () => {
+    render(<SettingsCustomDomains />);
+
+    expect(screen.getByText("Verified")).toBeInTheDocument();
+    expect(screen.getByText("Verification failed")).toBeInTheDocument();
+    expect(screen.getByText("hushletter-verify=bbb")).toBeInTheDocument();
+    expect(
+      screen.getByText("No TXT record found at _hushletter.reading.example.org"),
+    ).toBeInTheDocument();
+    // Verified domains don't need their record anymore
+    expect(screen.queryByText("hushletter-verify=aaa")).not.toBeInTheDocument();
+  });
+
+  it("adds a domain and surfaces backend errors", async () => {
+    const user = userEvent.setup();
+    mockAddDomain.mockRejectedValue(
+      new ConvexError({
+        code: "CONFLICT",
+        message: "This domain is already used by another account",
+      }),
+    );
+
+    render(<SettingsCustomDomains />);
+    await user.type(screen.getByLabelText("yourcompany.com"), "taken.com");
+    await user.click(screen.getByRole("button", { name: "Add domain" }));
+
+    expect(mockAddDomain).toHaveBeenCalledWith({ domain: "taken.com" });
+    await waitFor(() => {
+      expect(mockToastError).toHaveBeenCalledWith(
+        "This domain is already used by another account",
+      );
+    });
+  });
+
+  it("verifies a domain", async () => {
+    const user = userEvent.setup();
+    mockVerifyDomain.mockResolvedValue({ status: "verified" });
+
+    render(<SettingsCustomDomains />);
+    await user.click(screen.getByRole("button", { name: "Verify" }));
+
+    expect(mockVerifyDomain).toHaveBeenCalledWith({ domainId: "domain_2" });
+    await waitFor(() => {
+      expect(mockToastSuccess).toHaveBeenCalledWith(
+        "reading.example.org is verified",
+      );
+    });
+  });
+
+  it("hides the form for free users", () => {
+    mockQueryData.getEntitlements = { isPro: false };
+    mockQueryData.listCustomDomains = [];
+
+    render(<SettingsCustomDomains />);
+
+    expect(
+      screen.getByText("Custom domains are available with Hushletter Pro."),
+    ).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Add domain" })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,205 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useAction, useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Badge, Button, Input, Label } from "@hushletter/ui";
+import { Trash2 } from "lucide-react";
+import { m } from "@/paraglide/messages.js";
+
+type CustomDomain = {
+  _id: Id<"customDomains">;
+  domain: string;
+  status: "pending" | "verified" | "failed";
+  lastError?: string;
+  recordName: string;
+  recordValue: string;
+};
+
+/**
+ * Message of a ConvexError, or the fallback for anything else
+ */
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ConvexError) {
+    return (error.data as { message?: string }).message ?? fallback;
+  }
+  return fallback;
+}
+
+function StatusBadge({ status }: { status: CustomDomain["status"] }) {
+  if (status === "verified") {
+    return <Badge>{m.settings_customDomainVerified()}</Badge>;
+  }
+  if (status === "failed") {
+    return (
+      <Badge variant="destructive">{m.settings_customDomainFailed()}</Badge>
+    );
+  }
+  return <Badge variant="secondary">{m.settings_customDomainPending()}</Badge>;
+}
+
+/**
+ * SettingsCustomDomains - Receive newsletters at your own domain (Pro)
+ *
+ * Lists each domain with its DNS verification status and, until it is
+ * verified, the TXT record to create. Mail to any address at a verified
+ * domain is delivered like mail to the dedicated address.
+ */
+export const SettingsCustomDomains = () => {
+  const { data: entitlements } = useQuery(
+    convexQuery(api.entitlements.getEntitlements, {}),
+  );
+  const { data: domainsData } = useQuery(
+    convexQuery(api.customDomains.listCustomDomains, {}),
+  );
+  const addDomain = useMutation(api.customDomains.addCustomDomain);
+  const removeDomain = useMutation(api.customDomains.removeCustomDomain);
+  const verifyDomain = useAction(api.customDomains.verifyCustomDomain);
+  const [newDomain, setNewDomain] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [verifyingId, setVerifyingId] = useState<Id<"customDomains"> | null>(
+    null,
+  );
+
+  const isPro = Boolean((entitlements as { isPro?: boolean } | undefined)?.isPro);
+  const domains = (domainsData ?? []) as CustomDomain[];
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const domain = newDomain.trim();
+    if (!domain) return;
+
+    setIsAdding(true);
+    try {
+      await addDomain({ domain });
+      setNewDomain("");
+    } catch (error) {
+      console.error("[SettingsCustomDomains] Failed to add domain:", error);
+      toast.error(getErrorMessage(error, m.settings_customDomainAddFailed()));
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleVerify = async (item: CustomDomain) => {
+    setVerifyingId(item._id);
+    try {
+      const result = await verifyDomain({ domainId: item._id });
+      if (result.status === "verified") {
+        toast.success(m.settings_customDomainVerifiedToast({ domain: item.domain }));
+      } else {
+        toast.error(result.error ?? m.settings_customDomainVerifyFailed());
+      }
+    } catch (error) {
+      console.error("[SettingsCustomDomains] Failed to verify domain:", error);
+      toast.error(getErrorMessage(error, m.settings_customDomainVerifyFailed()));
+    } finally {
+      setVerifyingId(null);
+    }
+  };
+
+  const handleRemove = async (item: CustomDomain) => {
+    try {
+      await removeDomain({ domainId: item._id });
+    } catch (error) {
+      console.error("[SettingsCustomDomains] Failed to remove domain:", error);
+      toast.error(m.settings_customDomainRemoveFailed());
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-0.5">
+        <Label className="text-sm font-medium">
+          {m.settings_customDomainTitle()}
+        </Label>
+        <p className="text-xs text-muted-foreground">
+          {m.settings_customDomainDescription()}
+        </p>
+      </div>
+
+      {isPro ? (
+        <form className="flex items-center gap-2" onSubmit={handleAdd}>
+          <Input
+            value={newDomain}
+            onChange={(e) => setNewDomain(e.target.value)}
+            placeholder={m.settings_customDomainPlaceholder()}
+            aria-label={m.settings_customDomainPlaceholder()}
+            className="font-mono text-xs!"
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            disabled={isAdding || newDomain.trim().length === 0}
+          >
+            {m.settings_customDomainAdd()}
+          </Button>
+        </form>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {m.settings_customDomainProOnly()}
+        </p>
+      )}
+
+      {domains.length > 0 && (
+        <ul className="space-y-2">
+          {domains.map((item) => (
+            <li key={item._id} className="space-y-3 rounded-md border p-3">
+              <div className="flex items-center gap-3">
+                <p className="min-w-0 flex-1 truncate font-mono text-xs font-medium">
+                  {item.domain}
+                </p>
+                <StatusBadge status={item.status} />
+                {item.status !== "verified" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={verifyingId === item._id}
+                    onClick={() => void handleVerify(item)}
+                  >
+                    {m.settings_customDomainVerify()}
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="shrink-0"
+                  onClick={() => void handleRemove(item)}
+                  aria-label={m.settings_customDomainRemove({
+                    domain: item.domain,
+                  })}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </div>
+
+              {item.status !== "verified" && (
+                <div className="space-y-1 text-xs text-muted-foreground">
+                  <p>{m.settings_customDomainInstructions()}</p>
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 rounded bg-muted p-2 font-mono">
+                    <dt>{m.settings_customDomainRecordName()}</dt>
+                    <dd className="break-all text-foreground">
+                      {item.recordName}
+                    </dd>
+                    <dt>{m.settings_customDomainRecordValue()}</dt>
+                    <dd className="break-all text-foreground">
+                      {item.recordValue}
+                    </dd>
+                  </dl>
+                  {item.lastError && (
+                    <p className="text-destructive">{item.lastError}</p>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -19,6 +19,10 @@ import {
   Trash2,
   CreditCard,
   Keyboard,
+  Mail,
+  Tag,
+  ListFilter,
+  Sparkles,
 } from "lucide-react";
 import { SettingsProfile } from "./settings-profile";
 import { SettingsPassword } from "./settings-password";
@@ -26,6 +30,11 @@ import { SettingsNotifications } from "./settings-notifications";
 import { SettingsAppearance } from "./settings-appearance";
 import { SettingsBilling } from "./settings-billing";
 import { SettingsHotkeys } from "./settings-hotkeys";
+import { SettingsEmail } from "./settings-email";
+import { SettingsTags } from "./settings-tags";
+import { SettingsRules } from "./settings-rules";
+import { SettingsFolderSuggestions } from "./settings-folder-suggestions";
+import { SettingsDigest } from "./settings-digest";
 import { m } from "@/paraglide/messages.js";
 
 const tabs = [
@@ -33,6 +42,10 @@ const tabs = [
   { id: "billing", label: "Billing", icon: CreditCard },
   { id: "hotkeys", label: "Hotkeys", icon: Keyboard },
   { id: "password", label: "Password", icon: Lock },
+  { id: "email", label: "Email", icon: Mail },
+  { id: "tags", label: "Tags", icon: Tag },
+  { id: "rules", label: "Rules", icon: ListFilter },
+  { id: "digest", label: "Digest", icon: Sparkles },
   { id: "notifications", label: "Notifications", icon: Bell },
   { id: "appearance", label: "Appearance", icon: Palette },
   /* { id: "hidden-folders", label: "Hidden folders", icon: FolderX }, */
@@ -78,7 +91,17 @@ export const SettingsDialog = () => {
                     }`}
                   >
                     <Icon className="size-4 shrink-0" />
-                    {tab.id === "hotkeys" ? m.settings_hotkeysTab() : tab.label}
+                    {tab.id === "hotkeys"
+                      ? m.settings_hotkeysTab()
+                      : tab.id === "email"
+                        ? m.settings_emailTab()
+                        : tab.id === "tags"
+                          ? m.tags_settingsTab()
+                          : tab.id === "rules"
+                            ? m.rules_settingsTab()
+                            : tab.id === "digest"
+                              ? m.digest_settingsTab()
+                              : tab.label}
                   </button>
                 );
               })}
@@ -96,6 +119,16 @@ export const SettingsDialog = () => {
             {activeTab === "billing" && <SettingsBilling />}
             {activeTab === "hotkeys" && <SettingsHotkeys />}
             {activeTab === "password" && <SettingsPassword />}
+            {activeTab === "email" && <SettingsEmail />}
+            {activeTab === "tags" && <SettingsTags />}
+            {activeTab === "rules" && (
+              <div className="space-y-6">
+                <SettingsFolderSuggestions />
+                <Separator />
+                <SettingsRules />
+              </div>
+            )}
+            {activeTab === "digest" && <SettingsDigest />}
             {activeTab === "notifications" && <SettingsNotifications />}
             {activeTab === "appearance" && <SettingsAppearance />}
             {/* {activeTab === "hidden-folders" && (
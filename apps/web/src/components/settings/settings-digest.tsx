@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { Link } from "@tanstack/react-router";
+import { api } from "@hushletter/backend";
+import { toast } from "sonner";
+import {
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Separator,
+} from "@hushletter/ui";
+import { m } from "@/paraglide/messages.js";
+
+type DigestFrequency = "daily" | "weekly";
+
+/**
+ * Message of a ConvexError, or the fallback for anything else
+ */
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ConvexError) {
+    return (error.data as { message?: string }).message ?? fallback;
+  }
+  return fallback;
+}
+
+/**
+ * SettingsDigest - Daily or weekly AI briefing of new newsletters (Pro)
+ */
+export const SettingsDigest = () => {
+  const { data: userData } = useQuery(convexQuery(api.auth.getCurrentUser, {}));
+  const { data: entitlements } = useQuery(
+    convexQuery(api.entitlements.getEntitlements, {}),
+  );
+  const setDigestFrequency = useMutation(api.digests.setDigestFrequency);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isPro = Boolean((entitlements as { isPro?: boolean } | undefined)?.isPro);
+  const frequency =
+    (userData as { digestFrequency?: DigestFrequency | null } | null | undefined)
+      ?.digestFrequency ?? "off";
+
+  const handleChange = async (value: DigestFrequency | "off") => {
+    setIsSaving(true);
+    try {
+      await setDigestFrequency({
+        frequency: value === "off" ? undefined : value,
+      });
+    } catch (error) {
+      console.error("[SettingsDigest] Failed to update frequency:", error);
+      toast.error(getErrorMessage(error, m.digest_saveFailed()));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">{m.digest_settingsTitle()}</h2>
+        <p className="text-sm text-muted-foreground">
+          {m.digest_settingsDescription()}
+        </p>
+      </div>
+
+      <Separator />
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <Label className="text-sm font-medium">{m.digest_frequency()}</Label>
+          {!isPro && (
+            <p className="text-xs text-muted-foreground">
+              {m.digest_proRequired()}
+            </p>
+          )}
+        </div>
+        <Select
+          value={frequency}
+          disabled={userData === undefined || isSaving || (!isPro && frequency === "off")}
+          onValueChange={(v) =>
+            v !== null && void handleChange(v as DigestFrequency | "off")
+          }
+        >
+          <SelectTrigger className="w-[160px]" aria-label={m.digest_frequency()}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="off">{m.digest_frequencyOff()}</SelectItem>
+            <SelectItem value="daily" disabled={!isPro}>
+              {m.digest_frequencyDaily()}
+            </SelectItem>
+            <SelectItem value="weekly" disabled={!isPro}>
+              {m.digest_frequencyWeekly()}
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Link
+        to="/digests"
+        className="inline-block text-sm font-medium text-primary hover:underline"
+      >
+        {m.digest_viewDigests()}
+      </Link>
+    </div>
+  );
+};
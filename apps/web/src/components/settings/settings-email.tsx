@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation } from "convex/react";
+import { api } from "@hushletter/backend";
+import { toast } from "sonner";
+import { Label, Separator, Switch } from "@hushletter/ui/components";
+import { m } from "@/paraglide/messages.js";
+import { SettingsSubAddresses } from "./settings-sub-addresses";
+import { SettingsAliases } from "./settings-aliases";
+import { SettingsCustomDomains } from "./settings-custom-domains";
+
+export const SettingsEmail = () => {
+  const { data: userData } = useQuery(convexQuery(api.auth.getCurrentUser, {}));
+  const setKeepOriginalEmails = useMutation(
+    api.rawEmails.setKeepOriginalEmails,
+  );
+  const setQuarantineUnauthenticatedMail = useMutation(
+    api.quarantine.setQuarantineUnauthenticatedMail,
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const settings = userData as
+    | {
+        keepOriginalEmails?: boolean;
+        quarantineUnauthenticatedMail?: boolean;
+      }
+    | null
+    | undefined;
+  const keepOriginalEmails = settings?.keepOriginalEmails ?? false;
+  const quarantineUnauthenticatedMail =
+    settings?.quarantineUnauthenticatedMail ?? false;
+
+  const handleToggle = async (
+    save: (args: { enabled: boolean }) => Promise<unknown>,
+    enabled: boolean,
+  ) => {
+    setIsSaving(true);
+    try {
+      await save({ enabled });
+    } catch (error) {
+      console.error("[SettingsEmail] Failed to update setting:", error);
+      toast.error(m.settings_emailSaveFailed());
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">{m.settings_emailTitle()}</h2>
+        <p className="text-sm text-muted-foreground">
+          {m.settings_emailDescription()}
+        </p>
+      </div>
+
+      <Separator />
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <Label className="text-sm font-medium">
+            {m.settings_emailKeepOriginals()}
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            {m.settings_emailKeepOriginalsDescription()}
+          </p>
+        </div>
+        <Switch
+          checked={keepOriginalEmails}
+          disabled={userData === undefined || isSaving}
+          onCheckedChange={(checked) =>
+            void handleToggle(setKeepOriginalEmails, checked)
+          }
+          aria-label={m.settings_emailKeepOriginals()}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <Label className="text-sm font-medium">
+            {m.settings_emailQuarantine()}
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            {m.settings_emailQuarantineDescription()}
+          </p>
+        </div>
+        <Switch
+          checked={quarantineUnauthenticatedMail}
+          disabled={userData === undefined || isSaving}
+          onCheckedChange={(checked) =>
+            void handleToggle(setQuarantineUnauthenticatedMail, checked)
+          }
+          aria-label={m.settings_emailQuarantine()}
+        />
+      </div>
+
+      <Separator />
+
+      <SettingsSubAddresses />
+
+      <Separator />
+
+      <SettingsAliases />
+
+      <Separator />
+
+      <SettingsCustomDomains />
+    </div>
+  );
+};
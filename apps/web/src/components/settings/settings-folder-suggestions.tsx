@@ -0,0 +1,73 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@hushletter/backend";
+import { toast } from "sonner";
+import { Label, Switch } from "@hushletter/ui";
+import { m } from "@/paraglide/messages.js";
+
+/**
+ * Message of a ConvexError, or the fallback for anything else
+ */
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ConvexError) {
+    return (error.data as { message?: string }).message ?? fallback;
+  }
+  return fallback;
+}
+
+/**
+ * SettingsFolderSuggestions - AI folder suggestions for new senders (Pro)
+ */
+export const SettingsFolderSuggestions = () => {
+  const { data: userData } = useQuery(convexQuery(api.auth.getCurrentUser, {}));
+  const { data: entitlements } = useQuery(
+    convexQuery(api.entitlements.getEntitlements, {}),
+  );
+  const setAutoCategorizeSenders = useMutation(
+    api.folderSuggestions.setAutoCategorizeSenders,
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isPro = Boolean((entitlements as { isPro?: boolean } | undefined)?.isPro);
+  const enabled =
+    (userData as { autoCategorizeSenders?: boolean } | null | undefined)
+      ?.autoCategorizeSenders ?? false;
+
+  const handleToggle = async (checked: boolean) => {
+    setIsSaving(true);
+    try {
+      await setAutoCategorizeSenders({ enabled: checked });
+    } catch (error) {
+      console.error("[SettingsFolderSuggestions] Failed to update setting:", error);
+      toast.error(getErrorMessage(error, m.folderSuggestions_saveFailed()));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div className="space-y-0.5">
+        <Label className="text-sm font-medium">
+          {m.folderSuggestions_settingsLabel()}
+        </Label>
+        <p className="text-xs text-muted-foreground">
+          {isPro
+            ? m.folderSuggestions_settingsDescription()
+            : m.folderSuggestions_proRequired()}
+        </p>
+      </div>
+      <Switch
+        checked={enabled}
+        disabled={userData === undefined || isSaving || (!isPro && !enabled)}
+        onCheckedChange={(checked) => void handleToggle(checked)}
+        aria-label={m.folderSuggestions_settingsLabel()}
+      />
+    </div>
+  );
+};
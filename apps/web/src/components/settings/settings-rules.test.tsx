@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { ConvexError } from "convex/values";
+
+const mockQueryData: Record<string, unknown> = {};
+const mockMutations: Record<string, ReturnType<typeof vi.fn>> = {
+  createRule: vi.fn(),
+  updateRule: vi.fn(),
+  setRuleEnabled: vi.fn(),
+  reorderRules: vi.fn(),
+  deleteRule: vi.fn(),
+  runRuleOnExistingMail: vi.fn(),
+};
+const mockToastError = vi.fn();
+const mockToastSuccess = vi.fn();
+
+vi.mock("@convex-dev/react-query", () => ({
+  convexQuery: (api: unknown, args: unknown) => ({ queryKey: [api, args] }),
+}));
+
+vi.mock("@tanstack/react-query", async () => {
+  const actual = await vi.importActual("@tanstack/react-query");
+  return {
+    ...actual,
+    useQuery: ({ queryKey }: { queryKey: [string, unknown] }) => ({
+      data: queryKey[1] === "skip" ? undefined : mockQueryData[queryKey[0]],
+    }),
+  };
+});
+
+vi.mock("convex/react", () => ({
+  useMutation: (name: string) => mockMutations[name],
+}));
+
+vi.mock("@hushletter/backend", () => ({
+  api: {
+    newsletterRules: {
+      listRules: "listRules",
+      previewRule: "previewRule",
+      createRule: "createRule",
+      updateRule: "updateRule",
+      setRuleEnabled: "setRuleEnabled",
+      reorderRules: "reorderRules",
+      deleteRule: "deleteRule",
+      runRuleOnExistingMail: "runRuleOnExistingMail",
+    },
+    folders: { listFolders: "listFolders" },
+    tags: { listTags: "listTags" },
+  },
+}));
+
+vi.mock("sonner", () => ({
+  toast: {
+    success: (...args: unknown[]) => mockToastSuccess(...args),
+    error: (...args: unknown[]) => mockToastError(...args),
+  },
+}));
+
+import { SettingsRules } from "./settings-rules";
+
+describe("SettingsRules", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQueryData.listRules = [
+      {
+        _id: "rule_1",
+        name: "Tech",
+        isEnabled: true,
+        conditions: { domain: "example.com" },
+        actions: { folderId: "folder_1", markRead: true },
+        folderName: "Tech",
+        matchCount: 3,
+      },
+      {
+        _id: "rule_2",
+        name: "Promos",
+        isEnabled: false,
+        conditions: { subjectPattern: "sale" },
+        actions: { bin: true },
+        matchCount: 0,
+      },
+    ];
+    mockQueryData.listFolders = [{ _id: "folder_1", name: "Tech" }];
+    mockQueryData.listTags = [];
+    mockQueryData.previewRule = {
+      scanned: 200,
+      matchCount: 2,
+      matches: [
+        {
+          _id: "n1",
+          subject: "Weekly deals",
+          senderEmail: "shop@example.com",
+          receivedAt: 1,
+        },
+      ],
+    };
+  });
+
+  it("toggles, reorders, runs and deletes rules", async () => {
+    const user = userEvent.setup();
+    render(<SettingsRules />);
+
+    expect(screen.getByText("example.com → Tech, mark as read")).toBeTruthy();
+
+    await user.click(screen.getByRole("switch", { name: /enable promos/i }));
+    expect(mockMutations.setRuleEnabled).toHaveBeenCalledWith({
+      ruleId: "rule_2",
+      isEnabled: true,
+    });
+
+    await user.click(screen.getByRole("button", { name: /move promos up/i }));
+    expect(mockMutations.reorderRules).toHaveBeenCalledWith({
+      orderedRuleIds: ["rule_2", "rule_1"],
+    });
+
+    const [runTech] = screen.getAllByRole("button", {
+      name: /run on existing mail/i,
+    });
+    await user.click(runTech);
+    await waitFor(() => {
+      expect(mockToastSuccess).toHaveBeenCalled();
+    });
+    expect(mockMutations.runRuleOnExistingMail).toHaveBeenCalledWith({
+      ruleId: "rule_1",
+    });
+
+    await user.click(screen.getByRole("button", { name: /delete promos/i }));
+    expect(mockMutations.deleteRule).toHaveBeenCalledWith({
+      ruleId: "rule_2",
+    });
+  });
+
+  it("previews and creates a rule, surfacing validation errors", async () => {
+    const user = userEvent.setup();
+    mockMutations.createRule.mockRejectedValueOnce(
+      new ConvexError({
+        code: "VALIDATION_ERROR",
+        message: "A rule needs at least one action",
+      }),
+    );
+    render(<SettingsRules />);
+
+    await user.click(screen.getByRole("button", { name: /new rule/i }));
+    await user.type(
+      screen.getByRole("textbox", { name: /rule name/i }),
+      "Deals",
+    );
+    await user.type(
+      screen.getByRole("textbox", { name: /subject matches/i }),
+      "deal",
+    );
+    await user.click(
+      screen.getByRole("button", { name: /test against my last 200/i }),
+    );
+    expect(screen.getByRole("status").textContent).toBe(
+      "2 of your last 200 newsletters match",
+    );
+    expect(screen.getByText("Weekly deals")).toBeTruthy();
+
+    await user.click(screen.getByRole("button", { name: /save rule/i }));
+    await waitFor(() => {
+      expect(mockToastError).toHaveBeenCalledWith(
+        "A rule needs at least one action",
+      );
+    });
+    expect(mockMutations.createRule).toHaveBeenCalledWith({
+      name: "Deals",
+      conditions: { subjectPattern: "deal" },
+      actions: {},
+    });
+  });
+});
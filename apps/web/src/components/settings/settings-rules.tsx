@@ -0,0 +1,571 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { toast } from "sonner";
+import {
+  Button,
+  Checkbox,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Switch,
+} from "@hushletter/ui";
+import { ArrowDown, ArrowUp, Pencil, Play, Plus, Trash2 } from "lucide-react";
+import { languageName } from "@/lib/utils";
+import { m } from "@/paraglide/messages.js";
+
+/** Select value for "not set" (no folder, no tag, any language) */
+const NONE = "none";
+
+/** Mirrors SUPPORTED_LANGUAGES in convex/lib/detectLanguage.ts */
+const RULE_LANGUAGES = ["en", "fr", "es", "de", "it", "pt", "nl"] as const;
+
+type RuleConditions = {
+  senderEmail?: string;
+  domain?: string;
+  subjectPattern?: string;
+  subAddressTag?: string;
+  language?: string;
+};
+
+type RuleActions = {
+  folderId?: Id<"folders">;
+  tagId?: Id<"tags">;
+  markRead?: boolean;
+  favorite?: boolean;
+  bin?: boolean;
+  skipInbox?: boolean;
+};
+
+type RuleItem = {
+  _id: Id<"newsletterRules">;
+  name: string;
+  isEnabled: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+  matchCount?: number;
+  folderName?: string;
+  tagName?: string;
+};
+
+type RuleDraft = {
+  name: string;
+  conditions: RuleConditions;
+  actions: RuleActions;
+};
+
+type Option = { _id: string; name: string };
+
+const EMPTY_DRAFT: RuleDraft = { name: "", conditions: {}, actions: {} };
+
+const ACTION_FLAGS = [
+  { key: "markRead", label: () => m.rules_actionMarkRead() },
+  { key: "favorite", label: () => m.rules_actionFavorite() },
+  { key: "skipInbox", label: () => m.rules_actionSkipInbox() },
+  { key: "bin", label: () => m.rules_actionBin() },
+] as const;
+
+function getErrorMessage(error: unknown): string {
+  if (error instanceof ConvexError) {
+    const data = error.data as { message?: string } | undefined;
+    if (data?.message) return data.message;
+  }
+  return m.rules_saveError();
+}
+
+/**
+ * One-line summary of a rule, e.g. "example.com → Tech, mark as read"
+ */
+function describeRule(rule: RuleItem): string {
+  const { conditions, actions } = rule;
+  const when = [
+    conditions.senderEmail,
+    conditions.domain,
+    conditions.subjectPattern && `/${conditions.subjectPattern}/`,
+    conditions.subAddressTag && `+${conditions.subAddressTag}`,
+    conditions.language && languageName(conditions.language),
+  ].filter(Boolean);
+  const then = [
+    actions.folderId && (rule.folderName ?? m.rules_actionFolder()),
+    actions.tagId && `#${rule.tagName ?? m.rules_actionTag()}`,
+    ...ACTION_FLAGS.filter((flag) => actions[flag.key]).map((flag) =>
+      flag.label().toLowerCase(),
+    ),
+  ].filter(Boolean);
+  return `${when.join(" · ")} → ${then.join(", ")}`;
+}
+
+/**
+ * RuleForm - Create or edit a rule, with a preview against recent mail
+ */
+function RuleForm({
+  initial,
+  folders,
+  tags,
+  onSave,
+  onCancel,
+}: {
+  initial: RuleDraft;
+  folders: Option[];
+  tags: Option[];
+  onSave: (draft: RuleDraft) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState<RuleDraft>(initial);
+  const [isSaving, setIsSaving] = useState(false);
+  const [previewConditions, setPreviewConditions] =
+    useState<RuleConditions | null>(null);
+  const { data: preview, error: previewError } = useQuery(
+    convexQuery(
+      api.newsletterRules.previewRule,
+      previewConditions ? { conditions: previewConditions } : "skip",
+    ),
+  );
+
+  const setCondition = (key: keyof RuleConditions, value: string) => {
+    setDraft((current) => ({
+      ...current,
+      conditions: { ...current.conditions, [key]: value || undefined },
+    }));
+    setPreviewConditions(null);
+  };
+
+  const setAction = <K extends keyof RuleActions>(
+    key: K,
+    value: RuleActions[K],
+  ) => {
+    setDraft((current) => ({
+      ...current,
+      actions: { ...current.actions, [key]: value },
+    }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const conditionFields = [
+    {
+      key: "senderEmail",
+      label: m.rules_conditionSender(),
+      placeholder: "hello@example.com",
+    },
+    {
+      key: "domain",
+      label: m.rules_conditionDomain(),
+      placeholder: "example.com",
+    },
+    {
+      key: "subjectPattern",
+      label: m.rules_conditionSubject(),
+      placeholder: "sale|deal",
+    },
+    {
+      key: "subAddressTag",
+      label: m.rules_conditionSubAddress(),
+      placeholder: "shop",
+    },
+  ] as const;
+
+  return (
+    <form
+      className="space-y-3 rounded-md border p-3"
+      onSubmit={handleSubmit}
+    >
+      <Input
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        placeholder={m.rules_nameLabel()}
+        aria-label={m.rules_nameLabel()}
+        className="text-xs!"
+      />
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium">{m.rules_whenTitle()}</p>
+        <div className="grid grid-cols-2 gap-2">
+          {conditionFields.map((field) => (
+            <Input
+              key={field.key}
+              value={draft.conditions[field.key] ?? ""}
+              onChange={(e) => setCondition(field.key, e.target.value)}
+              placeholder={field.placeholder}
+              aria-label={field.label}
+              title={field.label}
+              className="text-xs!"
+            />
+          ))}
+          <Select
+            value={draft.conditions.language ?? NONE}
+            onValueChange={(value) =>
+              setCondition("language", value === NONE ? "" : (value as string))
+            }
+          >
+            <SelectTrigger aria-label={m.rules_conditionLanguage()}>
+              <SelectValue>
+                {draft.conditions.language
+                  ? languageName(draft.conditions.language)
+                  : m.rules_anyLanguage()}
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>{m.rules_anyLanguage()}</SelectItem>
+              {RULE_LANGUAGES.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {languageName(code)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium">{m.rules_thenTitle()}</p>
+        <div className="grid grid-cols-2 gap-2">
+          <Select
+            value={draft.actions.folderId ?? NONE}
+            onValueChange={(value) =>
+              setAction(
+                "folderId",
+                value === NONE ? undefined : (value as Id<"folders">),
+              )
+            }
+          >
+            <SelectTrigger aria-label={m.rules_actionFolder()}>
+              <SelectValue>
+                {folders.find((f) => f._id === draft.actions.folderId)?.name ??
+                  m.rules_noFolder()}
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>{m.rules_noFolder()}</SelectItem>
+              {folders.map((folder) => (
+                <SelectItem key={folder._id} value={folder._id}>
+                  {folder.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={draft.actions.tagId ?? NONE}
+            onValueChange={(value) =>
+              setAction(
+                "tagId",
+                value === NONE ? undefined : (value as Id<"tags">),
+              )
+            }
+          >
+            <SelectTrigger aria-label={m.rules_actionTag()}>
+              <SelectValue>
+                {tags.find((t) => t._id === draft.actions.tagId)?.name ??
+                  m.rules_noTag()}
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>{m.rules_noTag()}</SelectItem>
+              {tags.map((tag) => (
+                <SelectItem key={tag._id} value={tag._id}>
+                  {tag.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {ACTION_FLAGS.map((flag) => (
+            <Label
+              key={flag.key}
+              className="flex items-center gap-2 text-xs font-normal"
+            >
+              <Checkbox
+                checked={Boolean(draft.actions[flag.key])}
+                onCheckedChange={(checked) =>
+                  setAction(flag.key, checked === true)
+                }
+              />
+              {flag.label()}
+            </Label>
+          ))}
+        </div>
+      </div>
+
+      {previewConditions && (
+        <p className="text-xs text-muted-foreground" role="status">
+          {previewError
+            ? getErrorMessage(previewError)
+            : preview
+              ? m.rules_previewResult({
+                  count: preview.matchCount,
+                  scanned: preview.scanned,
+                })
+              : null}
+        </p>
+      )}
+      {previewConditions && preview && preview.matches.length > 0 && (
+        <ul className="max-h-32 space-y-0.5 overflow-y-auto text-xs">
+          {preview.matches.map((match) => (
+            <li key={match._id} className="truncate">
+              <span className="text-muted-foreground">
+                {match.senderName ?? match.senderEmail}
+              </span>{" "}
+              {match.subject}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setPreviewConditions(draft.conditions)}
+        >
+          {m.rules_preview()}
+        </Button>
+        <div className="ml-auto flex gap-2">
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            {m.rules_cancel()}
+          </Button>
+          <Button
+            type="submit"
+            variant="outline"
+            size="sm"
+            disabled={isSaving || !draft.name.trim()}
+          >
+            {m.rules_save()}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * SettingsRules - Rules that file, tag, mark read or bin newsletters
+ * on arrival
+ *
+ * Rules are evaluated top to bottom; the arrows reorder them. Each rule can
+ * be tested against recent mail before saving and run on mail already received.
+ */
+export const SettingsRules = () => {
+  const { data: rulesData } = useQuery(
+    convexQuery(api.newsletterRules.listRules, {}),
+  );
+  const { data: foldersData } = useQuery(
+    convexQuery(api.folders.listFolders, {}),
+  );
+  const { data: tagsData } = useQuery(convexQuery(api.tags.listTags, {}));
+  const createRule = useMutation(api.newsletterRules.createRule);
+  const updateRule = useMutation(api.newsletterRules.updateRule);
+  const setRuleEnabled = useMutation(api.newsletterRules.setRuleEnabled);
+  const reorderRules = useMutation(api.newsletterRules.reorderRules);
+  const deleteRule = useMutation(api.newsletterRules.deleteRule);
+  const runRuleOnExistingMail = useMutation(
+    api.newsletterRules.runRuleOnExistingMail,
+  );
+  // "new" for the create form, a rule id while editing
+  const [editing, setEditing] = useState<Id<"newsletterRules"> | "new" | null>(
+    null,
+  );
+
+  const rules = (rulesData ?? []) as RuleItem[];
+  const folders = (foldersData ?? []) as Option[];
+  const tags = (tagsData ?? []) as Option[];
+
+  const handleSave = async (draft: RuleDraft) => {
+    try {
+      if (editing === "new") {
+        await createRule(draft);
+      } else if (editing) {
+        await updateRule({ ruleId: editing, ...draft });
+      }
+      setEditing(null);
+    } catch (error) {
+      console.error("[SettingsRules] Failed to save rule:", error);
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleToggle = async (rule: RuleItem, isEnabled: boolean) => {
+    try {
+      await setRuleEnabled({ ruleId: rule._id, isEnabled });
+    } catch (error) {
+      console.error("[SettingsRules] Failed to toggle rule:", error);
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const ordered = rules.map((rule) => rule._id);
+    const [moved] = ordered.splice(index, 1);
+    ordered.splice(index + offset, 0, moved);
+    try {
+      await reorderRules({ orderedRuleIds: ordered });
+    } catch (error) {
+      console.error("[SettingsRules] Failed to reorder rules:", error);
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleRun = async (rule: RuleItem) => {
+    try {
+      await runRuleOnExistingMail({ ruleId: rule._id });
+      toast.success(m.rules_runStarted({ name: rule.name }));
+    } catch (error) {
+      console.error("[SettingsRules] Failed to run rule:", error);
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleDelete = async (rule: RuleItem) => {
+    try {
+      await deleteRule({ ruleId: rule._id });
+      toast.success(m.rules_deleted({ name: rule.name }));
+    } catch (error) {
+      console.error("[SettingsRules] Failed to delete rule:", error);
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-3">
+        <div className="flex-1 space-y-0.5">
+          <Label className="text-sm font-medium">
+            {m.rules_sectionTitle()}
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            {m.rules_settingsDescription()}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={editing !== null}
+          onClick={() => setEditing("new")}
+        >
+          <Plus className="size-4" />
+          {m.rules_new()}
+        </Button>
+      </div>
+
+      {editing === "new" && (
+        <RuleForm
+          initial={EMPTY_DRAFT}
+          folders={folders}
+          tags={tags}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {rules.length === 0 && editing !== "new" ? (
+        <p className="text-xs text-muted-foreground">{m.rules_empty()}</p>
+      ) : (
+        <ul className="space-y-2">
+          {rules.map((rule, index) =>
+            editing === rule._id ? (
+              <li key={rule._id}>
+                <RuleForm
+                  initial={{
+                    name: rule.name,
+                    conditions: rule.conditions,
+                    actions: rule.actions,
+                  }}
+                  folders={folders}
+                  tags={tags}
+                  onSave={handleSave}
+                  onCancel={() => setEditing(null)}
+                />
+              </li>
+            ) : (
+              <li
+                key={rule._id}
+                className="flex items-center gap-2 rounded-md border p-3"
+              >
+                <Switch
+                  checked={rule.isEnabled}
+                  onCheckedChange={(checked) =>
+                    void handleToggle(rule, checked)
+                  }
+                  aria-label={m.rules_enableLabel({ name: rule.name })}
+                />
+                <div className="min-w-0 flex-1 space-y-0.5">
+                  <p className="truncate text-xs font-medium">{rule.name}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {describeRule(rule)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {m.rules_matchCount({ count: rule.matchCount ?? 0 })}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === 0}
+                    onClick={() => void handleMove(index, -1)}
+                    aria-label={m.rules_moveUpLabel({ name: rule.name })}
+                  >
+                    <ArrowUp className="size-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === rules.length - 1}
+                    onClick={() => void handleMove(index, 1)}
+                    aria-label={m.rules_moveDownLabel({ name: rule.name })}
+                  >
+                    <ArrowDown className="size-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => void handleRun(rule)}
+                    aria-label={m.rules_runOnExisting()}
+                    title={m.rules_runOnExisting()}
+                  >
+                    <Play className="size-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={editing !== null}
+                    onClick={() => setEditing(rule._id)}
+                    aria-label={m.rules_editLabel({ name: rule.name })}
+                  >
+                    <Pencil className="size-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-muted-foreground hover:text-destructive"
+                    onClick={() => void handleDelete(rule)}
+                    aria-label={m.rules_deleteLabel({ name: rule.name })}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+              </li>
+            ),
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
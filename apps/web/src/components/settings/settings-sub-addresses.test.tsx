@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+
+const mockQueryData: Record<string, unknown> = {};
+const mockSaveTag = vi.fn();
+const mockDeleteTag = vi.fn();
+const mockToastError = vi.fn();
+
+vi.mock("@convex-dev/react-query", () => ({
+  convexQuery: (api: unknown, args: unknown) => ({ queryKey: [api, args] }),
+}));
+
+vi.mock("@tanstack/react-query", async () => {
+  const actual = await vi.importActual("@tanstack/react-query");
+  return {
+    ...actual,
+    useQuery: ({ queryKey }: { queryKey: [string, unknown] }) => ({
+      data: mockQueryData[queryKey[0]],
+    }),
+  };
+});
+
+vi.mock("convex/react", () => ({
+  useMutation: (apiFn: unknown) =>
+    apiFn === "deleteSubAddressTag" ? mockDeleteTag : mockSaveTag,
+}));
+
+vi.mock("@hushletter/backend", () => ({
+  api: {
+    auth: { getCurrentUser: "getCurrentUser" },
+    folders: { listFolders: "listFolders" },
+    subAddressTags: {
+      listSubAddressTags: "listSubAddressTags",
+      saveSubAddressTag: "saveSubAddressTag",
+      deleteSubAddressTag: "deleteSubAddressTag",
+    },
+  },
+}));
+
+vi.mock("sonner", () => ({
+  toast: {
+    error: (...args: unknown[]) => mockToastError(...args),
+  },
+}));
+
+import { SettingsSubAddresses } from "./settings-sub-addresses";
+
+describe("SettingsSubAddresses", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQueryData.getCurrentUser = { dedicatedEmail: "alex-1234@hushletter.com" };
+    mockQueryData.listFolders = [{ _id: "folder_1", name: "Shopping" }];
+    mockQueryData.listSubAddressTags = [
+      {
+        _id: "tag_1",
+        tag: "shop",
+        folderId: "folder_1",
+        folderName: "Shopping",
+        newsletterCount: 3,
+        senderEmails: ["news@shop.example.com", "spam@elsewhere.example.com"],
+      },
+    ];
+  });
+
+  it("lists tags with the senders that used them", () => {
+    render(<SettingsSubAddresses />);
+
+    expect(screen.getByText("alex-1234+shop@hushletter.com")).toBeInTheDocument();
+    expect(
+      screen.getByText(
+        "3 newsletters · from news@shop.example.com, spam@elsewhere.example.com",
+      ),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("combobox", { name: "Folder for +shop" }),
+    ).toHaveTextContent("Shopping");
+  });
+
+  it("adds a new tag", async () => {
+    const user = userEvent.setup();
+    mockSaveTag.mockResolvedValue("tag_2");
+
+    render(<SettingsSubAddresses />);
+    await user.type(screen.getByLabelText("New tag, e.g. shop"), "news");
+    await user.click(screen.getByRole("button", { name: "Add" }));
+
+    expect(mockSaveTag).toHaveBeenCalledWith({ tag: "news" });
+  });
+
+  it("shows an error for invalid tags", async () => {
+    const user = userEvent.setup();
+    mockSaveTag.mockRejectedValue(new Error("Tags may only contain"));
+
+    render(<SettingsSubAddresses />);
+    await user.type(screen.getByLabelText("New tag, e.g. shop"), "no spaces");
+    await user.click(screen.getByRole("button", { name: "Add" }));
+
+    await waitFor(() => {
+      expect(mockToastError).toHaveBeenCalledWith(
+        "Tags may only contain letters, numbers, dots, underscores and hyphens",
+      );
+    });
+  });
+
+  it("deletes a tag", async () => {
+    const user = userEvent.setup();
+    mockDeleteTag.mockResolvedValue(undefined);
+
+    render(<SettingsSubAddresses />);
+    await user.click(screen.getByRole("button", { name: "Delete +shop" }));
+
+    expect(mockDeleteTag).toHaveBeenCalledWith({ tagId: "tag_1" });
+  });
+});
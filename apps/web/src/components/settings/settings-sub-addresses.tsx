@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation } from "convex/react";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { toast } from "sonner";
+import {
+  Button,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@hushletter/ui";
+import { Trash2 } from "lucide-react";
+import { m } from "@/paraglide/messages.js";
+
+/** Select value for "no folder" (route by sender as usual) */
+const NO_FOLDER = "none";
+
+type SubAddressTag = {
+  _id: Id<"subAddressTags">;
+  tag: string;
+  folderId?: Id<"folders">;
+  folderName?: string;
+  newsletterCount: number;
+  lastReceivedAt?: number;
+  senderEmails: string[];
+};
+
+/**
+ * Build name+tag@domain from the user's address, for display
+ */
+function toSubAddress(email: string, tag: string): string {
+  const [localPart, domain] = email.split("@");
+  return `${localPart}+${tag}@${domain}`;
+}
+
+/**
+ * SettingsSubAddresses - Manage plus-address tags (name+tag@domain)
+ *
+ * Lists every tag that received mail with the senders that used it, so users
+ * can spot which site leaked their address, and lets them route a tag's mail
+ * into a folder - including tags created before signing up somewhere.
+ */
+export const SettingsSubAddresses = () => {
+  const { data: userData } = useQuery(convexQuery(api.auth.getCurrentUser, {}));
+  const { data: tagsData } = useQuery(
+    convexQuery(api.subAddressTags.listSubAddressTags, {}),
+  );
+  const { data: foldersData } = useQuery(convexQuery(api.folders.listFolders, {}));
+  const saveTag = useMutation(api.subAddressTags.saveSubAddressTag);
+  const deleteTag = useMutation(api.subAddressTags.deleteSubAddressTag);
+  const [newTag, setNewTag] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const dedicatedEmail =
+    (userData as { dedicatedEmail?: string } | null | undefined)
+      ?.dedicatedEmail ?? null;
+  const tags = (tagsData ?? []) as SubAddressTag[];
+  const folders = (foldersData ?? []) as { _id: Id<"folders">; name: string }[];
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const tag = newTag.trim();
+    if (!tag) return;
+
+    setIsSaving(true);
+    try {
+      await saveTag({ tag });
+      setNewTag("");
+    } catch (error) {
+      console.error("[SettingsSubAddresses] Failed to add tag:", error);
+      toast.error(m.settings_subAddressInvalid());
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFolderChange = async (item: SubAddressTag, value: string) => {
+    try {
+      await saveTag({
+        tag: item.tag,
+        folderId: value === NO_FOLDER ? undefined : (value as Id<"folders">),
+      });
+    } catch (error) {
+      console.error("[SettingsSubAddresses] Failed to update tag:", error);
+      toast.error(m.settings_subAddressSaveFailed());
+    }
+  };
+
+  const handleDelete = async (item: SubAddressTag) => {
+    try {
+      await deleteTag({ tagId: item._id });
+    } catch (error) {
+      console.error("[SettingsSubAddresses] Failed to delete tag:", error);
+      toast.error(m.settings_subAddressSaveFailed());
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-0.5">
+        <Label className="text-sm font-medium">
+          {m.settings_subAddressTitle()}
+        </Label>
+        <p className="text-xs text-muted-foreground">
+          {m.settings_subAddressDescription({
+            example: dedicatedEmail
+              ? toSubAddress(dedicatedEmail, "shop")
+              : "you+shop@hushletter.com",
+          })}
+        </p>
+      </div>
+
+      <form className="flex items-center gap-2" onSubmit={handleAdd}>
+        <Input
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value)}
+          placeholder={m.settings_subAddressPlaceholder()}
+          aria-label={m.settings_subAddressPlaceholder()}
+          className="font-mono text-xs!"
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          disabled={isSaving || newTag.trim().length === 0}
+        >
+          {m.settings_subAddressAdd()}
+        </Button>
+      </form>
+
+      {tags.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {m.settings_subAddressEmpty()}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {tags.map((item) => (
+            <li
+              key={item._id}
+              className="flex items-center gap-3 rounded-md border p-3"
+            >
+              <div className="min-w-0 flex-1 space-y-0.5">
+                <p className="truncate font-mono text-xs font-medium">
+                  {dedicatedEmail
+                    ? toSubAddress(dedicatedEmail, item.tag)
+                    : `+${item.tag}`}
+                </p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {m.settings_subAddressCount({ count: item.newsletterCount })}
+                  {item.senderEmails.length > 0 &&
+                    ` · ${m.settings_subAddressSenders({
+                      senders: item.senderEmails.join(", "),
+                    })}`}
+                </p>
+              </div>
+              <Select
+                value={item.folderId ?? NO_FOLDER}
+                onValueChange={(value) =>
+                  void handleFolderChange(item, value as string)
+                }
+              >
+                <SelectTrigger
+                  className="w-[160px]"
+                  aria-label={m.settings_subAddressFolderLabel({ tag: item.tag })}
+                >
+                  <SelectValue>
+                    {item.folderName ?? m.settings_subAddressNoFolder()}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_FOLDER}>
+                    {m.settings_subAddressNoFolder()}
+                  </SelectItem>
+                  {folders.map((folder) => (
+                    <SelectItem key={folder._id} value={folder._id}>
+                      {folder.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="shrink-0"
+                onClick={() => void handleDelete(item)}
+                aria-label={m.settings_subAddressDelete({ tag: item.tag })}
+              >
+                <Trash2 className="size-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
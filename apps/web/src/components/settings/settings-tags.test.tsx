@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { ConvexError } from "convex/values";
+
+const mockQueryData: Record<string, unknown> = {};
+const mockMutations: Record<string, ReturnType<typeof vi.fn>> = {
+  createTag: vi.fn(),
+  renameTag: vi.fn(),
+  setTagColor: vi.fn(),
+  deleteTag: vi.fn(),
+};
+const mockToastError = vi.fn();
+
+vi.mock("@convex-dev/react-query", () => ({
+  convexQuery: (api: unknown, args: unknown) => ({ queryKey: [api, args] }),
+}));
+
+vi.mock("@tanstack/react-query", async () => {
+  const actual = await vi.importActual("@tanstack/react-query");
+  return {
+    ...actual,
+    useQuery: ({ queryKey }: { queryKey: [string, unknown] }) => ({
+      data: mockQueryData[queryKey[0]],
+    }),
+  };
+});
+
+vi.mock("convex/react", () => ({
+  useMutation: (name: string) => mockMutations[name],
+}));
+
+vi.mock("@hushletter/backend", () => ({
+  api: {
+    tags: {
+      listTags: "listTags",
+      createTag: "createTag",
+      renameTag: "renameTag",
+      setTagColor: "setTagColor",
+      deleteTag: "deleteTag",
+    },
+  },
+}));
+
+vi.mock("sonner", () => ({
+  toast: {
+    success: vi.fn(),
+    error: (...args: unknown[]) => mockToastError(...args),
+  },
+}));
+
+import { SettingsTags } from "./settings-tags";
+
+describe("SettingsTags", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQueryData.listTags = [
+      { _id: "tag_1", name: "Research", color: "#3b82f6", newsletterCount: 4 },
+      { _id: "tag_2", name: "To share", newsletterCount: 0 },
+    ];
+  });
+
+  it("creates a tag and surfaces duplicate-name errors", async () => {
+    const user = userEvent.setup();
+    mockMutations.createTag
+      .mockResolvedValueOnce("tag_3")
+      .mockRejectedValueOnce(
+        new ConvexError({
+          code: "DUPLICATE",
+          message: "A tag with this name already exists",
+        }),
+      );
+    render(<SettingsTags />);
+
+    const input = screen.getByRole("textbox", {
+      name: /new tag name|nom du nouveau tag/i,
+    });
+    await user.type(input, "Later{Enter}");
+    await waitFor(() => {
+      expect(mockMutations.createTag).toHaveBeenCalledWith({ name: "Later" });
+    });
+
+    await user.type(input, "research{Enter}");
+    await waitFor(() => {
+      expect(mockToastError).toHaveBeenCalledWith(
+        "A tag with this name already exists",
+      );
+    });
+  });
+
+  it("renames, recolors and deletes a tag", async () => {
+    const user = userEvent.setup();
+    mockMutations.renameTag.mockResolvedValue({ name: "Deep research" });
+    mockMutations.setTagColor.mockResolvedValue(null);
+    mockMutations.deleteTag.mockResolvedValue(null);
+    render(<SettingsTags />);
+
+    const nameInput = screen.getByDisplayValue("Research");
+    await user.clear(nameInput);
+    await user.type(nameInput, "Deep research{Enter}");
+    expect(mockMutations.renameTag).toHaveBeenCalledWith({
+      tagId: "tag_1",
+      newName: "Deep research",
+    });
+
+    const [researchColors] = screen.getAllByRole("radiogroup");
+    await user.click(
+      researchColors.querySelector('[aria-label="#ef4444"]') as HTMLElement,
+    );
+    expect(mockMutations.setTagColor).toHaveBeenCalledWith({
+      tagId: "tag_1",
+      color: "#ef4444",
+    });
+
+    await user.click(
+      screen.getByRole("button", {
+        name: /delete to share|supprimer to share/i,
+      }),
+    );
+    expect(mockMutations.deleteTag).toHaveBeenCalledWith({ tagId: "tag_2" });
+  });
+});
@@ -0,0 +1,190 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Button, Input, Label } from "@hushletter/ui";
+import { Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { TAG_COLORS } from "@/components/TagChips";
+import { m } from "@/paraglide/messages.js";
+
+type TagItem = {
+  _id: Id<"tags">;
+  name: string;
+  color?: string;
+  newsletterCount: number;
+};
+
+function getErrorMessage(error: unknown): string {
+  if (error instanceof ConvexError) {
+    const data = error.data as { message?: string } | undefined;
+    if (data?.message) return data.message;
+  }
+  return m.tags_saveError();
+}
+
+/**
+ * SettingsTags - Create, rename, color and delete newsletter tags
+ *
+ * Tagging itself happens from the reader and the newsletter lists; this
+ * section only manages the tags.
+ */
+export const SettingsTags = () => {
+  const { data: tagsData } = useQuery(convexQuery(api.tags.listTags, {}));
+  const createTag = useMutation(api.tags.createTag);
+  const renameTag = useMutation(api.tags.renameTag);
+  const setTagColor = useMutation(api.tags.setTagColor);
+  const deleteTag = useMutation(api.tags.deleteTag);
+  const [name, setName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const tags = (tagsData ?? []) as TagItem[];
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    setIsCreating(true);
+    try {
+      await createTag({ name });
+      setName("");
+    } catch (error) {
+      console.error("[SettingsTags] Failed to create tag:", error);
+      toast.error(getErrorMessage(error));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRename = async (tag: TagItem, newName: string) => {
+    if (!newName.trim() || newName.trim() === tag.name) return;
+    try {
+      await renameTag({ tagId: tag._id, newName });
+    } catch (error) {
+      console.error("[SettingsTags] Failed to rename tag:", error);
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleColor = async (tag: TagItem, color: string | undefined) => {
+    try {
+      await setTagColor({ tagId: tag._id, color });
+    } catch (error) {
+      console.error("[SettingsTags] Failed to update tag color:", error);
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleDelete = async (tag: TagItem) => {
+    try {
+      await deleteTag({ tagId: tag._id });
+      toast.success(m.tags_deleted({ name: tag.name }));
+    } catch (error) {
+      console.error("[SettingsTags] Failed to delete tag:", error);
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-0.5">
+        <Label className="text-sm font-medium">{m.tags_sectionTitle()}</Label>
+        <p className="text-xs text-muted-foreground">
+          {m.tags_settingsDescription()}
+        </p>
+      </div>
+
+      <form className="flex gap-2" onSubmit={handleCreate}>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={m.tags_namePlaceholder()}
+          aria-label={m.tags_namePlaceholder()}
+          className="text-xs!"
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          disabled={isCreating || !name.trim()}
+        >
+          {m.tags_create()}
+        </Button>
+      </form>
+
+      {tags.length === 0 ? (
+        <p className="text-xs text-muted-foreground">{m.tags_empty()}</p>
+      ) : (
+        <ul className="space-y-2">
+          {tags.map((tag) => (
+            <li
+              key={tag._id}
+              className="flex items-center gap-3 rounded-md border p-3"
+            >
+              <div className="min-w-0 flex-1 space-y-1.5">
+                <Input
+                  key={tag.name}
+                  defaultValue={tag.name}
+                  aria-label={m.tags_renameLabel({ name: tag.name })}
+                  className="h-7 text-xs!"
+                  onBlur={(e) => void handleRename(tag, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") e.currentTarget.blur();
+                  }}
+                />
+                <div
+                  role="radiogroup"
+                  aria-label={m.tags_colorLabel({ name: tag.name })}
+                  className="flex items-center gap-1.5"
+                >
+                  <button
+                    type="button"
+                    role="radio"
+                    aria-checked={!tag.color}
+                    aria-label={m.tags_noColor()}
+                    onClick={() => void handleColor(tag, undefined)}
+                    className={cn(
+                      "size-4 rounded-full border bg-muted-foreground/30",
+                      !tag.color && "ring-2 ring-ring ring-offset-1",
+                    )}
+                  />
+                  {TAG_COLORS.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      role="radio"
+                      aria-checked={tag.color === color}
+                      aria-label={color}
+                      onClick={() => void handleColor(tag, color)}
+                      className={cn(
+                        "size-4 rounded-full",
+                        tag.color === color && "ring-2 ring-ring ring-offset-1",
+                      )}
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {m.tags_newsletterCount({ count: tag.newsletterCount })}
+                  </span>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="shrink-0 text-muted-foreground hover:text-destructive"
+                onClick={() => void handleDelete(tag)}
+                aria-label={m.tags_deleteLabel({ name: tag.name })}
+              >
+                <Trash2 className="size-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { toast } from "sonner";
+import type {
+  HighlightAnchor,
+  HighlightColor,
+  PaintableHighlight,
+} from "@/lib/highlightAnchoring";
+import { m } from "@/paraglide/messages.js";
+
+interface NewsletterHighlightsController {
+  /** Highlights of the newsletter, in document order */
+  highlights: PaintableHighlight[];
+  createHighlight: (
+    anchor: HighlightAnchor,
+    options: { color: HighlightColor; note?: string },
+  ) => Promise<void>;
+  updateHighlight: (
+    highlightId: string,
+    changes: { color?: HighlightColor; note?: string },
+  ) => Promise<void>;
+  deleteHighlight: (highlightId: string) => Promise<void>;
+}
+
+/**
+ * Message of a ConvexError, or the fallback for anything else
+ */
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ConvexError) {
+    return (error.data as { message?: string }).message ?? fallback;
+  }
+  return fallback;
+}
+
+/**
+ * Highlights of one newsletter (highlights.listHighlightsForNewsletter) with
+ * create/update/delete. Failures are reported with toasts.
+ */
+export function useNewsletterHighlights(
+  userNewsletterId: Id<"userNewsletters">,
+): NewsletterHighlightsController {
+  const { data } = useQuery(
+    convexQuery(api.highlights.listHighlightsForNewsletter, {
+      userNewsletterId,
+    }),
+  );
+  const createHighlightMutation = useMutation(api.highlights.createHighlight);
+  const updateHighlightMutation = useMutation(api.highlights.updateHighlight);
+  const deleteHighlightMutation = useMutation(api.highlights.deleteHighlight);
+
+  const createHighlight = useCallback(
+    async (
+      anchor: HighlightAnchor,
+      options: { color: HighlightColor; note?: string },
+    ) => {
+      try {
+        await createHighlightMutation({
+          userNewsletterId,
+          ...anchor,
+          ...options,
+        });
+      } catch (error) {
+        toast.error(getErrorMessage(error, m.highlights_error()));
+      }
+    },
+    [createHighlightMutation, userNewsletterId],
+  );
+
+  const updateHighlight = useCallback(
+    async (
+      highlightId: string,
+      changes: { color?: HighlightColor; note?: string },
+    ) => {
+      try {
+        await updateHighlightMutation({
+          highlightId: highlightId as Id<"highlights">,
+          ...changes,
+        });
+      } catch (error) {
+        toast.error(getErrorMessage(error, m.highlights_error()));
+      }
+    },
+    [updateHighlightMutation],
+  );
+
+  const deleteHighlight = useCallback(
+    async (highlightId: string) => {
+      try {
+        await deleteHighlightMutation({
+          highlightId: highlightId as Id<"highlights">,
+        });
+        toast.success(m.highlights_deleted());
+      } catch (error) {
+        toast.error(getErrorMessage(error, m.highlights_error()));
+      }
+    },
+    [deleteHighlightMutation],
+  );
+
+  return {
+    highlights: data ?? [],
+    createHighlight,
+    updateHighlight,
+    deleteHighlight,
+  };
+}
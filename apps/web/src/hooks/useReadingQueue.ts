@@ -0,0 +1,102 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { toast } from "sonner";
+import type { NewsletterData } from "@/components/NewsletterCard";
+import { m } from "@/paraglide/messages.js";
+
+interface ReadingQueueController {
+  /** Queued newsletters, in queue order */
+  items: NewsletterData[];
+  totalReadMinutes: number;
+  isPending: boolean;
+  getIsQueued: (newsletterId: string) => boolean;
+  toggleQueued: (newsletterId: string, isQueued: boolean) => Promise<void>;
+  reorder: (orderedNewsletterIds: string[]) => Promise<void>;
+}
+
+/**
+ * Message of a ConvexError, or the fallback for anything else
+ */
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ConvexError) {
+    return (error.data as { message?: string }).message ?? fallback;
+  }
+  return fallback;
+}
+
+/**
+ * The user's reading queue (newsletters.listReadingQueue) with add/remove
+ * and reorder. Adding and removing report the outcome with toasts.
+ */
+export function useReadingQueue(): ReadingQueueController {
+  const { data, isPending } = useQuery(
+    convexQuery(api.newsletters.listReadingQueue, {}),
+  );
+  const addToReadingQueue = useMutation(api.readingQueue.addToReadingQueue);
+  const removeFromReadingQueue = useMutation(
+    api.readingQueue.removeFromReadingQueue,
+  );
+  const reorderReadingQueue = useMutation(
+    api.readingQueue.reorderReadingQueue,
+  );
+
+  const items = useMemo(
+    () => (data?.items ?? []) as NewsletterData[],
+    [data],
+  );
+  const queuedIds = useMemo(
+    () => new Set<string>(items.map((item) => item._id)),
+    [items],
+  );
+
+  const getIsQueued = useCallback(
+    (newsletterId: string) => queuedIds.has(newsletterId),
+    [queuedIds],
+  );
+
+  const toggleQueued = useCallback(
+    async (newsletterId: string, isQueued: boolean) => {
+      const userNewsletterId = newsletterId as Id<"userNewsletters">;
+      try {
+        if (isQueued) {
+          await removeFromReadingQueue({ userNewsletterId });
+          toast.success(m.readingQueue_removed());
+        } else {
+          await addToReadingQueue({ userNewsletterId });
+          toast.success(m.readingQueue_added());
+        }
+      } catch (error) {
+        toast.error(getErrorMessage(error, m.readingQueue_error()));
+      }
+    },
+    [addToReadingQueue, removeFromReadingQueue],
+  );
+
+  const reorder = useCallback(
+    async (orderedNewsletterIds: string[]) => {
+      try {
+        await reorderReadingQueue({
+          orderedUserNewsletterIds:
+            orderedNewsletterIds as Id<"userNewsletters">[],
+        });
+      } catch (error) {
+        toast.error(getErrorMessage(error, m.readingQueue_error()));
+      }
+    },
+    [reorderReadingQueue],
+  );
+
+  return {
+    items,
+    totalReadMinutes: data?.totalReadMinutes ?? 0,
+    isPending,
+    getIsQueued,
+    toggleQueued,
+    reorder,
+  };
+}
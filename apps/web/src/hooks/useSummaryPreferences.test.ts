@@ -160,3 +160,51 @@ describe("useSummaryPreferences", () => {
     )
   })
 })
+
+describe("useSummaryPreferences - style and language", () => {
+  beforeEach(() => {
+    localStorage.removeItem("hushletter:summary-style")
+    localStorage.removeItem("hushletter:summary-language")
+  })
+
+  it("defaults to key points in the newsletter's language", () => {
+    const { result } = renderHook(() => useSummaryPreferences())
+
+    expect(result.current.style).toBe("bullets")
+    expect(result.current.language).toBeNull()
+  })
+
+  it("persists the style and target language", () => {
+    const { result } = renderHook(() => useSummaryPreferences())
+
+    act(() => {
+      result.current.setStyle("actionItems")
+      result.current.setLanguage("de")
+    })
+
+    expect(result.current.style).toBe("actionItems")
+    expect(result.current.language).toBe("de")
+    expect(localStorage.getItem("hushletter:summary-style")).toBe("actionItems")
+    expect(localStorage.getItem("hushletter:summary-language")).toBe("de")
+
+    act(() => {
+      result.current.setLanguage(null)
+    })
+
+    expect(localStorage.getItem("hushletter:summary-language")).toBeNull()
+  })
+
+  it("restores stored preferences and ignores unknown values", async () => {
+    localStorage.setItem("hushletter:summary-style", "haiku")
+    localStorage.setItem("hushletter:summary-language", "fr")
+
+    const { result } = renderHook(() => useSummaryPreferences())
+
+    await act(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 0))
+    })
+
+    expect(result.current.style).toBe("bullets")
+    expect(result.current.language).toBe("fr")
+  })
+})
@@ -3,6 +3,34 @@ import { useState, useCallback, useEffect } from "react"
 /** Storage key for summary collapse preference */
 const STORAGE_KEY = "hushletter:summary-collapsed"
 
+/** Storage keys for the summary style and target language */
+const STYLE_STORAGE_KEY = "hushletter:summary-style"
+const LANGUAGE_STORAGE_KEY = "hushletter:summary-language"
+
+/** Mirrors summaryStyleValidator in convex/lib/summaryStyle.ts */
+export const SUMMARY_STYLES = [
+  "bullets",
+  "tldr",
+  "detailed",
+  "actionItems",
+  "beginner",
+] as const
+
+export type SummaryStyle = (typeof SUMMARY_STYLES)[number]
+
+/** Mirrors SUPPORTED_LANGUAGES in convex/lib/detectLanguage.ts */
+export const SUMMARY_LANGUAGES = ["en", "fr", "es", "de", "it", "pt", "nl"] as const
+
+export type SummaryLanguage = (typeof SUMMARY_LANGUAGES)[number]
+
+function isSummaryStyle(value: string | null): value is SummaryStyle {
+  return SUMMARY_STYLES.includes(value as SummaryStyle)
+}
+
+function isSummaryLanguage(value: string | null): value is SummaryLanguage {
+  return SUMMARY_LANGUAGES.includes(value as SummaryLanguage)
+}
+
 interface UseSummaryPreferencesReturn {
   /** Whether the summary panel should be collapsed */
   isCollapsed: boolean
@@ -10,6 +38,14 @@ interface UseSummaryPreferencesReturn {
   setCollapsed: (collapsed: boolean) => void
   /** Toggle the collapse state */
   toggleCollapsed: () => void
+  /** Summary style to generate and show */
+  style: SummaryStyle
+  /** Update the summary style (persists to localStorage) */
+  setStyle: (style: SummaryStyle) => void
+  /** Language to write summaries in, or null for the newsletter's own language */
+  language: SummaryLanguage | null
+  /** Update the target language (persists to localStorage) */
+  setLanguage: (language: SummaryLanguage | null) => void
 }
 
 /**
@@ -19,6 +55,9 @@ interface UseSummaryPreferencesReturn {
  * Persists the collapse state to localStorage so users don't have to
  * re-expand/collapse the summary panel every time they view a newsletter.
  *
+ * The summary style and target language persist the same way; each
+ * style/language pair is generated and cached separately on the server.
+ *
  * Note: Uses global preference (applies to all newsletters) for simplicity.
  * Per-newsletter preference would require additional storage complexity.
  *
@@ -39,6 +78,8 @@ interface UseSummaryPreferencesReturn {
 export function useSummaryPreferences(): UseSummaryPreferencesReturn {
   // Start with false for both server and client to avoid hydration mismatch
   const [isCollapsed, setIsCollapsedState] = useState<boolean>(false)
+  const [style, setStyleState] = useState<SummaryStyle>("bullets")
+  const [language, setLanguageState] = useState<SummaryLanguage | null>(null)
 
   // Sync with localStorage after hydration
   useEffect(() => {
@@ -47,6 +88,14 @@ export function useSummaryPreferences(): UseSummaryPreferencesReturn {
       if (stored === "true") {
         setIsCollapsedState(true)
       }
+      const storedStyle = localStorage.getItem(STYLE_STORAGE_KEY)
+      if (isSummaryStyle(storedStyle)) {
+        setStyleState(storedStyle)
+      }
+      const storedLanguage = localStorage.getItem(LANGUAGE_STORAGE_KEY)
+      if (isSummaryLanguage(storedLanguage)) {
+        setLanguageState(storedLanguage)
+      }
     } catch {
       // Ignore localStorage errors (private browsing, etc.)
     }
@@ -67,5 +116,37 @@ export function useSummaryPreferences(): UseSummaryPreferencesReturn {
     setCollapsed(!isCollapsed)
   }, [isCollapsed, setCollapsed])
 
-  return { isCollapsed, setCollapsed, toggleCollapsed }
+  const setStyle = useCallback((nextStyle: SummaryStyle) => {
+    setStyleState(nextStyle)
+
+    try {
+      localStorage.setItem(STYLE_STORAGE_KEY, nextStyle)
+    } catch {
+      console.warn("[useSummaryPreferences] Failed to persist preference to localStorage")
+    }
+  }, [])
+
+  const setLanguage = useCallback((nextLanguage: SummaryLanguage | null) => {
+    setLanguageState(nextLanguage)
+
+    try {
+      if (nextLanguage) {
+        localStorage.setItem(LANGUAGE_STORAGE_KEY, nextLanguage)
+      } else {
+        localStorage.removeItem(LANGUAGE_STORAGE_KEY)
+      }
+    } catch {
+      console.warn("[useSummaryPreferences] Failed to persist preference to localStorage")
+    }
+  }, [])
+
+  return {
+    isCollapsed,
+    setCollapsed,
+    toggleCollapsed,
+    style,
+    setStyle,
+    language,
+    setLanguage,
+  }
 }
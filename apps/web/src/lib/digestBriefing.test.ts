@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { parseBriefing } from "./digestBriefing";
+
+describe("parseBriefing", () => {
+  it("splits headings, bullets and paragraphs", () => {
+    const blocks = parseBriefing(
+      "## Finance\n\n- Rates rose [1]\n* Markets dipped\n\nA quiet week overall.",
+    );
+
+    expect(blocks.map((block) => block.type)).toEqual([
+      "heading",
+      "bullet",
+      "bullet",
+      "paragraph",
+    ]);
+    expect(blocks[0].segments).toEqual([{ type: "text", text: "Finance" }]);
+  });
+
+  it("separates [n] citations from the text", () => {
+    const [bullet] = parseBriefing("- **Chips** got faster [2][5] this week");
+
+    expect(bullet.segments).toEqual([
+      { type: "text", text: "Chips got faster " },
+      { type: "ref", ref: 2 },
+      { type: "ref", ref: 5 },
+      { type: "text", text: " this week" },
+    ]);
+  });
+});
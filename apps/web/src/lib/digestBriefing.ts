@@ -0,0 +1,75 @@
+/**
+ * A piece of a briefing line: plain text, or a [n] citation of the digest's
+ * n-th newsletter
+ */
+export type BriefingSegment =
+  | { type: "text"; text: string }
+  | { type: "ref"; ref: number };
+
+export interface BriefingBlock {
+  type: "heading" | "bullet" | "paragraph";
+  segments: BriefingSegment[];
+}
+
+const HEADING_PATTERN = /^#{1,6}\s+/;
+const BULLET_PATTERN = /^(?:[-*•]|\d+\.)\s+/;
+const REF_PATTERN = /\[(\d+)\]/g;
+
+/**
+ * Split a line into text and [n] citations (bold markers are dropped)
+ */
+function parseSegments(line: string): BriefingSegment[] {
+  const text = line.replace(/\*\*|__/g, "");
+  const segments: BriefingSegment[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(REF_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ type: "text", text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: "ref", ref: Number(match[1]) });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ type: "text", text: text.slice(lastIndex) });
+  }
+  return segments;
+}
+
+/**
+ * Parse the markdown-ish briefing a digest stores into headings, bullets and
+ * paragraphs. Anything the model adds beyond those is shown as plain text.
+ */
+export function parseBriefing(briefing: string): BriefingBlock[] {
+  const blocks: BriefingBlock[] = [];
+  for (const rawLine of briefing.split("\n")) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (HEADING_PATTERN.test(line)) {
+      blocks.push({
+        type: "heading",
+        segments: parseSegments(line.replace(HEADING_PATTERN, "")),
+      });
+    } else if (BULLET_PATTERN.test(line)) {
+      blocks.push({
+        type: "bullet",
+        segments: parseSegments(line.replace(BULLET_PATTERN, "")),
+      });
+    } else {
+      blocks.push({ type: "paragraph", segments: parseSegments(line) });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Dates a digest covers, as one date when it starts and ends the same day
+ */
+export function formatDigestPeriod(
+  periodStart: number,
+  periodEnd: number,
+): string {
+  const start = new Date(periodStart).toLocaleDateString();
+  const end = new Date(periodEnd).toLocaleDateString();
+  return start === end ? end : `${start} – ${end}`;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  getDropParentId,
+  getFolderDescendantIds,
+  orderFolderTree,
+} from "./folderTree";
+
+const folders = [
+  { _id: "research", parentId: "ai" },
+  { _id: "cooking" },
+  { _id: "ai", parentId: "tech" },
+  { _id: "tech" },
+  { _id: "news", parentId: "tech" },
+  { _id: "orphan", parentId: "hidden" },
+];
+
+describe("orderFolderTree", () => {
+  it("places subfolders under their parent and keeps sibling order", () => {
+    expect(
+      orderFolderTree(folders).map(({ folder, depth }) => [folder._id, depth]),
+    ).toEqual([
+      ["cooking", 0],
+      ["tech", 0],
+      ["ai", 1],
+      ["research", 2],
+      ["news", 1],
+      ["orphan", 0],
+    ]);
+  });
+});
+
+describe("getFolderDescendantIds", () => {
+  it("collects the whole subtree", () => {
+    expect([...getFolderDescendantIds(folders, "tech")].sort()).toEqual([
+      "ai",
+      "news",
+      "research",
+    ]);
+    expect(getFolderDescendantIds(folders, "news").size).toBe(0);
+  });
+});
+
+describe("getDropParentId", () => {
+  const order = ["cooking", "tech", "ai", "research", "news", "orphan"];
+
+  it("nests under the folder above when dragged right", () => {
+    expect(getDropParentId(folders, order, "tech", 60)).toBe("cooking");
+    expect(getDropParentId(folders, order, "news", 60)).toBe("research");
+  });
+
+  it("never nests a folder under its own subfolder", () => {
+    expect(
+      getDropParentId(folders, ["research", "ai", "tech"], "ai", 60),
+    ).toBe("tech");
+  });
+
+  it("moves up one level when dragged left", () => {
+    expect(getDropParentId(folders, order, "research", -60)).toBe("tech");
+    expect(getDropParentId(folders, order, "news", -60)).toBeUndefined();
+  });
+
+  it("keeps the parent for vertical drags", () => {
+    expect(getDropParentId(folders, order, "news", 10)).toBe("tech");
+    expect(getDropParentId(folders, order, "cooking", -60)).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+type TreeFolder = {
+  _id: string;
+  parentId?: string;
+};
+
+/**
+ * Flatten a folder hierarchy into display order: each folder is followed by
+ * its subfolders, and siblings keep their order from the input list.
+ * A folder whose parent is missing (e.g. hidden) is shown at the top level.
+ */
+export function orderFolderTree<T extends TreeFolder>(
+  folders: T[],
+): { folder: T; depth: number }[] {
+  const ids = new Set(folders.map((folder) => folder._id));
+  const childrenByParent = new Map<string, T[]>();
+  const roots: T[] = [];
+  for (const folder of folders) {
+    if (folder.parentId && ids.has(folder.parentId)) {
+      const siblings = childrenByParent.get(folder.parentId) ?? [];
+      siblings.push(folder);
+      childrenByParent.set(folder.parentId, siblings);
+    } else {
+      roots.push(folder);
+    }
+  }
+
+  const ordered: { folder: T; depth: number }[] = [];
+  const seen = new Set<string>();
+  const visit = (folder: T, depth: number) => {
+    if (seen.has(folder._id)) return;
+    seen.add(folder._id);
+    ordered.push({ folder, depth });
+    for (const child of childrenByParent.get(folder._id) ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+  roots.forEach((folder) => visit(folder, 0));
+  return ordered;
+}
+
+/**
+ * Ids of every folder below `folderId` (not including it).
+ */
+export function getFolderDescendantIds(
+  folders: TreeFolder[],
+  folderId: string,
+): Set<string> {
+  const descendants = new Set<string>();
+  const queue = [folderId];
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    for (const folder of folders) {
+      if (
+        folder.parentId === parentId &&
+        folder._id !== folderId &&
+        !descendants.has(folder._id)
+      ) {
+        descendants.add(folder._id);
+        queue.push(folder._id);
+      }
+    }
+  }
+  return descendants;
+}
+
+/** Horizontal drag distance (px) that nests or un-nests a dropped folder */
+export const FOLDER_NEST_DRAG_OFFSET = 40;
+
+/**
+ * Parent for a folder dropped at its position in `orderedIds`: dragging right
+ * nests it under the folder above, dragging left moves it up one level.
+ * A mostly vertical drag keeps the current parent.
+ */
+export function getDropParentId(
+  folders: TreeFolder[],
+  orderedIds: string[],
+  folderId: string,
+  offsetX: number,
+): string | undefined {
+  const folderById = new Map(folders.map((folder) => [folder._id, folder]));
+  const currentParentId = folderById.get(folderId)?.parentId;
+
+  if (offsetX >= FOLDER_NEST_DRAG_OFFSET) {
+    const aboveId = orderedIds[orderedIds.indexOf(folderId) - 1];
+    if (!aboveId || getFolderDescendantIds(folders, folderId).has(aboveId)) {
+      return currentParentId;
+    }
+    return aboveId;
+  }
+  if (offsetX <= -FOLDER_NEST_DRAG_OFFSET && currentParentId) {
+    return folderById.get(currentParentId)?.parentId;
+  }
+  return currentParentId;
+}
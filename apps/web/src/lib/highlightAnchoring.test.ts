@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import {
+  clearHighlightMarks,
+  getHighlightAnchor,
+  getHighlightIdFromTarget,
+  paintHighlights,
+  type PaintableHighlight,
+} from "./highlightAnchoring";
+
+function renderContent(html: string): HTMLElement {
+  const root = document.createElement("div");
+  root.innerHTML = html;
+  return root;
+}
+
+function selectText(root: HTMLElement, quote: string, occurrence = 0): Range {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let seen = 0;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    let index = node.textContent?.indexOf(quote) ?? -1;
+    while (index !== -1) {
+      if (seen === occurrence) {
+        const range = document.createRange();
+        range.setStart(node, index);
+        range.setEnd(node, index + quote.length);
+        return range;
+      }
+      seen += 1;
+      index = node.textContent?.indexOf(quote, index + 1) ?? -1;
+    }
+  }
+  throw new Error(`"${quote}" not found`);
+}
+
+function markedText(root: HTMLElement, id: string): string {
+  return [...root.querySelectorAll(`mark[data-highlight-id="${id}"]`)]
+    .map((mark) => mark.textContent)
+    .join("");
+}
+
+describe("getHighlightAnchor", () => {
+  it("stores the quote with its context and skips surrounding whitespace", () => {
+    const root = renderContent("<p>Rates rose again.</p><p> Prices fell. </p>");
+    const range = document.createRange();
+    range.setStart(root.childNodes[1].firstChild!, 0);
+    range.setEnd(root.childNodes[1].firstChild!, 14);
+
+    expect(getHighlightAnchor(root, range)).toEqual({
+      text: "Prices fell.",
+      prefix: "Rates rose again. ",
+      suffix: " ",
+      startOffset: 18,
+    });
+  });
+
+  it("handles selections across elements and element boundary points", () => {
+    const root = renderContent("<p>One <b>two</b> three</p><p>four</p>");
+    const range = document.createRange();
+    range.setStart(root.firstChild!, 1);
+    range.setEnd(root, 2);
+
+    expect(getHighlightAnchor(root, range)?.text).toBe("two threefour");
+  });
+
+  it("returns null for whitespace-only selections", () => {
+    const root = renderContent("<p>One</p> <p>Two</p>");
+    const range = document.createRange();
+    range.selectNode(root.childNodes[1]);
+
+    expect(getHighlightAnchor(root, range)).toBeNull();
+  });
+});
+
+describe("paintHighlights", () => {
+  it("re-anchors a repeated quote on reload using its context", () => {
+    const html =
+      "<p>The vote passed. Markets <i>fell</i>.</p><p>Later the vote passed again.</p>";
+    const original = renderContent(html);
+    const anchor = getHighlightAnchor(original, selectText(original, "vote passed", 1));
+    const highlight: PaintableHighlight = { _id: "h1", color: "yellow", ...anchor! };
+
+    const reloaded = renderContent(html);
+    expect(paintHighlights(reloaded, [highlight])).toEqual([]);
+
+    const mark = reloaded.querySelector("mark")!;
+    expect(mark.textContent).toBe("vote passed");
+    expect(mark.closest("p")?.textContent).toBe("Later the vote passed again.");
+  });
+
+  it("still finds the quote when content before it changed", () => {
+    const original = renderContent("<p>Intro.</p><p>Key insight here.</p>");
+    const anchor = getHighlightAnchor(original, selectText(original, "Key insight"));
+
+    const edited = renderContent("<p>A much longer intro.</p><p>Key insight here.</p>");
+    paintHighlights(edited, [{ _id: "h1", color: "green", ...anchor! }]);
+
+    expect(markedText(edited, "h1")).toBe("Key insight");
+  });
+
+  it("wraps quotes spanning elements and reports orphaned highlights", () => {
+    const root = renderContent("<p>One <b>two</b> three</p>");
+    const anchor = getHighlightAnchor(root, selectText(root, "One "));
+    const spanning: PaintableHighlight = {
+      _id: "span",
+      color: "blue",
+      note: "Margin note",
+      text: "One two three",
+      prefix: "",
+      suffix: "",
+      startOffset: anchor!.startOffset,
+    };
+    const missing: PaintableHighlight = {
+      _id: "gone",
+      color: "pink",
+      text: "not in this newsletter",
+      prefix: "",
+      suffix: "",
+      startOffset: 0,
+    };
+
+    expect(paintHighlights(root, [spanning, missing])).toEqual(["gone"]);
+    expect(markedText(root, "span")).toBe("One two three");
+    expect(root.querySelectorAll("mark")).toHaveLength(3);
+    expect(root.querySelector("mark")?.title).toBe("Margin note");
+    expect(getHighlightIdFromTarget(root.querySelector("b")!.firstChild)).toBe(
+      "span",
+    );
+
+    clearHighlightMarks(root);
+    expect(root.innerHTML).toBe("<p>One <b>two</b> three</p>");
+  });
+});
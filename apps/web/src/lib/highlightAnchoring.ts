@@ -0,0 +1,250 @@
+export type HighlightColor = "yellow" | "green" | "blue" | "pink";
+
+/**
+ * Where a highlight sits in a document, independent of the DOM it was made in:
+ * the quote, the text right around it, and its offset in the document text.
+ */
+export interface HighlightAnchor {
+  text: string;
+  prefix: string;
+  suffix: string;
+  startOffset: number;
+}
+
+export interface PaintableHighlight extends HighlightAnchor {
+  _id: string;
+  color: HighlightColor;
+  note?: string;
+}
+
+export const HIGHLIGHT_COLORS: Record<HighlightColor, string> = {
+  yellow: "rgba(250, 204, 21, 0.4)",
+  green: "rgba(74, 222, 128, 0.35)",
+  blue: "rgba(96, 165, 250, 0.35)",
+  pink: "rgba(244, 114, 182, 0.35)",
+};
+
+/** Characters of context stored on each side of the quote */
+const CONTEXT_LENGTH = 32;
+const HIGHLIGHT_MARK_ATTRIBUTE = "data-highlight-id";
+const SKIPPED_ELEMENTS = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE"]);
+
+interface TextIndex {
+  text: string;
+  nodes: { node: Text; start: number }[];
+}
+
+/**
+ * Concatenated text of `root` and where each text node starts in it
+ */
+function buildTextIndex(root: Node): TextIndex {
+  const doc = root.ownerDocument ?? (root as Document);
+  const walker = doc.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.parentElement && SKIPPED_ELEMENTS.has(node.parentElement.tagName)
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT,
+  });
+
+  const nodes: TextIndex["nodes"] = [];
+  let text = "";
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    nodes.push({ node: node as Text, start: text.length });
+    text += node.textContent ?? "";
+  }
+  return { text, nodes };
+}
+
+/**
+ * Offset in the indexed text of a Range boundary point
+ */
+function getTextOffset(
+  index: TextIndex,
+  container: Node,
+  offset: number,
+): number | null {
+  if (container.nodeType === Node.TEXT_NODE) {
+    const entry = index.nodes.find(({ node }) => node === container);
+    return entry ? entry.start + offset : null;
+  }
+
+  // Element boundary: the point sits before childNodes[offset] (or at the
+  // end of the container), so it's where the next text node starts
+  const boundary = container.childNodes[offset] ?? null;
+  for (const { node, start } of index.nodes) {
+    const isAfterPoint = boundary
+      ? boundary === node ||
+        boundary.contains(node) ||
+        Boolean(
+          boundary.compareDocumentPosition(node) &
+            Node.DOCUMENT_POSITION_FOLLOWING,
+        )
+      : !container.contains(node) &&
+        Boolean(
+          container.compareDocumentPosition(node) &
+            Node.DOCUMENT_POSITION_FOLLOWING,
+        );
+    if (isAfterPoint) return start;
+  }
+  return index.text.length;
+}
+
+/**
+ * Describe a selection inside `root` as a highlight anchor
+ * Surrounding whitespace is left out. Returns null for empty selections.
+ */
+export function getHighlightAnchor(
+  root: Node,
+  range: Range,
+): HighlightAnchor | null {
+  const index = buildTextIndex(root);
+  let start = getTextOffset(index, range.startContainer, range.startOffset);
+  let end = getTextOffset(index, range.endContainer, range.endOffset);
+  if (start === null || end === null) return null;
+
+  while (start < end && /\s/.test(index.text[start])) start += 1;
+  while (end > start && /\s/.test(index.text[end - 1])) end -= 1;
+  if (end <= start) return null;
+
+  return {
+    text: index.text.slice(start, end),
+    prefix: index.text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: index.text.slice(end, end + CONTEXT_LENGTH),
+    startOffset: start,
+  };
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0;
+  while (
+    length < a.length &&
+    length < b.length &&
+    a[a.length - 1 - length] === b[b.length - 1 - length]
+  ) {
+    length += 1;
+  }
+  return length;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length += 1;
+  }
+  return length;
+}
+
+/**
+ * Start of the quote in `text`: the occurrence whose surrounding text best
+ * matches the stored context, then the one closest to the stored offset
+ */
+function locateQuote(text: string, anchor: HighlightAnchor): number | null {
+  let best: { start: number; score: number; distance: number } | null = null;
+
+  for (
+    let start = text.indexOf(anchor.text);
+    start !== -1;
+    start = text.indexOf(anchor.text, start + 1)
+  ) {
+    const end = start + anchor.text.length;
+    const score =
+      commonSuffixLength(text.slice(0, start), anchor.prefix) +
+      commonPrefixLength(text.slice(end), anchor.suffix);
+    const distance = Math.abs(start - anchor.startOffset);
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score && distance < best.distance)
+    ) {
+      best = { start, score, distance };
+    }
+  }
+
+  return best?.start ?? null;
+}
+
+/**
+ * Wrap the text between two offsets in <mark> elements, one per text node
+ */
+function wrapTextRange(
+  index: TextIndex,
+  start: number,
+  end: number,
+  highlight: PaintableHighlight,
+): void {
+  for (const { node, start: nodeStart } of index.nodes) {
+    const nodeEnd = nodeStart + (node.textContent?.length ?? 0);
+    if (nodeEnd <= start || nodeStart >= end) continue;
+
+    let target = node;
+    const from = Math.max(start, nodeStart) - nodeStart;
+    const to = Math.min(end, nodeEnd) - nodeStart;
+    if (to < target.length) target.splitText(to);
+    if (from > 0) target = target.splitText(from);
+    if (!target.textContent?.trim()) continue;
+
+    const mark = target.ownerDocument.createElement("mark");
+    mark.setAttribute(HIGHLIGHT_MARK_ATTRIBUTE, highlight._id);
+    mark.style.backgroundColor = HIGHLIGHT_COLORS[highlight.color];
+    mark.style.color = "inherit";
+    mark.style.cursor = "pointer";
+    if (highlight.note) {
+      mark.title = highlight.note;
+      mark.style.borderBottom = "2px dotted currentColor";
+    }
+    target.replaceWith(mark);
+    mark.appendChild(target);
+  }
+}
+
+/**
+ * Remove painted highlight marks, restoring the original text nodes
+ */
+export function clearHighlightMarks(root: Element): void {
+  for (const mark of root.querySelectorAll(`mark[${HIGHLIGHT_MARK_ATTRIBUTE}]`)) {
+    const parent = mark.parentNode;
+    mark.replaceWith(...mark.childNodes);
+    parent?.normalize();
+  }
+}
+
+/**
+ * Re-anchor and paint highlights in `root` (replacing earlier marks)
+ * @returns Ids of highlights whose quote is no longer in the content
+ */
+export function paintHighlights(
+  root: Element,
+  highlights: PaintableHighlight[],
+): string[] {
+  clearHighlightMarks(root);
+
+  const orphanedIds: string[] = [];
+  for (const highlight of highlights) {
+    // Each paint splits text nodes, so the index is rebuilt per highlight
+    const index = buildTextIndex(root);
+    const start = locateQuote(index.text, highlight);
+    if (start === null) {
+      orphanedIds.push(highlight._id);
+      continue;
+    }
+    wrapTextRange(index, start, start + highlight.text.length, highlight);
+  }
+  return orphanedIds;
+}
+
+/**
+ * Id of the highlight mark an event target sits in, if any
+ */
+export function getHighlightIdFromTarget(
+  target: EventTarget | null,
+): string | null {
+  const element =
+    target && (target as Node).nodeType === Node.ELEMENT_NODE
+      ? (target as Element)
+      : ((target as Node | null)?.parentElement ?? null);
+  return (
+    element
+      ?.closest(`mark[${HIGHLIGHT_MARK_ATTRIBUTE}]`)
+      ?.getAttribute(HIGHLIGHT_MARK_ATTRIBUTE) ?? null
+  );
+}
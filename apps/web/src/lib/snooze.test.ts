@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { getSnoozePresets, toDateTimeLocalValue } from "./snooze";
+
+describe("getSnoozePresets", () => {
+  it("offers tomorrow, Saturday and next Monday mornings", () => {
+    // Wednesday afternoon
+    const presets = getSnoozePresets(new Date(2026, 9, 21, 15, 30));
+
+    expect(presets).toEqual([
+      { id: "tomorrow", until: new Date(2026, 9, 22, 8).getTime() },
+      { id: "saturday", until: new Date(2026, 9, 24, 8).getTime() },
+      { id: "nextWeek", until: new Date(2026, 9, 26, 8).getTime() },
+    ]);
+  });
+
+  it("picks the following Saturday when it is already Saturday", () => {
+    const presets = getSnoozePresets(new Date(2026, 9, 24, 7));
+
+    expect(presets.find((preset) => preset.id === "saturday")?.until).toBe(
+      new Date(2026, 9, 31, 8).getTime(),
+    );
+  });
+});
+
+describe("toDateTimeLocalValue", () => {
+  it("formats local time for datetime-local inputs", () => {
+    expect(toDateTimeLocalValue(new Date(2026, 0, 5, 9, 7).getTime())).toBe(
+      "2026-01-05T09:07",
+    );
+  });
+});
@@ -0,0 +1,53 @@
+export type SnoozePresetId = "tomorrow" | "saturday" | "nextWeek";
+
+/** Hour (local time) a snoozed newsletter comes back on preset days */
+const MORNING_HOUR = 8;
+
+const SATURDAY = 6;
+const MONDAY = 1;
+
+/**
+ * `days` days after `now`, at the morning hour (local time)
+ */
+function morningInDays(now: Date, days: number): number {
+  const date = new Date(now);
+  date.setDate(date.getDate() + days);
+  date.setHours(MORNING_HOUR, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Days from `now` until the next given weekday (1-7, never today)
+ */
+function daysUntilWeekday(now: Date, weekday: number): number {
+  return ((weekday - now.getDay() + 6) % 7) + 1;
+}
+
+/**
+ * Snooze times offered in the snooze menus: tomorrow morning, Saturday
+ * morning and next Monday morning, all in the user's local time
+ */
+export function getSnoozePresets(
+  now: Date,
+): { id: SnoozePresetId; until: number }[] {
+  return [
+    { id: "tomorrow", until: morningInDays(now, 1) },
+    {
+      id: "saturday",
+      until: morningInDays(now, daysUntilWeekday(now, SATURDAY)),
+    },
+    { id: "nextWeek", until: morningInDays(now, daysUntilWeekday(now, MONDAY)) },
+  ];
+}
+
+/**
+ * Value for a datetime-local input (local time, minute precision)
+ */
+export function toDateTimeLocalValue(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
@@ -1,6 +1,21 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { getLocale } from "@/paraglide/runtime.js"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Name of a language (ISO 639-1 code) in the current locale, e.g. "fr" → "French"
+ */
+export function languageName(code: string): string {
+  try {
+    return (
+      new Intl.DisplayNames([getLocale()], { type: "language" }).of(code) ??
+      code
+    )
+  } catch {
+    return code
+  }
+}
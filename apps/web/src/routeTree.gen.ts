@@ -35,11 +35,15 @@ import { Route as AuthedNewslettersIdRouteImport } from './routes/_authed/newsle
 import { Route as AuthedNavigationAdminRouteRouteImport } from './routes/_authed/_navigation/admin/route'
 import { Route as AuthedNavigationSettingsIndexRouteImport } from './routes/_authed/_navigation/settings/index'
 import { Route as AuthedNavigationImportIndexRouteImport } from './routes/_authed/_navigation/import/index'
+import { Route as AuthedNavigationHighlightsIndexRouteImport } from './routes/_authed/_navigation/highlights/index'
+import { Route as AuthedNavigationDigestsIndexRouteImport } from './routes/_authed/_navigation/digests/index'
 import { Route as AuthedNavigationCommunityIndexRouteImport } from './routes/_authed/_navigation/community/index'
+import { Route as AuthedNavigationAskIndexRouteImport } from './routes/_authed/_navigation/ask/index'
 import { Route as AuthedNavigationAdminIndexRouteImport } from './routes/_authed/_navigation/admin/index'
 import { Route as AuthedNavigationSettingsPrivacyRouteImport } from './routes/_authed/_navigation/settings/privacy'
 import { Route as AuthedNavigationImportManualRouteImport } from './routes/_authed/_navigation/import/manual'
 import { Route as AuthedNavigationImportCallbackRouteImport } from './routes/_authed/_navigation/import/callback'
+import { Route as AuthedNavigationDigestsDigestIdRouteImport } from './routes/_authed/_navigation/digests/$digestId'
 import { Route as AuthedNavigationCommunityContentIdRouteImport } from './routes/_authed/_navigation/community/$contentId'
 import { Route as AuthedNavigationAdminPrivacyRouteImport } from './routes/_authed/_navigation/admin/privacy'
 import { Route as AuthedNavigationAdminModerationRouteImport } from './routes/_authed/_navigation/admin/moderation'
@@ -188,12 +192,30 @@ const AuthedNavigationImportIndexRoute =
     path: '/import/',
     getParentRoute: () => AuthedNavigationRouteRoute,
   } as any)
+const AuthedNavigationHighlightsIndexRoute =
+  AuthedNavigationHighlightsIndexRouteImport.update({
+    id: '/highlights/',
+    path: '/highlights/',
+    getParentRoute: () => AuthedNavigationRouteRoute,
+  } as any)
+const AuthedNavigationDigestsIndexRoute =
+  AuthedNavigationDigestsIndexRouteImport.update({
+    id: '/digests/',
+    path: '/digests/',
+    getParentRoute: () => AuthedNavigationRouteRoute,
+  } as any)
 const AuthedNavigationCommunityIndexRoute =
   AuthedNavigationCommunityIndexRouteImport.update({
     id: '/community/',
     path: '/community/',
     getParentRoute: () => AuthedNavigationRouteRoute,
   } as any)
+const AuthedNavigationAskIndexRoute =
+  AuthedNavigationAskIndexRouteImport.update({
+    id: '/ask/',
+    path: '/ask/',
+    getParentRoute: () => AuthedNavigationRouteRoute,
+  } as any)
 const AuthedNavigationAdminIndexRoute =
   AuthedNavigationAdminIndexRouteImport.update({
     id: '/',
@@ -218,6 +240,12 @@ const AuthedNavigationImportCallbackRoute =
     path: '/import/callback',
     getParentRoute: () => AuthedNavigationRouteRoute,
   } as any)
+const AuthedNavigationDigestsDigestIdRoute =
+  AuthedNavigationDigestsDigestIdRouteImport.update({
+    id: '/digests/$digestId',
+    path: '/digests/$digestId',
+    getParentRoute: () => AuthedNavigationRouteRoute,
+  } as any)
 const AuthedNavigationCommunityContentIdRoute =
   AuthedNavigationCommunityContentIdRouteImport.update({
     id: '/community/$contentId',
@@ -298,11 +326,15 @@ export interface FileRoutesByFullPath {
   '/admin/moderation': typeof AuthedNavigationAdminModerationRoute
   '/admin/privacy': typeof AuthedNavigationAdminPrivacyRoute
   '/community/$contentId': typeof AuthedNavigationCommunityContentIdRoute
+  '/digests/$digestId': typeof AuthedNavigationDigestsDigestIdRoute
   '/import/callback': typeof AuthedNavigationImportCallbackRoute
   '/import/manual': typeof AuthedNavigationImportManualRoute
   '/settings/privacy': typeof AuthedNavigationSettingsPrivacyRoute
   '/admin/': typeof AuthedNavigationAdminIndexRoute
+  '/ask/': typeof AuthedNavigationAskIndexRoute
   '/community/': typeof AuthedNavigationCommunityIndexRoute
+  '/digests/': typeof AuthedNavigationDigestsIndexRoute
+  '/highlights/': typeof AuthedNavigationHighlightsIndexRoute
   '/import/': typeof AuthedNavigationImportIndexRoute
   '/settings/': typeof AuthedNavigationSettingsIndexRoute
   '/community/sender/$senderEmail': typeof AuthedNavigationCommunitySenderSenderEmailRoute
@@ -337,11 +369,15 @@ export interface FileRoutesByTo {
   '/admin/moderation': typeof AuthedNavigationAdminModerationRoute
   '/admin/privacy': typeof AuthedNavigationAdminPrivacyRoute
   '/community/$contentId': typeof AuthedNavigationCommunityContentIdRoute
+  '/digests/$digestId': typeof AuthedNavigationDigestsDigestIdRoute
   '/import/callback': typeof AuthedNavigationImportCallbackRoute
   '/import/manual': typeof AuthedNavigationImportManualRoute
   '/settings/privacy': typeof AuthedNavigationSettingsPrivacyRoute
   '/admin': typeof AuthedNavigationAdminIndexRoute
+  '/ask': typeof AuthedNavigationAskIndexRoute
   '/community': typeof AuthedNavigationCommunityIndexRoute
+  '/digests': typeof AuthedNavigationDigestsIndexRoute
+  '/highlights': typeof AuthedNavigationHighlightsIndexRoute
   '/import': typeof AuthedNavigationImportIndexRoute
   '/settings': typeof AuthedNavigationSettingsIndexRoute
   '/community/sender/$senderEmail': typeof AuthedNavigationCommunitySenderSenderEmailRoute
@@ -379,11 +415,15 @@ export interface FileRoutesById {
   '/_authed/_navigation/admin/moderation': typeof AuthedNavigationAdminModerationRoute
   '/_authed/_navigation/admin/privacy': typeof AuthedNavigationAdminPrivacyRoute
   '/_authed/_navigation/community/$contentId': typeof AuthedNavigationCommunityContentIdRoute
+  '/_authed/_navigation/digests/$digestId': typeof AuthedNavigationDigestsDigestIdRoute
   '/_authed/_navigation/import/callback': typeof AuthedNavigationImportCallbackRoute
   '/_authed/_navigation/import/manual': typeof AuthedNavigationImportManualRoute
   '/_authed/_navigation/settings/privacy': typeof AuthedNavigationSettingsPrivacyRoute
   '/_authed/_navigation/admin/': typeof AuthedNavigationAdminIndexRoute
+  '/_authed/_navigation/ask/': typeof AuthedNavigationAskIndexRoute
   '/_authed/_navigation/community/': typeof AuthedNavigationCommunityIndexRoute
+  '/_authed/_navigation/digests/': typeof AuthedNavigationDigestsIndexRoute
+  '/_authed/_navigation/highlights/': typeof AuthedNavigationHighlightsIndexRoute
   '/_authed/_navigation/import/': typeof AuthedNavigationImportIndexRoute
   '/_authed/_navigation/settings/': typeof AuthedNavigationSettingsIndexRoute
   '/_authed/_navigation/community/sender/$senderEmail': typeof AuthedNavigationCommunitySenderSenderEmailRoute
@@ -421,11 +461,15 @@ export interface FileRouteTypes {
     | '/admin/moderation'
     | '/admin/privacy'
     | '/community/$contentId'
+    | '/digests/$digestId'
     | '/import/callback'
     | '/import/manual'
     | '/settings/privacy'
     | '/admin/'
+    | '/ask/'
     | '/community/'
+    | '/digests/'
+    | '/highlights/'
     | '/import/'
     | '/settings/'
     | '/community/sender/$senderEmail'
@@ -460,11 +504,15 @@ export interface FileRouteTypes {
     | '/admin/moderation'
     | '/admin/privacy'
     | '/community/$contentId'
+    | '/digests/$digestId'
     | '/import/callback'
     | '/import/manual'
     | '/settings/privacy'
     | '/admin'
+    | '/ask'
     | '/community'
+    | '/digests'
+    | '/highlights'
     | '/import'
     | '/settings'
     | '/community/sender/$senderEmail'
@@ -501,11 +549,15 @@ export interface FileRouteTypes {
     | '/_authed/_navigation/admin/moderation'
     | '/_authed/_navigation/admin/privacy'
     | '/_authed/_navigation/community/$contentId'
+    | '/_authed/_navigation/digests/$digestId'
     | '/_authed/_navigation/import/callback'
     | '/_authed/_navigation/import/manual'
     | '/_authed/_navigation/settings/privacy'
     | '/_authed/_navigation/admin/'
+    | '/_authed/_navigation/ask/'
     | '/_authed/_navigation/community/'
+    | '/_authed/_navigation/digests/'
+    | '/_authed/_navigation/highlights/'
     | '/_authed/_navigation/import/'
     | '/_authed/_navigation/settings/'
     | '/_authed/_navigation/community/sender/$senderEmail'
@@ -717,6 +769,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthedNavigationImportIndexRouteImport
       parentRoute: typeof AuthedNavigationRouteRoute
     }
+    '/_authed/_navigation/highlights/': {
+      id: '/_authed/_navigation/highlights/'
+      path: '/highlights'
+      fullPath: '/highlights/'
+      preLoaderRoute: typeof AuthedNavigationHighlightsIndexRouteImport
+      parentRoute: typeof AuthedNavigationRouteRoute
+    }
+    '/_authed/_navigation/digests/': {
+      id: '/_authed/_navigation/digests/'
+      path: '/digests'
+      fullPath: '/digests/'
+      preLoaderRoute: typeof AuthedNavigationDigestsIndexRouteImport
+      parentRoute: typeof AuthedNavigationRouteRoute
+    }
     '/_authed/_navigation/community/': {
       id: '/_authed/_navigation/community/'
       path: '/community'
@@ -724,6 +790,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthedNavigationCommunityIndexRouteImport
       parentRoute: typeof AuthedNavigationRouteRoute
     }
+    '/_authed/_navigation/ask/': {
+      id: '/_authed/_navigation/ask/'
+      path: '/ask'
+      fullPath: '/ask/'
+      preLoaderRoute: typeof AuthedNavigationAskIndexRouteImport
+      parentRoute: typeof AuthedNavigationRouteRoute
+    }
     '/_authed/_navigation/admin/': {
       id: '/_authed/_navigation/admin/'
       path: '/'
@@ -752,6 +825,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthedNavigationImportCallbackRouteImport
       parentRoute: typeof AuthedNavigationRouteRoute
     }
+    '/_authed/_navigation/digests/$digestId': {
+      id: '/_authed/_navigation/digests/$digestId'
+      path: '/digests/$digestId'
+      fullPath: '/digests/$digestId'
+      preLoaderRoute: typeof AuthedNavigationDigestsDigestIdRouteImport
+      parentRoute: typeof AuthedNavigationRouteRoute
+    }
     '/_authed/_navigation/community/$contentId': {
       id: '/_authed/_navigation/community/$contentId'
       path: '/community/$contentId'
@@ -840,10 +920,14 @@ const AuthedNavigationAdminRouteRouteWithChildren =
 interface AuthedNavigationRouteRouteChildren {
   AuthedNavigationAdminRouteRoute: typeof AuthedNavigationAdminRouteRouteWithChildren
   AuthedNavigationCommunityContentIdRoute: typeof AuthedNavigationCommunityContentIdRoute
+  AuthedNavigationDigestsDigestIdRoute: typeof AuthedNavigationDigestsDigestIdRoute
   AuthedNavigationImportCallbackRoute: typeof AuthedNavigationImportCallbackRoute
   AuthedNavigationImportManualRoute: typeof AuthedNavigationImportManualRoute
   AuthedNavigationSettingsPrivacyRoute: typeof AuthedNavigationSettingsPrivacyRoute
+  AuthedNavigationAskIndexRoute: typeof AuthedNavigationAskIndexRoute
   AuthedNavigationCommunityIndexRoute: typeof AuthedNavigationCommunityIndexRoute
+  AuthedNavigationDigestsIndexRoute: typeof AuthedNavigationDigestsIndexRoute
+  AuthedNavigationHighlightsIndexRoute: typeof AuthedNavigationHighlightsIndexRoute
   AuthedNavigationImportIndexRoute: typeof AuthedNavigationImportIndexRoute
   AuthedNavigationSettingsIndexRoute: typeof AuthedNavigationSettingsIndexRoute
   AuthedNavigationCommunitySenderSenderEmailRoute: typeof AuthedNavigationCommunitySenderSenderEmailRoute
@@ -853,10 +937,14 @@ const AuthedNavigationRouteRouteChildren: AuthedNavigationRouteRouteChildren = {
   AuthedNavigationAdminRouteRoute: AuthedNavigationAdminRouteRouteWithChildren,
   AuthedNavigationCommunityContentIdRoute:
     AuthedNavigationCommunityContentIdRoute,
+  AuthedNavigationDigestsDigestIdRoute: AuthedNavigationDigestsDigestIdRoute,
   AuthedNavigationImportCallbackRoute: AuthedNavigationImportCallbackRoute,
   AuthedNavigationImportManualRoute: AuthedNavigationImportManualRoute,
   AuthedNavigationSettingsPrivacyRoute: AuthedNavigationSettingsPrivacyRoute,
+  AuthedNavigationAskIndexRoute: AuthedNavigationAskIndexRoute,
   AuthedNavigationCommunityIndexRoute: AuthedNavigationCommunityIndexRoute,
+  AuthedNavigationDigestsIndexRoute: AuthedNavigationDigestsIndexRoute,
+  AuthedNavigationHighlightsIndexRoute: AuthedNavigationHighlightsIndexRoute,
   AuthedNavigationImportIndexRoute: AuthedNavigationImportIndexRoute,
   AuthedNavigationSettingsIndexRoute: AuthedNavigationSettingsIndexRoute,
   AuthedNavigationCommunitySenderSenderEmailRoute:
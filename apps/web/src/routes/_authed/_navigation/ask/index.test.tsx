@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import type { ComponentType, ReactNode } from "react";
+import { Route } from "./index";
+
+const mockAskNewsletters = vi.fn();
+const queryData: Record<string, unknown> = {};
+
+vi.mock("@tanstack/react-router", () => ({
+  createFileRoute: () => (options: unknown) => ({ options }),
+  Link: ({
+    children,
+    to,
+    params,
+    ...props
+  }: {
+    children: ReactNode;
+    to: string;
+    params?: { id: string };
+  }) => (
+    <a href={to.replace("$id", params?.id ?? "")} {...props}>
+      {children}
+    </a>
+  ),
+}));
+
+vi.mock("@convex-dev/react-query", () => ({
+  convexQuery: (query: string, args: unknown) => ({ queryKey: [query, args] }),
+}));
+
+vi.mock("@tanstack/react-query", () => ({
+  useQuery: ({ queryKey }: { queryKey: [string, unknown] }) => ({
+    data: queryData[queryKey[0]],
+  }),
+}));
+
+vi.mock("convex/react", () => ({
+  useAction: () => mockAskNewsletters,
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock("@hushletter/backend", () => ({
+  api: {
+    entitlements: { getEntitlements: "entitlements:getEntitlements" },
+    newsletterQa: { askNewsletters: "newsletterQa:askNewsletters" },
+  },
+}));
+
+const AskPage = (Route as unknown as { options: { component: ComponentType } })
+  .options.component;
+
+function ask(question: string) {
+  fireEvent.change(screen.getByLabelText("Your question"), {
+    target: { value: question },
+  });
+  fireEvent.click(screen.getByRole("button", { name: "Ask" }));
+}
+
+describe("Ask page", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queryData["entitlements:getEntitlements"] = { isPro: true };
+  });
+
+  it("shows the answer with its citations linked to the newsletters", async () => {
+    mockAskNewsletters.mockResolvedValue({
+      answer: "- The EU passed the AI Act [1]",
+      sources: [
+        {
+          ref: 1,
+          userNewsletterId: "n1",
+          subject: "Policy brief",
+          senderEmail: "policy@example.com",
+          senderName: "Policy Weekly",
+          receivedAt: Date.now(),
+        },
+      ],
+    });
+    render(<AskPage />);
+
+    ask("  EU AI regulation?  ");
+
+    expect(
+      await screen.findByRole("link", { name: "Open newsletter: Policy brief" }),
+    ).toHaveAttribute("href", "/newsletters/n1");
+    expect(screen.getByText(/The EU passed the AI Act/)).toBeInTheDocument();
+    expect(mockAskNewsletters).toHaveBeenCalledWith({
+      question: "EU AI regulation?",
+      since: undefined,
+    });
+  });
+
+  it("says so when no newsletter matches", async () => {
+    mockAskNewsletters.mockResolvedValue({ answer: null, sources: [] });
+    render(<AskPage />);
+
+    ask("Anything about gardening?");
+
+    await waitFor(() => {
+      expect(
+        screen.getByText(/None of your newsletters seem to cover this/),
+      ).toBeInTheDocument();
+    });
+  });
+
+  it("asks free users to upgrade", () => {
+    queryData["entitlements:getEntitlements"] = { isPro: false };
+    render(<AskPage />);
+
+    expect(
+      screen.getByText(/part of Hushletter Pro/),
+    ).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Ask" })).toBeNull();
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Ask Page
+ * Questions across the whole newsletter archive (Pro). The answer cites the
+ * newsletters it came from as [n], each linking to the issue, and lists them
+ * underneath.
+ */
+
+import { useMemo, useState } from "react";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useAction } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { Loader2, MessageCircleQuestion } from "lucide-react";
+import {
+  Button,
+  Card,
+  CardContent,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Textarea,
+} from "@hushletter/ui";
+import { toast } from "sonner";
+import { CitedText } from "@/components/CitedText";
+import { m } from "@/paraglide/messages.js";
+
+export const Route = createFileRoute("/_authed/_navigation/ask/")({
+  component: AskPage,
+});
+
+type AnswerSource = {
+  ref: number;
+  userNewsletterId: Id<"userNewsletters">;
+  subject: string;
+  senderEmail: string;
+  senderName?: string;
+  receivedAt: number;
+};
+
+type AskResult = { answer: string | null; sources: AnswerSource[] };
+
+type Period = "all" | "week" | "month" | "year";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIOD_DAYS: Record<Exclude<Period, "all">, number> = {
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+/**
+ * Message of a ConvexError, or the fallback for anything else
+ */
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ConvexError) {
+    return (error.data as { message?: string }).message ?? fallback;
+  }
+  return fallback;
+}
+
+function AskPage() {
+  const { data: entitlements } = useQuery(
+    convexQuery(api.entitlements.getEntitlements, {}),
+  );
+  const askNewsletters = useAction(api.newsletterQa.askNewsletters);
+  const [question, setQuestion] = useState("");
+  const [period, setPeriod] = useState<Period>("all");
+  const [isAsking, setIsAsking] = useState(false);
+  const [result, setResult] = useState<AskResult | null>(null);
+
+  const isPro = Boolean((entitlements as { isPro?: boolean } | undefined)?.isPro);
+  const newslettersByRef = useMemo(
+    () => new Map((result?.sources ?? []).map((source) => [source.ref, source])),
+    [result],
+  );
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = question.trim();
+    if (!trimmed || isAsking) return;
+
+    setIsAsking(true);
+    try {
+      const answer = await askNewsletters({
+        question: trimmed,
+        since:
+          period === "all"
+            ? undefined
+            : Date.now() - PERIOD_DAYS[period] * DAY_MS,
+      });
+      setResult(answer as AskResult);
+    } catch (error) {
+      console.error("[Ask] Failed to answer question:", error);
+      toast.error(getErrorMessage(error, m.ask_error()));
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <div className="mb-6 flex items-center gap-3">
+        <MessageCircleQuestion className="h-8 w-8 text-primary" />
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">
+            {m.ask_title()}
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            {m.ask_pageDescription()}
+          </p>
+        </div>
+      </div>
+
+      {entitlements !== undefined && !isPro ? (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <p className="text-muted-foreground">{m.ask_proRequired()}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <form className="space-y-3" onSubmit={handleSubmit}>
+          <Label htmlFor="ask-question" className="sr-only">
+            {m.ask_questionLabel()}
+          </Label>
+          <Textarea
+            id="ask-question"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                e.currentTarget.form?.requestSubmit();
+              }
+            }}
+            placeholder={m.ask_placeholder()}
+            maxLength={500}
+            rows={3}
+          />
+          <div className="flex items-center justify-end gap-3">
+            <Select
+              value={period}
+              onValueChange={(v) => v !== null && setPeriod(v as Period)}
+            >
+              <SelectTrigger
+                className="w-[170px]"
+                aria-label={m.ask_periodLabel()}
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{m.ask_periodAll()}</SelectItem>
+                <SelectItem value="week">{m.ask_periodWeek()}</SelectItem>
+                <SelectItem value="month">{m.ask_periodMonth()}</SelectItem>
+                <SelectItem value="year">{m.ask_periodYear()}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              type="submit"
+              disabled={isAsking || question.trim().length === 0}
+            >
+              {isAsking && (
+                <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+              )}
+              {m.ask_submit()}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {isAsking ? (
+        <p className="mt-8 text-sm text-muted-foreground">{m.ask_asking()}</p>
+      ) : result && result.answer !== null ? (
+        <section className="mt-8 space-y-6">
+          <CitedText text={result.answer} newslettersByRef={newslettersByRef} />
+          <div className="space-y-2 border-t pt-4">
+            <h2 className="text-sm font-semibold">{m.ask_sources()}</h2>
+            <ul className="space-y-1">
+              {result.sources.map((source) => (
+                <li key={source.ref} className="flex gap-2 text-sm">
+                  <span className="text-muted-foreground">[{source.ref}]</span>
+                  <Link
+                    to="/newsletters/$id"
+                    params={{ id: source.userNewsletterId }}
+                    className="min-w-0 truncate hover:underline"
+                  >
+                    {source.subject}
+                  </Link>
+                  <span className="shrink-0 text-muted-foreground">
+                    {source.senderName || source.senderEmail} ·{" "}
+                    {new Date(source.receivedAt).toLocaleDateString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </section>
+      ) : result ? (
+        <Card className="mt-8">
+          <CardContent className="py-8 text-center">
+            <p className="text-muted-foreground">{m.ask_noMatch()}</p>
+          </CardContent>
+        </Card>
+      ) : null}
+    </div>
+  );
+}
@@ -5,7 +5,17 @@ import { api } from "@hushletter/backend";
 import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
 import DOMPurify from "dompurify";
 import { Button, Card, CardContent, CardHeader, CardTitle } from "@hushletter/ui";
-import { ArrowLeft, Plus, Users, Check, Sparkles, Loader2, AlertCircle } from "lucide-react";
+import {
+  ArrowLeft,
+  Plus,
+  Users,
+  Check,
+  Sparkles,
+  Loader2,
+  AlertCircle,
+  ListPlus,
+  ListChecks,
+} from "lucide-react";
 import { m } from "@/paraglide/messages.js";
 
 export const Route = createFileRoute("/_authed/_navigation/community/$contentId")({
@@ -104,6 +114,10 @@ function CommunityReaderPage() {
   const [alreadyInCollection, setAlreadyInCollection] = useState(false);
   const [addError, setAddError] = useState<string | null>(null);
 
+  // Read later state (adds to collection, then to the reading queue)
+  const [isQueueing, setIsQueueing] = useState(false);
+  const [isQueued, setIsQueued] = useState(false);
+
   // Ref for scroll container
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
@@ -112,6 +126,7 @@ function CommunityReaderPage() {
 
   // Mutation to add to collection
   const addToCollection = useMutation(api.community.addToCollection);
+  const addToReadingQueue = useMutation(api.readingQueue.addToReadingQueue);
 
   // Fetch content on mount
   useEffect(() => {
@@ -260,6 +275,25 @@ function CommunityReaderPage() {
     }
   };
 
+  // Handle read later: stays on this page, unlike add to collection
+  const handleReadLater = async () => {
+    try {
+      setIsQueueing(true);
+      setAddError(null);
+      const result = await addToCollection({
+        contentId: contentId as Id<"newsletterContent">,
+      });
+      setAlreadyInCollection(true);
+      await addToReadingQueue({ userNewsletterId: result.userNewsletterId });
+      setIsQueued(true);
+    } catch (err) {
+      console.error("[CommunityReader] Failed to add to reading queue:", err);
+      setAddError(m.readingQueue_error());
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
   // Format date
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString(undefined, {
@@ -327,6 +361,24 @@ function CommunityReaderPage() {
                     </>
                   )}
                 </Button>
+                {/* Read later button */}
+                <Button
+                  onClick={handleReadLater}
+                  disabled={isQueueing || isQueued}
+                  variant="outline"
+                  size="sm"
+                >
+                  {isQueueing ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : isQueued ? (
+                    <ListChecks className="h-4 w-4 mr-1" />
+                  ) : (
+                    <ListPlus className="h-4 w-4 mr-1" />
+                  )}
+                  {isQueued
+                    ? m.readingQueue_added()
+                    : m.readingQueue_readLater()}
+                </Button>
                 {/* Error message */}
                 {addError && (
                   <div className="flex items-center gap-1 text-xs text-destructive">
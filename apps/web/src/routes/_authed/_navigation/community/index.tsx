@@ -242,6 +242,7 @@ function CommunityBrowsePage() {
 
   // Story 9.9 Task 6.1: Quick import mutation
   const addToCollection = useMutation(api.community.addToCollection);
+  const addToReadingQueue = useMutation(api.readingQueue.addToReadingQueue);
   const queryClient = useQueryClient();
 
   // Infinite scroll observer ref
@@ -495,6 +496,23 @@ function CommunityBrowsePage() {
     }
   };
 
+  // Read later: import if needed, then append to the reading queue
+  const handleReadLater = async (newsletter: CommunityNewsletterData) => {
+    try {
+      const result = await addToCollection({
+        contentId: newsletter._id as Id<"newsletterContent">,
+      });
+      await addToReadingQueue({ userNewsletterId: result.userNewsletterId });
+      toast.success(m.readingQueue_added());
+      if (!result.alreadyExists) {
+        queryClient.invalidateQueries({ queryKey: ["community-newsletters"] });
+      }
+    } catch (error) {
+      console.error("[read-later] Failed:", error);
+      toast.error(m.readingQueue_error());
+    }
+  };
+
   // Render newsletter list content
   const renderNewsletterList = () => {
     const isLoading = deferredSearchQuery ? isSearchPending || isSearching : isPending;
@@ -531,6 +549,7 @@ function CommunityBrowsePage() {
               handleSelectionChange(newsletter._id as Id<"newsletterContent">, selected)
             }
             onQuickImport={!selectionMode ? () => handleQuickImport(newsletter) : undefined}
+            onReadLater={!selectionMode ? () => handleReadLater(newsletter) : undefined}
           />
         ))}
 
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import type { ComponentType, ReactNode } from "react";
+import { Route } from "./$digestId";
+
+const mockMarkDigestRead = vi.fn();
+const queryData: Record<string, unknown> = {};
+
+vi.mock("@tanstack/react-router", () => ({
+  createFileRoute: () => (options: unknown) => ({
+    options,
+    useParams: () => ({ digestId: "d1" }),
+  }),
+  Link: ({
+    children,
+    to,
+    params,
+    ...props
+  }: {
+    children: ReactNode;
+    to: string;
+    params?: { id: string };
+  }) => (
+    <a href={to.replace("$id", params?.id ?? "")} {...props}>
+      {children}
+    </a>
+  ),
+}));
+
+vi.mock("@convex-dev/react-query", () => ({
+  convexQuery: (query: string, args: unknown) => ({ queryKey: [query, args] }),
+}));
+
+vi.mock("@tanstack/react-query", () => ({
+  useQuery: ({ queryKey }: { queryKey: [string, unknown] }) => ({
+    data: queryData[queryKey[0]],
+    isPending: queryData[queryKey[0]] === undefined,
+  }),
+}));
+
+vi.mock("convex/react", () => ({
+  useMutation: () => mockMarkDigestRead,
+}));
+
+vi.mock("@hushletter/backend", () => ({
+  api: {
+    digests: {
+      getDigest: "digests:getDigest",
+      markDigestRead: "digests:markDigestRead",
+    },
+  },
+}));
+
+const DigestPage = (
+  Route as unknown as { options: { component: ComponentType } }
+).options.component;
+
+describe("Digest page", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockMarkDigestRead.mockResolvedValue(null);
+    queryData["digests:getDigest"] = {
+      _id: "d1",
+      frequency: "weekly",
+      periodStart: Date.now() - 7 * 24 * 60 * 60 * 1000,
+      periodEnd: Date.now(),
+      briefing: "## Finance\n- Rates rose again [1][2]",
+      sections: [
+        {
+          folderName: "Finance",
+          newsletters: [
+            {
+              ref: 1,
+              userNewsletterId: "n1",
+              subject: "Rates rise",
+              senderEmail: "money@example.com",
+              senderName: "Money Weekly",
+            },
+          ],
+        },
+      ],
+      isRead: false,
+    };
+  });
+
+  it("links citations back to their newsletters and marks the digest read", async () => {
+    render(<DigestPage />);
+
+    expect(
+      screen.getByRole("heading", { name: "Finance", level: 2 }),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("link", { name: "Open newsletter: Rates rise" }),
+    ).toHaveAttribute("href", "/newsletters/n1");
+    // A citation the digest doesn't know about stays plain text
+    expect(screen.getByText(/\[2\]/)).toBeInTheDocument();
+    expect(screen.getByText("Money Weekly")).toBeInTheDocument();
+
+    await waitFor(() => {
+      expect(mockMarkDigestRead).toHaveBeenCalledWith({ digestId: "d1" });
+    });
+  });
+
+  it("does not mark an already read digest again", () => {
+    queryData["digests:getDigest"] = {
+      ...(queryData["digests:getDigest"] as object),
+      isRead: true,
+    };
+    render(<DigestPage />);
+
+    expect(mockMarkDigestRead).not.toHaveBeenCalled();
+  });
+
+  it("shows a message for a missing digest", () => {
+    queryData["digests:getDigest"] = null;
+    render(<DigestPage />);
+
+    expect(screen.getByText("Digest not found")).toBeInTheDocument();
+  });
+});
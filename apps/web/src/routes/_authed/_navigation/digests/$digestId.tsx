@@ -0,0 +1,150 @@
+/**
+ * Digest Reader
+ * One AI briefing, with every [n] citation linking to the newsletter it came
+ * from, followed by the newsletters it covers grouped by folder. Opening a
+ * digest marks it read.
+ */
+
+import { useEffect, useMemo } from "react";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation } from "convex/react";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { ArrowLeft, Sparkles } from "lucide-react";
+import { Card, CardContent } from "@hushletter/ui";
+import { CitedText } from "@/components/CitedText";
+import { formatDigestPeriod } from "@/lib/digestBriefing";
+import { m } from "@/paraglide/messages.js";
+
+export const Route = createFileRoute("/_authed/_navigation/digests/$digestId")({
+  component: DigestPage,
+});
+
+type DigestNewsletter = {
+  ref: number;
+  userNewsletterId: Id<"userNewsletters">;
+  subject: string;
+  senderEmail: string;
+  senderName?: string;
+};
+
+type Digest = {
+  _id: Id<"digests">;
+  frequency: "daily" | "weekly";
+  periodStart: number;
+  periodEnd: number;
+  briefing: string;
+  sections: { folderName: string; newsletters: DigestNewsletter[] }[];
+  isRead: boolean;
+};
+
+function DigestPage() {
+  const { digestId } = Route.useParams();
+  const { data, isPending } = useQuery(
+    convexQuery(api.digests.getDigest, {
+      digestId: digestId as Id<"digests">,
+    }),
+  );
+  const markDigestRead = useMutation(api.digests.markDigestRead);
+
+  const digest = data as Digest | null | undefined;
+  const shouldMarkRead = digest ? !digest.isRead : false;
+
+  useEffect(() => {
+    if (!shouldMarkRead) return;
+    markDigestRead({ digestId: digestId as Id<"digests"> }).catch((error) => {
+      console.error("[Digest] Failed to mark digest read:", error);
+    });
+  }, [shouldMarkRead, digestId, markDigestRead]);
+
+  const newslettersByRef = useMemo(
+    () =>
+      new Map(
+        (digest?.sections ?? []).flatMap((section) =>
+          section.newsletters.map(
+            (newsletter) => [newsletter.ref, newsletter] as const,
+          ),
+        ),
+      ),
+    [digest],
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <Link
+        to="/digests"
+        className="mb-6 inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="h-4 w-4" aria-hidden="true" />
+        {m.digest_back()}
+      </Link>
+
+      {isPending ? (
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-muted rounded w-1/2" />
+          <div className="h-4 bg-muted rounded w-full" />
+          <div className="h-4 bg-muted rounded w-5/6" />
+        </div>
+      ) : !digest ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">{m.digest_notFound()}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <article className="space-y-8">
+          <header className="flex items-center gap-3">
+            <Sparkles className="h-8 w-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">
+                {digest.frequency === "daily"
+                  ? m.digest_daily()
+                  : m.digest_weekly()}
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                {formatDigestPeriod(digest.periodStart, digest.periodEnd)}
+              </p>
+            </div>
+          </header>
+
+          <CitedText
+            text={digest.briefing}
+            newslettersByRef={newslettersByRef}
+          />
+
+          <section className="space-y-4 border-t pt-6">
+            <h2 className="text-lg font-semibold">{m.digest_sources()}</h2>
+            {digest.sections.map((section) => (
+              <div key={section.folderName} className="space-y-1">
+                <h3 className="text-sm font-medium text-muted-foreground">
+                  {section.folderName}
+                </h3>
+                <ul className="space-y-1">
+                  {section.newsletters.map((newsletter) => (
+                    <li key={newsletter.ref} className="flex gap-2 text-sm">
+                      <span className="text-muted-foreground">
+                        [{newsletter.ref}]
+                      </span>
+                      <Link
+                        to="/newsletters/$id"
+                        params={{ id: newsletter.userNewsletterId }}
+                        className="min-w-0 truncate hover:underline"
+                      >
+                        {newsletter.subject}
+                      </Link>
+                      <span className="shrink-0 text-muted-foreground">
+                        {newsletter.senderName || newsletter.senderEmail}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </section>
+        </article>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+/**
+ * Digests Page
+ * The user's daily or weekly AI briefings, newest first. Each one opens in
+ * the digest reader with links back to the newsletters it covers.
+ */
+
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation } from "convex/react";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { Sparkles, Trash2 } from "lucide-react";
+import { Badge, Button, Card, CardContent } from "@hushletter/ui";
+import { toast } from "sonner";
+import { formatDigestPeriod } from "@/lib/digestBriefing";
+import { m } from "@/paraglide/messages.js";
+
+export const Route = createFileRoute("/_authed/_navigation/digests/")({
+  component: DigestsPage,
+});
+
+type DigestListItem = {
+  _id: Id<"digests">;
+  frequency: "daily" | "weekly";
+  periodStart: number;
+  periodEnd: number;
+  newsletterCount: number;
+  isRead: boolean;
+};
+
+function DigestsPage() {
+  const {
+    data: digests,
+    isPending,
+    error,
+  } = useQuery(convexQuery(api.digests.listDigests, {}));
+  const deleteDigest = useMutation(api.digests.deleteDigest);
+
+  const digestList = (digests ?? []) as DigestListItem[];
+
+  const handleDelete = async (digestId: Id<"digests">) => {
+    try {
+      await deleteDigest({ digestId });
+      toast.success(m.digest_deleted());
+    } catch (error) {
+      console.error("[Digests] Failed to delete digest:", error);
+      toast.error(m.digest_deleteFailed());
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="mb-6 flex items-center gap-3">
+        <Sparkles className="h-8 w-8 text-primary" />
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">
+            {m.digest_title()}
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            {m.digest_pageDescription()}
+          </p>
+        </div>
+      </div>
+
+      {isPending ? (
+        <div className="animate-pulse space-y-4">
+          <div className="h-16 bg-muted rounded" />
+          <div className="h-16 bg-muted rounded" />
+        </div>
+      ) : error ? (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <p className="text-destructive">{m.digest_loadError()}</p>
+          </CardContent>
+        </Card>
+      ) : digestList.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="font-medium">{m.digest_emptyState()}</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              {m.digest_emptyStateDesc()}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <ul className="space-y-3">
+          {digestList.map((digest) => (
+            <li key={digest._id}>
+              <Card>
+                <CardContent className="py-4 flex items-center gap-3">
+                  <div className="min-w-0 flex-1">
+                    <Link
+                      to="/digests/$digestId"
+                      params={{ digestId: digest._id }}
+                      className="font-medium hover:underline"
+                    >
+                      {digest.frequency === "daily"
+                        ? m.digest_daily()
+                        : m.digest_weekly()}
+                    </Link>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDigestPeriod(digest.periodStart, digest.periodEnd)}{" "}
+                      · {m.digest_newsletterCount({ count: digest.newsletterCount })}
+                    </p>
+                  </div>
+                  {!digest.isRead && <Badge>{m.digest_unread()}</Badge>}
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    aria-label={m.digest_delete()}
+                    onClick={() => void handleDelete(digest._id)}
+                  >
+                    <Trash2 className="h-4 w-4" aria-hidden="true" />
+                  </Button>
+                </CardContent>
+              </Card>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
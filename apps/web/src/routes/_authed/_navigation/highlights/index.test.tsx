@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import type { ComponentType, ReactNode } from "react";
+import { Route } from "./index";
+
+const mockDeleteHighlight = vi.fn();
+const queryData: Record<string, unknown> = {};
+const queryArgs: Record<string, unknown> = {};
+
+vi.mock("@tanstack/react-router", () => ({
+  createFileRoute: () => (options: unknown) => ({ options }),
+  Link: ({
+    children,
+    to,
+    params,
+    ...props
+  }: {
+    children: ReactNode;
+    to: string;
+    params?: { id: string };
+  }) => (
+    <a href={to.replace("$id", params?.id ?? "")} {...props}>
+      {children}
+    </a>
+  ),
+}));
+
+vi.mock("@convex-dev/react-query", () => ({
+  convexQuery: (query: string, args: unknown) => ({ queryKey: [query, args] }),
+}));
+
+vi.mock("@tanstack/react-query", () => ({
+  useQuery: ({ queryKey }: { queryKey: [string, unknown] }) => {
+    queryArgs[queryKey[0]] = queryKey[1];
+    return {
+      data: queryData[queryKey[0]],
+      isPending: queryData[queryKey[0]] === undefined,
+      error: null,
+    };
+  },
+}));
+
+vi.mock("convex/react", () => ({
+  useMutation: () => mockDeleteHighlight,
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock("@hushletter/backend", () => ({
+  api: {
+    highlights: {
+      listHighlights: "highlights:listHighlights",
+      listHighlightSenders: "highlights:listHighlightSenders",
+      deleteHighlight: "highlights:deleteHighlight",
+    },
+  },
+}));
+
+const HighlightsPage = (
+  Route as unknown as { options: { component: ComponentType } }
+).options.component;
+
+describe("Highlights page", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queryData["highlights:listHighlights"] = [
+      {
+        _id: "h1",
+        userNewsletterId: "n1",
+        text: "Rates are rising",
+        color: "yellow",
+        note: "Compare with last month",
+        subject: "Weekly Markets",
+        senderEmail: "weekly@example.com",
+        senderName: "Weekly",
+        createdAt: Date.now(),
+      },
+    ];
+    queryData["highlights:listHighlightSenders"] = [
+      { senderEmail: "weekly@example.com", senderName: "Weekly", count: 1 },
+    ];
+  });
+
+  it("lists highlights with their note and newsletter", () => {
+    render(<HighlightsPage />);
+
+    expect(screen.getByText("Rates are rising")).toBeInTheDocument();
+    expect(screen.getByText("Compare with last month")).toBeInTheDocument();
+    expect(
+      screen.getByRole("link", { name: "Open newsletter: Weekly Markets" }),
+    ).toHaveAttribute("href", "/newsletters/n1");
+  });
+
+  it("passes search and the notes filter to the query", async () => {
+    render(<HighlightsPage />);
+
+    fireEvent.change(screen.getByLabelText("Search highlights and notes"), {
+      target: { value: " rates " },
+    });
+    fireEvent.click(screen.getByRole("checkbox"));
+
+    await waitFor(() => {
+      expect(queryArgs["highlights:listHighlights"]).toEqual({
+        search: "rates",
+        color: undefined,
+        senderEmail: undefined,
+        withNotesOnly: true,
+      });
+    });
+  });
+
+  it("shows the empty state and deletes highlights", async () => {
+    const { unmount } = render(<HighlightsPage />);
+    fireEvent.click(screen.getByRole("button", { name: "Delete highlight" }));
+    await waitFor(() => {
+      expect(mockDeleteHighlight).toHaveBeenCalledWith({ highlightId: "h1" });
+    });
+    unmount();
+
+    queryData["highlights:listHighlights"] = [];
+    render(<HighlightsPage />);
+    expect(screen.getByText("No highlights yet")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Highlights Page
+ * Every quote the user highlighted in the reader, with its note, across the
+ * whole archive. Searchable (quotes and notes) and filterable by color,
+ * sender and notes.
+ */
+
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation } from "convex/react";
+import { api } from "@hushletter/backend";
+import type { Id } from "@hushletter/backend/convex/_generated/dataModel";
+import { useDeferredValue, useState } from "react";
+import { Highlighter, Search, StickyNote, Trash2 } from "lucide-react";
+import {
+  Button,
+  Card,
+  CardContent,
+  Checkbox,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@hushletter/ui";
+import { toast } from "sonner";
+import {
+  HIGHLIGHT_COLORS,
+  type HighlightColor,
+} from "@/lib/highlightAnchoring";
+import { m } from "@/paraglide/messages.js";
+
+export const Route = createFileRoute("/_authed/_navigation/highlights/")({
+  component: HighlightsPage,
+});
+
+type HighlightListItem = {
+  _id: Id<"highlights">;
+  userNewsletterId: Id<"userNewsletters">;
+  text: string;
+  color: HighlightColor;
+  note?: string;
+  subject: string;
+  senderEmail: string;
+  senderName?: string;
+  createdAt: number;
+};
+
+type HighlightSender = {
+  senderEmail: string;
+  senderName?: string;
+  count: number;
+};
+
+const COLOR_ORDER: HighlightColor[] = ["yellow", "green", "blue", "pink"];
+
+function getColorLabel(color: HighlightColor): string {
+  switch (color) {
+    case "yellow":
+      return m.highlights_colorYellow();
+    case "green":
+      return m.highlights_colorGreen();
+    case "blue":
+      return m.highlights_colorBlue();
+    case "pink":
+      return m.highlights_colorPink();
+  }
+}
+
+function HighlightsPage() {
+  const [searchQuery, setSearchQuery] = useState("");
+  const deferredSearchQuery = useDeferredValue(searchQuery);
+  const [color, setColor] = useState<HighlightColor | "all">("all");
+  const [senderEmail, setSenderEmail] = useState("all");
+  const [withNotesOnly, setWithNotesOnly] = useState(false);
+
+  const search = deferredSearchQuery.trim();
+  const hasFilters =
+    search !== "" || color !== "all" || senderEmail !== "all" || withNotesOnly;
+
+  const {
+    data: highlights,
+    isPending,
+    error,
+  } = useQuery(
+    convexQuery(api.highlights.listHighlights, {
+      search: search || undefined,
+      color: color === "all" ? undefined : color,
+      senderEmail: senderEmail === "all" ? undefined : senderEmail,
+      withNotesOnly: withNotesOnly || undefined,
+    }),
+  );
+  const { data: senders } = useQuery(
+    convexQuery(api.highlights.listHighlightSenders, {}),
+  );
+  const deleteHighlight = useMutation(api.highlights.deleteHighlight);
+
+  const highlightList = (highlights ?? []) as HighlightListItem[];
+  const senderList = (senders ?? []) as HighlightSender[];
+
+  const handleDelete = async (highlightId: Id<"highlights">) => {
+    try {
+      await deleteHighlight({ highlightId });
+      toast.success(m.highlights_deleted());
+    } catch (error) {
+      console.error("[Highlights] Failed to delete highlight:", error);
+      toast.error(m.highlights_error());
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="mb-6 flex items-center gap-3">
+        <Highlighter className="h-8 w-8 text-primary" />
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">
+            {m.highlights_title()}
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            {m.highlights_pageDescription()}
+          </p>
+        </div>
+      </div>
+
+      {/* Search and filters */}
+      <div className="mb-6 flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[220px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder={m.highlights_searchPlaceholder()}
+            aria-label={m.highlights_searchPlaceholder()}
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select
+          value={color}
+          onValueChange={(v) => v !== null && setColor(v as HighlightColor | "all")}
+        >
+          <SelectTrigger className="w-[140px]" aria-label={m.highlights_allColors()}>
+            <SelectValue placeholder={m.highlights_allColors()} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{m.highlights_allColors()}</SelectItem>
+            {COLOR_ORDER.map((value) => (
+              <SelectItem key={value} value={value}>
+                {getColorLabel(value)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={senderEmail}
+          onValueChange={(v) => v !== null && setSenderEmail(v)}
+        >
+          <SelectTrigger className="w-[200px]" aria-label={m.highlights_allSenders()}>
+            <SelectValue placeholder={m.highlights_allSenders()} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{m.highlights_allSenders()}</SelectItem>
+            {senderList.map((sender) => (
+              <SelectItem key={sender.senderEmail} value={sender.senderEmail}>
+                {sender.senderName || sender.senderEmail}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={withNotesOnly}
+            onCheckedChange={(checked) => setWithNotesOnly(checked === true)}
+          />
+          {m.highlights_withNotesOnly()}
+        </Label>
+      </div>
+
+      {isPending ? (
+        <div className="animate-pulse space-y-4">
+          <div className="h-24 bg-muted rounded" />
+          <div className="h-24 bg-muted rounded" />
+        </div>
+      ) : error ? (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <p className="text-destructive">{m.highlights_loadError()}</p>
+          </CardContent>
+        </Card>
+      ) : highlightList.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            {hasFilters ? (
+              <p className="text-muted-foreground">
+                {m.highlights_noResults()}
+              </p>
+            ) : (
+              <>
+                <p className="font-medium">{m.highlights_emptyState()}</p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  {m.highlights_emptyStateDesc()}
+                </p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <ul className="space-y-3">
+          {highlightList.map((highlight) => (
+            <li key={highlight._id}>
+              <Card>
+                <CardContent className="py-4 space-y-3">
+                  <blockquote
+                    className="border-l-4 pl-3 text-foreground"
+                    style={{ borderColor: HIGHLIGHT_COLORS[highlight.color] }}
+                  >
+                    <span
+                      className="rounded-sm px-0.5"
+                      style={{
+                        backgroundColor: HIGHLIGHT_COLORS[highlight.color],
+                      }}
+                    >
+                      {highlight.text}
+                    </span>
+                  </blockquote>
+                  {highlight.note && (
+                    <p className="flex gap-2 text-sm text-muted-foreground whitespace-pre-wrap">
+                      <StickyNote
+                        className="h-4 w-4 shrink-0 mt-0.5"
+                        aria-hidden="true"
+                      />
+                      {highlight.note}
+                    </p>
+                  )}
+                  <div className="flex items-center gap-3 text-sm">
+                    <div className="min-w-0 flex-1">
+                      <Link
+                        to="/newsletters/$id"
+                        params={{ id: highlight.userNewsletterId }}
+                        className="font-medium truncate block hover:underline"
+                        aria-label={`${m.highlights_openNewsletter()}: ${highlight.subject}`}
+                      >
+                        {highlight.subject}
+                      </Link>
+                      <p className="text-muted-foreground truncate">
+                        {highlight.senderName || highlight.senderEmail} ·{" "}
+                        {new Date(highlight.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      aria-label={m.highlights_delete()}
+                      onClick={() => void handleDelete(highlight._id)}
+                    >
+                      <Trash2 className="h-4 w-4" aria-hidden="true" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -20,7 +20,7 @@ describe("NewslettersPage validateSearch", () => {
     });
   });
 
-  it("accepts supported filters (hidden, starred, bin)", () => {
+  it("accepts supported filters (hidden, starred, bin, snoozed, queue)", () => {
     expect(validateNewsletterSearch({ filter: "hidden" })).toEqual({
       folder: undefined,
       filter: "hidden",
@@ -38,6 +38,18 @@ describe("NewslettersPage validateSearch", () => {
       filter: "bin",
       newsletter: undefined,
     });
+
+    expect(validateNewsletterSearch({ filter: "snoozed" })).toEqual({
+      folder: undefined,
+      filter: "snoozed",
+      newsletter: undefined,
+    });
+
+    expect(validateNewsletterSearch({ filter: "queue" })).toEqual({
+      folder: undefined,
+      filter: "queue",
+      newsletter: undefined,
+    });
   });
 
   it("rejects unknown filters", () => {
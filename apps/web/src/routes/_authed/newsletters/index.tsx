@@ -30,24 +30,34 @@ import { toast } from "sonner";
 const FILTER_HIDDEN = "hidden" as const;
 const FILTER_STARRED = "starred" as const;
 const FILTER_BIN = "bin" as const;
+const FILTER_SNOOZED = "snoozed" as const;
+const FILTER_QUEUE = "queue" as const;
 const LAST_READ_KEY = "hushletter:lastNewsletter";
 type FilterType =
   | typeof FILTER_HIDDEN
   | typeof FILTER_STARRED
-  | typeof FILTER_BIN;
+  | typeof FILTER_BIN
+  | typeof FILTER_SNOOZED
+  | typeof FILTER_QUEUE;
 
 /**
  * Search params schema for URL-based filtering
  * - /newsletters                                    → All newsletters
  * - /newsletters?folder={folderId}                 → Folder view
+ * - /newsletters?smart={smartFolderId}             → Smart folder (saved filter) view
+ * - /newsletters?tag={tagId}                       → Tag view
  * - /newsletters?filter=hidden                     → Hidden newsletters
  * - /newsletters?filter=starred                    → Favorited newsletters
  * - /newsletters?filter=bin                        → Binned newsletters
+ * - /newsletters?filter=snoozed                    → Snoozed newsletters
+ * - /newsletters?filter=queue                      → Reading queue, in queue order
  * - /newsletters?folder={folderId}&newsletter={id} → Folder + inline reader (desktop)
  * - /newsletters?newsletter={id}                   → Inline reader (desktop)
  */
 type NewsletterSearchParams = {
   folder?: string;
+  smart?: string;
+  tag?: string;
   filter?: FilterType;
   newsletter?: string;
 };
@@ -128,16 +138,22 @@ export function validateNewsletterSearch(
   search: Record<string, unknown>,
 ): NewsletterSearchParams {
   const folder = typeof search.folder === "string" ? search.folder : undefined;
+  const smart = typeof search.smart === "string" ? search.smart : undefined;
+  const tag = typeof search.tag === "string" ? search.tag : undefined;
   const filter = typeof search.filter === "string" ? search.filter : undefined;
   const newsletter =
     typeof search.newsletter === "string" ? search.newsletter : undefined;
 
   return {
     folder: isValidConvexId(folder) ? folder : undefined,
+    smart: isValidConvexId(smart) ? smart : undefined,
+    tag: isValidConvexId(tag) ? tag : undefined,
     filter:
       filter === FILTER_HIDDEN ||
       filter === FILTER_STARRED ||
-      filter === FILTER_BIN
+      filter === FILTER_BIN ||
+      filter === FILTER_SNOOZED ||
+      filter === FILTER_QUEUE
         ? (filter as FilterType)
         : undefined,
     newsletter: isValidConvexId(newsletter) ? newsletter : undefined,
@@ -278,6 +294,8 @@ function PageSkeleton() {
 function NewslettersPage() {
   const {
     folder: folderIdParam,
+    smart: smartFolderIdParam,
+    tag: tagIdParam,
     filter: filterParam,
     newsletter: newsletterIdParam,
   } = Route.useSearch();
@@ -316,6 +334,8 @@ function NewslettersPage() {
           to: "/newsletters",
           search: {
             ...(folderIdParam ? { folder: folderIdParam } : {}),
+            ...(smartFolderIdParam ? { smart: smartFolderIdParam } : {}),
+            ...(tagIdParam ? { tag: tagIdParam } : {}),
             ...(filterParam ? { filter: filterParam } : {}),
             newsletter: lastId,
           },
@@ -354,11 +374,32 @@ function NewslettersPage() {
   const isFilteringByHidden = effectiveFilter === FILTER_HIDDEN;
   const isFilteringByStarred = effectiveFilter === FILTER_STARRED;
   const isFilteringByBinned = effectiveFilter === FILTER_BIN;
+  const isFilteringBySnoozed = effectiveFilter === FILTER_SNOOZED;
+  const isFilteringByQueue = effectiveFilter === FILTER_QUEUE;
   const isFilteringByFolder =
     !!folderIdParam &&
     !isFilteringByHidden &&
     !isFilteringByStarred &&
-    !isFilteringByBinned;
+    !isFilteringByBinned &&
+    !isFilteringBySnoozed &&
+    !isFilteringByQueue;
+  const isFilteringBySmartFolder =
+    !!smartFolderIdParam &&
+    !isFilteringByFolder &&
+    !isFilteringByHidden &&
+    !isFilteringByStarred &&
+    !isFilteringByBinned &&
+    !isFilteringBySnoozed &&
+    !isFilteringByQueue;
+  const isFilteringByTag =
+    !!tagIdParam &&
+    !isFilteringBySmartFolder &&
+    !isFilteringByFolder &&
+    !isFilteringByHidden &&
+    !isFilteringByStarred &&
+    !isFilteringByBinned &&
+    !isFilteringBySnoozed &&
+    !isFilteringByQueue;
   const headListSize = isDesktop ? (effectiveNewsletterId ? 30 : 12) : 30;
 
   // Reactive head pages (subscribed) for the active list only.
@@ -367,9 +408,13 @@ function NewslettersPage() {
     convexQuery(
       api.newsletters.listAllNewslettersHead,
       !isFilteringByFolder &&
+        !isFilteringBySmartFolder &&
+        !isFilteringByTag &&
         !isFilteringByHidden &&
         !isFilteringByStarred &&
-        !isFilteringByBinned
+        !isFilteringByBinned &&
+        !isFilteringBySnoozed &&
+        !isFilteringByQueue
         ? { numItems: headListSize }
         : "skip",
     ),
@@ -384,6 +429,28 @@ function NewslettersPage() {
     ),
   );
 
+  const { data: smartFolderHead, isPending: smartFolderHeadPending } =
+    useQuery(
+      convexQuery(
+        api.newsletters.listSmartFolderNewslettersHead,
+        isFilteringBySmartFolder
+          ? {
+              smartFolderId: smartFolderIdParam as Id<"smartFolders">,
+              numItems: headListSize,
+            }
+          : "skip",
+      ),
+    );
+
+  const { data: tagHead, isPending: tagHeadPending } = useQuery(
+    convexQuery(
+      api.newsletters.listNewslettersByTagHead,
+      isFilteringByTag
+        ? { tagId: tagIdParam as Id<"tags">, numItems: headListSize }
+        : "skip",
+    ),
+  );
+
   const { data: hiddenHead, isPending: hiddenHeadPending } = useQuery(
     convexQuery(
       api.newsletters.listHiddenNewslettersHead,
@@ -403,19 +470,49 @@ function NewslettersPage() {
       isFilteringByBinned ? { numItems: 30 } : "skip",
     ),
   );
+  const { data: snoozedHead, isPending: snoozedHeadPending } = useQuery(
+    convexQuery(
+      api.newsletters.listSnoozedNewslettersHead,
+      isFilteringBySnoozed ? { numItems: 30 } : "skip",
+    ),
+  );
+  // The queue is small and loaded whole; wrap it as a finished head page
+  const { data: queueData, isPending: queueHeadPending } = useQuery(
+    convexQuery(
+      api.newsletters.listReadingQueue,
+      isFilteringByQueue ? {} : "skip",
+    ),
+  );
+  const queueHead = useMemo(
+    () =>
+      queueData
+        ? { page: queueData.items, isDone: true, continueCursor: null }
+        : undefined,
+    [queueData],
+  );
 
   const listKey = useMemo(() => {
     if (isFilteringByHidden) return "hidden";
     if (isFilteringByStarred) return "starred";
     if (isFilteringByBinned) return "bin";
+    if (isFilteringBySnoozed) return "snoozed";
+    if (isFilteringByQueue) return "queue";
     if (isFilteringByFolder) return `folder:${folderIdParam}`;
+    if (isFilteringBySmartFolder) return `smart:${smartFolderIdParam}`;
+    if (isFilteringByTag) return `tag:${tagIdParam}`;
     return "all";
   }, [
     isFilteringByHidden,
     isFilteringByStarred,
     isFilteringByBinned,
+    isFilteringBySnoozed,
+    isFilteringByQueue,
     isFilteringByFolder,
+    isFilteringBySmartFolder,
+    isFilteringByTag,
     folderIdParam,
+    smartFolderIdParam,
+    tagIdParam,
   ]);
 
   const activeHead = isFilteringByHidden
@@ -424,9 +521,17 @@ function NewslettersPage() {
       ? favoritedHead
       : isFilteringByBinned
         ? binnedHead
-        : isFilteringByFolder
-          ? folderHead
-          : allHead;
+        : isFilteringBySnoozed
+          ? snoozedHead
+          : isFilteringByQueue
+            ? queueHead
+            : isFilteringByFolder
+              ? folderHead
+              : isFilteringBySmartFolder
+                ? smartFolderHead
+                : isFilteringByTag
+                  ? tagHead
+                  : allHead;
 
   const activeHeadPending = isFilteringByHidden
     ? hiddenHeadPending
@@ -434,9 +539,17 @@ function NewslettersPage() {
       ? favoritedHeadPending
       : isFilteringByBinned
         ? binnedHeadPending
-        : isFilteringByFolder
-          ? folderHeadPending
-          : allHeadPending;
+        : isFilteringBySnoozed
+          ? snoozedHeadPending
+          : isFilteringByQueue
+            ? queueHeadPending
+            : isFilteringByFolder
+              ? folderHeadPending
+              : isFilteringBySmartFolder
+                ? smartFolderHeadPending
+                : isFilteringByTag
+                  ? tagHeadPending
+                  : allHeadPending;
 
   const queryClient = useQueryClient();
   const getUserNewsletterWithContent = useAction(
@@ -446,6 +559,10 @@ function NewslettersPage() {
   const listFolderPage = useAction(
     api.newsletters.listUserNewslettersByFolderPage,
   );
+  const listSmartFolderPage = useAction(
+    api.newsletters.listSmartFolderNewslettersPage,
+  );
+  const listTagPage = useAction(api.newsletters.listNewslettersByTagPage);
   const listHiddenPage = useAction(api.newsletters.listHiddenNewslettersPage);
   const listFavoritedPage = useAction(
     api.newsletters.listFavoritedNewslettersPage,
@@ -453,6 +570,9 @@ function NewslettersPage() {
   const listBinnedPage = useAction(
     (api.newsletters as any).listBinnedNewslettersPage,
   );
+  const listSnoozedPage = useAction(
+    api.newsletters.listSnoozedNewslettersPage,
+  );
   const emptyBinAction = useAction((api.newsletters as any).emptyBin);
 
   const [tailPages, setTailPages] = useState<NewsletterData[][]>([]);
@@ -511,13 +631,27 @@ function NewslettersPage() {
             cursor,
             numItems,
           })
-        : isFilteringByHidden
-          ? await listHiddenPage({ cursor, numItems })
-          : isFilteringByStarred
-            ? await listFavoritedPage({ cursor, numItems })
-            : isFilteringByBinned
-              ? await listBinnedPage({ cursor, numItems })
-              : await listAllPage({ cursor, numItems });
+        : isFilteringBySmartFolder
+          ? await listSmartFolderPage({
+              smartFolderId: smartFolderIdParam as Id<"smartFolders">,
+              cursor,
+              numItems,
+            })
+          : isFilteringByTag
+            ? await listTagPage({
+                tagId: tagIdParam as Id<"tags">,
+                cursor,
+                numItems,
+              })
+            : isFilteringByHidden
+              ? await listHiddenPage({ cursor, numItems })
+              : isFilteringByStarred
+                ? await listFavoritedPage({ cursor, numItems })
+                : isFilteringByBinned
+                  ? await listBinnedPage({ cursor, numItems })
+                  : isFilteringBySnoozed
+                    ? await listSnoozedPage({ cursor, numItems })
+                    : await listAllPage({ cursor, numItems });
 
       const page = (result.page ?? []) as NewsletterData[];
       setTailPages((prev) => [...prev, page]);
@@ -531,15 +665,23 @@ function NewslettersPage() {
     isLoadingMore,
     cursor,
     isFilteringByFolder,
+    isFilteringBySmartFolder,
+    isFilteringByTag,
     isFilteringByHidden,
     isFilteringByStarred,
     isFilteringByBinned,
+    isFilteringBySnoozed,
     listFolderPage,
+    listSmartFolderPage,
+    listTagPage,
     listHiddenPage,
     listFavoritedPage,
     listBinnedPage,
+    listSnoozedPage,
     listAllPage,
     folderIdParam,
+    smartFolderIdParam,
+    tagIdParam,
   ]);
 
   useEffect(() => {
@@ -587,6 +729,28 @@ function NewslettersPage() {
     });
   };
 
+  // Handle smart folder selection
+  const handleSmartFolderSelect = (selectedSmartFolderId: string | null) => {
+    setPendingFilter(null);
+    navigate({
+      to: "/newsletters",
+      search: selectedSmartFolderId
+        ? { smart: selectedSmartFolderId, newsletter: newsletterIdParam }
+        : { newsletter: newsletterIdParam },
+    });
+  };
+
+  // Handle tag selection
+  const handleTagSelect = (selectedTagId: string | null) => {
+    setPendingFilter(null);
+    navigate({
+      to: "/newsletters",
+      search: selectedTagId
+        ? { tag: selectedTagId, newsletter: newsletterIdParam }
+        : { newsletter: newsletterIdParam },
+    });
+  };
+
   // Handle filter selection
   const handleFilterSelect = (filter: FilterType | null) => {
     setPendingFilter(filter);
@@ -618,6 +782,8 @@ function NewslettersPage() {
       to: "/newsletters",
       search: {
         ...(folderIdParam ? { folder: folderIdParam } : {}),
+        ...(smartFolderIdParam ? { smart: smartFolderIdParam } : {}),
+        ...(tagIdParam ? { tag: tagIdParam } : {}),
         ...(effectiveFilter ? { filter: effectiveFilter } : {}),
         newsletter: id,
       },
@@ -629,10 +795,18 @@ function NewslettersPage() {
       to: "/newsletters",
       search: {
         ...(folderIdParam ? { folder: folderIdParam } : {}),
+        ...(smartFolderIdParam ? { smart: smartFolderIdParam } : {}),
+        ...(tagIdParam ? { tag: tagIdParam } : {}),
         ...(effectiveFilter ? { filter: effectiveFilter } : {}),
       },
     });
-  }, [navigate, folderIdParam, effectiveFilter]);
+  }, [
+    navigate,
+    folderIdParam,
+    smartFolderIdParam,
+    tagIdParam,
+    effectiveFilter,
+  ]);
 
   const handleEmptyBin = useCallback(async () => {
     if (isEmptyingBin) return;
@@ -718,6 +892,13 @@ function NewslettersPage() {
     selectedNewsletterIndex < visibleNewsletterList.length - 1
       ? (visibleNewsletterList[selectedNewsletterIndex + 1]?._id ?? null)
       : null;
+  const queuePosition =
+    isFilteringByQueue && selectedNewsletterIndex >= 0
+      ? {
+          position: selectedNewsletterIndex + 1,
+          total: visibleNewsletterList.length,
+        }
+      : undefined;
 
   useEffect(() => {
     if (!effectiveNewsletterId) return;
@@ -764,24 +945,37 @@ function NewslettersPage() {
   // Desktop sidebar props for the new SenderFolderSidebar
   const senderFolderSidebarProps = {
     selectedFolderId: folderIdParam ?? null,
+    selectedSmartFolderId: smartFolderIdParam ?? null,
+    selectedTagId: tagIdParam ?? null,
     selectedNewsletterId: effectiveNewsletterId ?? null,
     selectedFilter: effectiveFilter,
     hiddenNewsletters: isFilteringByHidden ? newsletterList : [],
     hiddenPending: isFilteringByHidden ? activeListPending : false,
     binnedNewsletters: isFilteringByBinned ? newsletterList : [],
     binnedPending: isFilteringByBinned ? activeListPending : false,
+    snoozedNewsletters: isFilteringBySnoozed ? newsletterList : [],
+    snoozedPending: isFilteringBySnoozed ? activeListPending : false,
     favoritedNewsletters: visibleFavoritedNewsletters,
     favoritedPending: isFilteringByStarred ? activeListPending : false,
     canLoadMore:
-      isFilteringByHidden || isFilteringByStarred || isFilteringByBinned
+      isFilteringByHidden ||
+      isFilteringByStarred ||
+      isFilteringByBinned ||
+      isFilteringBySnoozed
         ? canLoadMore
         : false,
     isLoadingMore:
-      isFilteringByHidden || isFilteringByStarred || isFilteringByBinned
+      isFilteringByHidden ||
+      isFilteringByStarred ||
+      isFilteringByBinned ||
+      isFilteringBySnoozed
         ? isLoadingMore
         : false,
     onLoadMore:
-      isFilteringByHidden || isFilteringByStarred || isFilteringByBinned
+      isFilteringByHidden ||
+      isFilteringByStarred ||
+      isFilteringByBinned ||
+      isFilteringBySnoozed
         ? () => {
             void handleLoadMore();
           }
@@ -789,6 +983,8 @@ function NewslettersPage() {
     onEmptyBin: handleEmptyBin,
     isEmptyingBin,
     onFolderSelect: handleFolderSelect,
+    onSmartFolderSelect: handleSmartFolderSelect,
+    onTagSelect: handleTagSelect,
     onNewsletterSelect: handleNewsletterSelect,
     onNewsletterPrefetch: prefetchNewsletterContent,
     onFilterSelect: handleFilterSelect,
@@ -802,9 +998,13 @@ function NewslettersPage() {
   const isGlobalEmpty =
     !isInitialPagePending &&
     !isFilteringByFolder &&
+    !isFilteringBySmartFolder &&
+    !isFilteringByTag &&
     !isFilteringByHidden &&
     !isFilteringByStarred &&
     !isFilteringByBinned &&
+    !isFilteringBySnoozed &&
+    !isFilteringByQueue &&
     folders.length === 0;
 
   // ── Desktop layout: split-pane ──
@@ -850,6 +1050,7 @@ function NewslettersPage() {
               ? () => handleNewsletterSelect(nextNewsletterId)
               : undefined
           }
+          queuePosition={queuePosition}
           onClose={handleCloseInlineReader}
           onOpenFullscreen={handleToggleInlineFullscreen}
           isFullscreen={isReaderFullscreen}
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { render, screen, waitFor } from "@testing-library/react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
 import { ShareNewsletterPage } from "./$token";
 
 const mockGet = vi.fn();
@@ -69,6 +69,40 @@ describe("/share/$token (newsletter content)", () => {
     expect(screen.getByTitle("Shared newsletter")).toBeInTheDocument();
   });
 
+  it("paints shared highlights into the content once it loads", async () => {
+    mockGet.mockResolvedValueOnce({
+      subject: "Weekly Digest",
+      senderEmail: "sender@example.com",
+      receivedAt: Date.now(),
+      contentUrl: "https://example.com/content",
+      contentStatus: "available",
+      highlights: [
+        {
+          _id: "h1",
+          text: "Hello",
+          prefix: "",
+          suffix: "",
+          startOffset: 0,
+          color: "yellow",
+          note: "Nice opener",
+        },
+      ],
+    });
+
+    render(<ShareNewsletterPage token="token-123" />);
+
+    const iframe = (await screen.findByTitle(
+      "Shared newsletter",
+    )) as HTMLIFrameElement;
+    const frameBody = iframe.contentDocument!.body;
+    frameBody.innerHTML = "<p>Hello</p>";
+    fireEvent.load(iframe);
+
+    const mark = frameBody.querySelector('mark[data-highlight-id="h1"]');
+    expect(mark?.textContent).toBe("Hello");
+    expect(mark?.getAttribute("title")).toBe("Nice opener");
+  });
+
   it("renders minimal not-found when token is invalid", async () => {
     mockGet.mockResolvedValueOnce(null);
 
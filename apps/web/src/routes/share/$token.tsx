@@ -4,6 +4,7 @@ import { api } from "@hushletter/backend";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useReaderPreferences, READER_BACKGROUND_OPTIONS } from "@/hooks/useReaderPreferences";
 import { buildReaderDocument, withReaderDisplayOverrides } from "@/components/ReaderView";
+import { paintHighlights, type PaintableHighlight } from "@/lib/highlightAnchoring";
 import { cn } from "@/lib/utils";
 
 export const Route = createFileRoute("/share/$token")({
@@ -24,6 +25,8 @@ type SharedNewsletterWithContent = {
   receivedAt: number;
   contentUrl: string | null;
   contentStatus: "available" | "missing" | "error";
+  /** Present when the link was shared with highlights */
+  highlights?: PaintableHighlight[];
 };
 
 const MIN_IFRAME_HEIGHT = 200;
@@ -80,7 +83,13 @@ export function ShareNewsletterPage({ token }: { token: string }) {
     setIframeHeight((prev) => (prev === nextHeight ? prev : nextHeight));
   }, []);
 
+  const sharedHighlights = meta?.highlights;
+
   const handleIframeLoad = useCallback(() => {
+    const frameBody = iframeRef.current?.contentDocument?.body;
+    if (frameBody && sharedHighlights?.length) {
+      paintHighlights(frameBody, sharedHighlights);
+    }
     syncIframeHeight();
 
     resizeObserverRef.current?.disconnect();
@@ -97,7 +106,7 @@ export function ShareNewsletterPage({ token }: { token: string }) {
     observer.observe(iframeDoc.body);
     observer.observe(iframeDoc.documentElement);
     resizeObserverRef.current = observer;
-  }, [syncIframeHeight]);
+  }, [syncIframeHeight, sharedHighlights]);
 
   useEffect(() => {
     return () => {
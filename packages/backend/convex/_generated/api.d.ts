@@ -14,30 +14,64 @@ import type * as _internal_duplicateDetection from "../_internal/duplicateDetect
 import type * as _internal_emailGeneration from "../_internal/emailGeneration.js";
 import type * as _internal_newsletterDetection from "../_internal/newsletterDetection.js";
 import type * as _internal_piiDetection from "../_internal/piiDetection.js";
+import type * as _internal_subscriptionEmailDetection from "../_internal/subscriptionEmailDetection.js";
 import type * as _internal_users from "../_internal/users.js";
 import type * as admin from "../admin.js";
 import type * as ai from "../ai.js";
+import type * as attachments from "../attachments.js";
 import type * as auth from "../auth.js";
 import type * as billing from "../billing.js";
 import type * as community from "../community.js";
 import type * as crons from "../crons.js";
+import type * as customDomains from "../customDomains.js";
+import type * as digests from "../digests.js";
+import type * as emailAliases from "../emailAliases.js";
 import type * as emailIngestion from "../emailIngestion.js";
 import type * as entitlements from "../entitlements.js";
+import type * as folderRetention from "../folderRetention.js";
+import type * as folderSuggestions from "../folderSuggestions.js";
 import type * as folders from "../folders.js";
 import type * as gmail from "../gmail.js";
 import type * as gmailApi from "../gmailApi.js";
 import type * as gmailConnections from "../gmailConnections.js";
+import type * as highlights from "../highlights.js";
 import type * as http from "../http.js";
 import type * as importIngestion from "../importIngestion.js";
+import type * as lib_detectLanguage from "../lib/detectLanguage.js";
+import type * as lib_digest from "../lib/digest.js";
+import type * as lib_dnsLookup from "../lib/dnsLookup.js";
+import type * as lib_folderSuggestion from "../lib/folderSuggestion.js";
+import type * as lib_folderTree from "../lib/folderTree.js";
+import type * as lib_htmlTranslation from "../lib/htmlTranslation.js";
+import type * as lib_listUnsubscribe from "../lib/listUnsubscribe.js";
 import type * as lib_openrouter from "../lib/openrouter.js";
+import type * as lib_retentionPolicy from "../lib/retentionPolicy.js";
+import type * as lib_ruleMatching from "../lib/ruleMatching.js";
+import type * as lib_searchText from "../lib/searchText.js";
+import type * as lib_senderAuth from "../lib/senderAuth.js";
+import type * as lib_smartFolderFilter from "../lib/smartFolderFilter.js";
+import type * as lib_summaryStyle from "../lib/summaryStyle.js";
+import type * as lib_textChunks from "../lib/textChunks.js";
 import type * as manualImport from "../manualImport.js";
 import type * as migrations_epic9SchemaMigration from "../migrations/epic9SchemaMigration.js";
 import type * as migrations_onboardingMigration from "../migrations/onboardingMigration.js";
+import type * as migrations_searchTextBackfill from "../migrations/searchTextBackfill.js";
+import type * as newsletterQa from "../newsletterQa.js";
+import type * as newsletterRules from "../newsletterRules.js";
 import type * as newsletters from "../newsletters.js";
+import type * as quarantine from "../quarantine.js";
 import type * as r2 from "../r2.js";
+import type * as rawEmails from "../rawEmails.js";
+import type * as readingQueue from "../readingQueue.js";
 import type * as senders from "../senders.js";
 import type * as share from "../share.js";
+import type * as smartFolders from "../smartFolders.js";
 import type * as stripe from "../stripe.js";
+import type * as subAddressTags from "../subAddressTags.js";
+import type * as subscriptionConfirmations from "../subscriptionConfirmations.js";
+import type * as tags from "../tags.js";
+import type * as translations from "../translations.js";
+import type * as unsubscribe from "../unsubscribe.js";
 import type * as users from "../users.js";
 
 import type {
@@ -53,30 +87,64 @@ declare const fullApi: ApiFromModules<{
   "_internal/emailGeneration": typeof _internal_emailGeneration;
   "_internal/newsletterDetection": typeof _internal_newsletterDetection;
   "_internal/piiDetection": typeof _internal_piiDetection;
+  "_internal/subscriptionEmailDetection": typeof _internal_subscriptionEmailDetection;
   "_internal/users": typeof _internal_users;
   admin: typeof admin;
   ai: typeof ai;
+  attachments: typeof attachments;
   auth: typeof auth;
   billing: typeof billing;
   community: typeof community;
   crons: typeof crons;
+  customDomains: typeof customDomains;
+  digests: typeof digests;
+  emailAliases: typeof emailAliases;
   emailIngestion: typeof emailIngestion;
   entitlements: typeof entitlements;
+  folderRetention: typeof folderRetention;
+  folderSuggestions: typeof folderSuggestions;
   folders: typeof folders;
   gmail: typeof gmail;
   gmailApi: typeof gmailApi;
   gmailConnections: typeof gmailConnections;
+  highlights: typeof highlights;
   http: typeof http;
   importIngestion: typeof importIngestion;
+  "lib/detectLanguage": typeof lib_detectLanguage;
+  "lib/digest": typeof lib_digest;
+  "lib/dnsLookup": typeof lib_dnsLookup;
+  "lib/folderSuggestion": typeof lib_folderSuggestion;
+  "lib/folderTree": typeof lib_folderTree;
+  "lib/htmlTranslation": typeof lib_htmlTranslation;
+  "lib/listUnsubscribe": typeof lib_listUnsubscribe;
   "lib/openrouter": typeof lib_openrouter;
+  "lib/retentionPolicy": typeof lib_retentionPolicy;
+  "lib/ruleMatching": typeof lib_ruleMatching;
+  "lib/searchText": typeof lib_searchText;
+  "lib/senderAuth": typeof lib_senderAuth;
+  "lib/smartFolderFilter": typeof lib_smartFolderFilter;
+  "lib/summaryStyle": typeof lib_summaryStyle;
+  "lib/textChunks": typeof lib_textChunks;
   manualImport: typeof manualImport;
   "migrations/epic9SchemaMigration": typeof migrations_epic9SchemaMigration;
   "migrations/onboardingMigration": typeof migrations_onboardingMigration;
+  "migrations/searchTextBackfill": typeof migrations_searchTextBackfill;
+  newsletterQa: typeof newsletterQa;
+  newsletterRules: typeof newsletterRules;
   newsletters: typeof newsletters;
+  quarantine: typeof quarantine;
   r2: typeof r2;
+  rawEmails: typeof rawEmails;
+  readingQueue: typeof readingQueue;
   senders: typeof senders;
   share: typeof share;
+  smartFolders: typeof smartFolders;
   stripe: typeof stripe;
+  subAddressTags: typeof subAddressTags;
+  subscriptionConfirmations: typeof subscriptionConfirmations;
+  tags: typeof tags;
+  translations: typeof translations;
+  unsubscribe: typeof unsubscribe;
   users: typeof users;
 }>;
 
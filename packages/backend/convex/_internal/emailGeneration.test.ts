@@ -123,6 +123,77 @@ describe("emailGeneration", () => {
     })
   })
 
+  describe("isServiceDomain", () => {
+    it("matches the email domain and its subdomains", async () => {
+      process.env.EMAIL_DOMAIN = "newsletters.example.com"
+      const { isServiceDomain } = await import("./emailGeneration")
+
+      expect(isServiceDomain("newsletters.example.com")).toBe(true)
+      expect(isServiceDomain("Mail.Newsletters.Example.com")).toBe(true)
+      expect(isServiceDomain("example.com")).toBe(false)
+      expect(isServiceDomain("othernewsletters.example.com")).toBe(false)
+    })
+  })
+
+  describe("generateAliasEmail", () => {
+    it("prefixes a random part with the slugified label", async () => {
+      process.env.EMAIL_DOMAIN = "test.newsletters.com"
+      const { generateAliasEmail, isValidDedicatedEmail } = await import("./emailGeneration")
+
+      const alias = generateAliasEmail("The New York Times")
+
+      expect(alias).toMatch(/^the-new-york-times\.[a-z0-9]{8}@test\.newsletters\.com$/)
+      expect(isValidDedicatedEmail(alias)).toBe(false)
+    })
+
+    it("falls back to a generic prefix without a usable label", async () => {
+      process.env.EMAIL_DOMAIN = "test.newsletters.com"
+      const { generateAliasEmail } = await import("./emailGeneration")
+
+      expect(generateAliasEmail()).toMatch(/^alias\.[a-z0-9]{8}@test\.newsletters\.com$/)
+      expect(generateAliasEmail("!!!")).toMatch(/^alias\./)
+    })
+
+    it("generates different addresses for the same label", async () => {
+      const { generateAliasEmail } = await import("./emailGeneration")
+
+      expect(generateAliasEmail("shop")).not.toBe(generateAliasEmail("shop"))
+    })
+  })
+
+  describe("parseSubAddress", () => {
+    it("splits the tag from a plus-address", async () => {
+      const { parseSubAddress } = await import("./emailGeneration")
+
+      expect(parseSubAddress("alex-1234+NYTimes@newsletters.example.com")).toEqual({
+        address: "alex-1234@newsletters.example.com",
+        tag: "nytimes",
+      })
+    })
+
+    it("returns addresses without a tag unchanged", async () => {
+      const { parseSubAddress } = await import("./emailGeneration")
+
+      expect(parseSubAddress("alex-1234@newsletters.example.com")).toEqual({
+        address: "alex-1234@newsletters.example.com",
+      })
+      expect(parseSubAddress("+tag@newsletters.example.com")).toEqual({
+        address: "+tag@newsletters.example.com",
+      })
+    })
+
+    it("keeps the base address but drops invalid tags", async () => {
+      const { parseSubAddress } = await import("./emailGeneration")
+
+      expect(parseSubAddress("alex-1234+@newsletters.example.com")).toEqual({
+        address: "alex-1234@newsletters.example.com",
+        tag: undefined,
+      })
+      expect(parseSubAddress("alex-1234+a/b@newsletters.example.com").tag).toBeUndefined()
+      expect(parseSubAddress(`alex-1234+${"x".repeat(40)}@newsletters.example.com`).tag).toBeUndefined()
+    })
+  })
+
   describe("AC3: Uniqueness Guarantee", () => {
     it("generates unique emails for different user IDs", async () => {
       process.env.EMAIL_DOMAIN = "test.com"
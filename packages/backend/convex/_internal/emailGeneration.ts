@@ -56,6 +56,19 @@ export function generateDedicatedEmail(userId: string, name?: string, email?: st
   return `${prefix}@${EMAIL_DOMAIN}`
 }
 
+/**
+ * Generates a disposable alias address (e.g. nytimes.k3x9q2ab@domain).
+ * The dot keeps aliases out of the dedicated/vanity address formats, so the
+ * two can never collide. Callers still check uniqueness among aliases.
+ */
+export function generateAliasEmail(label?: string): string {
+  const slug = (label ? slugifyName(label) : "").slice(0, 20).replace(/-+$/, "") || "alias"
+  const alphabet = "abcdefghijklmnopqrstuvwxyz0123456789"
+  const bytes = crypto.getRandomValues(new Uint8Array(8))
+  const random = Array.from(bytes, (byte) => alphabet[byte % alphabet.length]).join("")
+  return `${slug}.${random}@${EMAIL_DOMAIN}`
+}
+
 /**
  * Validates a custom email prefix chosen by the user during onboarding.
  * Rules: 3-20 chars, lowercase alphanumeric + hyphens, must start/end with letter or number.
@@ -94,6 +107,49 @@ export function isValidDedicatedEmail(email: string): boolean {
   return isAutoGenerated || isNameBased || isValidCustomPrefix(prefix)
 }
 
+/**
+ * Whether a domain is (a subdomain of) the domain our dedicated addresses use.
+ * Users can't claim these as custom receiving domains.
+ */
+export function isServiceDomain(domain: string): boolean {
+  const normalized = domain.toLowerCase()
+  return normalized === EMAIL_DOMAIN || normalized.endsWith(`.${EMAIL_DOMAIN}`)
+}
+
+/** Sub-address tags: lowercase alphanumeric plus dots, underscores and hyphens */
+const SUB_ADDRESS_TAG_PATTERN = /^[a-z0-9][a-z0-9._-]{0,31}$/
+
+/**
+ * Normalizes a sub-address tag (the part after "+").
+ * @returns The lowercased tag, or undefined if it isn't a valid tag
+ */
+export function normalizeSubAddressTag(tag: string): string | undefined {
+  const normalized = tag.trim().toLowerCase()
+  return SUB_ADDRESS_TAG_PATTERN.test(normalized) ? normalized : undefined
+}
+
+/**
+ * Splits a plus-address (name+tag@domain) into the base address and its tag.
+ * Addresses without a "+" are returned unchanged. An invalid tag still
+ * resolves to the base address, it just isn't recorded.
+ *
+ * @example
+ * parseSubAddress("alex-1234+nytimes@domain") // { address: "alex-1234@domain", tag: "nytimes" }
+ */
+export function parseSubAddress(email: string): { address: string; tag?: string } {
+  const atIndex = email.lastIndexOf("@")
+  if (atIndex <= 0) return { address: email }
+
+  const localPart = email.slice(0, atIndex)
+  const plusIndex = localPart.indexOf("+")
+  if (plusIndex <= 0) return { address: email }
+
+  return {
+    address: `${localPart.slice(0, plusIndex)}${email.slice(atIndex)}`,
+    tag: normalizeSubAddressTag(localPart.slice(plusIndex + 1)),
+  }
+}
+
 /**
  * Gets the configured email domain
  * Useful for display purposes
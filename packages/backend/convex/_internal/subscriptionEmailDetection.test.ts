@@ -0,0 +1,88 @@
+/**
+ * Subscription Email Detection Heuristics Tests
+ */
+
+import { describe, it, expect } from "vitest"
+import { detectSubscriptionEmail, extractConfirmUrl } from "./subscriptionEmailDetection"
+
+describe("subscriptionEmailDetection", () => {
+  describe("extractConfirmUrl", () => {
+    it("prefers the anchor whose text reads like a confirm button", () => {
+      const html =
+        '<a href="https://example.com/confirm-page">Read in browser</a>' +
+        '<a href="https://example.com/s?t=abc&amp;l=1"><strong>Yes, subscribe me</strong></a>'
+
+      expect(extractConfirmUrl(html, undefined)).toBe("https://example.com/s?t=abc&l=1")
+    })
+
+    it("falls back to an anchor whose URL contains confirm", () => {
+      const html = '<a href="https://example.com/about">About</a><a href="https://example.com/confirm?t=abc">Click here</a>'
+
+      expect(extractConfirmUrl(html, undefined)).toBe("https://example.com/confirm?t=abc")
+    })
+
+    it("never returns unsubscribe or non-http links", () => {
+      const html =
+        '<a href="https://example.com/unsubscribe?confirm=1">Confirm unsubscribe</a>' +
+        '<a href="mailto:confirm@example.com">Confirm by email</a>'
+
+      expect(extractConfirmUrl(html, undefined)).toBeUndefined()
+    })
+
+    it("finds confirm URLs in plain-text emails", () => {
+      const text = "Please confirm:\nhttps://example.com/verify?t=abc\n\nUnsubscribe: https://example.com/unsubscribe"
+
+      expect(extractConfirmUrl(undefined, text)).toBe("https://example.com/verify?t=abc")
+    })
+  })
+
+  describe("detectSubscriptionEmail", () => {
+    it("detects a double opt-in email from its subject", () => {
+      expect(
+        detectSubscriptionEmail({
+          subject: "Please confirm your subscription to The Weekly",
+          htmlContent: '<p>Almost there!</p><a href="https://weekly.example.com/c/abc">Confirm subscription</a>',
+        })
+      ).toEqual({ kind: "confirmation", confirmUrl: "https://weekly.example.com/c/abc" })
+    })
+
+    it("detects a double opt-in email from its body when the subject is generic", () => {
+      expect(
+        detectSubscriptionEmail({
+          subject: "Hello from The Weekly",
+          htmlContent:
+            '<p>Click the button below to confirm your email address.</p><a href="https://weekly.example.com/c/abc">Confirm</a>',
+        })
+      ).toEqual({ kind: "confirmation", confirmUrl: "https://weekly.example.com/c/abc" })
+    })
+
+    it("does not report a confirmation without a confirm link", () => {
+      expect(
+        detectSubscriptionEmail({ subject: "Please confirm your subscription", textContent: "Reply YES to confirm." })
+      ).toBeNull()
+    })
+
+    it("detects welcome emails", () => {
+      expect(detectSubscriptionEmail({ subject: "Welcome to The Weekly!" })).toEqual({ kind: "welcome" })
+      expect(detectSubscriptionEmail({ subject: "Thanks for subscribing" })).toEqual({ kind: "welcome" })
+    })
+
+    it("treats a welcome that still asks for confirmation as a confirmation", () => {
+      expect(
+        detectSubscriptionEmail({
+          subject: "Welcome! One more step",
+          htmlContent: '<a href="https://weekly.example.com/c/abc">Activate my subscription</a>',
+        })?.kind
+      ).toBe("confirmation")
+    })
+
+    it("ignores regular newsletter issues", () => {
+      expect(
+        detectSubscriptionEmail({
+          subject: "Issue #42: The state of TypeScript",
+          htmlContent: '<p>This week...</p><a href="https://weekly.example.com/unsubscribe">Unsubscribe</a>',
+        })
+      ).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * Subscription Email Detection Heuristics
+ *
+ * Recognizes the emails a sender sends right after someone subscribes:
+ * - confirmation: double opt-in "confirm your subscription" messages, which
+ *   need the reader to click a link before any newsletter is sent
+ * - welcome: "welcome to ..." messages, sent once the subscription is active
+ *
+ * Detection is based on the subject and body wording. A confirmation is only
+ * reported when a confirm link can be found, since that's what we surface.
+ */
+
+export type SubscriptionEmailKind = "confirmation" | "welcome"
+
+export type SubscriptionEmail =
+  | { kind: "confirmation"; confirmUrl: string }
+  | { kind: "welcome" }
+
+/**
+ * Subject wording of double opt-in emails
+ */
+const CONFIRMATION_SUBJECT_PATTERNS = [
+  /\bconfirm (your |the )?(subscription|e-?mail|address|sign-?up|registration)\b/i,
+  /\bplease confirm\b/i,
+  /\bverify (your )?(subscription|e-?mail|address)\b/i,
+  /\bactivate (your )?(subscription|account|newsletter)\b/i,
+  /\bone (more|last) step\b/i,
+  /\bdouble opt-?in\b/i,
+  /\bconfirm(ez|er) (votre|ton) (abonnement|inscription|adresse)\b/i,
+]
+
+/**
+ * Body wording of double opt-in emails, for generic subjects ("Hello!")
+ */
+const CONFIRMATION_BODY_PATTERNS = [
+  /\bconfirm (your |the )?(subscription|e-?mail address|sign-?up)\b/i,
+  /\bclick (on )?(the )?(link|button) below to (confirm|verify|activate)\b/i,
+  /\bto (complete|finish) (your )?(subscription|sign-?up|registration)\b/i,
+  /\bconfirm(ez|er) (votre|ton) (abonnement|inscription|adresse)\b/i,
+]
+
+/**
+ * Subject wording of welcome emails
+ */
+const WELCOME_SUBJECT_PATTERNS = [
+  /\bwelcome (to|aboard)\b/i,
+  /^welcome\b/i,
+  /\bthanks? (you )?for (subscribing|signing up|joining)\b/i,
+  /\byou'?re (now )?(subscribed|in|on the list)\b/i,
+  /\bsubscription (is )?(confirmed|active)\b/i,
+  /\bbienvenue\b/i,
+]
+
+/** Link text or URL wording of a confirm link */
+const CONFIRM_LINK_PATTERN =
+  /\b(confirm|verify|activate|validate|opt-?in|subscribe me|yes,? (please )?subscribe)|confirm(ez|er)|valider/i
+
+/** Links that must never be treated as a confirm link */
+const EXCLUDED_LINK_PATTERN = /unsubscribe|opt-?out|preferences|privacy|désinscri|desinscri/i
+
+/**
+ * Decode the HTML entities that show up in hrefs and link text
+ */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&amp;/gi, "&")
+    .replace(/&#x2F;/gi, "/")
+    .replace(/&#47;/g, "/")
+    .replace(/&quot;/gi, '"')
+    .replace(/&nbsp;/gi, " ")
+}
+
+function isHttpUrl(value: string): boolean {
+  return /^https?:\/\/[^\s]+$/i.test(value)
+}
+
+/**
+ * Find the confirm link of a double opt-in email
+ * Anchors whose text reads like a confirm button win over anchors whose URL
+ * merely contains "confirm"; plain-text emails fall back to bare URLs.
+ */
+export function extractConfirmUrl(
+  htmlContent: string | undefined,
+  textContent: string | undefined
+): string | undefined {
+  if (htmlContent) {
+    let urlMatch: string | undefined
+    for (const anchor of htmlContent.matchAll(/<a\b[^>]*?\bhref\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi)) {
+      const href = decodeEntities(anchor[1].trim())
+      const text = decodeEntities(anchor[2].replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim()
+      if (!isHttpUrl(href) || EXCLUDED_LINK_PATTERN.test(href) || EXCLUDED_LINK_PATTERN.test(text)) {
+        continue
+      }
+      if (CONFIRM_LINK_PATTERN.test(text)) return href
+      if (!urlMatch && CONFIRM_LINK_PATTERN.test(href)) urlMatch = href
+    }
+    if (urlMatch) return urlMatch
+  }
+
+  if (textContent) {
+    for (const url of textContent.match(/https?:\/\/[^\s<>"')\]]+/gi) ?? []) {
+      if (!EXCLUDED_LINK_PATTERN.test(url) && CONFIRM_LINK_PATTERN.test(url)) return url
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Strip tags so body patterns match the visible text of an HTML email
+ */
+function getVisibleText(htmlContent: string | undefined, textContent: string | undefined): string {
+  if (textContent) return textContent
+  if (!htmlContent) return ""
+  return decodeEntities(
+    htmlContent
+      .replace(/<(style|script)\b[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<[^>]+>/g, " ")
+  ).replace(/\s+/g, " ")
+}
+
+/**
+ * Classify an email as a subscription confirmation or welcome email
+ * Returns null for everything else (i.e. regular newsletter issues).
+ *
+ * @example
+ * detectSubscriptionEmail({
+ *   subject: "Please confirm your subscription",
+ *   htmlContent: '<a href="https://news.example.com/confirm?t=abc">Yes, subscribe me</a>',
+ * })
+ * // => { kind: "confirmation", confirmUrl: "https://news.example.com/confirm?t=abc" }
+ */
+export function detectSubscriptionEmail(email: {
+  subject: string
+  htmlContent?: string
+  textContent?: string
+}): SubscriptionEmail | null {
+  const subjectIsConfirmation = CONFIRMATION_SUBJECT_PATTERNS.some((pattern) =>
+    pattern.test(email.subject)
+  )
+  const bodyIsConfirmation =
+    !subjectIsConfirmation &&
+    CONFIRMATION_BODY_PATTERNS.some((pattern) =>
+      pattern.test(getVisibleText(email.htmlContent, email.textContent))
+    )
+
+  if (subjectIsConfirmation || bodyIsConfirmation) {
+    const confirmUrl = extractConfirmUrl(email.htmlContent, email.textContent)
+    if (confirmUrl) return { kind: "confirmation", confirmUrl }
+  }
+
+  if (WELCOME_SUBJECT_PATTERNS.some((pattern) => pattern.test(email.subject))) {
+    return { kind: "welcome" }
+  }
+
+  return null
+}
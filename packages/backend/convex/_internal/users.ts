@@ -1,5 +1,7 @@
 import { internalQuery } from "../_generated/server"
 import { v } from "convex/values"
+import { parseSubAddress } from "./emailGeneration"
+import { isUserPro } from "../entitlements"
 
 /**
  * Find a user by their dedicated email address
@@ -21,20 +23,49 @@ export const findByDedicatedEmail = internalQuery({
  * Find a user by an inbound email address (dedicated or vanity alias).
  * Used by email ingestion to support Pro vanity aliases without breaking
  * the stable dedicated receiver address.
+ *
+ * Plus-addresses (name+tag@domain) resolve to the same user as name@domain.
+ * Any address at a verified custom domain resolves to the domain's owner,
+ * as long as they are still Pro.
  */
 export const findByInboundEmail = internalQuery({
   args: { email: v.string() },
   handler: async (ctx, args) => {
-    const byDedicated = await ctx.db
-      .query("users")
-      .withIndex("by_dedicatedEmail", (q) => q.eq("dedicatedEmail", args.email))
-      .first()
-    if (byDedicated) return byDedicated
+    const findByAddress = async (email: string) => {
+      const byDedicated = await ctx.db
+        .query("users")
+        .withIndex("by_dedicatedEmail", (q) => q.eq("dedicatedEmail", email))
+        .first()
+      if (byDedicated) return byDedicated
 
-    return await ctx.db
-      .query("users")
-      .withIndex("by_vanityEmail", (q) => q.eq("vanityEmail", args.email))
-      .first()
+      return await ctx.db
+        .query("users")
+        .withIndex("by_vanityEmail", (q) => q.eq("vanityEmail", email))
+        .first()
+    }
+
+    const exact = await findByAddress(args.email)
+    if (exact) return exact
+
+    const { address } = parseSubAddress(args.email)
+    if (address !== args.email) {
+      const base = await findByAddress(address)
+      if (base) return base
+    }
+
+    const domain = address.slice(address.lastIndexOf("@") + 1).toLowerCase()
+    const claims = await ctx.db
+      .query("customDomains")
+      .withIndex("by_domain", (q) => q.eq("domain", domain))
+      .collect()
+    const customDomain = claims.find((claim) => claim.status === "verified")
+    if (!customDomain) return null
+
+    const owner = await ctx.db.get("users", customDomain.userId)
+    const ownerIsPro =
+      owner !== null &&
+      isUserPro({ plan: owner.plan ?? "free", proExpiresAt: owner.proExpiresAt })
+    return ownerIsPro ? owner : null
   },
 })
 
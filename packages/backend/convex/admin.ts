@@ -10,6 +10,20 @@ import {
   computeContentHash,
 } from "./_internal/contentNormalization"
 import { detectPotentialPII } from "./_internal/piiDetection"
+import { estimateReadMinutesFromContent, parseEmlFile } from "@hushletter/shared/utils"
+import type { EmlAttachment } from "@hushletter/shared/types"
+import { fetchRawEmail, MAX_RAW_EMAIL_BYTES } from "./rawEmails"
+import { senderAuthValidator } from "./lib/senderAuth"
+import {
+  encodeBase64,
+  storedAttachmentValidator,
+  uploadAttachmentsToR2,
+  type IncomingAttachment,
+} from "./attachments"
+import { stripHtmlToText } from "./ai"
+import { detectLanguage } from "./lib/detectLanguage"
+import { buildSearchText, MAX_SEARCH_BODY_LENGTH } from "./lib/searchText"
+import { deleteNewsletterChunks } from "./newsletterQa"
 
 /** Type alias for sender documents */
 type SenderDoc = Doc<"senders">
@@ -528,7 +542,9 @@ export const getDeliveryAnomalies = query({
  * Called by emailIngestion HTTP action at email receipt
  * Story 7.2 Task 2.5
  *
- * This is idempotent - returns existing logId if messageId already exists.
+ * This is idempotent - returns existing logId if messageId already exists
+ * for the same recipient. A single email addressed to several Hushletter
+ * addresses shares one Message-ID, so each recipient gets its own log.
  */
 export const logEmailDelivery = internalMutation({
   args: {
@@ -537,13 +553,16 @@ export const logEmailDelivery = internalMutation({
     senderName: v.optional(v.string()),
     subject: v.string(),
     messageId: v.string(),
+    senderAuth: v.optional(senderAuthValidator),
   },
   handler: async (ctx, args) => {
     // Check for duplicate messageId (idempotency)
-    const existing = await ctx.db
-      .query("emailDeliveryLogs")
-      .withIndex("by_messageId", (q) => q.eq("messageId", args.messageId))
-      .first()
+    const existing = (
+      await ctx.db
+        .query("emailDeliveryLogs")
+        .withIndex("by_messageId", (q) => q.eq("messageId", args.messageId))
+        .take(50)
+    ).find((log) => log.recipientEmail === args.recipientEmail)
 
     if (existing) {
       return existing._id // Return existing log ID
@@ -560,6 +579,7 @@ export const logEmailDelivery = internalMutation({
       receivedAt: Date.now(),
       retryCount: 0,
       isAcknowledged: false,
+      senderAuth: args.senderAuth,
     })
 
     return logId
@@ -581,6 +601,8 @@ export const updateDeliveryStatus = internalMutation({
     contentSizeBytes: v.optional(v.number()),
     hasHtmlContent: v.optional(v.boolean()),
     hasPlainTextContent: v.optional(v.boolean()),
+    userNewsletterId: v.optional(v.id("userNewsletters")),
+    rawEmailR2Key: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const update: Record<string, unknown> = {
@@ -610,6 +632,12 @@ export const updateDeliveryStatus = internalMutation({
     if (args.hasPlainTextContent !== undefined) {
       update.hasPlainTextContent = args.hasPlainTextContent
     }
+    if (args.userNewsletterId !== undefined) {
+      update.userNewsletterId = args.userNewsletterId
+    }
+    if (args.rawEmailR2Key !== undefined) {
+      update.rawEmailR2Key = args.rawEmailR2Key
+    }
 
     await ctx.db.patch("emailDeliveryLogs", args.logId, update)
   },
@@ -624,7 +652,8 @@ export const updateDeliveryStatus = internalMutation({
  * Story 7.2 Task 5.6
  *
  * Marks a failed delivery as acknowledged so it no longer appears
- * in the unacknowledged failures list.
+ * in the unacknowledged failures list. Its stored payload is deleted:
+ * an acknowledged delivery won't be replayed.
  */
 export const acknowledgeFailedDelivery = mutation({
   args: {
@@ -633,9 +662,540 @@ export const acknowledgeFailedDelivery = mutation({
   handler: async (ctx, args) => {
     await requireAdmin(ctx)
 
+    const log = await ctx.db.get("emailDeliveryLogs", args.logId)
+    if (log?.payloadStorageId) {
+      await ctx.storage.delete(log.payloadStorageId)
+    }
     await ctx.db.patch("emailDeliveryLogs", args.logId, {
       isAcknowledged: true,
+      payloadStorageId: undefined,
+      payloadStoredAt: undefined,
+    })
+  },
+})
+
+/**
+ * Internal query to get a delivery log for actions (admin check happens in caller)
+ */
+export const getDeliveryLogInternal = internalQuery({
+  args: {
+    logId: v.id("emailDeliveryLogs"),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.get("emailDeliveryLogs", args.logId)
+  },
+})
+
+/**
+ * Bytes of attachment storage a newsletter currently uses
+ */
+export const getNewsletterAttachmentBytesInternal = internalQuery({
+  args: { userNewsletterId: v.id("userNewsletters") },
+  handler: async (ctx, args): Promise<number> => {
+    const attachments = await ctx.db
+      .query("newsletterAttachments")
+      .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", args.userNewsletterId))
+      .collect()
+    return attachments.reduce((total, attachment) => total + attachment.sizeBytes, 0)
+  },
+})
+
+/**
+ * Attachments of a parsed original, as the email worker sends them
+ */
+function toIncomingAttachments(attachments: EmlAttachment[]): IncomingAttachment[] {
+  return attachments.map((attachment) => ({
+    filename: attachment.filename,
+    mimeType: attachment.mimeType,
+    contentBase64: encodeBase64(attachment.data),
+  }))
+}
+
+/**
+ * Point a userNewsletter at re-parsed content, redoing what ingestion derives
+ * from the body: search text, language, reading time, attachments and the
+ * passages indexed for questions (dropped here, re-indexed by the caller).
+ * @returns The R2 keys the newsletter no longer uses, so the caller can clean them up
+ */
+export const replaceNewsletterContentFromOriginal = internalMutation({
+  args: {
+    userNewsletterId: v.id("userNewsletters"),
+    privateR2Key: v.string(),
+    bodyText: v.string(),
+    estimatedReadMinutes: v.optional(v.number()),
+    attachments: v.array(storedAttachmentValidator),
+  },
+  handler: async (ctx, args): Promise<{ replacedKeys: string[] }> => {
+    const userNewsletter = await ctx.db.get("userNewsletters", args.userNewsletterId)
+    if (!userNewsletter) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Newsletter not found" })
+    }
+
+    const previousAttachments = await ctx.db
+      .query("newsletterAttachments")
+      .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", userNewsletter._id))
+      .collect()
+    for (const attachment of previousAttachments) {
+      await ctx.db.delete("newsletterAttachments", attachment._id)
+    }
+    const now = Date.now()
+    for (const attachment of args.attachments) {
+      await ctx.db.insert("newsletterAttachments", {
+        userId: userNewsletter.userId,
+        userNewsletterId: userNewsletter._id,
+        ...attachment,
+        createdAt: now,
+      })
+    }
+
+    await ctx.db.patch("userNewsletters", userNewsletter._id, {
+      privateR2Key: args.privateR2Key,
+      language: args.bodyText ? detectLanguage(args.bodyText) : undefined,
+      estimatedReadMinutes: args.estimatedReadMinutes,
+      attachmentCount: args.attachments.length,
+    })
+
+    const searchMeta = await ctx.db
+      .query("newsletterSearchMeta")
+      .withIndex("by_userId_userNewsletterId", (q) =>
+        q.eq("userId", userNewsletter.userId).eq("userNewsletterId", userNewsletter._id)
+      )
+      .first()
+    if (searchMeta) {
+      await ctx.db.patch("newsletterSearchMeta", searchMeta._id, {
+        searchText: buildSearchText({ ...userNewsletter, bodyText: args.bodyText }),
+        isBodyIndexed: true,
+      })
+    }
+
+    await deleteNewsletterChunks(ctx, userNewsletter._id)
+
+    const sizeDelta =
+      args.attachments.reduce((total, attachment) => total + attachment.sizeBytes, 0) -
+      previousAttachments.reduce((total, attachment) => total + attachment.sizeBytes, 0)
+    const counters = await ctx.db
+      .query("userUsageCounters")
+      .withIndex("by_userId", (q) => q.eq("userId", userNewsletter.userId))
+      .first()
+    if (counters && sizeDelta !== 0) {
+      await ctx.db.patch("userUsageCounters", counters._id, {
+        attachmentBytesStored: Math.max(0, (counters.attachmentBytesStored ?? 0) + sizeDelta),
+        updatedAt: Date.now(),
+      })
+    }
+
+    return {
+      replacedKeys: [
+        ...(userNewsletter.privateR2Key && userNewsletter.privateR2Key !== args.privateR2Key
+          ? [userNewsletter.privateR2Key]
+          : []),
+        ...previousAttachments.map((attachment) => attachment.r2Key),
+      ],
+    }
+  },
+})
+
+/**
+ * Re-run parsing of a delivery from its archived original (.eml)
+ *
+ * - Stored delivery: replaces the newsletter's content with the re-parsed body
+ * - Failed delivery: runs the newsletter through storage again and marks the log stored
+ *
+ * Only possible when the recipient keeps original emails.
+ */
+export const reparseDeliveryFromOriginal = action({
+  args: {
+    logId: v.id("emailDeliveryLogs"),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ status: "updated" | "stored"; userNewsletterId: Id<"userNewsletters"> }> => {
+    const adminUser = await ctx.runQuery(internal.admin.getAdminUser, {})
+    if (!adminUser) {
+      throw new ConvexError({ code: "FORBIDDEN", message: "Admin access required" })
+    }
+
+    const log = await ctx.runQuery(internal.admin.getDeliveryLogInternal, { logId: args.logId })
+    if (!log) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Delivery log not found" })
+    }
+    if (!log.rawEmailR2Key || !log.userId) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "No original email stored for this delivery" })
+    }
+    const userId = log.userId
+
+    const rawEmail = await fetchRawEmail(log.rawEmailR2Key)
+    const result = await parseEmlFile(rawEmail, {
+      maxFileSize: MAX_RAW_EMAIL_BYTES,
+      maxAttachmentSize: MAX_RAW_EMAIL_BYTES,
+    })
+    if (!result.success) {
+      throw new ConvexError({ code: "PARSE_ERROR", message: result.error.message })
+    }
+    const parsed = result.data
+
+    if (log.userNewsletterId) {
+      const content = parsed.htmlContent || parsed.textContent || ""
+      const contentType = parsed.htmlContent ? "text/html" : "text/plain"
+      const ext = parsed.htmlContent ? "html" : "txt"
+      const r2Key = `private/${userId}/${Date.now()}-${crypto.randomUUID()}.${ext}`
+
+      const blob = new Blob([content], { type: `${contentType}; charset=utf-8` })
+      await r2.store(ctx, blob, { key: r2Key, type: contentType })
+
+      // The re-parsed attachments replace the current ones, so those don't
+      // count against the cap
+      const entitlements = await ctx.runQuery(internal.entitlements.getUserEntitlementsByUserId, {
+        userId,
+      })
+      const currentAttachmentBytes = await ctx.runQuery(
+        internal.admin.getNewsletterAttachmentBytesInternal,
+        { userNewsletterId: log.userNewsletterId }
+      )
+      const { stored: attachments } = await uploadAttachmentsToR2(ctx, {
+        userId,
+        attachments: toIncomingAttachments(parsed.attachments),
+        remainingBytes:
+          entitlements.attachmentStorageCapBytes -
+          (entitlements.usage.attachmentBytesStored ?? 0) +
+          currentAttachmentBytes,
+      })
+
+      let replaced: { replacedKeys: string[] }
+      try {
+        replaced = await ctx.runMutation(
+          internal.admin.replaceNewsletterContentFromOriginal,
+          {
+            userNewsletterId: log.userNewsletterId,
+            privateR2Key: r2Key,
+            bodyText: (parsed.htmlContent
+              ? stripHtmlToText(parsed.htmlContent)
+              : (parsed.textContent ?? "")
+            ).slice(0, MAX_SEARCH_BODY_LENGTH),
+            estimatedReadMinutes: estimateReadMinutesFromContent(content) ?? undefined,
+            attachments,
+          }
+        )
+      } catch (error) {
+        // E.g. the newsletter was deleted meanwhile: nothing points at the uploads
+        for (const key of [r2Key, ...attachments.map((attachment) => attachment.r2Key)]) {
+          await r2.deleteObject(ctx, key).catch(() => undefined)
+        }
+        throw error
+      }
+      for (const key of replaced.replacedKeys) {
+        try {
+          await r2.deleteObject(ctx, key)
+        } catch (error) {
+          // Non-fatal: the old object is only orphaned
+          console.error(`[admin] Failed to delete replaced content: key=${key}`, error)
+        }
+      }
+
+      if (process.env.OPENROUTER_API_KEY) {
+        await ctx.scheduler.runAfter(0, internal.newsletterQa.indexNewsletter, {
+          userNewsletterId: log.userNewsletterId,
+        })
+      }
+
+      return { status: "updated", userNewsletterId: log.userNewsletterId }
+    }
+
+    // The delivery never produced a newsletter - run it through storage again
+    const sender = await ctx.runMutation(internal.senders.getOrCreateSender, {
+      email: parsed.senderEmail,
+      name: parsed.senderName ?? undefined,
+    })
+    const folderId = await ctx.runMutation(internal.senders.getOrCreateFolderForSender, {
+      userId,
+      senderId: sender._id,
+    })
+
+    const stored = await ctx.runAction(internal.newsletters.storeNewsletterContent, {
+      userId,
+      senderId: sender._id,
+      folderId,
+      subject: parsed.subject,
+      senderEmail: parsed.senderEmail,
+      senderName: parsed.senderName ?? undefined,
+      receivedAt: parsed.receivedAt,
+      htmlContent: parsed.htmlContent ?? undefined,
+      textContent: parsed.textContent ?? undefined,
+      source: "email",
+      messageId: parsed.messageId ?? undefined,
+      attachments: toIncomingAttachments(parsed.attachments),
+      rawEmailR2Key: log.rawEmailR2Key,
+      rawEmailSizeBytes: rawEmail.byteLength,
     })
+
+    if (stored.skipped && stored.reason === "plan_limit") {
+      throw new ConvexError({
+        code: "PLAN_STORAGE_LIMIT",
+        message: `Plan storage limit reached (hard cap ${stored.hardCap})`,
+      })
+    }
+
+    const userNewsletterId = stored.skipped ? stored.existingId : stored.userNewsletterId
+    await ctx.runMutation(internal.admin.updateDeliveryStatus, {
+      logId: args.logId,
+      status: "stored",
+      userNewsletterId,
+    })
+
+    return { status: "stored", userNewsletterId }
+  },
+})
+
+// ============================================================
+// Replaying failed deliveries
+// ============================================================
+
+/** Maximum number of deliveries scheduled by one bulk retry */
+const MAX_BULK_RETRIES = 100
+
+/** How long the payload of a failed delivery is kept for replays */
+const DELIVERY_PAYLOAD_TTL_MS = 14 * 24 * 60 * 60 * 1000
+
+/** Payloads deleted per cleanupExpiredDeliveryPayloads run */
+const PAYLOAD_CLEANUP_BATCH_SIZE = 200
+
+/**
+ * Link the stored ingest payload to a delivery log so it can be replayed
+ * Replaces (and deletes) any payload stored by an earlier attempt.
+ */
+export const setDeliveryPayload = internalMutation({
+  args: {
+    logId: v.id("emailDeliveryLogs"),
+    payloadStorageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const log = await ctx.db.get("emailDeliveryLogs", args.logId)
+    if (!log) {
+      await ctx.storage.delete(args.payloadStorageId)
+      return
+    }
+
+    if (log.payloadStorageId && log.payloadStorageId !== args.payloadStorageId) {
+      await ctx.storage.delete(log.payloadStorageId)
+    }
+    await ctx.db.patch("emailDeliveryLogs", args.logId, {
+      payloadStorageId: args.payloadStorageId,
+      payloadStoredAt: Date.now(),
+    })
+  },
+})
+
+/**
+ * Delete payloads of failed deliveries older than DELIVERY_PAYLOAD_TTL_MS
+ * Called by cron; the logs stay, they just can't be replayed anymore.
+ */
+export const cleanupExpiredDeliveryPayloads = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<{ deletedCount: number }> => {
+    const cutoff = Date.now() - DELIVERY_PAYLOAD_TTL_MS
+    const expired = await ctx.db
+      .query("emailDeliveryLogs")
+      .withIndex("by_payloadStoredAt", (q) =>
+        q.gt("payloadStoredAt", 0).lte("payloadStoredAt", cutoff)
+      )
+      .take(PAYLOAD_CLEANUP_BATCH_SIZE)
+
+    for (const log of expired) {
+      if (log.payloadStorageId) {
+        await ctx.storage.delete(log.payloadStorageId)
+      }
+      await ctx.db.patch("emailDeliveryLogs", log._id, {
+        payloadStorageId: undefined,
+        payloadStoredAt: undefined,
+      })
+    }
+
+    return { deletedCount: expired.length }
+  },
+})
+
+/**
+ * Claim a failed delivery for a retry and record the attempt
+ * Runs in a transaction, so two concurrent retries can't both claim the same log.
+ */
+export const startDeliveryRetry = internalMutation({
+  args: {
+    logId: v.id("emailDeliveryLogs"),
+    triggeredBy: v.optional(v.id("users")),
+    isBulk: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const log = await ctx.db.get("emailDeliveryLogs", args.logId)
+    if (!log) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Delivery log not found" })
+    }
+    if (log.status !== "failed") {
+      throw new ConvexError({
+        code: "INVALID_STATE",
+        message: "Only failed deliveries can be retried",
+      })
+    }
+
+    const attempt = log.retryCount + 1
+    await ctx.db.patch("emailDeliveryLogs", args.logId, {
+      status: "processing",
+      retryCount: attempt,
+    })
+
+    const attemptId = await ctx.db.insert("emailDeliveryAttempts", {
+      logId: args.logId,
+      attempt,
+      status: "processing",
+      startedAt: Date.now(),
+      triggeredBy: args.triggeredBy,
+      isBulk: args.isBulk,
+    })
+
+    return { attemptId, attempt }
+  },
+})
+
+/**
+ * Record the outcome of a retry from the delivery log's final state
+ * A successful retry clears the error and drops the stored payload.
+ */
+export const finishDeliveryRetry = internalMutation({
+  args: {
+    attemptId: v.id("emailDeliveryAttempts"),
+  },
+  handler: async (ctx, args) => {
+    const attempt = await ctx.db.get("emailDeliveryAttempts", args.attemptId)
+    if (!attempt) return null
+    const log = await ctx.db.get("emailDeliveryLogs", attempt.logId)
+    if (!log) return null
+
+    // Anything but "stored" means processing didn't complete
+    const succeeded = log.status === "stored"
+    await ctx.db.patch("emailDeliveryAttempts", args.attemptId, {
+      status: succeeded ? "stored" : "failed",
+      completedAt: Date.now(),
+      errorCode: succeeded ? undefined : (log.errorCode ?? "UNKNOWN"),
+      errorMessage: succeeded ? undefined : log.errorMessage,
+    })
+
+    if (succeeded) {
+      if (log.payloadStorageId) {
+        await ctx.storage.delete(log.payloadStorageId)
+      }
+      await ctx.db.patch("emailDeliveryLogs", log._id, {
+        errorCode: undefined,
+        errorMessage: undefined,
+        payloadStorageId: undefined,
+        payloadStoredAt: undefined,
+      })
+    } else if (log.status !== "failed") {
+      // Processing died before updating the log - put it back in the failed queue
+      await ctx.db.patch("emailDeliveryLogs", log._id, {
+        status: "failed",
+        completedAt: Date.now(),
+      })
+    }
+
+    return { status: succeeded ? ("stored" as const) : ("failed" as const) }
+  },
+})
+
+/**
+ * Schedule replays of the failed deliveries with a given error code
+ * Only deliveries with a stored payload can be replayed.
+ */
+export const scheduleDeliveryRetries = internalMutation({
+  args: {
+    errorCode: v.string(),
+    triggeredBy: v.optional(v.id("users")),
+  },
+  handler: async (ctx, args) => {
+    const failed = await ctx.db
+      .query("emailDeliveryLogs")
+      .withIndex("by_status_receivedAt", (q) => q.eq("status", "failed"))
+      .order("desc")
+      .take(MAX_BULK_RETRIES * 10)
+
+    const retryable = failed
+      .filter((log) => log.errorCode === args.errorCode && log.payloadStorageId)
+      .slice(0, MAX_BULK_RETRIES)
+
+    for (const log of retryable) {
+      await ctx.scheduler.runAfter(0, internal.emailIngestion.replayFailedDelivery, {
+        logId: log._id,
+        triggeredBy: args.triggeredBy,
+        isBulk: true,
+      })
+    }
+
+    return { scheduled: retryable.length }
+  },
+})
+
+/**
+ * Retry a failed delivery (admin action)
+ *
+ * Re-submits the stored ingest payload through the same processing as
+ * receiveEmail. Each retry increments retryCount and is recorded in
+ * emailDeliveryAttempts.
+ */
+export const retryFailedDelivery = action({
+  args: {
+    logId: v.id("emailDeliveryLogs"),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ status: "stored" | "failed"; attempt: number; errorCode?: string }> => {
+    const adminUser = await ctx.runQuery(internal.admin.getAdminUser, {})
+    if (!adminUser) {
+      throw new ConvexError({ code: "FORBIDDEN", message: "Admin access required" })
+    }
+
+    return await ctx.runAction(internal.emailIngestion.replayFailedDelivery, {
+      logId: args.logId,
+      triggeredBy: adminUser._id,
+    })
+  },
+})
+
+/**
+ * Retry all failed deliveries with the given error code (admin action)
+ * e.g. after an R2_UPLOAD_FAILED outage. Retries run in the background.
+ */
+export const retryFailedDeliveriesByErrorCode = action({
+  args: {
+    errorCode: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ scheduled: number }> => {
+    const adminUser = await ctx.runQuery(internal.admin.getAdminUser, {})
+    if (!adminUser) {
+      throw new ConvexError({ code: "FORBIDDEN", message: "Admin access required" })
+    }
+
+    return await ctx.runMutation(internal.admin.scheduleDeliveryRetries, {
+      errorCode: args.errorCode,
+      triggeredBy: adminUser._id,
+    })
+  },
+})
+
+/**
+ * List the retry attempts of a delivery, most recent first
+ */
+export const listDeliveryAttempts = query({
+  args: {
+    logId: v.id("emailDeliveryLogs"),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx)
+
+    return await ctx.db
+      .query("emailDeliveryAttempts")
+      .withIndex("by_logId", (q) => q.eq("logId", args.logId))
+      .order("desc")
+      .collect()
   },
 })
 
@@ -2370,6 +2930,7 @@ export const publishToCommunity = action({
         senderEmail: newsletter.senderEmail,
         senderName: newsletter.senderName,
         receivedAt: newsletter.receivedAt,
+        estimatedReadMinutes: newsletter.estimatedReadMinutes,
         communityApprovedAt: Date.now(),
         communityApprovedBy: adminUser._id,
       })
@@ -2422,6 +2983,7 @@ export const createCommunityContent = internalMutation({
     senderEmail: v.string(),
     senderName: v.optional(v.string()),
     receivedAt: v.number(),
+    estimatedReadMinutes: v.optional(v.number()),
     communityApprovedAt: v.number(),
     communityApprovedBy: v.id("users"),
   },
@@ -2448,6 +3010,7 @@ export const createCommunityContent = internalMutation({
       firstReceivedAt: args.receivedAt,
       readerCount: 0, // No readers yet - importCount tracks community imports
       importCount: 0,
+      estimatedReadMinutes: args.estimatedReadMinutes,
       communityApprovedAt: args.communityApprovedAt,
       communityApprovedBy: args.communityApprovedBy,
     })
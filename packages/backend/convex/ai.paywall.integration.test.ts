@@ -233,3 +233,150 @@ describe("AI summaries (Pro-only) integration", () => {
     await expect(p1).resolves.toMatchObject({ summary: "Summary" })
   })
 })
+
+describe("AI summary styles integration", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    process.env.OPENROUTER_API_KEY = "test"
+    vi.mocked(generateCompletion).mockImplementation(async (_config, systemPrompt) =>
+      systemPrompt.includes("a single sentence") ? "One-liner" : "Summary"
+    )
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => ({
+        ok: true,
+        status: 200,
+        text: async () => "<p>Hello</p>",
+      })),
+    )
+  })
+
+  it("caches each style separately from the default summary", async () => {
+    const t = makeT()
+    const authId = "auth_pro_styles"
+    const userId = await seedUser(t, { authId, plan: "pro" })
+    const { senderId, folderId } = await seedSenderAndFolder(t, userId)
+    const newsletterId = await seedNewsletter(t, {
+      userId,
+      senderId,
+      folderId,
+      subject: "Styled newsletter",
+    })
+    const asUser = t.withIdentity({ subject: authId })
+
+    await asUser.action(api.ai.generateSummary, { userNewsletterId: newsletterId })
+    await expect(
+      asUser.action(api.ai.generateSummary, {
+        userNewsletterId: newsletterId,
+        style: "tldr",
+      }),
+    ).resolves.toEqual({ summary: "One-liner", isShared: false })
+
+    // Both are cached now: no further completion calls
+    await asUser.action(api.ai.generateSummary, {
+      userNewsletterId: newsletterId,
+      style: "tldr",
+    })
+    expect(generateCompletion).toHaveBeenCalledTimes(2)
+
+    await expect(
+      asUser.query(api.ai.getNewsletterSummary, { userNewsletterId: newsletterId }),
+    ).resolves.toMatchObject({ summary: "Summary" })
+    await expect(
+      asUser.query(api.ai.getNewsletterSummary, {
+        userNewsletterId: newsletterId,
+        style: "tldr",
+      }),
+    ).resolves.toMatchObject({ summary: "One-liner" })
+    await expect(
+      asUser.query(api.ai.getNewsletterSummary, {
+        userNewsletterId: newsletterId,
+        style: "tldr",
+        language: "fr",
+      }),
+    ).resolves.toMatchObject({ summary: null })
+  })
+
+  it("passes the target language to the model", async () => {
+    const t = makeT()
+    const authId = "auth_pro_language"
+    const userId = await seedUser(t, { authId, plan: "pro" })
+    const { senderId, folderId } = await seedSenderAndFolder(t, userId)
+    const newsletterId = await seedNewsletter(t, {
+      userId,
+      senderId,
+      folderId,
+      subject: "Translated summary",
+    })
+
+    await t.withIdentity({ subject: authId }).action(api.ai.generateSummary, {
+      userNewsletterId: newsletterId,
+      language: "de",
+    })
+
+    expect(vi.mocked(generateCompletion).mock.calls[0][1]).toContain(
+      "Write the summary in German",
+    )
+    const variants = await t.run(async (ctx) => await ctx.db.query("summaryVariants").collect())
+    expect(variants).toMatchObject([
+      { userNewsletterId: newsletterId, style: "bullets", language: "de" },
+    ])
+  })
+
+  it("shares the first styled summary of a public newsletter", async () => {
+    const t = makeT()
+    const authId = "auth_pro_shared_style"
+    const otherAuthId = "auth_pro_shared_style_2"
+    const userId = await seedUser(t, { authId, plan: "pro" })
+    const otherUserId = await seedUser(t, { authId: otherAuthId, plan: "pro" })
+    const { senderId, folderId } = await seedSenderAndFolder(t, userId)
+
+    const { newsletterId, otherNewsletterId } = await t.run(async (ctx) => {
+      const contentId = await ctx.db.insert("newsletterContent", {
+        contentHash: "hash",
+        r2Key: "public/hash.html",
+        subject: "Public newsletter",
+        senderEmail: "sender@example.com",
+        firstReceivedAt: Date.now(),
+        readerCount: 2,
+      })
+      const base = {
+        senderId,
+        contentId,
+        subject: "Public newsletter",
+        senderEmail: "sender@example.com",
+        receivedAt: Date.now(),
+        isRead: false,
+        isHidden: false,
+        isPrivate: false,
+      }
+      return {
+        newsletterId: await ctx.db.insert("userNewsletters", { ...base, userId, folderId }),
+        otherNewsletterId: await ctx.db.insert("userNewsletters", {
+          ...base,
+          userId: otherUserId,
+        }),
+      }
+    })
+
+    await expect(
+      t.withIdentity({ subject: authId }).action(api.ai.generateSummary, {
+        userNewsletterId: newsletterId,
+        style: "actionItems",
+      }),
+    ).resolves.toEqual({ summary: "Summary", isShared: true })
+
+    await expect(
+      t.withIdentity({ subject: otherAuthId }).action(api.ai.generateSummary, {
+        userNewsletterId: otherNewsletterId,
+        style: "actionItems",
+      }),
+    ).resolves.toEqual({ summary: "Summary", isShared: true })
+    expect(generateCompletion).toHaveBeenCalledTimes(1)
+
+    // The shared default summary is untouched
+    const content = await t.run(async (ctx) => await ctx.db.query("newsletterContent").first())
+    expect(content?.summary).toBeUndefined()
+  })
+})
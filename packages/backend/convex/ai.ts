@@ -17,6 +17,10 @@
  * 1. userNewsletters.summary (personal)
  * 2. newsletterContent.summary (shared, public only)
  * 3. null (no summary)
+ *
+ * Summary Styles:
+ * - The fields above hold the default style (bullets, newsletter's language)
+ * - Other styles/languages follow the same rules in summaryVariants
  */
 
 import {
@@ -28,21 +32,17 @@ import {
 import { v, ConvexError } from "convex/values"
 import { internal } from "./_generated/api"
 import { generateCompletion } from "./lib/openrouter"
-import type { Id } from "./_generated/dataModel"
+import type { Doc, Id } from "./_generated/dataModel"
+import type { MutationCtx, QueryCtx } from "./_generated/server"
 import { AI_DAILY_LIMIT, isUserPro } from "./entitlements"
-
-/** System prompt for consistent, useful summaries */
-const SUMMARY_SYSTEM_PROMPT = `You are a helpful assistant that summarizes newsletter content.
-
-IMPORTANT: Write the summary in the SAME LANGUAGE as the newsletter content. If the newsletter is in French, write the summary in French. If in Spanish, write in Spanish. Match the content's language exactly.
-
-Create a concise summary that captures:
-- Key points and main topics (3-5 bullet points)
-- Important takeaways
-- Any action items or deadlines mentioned
-
-Keep the summary under 200 words. Use clear, simple language.
-Format as a brief introduction followed by bullet points.`
+import {
+  DEFAULT_SUMMARY_STYLE,
+  buildSummarySystemPrompt,
+  isDefaultSummary,
+  summaryStyleValidator,
+  type SummaryStyle,
+} from "./lib/summaryStyle"
+import { supportedLanguageValidator, type SupportedLanguage } from "./lib/detectLanguage"
 
 /**
  * Generate AI summary for a newsletter
@@ -52,6 +52,7 @@ Format as a brief introduction followed by bullet points.`
  * - Returns existing summary if available (no API call)
  * - First public generation shared with all users
  * - Regeneration creates personal override
+ * - Each style/target language is cached on its own (see lib/summaryStyle.ts)
  *
  * @throws ConvexError with codes: NOT_FOUND, CONTENT_UNAVAILABLE, CONTENT_FETCH_ERROR,
  *         AI_CONFIG_ERROR, AI_TIMEOUT, AI_UNAVAILABLE
@@ -60,10 +61,12 @@ export const generateSummary = action({
   args: {
     userNewsletterId: v.id("userNewsletters"),
     forceRegenerate: v.optional(v.boolean()), // true = user clicked "Regenerate"
+    style: v.optional(summaryStyleValidator), // Defaults to bullets
+    language: v.optional(supportedLanguageValidator), // Defaults to the newsletter's language
   },
   handler: async (
     ctx,
-    { userNewsletterId, forceRegenerate }
+    { userNewsletterId, forceRegenerate, style = DEFAULT_SUMMARY_STYLE, language }
   ): Promise<{ summary: string; isShared: boolean }> => {
     // Authenticate user
     const identity = await ctx.auth.getUserIdentity()
@@ -113,7 +116,16 @@ export const generateSummary = action({
     }
 
     // COST OPTIMIZATION: Check for existing summary (unless regenerating)
-    if (!forceRegenerate) {
+    if (!forceRegenerate && !isDefaultSummary(style, language)) {
+      const variant = await ctx.runQuery(internal.ai.getSummaryVariant, {
+        userNewsletterId,
+        style,
+        language,
+      })
+      if (variant) {
+        return { summary: variant.summary, isShared: variant.isShared }
+      }
+    } else if (!forceRegenerate) {
       // Priority 1: Check personal summary (userNewsletters)
       if (newsletter.summary) {
         return { summary: newsletter.summary, isShared: false }
@@ -179,6 +191,8 @@ export const generateSummary = action({
         newsletter,
         day,
         userId: user._id,
+        style,
+        language,
       })
     } finally {
       await ctx.runMutation(internal.ai.releaseAiInFlight, { userId: user._id })
@@ -194,6 +208,8 @@ async function generateSummaryWithExistingLogic(
     newsletter: any
     day: string
     userId: Id<"users">
+    style: SummaryStyle
+    language: SupportedLanguage | undefined
   }
 ): Promise<{ summary: string; isShared: boolean }> {
   // Get newsletter content (validates access internally)
@@ -241,7 +257,7 @@ async function generateSummaryWithExistingLogic(
         model: "openai/gpt-oss-120b",
         timeout: 25000, // 25s timeout (NFR3: 10s target, allow buffer for edge cases)
       },
-      SUMMARY_SYSTEM_PROMPT,
+      buildSummarySystemPrompt(args.style, args.language),
       `Summarize this newsletter:\n\n${truncatedText}`
     )
 
@@ -249,6 +265,22 @@ async function generateSummaryWithExistingLogic(
     const isFirstGenerationForPublic =
       !args.forceRegenerate && !args.newsletter.isPrivate && args.newsletter.contentId
 
+    if (!isDefaultSummary(args.style, args.language)) {
+      await ctx.runMutation(internal.ai.storeSummaryVariant, {
+        ...(isFirstGenerationForPublic
+          ? { contentId: args.newsletter.contentId as Id<"newsletterContent"> }
+          : { userNewsletterId: args.userNewsletterId }),
+        style: args.style,
+        language: args.language,
+        summary,
+      })
+      await ctx.runMutation(internal.ai.incrementAiUsageDaily, {
+        userId: args.userId,
+        day: args.day,
+      })
+      return { summary, isShared: Boolean(isFirstGenerationForPublic) }
+    }
+
     if (isFirstGenerationForPublic) {
       // FIRST GENERATION (PUBLIC): Store on shared newsletterContent (benefits all users)
       await ctx.runMutation(internal.ai.storeSharedSummary, {
@@ -301,12 +333,18 @@ async function generateSummaryWithExistingLogic(
  * 1. Personal summary (userNewsletters.summary) - if user regenerated
  * 2. Shared summary (newsletterContent.summary) - for public newsletters
  * 3. null - no summary available
+ *
+ * Styles other than the default resolve the same way from summaryVariants.
  */
 export const getNewsletterSummary = query({
-  args: { userNewsletterId: v.id("userNewsletters") },
+  args: {
+    userNewsletterId: v.id("userNewsletters"),
+    style: v.optional(summaryStyleValidator),
+    language: v.optional(supportedLanguageValidator),
+  },
   handler: async (
     ctx,
-    { userNewsletterId }
+    { userNewsletterId, style = DEFAULT_SUMMARY_STYLE, language }
   ): Promise<{
     summary: string | null
     isShared: boolean
@@ -343,6 +381,11 @@ export const getNewsletterSummary = query({
       return { summary: null, isShared: false, generatedAt: null }
     }
 
+    if (!isDefaultSummary(style, language)) {
+      const variant = await findSummaryVariant(ctx, newsletter, style, language)
+      return variant ?? { summary: null, isShared: false, generatedAt: null }
+    }
+
     // Priority 1: Personal summary (userNewsletters)
     if (newsletter.summary) {
       return {
@@ -430,6 +473,113 @@ export const storePrivateSummary = internalMutation({
   },
 })
 
+/**
+ * Look up a cached non-default summary: personal first, then shared (public only)
+ */
+async function findSummaryVariant(
+  ctx: Pick<QueryCtx, "db">,
+  newsletter: Doc<"userNewsletters">,
+  style: SummaryStyle,
+  language: SupportedLanguage | undefined
+): Promise<{ summary: string; isShared: boolean; generatedAt: number } | null> {
+  const personal = await ctx.db
+    .query("summaryVariants")
+    .withIndex("by_userNewsletterId_style_language", (q) =>
+      q.eq("userNewsletterId", newsletter._id).eq("style", style).eq("language", language)
+    )
+    .first()
+  if (personal) {
+    return { summary: personal.summary, isShared: false, generatedAt: personal.generatedAt }
+  }
+
+  if (newsletter.isPrivate || !newsletter.contentId) return null
+  const contentId = newsletter.contentId
+  const shared = await ctx.db
+    .query("summaryVariants")
+    .withIndex("by_contentId_style_language", (q) =>
+      q.eq("contentId", contentId).eq("style", style).eq("language", language)
+    )
+    .first()
+  if (!shared) return null
+  return { summary: shared.summary, isShared: true, generatedAt: shared.generatedAt }
+}
+
+/**
+ * Remove the personal summary variants of a newsletter (called when it's deleted)
+ */
+export async function deleteSummaryVariants(
+  ctx: Pick<MutationCtx, "db">,
+  userNewsletterId: Id<"userNewsletters">
+): Promise<void> {
+  const variants = await ctx.db
+    .query("summaryVariants")
+    .withIndex("by_userNewsletterId_style_language", (q) =>
+      q.eq("userNewsletterId", userNewsletterId)
+    )
+    .collect()
+  for (const variant of variants) {
+    await ctx.db.delete("summaryVariants", variant._id)
+  }
+}
+
+/**
+ * Internal query to check for an existing summary in a non-default style
+ */
+export const getSummaryVariant = internalQuery({
+  args: {
+    userNewsletterId: v.id("userNewsletters"),
+    style: summaryStyleValidator,
+    language: v.optional(supportedLanguageValidator),
+  },
+  handler: async (ctx, args) => {
+    const newsletter = await ctx.db.get("userNewsletters", args.userNewsletterId)
+    if (!newsletter) return null
+    return await findSummaryVariant(ctx, newsletter, args.style, args.language)
+  },
+})
+
+/**
+ * Internal mutation to store a summary in a non-default style, shared
+ * (contentId) or personal (userNewsletterId); replaces the previous one
+ */
+export const storeSummaryVariant = internalMutation({
+  args: {
+    contentId: v.optional(v.id("newsletterContent")),
+    userNewsletterId: v.optional(v.id("userNewsletters")),
+    style: summaryStyleValidator,
+    language: v.optional(supportedLanguageValidator),
+    summary: v.string(),
+  },
+  handler: async (ctx, { contentId, userNewsletterId, style, language, summary }) => {
+    const existing = contentId
+      ? await ctx.db
+          .query("summaryVariants")
+          .withIndex("by_contentId_style_language", (q) =>
+            q.eq("contentId", contentId).eq("style", style).eq("language", language)
+          )
+          .first()
+      : await ctx.db
+          .query("summaryVariants")
+          .withIndex("by_userNewsletterId_style_language", (q) =>
+            q.eq("userNewsletterId", userNewsletterId).eq("style", style).eq("language", language)
+          )
+          .first()
+
+    if (existing) {
+      await ctx.db.patch("summaryVariants", existing._id, { summary, generatedAt: Date.now() })
+      return
+    }
+    await ctx.db.insert("summaryVariants", {
+      contentId,
+      userNewsletterId: contentId ? undefined : userNewsletterId,
+      style,
+      language,
+      summary,
+      generatedAt: Date.now(),
+    })
+  },
+})
+
 export const setLastSummaryRequestAt = internalMutation({
   args: {
     userNewsletterId: v.id("userNewsletters"),
@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api, internal } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+import { r2 } from "./r2"
+import { FREE_ATTACHMENT_STORAGE_BYTES } from "./entitlements"
+import { toSafeAttachmentFilename } from "./attachments"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async (key: string) => `https://r2.example.com/${key}`),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+const modules = import.meta.glob("./**/*.ts")
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>, authId: string) {
+  return await t.run(async (ctx) => {
+    const userId = await ctx.db.insert("users", {
+      email: `${authId}@example.com`,
+      createdAt: Date.now(),
+      authId,
+      dedicatedEmail: `${authId}@inbound.example.com`,
+      plan: "free",
+    })
+    const senderId = await ctx.db.insert("senders", {
+      email: "sender@example.com",
+      domain: "example.com",
+      name: "Sender",
+      subscriberCount: 1,
+      newsletterCount: 0,
+    })
+    const folderId = await ctx.db.insert("folders", {
+      userId,
+      name: "Inbox",
+      isHidden: false,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    })
+    return { userId, senderId, folderId }
+  })
+}
+
+function storeArgs(
+  ids: { userId: Id<"users">; senderId: Id<"senders">; folderId: Id<"folders"> },
+  subject: string,
+  attachments: Array<{ filename: string; mimeType: string; contentBase64: string }>
+) {
+  return {
+    ...ids,
+    subject,
+    senderEmail: "sender@example.com",
+    senderName: "Sender",
+    receivedAt: Date.now(),
+    htmlContent: `<p>${subject}</p>`,
+    source: "email" as const,
+    attachments,
+  }
+}
+
+// "Hello PDF" - 9 bytes once decoded
+const PDF_BASE64 = "SGVsbG8gUERG"
+
+describe("Newsletter attachments integration", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("stores attachments in R2 and links them to the newsletter", async () => {
+    const t = makeT()
+    const ids = await seedUser(t, "auth_attach_1")
+
+    const result = await t.action(
+      internal.newsletters.storeNewsletterContent,
+      storeArgs(ids, "With deck", [
+        { filename: "deck.pdf", mimeType: "application/pdf", contentBase64: PDF_BASE64 },
+      ])
+    )
+    if ("skipped" in result && result.skipped) throw new Error("Expected store to succeed")
+
+    expect(result.attachmentCount).toBe(1)
+    expect(r2.store).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.any(Blob),
+      expect.objectContaining({
+        key: expect.stringMatching(new RegExp(`^private/${ids.userId}/attachments/.+/deck\\.pdf$`)),
+        type: "application/pdf",
+      })
+    )
+
+    const { newsletter, attachments, counters } = await t.run(async (ctx) => ({
+      newsletter: await ctx.db.get(result.userNewsletterId),
+      attachments: await ctx.db
+        .query("newsletterAttachments")
+        .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", result.userNewsletterId))
+        .collect(),
+      counters: await ctx.db
+        .query("userUsageCounters")
+        .withIndex("by_userId", (q) => q.eq("userId", ids.userId))
+        .first(),
+    }))
+
+    expect(newsletter?.attachmentCount).toBe(1)
+    expect(attachments).toHaveLength(1)
+    expect(attachments[0]).toMatchObject({ filename: "deck.pdf", sizeBytes: 9 })
+    expect(counters?.attachmentBytesStored).toBe(9)
+
+    const asUser = t.withIdentity({ subject: "auth_attach_1" })
+    const listed = await asUser.query(api.attachments.listNewsletterAttachments, {
+      userNewsletterId: result.userNewsletterId,
+    })
+    expect(listed).toEqual([
+      { _id: attachments[0]!._id, filename: "deck.pdf", mimeType: "application/pdf", sizeBytes: 9 },
+    ])
+
+    const download = await asUser.action(api.attachments.getAttachmentDownloadUrl, {
+      attachmentId: attachments[0]!._id,
+    })
+    expect(download.url).toBe(`https://r2.example.com/${attachments[0]!.r2Key}`)
+  })
+
+  it("skips attachments once the plan's attachment storage cap is reached", async () => {
+    const t = makeT()
+    const ids = await seedUser(t, "auth_attach_2")
+
+    await t.run(async (ctx) => {
+      await ctx.db.insert("userUsageCounters", {
+        userId: ids.userId,
+        totalStored: 0,
+        unlockedStored: 0,
+        lockedStored: 0,
+        attachmentBytesStored: FREE_ATTACHMENT_STORAGE_BYTES - 5,
+        updatedAt: Date.now(),
+      })
+    })
+
+    const result = await t.action(
+      internal.newsletters.storeNewsletterContent,
+      storeArgs(ids, "Over cap", [
+        { filename: "deck.pdf", mimeType: "application/pdf", contentBase64: PDF_BASE64 },
+      ])
+    )
+    if ("skipped" in result && result.skipped) throw new Error("Expected store to succeed")
+
+    expect(result.attachmentCount).toBe(0)
+    expect(result.skippedAttachmentCount).toBe(1)
+    // Only the newsletter body was uploaded
+    expect(r2.store).toHaveBeenCalledTimes(1)
+  })
+
+  it("uploads attachments only once the newsletter record exists", async () => {
+    const t = makeT()
+    const ids = await seedUser(t, "auth_attach_order")
+    const newslettersAtUpload: number[] = []
+    vi.mocked(r2.store).mockImplementation(async (_ctx, _blob, opts) => {
+      if (typeof opts === "object" && opts.key?.includes("/attachments/")) {
+        const newsletters = await t.run(async (ctx) => ctx.db.query("userNewsletters").collect())
+        newslettersAtUpload.push(newsletters.length)
+      }
+      return "r2Key"
+    })
+
+    await t.action(
+      internal.newsletters.storeNewsletterContent,
+      storeArgs(ids, "Ordered", [
+        { filename: "deck.pdf", mimeType: "application/pdf", contentBase64: PDF_BASE64 },
+      ])
+    )
+
+    expect(newslettersAtUpload).toEqual([1])
+    vi.mocked(r2.store).mockImplementation(async () => "r2Key")
+  })
+
+  it("forbids downloading another user's attachment", async () => {
+    const t = makeT()
+    const ids = await seedUser(t, "auth_attach_3")
+    await seedUser(t, "auth_attach_intruder")
+
+    const result = await t.action(
+      internal.newsletters.storeNewsletterContent,
+      storeArgs(ids, "Private deck", [
+        { filename: "deck.pdf", mimeType: "application/pdf", contentBase64: PDF_BASE64 },
+      ])
+    )
+    if ("skipped" in result && result.skipped) throw new Error("Expected store to succeed")
+
+    const attachment = await t.run(async (ctx) =>
+      ctx.db
+        .query("newsletterAttachments")
+        .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", result.userNewsletterId))
+        .first()
+    )
+
+    await expect(
+      t
+        .withIdentity({ subject: "auth_attach_intruder" })
+        .action(api.attachments.getAttachmentDownloadUrl, { attachmentId: attachment!._id })
+    ).rejects.toThrow(/Access denied/)
+  })
+
+  it("releases attachment storage when the newsletter is deleted", async () => {
+    const t = makeT()
+    const ids = await seedUser(t, "auth_attach_4")
+
+    const result = await t.action(
+      internal.newsletters.storeNewsletterContent,
+      storeArgs(ids, "Deleted later", [
+        { filename: "deck.pdf", mimeType: "application/pdf", contentBase64: PDF_BASE64 },
+      ])
+    )
+    if ("skipped" in result && result.skipped) throw new Error("Expected store to succeed")
+
+    await t
+      .withIdentity({ subject: "auth_attach_4" })
+      .mutation(api.newsletters.deleteUserNewsletter, { userNewsletterId: result.userNewsletterId })
+
+    const { remaining, counters } = await t.run(async (ctx) => ({
+      remaining: await ctx.db
+        .query("newsletterAttachments")
+        .withIndex("by_userId", (q) => q.eq("userId", ids.userId))
+        .collect(),
+      counters: await ctx.db
+        .query("userUsageCounters")
+        .withIndex("by_userId", (q) => q.eq("userId", ids.userId))
+        .first(),
+    }))
+    expect(remaining).toHaveLength(0)
+    expect(counters?.attachmentBytesStored).toBe(0)
+  })
+})
+
+describe("toSafeAttachmentFilename", () => {
+  it("strips path separators and control characters", () => {
+    expect(toSafeAttachmentFilename("../../etc/passwd")).toBe("_.._etc_passwd")
+    expect(toSafeAttachmentFilename("report\u0000.pdf")).toBe("report_.pdf")
+  })
+
+  it("falls back to a generic name when nothing is left", () => {
+    expect(toSafeAttachmentFilename("  ")).toBe("attachment")
+  })
+})
@@ -0,0 +1,292 @@
+import {
+  action,
+  internalMutation,
+  internalQuery,
+  query,
+  type ActionCtx,
+  type MutationCtx,
+} from "./_generated/server"
+import { internal } from "./_generated/api"
+import { v, ConvexError, type Infer } from "convex/values"
+import type { Id } from "./_generated/dataModel"
+import { r2 } from "./r2"
+import { isUserPro } from "./entitlements"
+
+/**
+ * Attachment as received from the email worker (base64-encoded content)
+ */
+export const incomingAttachmentValidator = v.object({
+  filename: v.string(),
+  mimeType: v.string(),
+  contentBase64: v.string(),
+  contentId: v.optional(v.string()),
+})
+
+export type IncomingAttachment = Infer<typeof incomingAttachmentValidator>
+
+/**
+ * Attachment already uploaded to R2, waiting to be linked to its userNewsletter
+ */
+export const storedAttachmentValidator = v.object({
+  filename: v.string(),
+  mimeType: v.string(),
+  sizeBytes: v.number(),
+  r2Key: v.string(),
+  contentId: v.optional(v.string()),
+})
+
+export type StoredAttachment = Infer<typeof storedAttachmentValidator>
+
+/** Maximum length kept for an attachment filename */
+const MAX_FILENAME_LENGTH = 200
+
+/**
+ * Make a filename safe to use as the last segment of an R2 key.
+ * The key's last segment doubles as the download filename.
+ */
+export function toSafeAttachmentFilename(filename: string): string {
+  const cleaned = filename
+    .normalize("NFKC")
+    .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, "_")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^\.+/, "")
+    .slice(0, MAX_FILENAME_LENGTH)
+
+  return cleaned.length > 0 ? cleaned : "attachment"
+}
+
+export function decodeBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64.replace(/\s+/g, ""))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+/**
+ * Upload incoming attachments to R2 under the user's private prefix.
+ * Attachments that would push the user past their attachment storage cap
+ * (or that fail to upload) are skipped - the newsletter itself is still stored.
+ */
+export async function uploadAttachmentsToR2(
+  ctx: ActionCtx,
+  args: {
+    userId: Id<"users">
+    attachments: IncomingAttachment[]
+    remainingBytes: number
+  }
+): Promise<{ stored: StoredAttachment[]; skippedCount: number }> {
+  const stored: StoredAttachment[] = []
+  let skippedCount = 0
+  let remainingBytes = args.remainingBytes
+
+  for (const attachment of args.attachments) {
+    let bytes: Uint8Array<ArrayBuffer>
+    try {
+      bytes = decodeBase64(attachment.contentBase64)
+    } catch {
+      console.log(`[attachments] Skipping attachment with invalid base64: ${attachment.filename}`)
+      skippedCount++
+      continue
+    }
+
+    if (bytes.byteLength > remainingBytes) {
+      console.log(
+        `[attachments] Attachment storage cap reached, skipping ${attachment.filename} ` +
+          `(${bytes.byteLength} bytes, ${Math.max(0, remainingBytes)} remaining)`
+      )
+      skippedCount++
+      continue
+    }
+
+    const filename = toSafeAttachmentFilename(attachment.filename)
+    const r2Key = `private/${args.userId}/attachments/${Date.now()}-${crypto.randomUUID()}/${filename}`
+
+    try {
+      const blob = new Blob([bytes], { type: attachment.mimeType })
+      await r2.store(ctx, blob, { key: r2Key, type: attachment.mimeType })
+    } catch (error) {
+      console.error(`[attachments] R2 upload failed for attachment: key=${r2Key}`, error)
+      skippedCount++
+      continue
+    }
+
+    remainingBytes -= bytes.byteLength
+    stored.push({
+      filename,
+      mimeType: attachment.mimeType,
+      sizeBytes: bytes.byteLength,
+      r2Key,
+      contentId: attachment.contentId,
+    })
+  }
+
+  return { stored, skippedCount }
+}
+
+/**
+ * Link uploaded attachments to their userNewsletter
+ */
+export const recordNewsletterAttachments = internalMutation({
+  args: {
+    userId: v.id("users"),
+    userNewsletterId: v.id("userNewsletters"),
+    attachments: v.array(storedAttachmentValidator),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now()
+    for (const attachment of args.attachments) {
+      await ctx.db.insert("newsletterAttachments", {
+        userId: args.userId,
+        userNewsletterId: args.userNewsletterId,
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        sizeBytes: attachment.sizeBytes,
+        r2Key: attachment.r2Key,
+        contentId: attachment.contentId,
+        createdAt: now,
+      })
+    }
+
+    await ctx.db.patch("userNewsletters", args.userNewsletterId, {
+      attachmentCount: args.attachments.length,
+    })
+  },
+})
+
+/**
+ * Delete the attachment records of a userNewsletter.
+ * R2 object cleanup is handled separately, like newsletter bodies.
+ * @returns Total bytes released (to decrement the usage counter)
+ */
+export async function deleteNewsletterAttachmentRecords(
+  ctx: Pick<MutationCtx, "db">,
+  userNewsletterId: Id<"userNewsletters">
+): Promise<number> {
+  const attachments = await ctx.db
+    .query("newsletterAttachments")
+    .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", userNewsletterId))
+    .collect()
+
+  let releasedBytes = 0
+  for (const attachment of attachments) {
+    releasedBytes += attachment.sizeBytes
+    await ctx.db.delete("newsletterAttachments", attachment._id)
+  }
+  return releasedBytes
+}
+
+/**
+ * List attachments for a newsletter owned by the current user
+ * Returns metadata only - use getAttachmentDownloadUrl for a signed URL
+ */
+export const listNewsletterAttachments = query({
+  args: { userNewsletterId: v.id("userNewsletters") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    const userNewsletter = await ctx.db.get("userNewsletters", args.userNewsletterId)
+    if (!userNewsletter) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Newsletter not found" })
+    }
+    if (userNewsletter.userId !== user._id) {
+      throw new ConvexError({ code: "FORBIDDEN", message: "Access denied" })
+    }
+
+    if (!userNewsletter.attachmentCount) return []
+
+    const attachments = await ctx.db
+      .query("newsletterAttachments")
+      .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", args.userNewsletterId))
+      .collect()
+
+    return attachments.map((attachment) => ({
+      _id: attachment._id,
+      filename: attachment.filename,
+      mimeType: attachment.mimeType,
+      sizeBytes: attachment.sizeBytes,
+    }))
+  },
+})
+
+/**
+ * Internal query to get an attachment with its newsletter (no auth checks)
+ * Used by getAttachmentDownloadUrl action
+ */
+export const getAttachmentWithNewsletterInternal = internalQuery({
+  args: { attachmentId: v.id("newsletterAttachments") },
+  handler: async (ctx, args) => {
+    const attachment = await ctx.db.get("newsletterAttachments", args.attachmentId)
+    if (!attachment) return null
+
+    const userNewsletter = await ctx.db.get("userNewsletters", attachment.userNewsletterId)
+    if (!userNewsletter) return null
+
+    return { attachment, userNewsletter }
+  },
+})
+
+/**
+ * Get a short-lived signed download URL for an attachment
+ * This is an action because r2.getUrl() makes external API calls
+ */
+export const getAttachmentDownloadUrl = action({
+  args: { attachmentId: v.id("newsletterAttachments") },
+  handler: async (ctx, args): Promise<{ url: string; filename: string }> => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.runQuery(internal._internal.users.findByAuthId, {
+      authId: identity.subject,
+    })
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    const result = await ctx.runQuery(internal.attachments.getAttachmentWithNewsletterInternal, {
+      attachmentId: args.attachmentId,
+    })
+    if (!result) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Attachment not found" })
+    }
+
+    const { attachment, userNewsletter } = result
+    if (attachment.userId !== user._id || userNewsletter.userId !== user._id) {
+      throw new ConvexError({ code: "FORBIDDEN", message: "Access denied" })
+    }
+
+    const isPro = isUserPro({ plan: user.plan ?? "free", proExpiresAt: user.proExpiresAt })
+    if (!isPro && userNewsletter.isLockedByPlan) {
+      throw new ConvexError({
+        code: "PRO_REQUIRED",
+        message: "Upgrade to Pro to access this newsletter.",
+      })
+    }
+
+    const url = await r2.getUrl(attachment.r2Key, { expiresIn: 3600 })
+    return { url, filename: attachment.filename }
+  },
+})
@@ -188,6 +188,10 @@ export const getCurrentUser = query({
       plan: user?.plan ?? "free",
       proExpiresAt: user?.proExpiresAt ?? null,
       vanityEmail: user?.vanityEmail ?? null,
+      keepOriginalEmails: user?.keepOriginalEmails ?? false,
+      quarantineUnauthenticatedMail: user?.quarantineUnauthenticatedMail ?? false,
+      digestFrequency: user?.digestFrequency ?? null,
+      autoCategorizeSenders: user?.autoCategorizeSenders ?? false,
     }
   },
 })
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from "vitest"
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
 import { convexTest } from "convex-test"
 import schema from "./schema"
 import { internal } from "./_generated/api"
@@ -38,6 +38,12 @@ async function getUser(t: ReturnType<typeof makeT>, userId: Id<"users">) {
 describe("Billing webhook integration", () => {
   beforeEach(() => {
     // New backend per test via makeT().
+    // Fake timers hold back functions scheduled on upgrade (newsletter index backfill).
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
   })
 
   it("dedupes webhook events by eventId", async () => {
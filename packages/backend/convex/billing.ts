@@ -3,6 +3,7 @@ import { components, internal } from "./_generated/api"
 import { action, internalMutation, internalQuery } from "./_generated/server"
 import { ConvexError, v } from "convex/values"
 import type { Id } from "./_generated/dataModel"
+import { scheduleNewsletterIndexBackfill } from "./newsletterQa"
 import Stripe from "stripe"
 
 type Currency = "usd" | "eur"
@@ -577,7 +578,12 @@ export const applySubscriptionUpdate = internalMutation({
     })
 
     const isProNow = plan === "pro" && typeof proExpiresAt === "number" && proExpiresAt > now
-    return { userId: user._id, becamePro: !previousIsPro && isProNow, isProNow }
+    const becamePro = !previousIsPro && isProNow
+    if (becamePro) {
+      // Newsletters received while free were never indexed for questions
+      await scheduleNewsletterIndexBackfill(ctx, user._id)
+    }
+    return { userId: user._id, becamePro, isProNow }
   },
 })
 
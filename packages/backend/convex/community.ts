@@ -29,6 +29,7 @@ import { internal } from "./_generated/api"
 import { v } from "convex/values"
 import { ConvexError } from "convex/values"
 import { r2 } from "./r2"
+import { buildSearchText } from "./lib/searchText"
 
 // ============================================================
 // Constants
@@ -910,6 +911,7 @@ export const addToCollection = mutation({
       isHidden: false,
       isPrivate: false, // Community imports are public
       source: "community", // Story 9.9: Track origin
+      estimatedReadMinutes: content.estimatedReadMinutes,
     })
 
     await ctx.db.insert("newsletterSearchMeta", {
@@ -921,6 +923,7 @@ export const addToCollection = mutation({
       receivedAt: content.firstReceivedAt,
       isHidden: false,
       isRead: false,
+      searchText: buildSearchText(content),
     })
 
     // 8. Increment readerCount AND importCount
@@ -1129,6 +1132,7 @@ export const bulkImportFromCommunity = mutation({
           isHidden: false,
           isPrivate: false,
           source: "community",
+          estimatedReadMinutes: content.estimatedReadMinutes,
         })
 
         await ctx.db.insert("newsletterSearchMeta", {
@@ -1140,6 +1144,7 @@ export const bulkImportFromCommunity = mutation({
           receivedAt: content.firstReceivedAt,
           isHidden: false,
           isRead: false,
+          searchText: buildSearchText(content),
         })
 
         // Increment counts
@@ -35,4 +35,56 @@ crons.interval(
   (internal as any).newsletters.cleanupExpiredBinnedNewsletters
 )
 
+/**
+ * Enforce per-folder retention policies
+ * Moves newsletters outside their folder's policy to the bin, where the
+ * cleanup above deletes them once they expire.
+ */
+crons.interval(
+  "enforce folder retention policies",
+  { hours: 1 },
+  internal.folderRetention.scheduleFolderRetention
+)
+
+/**
+ * Delete expired payloads of failed deliveries
+ * Payloads are only kept for admin replays, so they don't pile up.
+ */
+crons.interval(
+  "cleanup expired delivery payloads",
+  { hours: 1 },
+  internal.admin.cleanupExpiredDeliveryPayloads
+)
+
+/**
+ * Re-verify custom domains
+ * A verified domain whose TXT record was removed stops receiving mail.
+ */
+crons.daily(
+  "reverify custom domains",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.customDomains.scheduleCustomDomainReverification
+)
+
+/**
+ * Wake snoozed newsletters
+ * Brings newsletters back to the inbox (unread, at the top) once their
+ * snooze time has passed.
+ */
+crons.interval(
+  "wake snoozed newsletters",
+  { minutes: 5 },
+  internal.newsletters.wakeSnoozedNewsletters
+)
+
+/**
+ * Generate AI digests
+ * Schedules a daily or weekly briefing for every user whose digest is due.
+ */
+crons.interval(
+  "generate ai digests",
+  { hours: 1 },
+  internal.digests.scheduleDigests
+)
+
 export default crons
@@ -0,0 +1,299 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api, internal } from "./_generated/api"
+import { lookupTxtRecords } from "./lib/dnsLookup"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+vi.mock("./lib/dnsLookup", () => ({
+  lookupTxtRecords: vi.fn(),
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(
+  t: ReturnType<typeof makeT>,
+  { authId = "auth_reader", pro = true }: { authId?: string; pro?: boolean } = {}
+) {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: `${authId}@example.com`,
+      createdAt: Date.now(),
+      authId,
+      dedicatedEmail: `${authId}@hushletter.test`,
+      plan: pro ? "pro" : "free",
+      proExpiresAt: pro ? Date.now() + 30 * 24 * 60 * 60 * 1000 : undefined,
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, to: string) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to,
+      from: "news@example.com",
+      subject: `Issue for ${to}`,
+      receivedAt: Date.now(),
+      htmlContent: `<p>Hello ${to}</p>`,
+    }),
+  })
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> }
+}
+
+describe("custom receiving domains", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    process.env.INTERNAL_API_KEY = previousApiKey
+    vi.useRealTimers()
+  })
+
+  it("delivers mail to a domain only once its TXT record is verified", async () => {
+    const t = makeT()
+    const userId = await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const domainId = await reader.mutation(api.customDomains.addCustomDomain, {
+      domain: " OurCompany.com. ",
+    })
+
+    const [pending] = await reader.query(api.customDomains.listCustomDomains, {})
+    expect(pending).toMatchObject({
+      domain: "ourcompany.com",
+      status: "pending",
+      recordName: "_hushletter.ourcompany.com",
+    })
+    expect((await postEmail(t, "reading@ourcompany.com")).status).toBe(404)
+
+    vi.mocked(lookupTxtRecords).mockResolvedValueOnce({
+      ok: true,
+      records: ["v=spf1 -all", pending.recordValue],
+    })
+    const result = await reader.action(api.customDomains.verifyCustomDomain, { domainId })
+
+    expect(result).toEqual({ status: "verified" })
+    expect(lookupTxtRecords).toHaveBeenCalledWith("_hushletter.ourcompany.com")
+    const delivered = await postEmail(t, "Reading+Team@OurCompany.com")
+    expect(delivered.status).toBe(200)
+    expect(delivered.body.userId).toBe(userId)
+  })
+
+  it("records why verification failed", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const domainId = await reader.mutation(api.customDomains.addCustomDomain, {
+      domain: "ourcompany.com",
+    })
+
+    vi.mocked(lookupTxtRecords).mockResolvedValueOnce({ ok: true, records: [] })
+    const result = await reader.action(api.customDomains.verifyCustomDomain, { domainId })
+
+    expect(result).toEqual({
+      status: "failed",
+      error: "No TXT record found at _hushletter.ourcompany.com",
+    })
+    const [domain] = await reader.query(api.customDomains.listCustomDomains, {})
+    expect(domain).toMatchObject({ status: "failed", lastError: result.error })
+    expect(domain.lastCheckedAt).toBeDefined()
+  })
+
+  it("requires Pro", async () => {
+    const t = makeT()
+    await seedUser(t, { pro: false })
+
+    await expect(
+      t
+        .withIdentity({ subject: "auth_reader" })
+        .mutation(api.customDomains.addCustomDomain, { domain: "ourcompany.com" })
+    ).rejects.toThrow(/Pro is required/)
+  })
+
+  it("stops delivering to a verified domain once its owner is no longer Pro", async () => {
+    const t = makeT()
+    const userId = await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const domainId = await reader.mutation(api.customDomains.addCustomDomain, {
+      domain: "ourcompany.com",
+    })
+    const [pending] = await reader.query(api.customDomains.listCustomDomains, {})
+    vi.mocked(lookupTxtRecords).mockResolvedValueOnce({ ok: true, records: [pending.recordValue] })
+    await reader.action(api.customDomains.verifyCustomDomain, { domainId })
+    expect((await postEmail(t, "reading@ourcompany.com")).status).toBe(200)
+
+    await t.run(async (ctx) => {
+      await ctx.db.patch("users", userId, { proExpiresAt: Date.now() - 1000 })
+    })
+
+    expect((await postEmail(t, "reading@ourcompany.com")).status).toBe(404)
+  })
+
+  it("lets several accounts claim a domain until one of them verifies it", async () => {
+    const t = makeT()
+    const userId = await seedUser(t)
+    await seedUser(t, { authId: "auth_squatter" })
+    const squatter = t.withIdentity({ subject: "auth_squatter" })
+    const squatterDomainId = await squatter.mutation(api.customDomains.addCustomDomain, {
+      domain: "ourcompany.com",
+    })
+    const reader = t.withIdentity({ subject: "auth_reader" })
+
+    const domainId = await reader.mutation(api.customDomains.addCustomDomain, {
+      domain: "ourcompany.com",
+    })
+    const [claim] = await reader.query(api.customDomains.listCustomDomains, {})
+    vi.mocked(lookupTxtRecords).mockResolvedValue({ ok: true, records: [claim.recordValue] })
+    expect(await reader.action(api.customDomains.verifyCustomDomain, { domainId })).toEqual({
+      status: "verified",
+    })
+
+    // The squatter's token isn't in DNS, and the domain is taken anyway
+    const squatterResult = await squatter.action(api.customDomains.verifyCustomDomain, {
+      domainId: squatterDomainId,
+    })
+    expect(squatterResult.status).toBe("failed")
+    await expect(
+      t
+        .withIdentity({ subject: "auth_reader" })
+        .mutation(api.customDomains.addCustomDomain, { domain: "ourcompany.com" })
+    ).rejects.toThrow(/already added this domain/)
+    const delivered = await postEmail(t, "reading@ourcompany.com")
+    expect(delivered.body.userId).toBe(userId)
+  })
+
+  it("keeps a verified domain with its owner even if another claim's record shows up", async () => {
+    const t = makeT()
+    await seedUser(t)
+    await seedUser(t, { authId: "auth_other" })
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const other = t.withIdentity({ subject: "auth_other" })
+    const domainId = await reader.mutation(api.customDomains.addCustomDomain, {
+      domain: "ourcompany.com",
+    })
+    const otherDomainId = await other.mutation(api.customDomains.addCustomDomain, {
+      domain: "ourcompany.com",
+    })
+    const [claim] = await reader.query(api.customDomains.listCustomDomains, {})
+    const [otherClaim] = await other.query(api.customDomains.listCustomDomains, {})
+    vi.mocked(lookupTxtRecords).mockResolvedValue({
+      ok: true,
+      records: [claim.recordValue, otherClaim.recordValue],
+    })
+    await reader.action(api.customDomains.verifyCustomDomain, { domainId })
+
+    const result = await other.action(api.customDomains.verifyCustomDomain, {
+      domainId: otherDomainId,
+    })
+
+    expect(result).toEqual({
+      status: "failed",
+      error: "This domain is already used by another account",
+    })
+  })
+
+  it("hands a domain over when the previous owner's record is gone", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const newOwnerId = await seedUser(t, { authId: "auth_new_owner" })
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const newOwner = t.withIdentity({ subject: "auth_new_owner" })
+    const domainId = await reader.mutation(api.customDomains.addCustomDomain, {
+      domain: "ourcompany.com",
+    })
+    const newOwnerDomainId = await newOwner.mutation(api.customDomains.addCustomDomain, {
+      domain: "ourcompany.com",
+    })
+    const [claim] = await reader.query(api.customDomains.listCustomDomains, {})
+    const [newClaim] = await newOwner.query(api.customDomains.listCustomDomains, {})
+    vi.mocked(lookupTxtRecords).mockResolvedValue({ ok: true, records: [claim.recordValue] })
+    await reader.action(api.customDomains.verifyCustomDomain, { domainId })
+
+    // The domain changed hands: only the new owner's record is left
+    vi.mocked(lookupTxtRecords).mockResolvedValue({ ok: true, records: [newClaim.recordValue] })
+    const result = await newOwner.action(api.customDomains.verifyCustomDomain, {
+      domainId: newOwnerDomainId,
+    })
+
+    expect(result).toEqual({ status: "verified" })
+    const [previous] = await reader.query(api.customDomains.listCustomDomains, {})
+    expect(previous).toMatchObject({
+      status: "failed",
+      lastError: "The TXT record at _hushletter.ourcompany.com doesn't match the expected value",
+    })
+    const delivered = await postEmail(t, "reading@ourcompany.com")
+    expect(delivered.body.userId).toBe(newOwnerId)
+  })
+
+  it("re-verifies verified domains daily and demotes those whose record was removed", async () => {
+    vi.useFakeTimers()
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const domainId = await reader.mutation(api.customDomains.addCustomDomain, {
+      domain: "ourcompany.com",
+    })
+    const [claim] = await reader.query(api.customDomains.listCustomDomains, {})
+    vi.mocked(lookupTxtRecords).mockResolvedValueOnce({ ok: true, records: [claim.recordValue] })
+    await reader.action(api.customDomains.verifyCustomDomain, { domainId })
+
+    // A failed lookup says nothing about the record
+    vi.mocked(lookupTxtRecords).mockResolvedValueOnce({ ok: false, error: "timeout" })
+    await t.mutation(internal.customDomains.scheduleCustomDomainReverification, {})
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+    expect((await reader.query(api.customDomains.listCustomDomains, {}))[0].status).toBe("verified")
+
+    vi.mocked(lookupTxtRecords).mockResolvedValueOnce({ ok: true, records: [] })
+    await t.mutation(internal.customDomains.scheduleCustomDomainReverification, {})
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+
+    const [domain] = await reader.query(api.customDomains.listCustomDomains, {})
+    expect(domain).toMatchObject({
+      status: "failed",
+      lastError: "No TXT record found at _hushletter.ourcompany.com",
+    })
+    expect((await postEmail(t, "reading@ourcompany.com")).status).toBe(404)
+  })
+
+  it("rejects invalid domains and domains verified by someone else", async () => {
+    const t = makeT()
+    await seedUser(t)
+    await seedUser(t, { authId: "auth_other" })
+    const other = t.withIdentity({ subject: "auth_other" })
+    const otherDomainId = await other.mutation(api.customDomains.addCustomDomain, {
+      domain: "ourcompany.com",
+    })
+    const [otherClaim] = await other.query(api.customDomains.listCustomDomains, {})
+    vi.mocked(lookupTxtRecords).mockResolvedValueOnce({ ok: true, records: [otherClaim.recordValue] })
+    await other.action(api.customDomains.verifyCustomDomain, { domainId: otherDomainId })
+    const reader = t.withIdentity({ subject: "auth_reader" })
+
+    await expect(
+      reader.mutation(api.customDomains.addCustomDomain, { domain: "ourcompany.com" })
+    ).rejects.toThrow(/already used by another account/)
+    await expect(
+      reader.mutation(api.customDomains.addCustomDomain, { domain: "not a domain" })
+    ).rejects.toThrow(/valid domain/)
+  })
+})
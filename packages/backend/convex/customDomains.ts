@@ -0,0 +1,388 @@
+import {
+  action,
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from "./_generated/server"
+import type { QueryCtx } from "./_generated/server"
+import type { Doc } from "./_generated/dataModel"
+import { internal } from "./_generated/api"
+import { v, ConvexError } from "convex/values"
+import { isServiceDomain } from "./_internal/emailGeneration"
+import { requireProFromUser } from "./entitlements"
+import { lookupTxtRecords } from "./lib/dnsLookup"
+
+/**
+ * Custom receiving domains (Pro): mail to any address at a verified domain
+ * (e.g. reading@ourcompany.com) delivers to the domain's owner.
+ *
+ * Ownership is proven with a TXT record on _hushletter.<domain> holding the
+ * domain's verification token. Routing the domain's mail to us (MX records)
+ * is up to the domain's owner.
+ *
+ * Several accounts may hold a pending claim on the same domain - only the one
+ * that proves ownership gets it, so an unverified claim can't lock anyone out.
+ * Verified domains are re-checked daily, and whenever another account proves
+ * ownership, so a domain that changed hands follows its TXT record.
+ */
+
+/** Maximum number of custom domains per user */
+export const MAX_CUSTOM_DOMAINS_PER_USER = 5
+
+/** Label of the TXT record holding the verification token */
+export const VERIFICATION_RECORD_LABEL = "_hushletter"
+
+/** Prefix of the verification TXT record's value */
+const VERIFICATION_VALUE_PREFIX = "hushletter-verify="
+
+/** Hostnames: dot-separated labels, ending in an alphabetic TLD */
+const DOMAIN_PATTERN = /^(?=.{4,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/
+
+/**
+ * Normalizes a domain as typed by a user ("OurCompany.com.", " ourcompany.com")
+ * @returns The lowercased domain, or undefined if it isn't a valid hostname
+ */
+export function normalizeCustomDomain(input: string): string | undefined {
+  const domain = input.trim().toLowerCase().replace(/\.$/, "")
+  return DOMAIN_PATTERN.test(domain) ? domain : undefined
+}
+
+/** Name of the TXT record to create for a domain */
+export function getVerificationRecordName(domain: string): string {
+  return `${VERIFICATION_RECORD_LABEL}.${domain}`
+}
+
+/** Value the TXT record must hold */
+export function getVerificationRecordValue(token: string): string {
+  return `${VERIFICATION_VALUE_PREFIX}${token}`
+}
+
+/** Random hex token for the verification record */
+function generateVerificationToken(): string {
+  const bytes = new Uint8Array(16)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+/** The verified claim on a domain, if any account has proven ownership */
+async function findVerifiedClaim(ctx: QueryCtx, domain: string) {
+  const claims = await ctx.db
+    .query("customDomains")
+    .withIndex("by_domain", (q) => q.eq("domain", domain))
+    .collect()
+  return claims.find((claim) => claim.status === "verified")
+}
+
+/**
+ * Look up a claim's TXT record
+ * @returns Whether the record holds the claim's token (and why not), or null
+ *          when the lookup failed and says nothing about the record
+ */
+async function checkVerificationRecord(
+  customDomain: Pick<Doc<"customDomains">, "domain" | "verificationToken">
+): Promise<{ verified: boolean; error?: string } | null> {
+  const recordName = getVerificationRecordName(customDomain.domain)
+  const expected = getVerificationRecordValue(customDomain.verificationToken)
+  const lookup = await lookupTxtRecords(recordName)
+  if (!lookup.ok) {
+    console.log(`[customDomains] TXT lookup failed for ${recordName}: ${lookup.error}`)
+    return null
+  }
+
+  if (lookup.records.some((record) => record.trim() === expected)) {
+    return { verified: true }
+  }
+  return {
+    verified: false,
+    error:
+      lookup.records.length === 0
+        ? `No TXT record found at ${recordName}`
+        : `The TXT record at ${recordName} doesn't match the expected value`,
+  }
+}
+
+/**
+ * List the current user's custom domains with the DNS record each one needs
+ */
+export const listCustomDomains = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) return []
+
+    const domains = await ctx.db
+      .query("customDomains")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .collect()
+
+    return domains.map((customDomain) => ({
+      _id: customDomain._id,
+      domain: customDomain.domain,
+      status: customDomain.status,
+      verifiedAt: customDomain.verifiedAt,
+      lastCheckedAt: customDomain.lastCheckedAt,
+      lastError: customDomain.lastError,
+      createdAt: customDomain.createdAt,
+      recordName: getVerificationRecordName(customDomain.domain),
+      recordValue: getVerificationRecordValue(customDomain.verificationToken),
+    }))
+  },
+})
+
+/**
+ * Add a custom domain (Pro), pending DNS verification
+ */
+export const addCustomDomain = mutation({
+  args: { domain: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    requireProFromUser({ plan: user.plan ?? "free", proExpiresAt: user.proExpiresAt })
+
+    const domain = normalizeCustomDomain(args.domain)
+    if (!domain) {
+      throw new ConvexError({ code: "VALIDATION_ERROR", message: "Enter a valid domain, e.g. ourcompany.com" })
+    }
+    if (isServiceDomain(domain)) {
+      throw new ConvexError({ code: "VALIDATION_ERROR", message: "This domain can't be used as a custom domain" })
+    }
+
+    const owned = await ctx.db
+      .query("customDomains")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .take(MAX_CUSTOM_DOMAINS_PER_USER)
+    if (owned.some((customDomain) => customDomain.domain === domain)) {
+      throw new ConvexError({ code: "CONFLICT", message: "You already added this domain" })
+    }
+
+    // Pending claims by others don't block: verification decides who owns it
+    if (await findVerifiedClaim(ctx, domain)) {
+      throw new ConvexError({ code: "CONFLICT", message: "This domain is already used by another account" })
+    }
+
+    if (owned.length >= MAX_CUSTOM_DOMAINS_PER_USER) {
+      throw new ConvexError({
+        code: "LIMIT_REACHED",
+        message: `You can add up to ${MAX_CUSTOM_DOMAINS_PER_USER} custom domains`,
+      })
+    }
+
+    return await ctx.db.insert("customDomains", {
+      userId: user._id,
+      domain,
+      verificationToken: generateVerificationToken(),
+      status: "pending",
+      createdAt: Date.now(),
+    })
+  },
+})
+
+/**
+ * Remove a custom domain - mail to it stops being delivered right away
+ */
+export const removeCustomDomain = mutation({
+  args: { domainId: v.id("customDomains") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    const customDomain = await ctx.db.get("customDomains", args.domainId)
+    if (!customDomain) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Domain not found" })
+    }
+    if (customDomain.userId !== user._id) {
+      throw new ConvexError({ code: "FORBIDDEN", message: "Access denied" })
+    }
+
+    await ctx.db.delete("customDomains", args.domainId)
+  },
+})
+
+/**
+ * Get a custom domain for verification (no auth checks)
+ */
+export const getCustomDomainInternal = internalQuery({
+  args: { domainId: v.id("customDomains") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get("customDomains", args.domainId)
+  },
+})
+
+/**
+ * Get the verified claim on a domain (no auth checks)
+ */
+export const getVerifiedClaimInternal = internalQuery({
+  args: { domain: v.string() },
+  handler: async (ctx, args) => {
+    return (await findVerifiedClaim(ctx, args.domain)) ?? null
+  },
+})
+
+/**
+ * Store the outcome of a DNS verification check
+ */
+export const recordVerificationResult = internalMutation({
+  args: {
+    domainId: v.id("customDomains"),
+    verified: v.boolean(),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const customDomain = await ctx.db.get("customDomains", args.domainId)
+    if (!customDomain) return
+
+    // Another account proved ownership first: the domain stays theirs
+    const verifiedClaim = args.verified ? await findVerifiedClaim(ctx, customDomain.domain) : undefined
+    const takenByOther = verifiedClaim !== undefined && verifiedClaim._id !== customDomain._id
+    const verified = args.verified && !takenByOther
+    const error = takenByOther ? "This domain is already used by another account" : args.error
+
+    const now = Date.now()
+    await ctx.db.patch("customDomains", args.domainId, {
+      status: verified ? "verified" : "failed",
+      verifiedAt: verified ? (customDomain.verifiedAt ?? now) : undefined,
+      lastCheckedAt: now,
+      lastError: verified ? undefined : error,
+    })
+    return verified ? { status: "verified" as const } : { status: "failed" as const, error }
+  },
+})
+
+/**
+ * Check the domain's verification TXT record and update its status
+ * A verified domain whose record disappeared goes back to failed (and stops
+ * receiving mail) until the record is restored.
+ */
+export const verifyCustomDomain = action({
+  args: { domainId: v.id("customDomains") },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ status: "verified" | "failed"; error?: string }> => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.runQuery(internal._internal.users.findByAuthId, {
+      authId: identity.subject,
+    })
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    const customDomain = await ctx.runQuery(internal.customDomains.getCustomDomainInternal, {
+      domainId: args.domainId,
+    })
+    if (!customDomain) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Domain not found" })
+    }
+    if (customDomain.userId !== user._id) {
+      throw new ConvexError({ code: "FORBIDDEN", message: "Access denied" })
+    }
+
+    // A failed lookup says nothing about the record: keep the current status
+    const check = await checkVerificationRecord(customDomain)
+    if (!check) {
+      throw new ConvexError({ code: "DNS_LOOKUP_FAILED", message: "Couldn't check DNS right now, try again later" })
+    }
+
+    // The domain may have changed hands: whoever verified it before keeps it
+    // only while their record is still there
+    if (check.verified) {
+      const verifiedClaim = await ctx.runQuery(internal.customDomains.getVerifiedClaimInternal, {
+        domain: customDomain.domain,
+      })
+      if (verifiedClaim && verifiedClaim._id !== customDomain._id) {
+        const previous = await checkVerificationRecord(verifiedClaim)
+        if (previous && !previous.verified) {
+          await ctx.runMutation(internal.customDomains.recordVerificationResult, {
+            domainId: verifiedClaim._id,
+            verified: false,
+            error: previous.error,
+          })
+        }
+      }
+    }
+
+    const result = await ctx.runMutation(internal.customDomains.recordVerificationResult, {
+      domainId: customDomain._id,
+      verified: check.verified,
+      error: check.error,
+    })
+
+    return result ?? { status: "failed", error: "Domain not found" }
+  },
+})
+
+/**
+ * Re-check a verified domain's TXT record (scheduled by the daily cron)
+ * A removed record demotes the domain; a failed lookup leaves it as is.
+ */
+export const reverifyCustomDomain = internalAction({
+  args: { domainId: v.id("customDomains") },
+  handler: async (ctx, args) => {
+    const customDomain = await ctx.runQuery(internal.customDomains.getCustomDomainInternal, {
+      domainId: args.domainId,
+    })
+    if (!customDomain || customDomain.status !== "verified") return
+
+    const check = await checkVerificationRecord(customDomain)
+    if (!check) return
+
+    await ctx.runMutation(internal.customDomains.recordVerificationResult, {
+      domainId: customDomain._id,
+      verified: check.verified,
+      error: check.error,
+    })
+  },
+})
+
+/**
+ * Schedule a re-check of every verified domain
+ * Called by cron.
+ */
+export const scheduleCustomDomainReverification = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    let scheduled = 0
+    for await (const customDomain of ctx.db
+      .query("customDomains")
+      .withIndex("by_status", (q) => q.eq("status", "verified"))) {
+      await ctx.scheduler.runAfter(0, internal.customDomains.reverifyCustomDomain, {
+        domainId: customDomain._id,
+      })
+      scheduled++
+    }
+    return { scheduled }
+  },
+})
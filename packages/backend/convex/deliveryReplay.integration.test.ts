@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api, internal } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+import { r2 } from "./r2"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUsers(t: ReturnType<typeof makeT>) {
+  return await t.run(async (ctx) => {
+    const userId = await ctx.db.insert("users", {
+      email: "reader@example.com",
+      createdAt: Date.now(),
+      authId: "auth_reader",
+      dedicatedEmail: "reader@hushletter.test",
+      plan: "free",
+    })
+    const adminId = await ctx.db.insert("users", {
+      email: "admin@example.com",
+      createdAt: Date.now(),
+      authId: "auth_admin",
+      dedicatedEmail: "admin@hushletter.test",
+      plan: "free",
+      isAdmin: true,
+    })
+    return { userId, adminId }
+  })
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown> = {}) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to: "reader@hushletter.test",
+      from: "news@example.com",
+      subject: "Weekly digest",
+      receivedAt: Date.now(),
+      htmlContent: "<p>Issue 1</p>",
+      ...payload,
+    }),
+  })
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> }
+}
+
+/** Deliver an email while R2 is down, leaving a failed delivery log */
+async function postFailedEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown> = {}) {
+  vi.mocked(r2.store).mockRejectedValueOnce(new Error("R2 unavailable"))
+  const { status } = await postEmail(t, payload)
+  expect(status).toBe(500)
+
+  const logs = await t.run(async (ctx) =>
+    ctx.db.query("emailDeliveryLogs").order("desc").collect()
+  )
+  return logs[0]
+}
+
+function getAttempts(t: ReturnType<typeof makeT>, logId: Id<"emailDeliveryLogs">) {
+  return t.run(async (ctx) =>
+    ctx.db
+      .query("emailDeliveryAttempts")
+      .withIndex("by_logId", (q) => q.eq("logId", logId))
+      .collect()
+  )
+}
+
+describe("replaying failed deliveries", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    process.env.INTERNAL_API_KEY = previousApiKey
+    vi.useRealTimers()
+  })
+
+  it("keeps the payload of a failed delivery", async () => {
+    const t = makeT()
+    await seedUsers(t)
+
+    const log = await postFailedEmail(t)
+
+    expect(log).toMatchObject({ status: "failed", retryCount: 0 })
+    expect(log.payloadStorageId).toBeDefined()
+    const payload = await t.run(async (ctx) => {
+      const blob = await ctx.storage.get(log.payloadStorageId!)
+      return JSON.parse((await blob?.text()) ?? "null")
+    })
+    expect(payload).toMatchObject({
+      to: "reader@hushletter.test",
+      subject: "Weekly digest",
+      htmlContent: "<p>Issue 1</p>",
+    })
+  })
+
+  it("doesn't keep the payload of mail to an unknown recipient", async () => {
+    const t = makeT()
+    await seedUsers(t)
+
+    const { status } = await postEmail(t, { to: "nobody@hushletter.test" })
+
+    expect(status).toBe(404)
+    const [log] = await t.run(async (ctx) => ctx.db.query("emailDeliveryLogs").collect())
+    expect(log).toMatchObject({ status: "failed", errorCode: "USER_NOT_FOUND" })
+    expect(log.payloadStorageId).toBeUndefined()
+  })
+
+  it("deletes the payload when the failure is acknowledged", async () => {
+    const t = makeT()
+    await seedUsers(t)
+    const log = await postFailedEmail(t)
+    // Admin mutations look the caller up through Better Auth
+    const { authComponent } = await import("./auth")
+    vi.spyOn(authComponent, "getAuthUser").mockResolvedValueOnce({ _id: "auth_admin" } as never)
+
+    await t.mutation(api.admin.acknowledgeFailedDelivery, { logId: log._id })
+
+    const updated = await t.run(async (ctx) => ctx.db.get("emailDeliveryLogs", log._id))
+    expect(updated).toMatchObject({ isAcknowledged: true })
+    expect(updated?.payloadStorageId).toBeUndefined()
+    await expect(
+      t.run(async (ctx) => ctx.storage.get(log.payloadStorageId!))
+    ).resolves.toBeNull()
+  })
+
+  it("deletes payloads once they expire", async () => {
+    vi.useFakeTimers()
+    const t = makeT()
+    await seedUsers(t)
+    const expiring = await postFailedEmail(t, { subject: "Issue 1" })
+    vi.advanceTimersByTime(15 * 24 * 60 * 60 * 1000)
+    const recent = await postFailedEmail(t, { subject: "Issue 2" })
+
+    const result = await t.mutation(internal.admin.cleanupExpiredDeliveryPayloads, {})
+
+    expect(result).toEqual({ deletedCount: 1 })
+    const logs = await t.run(async (ctx) => ctx.db.query("emailDeliveryLogs").collect())
+    const byId = new Map(logs.map((log) => [log._id, log]))
+    expect(byId.get(expiring._id)).toMatchObject({ status: "failed" })
+    expect(byId.get(expiring._id)?.payloadStorageId).toBeUndefined()
+    expect(byId.get(recent._id)?.payloadStorageId).toBe(recent.payloadStorageId)
+  })
+
+  it("stores the newsletter on retry and records the attempt", async () => {
+    const t = makeT()
+    const { userId, adminId } = await seedUsers(t)
+    const log = await postFailedEmail(t)
+
+    const result = await t
+      .withIdentity({ subject: "auth_admin" })
+      .action(api.admin.retryFailedDelivery, { logId: log._id })
+
+    expect(result).toEqual({ status: "stored", attempt: 1 })
+    const updated = await t.run(async (ctx) => ctx.db.get("emailDeliveryLogs", log._id))
+    expect(updated).toMatchObject({ status: "stored", retryCount: 1, userId })
+    expect(updated?.errorCode).toBeUndefined()
+    expect(updated?.payloadStorageId).toBeUndefined()
+    expect(updated?.userNewsletterId).toBeDefined()
+
+    const attempts = await getAttempts(t, log._id)
+    expect(attempts).toEqual([
+      expect.objectContaining({ attempt: 1, status: "stored", triggeredBy: adminId }),
+    ])
+  })
+
+  it("records a failed attempt and keeps the payload for the next retry", async () => {
+    const t = makeT()
+    await seedUsers(t)
+    const log = await postFailedEmail(t)
+    const admin = t.withIdentity({ subject: "auth_admin" })
+
+    vi.mocked(r2.store).mockRejectedValueOnce(new Error("R2 still unavailable"))
+    const first = await admin.action(api.admin.retryFailedDelivery, { logId: log._id })
+    const second = await admin.action(api.admin.retryFailedDelivery, { logId: log._id })
+
+    expect(first).toEqual({ status: "failed", attempt: 1, errorCode: log.errorCode })
+    expect(second).toEqual({ status: "stored", attempt: 2 })
+    const attempts = await getAttempts(t, log._id)
+    expect(attempts.map((attempt) => [attempt.attempt, attempt.status, attempt.errorCode])).toEqual([
+      [1, "failed", log.errorCode],
+      [2, "stored", undefined],
+    ])
+  })
+
+  it("rejects retrying a delivery that was already stored", async () => {
+    const t = makeT()
+    await seedUsers(t)
+    const log = await postFailedEmail(t)
+    const admin = t.withIdentity({ subject: "auth_admin" })
+    await admin.action(api.admin.retryFailedDelivery, { logId: log._id })
+
+    await expect(admin.action(api.admin.retryFailedDelivery, { logId: log._id })).rejects.toThrow(
+      /No stored payload/
+    )
+  })
+
+  it("requires an admin", async () => {
+    const t = makeT()
+    await seedUsers(t)
+    const log = await postFailedEmail(t)
+
+    await expect(
+      t
+        .withIdentity({ subject: "auth_reader" })
+        .action(api.admin.retryFailedDelivery, { logId: log._id })
+    ).rejects.toThrow(/Admin access required/)
+  })
+
+  it("replays every failure with the given error code in bulk", async () => {
+    vi.useFakeTimers()
+    const t = makeT()
+    await seedUsers(t)
+    const first = await postFailedEmail(t, { subject: "Issue 1" })
+    const second = await postFailedEmail(t, { subject: "Issue 2", htmlContent: "<p>Issue 2</p>" })
+    const { status } = await postEmail(t, { to: "nobody@hushletter.test" })
+    expect(status).toBe(404)
+
+    const result = await t
+      .withIdentity({ subject: "auth_admin" })
+      .action(api.admin.retryFailedDeliveriesByErrorCode, { errorCode: first.errorCode! })
+    expect(result).toEqual({ scheduled: 2 })
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+
+    const logs = await t.run(async (ctx) => ctx.db.query("emailDeliveryLogs").collect())
+    const byId = new Map(logs.map((log) => [log._id, log]))
+    expect(byId.get(first._id)).toMatchObject({ status: "stored", retryCount: 1 })
+    expect(byId.get(second._id)).toMatchObject({ status: "stored", retryCount: 1 })
+    expect(logs.find((log) => log.errorCode === "USER_NOT_FOUND")).toMatchObject({
+      status: "failed",
+      retryCount: 0,
+    })
+    const attempts = await getAttempts(t, first._id)
+    expect(attempts[0]).toMatchObject({ status: "stored", isBulk: true })
+  })
+})
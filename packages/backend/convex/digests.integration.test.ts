@@ -0,0 +1,294 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api, internal } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+import { AI_DAILY_LIMIT } from "./entitlements"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://r2.example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+const STUB_URL = "http://localhost:4010/v1"
+const DAY = 24 * 60 * 60 * 1000
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(
+  t: ReturnType<typeof makeT>,
+  name: string,
+  options: { plan?: "free" | "pro"; digestFrequency?: "daily" | "weekly"; lastDigestAt?: number } = {}
+) {
+  const { plan = "pro", ...digest } = options
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: `${name}@example.com`,
+      createdAt: Date.now(),
+      authId: `auth_${name}`,
+      dedicatedEmail: `${name}-1234@hushletter.test`,
+      plan,
+      proExpiresAt: plan === "pro" ? Date.now() + 30 * DAY : undefined,
+      ...digest,
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to: "reader-1234@hushletter.test",
+      from: "weekly@news.example.com",
+      subject: "Weekly",
+      receivedAt: Date.now(),
+      htmlContent: "<p>Weekly</p>",
+      ...payload,
+    }),
+  })
+  const body = (await response.json()) as { userNewsletterId: Id<"userNewsletters"> }
+  return body.userNewsletterId
+}
+
+/**
+ * Point the AI client at a local OpenRouter stand-in that records requests
+ * and answers with `briefing`
+ */
+function stubCompletions(briefing: string) {
+  process.env.OPENROUTER_API_KEY = "test"
+  process.env.OPENROUTER_API_URL = STUB_URL
+  const requests: Array<{ url: string; body: { max_tokens: number; messages: Array<{ content: string }> } }> = []
+  const realFetch = globalThis.fetch
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input)
+      if (url !== `${STUB_URL}/chat/completions`) return realFetch(input, init)
+      requests.push({ url, body: JSON.parse(String(init?.body)) })
+      return new Response(JSON.stringify({ choices: [{ message: { content: briefing } }] }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      })
+    })
+  )
+  return requests
+}
+
+describe("AI digests", () => {
+  let previousEnv: Record<string, string | undefined>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousEnv = {
+      INTERNAL_API_KEY: process.env.INTERNAL_API_KEY,
+      OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY,
+      OPENROUTER_API_URL: process.env.OPENROUTER_API_URL,
+    }
+    process.env.INTERNAL_API_KEY = API_KEY
+    delete process.env.OPENROUTER_API_KEY
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    for (const [key, value] of Object.entries(previousEnv)) {
+      if (value === undefined) delete process.env[key]
+      else process.env[key] = value
+    }
+  })
+
+  it("briefs the new issues grouped by folder with links back to each newsletter", async () => {
+    const t = makeT()
+    const userId = await seedUser(t, "reader", { digestFrequency: "daily" })
+    const ratesId = await postEmail(t, {
+      from: "money@news.example.com",
+      senderName: "Money Weekly",
+      subject: "Rates rise",
+      htmlContent: "<p>The central bank raised rates again.</p>",
+    })
+    const chipsId = await postEmail(t, {
+      from: "chips@tech.example.com",
+      senderName: "Chip Letter",
+      subject: "New chips",
+      htmlContent: "<p>A faster laptop chip shipped.</p>",
+    })
+    const requests = stubCompletions("## Chip Letter\n- Faster chips [1]")
+
+    const result = await t.action(internal.digests.generateDigest, { userId })
+
+    expect(result.status).toBe("created")
+    expect(requests).toHaveLength(1)
+    expect(requests[0].body.max_tokens).toBe(1500)
+    const prompt = requests[0].body.messages[1].content
+    expect(prompt).toContain('## Chip Letter\n\n[1] "New chips" from Chip Letter')
+    expect(prompt).toContain("A faster laptop chip shipped.")
+    expect(prompt).toContain('[2] "Rates rise"')
+
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const [digest] = await reader.query(api.digests.listDigests, {})
+    expect(digest).toMatchObject({
+      frequency: "daily",
+      briefing: "## Chip Letter\n- Faster chips [1]",
+      newsletterCount: 2,
+      isRead: false,
+    })
+    expect(
+      digest.sections.map((section) => [
+        section.folderName,
+        section.newsletters.map((newsletter) => [newsletter.ref, newsletter.userNewsletterId]),
+      ])
+    ).toEqual([
+      ["Chip Letter", [[1, chipsId]]],
+      ["Money Weekly", [[2, ratesId]]],
+    ])
+
+    const state = await t.run(async (ctx) => ({
+      user: await ctx.db.get("users", userId),
+      usage: await ctx.db.query("aiUsageDaily").collect(),
+      locks: await ctx.db.query("aiInFlight").collect(),
+    }))
+    expect(state.user?.lastDigestAt).toBe(digest.periodEnd)
+    expect(state.usage.map((row) => row.count)).toEqual([1])
+    expect(state.locks).toEqual([])
+
+    // The next digest only covers what arrived after this one
+    const again = await t.action(internal.digests.generateDigest, { userId })
+    expect(again.status).toBe("empty")
+    expect(requests).toHaveLength(1)
+  })
+
+  it("keeps the period open when the daily AI limit or the in-flight lock stops it", async () => {
+    const t = makeT()
+    const userId = await seedUser(t, "reader", { digestFrequency: "weekly" })
+    await postEmail(t, { subject: "Rates rise" })
+    const requests = stubCompletions("## Weekly\n- Rates [1]")
+
+    const lockId = await t.run(async (ctx) =>
+      ctx.db.insert("aiInFlight", { userId, startedAt: Date.now() })
+    )
+    expect((await t.action(internal.digests.generateDigest, { userId })).status).toBe("busy")
+    await t.run(async (ctx) => ctx.db.delete("aiInFlight", lockId))
+
+    await t.run(async (ctx) =>
+      ctx.db.insert("aiUsageDaily", {
+        userId,
+        day: new Date().toISOString().slice(0, 10),
+        count: AI_DAILY_LIMIT,
+        updatedAt: Date.now(),
+      })
+    )
+    expect((await t.action(internal.digests.generateDigest, { userId })).status).toBe("limited")
+
+    expect(requests).toEqual([])
+    const state = await t.run(async (ctx) => ({
+      user: await ctx.db.get("users", userId),
+      digests: await ctx.db.query("digests").collect(),
+      locks: await ctx.db.query("aiInFlight").collect(),
+    }))
+    expect(state.user?.lastDigestAt).toBeUndefined()
+    expect(state.digests).toEqual([])
+    expect(state.locks).toEqual([])
+  })
+
+  it("covers at most one period, and starts over when switched back on", async () => {
+    const t = makeT()
+    const userId = await seedUser(t, "reader", {
+      digestFrequency: "daily",
+      lastDigestAt: Date.now() - 90 * DAY,
+    })
+    await postEmail(t, { subject: "Months ago", receivedAt: Date.now() - 60 * DAY })
+    const recentId = await postEmail(t, { subject: "This morning" })
+    stubCompletions("## Weekly\n- This morning [1]")
+
+    await t.action(internal.digests.generateDigest, { userId })
+
+    const [digest] = await t.run(async (ctx) => ctx.db.query("digests").collect())
+    expect(digest.periodStart).toBeGreaterThanOrEqual(digest.periodEnd - DAY - 60 * 60 * 1000)
+    expect(
+      digest.sections.flatMap((section) =>
+        section.newsletters.map((newsletter) => newsletter.userNewsletterId)
+      )
+    ).toEqual([recentId])
+
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    await reader.mutation(api.digests.setDigestFrequency, {})
+    await reader.mutation(api.digests.setDigestFrequency, { frequency: "weekly" })
+    const user = await t.run(async (ctx) => ctx.db.get("users", userId))
+    expect(user).toMatchObject({ digestFrequency: "weekly" })
+    expect(user?.lastDigestAt).toBeUndefined()
+  })
+
+  it("schedules only Pro users whose digest is due", async () => {
+    vi.useFakeTimers()
+    const t = makeT()
+    const lastDigestAt = Date.now() - DAY
+    const dailyId = await seedUser(t, "daily", { digestFrequency: "daily", lastDigestAt })
+    const weeklyId = await seedUser(t, "weekly", { digestFrequency: "weekly", lastDigestAt })
+    const firstId = await seedUser(t, "first", { digestFrequency: "weekly" })
+    const freeId = await seedUser(t, "free", { plan: "free", digestFrequency: "daily" })
+    await seedUser(t, "off")
+
+    const result = await t.mutation(internal.digests.scheduleDigests, {})
+    expect(result.scheduledCount).toBe(2)
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+
+    // Nothing arrived, so the scheduled runs close the period without a digest
+    const [daily, weekly, first, free] = await t.run(async (ctx) =>
+      Promise.all([dailyId, weeklyId, firstId, freeId].map((id) => ctx.db.get("users", id)))
+    )
+    expect(daily?.lastDigestAt).toBeGreaterThan(lastDigestAt)
+    expect(weekly?.lastDigestAt).toBe(lastDigestAt)
+    expect(first?.lastDigestAt).toBeDefined()
+    expect(free?.lastDigestAt).toBeUndefined()
+    await expect(t.run(async (ctx) => ctx.db.query("digests").collect())).resolves.toEqual([])
+  })
+
+  it("requires Pro to turn digests on and keeps digests private", async () => {
+    const t = makeT()
+    await seedUser(t, "free", { plan: "free" })
+    const userId = await seedUser(t, "reader")
+    const free = t.withIdentity({ subject: "auth_free" })
+    const reader = t.withIdentity({ subject: "auth_reader" })
+
+    await expect(
+      free.mutation(api.digests.setDigestFrequency, { frequency: "daily" })
+    ).rejects.toThrow(/Hushletter Pro is required/)
+    await reader.mutation(api.digests.setDigestFrequency, { frequency: "weekly" })
+    const user = await t.run(async (ctx) => ctx.db.get("users", userId))
+    expect(user?.digestFrequency).toBe("weekly")
+
+    const digestId = await t.run(async (ctx) =>
+      ctx.db.insert("digests", {
+        userId,
+        frequency: "weekly",
+        periodStart: Date.now() - 7 * DAY,
+        periodEnd: Date.now(),
+        briefing: "Quiet week",
+        sections: [],
+        newsletterCount: 0,
+        isRead: false,
+        createdAt: Date.now(),
+      })
+    )
+    await expect(free.query(api.digests.getDigest, { digestId })).resolves.toBeNull()
+    await expect(free.mutation(api.digests.deleteDigest, { digestId })).rejects.toThrow(
+      /Digest not found/
+    )
+
+    await reader.mutation(api.digests.markDigestRead, { digestId })
+    expect((await reader.query(api.digests.getDigest, { digestId }))?.isRead).toBe(true)
+    await reader.mutation(api.digests.deleteDigest, { digestId })
+    await expect(reader.query(api.digests.listDigests, {})).resolves.toEqual([])
+  })
+})
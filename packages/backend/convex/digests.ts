@@ -0,0 +1,420 @@
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server"
+import { v, ConvexError } from "convex/values"
+import { internal } from "./_generated/api"
+import type { Doc, Id } from "./_generated/dataModel"
+import { AI_DAILY_LIMIT, isUserPro, requireProFromUser } from "./entitlements"
+import { generateCompletion } from "./lib/openrouter"
+import {
+  buildDigestPrompt,
+  digestFrequencyValidator,
+  getDigestPeriodStart,
+  groupDigestSources,
+  isDigestDue,
+  MAX_DIGEST_NEWSLETTERS,
+  type DigestFrequency,
+} from "./lib/digest"
+
+/**
+ * AI digests: a daily or weekly briefing of everything that arrived, grouped
+ * by folder, stored as a "Digest" the user reads in the app.
+ * An hourly cron schedules generateDigest for users whose digest is due.
+ * Generation counts toward AI_DAILY_LIMIT and takes the aiInFlight lock like
+ * summaries do; when either stops it, the period isn't closed, so the next
+ * run picks the same newsletters up again.
+ */
+
+/** Digests returned by listDigests */
+const MAX_DIGESTS_LISTED = 60
+
+/** Name used for newsletters outside any folder */
+const UNFILED_FOLDER_NAME = "Inbox"
+
+const DIGEST_SYSTEM_PROMPT = `You are a helpful assistant that writes a briefing of the newsletters a reader received.
+
+The newsletters are grouped by folder under "## Folder" headings, and each one is numbered like [3].
+
+Write the briefing in the same language as most of the newsletters. For each folder:
+- Start with the same "## Folder" heading line
+- Write 2-5 bullet points ("- ") with the key stories, news and takeaways
+- End every bullet with the numbers of the newsletters it comes from, like [1] or [2][5]
+
+Merge stories that several newsletters cover. Skip ads and sponsor messages. Keep the whole briefing under 500 words.`
+
+async function getAuthedUser(ctx: QueryCtx | MutationCtx): Promise<Doc<"users">> {
+  const identity = await ctx.auth.getUserIdentity()
+  if (!identity) {
+    throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+  }
+
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+    .first()
+  if (!user) {
+    throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+  }
+  return user
+}
+
+/**
+ * Current user for queries; null when signed out
+ */
+async function getQueryUser(ctx: QueryCtx): Promise<Doc<"users"> | null> {
+  const identity = await ctx.auth.getUserIdentity()
+  if (!identity) return null
+
+  return await ctx.db
+    .query("users")
+    .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+    .first()
+}
+
+/**
+ * Load a digest owned by the current user (throws otherwise)
+ */
+async function getOwnedDigest(
+  ctx: MutationCtx,
+  digestId: Id<"digests">
+): Promise<Doc<"digests">> {
+  const user = await getAuthedUser(ctx)
+  const digest = await ctx.db.get("digests", digestId)
+  if (!digest || digest.userId !== user._id) {
+    throw new ConvexError({ code: "NOT_FOUND", message: "Digest not found" })
+  }
+  return digest
+}
+
+/**
+ * Turn the digest on (daily or weekly, Pro only) or off (frequency omitted)
+ * Turning it back on starts over like the first time: the first digest covers
+ * one period, not everything since the digest was switched off.
+ */
+export const setDigestFrequency = mutation({
+  args: { frequency: v.optional(digestFrequencyValidator) },
+  handler: async (ctx, args) => {
+    const user = await getAuthedUser(ctx)
+    if (args.frequency) {
+      requireProFromUser({ plan: user.plan ?? "free", proExpiresAt: user.proExpiresAt })
+    }
+
+    const isSwitchedOn = args.frequency !== undefined && user.digestFrequency === undefined
+    await ctx.db.patch("users", user._id, {
+      digestFrequency: args.frequency,
+      ...(isSwitchedOn ? { lastDigestAt: undefined } : {}),
+    })
+  },
+})
+
+/**
+ * The user's digests, newest first
+ */
+export const listDigests = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getQueryUser(ctx)
+    if (!user) return []
+
+    return await ctx.db
+      .query("digests")
+      .withIndex("by_userId_createdAt", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .take(MAX_DIGESTS_LISTED)
+  },
+})
+
+/**
+ * A single digest (null when missing or not the user's)
+ */
+export const getDigest = query({
+  args: { digestId: v.id("digests") },
+  handler: async (ctx, args) => {
+    const user = await getQueryUser(ctx)
+    if (!user) return null
+
+    const digest = await ctx.db.get("digests", args.digestId)
+    if (!digest || digest.userId !== user._id) return null
+    return digest
+  },
+})
+
+export const markDigestRead = mutation({
+  args: { digestId: v.id("digests") },
+  handler: async (ctx, args) => {
+    const digest = await getOwnedDigest(ctx, args.digestId)
+    if (!digest.isRead) {
+      await ctx.db.patch("digests", digest._id, { isRead: true })
+    }
+  },
+})
+
+export const deleteDigest = mutation({
+  args: { digestId: v.id("digests") },
+  handler: async (ctx, args) => {
+    const digest = await getOwnedDigest(ctx, args.digestId)
+    await ctx.db.delete("digests", digest._id)
+  },
+})
+
+/**
+ * Cron entry point: schedule generation for every user whose digest is due
+ */
+export const scheduleDigests = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<{ scheduledCount: number }> => {
+    const now = Date.now()
+    let scheduledCount = 0
+    for (const frequency of ["daily", "weekly"] as const) {
+      const users = await ctx.db
+        .query("users")
+        .withIndex("by_digestFrequency", (q) => q.eq("digestFrequency", frequency))
+        .collect()
+      for (const user of users) {
+        if (!isDigestDue(frequency, user.lastDigestAt, now)) continue
+        if (!isUserPro({ plan: user.plan ?? "free", proExpiresAt: user.proExpiresAt })) continue
+
+        await ctx.scheduler.runAfter(0, internal.digests.generateDigest, { userId: user._id })
+        scheduledCount++
+      }
+    }
+    return { scheduledCount }
+  },
+})
+
+type DigestInputNewsletter = {
+  userNewsletterId: Id<"userNewsletters">
+  subject: string
+  senderEmail: string
+  senderName?: string
+  folderId?: Id<"folders">
+  folderName: string
+  text: string
+}
+
+type DigestInput = {
+  frequency: DigestFrequency
+  periodStart: number
+  newsletters: DigestInputNewsletter[]
+}
+
+/**
+ * What a digest ending at `until` covers: newsletters received since the
+ * previous digest (at most one period back), with their summary or body text.
+ * Null when the user has no active digest.
+ */
+export const getDigestInput = internalQuery({
+  args: { userId: v.id("users"), until: v.number() },
+  handler: async (ctx, args): Promise<DigestInput | null> => {
+    const user = await ctx.db.get("users", args.userId)
+    if (!user?.digestFrequency) return null
+    if (!isUserPro({ plan: user.plan ?? "free", proExpiresAt: user.proExpiresAt })) return null
+
+    const frequency = user.digestFrequency
+    const periodStart = getDigestPeriodStart(frequency, user.lastDigestAt, args.until)
+    const received = await ctx.db
+      .query("userNewsletters")
+      .withIndex("by_userId_receivedAt", (q) =>
+        q.eq("userId", user._id).gt("receivedAt", periodStart).lte("receivedAt", args.until)
+      )
+      .collect()
+    const arrived = received
+      .filter((newsletter) => !newsletter.isBinned && newsletter.quarantinedAt === undefined)
+      .slice(-MAX_DIGEST_NEWSLETTERS)
+
+    const folderNames = new Map<Id<"folders">, string>()
+    const newsletters: DigestInputNewsletter[] = []
+    for (const newsletter of arrived) {
+      let folderName = UNFILED_FOLDER_NAME
+      if (newsletter.folderId) {
+        const cached = folderNames.get(newsletter.folderId)
+        if (cached === undefined) {
+          const folder = await ctx.db.get("folders", newsletter.folderId)
+          folderName = folder?.name ?? UNFILED_FOLDER_NAME
+          folderNames.set(newsletter.folderId, folderName)
+        } else {
+          folderName = cached
+        }
+      }
+
+      newsletters.push({
+        userNewsletterId: newsletter._id,
+        subject: newsletter.subject,
+        senderEmail: newsletter.senderEmail,
+        senderName: newsletter.senderName,
+        folderId: newsletter.folderId,
+        folderName,
+        text: await getDigestText(ctx, newsletter),
+      })
+    }
+
+    return { frequency, periodStart, newsletters }
+  },
+})
+
+/**
+ * Text the model gets for a newsletter: its AI summary when there is one,
+ * otherwise the plain-text body kept for search
+ */
+async function getDigestText(
+  ctx: Pick<QueryCtx, "db">,
+  newsletter: Doc<"userNewsletters">
+): Promise<string> {
+  if (newsletter.summary) return newsletter.summary
+  if (!newsletter.isPrivate && newsletter.contentId) {
+    const content = await ctx.db.get("newsletterContent", newsletter.contentId)
+    if (content?.summary) return content.summary
+  }
+
+  const searchMeta = await ctx.db
+    .query("newsletterSearchMeta")
+    .withIndex("by_userId_userNewsletterId", (q) =>
+      q.eq("userId", newsletter.userId).eq("userNewsletterId", newsletter._id)
+    )
+    .first()
+  // searchText is a header line followed by the body (see lib/searchText.ts)
+  const newlineIndex = searchMeta?.searchText?.indexOf("\n") ?? -1
+  return newlineIndex === -1 ? "" : searchMeta!.searchText!.slice(newlineIndex + 1)
+}
+
+/**
+ * Store a generated digest and close its period
+ */
+export const storeDigest = internalMutation({
+  args: {
+    userId: v.id("users"),
+    frequency: digestFrequencyValidator,
+    periodStart: v.number(),
+    periodEnd: v.number(),
+    briefing: v.string(),
+    sections: v.array(
+      v.object({
+        folderId: v.optional(v.id("folders")),
+        folderName: v.string(),
+        newsletters: v.array(
+          v.object({
+            ref: v.number(),
+            userNewsletterId: v.id("userNewsletters"),
+            subject: v.string(),
+            senderEmail: v.string(),
+            senderName: v.optional(v.string()),
+          })
+        ),
+      })
+    ),
+  },
+  handler: async (ctx, args): Promise<Id<"digests">> => {
+    const newsletterCount = args.sections.reduce(
+      (sum, section) => sum + section.newsletters.length,
+      0
+    )
+    const digestId = await ctx.db.insert("digests", {
+      ...args,
+      newsletterCount,
+      isRead: false,
+      createdAt: Date.now(),
+    })
+    await ctx.db.patch("users", args.userId, { lastDigestAt: args.periodEnd })
+    return digestId
+  },
+})
+
+/**
+ * Close a period without a digest (nothing arrived)
+ */
+export const closeEmptyDigestPeriod = internalMutation({
+  args: { userId: v.id("users"), periodEnd: v.number() },
+  handler: async (ctx, args) => {
+    await ctx.db.patch("users", args.userId, { lastDigestAt: args.periodEnd })
+  },
+})
+
+type GenerateDigestResult = {
+  status: "created" | "empty" | "skipped" | "busy" | "limited" | "failed"
+  digestId?: Id<"digests">
+}
+
+/**
+ * Generate a user's digest for the period ending now
+ */
+export const generateDigest = internalAction({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args): Promise<GenerateDigestResult> => {
+    const periodEnd = Date.now()
+    const input = await ctx.runQuery(internal.digests.getDigestInput, {
+      userId: args.userId,
+      until: periodEnd,
+    })
+    if (!input) return { status: "skipped" }
+
+    if (input.newsletters.length === 0) {
+      await ctx.runMutation(internal.digests.closeEmptyDigestPeriod, {
+        userId: args.userId,
+        periodEnd,
+      })
+      return { status: "empty" }
+    }
+
+    const apiKey = process.env.OPENROUTER_API_KEY
+    if (!apiKey) {
+      console.error("[generateDigest] AI service is not configured")
+      return { status: "failed" }
+    }
+
+    const acquired = await ctx.runMutation(internal.ai.tryAcquireAiInFlight, {
+      userId: args.userId,
+    })
+    if (!acquired) return { status: "busy" }
+
+    try {
+      const day = new Date().toISOString().slice(0, 10)
+      const used = await ctx.runQuery(internal.ai.getAiUsageDaily, {
+        userId: args.userId,
+        day,
+      })
+      if (used >= AI_DAILY_LIMIT) return { status: "limited" }
+
+      const sourceSections = groupDigestSources(input.newsletters)
+      const briefing = await generateCompletion(
+        { apiKey, model: "openai/gpt-oss-120b", timeout: 60000, maxTokens: 1500 },
+        DIGEST_SYSTEM_PROMPT,
+        buildDigestPrompt(sourceSections, input.frequency)
+      )
+
+      const digestId = await ctx.runMutation(internal.digests.storeDigest, {
+        userId: args.userId,
+        frequency: input.frequency,
+        periodStart: input.periodStart,
+        periodEnd,
+        briefing,
+        sections: sourceSections.map((section) => ({
+          folderId: section.newsletters[0].folderId,
+          folderName: section.folderName,
+          newsletters: section.newsletters.map((newsletter) => ({
+            ref: newsletter.ref,
+            userNewsletterId: newsletter.userNewsletterId,
+            subject: newsletter.subject,
+            senderEmail: newsletter.senderEmail,
+            senderName: newsletter.senderName,
+          })),
+        })),
+      })
+      await ctx.runMutation(internal.ai.incrementAiUsageDaily, {
+        userId: args.userId,
+        day,
+      })
+      return { status: "created", digestId }
+    } catch (error) {
+      console.error("[generateDigest] AI error:", error)
+      return { status: "failed" }
+    } finally {
+      await ctx.runMutation(internal.ai.releaseAiInFlight, { userId: args.userId })
+    }
+  },
+})
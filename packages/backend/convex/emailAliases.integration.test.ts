@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>) {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: "reader@example.com",
+      createdAt: Date.now(),
+      authId: "auth_reader",
+      dedicatedEmail: "reader-1234@hushletter.test",
+      plan: "free",
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      from: "news@shop.example.com",
+      subject: "Weekly deals",
+      receivedAt: Date.now(),
+      htmlContent: "<p>Deals</p>",
+      ...payload,
+    }),
+  })
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> }
+}
+
+function getAlias(t: ReturnType<typeof makeT>, aliasId: Id<"emailAliases">) {
+  return t.run(async (ctx) => ctx.db.get("emailAliases", aliasId))
+}
+
+describe("disposable email aliases", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    process.env.INTERNAL_API_KEY = previousApiKey
+  })
+
+  it("delivers alias mail to its owner and counts it", async () => {
+    const t = makeT()
+    const userId = await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const { aliasId, address } = await reader.mutation(api.emailAliases.createEmailAlias, {
+      label: "Shop",
+      expectedSender: "shop.example.com",
+    })
+    expect(address).toMatch(/^shop\.[a-z0-9]{8}@/)
+
+    const { status, body } = await postEmail(t, { to: address.toUpperCase() })
+
+    expect(status).toBe(200)
+    expect(body.userId).toBe(userId)
+    const newsletter = await t.run(async (ctx) =>
+      ctx.db.get("userNewsletters", body.userNewsletterId as Id<"userNewsletters">)
+    )
+    expect(newsletter?.emailAliasId).toBe(aliasId)
+    expect(await getAlias(t, aliasId)).toMatchObject({ deliveryCount: 1, unexpectedSenderCount: 0 })
+  })
+
+  it("counts mail from senders other than the expected one", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const { aliasId, address } = await t
+      .withIdentity({ subject: "auth_reader" })
+      .mutation(api.emailAliases.createEmailAlias, { expectedSender: "news@shop.example.com" })
+
+    await postEmail(t, { to: address })
+    await postEmail(t, {
+      to: address,
+      from: "promo@spammer.example.net",
+      subject: "You won",
+      htmlContent: "<p>Prize</p>",
+    })
+
+    const aliases = await t
+      .withIdentity({ subject: "auth_reader" })
+      .query(api.emailAliases.listEmailAliases, {})
+    expect(aliases).toEqual([
+      expect.objectContaining({ _id: aliasId, deliveryCount: 2, unexpectedSenderCount: 1 }),
+    ])
+  })
+
+  it("rejects and logs mail to a disabled alias", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const { aliasId, address } = await reader.mutation(api.emailAliases.createEmailAlias, {})
+    await reader.mutation(api.emailAliases.setEmailAliasDisabled, { aliasId, disabled: true })
+
+    const { status, body } = await postEmail(t, { to: address })
+
+    expect(status).toBe(403)
+    expect(body.code).toBe("ALIAS_DISABLED")
+    const log = await t.run(async (ctx) => ctx.db.query("emailDeliveryLogs").first())
+    expect(log).toMatchObject({ status: "failed", errorCode: "ALIAS_DISABLED" })
+    // Nothing to replay: the rejection is deliberate
+    expect(log?.payloadStorageId).toBeUndefined()
+    expect(await getAlias(t, aliasId)).toMatchObject({ rejectedCount: 1, deliveryCount: 0 })
+    const newsletters = await t.run(async (ctx) => ctx.db.query("userNewsletters").collect())
+    expect(newsletters).toHaveLength(0)
+  })
+
+  it("routes alias mail into the alias's folder", async () => {
+    const t = makeT()
+    const userId = await seedUser(t)
+    const folderId = await t.run(async (ctx) =>
+      ctx.db.insert("folders", {
+        userId,
+        name: "Shopping",
+        isHidden: false,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      })
+    )
+    const { address } = await t
+      .withIdentity({ subject: "auth_reader" })
+      .mutation(api.emailAliases.createEmailAlias, { folderId })
+
+    const { body } = await postEmail(t, { to: address })
+
+    const newsletter = await t.run(async (ctx) =>
+      ctx.db.get("userNewsletters", body.userNewsletterId as Id<"userNewsletters">)
+    )
+    expect(newsletter?.folderId).toBe(folderId)
+  })
+
+  it("rejects invalid expected senders", async () => {
+    const t = makeT()
+    await seedUser(t)
+
+    await expect(
+      t
+        .withIdentity({ subject: "auth_reader" })
+        .mutation(api.emailAliases.createEmailAlias, { expectedSender: "not a sender" })
+    ).rejects.toThrow(/email address or a domain/)
+  })
+})
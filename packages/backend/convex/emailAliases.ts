@@ -0,0 +1,263 @@
+import { internalMutation, internalQuery, mutation, query, type MutationCtx } from "./_generated/server"
+import { v, ConvexError } from "convex/values"
+import type { Id } from "./_generated/dataModel"
+import { generateAliasEmail, parseSubAddress } from "./_internal/emailGeneration"
+
+/**
+ * Disposable alias addresses: extra receiving addresses besides the dedicated
+ * one, typically one per subscription. Each alias can be tied to the sender it
+ * was given to and burned on its own once it starts getting spam.
+ */
+
+/** Maximum number of aliases (active or disabled) per user */
+export const MAX_ALIASES_PER_USER = 100
+
+/** Attempts at generating an unused alias address before giving up */
+const MAX_GENERATION_ATTEMPTS = 5
+
+/**
+ * Whether a sender matches an alias's expected sender
+ * The expected sender is either a full email address or a domain
+ * (subdomains match too, e.g. "nytimes.com" matches "news@email.nytimes.com").
+ */
+export function matchesExpectedSender(senderEmail: string, expectedSender: string): boolean {
+  const sender = senderEmail.trim().toLowerCase()
+  const expected = expectedSender.trim().toLowerCase()
+  if (expected.includes("@")) return sender === expected
+
+  const domain = sender.slice(sender.lastIndexOf("@") + 1)
+  return domain === expected || domain.endsWith(`.${expected}`)
+}
+
+/**
+ * Count a stored newsletter against its alias.
+ * Called from createUserNewsletter for mail sent to an alias.
+ */
+export async function recordAliasNewsletter(
+  ctx: Pick<MutationCtx, "db">,
+  args: {
+    emailAliasId: Id<"emailAliases">
+    senderEmail: string
+    receivedAt: number
+  }
+): Promise<void> {
+  const alias = await ctx.db.get("emailAliases", args.emailAliasId)
+  if (!alias) return
+
+  const isUnexpected =
+    alias.expectedSender !== undefined && !matchesExpectedSender(args.senderEmail, alias.expectedSender)
+  await ctx.db.patch("emailAliases", alias._id, {
+    deliveryCount: alias.deliveryCount + 1,
+    unexpectedSenderCount: alias.unexpectedSenderCount + (isUnexpected ? 1 : 0),
+    lastDeliveryAt: Math.max(alias.lastDeliveryAt ?? 0, args.receivedAt),
+  })
+}
+
+/**
+ * Find the alias an inbound address was sent to (no auth checks)
+ * Plus-addresses of an alias (alias+tag@domain) resolve to the alias.
+ */
+export const findAliasByAddress = internalQuery({
+  args: { email: v.string() },
+  handler: async (ctx, args) => {
+    const findByAddress = (address: string) =>
+      ctx.db
+        .query("emailAliases")
+        .withIndex("by_address", (q) => q.eq("address", address.toLowerCase()))
+        .first()
+
+    const exact = await findByAddress(args.email)
+    if (exact) return exact
+
+    const { address } = parseSubAddress(args.email)
+    return address === args.email ? null : await findByAddress(address)
+  },
+})
+
+/**
+ * Count a delivery rejected because its alias is disabled
+ */
+export const recordAliasRejection = internalMutation({
+  args: { emailAliasId: v.id("emailAliases") },
+  handler: async (ctx, args) => {
+    const alias = await ctx.db.get("emailAliases", args.emailAliasId)
+    if (!alias) return
+
+    await ctx.db.patch("emailAliases", alias._id, {
+      rejectedCount: alias.rejectedCount + 1,
+    })
+  },
+})
+
+/**
+ * Get the folder an alias's mail should be routed to (no auth checks)
+ * @returns null when the alias has no folder, or the folder no longer exists
+ */
+export const getAliasFolder = internalQuery({
+  args: { emailAliasId: v.id("emailAliases") },
+  handler: async (ctx, args) => {
+    const alias = await ctx.db.get("emailAliases", args.emailAliasId)
+    if (!alias?.folderId) return null
+
+    const folder = await ctx.db.get("folders", alias.folderId)
+    if (!folder || folder.userId !== alias.userId) return null
+    return folder._id
+  },
+})
+
+/**
+ * List the current user's aliases, newest first
+ */
+export const listEmailAliases = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) return []
+
+    const aliases = await ctx.db
+      .query("emailAliases")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .collect()
+
+    return await Promise.all(
+      aliases.map(async (alias) => {
+        const folder = alias.folderId ? await ctx.db.get("folders", alias.folderId) : null
+        return {
+          ...alias,
+          folderId: folder ? folder._id : undefined,
+          folderName: folder ? folder.name : undefined,
+        }
+      })
+    )
+  },
+})
+
+/**
+ * Generate a new alias address for the current user
+ */
+export const createEmailAlias = mutation({
+  args: {
+    label: v.optional(v.string()),
+    expectedSender: v.optional(v.string()),
+    folderId: v.optional(v.id("folders")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    const label = args.label?.trim() || undefined
+    if (label && label.length > 50) {
+      throw new ConvexError({ code: "VALIDATION_ERROR", message: "Label must be 50 characters or less" })
+    }
+
+    const expectedSender = args.expectedSender?.trim().toLowerCase() || undefined
+    if (expectedSender && !/^([^\s@]+@)?[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(expectedSender)) {
+      throw new ConvexError({
+        code: "VALIDATION_ERROR",
+        message: "Expected sender must be an email address or a domain",
+      })
+    }
+
+    if (args.folderId) {
+      const folder = await ctx.db.get("folders", args.folderId)
+      if (!folder) {
+        throw new ConvexError({ code: "NOT_FOUND", message: "Folder not found" })
+      }
+      if (folder.userId !== user._id) {
+        throw new ConvexError({ code: "FORBIDDEN", message: "Access denied" })
+      }
+    }
+
+    const existing = await ctx.db
+      .query("emailAliases")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .take(MAX_ALIASES_PER_USER)
+    if (existing.length >= MAX_ALIASES_PER_USER) {
+      throw new ConvexError({
+        code: "LIMIT_REACHED",
+        message: `You can create up to ${MAX_ALIASES_PER_USER} aliases`,
+      })
+    }
+
+    for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+      const address = generateAliasEmail(label ?? expectedSender?.split("@").pop()?.split(".")[0])
+      const taken = await ctx.db
+        .query("emailAliases")
+        .withIndex("by_address", (q) => q.eq("address", address))
+        .first()
+      if (taken) continue
+
+      const aliasId = await ctx.db.insert("emailAliases", {
+        userId: user._id,
+        address,
+        label,
+        expectedSender,
+        folderId: args.folderId,
+        isDisabled: false,
+        deliveryCount: 0,
+        unexpectedSenderCount: 0,
+        rejectedCount: 0,
+        createdAt: Date.now(),
+      })
+      return { aliasId, address }
+    }
+
+    throw new ConvexError({ code: "CONFLICT", message: "Could not generate a unique alias, try again" })
+  },
+})
+
+/**
+ * Disable ("burn") or re-enable an alias
+ * Mail to a disabled alias is rejected and logged as ALIAS_DISABLED.
+ */
+export const setEmailAliasDisabled = mutation({
+  args: {
+    aliasId: v.id("emailAliases"),
+    disabled: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    const alias = await ctx.db.get("emailAliases", args.aliasId)
+    if (!alias) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Alias not found" })
+    }
+    if (alias.userId !== user._id) {
+      throw new ConvexError({ code: "FORBIDDEN", message: "Access denied" })
+    }
+
+    await ctx.db.patch("emailAliases", alias._id, {
+      isDisabled: args.disabled,
+      disabledAt: args.disabled ? Date.now() : undefined,
+    })
+    return { success: true }
+  },
+})
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>, dedicatedEmail: string) {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: `owner-${dedicatedEmail}`,
+      createdAt: Date.now(),
+      authId: `auth_${dedicatedEmail}`,
+      dedicatedEmail,
+      plan: "free",
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      from: "news@example.com",
+      subject: "Weekly digest",
+      receivedAt: Date.now(),
+      ...payload,
+    }),
+  })
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> }
+}
+
+describe("receiveEmail integration", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    process.env.INTERNAL_API_KEY = previousApiKey
+  })
+
+  it("persists Message-ID and mailing-list headers on the newsletter", async () => {
+    const t = makeT()
+    const userId = await seedUser(t, "reader@hushletter.test")
+
+    const { status, body } = await postEmail(t, {
+      to: "reader@hushletter.test",
+      htmlContent: "<p>Issue 1</p>",
+      messageId: "issue-1@mail.example.com",
+      listId: "Weekly <weekly.example.com>",
+      listUnsubscribe: "<https://example.com/unsub>",
+      precedence: "bulk",
+    })
+
+    expect(status).toBe(200)
+    expect(body.success).toBe(true)
+
+    const newsletters = await t.run(async (ctx) =>
+      ctx.db
+        .query("userNewsletters")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .collect()
+    )
+    expect(newsletters).toHaveLength(1)
+    expect(newsletters[0]).toMatchObject({
+      messageId: "issue-1@mail.example.com",
+      listId: "Weekly <weekly.example.com>",
+      listUnsubscribe: "<https://example.com/unsub>",
+      precedence: "bulk",
+    })
+
+    const log = await t.run(async (ctx) =>
+      ctx.db
+        .query("emailDeliveryLogs")
+        .withIndex("by_messageId", (q) => q.eq("messageId", "issue-1@mail.example.com"))
+        .first()
+    )
+    expect(log?.status).toBe("stored")
+  })
+
+  it("skips a redelivery with the same Message-ID even when the body changed", async () => {
+    const t = makeT()
+    const userId = await seedUser(t, "dupes@hushletter.test")
+
+    await postEmail(t, {
+      to: "dupes@hushletter.test",
+      htmlContent: "<p>Original</p>",
+      messageId: "same@mail.example.com",
+    })
+    const second = await postEmail(t, {
+      to: "dupes@hushletter.test",
+      htmlContent: "<p>Tracking pixel changed</p>",
+      messageId: "same@mail.example.com",
+    })
+
+    expect(second.body).toMatchObject({ success: true, skipped: true, reason: "duplicate" })
+
+    const { newsletters, logs } = await t.run(async (ctx) => ({
+      newsletters: await ctx.db
+        .query("userNewsletters")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .collect(),
+      logs: await ctx.db
+        .query("emailDeliveryLogs")
+        .withIndex("by_messageId", (q) => q.eq("messageId", "same@mail.example.com"))
+        .collect(),
+    }))
+    expect(newsletters).toHaveLength(1)
+    expect(logs).toHaveLength(1)
+    expect(logs[0]?.status).toBe("stored")
+  })
+
+  it("keeps separate delivery logs when one email reaches two users", async () => {
+    const t = makeT()
+    await seedUser(t, "alice@hushletter.test")
+    await seedUser(t, "bob@hushletter.test")
+
+    for (const to of ["alice@hushletter.test", "bob@hushletter.test"]) {
+      const { body } = await postEmail(t, {
+        to,
+        htmlContent: "<p>Shared issue</p>",
+        messageId: "shared@mail.example.com",
+      })
+      expect(body.skipped).toBeUndefined()
+    }
+
+    const logs = await t.run(async (ctx) =>
+      ctx.db
+        .query("emailDeliveryLogs")
+        .withIndex("by_messageId", (q) => q.eq("messageId", "shared@mail.example.com"))
+        .collect()
+    )
+    expect(logs.map((log) => log.recipientEmail).sort()).toEqual([
+      "alice@hushletter.test",
+      "bob@hushletter.test",
+    ])
+  })
+})
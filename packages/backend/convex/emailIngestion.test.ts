@@ -4,6 +4,9 @@ import {
   validateSubject,
   validateReceivedAt,
   validateContent,
+  validateAttachments,
+  validateHeaderValue,
+  validateRawEmail,
 } from "./emailIngestion"
 
 describe("emailIngestion validation helpers", () => {
@@ -114,6 +117,75 @@ describe("emailIngestion validation helpers", () => {
       expect(validateContent(maxContent, "htmlContent")).toBeUndefined()
     })
   })
+
+  describe("validateHeaderValue", () => {
+    it("returns undefined for absent or valid headers", () => {
+      expect(validateHeaderValue(undefined, "listId")).toBeUndefined()
+      expect(validateHeaderValue("Weekly <weekly.example.com>", "listId")).toBeUndefined()
+    })
+
+    it("returns error for non-string input", () => {
+      expect(validateHeaderValue(42, "messageId")).toBe("messageId must be a string")
+    })
+
+    it("returns error for oversized headers", () => {
+      expect(validateHeaderValue("a".repeat(2049), "listUnsubscribe")).toContain(
+        "exceeds maximum length"
+      )
+    })
+  })
+
+  describe("validateAttachments", () => {
+    const pdf = { filename: "deck.pdf", mimeType: "application/pdf", content: "SGVsbG8=" }
+
+    it("returns undefined when attachments are absent", () => {
+      expect(validateAttachments(undefined)).toBeUndefined()
+      expect(validateAttachments(null)).toBeUndefined()
+    })
+
+    it("returns undefined for valid attachments", () => {
+      expect(validateAttachments([pdf, { ...pdf, contentId: "logo@cid" }])).toBeUndefined()
+    })
+
+    it("returns error for non-array input", () => {
+      expect(validateAttachments("deck.pdf")).toBe("attachments must be an array")
+    })
+
+    it("returns error for malformed entries", () => {
+      expect(validateAttachments([null])).toBe("attachments[0] must be an object")
+      expect(validateAttachments([{ ...pdf, content: 42 }])).toContain("attachments[0].content")
+      expect(validateAttachments([pdf, { ...pdf, filename: undefined }])).toContain(
+        "attachments[1].filename"
+      )
+    })
+
+    it("returns error when too many attachments are sent", () => {
+      expect(validateAttachments(Array.from({ length: 21 }, () => pdf))).toContain(
+        "exceeds maximum count"
+      )
+    })
+
+    it("returns error when combined size is too large", () => {
+      const big = { ...pdf, content: "A".repeat(8 * 1024 * 1024) }
+      expect(validateAttachments([big, big])).toContain("maximum combined size")
+    })
+  })
+
+  describe("validateRawEmail", () => {
+    it("returns undefined when absent or valid", () => {
+      expect(validateRawEmail(undefined)).toBeUndefined()
+      expect(validateRawEmail(null)).toBeUndefined()
+      expect(validateRawEmail("RnJvbTogYUBiLmNvbQ==")).toBeUndefined()
+    })
+
+    it("returns error for non-string input", () => {
+      expect(validateRawEmail(42)).toBe("rawEmail must be a string")
+    })
+
+    it("returns error when the message is too large", () => {
+      expect(validateRawEmail("A".repeat(6 * 1024 * 1024))).toContain("exceeds maximum length")
+    })
+  })
 })
 
 /**
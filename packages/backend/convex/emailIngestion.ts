@@ -1,6 +1,10 @@
-import { httpAction } from "./_generated/server"
+import { httpAction, internalAction, type ActionCtx } from "./_generated/server"
 import { internal } from "./_generated/api"
+import { v, ConvexError } from "convex/values"
 import type { Id } from "./_generated/dataModel"
+import type { IncomingAttachment } from "./attachments"
+import { parseSubAddress } from "./_internal/emailGeneration"
+import { parseSenderAuthPayload, type SenderAuth } from "./lib/senderAuth"
 
 /** Maximum allowed length for email subject (prevent DoS via oversized payloads) */
 const MAX_SUBJECT_LENGTH = 1000
@@ -11,6 +15,21 @@ const MAX_EMAIL_LENGTH = 254
 /** Maximum allowed content length (5MB) */
 const MAX_CONTENT_LENGTH = 5 * 1024 * 1024
 
+/** Maximum number of attachments accepted per email */
+const MAX_ATTACHMENTS = 20
+
+/** Maximum combined base64 length of attachments (10MB decoded, plus per-attachment padding) */
+const MAX_ATTACHMENTS_BASE64_LENGTH = 4 * Math.ceil((10 * 1024 * 1024) / 3) + MAX_ATTACHMENTS * 4
+
+/** Maximum allowed length for an attachment filename or MIME type */
+const MAX_ATTACHMENT_FIELD_LENGTH = 255
+
+/** Maximum allowed length for Message-ID and mailing-list header values */
+const MAX_HEADER_LENGTH = 2048
+
+/** Maximum base64 length of the original raw message (4MB decoded, see rawEmails.ts) */
+const MAX_RAW_EMAIL_BASE64_LENGTH = 4 * Math.ceil((4 * 1024 * 1024) / 3)
+
 /** Basic email format validation regex */
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
 
@@ -82,6 +101,81 @@ export function validateContent(content: unknown, fieldName: string): string | u
   return undefined
 }
 
+/**
+ * Validates an optional header value (Message-ID, List-Id, List-Unsubscribe, Precedence)
+ * @returns Error message if invalid, undefined if valid
+ */
+export function validateHeaderValue(value: unknown, fieldName: string): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined // Headers are optional
+  }
+  if (typeof value !== "string") {
+    return `${fieldName} must be a string`
+  }
+  if (value.length > MAX_HEADER_LENGTH) {
+    return `${fieldName} exceeds maximum length of ${MAX_HEADER_LENGTH} characters`
+  }
+  return undefined
+}
+
+/**
+ * Validates the optional attachments array sent by the email worker
+ * Each attachment carries its content base64-encoded
+ * @returns Error message if invalid, undefined if valid
+ */
+export function validateAttachments(attachments: unknown): string | undefined {
+  if (attachments === undefined || attachments === null) {
+    return undefined // Attachments are optional
+  }
+  if (!Array.isArray(attachments)) {
+    return "attachments must be an array"
+  }
+  if (attachments.length > MAX_ATTACHMENTS) {
+    return `attachments exceeds maximum count of ${MAX_ATTACHMENTS}`
+  }
+
+  let totalLength = 0
+  for (const [index, attachment] of attachments.entries()) {
+    if (typeof attachment !== "object" || attachment === null) {
+      return `attachments[${index}] must be an object`
+    }
+    const { filename, mimeType, content, contentId } = attachment as Record<string, unknown>
+    if (typeof filename !== "string" || filename.length > MAX_ATTACHMENT_FIELD_LENGTH) {
+      return `attachments[${index}].filename must be a string of at most ${MAX_ATTACHMENT_FIELD_LENGTH} characters`
+    }
+    if (typeof mimeType !== "string" || mimeType.length > MAX_ATTACHMENT_FIELD_LENGTH) {
+      return `attachments[${index}].mimeType must be a string of at most ${MAX_ATTACHMENT_FIELD_LENGTH} characters`
+    }
+    if (typeof content !== "string") {
+      return `attachments[${index}].content must be a base64 string`
+    }
+    if (contentId !== undefined && typeof contentId !== "string") {
+      return `attachments[${index}].contentId must be a string`
+    }
+    totalLength += content.length
+  }
+
+  if (totalLength > MAX_ATTACHMENTS_BASE64_LENGTH) {
+    return `attachments exceed maximum combined size of ${MAX_ATTACHMENTS_BASE64_LENGTH} base64 characters`
+  }
+  return undefined
+}
+
+/**
+ * Validate the optional base64-encoded original message
+ * Returns error message if invalid, undefined if valid
+ */
+export function validateRawEmail(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== "string") {
+    return "rawEmail must be a string"
+  }
+  if (value.length > MAX_RAW_EMAIL_BASE64_LENGTH) {
+    return `rawEmail exceeds maximum length of ${MAX_RAW_EMAIL_BASE64_LENGTH} base64 characters`
+  }
+  return undefined
+}
+
 /**
  * HTTP action to receive email data from the Cloudflare Email Worker
  * Validates the internal API key, looks up the user, stores content in R2,
@@ -126,7 +220,23 @@ export const receiveEmail = httpAction(async (ctx, request) => {
     })
   }
 
-  const { to, from, subject, senderName, receivedAt, htmlContent, textContent } = body
+  const {
+    to,
+    from,
+    subject,
+    senderName,
+    receivedAt,
+    htmlContent,
+    textContent,
+    attachments,
+    messageId: headerMessageId,
+    listId,
+    listUnsubscribe,
+    listUnsubscribePost,
+    precedence,
+    rawEmail,
+    senderAuth: senderAuthPayload,
+  } = body
 
   // Validate required fields with proper type checking and sanitization
   const validationErrors: string[] = []
@@ -149,6 +259,27 @@ export const receiveEmail = httpAction(async (ctx, request) => {
   const textContentError = validateContent(textContent, "textContent")
   if (textContentError) validationErrors.push(textContentError)
 
+  const attachmentsError = validateAttachments(attachments)
+  if (attachmentsError) validationErrors.push(attachmentsError)
+
+  const rawEmailError = validateRawEmail(rawEmail)
+  if (rawEmailError) validationErrors.push(rawEmailError)
+
+  const parsedSenderAuth = parseSenderAuthPayload(senderAuthPayload)
+  if (parsedSenderAuth.error) validationErrors.push(parsedSenderAuth.error)
+
+  const headerFields = {
+    messageId: headerMessageId,
+    listId,
+    listUnsubscribe,
+    listUnsubscribePost,
+    precedence,
+  }
+  for (const [fieldName, value] of Object.entries(headerFields)) {
+    const headerError = validateHeaderValue(value, fieldName)
+    if (headerError) validationErrors.push(headerError)
+  }
+
   if (validationErrors.length > 0) {
     return new Response(
       JSON.stringify({ error: "Validation failed", details: validationErrors }),
@@ -160,62 +291,249 @@ export const receiveEmail = httpAction(async (ctx, request) => {
   }
 
   // Type assertions are safe after validation
-  const validatedTo = to as string
-  const validatedFrom = from as string
-  const validatedSubject = subject as string
-  const validatedReceivedAt = receivedAt as number
-  const validatedSenderName = typeof senderName === "string" ? senderName : undefined
-  const validatedHtmlContent = typeof htmlContent === "string" ? htmlContent : undefined
-  const validatedTextContent = typeof textContent === "string" ? textContent : undefined
+  const optionalHeader = (value: unknown) =>
+    typeof value === "string" && value.trim().length > 0 ? value.trim() : undefined
+
+  const email: InboundEmail = {
+    to: to as string,
+    from: from as string,
+    subject: subject as string,
+    receivedAt: receivedAt as number,
+    senderName: typeof senderName === "string" ? senderName : undefined,
+    htmlContent: typeof htmlContent === "string" ? htmlContent : undefined,
+    textContent: typeof textContent === "string" ? textContent : undefined,
+    attachments: Array.isArray(attachments)
+      ? (attachments as Array<{ filename: string; mimeType: string; content: string; contentId?: string }>).map(
+          (attachment) => ({
+            filename: attachment.filename,
+            mimeType: attachment.mimeType,
+            contentBase64: attachment.content,
+            contentId: attachment.contentId,
+          })
+        )
+      : undefined,
+    messageId: optionalHeader(headerMessageId),
+    listId: optionalHeader(listId),
+    listUnsubscribe: optionalHeader(listUnsubscribe),
+    listUnsubscribePost: optionalHeader(listUnsubscribePost),
+    precedence: optionalHeader(precedence),
+    rawEmail: typeof rawEmail === "string" && rawEmail.length > 0 ? rawEmail : undefined,
+    senderAuth: parsedSenderAuth.senderAuth,
+  }
 
   // Story 7.2: Create delivery log entry for monitoring
-  // Generate a unique messageId if not provided (using timestamp + random for uniqueness)
-  const messageId = `${validatedReceivedAt}-${validatedFrom}-${Math.random().toString(36).slice(2)}`
+  // Use the real Message-ID when present, otherwise generate a unique one
+  // (using timestamp + random for uniqueness)
+  const messageId =
+    email.messageId ?? `${email.receivedAt}-${email.from}-${Math.random().toString(36).slice(2)}`
   let deliveryLogId: Id<"emailDeliveryLogs"> | null = null
 
   try {
     deliveryLogId = await ctx.runMutation(internal.admin.logEmailDelivery, {
-      recipientEmail: validatedTo,
-      senderEmail: validatedFrom,
-      senderName: validatedSenderName,
-      subject: validatedSubject,
+      recipientEmail: email.to,
+      senderEmail: email.from,
+      senderName: email.senderName,
+      subject: email.subject,
       messageId,
+      senderAuth: email.senderAuth,
     })
   } catch (error) {
     // Non-fatal: log but continue with email processing
     console.error("[emailIngestion] Failed to create delivery log:", error)
   }
 
+  const result = await processInboundEmail(ctx, email, deliveryLogId)
+
+  // Keep the payload of failed deliveries so admins can replay them
+  if (result.failed && !result.rejected && deliveryLogId) {
+    await saveFailedDeliveryPayload(ctx, deliveryLogId, {
+      ...email,
+      rawEmail: result.archivedRawEmail ? undefined : email.rawEmail,
+      archivedRawEmail: result.archivedRawEmail,
+    })
+  }
+
+  return new Response(JSON.stringify(result.body), {
+    status: result.status,
+    headers: { "Content-Type": "application/json" },
+  })
+})
+
+/**
+ * Validated email payload from the Cloudflare Email Worker
+ * Also stored (as JSON) for failed deliveries so they can be replayed.
+ */
+export type InboundEmail = {
+  to: string
+  from: string
+  subject: string
+  receivedAt: number
+  senderName?: string
+  htmlContent?: string
+  textContent?: string
+  attachments?: IncomingAttachment[]
+  messageId?: string
+  listId?: string
+  listUnsubscribe?: string
+  listUnsubscribePost?: string
+  precedence?: string
+  /** Base64-encoded original message (not yet archived) */
+  rawEmail?: string
+  /** Original message already archived in R2 by an earlier attempt */
+  archivedRawEmail?: { r2Key: string; sizeBytes: number }
+  /** SPF/DKIM/DMARC verdict computed by the email worker */
+  senderAuth?: SenderAuth
+}
+
+type ProcessResult = {
+  /** HTTP status and JSON body returned to the email worker */
+  status: number
+  body: Record<string, unknown>
+  /** True when the delivery log was marked failed */
+  failed: boolean
+  /**
+   * True when a replay can't fix it: the mail was refused on purpose or has
+   * no recipient, so its payload isn't kept
+   */
+  rejected?: boolean
+  archivedRawEmail?: { r2Key: string; sizeBytes: number }
+}
+
+/**
+ * Store the payload of a failed delivery in Convex file storage and link it
+ * from the delivery log. Uses Convex storage rather than R2 so payloads
+ * survive an R2 outage (the most common reason to replay).
+ */
+async function saveFailedDeliveryPayload(
+  ctx: ActionCtx,
+  logId: Id<"emailDeliveryLogs">,
+  email: InboundEmail
+): Promise<void> {
+  try {
+    const payloadStorageId = await ctx.storage.store(
+      new Blob([JSON.stringify(email)], { type: "application/json" })
+    )
+    await ctx.runMutation(internal.admin.setDeliveryPayload, { logId, payloadStorageId })
+  } catch (error) {
+    // Non-fatal: the delivery just can't be replayed
+    console.error("[emailIngestion] Failed to save payload for replay:", error)
+  }
+}
+
+/**
+ * Archive the original of a delivery, unless it's a redelivery of a message
+ * the user already has (its original would never be linked to anything).
+ * Duplicates are recognized by Message-ID, as in storeNewsletterContent.
+ */
+async function archiveNewRawEmail(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  rawEmailBase64: string,
+  messageId: string | undefined
+): Promise<{ r2Key: string; sizeBytes: number } | null> {
+  if (messageId) {
+    const existingId = await ctx.runQuery(
+      internal._internal.duplicateDetection.checkDuplicateByMessageId,
+      { userId, messageId }
+    )
+    if (existingId) return null
+  }
+
+  const entitlements = await ctx.runQuery(internal.entitlements.getUserEntitlementsByUserId, {
+    userId,
+  })
+  return await ctx.runAction(internal.rawEmails.archiveRawEmail, {
+    userId,
+    rawEmailBase64,
+    remainingBytes:
+      entitlements.attachmentStorageCapBytes - (entitlements.usage.attachmentBytesStored ?? 0),
+  })
+}
+
+/**
+ * Look up the recipient, store the newsletter and keep the delivery log in sync
+ * Shared by receiveEmail and admin replays of failed deliveries.
+ */
+async function processInboundEmail(
+  ctx: ActionCtx,
+  email: InboundEmail,
+  deliveryLogId: Id<"emailDeliveryLogs"> | null
+): Promise<ProcessResult> {
   // Lookup user by dedicated email address or Pro vanity alias
-  const user = await ctx.runQuery(internal._internal.users.findByInboundEmail, {
-    email: validatedTo,
+  const owner = await ctx.runQuery(internal._internal.users.findByInboundEmail, {
+    email: email.to,
   })
 
+  // Otherwise the address may be one of the user's disposable aliases
+  const emailAlias = owner
+    ? null
+    : await ctx.runQuery(internal.emailAliases.findAliasByAddress, { email: email.to })
+
+  if (emailAlias?.isDisabled) {
+    console.log(`[emailIngestion] Rejecting email to disabled alias: ${email.to}`)
+    await ctx.runMutation(internal.emailAliases.recordAliasRejection, {
+      emailAliasId: emailAlias._id,
+    })
+    if (deliveryLogId) {
+      try {
+        await ctx.runMutation(internal.admin.updateDeliveryStatus, {
+          logId: deliveryLogId,
+          status: "failed",
+          errorMessage: `Alias is disabled: ${email.to}`,
+          errorCode: "ALIAS_DISABLED",
+        })
+      } catch (logError) {
+        console.error("[emailIngestion] Failed to update delivery log:", logError)
+      }
+    }
+    return {
+      status: 403,
+      body: { error: "Alias disabled", code: "ALIAS_DISABLED" },
+      failed: true,
+      rejected: true,
+    }
+  }
+
+  const user =
+    owner ??
+    (emailAlias
+      ? await ctx.runQuery(internal._internal.users.findById, { userId: emailAlias.userId })
+      : null)
+
   if (!user) {
-    console.log(`[emailIngestion] No user found for address: ${validatedTo}`)
+    console.log(`[emailIngestion] No user found for address: ${email.to}`)
     // Story 7.2: Update delivery log with failure
     if (deliveryLogId) {
       try {
         await ctx.runMutation(internal.admin.updateDeliveryStatus, {
           logId: deliveryLogId,
           status: "failed",
-          errorMessage: `No user found for address: ${validatedTo}`,
+          errorMessage: `No user found for address: ${email.to}`,
           errorCode: "USER_NOT_FOUND",
         })
       } catch (logError) {
         console.error("[emailIngestion] Failed to update delivery log:", logError)
       }
     }
-    return new Response(JSON.stringify({ error: "Unknown recipient" }), {
-      status: 404,
-      headers: { "Content-Type": "application/json" },
-    })
+    return { status: 404, body: { error: "Unknown recipient" }, failed: true, rejected: true }
   }
 
   console.log(
-    `[emailIngestion] Processing email for user ${user._id}: "${validatedSubject}" from ${validatedFrom}${validatedSenderName ? ` (${validatedSenderName})` : ""}`
+    `[emailIngestion] Processing email for user ${user._id}: "${email.subject}" from ${email.from}${email.senderName ? ` (${email.senderName})` : ""}`
   )
 
+  // Recorded on the newsletter (name+tag@domain resolved to the user above)
+  const subAddressTag = emailAlias ? undefined : parseSubAddress(email.to).tag
+
+  // Keep original emails: archive the raw message before processing, so
+  // admins can re-run parsing even when storing the newsletter fails
+  const archivedRawEmail =
+    email.archivedRawEmail ??
+    (email.rawEmail && user.keepOriginalEmails
+      ? await archiveNewRawEmail(ctx, user._id, email.rawEmail, email.messageId)
+      : null) ??
+    undefined
+
   // Story 7.2: Update delivery log to processing status
   if (deliveryLogId) {
     try {
@@ -223,9 +541,10 @@ export const receiveEmail = httpAction(async (ctx, request) => {
         logId: deliveryLogId,
         status: "processing",
         userId: user._id,
-        hasHtmlContent: !!validatedHtmlContent,
-        hasPlainTextContent: !!validatedTextContent,
-        contentSizeBytes: (validatedHtmlContent?.length ?? 0) + (validatedTextContent?.length ?? 0),
+        rawEmailR2Key: archivedRawEmail?.r2Key,
+        hasHtmlContent: !!email.htmlContent,
+        hasPlainTextContent: !!email.textContent,
+        contentSizeBytes: (email.htmlContent?.length ?? 0) + (email.textContent?.length ?? 0),
       })
     } catch (logError) {
       console.error("[emailIngestion] Failed to update delivery log to processing:", logError)
@@ -235,12 +554,12 @@ export const receiveEmail = httpAction(async (ctx, request) => {
   try {
     // Story 2.5.1: Get or create global sender
     const sender = await ctx.runMutation(internal.senders.getOrCreateSender, {
-      email: validatedFrom,
-      name: validatedSenderName,
+      email: email.from,
+      name: email.senderName,
     })
 
     // Story 9.2: Get or create folder for this sender (folder-centric architecture)
-    const folderId = await ctx.runMutation(
+    const senderFolderId = await ctx.runMutation(
       internal.senders.getOrCreateFolderForSender,
       {
         userId: user._id,
@@ -248,6 +567,21 @@ export const receiveEmail = httpAction(async (ctx, request) => {
       }
     )
 
+    // Sub-addressing: mail to name+tag@ goes to the tag's folder when it has one
+    const subAddressFolderId = subAddressTag
+      ? await ctx.runQuery(internal.subAddressTags.getSubAddressFolder, {
+          userId: user._id,
+          tag: subAddressTag,
+        })
+      : null
+    // Disposable aliases can route their mail to a folder too
+    const aliasFolderId = emailAlias
+      ? await ctx.runQuery(internal.emailAliases.getAliasFolder, {
+          emailAliasId: emailAlias._id,
+        })
+      : null
+    const folderId = subAddressFolderId ?? aliasFolderId ?? senderFolderId
+
     // Store content in R2 and create userNewsletter record
     // Story 8.4: storeNewsletterContent now performs duplicate detection
     // Story 9.2: Always private, pass source: "email" and folderId
@@ -255,14 +589,25 @@ export const receiveEmail = httpAction(async (ctx, request) => {
       userId: user._id,
       senderId: sender._id,
       folderId, // Story 9.2: Required for folder-centric architecture
-      subject: validatedSubject,
-      senderEmail: validatedFrom,
-      senderName: validatedSenderName,
-      receivedAt: validatedReceivedAt,
-      htmlContent: validatedHtmlContent,
-      textContent: validatedTextContent,
+      subject: email.subject,
+      senderEmail: email.from,
+      senderName: email.senderName,
+      receivedAt: email.receivedAt,
+      htmlContent: email.htmlContent,
+      textContent: email.textContent,
       source: "email", // Story 9.2: Track ingestion source
-      // Note: emailIngestion doesn't have messageId - duplicate detection uses content hash
+      // Real Message-ID only - without it duplicate detection falls back to content hash
+      messageId: email.messageId,
+      attachments: email.attachments,
+      listId: email.listId,
+      listUnsubscribe: email.listUnsubscribe,
+      listUnsubscribePost: email.listUnsubscribePost,
+      precedence: email.precedence,
+      rawEmailR2Key: archivedRawEmail?.r2Key,
+      rawEmailSizeBytes: archivedRawEmail?.sizeBytes,
+      subAddressTag,
+      emailAliasId: emailAlias?._id,
+      senderAuth: email.senderAuth,
     })
 
     // Story 8.4: Handle duplicate detection (silent success, no error)
@@ -284,44 +629,54 @@ export const receiveEmail = httpAction(async (ctx, request) => {
           }
         }
 
-        return new Response(
-          JSON.stringify({
+        return {
+          status: 200,
+          body: {
             success: true,
             userId: user._id,
             senderId: sender._id,
             skipped: true,
             reason: "plan_limit",
             hardCap: result.hardCap,
-          }),
-          {
-            status: 200,
-            headers: { "Content-Type": "application/json" },
-          }
-        )
+          },
+          failed: true,
+          archivedRawEmail,
+        }
       }
 
       console.log(
         `[emailIngestion] Duplicate detected (${result.duplicateReason}): existingId=${result.existingId}`
       )
-      // Return success without updating delivery log (email was processed, just a duplicate)
-      return new Response(
-        JSON.stringify({
+      // The content is already stored - close out the delivery log so it doesn't stay "processing"
+      if (deliveryLogId) {
+        try {
+          await ctx.runMutation(internal.admin.updateDeliveryStatus, {
+            logId: deliveryLogId,
+            status: "stored",
+            userNewsletterId: result.existingId,
+          })
+        } catch (logError) {
+          console.error("[emailIngestion] Failed to update delivery log for duplicate:", logError)
+        }
+      }
+      return {
+        status: 200,
+        body: {
           success: true,
           userId: user._id,
           userNewsletterId: result.existingId, // Return existing ID
           senderId: sender._id,
           skipped: true,
           reason: "duplicate",
-        }),
-        {
-          status: 200,
-          headers: { "Content-Type": "application/json" },
-        }
-      )
+        },
+        failed: false,
+        archivedRawEmail,
+      }
     }
 
     console.log(
-      `[emailIngestion] Newsletter created: ${result.userNewsletterId}, R2 key: ${result.r2Key}, source=email`
+      `[emailIngestion] Newsletter created: ${result.userNewsletterId}, R2 key: ${result.r2Key}, source=email, ` +
+        `attachments=${result.attachmentCount} (skipped ${result.skippedAttachmentCount})`
     )
 
     // Story 7.2: Update delivery log to stored status
@@ -330,26 +685,26 @@ export const receiveEmail = httpAction(async (ctx, request) => {
         await ctx.runMutation(internal.admin.updateDeliveryStatus, {
           logId: deliveryLogId,
           status: "stored",
+          userNewsletterId: result.userNewsletterId,
         })
       } catch (logError) {
         console.error("[emailIngestion] Failed to update delivery log to stored:", logError)
       }
     }
 
-    return new Response(
-      JSON.stringify({
+    return {
+      status: 200,
+      body: {
         success: true,
         userId: user._id,
         userNewsletterId: result.userNewsletterId,
         senderId: sender._id,
         folderId, // Story 9.2: Return folderId
         source: "email", // Story 9.2: Confirm source
-      }),
-      {
-        status: 200,
-        headers: { "Content-Type": "application/json" },
-      }
-    )
+      },
+      failed: false,
+      archivedRawEmail,
+    }
   } catch (error) {
     // Log detailed error for debugging
     const errorMessage = error instanceof Error ? error.message : String(error)
@@ -373,16 +728,81 @@ export const receiveEmail = httpAction(async (ctx, request) => {
       }
     }
 
-    return new Response(
-      JSON.stringify({
+    return {
+      status: 500,
+      body: {
         error: "Failed to store newsletter content",
         code: errorCode,
         details: errorMessage,
-      }),
-      {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      }
-    )
+      },
+      failed: true,
+      archivedRawEmail,
+    }
   }
+}
+
+/**
+ * Replay a failed delivery from its stored payload
+ * Called by the admin retry actions, directly or via the scheduler for bulk retries.
+ */
+export const replayFailedDelivery = internalAction({
+  args: {
+    logId: v.id("emailDeliveryLogs"),
+    triggeredBy: v.optional(v.id("users")),
+    isBulk: v.optional(v.boolean()),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ status: "stored" | "failed"; attempt: number; errorCode?: string }> => {
+    const log = await ctx.runQuery(internal.admin.getDeliveryLogInternal, { logId: args.logId })
+    if (!log) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Delivery log not found" })
+    }
+    if (!log.payloadStorageId) {
+      throw new ConvexError({
+        code: "NOT_FOUND",
+        message: "No stored payload for this delivery",
+      })
+    }
+
+    const payload = await ctx.storage.get(log.payloadStorageId)
+    if (!payload) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Stored payload is missing" })
+    }
+    const email = JSON.parse(await payload.text()) as InboundEmail
+
+    const { attemptId, attempt } = await ctx.runMutation(internal.admin.startDeliveryRetry, {
+      logId: args.logId,
+      triggeredBy: args.triggeredBy,
+      isBulk: args.isBulk,
+    })
+
+    console.log(`[emailIngestion] Replaying delivery ${args.logId} (attempt ${attempt})`)
+
+    let result: ProcessResult | null = null
+    try {
+      result = await processInboundEmail(ctx, email, args.logId)
+    } finally {
+      // Always close out the attempt, even if processing threw
+      await ctx.runMutation(internal.admin.finishDeliveryRetry, { attemptId })
+    }
+
+    // Don't archive the original again on the next retry
+    if (result.failed && result.archivedRawEmail && !email.archivedRawEmail) {
+      await saveFailedDeliveryPayload(ctx, args.logId, {
+        ...email,
+        rawEmail: undefined,
+        archivedRawEmail: result.archivedRawEmail,
+      })
+    }
+
+    if (!result.failed) {
+      return { status: "stored", attempt }
+    }
+    const updated = await ctx.runQuery(internal.admin.getDeliveryLogInternal, {
+      logId: args.logId,
+    })
+    return { status: "failed", attempt, errorCode: updated?.errorCode }
+  },
 })
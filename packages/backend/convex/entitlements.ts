@@ -5,6 +5,8 @@ import type { Doc } from "./_generated/dataModel"
 export const UNLOCKED_NEWSLETTERS_CAP = 1000
 export const HARD_NEWSLETTERS_CAP = 2000
 export const AI_DAILY_LIMIT = 50
+export const FREE_ATTACHMENT_STORAGE_BYTES = 100 * 1024 * 1024
+export const PRO_ATTACHMENT_STORAGE_BYTES = 5 * 1024 * 1024 * 1024
 
 export type Entitlements = {
   plan: "free" | "pro"
@@ -13,10 +15,12 @@ export type Entitlements = {
   unlockedCap: number
   hardCap: number
   aiDailyLimit: number
+  attachmentStorageCapBytes: number
   usage: {
     totalStored: number | null
     unlockedStored: number | null
     lockedStored: number | null
+    attachmentBytesStored: number | null
   }
 }
 
@@ -24,6 +28,10 @@ export function isUserPro(user: Pick<Doc<"users">, "plan" | "proExpiresAt">): bo
   return user.plan === "pro" && typeof user.proExpiresAt === "number" && user.proExpiresAt > Date.now()
 }
 
+export function getAttachmentStorageCap(isPro: boolean): number {
+  return isPro ? PRO_ATTACHMENT_STORAGE_BYTES : FREE_ATTACHMENT_STORAGE_BYTES
+}
+
 export function requireProFromUser(user: Pick<Doc<"users">, "plan" | "proExpiresAt">) {
   if (!isUserPro(user)) {
     throw new ConvexError({
@@ -71,7 +79,13 @@ export const getEntitlements = query({
         unlockedCap: UNLOCKED_NEWSLETTERS_CAP,
         hardCap: HARD_NEWSLETTERS_CAP,
         aiDailyLimit: AI_DAILY_LIMIT,
-        usage: { totalStored: null, unlockedStored: null, lockedStored: null },
+        attachmentStorageCapBytes: FREE_ATTACHMENT_STORAGE_BYTES,
+        usage: {
+          totalStored: null,
+          unlockedStored: null,
+          lockedStored: null,
+          attachmentBytesStored: null,
+        },
       }
     }
 
@@ -88,7 +102,13 @@ export const getEntitlements = query({
         unlockedCap: UNLOCKED_NEWSLETTERS_CAP,
         hardCap: HARD_NEWSLETTERS_CAP,
         aiDailyLimit: AI_DAILY_LIMIT,
-        usage: { totalStored: null, unlockedStored: null, lockedStored: null },
+        attachmentStorageCapBytes: FREE_ATTACHMENT_STORAGE_BYTES,
+        usage: {
+          totalStored: null,
+          unlockedStored: null,
+          lockedStored: null,
+          attachmentBytesStored: null,
+        },
       }
     }
 
@@ -97,17 +117,21 @@ export const getEntitlements = query({
       .withIndex("by_userId", (q) => q.eq("userId", user._id))
       .first()
 
+    const isPro = isUserPro({ plan: user.plan ?? "free", proExpiresAt: user.proExpiresAt })
+
     return {
       plan: (user.plan ?? "free") as "free" | "pro",
-      isPro: isUserPro({ plan: user.plan ?? "free", proExpiresAt: user.proExpiresAt }),
+      isPro,
       proExpiresAt: user.proExpiresAt ?? null,
       unlockedCap: UNLOCKED_NEWSLETTERS_CAP,
       hardCap: HARD_NEWSLETTERS_CAP,
       aiDailyLimit: AI_DAILY_LIMIT,
+      attachmentStorageCapBytes: getAttachmentStorageCap(isPro),
       usage: {
         totalStored: counters?.totalStored ?? null,
         unlockedStored: counters?.unlockedStored ?? null,
         lockedStored: counters?.lockedStored ?? null,
+        attachmentBytesStored: counters?.attachmentBytesStored ?? null,
       },
     }
   },
@@ -125,7 +149,13 @@ export const getUserEntitlementsByUserId = internalQuery({
         unlockedCap: UNLOCKED_NEWSLETTERS_CAP,
         hardCap: HARD_NEWSLETTERS_CAP,
         aiDailyLimit: AI_DAILY_LIMIT,
-        usage: { totalStored: null, unlockedStored: null, lockedStored: null },
+        attachmentStorageCapBytes: FREE_ATTACHMENT_STORAGE_BYTES,
+        usage: {
+          totalStored: null,
+          unlockedStored: null,
+          lockedStored: null,
+          attachmentBytesStored: null,
+        },
       }
     }
 
@@ -134,17 +164,21 @@ export const getUserEntitlementsByUserId = internalQuery({
       .withIndex("by_userId", (q) => q.eq("userId", user._id))
       .first()
 
+    const isPro = isUserPro({ plan: user.plan ?? "free", proExpiresAt: user.proExpiresAt })
+
     return {
       plan: (user.plan ?? "free") as "free" | "pro",
-      isPro: isUserPro({ plan: user.plan ?? "free", proExpiresAt: user.proExpiresAt }),
+      isPro,
       proExpiresAt: user.proExpiresAt ?? null,
       unlockedCap: UNLOCKED_NEWSLETTERS_CAP,
       hardCap: HARD_NEWSLETTERS_CAP,
       aiDailyLimit: AI_DAILY_LIMIT,
+      attachmentStorageCapBytes: getAttachmentStorageCap(isPro),
       usage: {
         totalStored: counters?.totalStored ?? null,
         unlockedStored: counters?.unlockedStored ?? null,
         lockedStored: counters?.lockedStored ?? null,
+        attachmentBytesStored: counters?.attachmentBytesStored ?? null,
       },
     }
   },
@@ -238,6 +272,7 @@ export const incrementUserUsageCounters = internalMutation({
     totalDelta: v.number(),
     unlockedDelta: v.number(),
     lockedDelta: v.number(),
+    attachmentBytesDelta: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const existing = await ctx.db
@@ -249,6 +284,10 @@ export const incrementUserUsageCounters = internalMutation({
       totalStored: Math.max(0, (existing?.totalStored ?? 0) + args.totalDelta),
       unlockedStored: Math.max(0, (existing?.unlockedStored ?? 0) + args.unlockedDelta),
       lockedStored: Math.max(0, (existing?.lockedStored ?? 0) + args.lockedDelta),
+      attachmentBytesStored: Math.max(
+        0,
+        (existing?.attachmentBytesStored ?? 0) + (args.attachmentBytesDelta ?? 0)
+      ),
       updatedAt: Date.now(),
     }
 
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api, internal } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://r2.example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+const DAY = 24 * 60 * 60 * 1000
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>) {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: "reader@example.com",
+      createdAt: Date.now(),
+      authId: "auth_reader",
+      dedicatedEmail: "reader-1234@hushletter.test",
+      plan: "free",
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to: "reader-1234@hushletter.test",
+      from: "deals@shop.example.com",
+      subject: "Deals",
+      receivedAt: Date.now(),
+      htmlContent: "<p>Deals</p>",
+      ...payload,
+    }),
+  })
+  const body = (await response.json()) as { userNewsletterId: Id<"userNewsletters"> }
+  return body.userNewsletterId
+}
+
+async function getNewsletter(t: ReturnType<typeof makeT>, id: Id<"userNewsletters">) {
+  return await t.run(async (ctx) => ctx.db.get("userNewsletters", id))
+}
+
+describe("folder retention", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    process.env.INTERNAL_API_KEY = previousApiKey
+    vi.useRealTimers()
+  })
+
+  it("previews and enforces a days policy, sparing favorites", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const freshId = await postEmail(t, { subject: "Fresh" })
+    const staleId = await postEmail(t, { subject: "Stale", receivedAt: Date.now() - 10 * DAY })
+    const keptId = await postEmail(t, { subject: "Kept", receivedAt: Date.now() - 20 * DAY })
+    await reader.mutation(api.newsletters.setNewsletterFavorite, {
+      userNewsletterId: keptId,
+      isFavorited: true,
+    })
+    const folderId = (await getNewsletter(t, freshId))!.folderId!
+
+    const preview = await reader.query(api.folderRetention.previewFolderRetention, {
+      folderId,
+      policy: { type: "days", days: 7 },
+    })
+    expect(preview).toEqual({ policy: undefined, removeCount: 1, totalCount: 3 })
+
+    await reader.mutation(api.folderRetention.setFolderRetention, {
+      folderId,
+      policy: { type: "days", days: 7 },
+    })
+
+    vi.useFakeTimers()
+    const { scheduledCount } = await t.mutation(
+      internal.folderRetention.scheduleFolderRetention,
+      {}
+    )
+    expect(scheduledCount).toBe(1)
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+
+    expect((await getNewsletter(t, staleId))?.isBinned).toBe(true)
+    expect((await getNewsletter(t, freshId))?.isBinned).toBe(false)
+    expect((await getNewsletter(t, keptId))?.isBinned).toBe(false)
+    await expect(
+      reader.query(api.folderRetention.previewFolderRetention, { folderId })
+    ).resolves.toEqual({ policy: { type: "days", days: 7 }, removeCount: 0, totalCount: 2 })
+  })
+
+  it("keeps the last N issues and clears the policy", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const oldestId = await postEmail(t, { subject: "One", receivedAt: Date.now() - 3 * DAY })
+    await postEmail(t, { subject: "Two", receivedAt: Date.now() - 2 * DAY })
+    await postEmail(t, { subject: "Three", receivedAt: Date.now() - DAY })
+    const folderId = (await getNewsletter(t, oldestId))!.folderId!
+
+    await reader.mutation(api.folderRetention.setFolderRetention, {
+      folderId,
+      policy: { type: "lastIssues", count: 2 },
+    })
+    await t.mutation(internal.folderRetention.enforceFolderRetention, { folderId })
+    expect((await getNewsletter(t, oldestId))?.isBinned).toBe(true)
+
+    await reader.mutation(api.folderRetention.setFolderRetention, { folderId })
+    const folder = await t.run(async (ctx) => ctx.db.get("folders", folderId))
+    expect(folder?.retentionPolicy).toBeUndefined()
+    await expect(
+      t.mutation(internal.folderRetention.scheduleFolderRetention, {})
+    ).resolves.toEqual({ scheduledCount: 0 })
+  })
+
+  it("rejects invalid policies", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const newsletterId = await postEmail(t, {})
+    const folderId = (await getNewsletter(t, newsletterId))!.folderId!
+
+    await expect(
+      reader.mutation(api.folderRetention.setFolderRetention, {
+        folderId,
+        policy: { type: "days", days: 0 },
+      })
+    ).rejects.toThrow(/between 1 and 3650/)
+  })
+})
@@ -0,0 +1,182 @@
+import {
+  internalMutation,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server"
+import { v, ConvexError } from "convex/values"
+import { internal } from "./_generated/api"
+import type { Doc, Id } from "./_generated/dataModel"
+import {
+  retentionPolicyValidator,
+  selectExpiredNewsletters,
+  validateRetentionPolicy,
+  type RetentionPolicy,
+} from "./lib/retentionPolicy"
+
+/**
+ * Per-folder retention: newsletters outside a folder's policy are moved to
+ * the bin by an hourly cron (next to cleanupExpiredBinnedNewsletters, which
+ * later deletes them for good). See lib/retentionPolicy.ts for the policies.
+ */
+
+/** Newsletters binned per folder per enforcement run */
+const RETENTION_BATCH_SIZE = 200
+
+const RETENTION_POLICY_TYPES = ["days", "lastIssues", "unreadOnly"] as const
+
+/**
+ * Load a folder owned by the current user (throws otherwise)
+ */
+async function getOwnedFolder(
+  ctx: QueryCtx | MutationCtx,
+  folderId: Id<"folders">
+): Promise<Doc<"folders">> {
+  const identity = await ctx.auth.getUserIdentity()
+  if (!identity) {
+    throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+  }
+
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+    .first()
+  if (!user) {
+    throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+  }
+
+  const folder = await ctx.db.get("folders", folderId)
+  if (!folder || folder.userId !== user._id) {
+    throw new ConvexError({ code: "NOT_FOUND", message: "Folder not found" })
+  }
+  return folder
+}
+
+/**
+ * The folder's newsletters that a policy applies to (everything not yet binned)
+ */
+async function getRetainedNewsletters(
+  ctx: Pick<QueryCtx, "db">,
+  folder: Doc<"folders">
+): Promise<Doc<"userNewsletters">[]> {
+  const newsletters = await ctx.db
+    .query("userNewsletters")
+    .withIndex("by_userId_folderId", (q) =>
+      q.eq("userId", folder.userId).eq("folderId", folder._id)
+    )
+    .collect()
+  return newsletters.filter((newsletter) => !newsletter.isBinned)
+}
+
+/**
+ * Set or clear (policy omitted = keep forever) a folder's retention policy
+ */
+export const setFolderRetention = mutation({
+  args: {
+    folderId: v.id("folders"),
+    policy: v.optional(retentionPolicyValidator),
+  },
+  handler: async (ctx, args) => {
+    const folder = await getOwnedFolder(ctx, args.folderId)
+
+    if (args.policy) {
+      const error = validateRetentionPolicy(args.policy)
+      if (error) {
+        throw new ConvexError({ code: "VALIDATION_ERROR", message: error })
+      }
+    }
+
+    await ctx.db.patch("folders", folder._id, {
+      retentionPolicy: args.policy,
+      updatedAt: Date.now(),
+    })
+  },
+})
+
+/**
+ * A folder's saved policy, and how many newsletters a policy would move to
+ * the bin right now. Counts use the saved policy unless `policy` is passed
+ * (to preview an edit).
+ */
+export const previewFolderRetention = query({
+  args: {
+    folderId: v.id("folders"),
+    policy: v.optional(retentionPolicyValidator),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ policy?: RetentionPolicy; removeCount: number; totalCount: number }> => {
+    const folder = await getOwnedFolder(ctx, args.folderId)
+    const policy = args.policy ?? folder.retentionPolicy
+    const newsletters = await getRetainedNewsletters(ctx, folder)
+    const removeCount =
+      policy && !validateRetentionPolicy(policy)
+        ? selectExpiredNewsletters(newsletters, policy, Date.now()).length
+        : 0
+
+    return { policy: folder.retentionPolicy, removeCount, totalCount: newsletters.length }
+  },
+})
+
+/**
+ * Cron entry point: schedule enforcement for every folder with a policy
+ */
+export const scheduleFolderRetention = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<{ scheduledCount: number }> => {
+    let scheduledCount = 0
+    for (const type of RETENTION_POLICY_TYPES) {
+      const folders = await ctx.db
+        .query("folders")
+        .withIndex("by_retentionPolicyType", (q) => q.eq("retentionPolicy.type", type))
+        .collect()
+      for (const folder of folders) {
+        await ctx.scheduler.runAfter(0, internal.folderRetention.enforceFolderRetention, {
+          folderId: folder._id,
+        })
+        scheduledCount++
+      }
+    }
+    return { scheduledCount }
+  },
+})
+
+/**
+ * Move a folder's expired newsletters to the bin, continuing in a new
+ * mutation when there are more than one batch
+ */
+export const enforceFolderRetention = internalMutation({
+  args: { folderId: v.id("folders") },
+  handler: async (ctx, args): Promise<{ binnedCount: number }> => {
+    const folder = await ctx.db.get("folders", args.folderId)
+    if (!folder?.retentionPolicy) return { binnedCount: 0 }
+
+    const newsletters = await getRetainedNewsletters(ctx, folder)
+    const expired = selectExpiredNewsletters(newsletters, folder.retentionPolicy, Date.now())
+    const batch = expired.slice(0, RETENTION_BATCH_SIZE)
+
+    const binnedAt = Date.now()
+    for (const newsletter of batch) {
+      await ctx.db.patch("userNewsletters", newsletter._id, { isBinned: true, binnedAt })
+
+      const searchMeta = await ctx.db
+        .query("newsletterSearchMeta")
+        .withIndex("by_userId_userNewsletterId", (q) =>
+          q.eq("userId", newsletter.userId).eq("userNewsletterId", newsletter._id)
+        )
+        .first()
+      if (searchMeta && !searchMeta.isBinned) {
+        await ctx.db.patch("newsletterSearchMeta", searchMeta._id, { isBinned: true })
+      }
+    }
+
+    if (expired.length > batch.length) {
+      await ctx.scheduler.runAfter(0, internal.folderRetention.enforceFolderRetention, {
+        folderId: folder._id,
+      })
+    }
+    return { binnedCount: batch.length }
+  },
+})
@@ -0,0 +1,332 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+import { EMBEDDING_DIMENSIONS } from "./lib/textChunks"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://r2.example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+const STUB_URL = "http://localhost:4010/v1"
+const DAY = 24 * 60 * 60 * 1000
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(
+  t: ReturnType<typeof makeT>,
+  name: string,
+  options: { plan?: "free" | "pro"; autoCategorizeSenders?: boolean } = {}
+) {
+  const plan = options.plan ?? "pro"
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: `${name}@example.com`,
+      createdAt: Date.now(),
+      authId: `auth_${name}`,
+      dedicatedEmail: `${name}-1234@hushletter.test`,
+      plan,
+      proExpiresAt: plan === "pro" ? Date.now() + 30 * DAY : undefined,
+      autoCategorizeSenders: options.autoCategorizeSenders ?? true,
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to: "reader-1234@hushletter.test",
+      from: "weekly@news.example.com",
+      subject: "Weekly",
+      receivedAt: Date.now(),
+      htmlContent: "<p>Weekly</p>",
+      ...payload,
+    }),
+  })
+  const body = (await response.json()) as { userNewsletterId: Id<"userNewsletters"> }
+  return body.userNewsletterId
+}
+
+/**
+ * Local OpenRouter stand-in: chat completions answer with the next of
+ * `answers` and record the prompt; embeddings (archive indexing) are zeros
+ */
+function stubOpenRouter(answers: string[]) {
+  const prompts: string[] = []
+  const realFetch = globalThis.fetch
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input)
+      if (!url.startsWith(STUB_URL)) return realFetch(input, init)
+
+      const body = JSON.parse(String(init?.body))
+      const data =
+        url === `${STUB_URL}/embeddings`
+          ? {
+              data: (body.input as string[]).map((_, index) => ({
+                embedding: Array.from({ length: EMBEDDING_DIMENSIONS }, () => 0),
+                index,
+              })),
+            }
+          : (prompts.push(body.messages[1].content),
+            { choices: [{ message: { content: answers[prompts.length - 1] ?? "" } }] })
+      return new Response(JSON.stringify(data), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      })
+    })
+  )
+  return prompts
+}
+
+async function getSenderFolderId(t: ReturnType<typeof makeT>, senderEmail: string) {
+  return await t.run(async (ctx) => {
+    const sender = await ctx.db
+      .query("senders")
+      .withIndex("by_email", (q) => q.eq("email", senderEmail))
+      .first()
+    const settings = await ctx.db
+      .query("userSenderSettings")
+      .filter((q) => q.eq(q.field("senderId"), sender!._id))
+      .first()
+    return settings?.folderId
+  })
+}
+
+describe("folder suggestions for new senders", () => {
+  let previousEnv: Record<string, string | undefined>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    previousEnv = {
+      INTERNAL_API_KEY: process.env.INTERNAL_API_KEY,
+      OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY,
+      OPENROUTER_API_URL: process.env.OPENROUTER_API_URL,
+    }
+    process.env.INTERNAL_API_KEY = API_KEY
+    process.env.OPENROUTER_API_KEY = "test"
+    process.env.OPENROUTER_API_URL = STUB_URL
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    for (const [key, value] of Object.entries(previousEnv)) {
+      if (value === undefined) delete process.env[key]
+      else process.env[key] = value
+    }
+  })
+
+  it("suggests an existing folder and tag, and learns from the accepted choice", async () => {
+    const t = makeT()
+    const userId = await seedUser(t, "reader")
+    const { techId, tagId } = await t.run(async (ctx) => ({
+      techId: await ctx.db.insert("folders", {
+        userId,
+        name: "Tech",
+        isHidden: false,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      }),
+      tagId: await ctx.db.insert("tags", {
+        userId,
+        name: "Must read",
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      }),
+    }))
+    const prompts = stubOpenRouter([
+      '{"folder": "tech", "tag": "Must read"}',
+      '{"folder": "Tech", "tag": ""}',
+    ])
+
+    const newsletterId = await postEmail(t, {
+      from: "hello@chips.example.com",
+      senderName: "Chip Letter",
+      subject: "New fabs",
+      htmlContent: "<p>TSMC opened a fab.</p>",
+    })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+    const chipFolderId = await getSenderFolderId(t, "hello@chips.example.com")
+
+    expect(prompts).toHaveLength(1)
+    expect(prompts[0]).toContain("New sender: Chip Letter <hello@chips.example.com>")
+    expect(prompts[0]).toContain("Subject: New fabs\nTSMC opened a fab.")
+    expect(prompts[0]).toContain("- Tech")
+    expect(prompts[0]).not.toContain("- Chip Letter")
+
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const suggestions = await reader.query(api.folderSuggestions.listFolderSuggestions, {})
+    expect(suggestions).toMatchObject([
+      {
+        senderEmail: "hello@chips.example.com",
+        folderName: "Tech",
+        isNewFolder: false,
+        tagName: "Must read",
+      },
+    ])
+
+    await reader.mutation(api.folderSuggestions.acceptFolderSuggestion, {
+      suggestionId: suggestions[0]._id,
+    })
+
+    const state = await t.run(async (ctx) => ({
+      newsletter: await ctx.db.get("userNewsletters", newsletterId),
+      chipFolder: await ctx.db.get("folders", chipFolderId!),
+      tagLinks: await ctx.db.query("newsletterTags").collect(),
+      rules: await ctx.db.query("newsletterRules").collect(),
+    }))
+    expect(await getSenderFolderId(t, "hello@chips.example.com")).toBe(techId)
+    expect(state.newsletter?.folderId).toBe(techId)
+    expect(state.chipFolder).toBeNull()
+    expect(state.tagLinks.map((link) => link.tagId)).toEqual([tagId])
+    expect(state.rules).toMatchObject([
+      { conditions: { senderEmail: "hello@chips.example.com" }, actions: { tagId } },
+    ])
+    await expect(
+      reader.query(api.folderSuggestions.listFolderSuggestions, {})
+    ).resolves.toEqual([])
+
+    // The next new sender's prompt carries the accepted choice as an example
+    await postEmail(t, {
+      from: "news@gpus.example.com",
+      subject: "GPU prices",
+      htmlContent: "<p>Prices fell.</p>",
+    })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+
+    expect(prompts).toHaveLength(2)
+    expect(prompts[1]).toContain('- Chip Letter <hello@chips.example.com> ("New fabs") → Tech')
+
+    const usage = await t.run(async (ctx) => ctx.db.query("aiUsageDaily").collect())
+    expect(usage.map((row) => row.count)).toEqual([2])
+  })
+
+  it("proposes a new topical folder once per sender, and rejecting keeps the sender's folder", async () => {
+    const t = makeT()
+    await seedUser(t, "reader")
+    const prompts = stubOpenRouter(['{"folder": "Cooking"}'])
+
+    await postEmail(t, { from: "chef@food.example.com", subject: "Soup season" })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+    await postEmail(t, { from: "chef@food.example.com", subject: "Bread" })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+    expect(prompts).toHaveLength(1)
+
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const [suggestion] = await reader.query(api.folderSuggestions.listFolderSuggestions, {})
+    expect(suggestion).toMatchObject({ folderName: "Cooking", isNewFolder: true })
+
+    const folderId = await getSenderFolderId(t, "chef@food.example.com")
+    await reader.mutation(api.folderSuggestions.rejectFolderSuggestion, {
+      suggestionId: suggestion._id,
+    })
+
+    expect(await getSenderFolderId(t, "chef@food.example.com")).toBe(folderId)
+    await expect(
+      reader.query(api.folderSuggestions.listFolderSuggestions, {})
+    ).resolves.toEqual([])
+    await expect(
+      reader.mutation(api.folderSuggestions.acceptFolderSuggestion, {
+        suggestionId: suggestion._id,
+      })
+    ).rejects.toThrow(/already handled/)
+  })
+
+  it("creates the new folder on accept, unless the user moved the sender first", async () => {
+    const t = makeT()
+    const userId = await seedUser(t, "reader")
+    stubOpenRouter(['{"folder": "Cooking"}', '{"folder": "Cooking"}'])
+
+    await postEmail(t, { from: "chef@food.example.com", subject: "Soup season" })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+    await postEmail(t, { from: "baker@food.example.com", subject: "Bread" })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const suggestions = await reader.query(api.folderSuggestions.listFolderSuggestions, {})
+    expect(suggestions).toHaveLength(2)
+    const bySender = new Map(suggestions.map((s) => [s.senderEmail, s._id]))
+
+    const { folderId } = await reader.mutation(api.folderSuggestions.acceptFolderSuggestion, {
+      suggestionId: bySender.get("chef@food.example.com")!,
+    })
+    const folder = await t.run(async (ctx) => ctx.db.get("folders", folderId))
+    expect(folder?.name).toBe("Cooking")
+
+    // The baker was filed by hand in the meantime
+    const handPicked = await t.run(async (ctx) =>
+      ctx.db.insert("folders", {
+        userId,
+        name: "Bakeries",
+        isHidden: false,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      })
+    )
+    await t.run(async (ctx) => {
+      const sender = await ctx.db
+        .query("senders")
+        .withIndex("by_email", (q) => q.eq("email", "baker@food.example.com"))
+        .first()
+      const settings = await ctx.db
+        .query("userSenderSettings")
+        .withIndex("by_userId_senderId", (q) => q.eq("userId", userId).eq("senderId", sender!._id))
+        .first()
+      await ctx.db.patch("userSenderSettings", settings!._id, { folderId: handPicked })
+    })
+
+    await expect(
+      reader.query(api.folderSuggestions.listFolderSuggestions, {})
+    ).resolves.toEqual([])
+    await expect(
+      reader.mutation(api.folderSuggestions.acceptFolderSuggestion, {
+        suggestionId: bySender.get("baker@food.example.com")!,
+      })
+    ).rejects.toThrow(/moved since the suggestion/)
+  })
+
+  it("only runs for Pro users who turned it on", async () => {
+    const t = makeT()
+    await seedUser(t, "reader", { autoCategorizeSenders: false })
+    await seedUser(t, "free", { plan: "free" })
+    const prompts = stubOpenRouter(['{"folder": "Cooking"}'])
+
+    await postEmail(t, { from: "chef@food.example.com", subject: "Soup season" })
+    await postEmail(t, {
+      to: "free-1234@hushletter.test",
+      from: "chef@food.example.com",
+      subject: "Soup season",
+    })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+    expect(prompts).toEqual([])
+
+    await expect(
+      t
+        .withIdentity({ subject: "auth_free" })
+        .mutation(api.folderSuggestions.setAutoCategorizeSenders, { enabled: true })
+    ).rejects.toThrow(/Hushletter Pro is required/)
+
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    await reader.mutation(api.folderSuggestions.setAutoCategorizeSenders, { enabled: true })
+    await postEmail(t, { from: "baker@food.example.com", subject: "Bread" })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+    expect(prompts).toHaveLength(1)
+  })
+})
@@ -0,0 +1,555 @@
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server"
+import { v, ConvexError } from "convex/values"
+import { internal } from "./_generated/api"
+import type { Doc, Id } from "./_generated/dataModel"
+import { AI_DAILY_LIMIT, isUserPro, requireProFromUser } from "./entitlements"
+import { generateCompletion } from "./lib/openrouter"
+import {
+  buildFolderSuggestionPrompt,
+  FOLDER_SUGGESTION_SYSTEM_PROMPT,
+  MAX_SUGGESTION_EXAMPLES,
+  parseFolderSuggestion,
+  SUGGESTION_NEWSLETTER_COUNT,
+  type FolderSuggestionInput,
+} from "./lib/folderSuggestion"
+import { makeUniqueFolderName, sanitizeFolderName } from "./senders"
+import { addNewsletterTag } from "./tags"
+import { addSenderTagRule } from "./newsletterRules"
+
+/**
+ * AI folder suggestions for new senders (opt-in, Pro)
+ *
+ * getOrCreateFolderForSender gives every new sender its own folder. When the
+ * user turned suggestions on, the first issue from a sender delivered by email
+ * schedules suggestFolderForSender, which proposes an existing folder (or a new
+ * topical one) and maybe a tag, based on the sender's first issues. The user
+ * accepts or rejects it from the sidebar; accepted suggestions are sent as
+ * examples with later ones. Each suggestion counts toward AI_DAILY_LIMIT and
+ * takes the aiInFlight lock; when either stops it, the sender's next issue
+ * tries again.
+ */
+
+/** Pending suggestions returned by listFolderSuggestions */
+const MAX_SUGGESTIONS_LISTED = 20
+
+async function getAuthedUser(ctx: QueryCtx | MutationCtx): Promise<Doc<"users">> {
+  const identity = await ctx.auth.getUserIdentity()
+  if (!identity) {
+    throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+  }
+
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+    .first()
+  if (!user) {
+    throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+  }
+  return user
+}
+
+/**
+ * Current user for queries; null when signed out
+ */
+async function getQueryUser(ctx: QueryCtx): Promise<Doc<"users"> | null> {
+  const identity = await ctx.auth.getUserIdentity()
+  if (!identity) return null
+
+  return await ctx.db
+    .query("users")
+    .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+    .first()
+}
+
+/**
+ * Load a pending suggestion owned by the current user (throws otherwise)
+ */
+async function getPendingSuggestion(
+  ctx: MutationCtx,
+  user: Doc<"users">,
+  suggestionId: Id<"folderSuggestions">
+): Promise<Doc<"folderSuggestions">> {
+  const suggestion = await ctx.db.get("folderSuggestions", suggestionId)
+  if (!suggestion || suggestion.userId !== user._id) {
+    throw new ConvexError({ code: "NOT_FOUND", message: "Suggestion not found" })
+  }
+  if (suggestion.status !== "pending") {
+    throw new ConvexError({
+      code: "VALIDATION_ERROR",
+      message: "This suggestion was already handled",
+    })
+  }
+  return suggestion
+}
+
+async function getSenderSettings(
+  ctx: Pick<QueryCtx, "db">,
+  userId: Id<"users">,
+  senderId: Id<"senders">
+): Promise<Doc<"userSenderSettings"> | null> {
+  return await ctx.db
+    .query("userSenderSettings")
+    .withIndex("by_userId_senderId", (q) => q.eq("userId", userId).eq("senderId", senderId))
+    .first()
+}
+
+/**
+ * Turn folder suggestions for new senders on (Pro only) or off
+ */
+export const setAutoCategorizeSenders = mutation({
+  args: { enabled: v.boolean() },
+  handler: async (ctx, args) => {
+    const user = await getAuthedUser(ctx)
+    if (args.enabled) {
+      requireProFromUser({ plan: user.plan ?? "free", proExpiresAt: user.proExpiresAt })
+    }
+
+    await ctx.db.patch("users", user._id, { autoCategorizeSenders: args.enabled })
+  },
+})
+
+/**
+ * Schedule a suggestion for a sender's first issues
+ * Called from createUserNewsletter once the newsletter is stored. Only mail
+ * delivered to the user's addresses counts: imports would queue one model
+ * call per imported sender.
+ */
+export async function scheduleFolderSuggestion(
+  ctx: MutationCtx,
+  args: { userId: Id<"users">; senderId: Id<"senders">; source: Doc<"userNewsletters">["source"] }
+): Promise<void> {
+  if (args.source !== "email" || !process.env.OPENROUTER_API_KEY) return
+
+  const user = await ctx.db.get("users", args.userId)
+  if (!user?.autoCategorizeSenders) return
+  if (!isUserPro({ plan: user.plan ?? "free", proExpiresAt: user.proExpiresAt })) return
+
+  const existing = await ctx.db
+    .query("folderSuggestions")
+    .withIndex("by_userId_senderId", (q) =>
+      q.eq("userId", args.userId).eq("senderId", args.senderId)
+    )
+    .first()
+  if (existing) return
+
+  const issues = await ctx.db
+    .query("userNewsletters")
+    .withIndex("by_userId_senderId", (q) =>
+      q.eq("userId", args.userId).eq("senderId", args.senderId)
+    )
+    .take(SUGGESTION_NEWSLETTER_COUNT + 1)
+  if (issues.length > SUGGESTION_NEWSLETTER_COUNT) return
+
+  await ctx.scheduler.runAfter(0, internal.folderSuggestions.suggestFolderForSender, {
+    userId: args.userId,
+    senderId: args.senderId,
+  })
+}
+
+/**
+ * Plain-text body kept for search (searchText is a header line followed by
+ * the body, see lib/searchText.ts)
+ */
+async function getBodyText(
+  ctx: Pick<QueryCtx, "db">,
+  newsletter: Doc<"userNewsletters">
+): Promise<string> {
+  const searchMeta = await ctx.db
+    .query("newsletterSearchMeta")
+    .withIndex("by_userId_userNewsletterId", (q) =>
+      q.eq("userId", newsletter.userId).eq("userNewsletterId", newsletter._id)
+    )
+    .first()
+  const newlineIndex = searchMeta?.searchText?.indexOf("\n") ?? -1
+  return newlineIndex === -1 ? "" : searchMeta!.searchText!.slice(newlineIndex + 1)
+}
+
+type SuggestionInput = FolderSuggestionInput & {
+  fromFolderId: Id<"folders">
+  fromFolderName: string
+}
+
+/**
+ * What the model gets for a sender. Null when the user turned suggestions
+ * off, the sender already had a suggestion, or it no longer sits alone in
+ * its own folder (the user sorted it already).
+ */
+export const getSuggestionInput = internalQuery({
+  args: { userId: v.id("users"), senderId: v.id("senders") },
+  handler: async (ctx, args): Promise<SuggestionInput | null> => {
+    const user = await ctx.db.get("users", args.userId)
+    if (!user?.autoCategorizeSenders) return null
+    if (!isUserPro({ plan: user.plan ?? "free", proExpiresAt: user.proExpiresAt })) return null
+
+    const existing = await ctx.db
+      .query("folderSuggestions")
+      .withIndex("by_userId_senderId", (q) =>
+        q.eq("userId", args.userId).eq("senderId", args.senderId)
+      )
+      .first()
+    if (existing) return null
+
+    const sender = await ctx.db.get("senders", args.senderId)
+    const settings = await getSenderSettings(ctx, args.userId, args.senderId)
+    if (!sender || !settings?.folderId) return null
+    const fromFolder = await ctx.db.get("folders", settings.folderId)
+    if (!fromFolder) return null
+    const folderSenders = await ctx.db
+      .query("userSenderSettings")
+      .withIndex("by_folderId_userId", (q) =>
+        q.eq("folderId", fromFolder._id).eq("userId", args.userId)
+      )
+      .take(2)
+    if (folderSenders.length > 1) return null
+
+    const newsletters = await ctx.db
+      .query("userNewsletters")
+      .withIndex("by_userId_senderId", (q) =>
+        q.eq("userId", args.userId).eq("senderId", args.senderId)
+      )
+      .take(SUGGESTION_NEWSLETTER_COUNT)
+    const issues = []
+    for (const newsletter of newsletters) {
+      issues.push({ subject: newsletter.subject, text: await getBodyText(ctx, newsletter) })
+    }
+
+    const folders = await ctx.db
+      .query("folders")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .collect()
+    const tags = await ctx.db
+      .query("tags")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .collect()
+
+    const accepted = await ctx.db
+      .query("folderSuggestions")
+      .withIndex("by_userId_status", (q) => q.eq("userId", args.userId).eq("status", "accepted"))
+      .order("desc")
+      .take(MAX_SUGGESTION_EXAMPLES)
+    const examples = []
+    for (const suggestion of accepted) {
+      const folder = suggestion.folderId ? await ctx.db.get("folders", suggestion.folderId) : null
+      if (!folder) continue
+      examples.push({
+        senderEmail: suggestion.senderEmail,
+        senderName: suggestion.senderName,
+        subjects: suggestion.subjects,
+        folderName: folder.name,
+      })
+    }
+
+    return {
+      senderEmail: sender.email,
+      senderName: sender.name,
+      issues,
+      folderNames: folders
+        .filter((folder) => folder._id !== fromFolder._id && !folder.isHidden)
+        .map((folder) => folder.name),
+      tagNames: tags.map((tag) => tag.name),
+      examples,
+      fromFolderId: fromFolder._id,
+      fromFolderName: fromFolder.name,
+    }
+  },
+})
+
+/**
+ * Store the model's suggestion as pending, resolving names to the user's
+ * folders and tags
+ * @returns The suggestion, or null when it amounts to keeping the sender's folder
+ */
+export const storeFolderSuggestion = internalMutation({
+  args: {
+    userId: v.id("users"),
+    senderId: v.id("senders"),
+    fromFolderId: v.id("folders"),
+    subjects: v.array(v.string()),
+    folderName: v.string(),
+    isNewFolder: v.boolean(),
+    tagName: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<Id<"folderSuggestions"> | null> => {
+    const existing = await ctx.db
+      .query("folderSuggestions")
+      .withIndex("by_userId_senderId", (q) =>
+        q.eq("userId", args.userId).eq("senderId", args.senderId)
+      )
+      .first()
+    const sender = await ctx.db.get("senders", args.senderId)
+    const fromFolder = await ctx.db.get("folders", args.fromFolderId)
+    if (existing || !sender || !fromFolder) return null
+
+    const folders = await ctx.db
+      .query("folders")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .collect()
+    const lowerName = args.folderName.toLowerCase()
+    const folder = args.isNewFolder
+      ? undefined
+      : folders.find((f) => f._id !== fromFolder._id && f.name.toLowerCase() === lowerName)
+    const newFolderName = args.isNewFolder ? sanitizeFolderName(args.folderName) : undefined
+    if (!folder && !newFolderName) return null
+    if (newFolderName && newFolderName.toLowerCase() === fromFolder.name.toLowerCase()) return null
+
+    const tags = args.tagName
+      ? await ctx.db
+          .query("tags")
+          .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+          .collect()
+      : []
+    const tag = tags.find((t) => t.name.toLowerCase() === args.tagName?.toLowerCase())
+
+    return await ctx.db.insert("folderSuggestions", {
+      userId: args.userId,
+      senderId: args.senderId,
+      senderEmail: sender.email,
+      senderName: sender.name,
+      subjects: args.subjects,
+      fromFolderId: fromFolder._id,
+      folderId: folder?._id,
+      newFolderName,
+      tagId: tag?._id,
+      status: "pending",
+      createdAt: Date.now(),
+    })
+  },
+})
+
+type SuggestFolderResult = {
+  status: "created" | "unchanged" | "skipped" | "busy" | "limited" | "failed"
+  suggestionId?: Id<"folderSuggestions">
+}
+
+/**
+ * Ask the model where a new sender belongs and store the suggestion
+ */
+export const suggestFolderForSender = internalAction({
+  args: { userId: v.id("users"), senderId: v.id("senders") },
+  handler: async (ctx, args): Promise<SuggestFolderResult> => {
+    const input = await ctx.runQuery(internal.folderSuggestions.getSuggestionInput, args)
+    if (!input || input.issues.length === 0) return { status: "skipped" }
+
+    const apiKey = process.env.OPENROUTER_API_KEY
+    if (!apiKey) {
+      console.error("[suggestFolderForSender] AI service is not configured")
+      return { status: "failed" }
+    }
+
+    const acquired = await ctx.runMutation(internal.ai.tryAcquireAiInFlight, {
+      userId: args.userId,
+    })
+    if (!acquired) return { status: "busy" }
+
+    try {
+      const day = new Date().toISOString().slice(0, 10)
+      const used = await ctx.runQuery(internal.ai.getAiUsageDaily, {
+        userId: args.userId,
+        day,
+      })
+      if (used >= AI_DAILY_LIMIT) return { status: "limited" }
+
+      const response = await generateCompletion(
+        { apiKey, model: "openai/gpt-oss-120b", timeout: 30000, maxTokens: 200 },
+        FOLDER_SUGGESTION_SYSTEM_PROMPT,
+        buildFolderSuggestionPrompt(input)
+      )
+      await ctx.runMutation(internal.ai.incrementAiUsageDaily, {
+        userId: args.userId,
+        day,
+      })
+
+      const parsed = parseFolderSuggestion(response, input.folderNames, input.tagNames)
+      if (!parsed) return { status: "unchanged" }
+
+      const suggestionId = await ctx.runMutation(
+        internal.folderSuggestions.storeFolderSuggestion,
+        {
+          userId: args.userId,
+          senderId: args.senderId,
+          fromFolderId: input.fromFolderId,
+          subjects: input.issues.map((issue) => issue.subject),
+          ...parsed,
+        }
+      )
+      return suggestionId ? { status: "created", suggestionId } : { status: "unchanged" }
+    } catch (error) {
+      console.error("[suggestFolderForSender] AI error:", error)
+      return { status: "failed" }
+    } finally {
+      await ctx.runMutation(internal.ai.releaseAiInFlight, { userId: args.userId })
+    }
+  },
+})
+
+/**
+ * Pending suggestions, newest first
+ * Suggestions whose sender was moved since, or whose folder is gone, are left out.
+ */
+export const listFolderSuggestions = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getQueryUser(ctx)
+    if (!user) return []
+
+    const pending = await ctx.db
+      .query("folderSuggestions")
+      .withIndex("by_userId_status", (q) => q.eq("userId", user._id).eq("status", "pending"))
+      .order("desc")
+      .take(MAX_SUGGESTIONS_LISTED)
+
+    const suggestions = []
+    for (const suggestion of pending) {
+      const settings = await getSenderSettings(ctx, user._id, suggestion.senderId)
+      if (settings?.folderId !== suggestion.fromFolderId) continue
+
+      const folder = suggestion.folderId ? await ctx.db.get("folders", suggestion.folderId) : null
+      const folderName = folder?.name ?? suggestion.newFolderName
+      if (!folderName) continue
+      const tag = suggestion.tagId ? await ctx.db.get("tags", suggestion.tagId) : null
+
+      suggestions.push({
+        _id: suggestion._id,
+        senderEmail: suggestion.senderEmail,
+        senderName: suggestion.senderName,
+        folderName,
+        isNewFolder: !folder,
+        tagName: tag?.name,
+      })
+    }
+    return suggestions
+  },
+})
+
+/**
+ * Accept a suggestion: move the sender and its newsletters to the suggested
+ * folder (created if new), tag its newsletters (and future ones, through a
+ * rule), and delete the sender's own folder once it's empty
+ */
+export const acceptFolderSuggestion = mutation({
+  args: { suggestionId: v.id("folderSuggestions") },
+  handler: async (ctx, args): Promise<{ folderId: Id<"folders"> }> => {
+    const user = await getAuthedUser(ctx)
+    const suggestion = await getPendingSuggestion(ctx, user, args.suggestionId)
+
+    const settings = await getSenderSettings(ctx, user._id, suggestion.senderId)
+    if (!settings || settings.folderId !== suggestion.fromFolderId) {
+      throw new ConvexError({
+        code: "VALIDATION_ERROR",
+        message: "This sender was moved since the suggestion was made",
+      })
+    }
+
+    const now = Date.now()
+    let folderId = suggestion.folderId
+    if (folderId) {
+      const folder = await ctx.db.get("folders", folderId)
+      if (!folder || folder.userId !== user._id) {
+        throw new ConvexError({ code: "NOT_FOUND", message: "Folder not found" })
+      }
+    } else {
+      const existingFolders = await ctx.db
+        .query("folders")
+        .withIndex("by_userId", (q) => q.eq("userId", user._id))
+        .collect()
+      folderId = await ctx.db.insert("folders", {
+        userId: user._id,
+        name: makeUniqueFolderName(suggestion.newFolderName ?? "", existingFolders),
+        isHidden: false,
+        createdAt: now,
+        updatedAt: now,
+      })
+    }
+
+    await ctx.db.patch("userSenderSettings", settings._id, { folderId })
+    const newsletters = await ctx.db
+      .query("userNewsletters")
+      .withIndex("by_userId_senderId", (q) =>
+        q.eq("userId", user._id).eq("senderId", suggestion.senderId)
+      )
+      .collect()
+    for (const newsletter of newsletters) {
+      if (newsletter.folderId === suggestion.fromFolderId) {
+        await ctx.db.patch("userNewsletters", newsletter._id, { folderId })
+      }
+    }
+
+    const tag = suggestion.tagId ? await ctx.db.get("tags", suggestion.tagId) : null
+    if (tag && tag.userId === user._id) {
+      for (const newsletter of newsletters) {
+        await addNewsletterTag(ctx, {
+          userId: user._id,
+          tagId: tag._id,
+          userNewsletterId: newsletter._id,
+          receivedAt: newsletter.receivedAt,
+        })
+      }
+      await addSenderTagRule(ctx, {
+        userId: user._id,
+        senderEmail: suggestion.senderEmail,
+        tagId: tag._id,
+        name: `${suggestion.senderName || suggestion.senderEmail} → ${tag.name}`,
+      })
+    }
+
+    await deleteFolderIfEmpty(ctx, user._id, suggestion.fromFolderId)
+    await ctx.db.patch("folderSuggestions", suggestion._id, {
+      status: "accepted",
+      folderId,
+      resolvedAt: now,
+    })
+    return { folderId }
+  },
+})
+
+/**
+ * Reject a suggestion; the sender keeps its own folder
+ */
+export const rejectFolderSuggestion = mutation({
+  args: { suggestionId: v.id("folderSuggestions") },
+  handler: async (ctx, args) => {
+    const user = await getAuthedUser(ctx)
+    const suggestion = await getPendingSuggestion(ctx, user, args.suggestionId)
+    await ctx.db.patch("folderSuggestions", suggestion._id, {
+      status: "rejected",
+      resolvedAt: Date.now(),
+    })
+  },
+})
+
+/**
+ * Delete the folder created for a sender once nothing is left in it
+ */
+async function deleteFolderIfEmpty(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  folderId: Id<"folders">
+): Promise<void> {
+  const folder = await ctx.db.get("folders", folderId)
+  if (!folder) return
+
+  const sender = await ctx.db
+    .query("userSenderSettings")
+    .withIndex("by_folderId_userId", (q) => q.eq("folderId", folderId).eq("userId", userId))
+    .first()
+  const newsletter = await ctx.db
+    .query("userNewsletters")
+    .withIndex("by_userId_folderId", (q) => q.eq("userId", userId).eq("folderId", folderId))
+    .first()
+  const child = await ctx.db
+    .query("folders")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .filter((q) => q.eq(q.field("parentId"), folderId))
+    .first()
+  if (sender || newsletter || child) return
+
+  await ctx.db.delete("folders", folderId)
+}
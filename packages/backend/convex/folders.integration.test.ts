@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://r2.example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>, authId = "auth_reader") {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: `${authId}@example.com`,
+      createdAt: Date.now(),
+      authId,
+      dedicatedEmail: "reader-1234@hushletter.test",
+      plan: "free",
+    })
+  )
+}
+
+/** Deliver an email; returns the sender folder it was filed into */
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to: "reader-1234@hushletter.test",
+      from: "hello@weekly.example.com",
+      subject: "Issue",
+      receivedAt: Date.now(),
+      htmlContent: "<p>Hello</p>",
+      ...payload,
+    }),
+  })
+  const body = (await response.json()) as { userNewsletterId: Id<"userNewsletters"> }
+  const newsletter = await t.run(async (ctx) => ctx.db.get("userNewsletters", body.userNewsletterId))
+  return newsletter!.folderId!
+}
+
+async function getFolder(t: ReturnType<typeof makeT>, folderId: Id<"folders">) {
+  return await t.run(async (ctx) => ctx.db.get("folders", folderId))
+}
+
+describe("nested folders", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    process.env.INTERNAL_API_KEY = previousApiKey
+  })
+
+  it("nests folders and rolls unread counts up to their parents", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const techId = await reader.mutation(api.folders.createFolder, { name: "Tech" })
+    const aiId = await reader.mutation(api.folders.createFolder, { name: "AI", parentId: techId })
+    const researchId = await postEmail(t, { from: "papers@research.example.com" })
+    await postEmail(t, { from: "papers@research.example.com" })
+    const newsId = await postEmail(t, { from: "news@daily.example.com" })
+
+    await reader.mutation(api.folders.moveFolder, { folderId: researchId, parentId: aiId })
+    await reader.mutation(api.folders.moveFolder, { folderId: newsId, parentId: techId })
+
+    const folders = await reader.query(api.folders.listVisibleFoldersWithUnreadCounts, {})
+    const byId = new Map(folders.map((folder) => [folder._id, folder]))
+    expect(byId.get(researchId)).toMatchObject({ parentId: aiId, unreadCount: 2, totalUnreadCount: 2 })
+    expect(byId.get(aiId)).toMatchObject({ unreadCount: 0, totalUnreadCount: 2, totalNewsletterCount: 2 })
+    expect(byId.get(techId)).toMatchObject({ unreadCount: 0, totalUnreadCount: 3, totalNewsletterCount: 3 })
+
+    const all = await reader.query(api.folders.listFoldersWithUnreadCounts, {})
+    expect(all.find((folder) => folder._id === techId)?.totalUnreadCount).toBe(3)
+
+    await expect(
+      reader.mutation(api.folders.moveFolder, { folderId: techId, parentId: researchId })
+    ).rejects.toThrow(/one of its subfolders/)
+    await reader.mutation(api.folders.moveFolder, { folderId: researchId })
+    expect((await getFolder(t, researchId))?.parentId).toBeUndefined()
+  })
+
+  it("limits nesting depth", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    let parentId = await reader.mutation(api.folders.createFolder, { name: "Level 1" })
+    for (let level = 2; level <= 5; level++) {
+      parentId = await reader.mutation(api.folders.createFolder, { name: `Level ${level}`, parentId })
+    }
+    await expect(
+      reader.mutation(api.folders.createFolder, { name: "Level 6", parentId })
+    ).rejects.toThrow(/at most 5 levels/)
+
+    const otherId = await reader.mutation(api.folders.createFolder, { name: "Other" })
+    await reader.mutation(api.folders.createFolder, { name: "Other child", parentId: otherId })
+    const level4 = (await getFolder(t, parentId))!.parentId!
+    await expect(
+      reader.mutation(api.folders.moveFolder, { folderId: otherId, parentId: level4 })
+    ).rejects.toThrow(/at most 5 levels/)
+  })
+
+  it("hides and unhides whole subtrees", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const techId = await reader.mutation(api.folders.createFolder, { name: "Tech" })
+    const aiId = await reader.mutation(api.folders.createFolder, { name: "AI", parentId: techId })
+    const researchId = await reader.mutation(api.folders.createFolder, { name: "Research", parentId: aiId })
+
+    await reader.mutation(api.folders.hideFolder, { folderId: aiId })
+    let visible = await reader.query(api.folders.listVisibleFoldersWithUnreadCounts, {})
+    expect(visible.map((folder) => folder.name)).toEqual(["Tech"])
+    expect((await getFolder(t, researchId))?.isHidden).toBe(true)
+
+    await reader.mutation(api.folders.hideFolder, { folderId: techId })
+    await reader.mutation(api.folders.unhideFolder, { folderId: researchId })
+    visible = await reader.query(api.folders.listVisibleFoldersWithUnreadCounts, {})
+    expect(visible.map((folder) => folder.name).sort()).toEqual(["AI", "Research", "Tech"])
+  })
+
+  it("moves subfolders up on delete and restores them when a merge is undone", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const techId = await reader.mutation(api.folders.createFolder, { name: "Tech" })
+    const aiId = await reader.mutation(api.folders.createFolder, { name: "AI", parentId: techId })
+    const researchId = await reader.mutation(api.folders.createFolder, { name: "Research", parentId: aiId })
+    const readingId = await reader.mutation(api.folders.createFolder, { name: "Reading" })
+
+    await expect(
+      reader.mutation(api.folders.mergeFolders, { sourceFolderId: techId, targetFolderId: researchId })
+    ).rejects.toThrow(/one of its subfolders/)
+
+    const { mergeId } = await reader.mutation(api.folders.mergeFolders, {
+      sourceFolderId: aiId,
+      targetFolderId: readingId,
+    })
+    expect((await getFolder(t, researchId))?.parentId).toBe(readingId)
+
+    const { restoredFolderId } = await reader.mutation(api.folders.undoFolderMerge, { mergeId })
+    expect(await getFolder(t, restoredFolderId)).toMatchObject({ name: "AI", parentId: techId })
+    expect((await getFolder(t, researchId))?.parentId).toBe(restoredFolderId)
+
+    await reader.mutation(api.folders.deleteFolder, { folderId: restoredFolderId })
+    expect((await getFolder(t, researchId))?.parentId).toBe(techId)
+  })
+})
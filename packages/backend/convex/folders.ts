@@ -1,15 +1,26 @@
 import { internalMutation, mutation, query } from "./_generated/server"
 import { v } from "convex/values"
 import { ConvexError } from "convex/values"
+import { isStillSendingAfterUnsubscribe } from "./unsubscribe"
+import {
+  MAX_FOLDER_DEPTH,
+  getAncestorIds,
+  getDescendantIds,
+  getFolderDepth,
+  getSubtreeHeight,
+  rollUpFolderCounts,
+} from "./lib/folderTree"
 
 /**
  * Create a new folder for organizing senders
  * Story 2.5.1: Folder CRUD for Epic 3 (basic structure created now)
+ * Pass parentId to create it as a subfolder.
  */
 export const createFolder = mutation({
   args: {
     name: v.string(),
     color: v.optional(v.string()),
+    parentId: v.optional(v.id("folders")),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity()
@@ -41,12 +52,31 @@ export const createFolder = mutation({
       })
     }
 
+    const parentId = args.parentId
+    if (parentId) {
+      const parent = await ctx.db.get("folders", parentId)
+      if (!parent || parent.userId !== user._id) {
+        throw new ConvexError({ code: "NOT_FOUND", message: "Parent folder not found" })
+      }
+      const folders = await ctx.db
+        .query("folders")
+        .withIndex("by_userId", (q) => q.eq("userId", user._id))
+        .collect()
+      if (getFolderDepth(folders, parentId) >= MAX_FOLDER_DEPTH) {
+        throw new ConvexError({
+          code: "VALIDATION_ERROR",
+          message: `Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep`,
+        })
+      }
+    }
+
     const now = Date.now()
     const folderId = await ctx.db.insert("folders", {
       userId: user._id,
       name: args.name,
       color: args.color,
       isHidden: false, // Story 9.1: New folders are visible by default
+      parentId,
       createdAt: now,
       updatedAt: now, // Story 9.1: Track folder modification time
     })
@@ -157,6 +187,7 @@ export const updateFolder = mutation({
  * - newsletterCount: total newsletters from senders in folder
  * - unreadCount: unread newsletters from senders in folder
  * - senderCount: number of senders assigned to folder
+ * - totalNewsletterCount / totalUnreadCount: same, including subfolders
  *
  * Performance: Uses batch fetching to avoid N+1 query problem.
  * Fetches all user data once, then computes counts in memory.
@@ -231,7 +262,15 @@ export const listFoldersWithUnreadCounts = query({
       }
     })
 
-    return foldersWithCounts
+    const totals = rollUpFolderCounts(
+      folders,
+      new Map(foldersWithCounts.map((folder) => [folder._id, folder]))
+    )
+    return foldersWithCounts.map((folder) => ({
+      ...folder,
+      totalNewsletterCount: totals.get(folder._id)!.newsletterCount,
+      totalUnreadCount: totals.get(folder._id)!.unreadCount,
+    }))
   },
 })
 
@@ -239,13 +278,15 @@ export const listFoldersWithUnreadCounts = query({
  * List VISIBLE folders for current user with unread newsletter counts
  * Story 9.4: AC1, AC2, AC3 - Folder-centric navigation
  *
- * Excludes folders where isHidden === true from the list.
+ * Excludes folders where isHidden === true, or under a hidden folder, from the list.
  * Returns folders enriched with:
  * - newsletterCount: total non-hidden newsletters from senders in folder
  * - unreadCount: unread (non-hidden) newsletters from senders in folder
+ * - totalNewsletterCount / totalUnreadCount: same, including visible subfolders
  * - senderCount: number of senders assigned to folder
  * - senderEmail: representative sender email (latest newsletter in folder)
  * - senderPreviews: up to 3 latest distinct senders for avatar groups
+ * - isStillSendingAfterUnsubscribe: a sender in the folder kept mailing after unsubscribe
  *
  * Performance: Uses batch fetching to avoid N+1 query problem.
  * Fetches all user data once, then computes counts in memory.
@@ -279,8 +320,13 @@ export const listVisibleFoldersWithUnreadCounts = query({
         .collect(),
     ])
 
-    // Story 9.4 AC3: Filter out hidden folders from sidebar
-    const visibleFolders = folders.filter((f) => !f.isHidden)
+    // Story 9.4 AC3: Filter out hidden folders (and their subfolders) from sidebar
+    const hiddenFolderIds = new Set(folders.filter((f) => f.isHidden).map((f) => f._id))
+    const visibleFolders = folders.filter(
+      (f) =>
+        !f.isHidden &&
+        !getAncestorIds(folders, f._id).some((ancestorId) => hiddenFolderIds.has(ancestorId))
+    )
 
     // Build lookup map for newsletter counts by sender
     // Story 9.4: Exclude hidden newsletters from counts
@@ -293,8 +339,8 @@ export const listVisibleFoldersWithUnreadCounts = query({
       { receivedAt: number; senderEmail: string; senderName?: string }
     >()
     for (const newsletter of allNewsletters) {
-      // Skip hidden newsletters - they don't count toward folder totals
-      if (newsletter.isHidden) continue
+      // Skip hidden and snoozed newsletters - they don't count toward folder totals
+      if (newsletter.isHidden || newsletter.snoozedUntil) continue
 
       const senderId = newsletter.senderId
       const current = newsletterCountsBySender.get(senderId) ?? {
@@ -357,11 +403,22 @@ export const listVisibleFoldersWithUnreadCounts = query({
         senderCount: folderSettings.length,
         senderEmail: senderPreviews[0]?.senderEmail,
         senderPreviews,
+        isStillSendingAfterUnsubscribe: folderSettings.some(isStillSendingAfterUnsubscribe),
       }
     })
 
+    const totals = rollUpFolderCounts(
+      visibleFolders,
+      new Map(foldersWithCounts.map((folder) => [folder._id, folder]))
+    )
+
     // Sort by user-defined order (drag-to-reorder), fallback to alphabetical
-    return foldersWithCounts.sort((a, b) => {
+    // Clients nest folders by parentId, keeping this order among siblings
+    return foldersWithCounts.map((folder) => ({
+      ...folder,
+      totalNewsletterCount: totals.get(folder._id)!.newsletterCount,
+      totalUnreadCount: totals.get(folder._id)!.unreadCount,
+    })).sort((a, b) => {
       const aOrder = a.sortOrder ?? Number.MAX_SAFE_INTEGER
       const bOrder = b.sortOrder ?? Number.MAX_SAFE_INTEGER
       if (aOrder !== bOrder) return aOrder - bOrder
@@ -494,6 +551,73 @@ export const reorderFolders = mutation({
   },
 })
 
+/**
+ * Move a folder (with its subfolders) under another folder, or to the top
+ * level when parentId is omitted
+ */
+export const moveFolder = mutation({
+  args: {
+    folderId: v.id("folders"),
+    parentId: v.optional(v.id("folders")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    const folder = await ctx.db.get("folders", args.folderId)
+    if (!folder || folder.userId !== user._id) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Folder not found" })
+    }
+    if (folder.parentId === args.parentId) return
+
+    const parentId = args.parentId
+    if (parentId) {
+      const parent = await ctx.db.get("folders", parentId)
+      if (!parent || parent.userId !== user._id) {
+        throw new ConvexError({ code: "NOT_FOUND", message: "Parent folder not found" })
+      }
+
+      const folders = await ctx.db
+        .query("folders")
+        .withIndex("by_userId", (q) => q.eq("userId", user._id))
+        .collect()
+      if (parentId === folder._id || getDescendantIds(folders, folder._id).includes(parentId)) {
+        throw new ConvexError({
+          code: "VALIDATION_ERROR",
+          message: "Cannot move a folder into itself or one of its subfolders",
+        })
+      }
+      const depth = getFolderDepth(folders, parentId) + getSubtreeHeight(folders, folder._id)
+      if (depth > MAX_FOLDER_DEPTH) {
+        throw new ConvexError({
+          code: "VALIDATION_ERROR",
+          message: `Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep`,
+        })
+      }
+    }
+
+    await ctx.db.patch("folders", folder._id, {
+      parentId,
+      updatedAt: Date.now(),
+    })
+  },
+})
+
+/**
+ * Delete a folder
+ * Its subfolders move up to the deleted folder's parent.
+ */
 export const deleteFolder = mutation({
   args: {
     folderId: v.id("folders"),
@@ -551,16 +675,27 @@ export const deleteFolder = mutation({
       })
     }
 
+    // Keep subfolders: they move up a level
+    const now = Date.now()
+    const childFolders = await ctx.db
+      .query("folders")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .filter((q) => q.eq(q.field("parentId"), args.folderId))
+      .collect()
+    for (const child of childFolders) {
+      await ctx.db.patch("folders", child._id, { parentId: folder.parentId, updatedAt: now })
+    }
+
     await ctx.db.delete("folders", args.folderId)
   },
 })
 
 /**
  * Helper to generate a unique folder name by appending a counter if needed.
- * Used by renameFolder and createFolder to handle duplicates.
+ * Used by renameFolder and renameSmartFolder to handle duplicates.
  * Story 9.5: Task 1.3 - Handle duplicate folder names
  */
-function makeUniqueFolderName(
+export function makeUniqueFolderName(
   baseName: string,
   existingFolders: { name: string }[]
 ): string {
@@ -656,7 +791,7 @@ export const renameFolder = mutation({
  * Hide a folder from main navigation
  * Story 9.5: Task 2 - Folder Hide (AC #5)
  *
- * Sets isHidden = true, which excludes the folder from:
+ * Sets isHidden = true on the folder and its subfolders, which excludes them from:
  * - listVisibleFoldersWithUnreadCounts (sidebar)
  * - "All Newsletters" aggregate counts
  */
@@ -682,10 +817,17 @@ export const hideFolder = mutation({
       throw new ConvexError({ code: "NOT_FOUND", message: "Folder not found" })
     }
 
-    await ctx.db.patch("folders", args.folderId, {
-      isHidden: true,
-      updatedAt: Date.now(),
-    })
+    const folders = await ctx.db
+      .query("folders")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .collect()
+    const now = Date.now()
+    for (const folderId of [args.folderId, ...getDescendantIds(folders, args.folderId)]) {
+      await ctx.db.patch("folders", folderId, {
+        isHidden: true,
+        updatedAt: now,
+      })
+    }
   },
 })
 
@@ -693,7 +835,8 @@ export const hideFolder = mutation({
  * Unhide a folder to restore it to main navigation
  * Story 9.5: Task 2 - Folder Unhide (AC #8)
  *
- * Sets isHidden = false, restoring the folder to:
+ * Sets isHidden = false on the folder, its subfolders and any hidden parent
+ * folders (so it is reachable again), restoring them to:
  * - listVisibleFoldersWithUnreadCounts (sidebar)
  * - "All Newsletters" aggregate counts
  */
@@ -719,10 +862,23 @@ export const unhideFolder = mutation({
       throw new ConvexError({ code: "NOT_FOUND", message: "Folder not found" })
     }
 
-    await ctx.db.patch("folders", args.folderId, {
-      isHidden: false,
-      updatedAt: Date.now(),
-    })
+    const folders = await ctx.db
+      .query("folders")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .collect()
+    const folderById = new Map(folders.map((f) => [f._id, f]))
+    const now = Date.now()
+    for (const folderId of [
+      args.folderId,
+      ...getDescendantIds(folders, args.folderId),
+      ...getAncestorIds(folders, args.folderId),
+    ]) {
+      if (!folderById.get(folderId)?.isHidden) continue
+      await ctx.db.patch("folders", folderId, {
+        isHidden: false,
+        updatedAt: now,
+      })
+    }
   },
 })
 
@@ -795,7 +951,8 @@ export const listHiddenFolders = query({
  * Story 9.5: Task 3 - Folder Merge (AC #1, #2, #3, #4)
  *
  * Moves all senders and newsletters from source folder to target folder,
- * then deletes the source folder. Stores merge history for undo capability.
+ * re-parents its subfolders under the target, then deletes the source folder.
+ * Stores merge history for undo capability.
  *
  * Returns mergeId for undo, plus counts of moved items for user feedback.
  */
@@ -843,6 +1000,27 @@ export const mergeFolders = mutation({
       throw new ConvexError({ code: "NOT_FOUND", message: "Target folder not found" })
     }
 
+    const folders = await ctx.db
+      .query("folders")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .collect()
+    if (getDescendantIds(folders, args.sourceFolderId).includes(args.targetFolderId)) {
+      throw new ConvexError({
+        code: "VALIDATION_ERROR",
+        message: "Cannot merge a folder into one of its subfolders",
+      })
+    }
+    const childFolders = folders.filter((f) => f.parentId === args.sourceFolderId)
+    const targetDepth = getFolderDepth(folders, args.targetFolderId)
+    for (const child of childFolders) {
+      if (targetDepth + getSubtreeHeight(folders, child._id) > MAX_FOLDER_DEPTH) {
+        throw new ConvexError({
+          code: "VALIDATION_ERROR",
+          message: `Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep`,
+        })
+      }
+    }
+
     // Move userSenderSettings to target folder - Task 3.2
     const senderSettings = await ctx.db
       .query("userSenderSettings")
@@ -871,17 +1049,27 @@ export const mergeFolders = mutation({
       })
     }
 
+    // Subfolders keep their subtree, now under the target
+    const now = Date.now()
+    for (const child of childFolders) {
+      await ctx.db.patch("folders", child._id, {
+        parentId: args.targetFolderId,
+        updatedAt: now,
+      })
+    }
+
     // Store merge history for undo - Task 6.1, 6.2
     const mergeId = crypto.randomUUID()
-    const now = Date.now()
     await ctx.db.insert("folderMergeHistory", {
       mergeId,
       userId: user._id,
       sourceFolderName: sourceFolder.name,
       sourceFolderColor: sourceFolder.color,
       targetFolderId: args.targetFolderId,
+      sourceFolderParentId: sourceFolder.parentId,
       movedSenderSettingIds: senderSettings.map((s) => s._id),
       movedNewsletterIds: newsletters.map((n) => n._id),
+      movedChildFolderIds: childFolders.map((f) => f._id),
       createdAt: now,
       expiresAt: now + 30000, // 30 seconds to undo - Task 6.6
     })
@@ -904,8 +1092,8 @@ export const mergeFolders = mutation({
  * Undo a folder merge operation
  * Story 9.5: Task 6 - Undo Merge (AC #4)
  *
- * Recreates the source folder and moves items back.
- * Only works within the undo time window (30 seconds).
+ * Recreates the source folder (under its former parent) and moves items and
+ * subfolders back. Only works within the undo time window (30 seconds).
  *
  * Code Review Fix HIGH-2: Reports if some items couldn't be restored
  * (e.g., if deleted between merge and undo).
@@ -956,16 +1144,29 @@ export const undoFolderMerge = mutation({
     }
 
     // Recreate source folder - Task 6.4
+    // Its former parent may have been deleted since; fall back to top level
+    const formerParent = history.sourceFolderParentId
+      ? await ctx.db.get("folders", history.sourceFolderParentId)
+      : null
     const now = Date.now()
     const newFolderId = await ctx.db.insert("folders", {
       userId: user._id,
       name: history.sourceFolderName,
       color: history.sourceFolderColor,
       isHidden: false,
+      parentId: formerParent?.userId === user._id ? formerParent._id : undefined,
       createdAt: now,
       updatedAt: now,
     })
 
+    // Subfolders go back unless they were moved elsewhere in the meantime
+    for (const childId of history.movedChildFolderIds ?? []) {
+      const child = await ctx.db.get("folders", childId)
+      if (child && child.userId === user._id && child.parentId === history.targetFolderId) {
+        await ctx.db.patch("folders", childId, { parentId: newFolderId, updatedAt: now })
+      }
+    }
+
     // Move items back to recreated folder - Task 6.5
     // Code Review Fix HIGH-2: Track restoration counts
     let restoredSenderCount = 0
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://r2.example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>, name: string) {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: `${name}@example.com`,
+      createdAt: Date.now(),
+      authId: `auth_${name}`,
+      dedicatedEmail: `${name}-1234@hushletter.test`,
+      plan: "free",
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to: "reader-1234@hushletter.test",
+      from: "weekly@news.example.com",
+      subject: "Weekly",
+      receivedAt: Date.now(),
+      htmlContent: "<p>Weekly</p>",
+      ...payload,
+    }),
+  })
+  const body = (await response.json()) as { userNewsletterId: Id<"userNewsletters"> }
+  return body.userNewsletterId
+}
+
+function quote(text: string, startOffset = 0) {
+  return { text, prefix: "before ", suffix: " after", startOffset }
+}
+
+describe("highlights", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    process.env.INTERNAL_API_KEY = previousApiKey
+  })
+
+  it("lists a newsletter's highlights in document order with their anchors", async () => {
+    const t = makeT()
+    await seedUser(t, "reader")
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const newsletterId = await postEmail(t, { subject: "Rates" })
+
+    await reader.mutation(api.highlights.createHighlight, {
+      userNewsletterId: newsletterId,
+      ...quote("second point", 120),
+    })
+    await reader.mutation(api.highlights.createHighlight, {
+      userNewsletterId: newsletterId,
+      ...quote("first point", 10),
+      prefix: "x".repeat(100),
+      color: "green",
+      note: "  Worth rereading  ",
+    })
+
+    const highlights = await reader.query(api.highlights.listHighlightsForNewsletter, {
+      userNewsletterId: newsletterId,
+    })
+    expect(highlights.map((highlight) => highlight.text)).toEqual(["first point", "second point"])
+    expect(highlights[0]).toMatchObject({
+      prefix: "x".repeat(64),
+      suffix: " after",
+      startOffset: 10,
+      color: "green",
+      note: "Worth rereading",
+      subject: "Rates",
+      senderEmail: "weekly@news.example.com",
+    })
+    expect(highlights[1].color).toBe("yellow")
+  })
+
+  it("searches quotes and notes and filters the Highlights page", async () => {
+    const t = makeT()
+    await seedUser(t, "reader")
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const weeklyId = await postEmail(t, { subject: "Weekly" })
+    const digestId = await postEmail(t, { from: "digest@other.example.com", subject: "Digest" })
+
+    await reader.mutation(api.highlights.createHighlight, {
+      userNewsletterId: weeklyId,
+      ...quote("interest rates are rising"),
+    })
+    const notedId = await reader.mutation(api.highlights.createHighlight, {
+      userNewsletterId: digestId,
+      ...quote("battery prices fell"),
+      color: "blue",
+    })
+    await reader.mutation(api.highlights.updateHighlight, {
+      highlightId: notedId,
+      note: "compare with rates",
+    })
+
+    const byQuoteOrNote = await reader.query(api.highlights.listHighlights, { search: "rates" })
+    expect(byQuoteOrNote).toHaveLength(2)
+
+    const blue = await reader.query(api.highlights.listHighlights, { color: "blue" })
+    expect(blue.map((highlight) => highlight._id)).toEqual([notedId])
+
+    const withNotes = await reader.query(api.highlights.listHighlights, { withNotesOnly: true })
+    expect(withNotes.map((highlight) => highlight._id)).toEqual([notedId])
+
+    const fromWeekly = await reader.query(api.highlights.listHighlights, {
+      senderEmail: "weekly@news.example.com",
+    })
+    expect(fromWeekly.map((highlight) => highlight.text)).toEqual(["interest rates are rising"])
+
+    const senders = await reader.query(api.highlights.listHighlightSenders, {})
+    expect(senders.map((sender) => sender.senderEmail).sort()).toEqual([
+      "digest@other.example.com",
+      "weekly@news.example.com",
+    ])
+
+    await reader.mutation(api.highlights.updateHighlight, { highlightId: notedId, note: "" })
+    const afterClearing = await reader.query(api.highlights.listHighlights, { withNotesOnly: true })
+    expect(afterClearing).toEqual([])
+  })
+
+  it("rejects other users and drops highlights with their newsletter", async () => {
+    const t = makeT()
+    await seedUser(t, "reader")
+    await seedUser(t, "other")
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const other = t.withIdentity({ subject: "auth_other" })
+    const newsletterId = await postEmail(t, {})
+
+    await expect(
+      other.mutation(api.highlights.createHighlight, {
+        userNewsletterId: newsletterId,
+        ...quote("not mine"),
+      })
+    ).rejects.toThrow(/Access denied/)
+
+    const highlightId = await reader.mutation(api.highlights.createHighlight, {
+      userNewsletterId: newsletterId,
+      ...quote("mine"),
+    })
+    await expect(
+      other.mutation(api.highlights.deleteHighlight, { highlightId })
+    ).rejects.toThrow(/Highlight not found/)
+    await expect(
+      other.query(api.highlights.listHighlightsForNewsletter, { userNewsletterId: newsletterId })
+    ).resolves.toEqual([])
+
+    await reader.mutation(api.newsletters.deleteUserNewsletter, { userNewsletterId: newsletterId })
+    const remaining = await t.run(async (ctx) => ctx.db.query("highlights").collect())
+    expect(remaining).toEqual([])
+  })
+
+  it("shows highlights on the share page only when shared with highlights", async () => {
+    const t = makeT()
+    await seedUser(t, "reader")
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const newsletterId = await postEmail(t, {})
+    await reader.mutation(api.highlights.createHighlight, {
+      userNewsletterId: newsletterId,
+      ...quote("shared quote"),
+      note: "My take",
+    })
+    await t.run(async (ctx) =>
+      ctx.db.patch("userNewsletters", newsletterId, { shareToken: "token123" })
+    )
+
+    const plain = await t.action(api.share.getNewsletterByShareTokenWithContent, {
+      token: "token123",
+    })
+    expect(plain?.highlights).toBeUndefined()
+
+    await t.run(async (ctx) =>
+      ctx.db.patch("userNewsletters", newsletterId, { shareIncludesHighlights: true })
+    )
+    const withHighlights = await t.action(api.share.getNewsletterByShareTokenWithContent, {
+      token: "token123",
+    })
+    expect(withHighlights?.highlights).toEqual([
+      expect.objectContaining({ text: "shared quote", note: "My take", color: "yellow" }),
+    ])
+    expect(withHighlights?.highlights?.[0]).not.toHaveProperty("userId")
+  })
+})
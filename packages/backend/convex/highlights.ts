@@ -0,0 +1,341 @@
+import { internalQuery, mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server"
+import { v, ConvexError, type Infer } from "convex/values"
+import type { Doc, Id } from "./_generated/dataModel"
+
+/**
+ * Highlights: quotes marked in the reader, with optional margin notes
+ * A highlight is stored as its quote plus surrounding text rather than DOM
+ * offsets, so it can be found again when the newsletter content is reloaded
+ * (see apps/web/src/lib/highlightAnchoring.ts).
+ */
+
+/** Maximum number of highlights on one newsletter */
+export const MAX_HIGHLIGHTS_PER_NEWSLETTER = 200
+
+/** Maximum number of highlights returned by listHighlights */
+export const MAX_HIGHLIGHTS_LISTED = 200
+
+const MAX_HIGHLIGHT_TEXT_LENGTH = 5000
+const MAX_HIGHLIGHT_CONTEXT_LENGTH = 64
+const MAX_NOTE_LENGTH = 2000
+
+export const highlightColorValidator = v.union(
+  v.literal("yellow"),
+  v.literal("green"),
+  v.literal("blue"),
+  v.literal("pink")
+)
+
+type HighlightColor = Infer<typeof highlightColorValidator>
+
+function validateHighlightText(text: string): string {
+  if (!text.trim()) {
+    throw new ConvexError({ code: "VALIDATION_ERROR", message: "Highlight cannot be empty" })
+  }
+  if (text.length > MAX_HIGHLIGHT_TEXT_LENGTH) {
+    throw new ConvexError({
+      code: "VALIDATION_ERROR",
+      message: `Highlights must be ${MAX_HIGHLIGHT_TEXT_LENGTH} characters or less`,
+    })
+  }
+  return text
+}
+
+/**
+ * Validate a note
+ * @returns The trimmed note, or undefined when it's blank
+ */
+function validateNote(note: string | undefined): string | undefined {
+  const trimmedNote = note?.trim()
+  if (!trimmedNote) return undefined
+  if (trimmedNote.length > MAX_NOTE_LENGTH) {
+    throw new ConvexError({
+      code: "VALIDATION_ERROR",
+      message: `Notes must be ${MAX_NOTE_LENGTH} characters or less`,
+    })
+  }
+  return trimmedNote
+}
+
+function buildSearchText(text: string, note: string | undefined): string {
+  return note ? `${text}\n${note}` : text
+}
+
+async function getAuthedUser(ctx: MutationCtx): Promise<Doc<"users">> {
+  const identity = await ctx.auth.getUserIdentity()
+  if (!identity) {
+    throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+  }
+
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+    .first()
+  if (!user) {
+    throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+  }
+  return user
+}
+
+/**
+ * Current user for queries; null when signed out
+ */
+async function getQueryUser(ctx: QueryCtx): Promise<Doc<"users"> | null> {
+  const identity = await ctx.auth.getUserIdentity()
+  if (!identity) return null
+
+  return await ctx.db
+    .query("users")
+    .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+    .first()
+}
+
+/**
+ * Load a highlight owned by the current user (throws otherwise)
+ */
+async function getOwnedHighlight(
+  ctx: MutationCtx,
+  highlightId: Id<"highlights">
+): Promise<Doc<"highlights">> {
+  const user = await getAuthedUser(ctx)
+  const highlight = await ctx.db.get("highlights", highlightId)
+  if (!highlight || highlight.userId !== user._id) {
+    throw new ConvexError({ code: "NOT_FOUND", message: "Highlight not found" })
+  }
+  return highlight
+}
+
+/**
+ * Highlights of a newsletter, in document order
+ */
+async function getNewsletterHighlights(
+  ctx: Pick<QueryCtx, "db">,
+  userNewsletterId: Id<"userNewsletters">
+): Promise<Doc<"highlights">[]> {
+  const highlights = await ctx.db
+    .query("highlights")
+    .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", userNewsletterId))
+    .collect()
+  return highlights.sort((a, b) => a.startOffset - b.startOffset)
+}
+
+/**
+ * Remove all highlights of a newsletter (called when it's deleted)
+ */
+export async function deleteNewsletterHighlights(
+  ctx: Pick<MutationCtx, "db">,
+  userNewsletterId: Id<"userNewsletters">
+): Promise<void> {
+  const highlights = await ctx.db
+    .query("highlights")
+    .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", userNewsletterId))
+    .collect()
+  for (const highlight of highlights) {
+    await ctx.db.delete("highlights", highlight._id)
+  }
+}
+
+/**
+ * Highlight a quote in a newsletter
+ * prefix/suffix are the text right before and after the quote (trimmed to
+ * 64 characters); startOffset is where the quote starts in the document text.
+ */
+export const createHighlight = mutation({
+  args: {
+    userNewsletterId: v.id("userNewsletters"),
+    text: v.string(),
+    prefix: v.string(),
+    suffix: v.string(),
+    startOffset: v.number(),
+    color: v.optional(highlightColorValidator),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthedUser(ctx)
+    const newsletter = await ctx.db.get("userNewsletters", args.userNewsletterId)
+    if (!newsletter) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Newsletter not found" })
+    }
+    if (newsletter.userId !== user._id) {
+      throw new ConvexError({ code: "FORBIDDEN", message: "Access denied" })
+    }
+
+    const text = validateHighlightText(args.text)
+    const note = validateNote(args.note)
+    if (!Number.isInteger(args.startOffset) || args.startOffset < 0) {
+      throw new ConvexError({ code: "VALIDATION_ERROR", message: "Invalid highlight position" })
+    }
+
+    const existing = await getNewsletterHighlights(ctx, newsletter._id)
+    if (existing.length >= MAX_HIGHLIGHTS_PER_NEWSLETTER) {
+      throw new ConvexError({
+        code: "VALIDATION_ERROR",
+        message: `A newsletter can have up to ${MAX_HIGHLIGHTS_PER_NEWSLETTER} highlights`,
+      })
+    }
+
+    const now = Date.now()
+    return await ctx.db.insert("highlights", {
+      userId: user._id,
+      userNewsletterId: newsletter._id,
+      text,
+      prefix: args.prefix.slice(-MAX_HIGHLIGHT_CONTEXT_LENGTH),
+      suffix: args.suffix.slice(0, MAX_HIGHLIGHT_CONTEXT_LENGTH),
+      startOffset: args.startOffset,
+      color: args.color ?? "yellow",
+      note,
+      subject: newsletter.subject,
+      senderEmail: newsletter.senderEmail,
+      senderName: newsletter.senderName,
+      searchText: buildSearchText(text, note),
+      createdAt: now,
+      updatedAt: now,
+    })
+  },
+})
+
+/**
+ * Change the note and/or color of a highlight
+ * An empty note removes it.
+ */
+export const updateHighlight = mutation({
+  args: {
+    highlightId: v.id("highlights"),
+    note: v.optional(v.string()),
+    color: v.optional(highlightColorValidator),
+  },
+  handler: async (ctx, args) => {
+    const highlight = await getOwnedHighlight(ctx, args.highlightId)
+    const note = args.note === undefined ? highlight.note : validateNote(args.note)
+    const color: HighlightColor = args.color ?? highlight.color
+
+    await ctx.db.patch("highlights", highlight._id, {
+      note,
+      color,
+      searchText: buildSearchText(highlight.text, note),
+      updatedAt: Date.now(),
+    })
+  },
+})
+
+export const deleteHighlight = mutation({
+  args: { highlightId: v.id("highlights") },
+  handler: async (ctx, args) => {
+    const highlight = await getOwnedHighlight(ctx, args.highlightId)
+    await ctx.db.delete("highlights", highlight._id)
+  },
+})
+
+/**
+ * Highlights of a single newsletter, for the reader
+ */
+export const listHighlightsForNewsletter = query({
+  args: { userNewsletterId: v.id("userNewsletters") },
+  handler: async (ctx, args) => {
+    const user = await getQueryUser(ctx)
+    if (!user) return []
+
+    const newsletter = await ctx.db.get("userNewsletters", args.userNewsletterId)
+    if (!newsletter || newsletter.userId !== user._id) return []
+
+    return await getNewsletterHighlights(ctx, newsletter._id)
+  },
+})
+
+/**
+ * Highlights across the archive for the Highlights page, newest first
+ * (best match first when searching). Search covers quotes and notes.
+ */
+export const listHighlights = query({
+  args: {
+    search: v.optional(v.string()),
+    color: v.optional(highlightColorValidator),
+    senderEmail: v.optional(v.string()),
+    withNotesOnly: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getQueryUser(ctx)
+    if (!user) return []
+
+    const search = args.search?.trim()
+    if (search) {
+      const matches = await ctx.db
+        .query("highlights")
+        .withSearchIndex("search_text", (q) => {
+          let filtered = q.search("searchText", search).eq("userId", user._id)
+          if (args.color) filtered = filtered.eq("color", args.color)
+          if (args.senderEmail) filtered = filtered.eq("senderEmail", args.senderEmail)
+          return filtered
+        })
+        .take(MAX_HIGHLIGHTS_LISTED)
+      return args.withNotesOnly ? matches.filter((highlight) => highlight.note) : matches
+    }
+
+    return await ctx.db
+      .query("highlights")
+      .withIndex("by_userId_createdAt", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .filter((q) => {
+        const conditions = []
+        if (args.color) conditions.push(q.eq(q.field("color"), args.color))
+        if (args.senderEmail) conditions.push(q.eq(q.field("senderEmail"), args.senderEmail))
+        if (args.withNotesOnly) conditions.push(q.neq(q.field("note"), undefined))
+        return conditions.length > 0 ? q.and(...conditions) : true
+      })
+      .take(MAX_HIGHLIGHTS_LISTED)
+  },
+})
+
+/**
+ * Senders the user has highlighted, for the Highlights page filter
+ */
+export const listHighlightSenders = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getQueryUser(ctx)
+    if (!user) return []
+
+    const highlights = await ctx.db
+      .query("highlights")
+      .withIndex("by_userId_createdAt", (q) => q.eq("userId", user._id))
+      .collect()
+
+    const senders = new Map<string, { senderEmail: string; senderName?: string; count: number }>()
+    for (const highlight of highlights) {
+      const sender = senders.get(highlight.senderEmail)
+      if (sender) {
+        sender.count += 1
+        sender.senderName ??= highlight.senderName
+      } else {
+        senders.set(highlight.senderEmail, {
+          senderEmail: highlight.senderEmail,
+          senderName: highlight.senderName,
+          count: 1,
+        })
+      }
+    }
+    return [...senders.values()].sort((a, b) =>
+      (a.senderName ?? a.senderEmail).localeCompare(b.senderName ?? b.senderEmail)
+    )
+  },
+})
+
+/**
+ * Highlights shown on a public share page (only the anchoring fields, color
+ * and note)
+ */
+export const listSharedHighlightsInternal = internalQuery({
+  args: { userNewsletterId: v.id("userNewsletters") },
+  handler: async (ctx, args) => {
+    const highlights = await getNewsletterHighlights(ctx, args.userNewsletterId)
+    return highlights.map((highlight) => ({
+      _id: highlight._id,
+      text: highlight.text,
+      prefix: highlight.prefix,
+      suffix: highlight.suffix,
+      startOffset: highlight.startOffset,
+      color: highlight.color,
+      note: highlight.note,
+    }))
+  },
+})
@@ -0,0 +1,78 @@
+/**
+ * Lightweight language detection for newsletter bodies
+ *
+ * Counts frequent function words per language; good enough to tell a French
+ * newsletter from an English one, with no model or network call on ingestion.
+ */
+import { v } from "convex/values"
+
+/** Languages rules can filter on (ISO 639-1 codes) */
+export const SUPPORTED_LANGUAGES = ["en", "fr", "es", "de", "it", "pt", "nl"] as const
+
+export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number]
+
+/** Validator for the same codes (AI summaries and translations target these) */
+export const supportedLanguageValidator = v.union(
+  v.literal("en"),
+  v.literal("fr"),
+  v.literal("es"),
+  v.literal("de"),
+  v.literal("it"),
+  v.literal("pt"),
+  v.literal("nl")
+)
+
+/** English names, for prompts */
+export const LANGUAGE_NAMES: Record<SupportedLanguage, string> = {
+  en: "English",
+  fr: "French",
+  es: "Spanish",
+  de: "German",
+  it: "Italian",
+  pt: "Portuguese",
+  nl: "Dutch",
+}
+
+const STOPWORDS: Record<SupportedLanguage, string[]> = {
+  en: ["the", "and", "of", "to", "is", "in", "that", "for", "with", "this", "you", "are", "was", "it"],
+  fr: ["le", "la", "les", "et", "des", "est", "une", "pour", "dans", "que", "qui", "pas", "sur", "avec"],
+  es: ["el", "la", "los", "las", "y", "que", "es", "una", "para", "por", "con", "del", "como", "pero"],
+  de: ["der", "die", "das", "und", "ist", "nicht", "ein", "eine", "mit", "auf", "für", "den", "sich", "auch"],
+  it: ["il", "di", "che", "è", "e", "la", "per", "una", "non", "sono", "della", "con", "gli", "anche"],
+  pt: ["o", "os", "que", "não", "uma", "para", "com", "por", "mais", "como", "mas", "foi", "ao", "das"],
+  nl: ["de", "het", "een", "en", "van", "is", "dat", "niet", "op", "voor", "met", "zijn", "ook", "maar"],
+}
+
+/** Sample size; the start of a body is plenty to tell languages apart */
+const MAX_SAMPLE_LENGTH = 5000
+
+/** Minimum stopword hits before trusting a guess */
+const MIN_MATCHES = 5
+
+/**
+ * Detect the main language of a text
+ * @returns An ISO 639-1 code, or undefined when the text is too short or ambiguous
+ */
+export function detectLanguage(text: string): SupportedLanguage | undefined {
+  const words = text.slice(0, MAX_SAMPLE_LENGTH).toLowerCase().match(/\p{L}+/gu)
+  if (!words) return undefined
+
+  let best: SupportedLanguage | undefined
+  let bestScore = 0
+  let runnerUpScore = 0
+  for (const language of SUPPORTED_LANGUAGES) {
+    const stopwords = new Set(STOPWORDS[language])
+    const score = words.filter((word) => stopwords.has(word)).length
+    if (score > bestScore) {
+      runnerUpScore = bestScore
+      bestScore = score
+      best = language
+    } else if (score > runnerUpScore) {
+      runnerUpScore = score
+    }
+  }
+
+  // Require a clear winner: closely related languages share many short words
+  if (bestScore < MIN_MATCHES || bestScore < runnerUpScore * 1.2) return undefined
+  return best
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest"
+import {
+  buildDigestPrompt,
+  getDigestPeriodStart,
+  groupDigestSources,
+  isDigestDue,
+  MAX_DIGEST_INPUT_LENGTH,
+} from "./digest"
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+const NOW = 100 * DAY
+
+function source(subject: string, folderName: string, text = `${subject} body`) {
+  return { subject, folderName, text, senderEmail: "news@example.com" }
+}
+
+describe("isDigestDue", () => {
+  it("is due right away the first time", () => {
+    expect(isDigestDue("weekly", undefined, NOW)).toBe(true)
+  })
+
+  it("waits for the period, allowing for the cron running a little early", () => {
+    expect(isDigestDue("daily", NOW - DAY + 10 * 60 * 1000, NOW)).toBe(true)
+    expect(isDigestDue("daily", NOW - 20 * HOUR, NOW)).toBe(false)
+    expect(isDigestDue("weekly", NOW - 2 * DAY, NOW)).toBe(false)
+    expect(isDigestDue("weekly", NOW - 7 * DAY, NOW)).toBe(true)
+  })
+})
+
+describe("getDigestPeriodStart", () => {
+  it("starts one period back the first time", () => {
+    expect(getDigestPeriodStart("weekly", undefined, NOW)).toBe(NOW - 7 * DAY)
+  })
+
+  it("starts at the previous digest, but never more than a period back", () => {
+    expect(getDigestPeriodStart("daily", NOW - DAY - 20 * 60 * 1000, NOW)).toBe(
+      NOW - DAY - 20 * 60 * 1000
+    )
+    expect(getDigestPeriodStart("daily", NOW - 90 * DAY, NOW)).toBe(NOW - DAY - HOUR)
+    expect(getDigestPeriodStart("weekly", NOW - 90 * DAY, NOW)).toBe(NOW - 7 * DAY - HOUR)
+  })
+})
+
+describe("groupDigestSources", () => {
+  it("groups by folder name and numbers newsletters in reading order", () => {
+    const sections = groupDigestSources([
+      source("Rates", "Tech"),
+      source("Recipes", "Food"),
+      source("Chips", "Tech"),
+    ])
+
+    expect(
+      sections.map((section) => [
+        section.folderName,
+        section.newsletters.map((newsletter) => `${newsletter.ref}:${newsletter.subject}`),
+      ])
+    ).toEqual([
+      ["Food", ["1:Recipes"]],
+      ["Tech", ["2:Rates", "3:Chips"]],
+    ])
+  })
+})
+
+describe("buildDigestPrompt", () => {
+  it("lists numbered newsletters under their folder", () => {
+    const prompt = buildDigestPrompt(
+      groupDigestSources([
+        { ...source("Rates", "Finance", "Rates   rose\nagain"), senderName: "Money Weekly" },
+      ]),
+      "daily"
+    )
+
+    expect(prompt).toContain("1 newsletters that arrived in the last day")
+    expect(prompt).toContain('## Finance\n\n[1] "Rates" from Money Weekly\nRates rose again')
+  })
+
+  it("shares the input budget between newsletters", () => {
+    const long = "x".repeat(MAX_DIGEST_INPUT_LENGTH)
+    const sources = Array.from({ length: 20 }, (_, index) => source(`Issue ${index}`, "Inbox", long))
+    const prompt = buildDigestPrompt(groupDigestSources(sources), "weekly")
+
+    expect(prompt.length).toBeLessThan(MAX_DIGEST_INPUT_LENGTH + 2000)
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * AI digests
+ *
+ * A digest covers everything that arrived since the previous one, grouped by
+ * folder. The model gets one numbered entry per newsletter and cites them as
+ * [n]; the stored sections map those numbers back to the newsletters so the
+ * app can link to each one.
+ */
+import { v, type Infer } from "convex/values"
+
+export const digestFrequencyValidator = v.union(v.literal("daily"), v.literal("weekly"))
+
+export type DigestFrequency = Infer<typeof digestFrequencyValidator>
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export const DIGEST_PERIOD_MS: Record<DigestFrequency, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+}
+
+/**
+ * The cron runs hourly and a digest's period ends a little after the run
+ * started, so "due" allows for some slack instead of slipping an hour a day
+ */
+const DUE_TOLERANCE_MS = HOUR_MS / 2
+
+/** Maximum number of newsletters in one digest (the most recent are kept) */
+export const MAX_DIGEST_NEWSLETTERS = 40
+
+/** Characters of newsletter text sent to the model, shared by all entries */
+export const MAX_DIGEST_INPUT_LENGTH = 24_000
+
+/** Characters sent for a single newsletter, however few there are */
+const MAX_DIGEST_ENTRY_LENGTH = 3000
+
+/** What the prompt needs to know about one newsletter */
+export type DigestSource = {
+  subject: string
+  senderEmail: string
+  senderName?: string
+  folderName: string
+  /** Summary when there is one, otherwise the plain-text body */
+  text: string
+}
+
+export type DigestSourceSection<T extends DigestSource> = {
+  folderName: string
+  /** Newsletters numbered across the whole digest, starting at 1 */
+  newsletters: Array<T & { ref: number }>
+}
+
+/**
+ * Whether a digest is due for a user (the first one is due right away)
+ */
+export function isDigestDue(
+  frequency: DigestFrequency,
+  lastDigestAt: number | undefined,
+  now: number
+): boolean {
+  if (lastDigestAt === undefined) return true
+  return now - lastDigestAt >= DIGEST_PERIOD_MS[frequency] - DUE_TOLERANCE_MS
+}
+
+/**
+ * Start of a digest ending at `until`: the previous digest, but never more
+ * than one period back (plus an hour for the cron running late), so a digest
+ * that couldn't run for a while doesn't brief months of mail at once
+ */
+export function getDigestPeriodStart(
+  frequency: DigestFrequency,
+  lastDigestAt: number | undefined,
+  until: number
+): number {
+  const earliest = until - DIGEST_PERIOD_MS[frequency]
+  if (lastDigestAt === undefined) return earliest
+  return Math.max(lastDigestAt, earliest - HOUR_MS)
+}
+
+/**
+ * Group newsletters by folder (folders sorted by name, newsletters kept in
+ * the given order) and number them in reading order
+ */
+export function groupDigestSources<T extends DigestSource>(
+  sources: T[]
+): DigestSourceSection<T>[] {
+  const byFolder = new Map<string, T[]>()
+  for (const source of sources) {
+    const newsletters = byFolder.get(source.folderName) ?? []
+    newsletters.push(source)
+    byFolder.set(source.folderName, newsletters)
+  }
+
+  let ref = 0
+  return [...byFolder.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([folderName, newsletters]) => ({
+      folderName,
+      newsletters: newsletters.map((newsletter) => ({ ...newsletter, ref: ++ref })),
+    }))
+}
+
+/**
+ * User prompt listing every newsletter under its folder heading
+ */
+export function buildDigestPrompt<T extends DigestSource>(
+  sections: DigestSourceSection<T>[],
+  frequency: DigestFrequency
+): string {
+  const newsletterCount = sections.reduce((sum, section) => sum + section.newsletters.length, 0)
+  const entryLength = Math.min(
+    MAX_DIGEST_ENTRY_LENGTH,
+    Math.floor(MAX_DIGEST_INPUT_LENGTH / Math.max(newsletterCount, 1))
+  )
+
+  const blocks = sections.map((section) => {
+    const entries = section.newsletters.map((newsletter) => {
+      const sender = newsletter.senderName || newsletter.senderEmail
+      const text = newsletter.text.replace(/\s+/g, " ").trim().slice(0, entryLength)
+      return `[${newsletter.ref}] "${newsletter.subject}" from ${sender}\n${text}`
+    })
+    return `## ${section.folderName}\n\n${entries.join("\n\n")}`
+  })
+
+  const period = frequency === "daily" ? "the last day" : "the last week"
+  return `Write a briefing of the ${newsletterCount} newsletters that arrived in ${period}:\n\n${blocks.join("\n\n")}`
+}
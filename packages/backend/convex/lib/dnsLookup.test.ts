@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest"
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { lookupTxtRecords, parseTxtData } from "./dnsLookup"
+
+describe("parseTxtData", () => {
+  it("joins quoted chunks", () => {
+    expect(parseTxtData('"v=spf1 include:a.example.com " "-all"')).toBe(
+      "v=spf1 include:a.example.com -all"
+    )
+  })
+
+  it("unescapes quotes inside a chunk", () => {
+    expect(parseTxtData('"say \\"hi\\""')).toBe('say "hi"')
+  })
+
+  it("returns unquoted data as is", () => {
+    expect(parseTxtData("hushletter-verify=abc")).toBe("hushletter-verify=abc")
+  })
+})
+
+describe("lookupTxtRecords (local stub resolver)", () => {
+  const requests: { url?: string; accept?: string }[] = []
+  let server: Server
+  let resolverUrl: string
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      requests.push({ url: request.url, accept: request.headers.accept })
+      const name = new URL(request.url ?? "/", "http://localhost").searchParams.get("name")
+
+      const json = (body: unknown) =>
+        response.writeHead(200, { "Content-Type": "application/dns-json" }).end(JSON.stringify(body))
+      if (name === "_hushletter.example.com") {
+        json({
+          Status: 0,
+          Answer: [
+            { name: "_hushletter.example.com", type: 16, data: '"hushletter-verify=abc"' },
+            { name: "_hushletter.example.com", type: 5, data: "alias.example.com." },
+          ],
+        })
+      } else if (name === "missing.example.com") {
+        json({ Status: 3 })
+      } else if (name === "broken.example.com") {
+        json({ Status: 2 })
+      } else if (name === "slow.example.com") {
+        setTimeout(() => json({ Status: 0 }), 500)
+      } else {
+        response.writeHead(500).end()
+      }
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    resolverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/dns-query`
+  })
+
+  afterAll(async () => {
+    server.closeAllConnections()
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+  })
+
+  it("returns only the TXT answers", async () => {
+    const result = await lookupTxtRecords("_hushletter.example.com", { resolverUrl })
+
+    expect(result).toEqual({ ok: true, records: ["hushletter-verify=abc"] })
+    expect(requests[0]).toMatchObject({
+      url: "/dns-query?name=_hushletter.example.com&type=TXT",
+      accept: "application/dns-json",
+    })
+  })
+
+  it("treats a name that doesn't exist as having no records", async () => {
+    const result = await lookupTxtRecords("missing.example.com", { resolverUrl })
+    expect(result).toEqual({ ok: true, records: [] })
+  })
+
+  it("reports resolver errors as failures", async () => {
+    expect(await lookupTxtRecords("broken.example.com", { resolverUrl })).toEqual({
+      ok: false,
+      error: "DNS lookup failed (status 2)",
+    })
+    expect(await lookupTxtRecords("other.example.com", { resolverUrl })).toEqual({
+      ok: false,
+      error: "DNS resolver responded with HTTP 500",
+    })
+  })
+
+  it("reports a timeout as a failure", async () => {
+    const result = await lookupTxtRecords("slow.example.com", { resolverUrl, timeout: 50 })
+    expect(result).toEqual({ ok: false, error: "DNS resolver did not respond in time" })
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * DNS lookups over HTTPS (RFC 8484 JSON API)
+ *
+ * Convex functions can't open raw DNS sockets, so TXT records are resolved
+ * through a public DNS-over-HTTPS resolver instead.
+ */
+
+/** Public resolver used unless one is passed in (tests use a local server) */
+const DEFAULT_RESOLVER_URL = "https://cloudflare-dns.com/dns-query"
+
+/** Default timeout for a lookup */
+const DEFAULT_TIMEOUT_MS = 5_000
+
+/** DNS record type number for TXT */
+const TXT_RECORD_TYPE = 16
+
+/** DNS response codes (RCODE) */
+const RCODE_NOERROR = 0
+const RCODE_NXDOMAIN = 3
+
+export type TxtLookupResult = { ok: true; records: string[] } | { ok: false; error: string }
+
+export interface DnsLookupOptions {
+  resolverUrl?: string
+  timeout?: number
+}
+
+/**
+ * Decode the "data" of a TXT answer
+ * Resolvers return the record as quoted character-strings, long records
+ * split in several chunks: "v=spf1 include:a.com " "-all"
+ */
+export function parseTxtData(data: string): string {
+  const chunks = data.match(/"((?:[^"\\]|\\.)*)"/g)
+  if (!chunks) return data
+  return chunks.map((chunk) => chunk.slice(1, -1).replace(/\\(.)/g, "$1")).join("")
+}
+
+/**
+ * Resolve the TXT records of a name
+ * A name without records (or that doesn't exist) resolves to an empty list;
+ * only resolver failures are errors.
+ */
+export async function lookupTxtRecords(
+  name: string,
+  options: DnsLookupOptions = {}
+): Promise<TxtLookupResult> {
+  const url = new URL(options.resolverUrl ?? DEFAULT_RESOLVER_URL)
+  url.searchParams.set("name", name)
+  url.searchParams.set("type", "TXT")
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), options.timeout ?? DEFAULT_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: "application/dns-json" },
+      signal: controller.signal,
+    })
+    if (!response.ok) {
+      return { ok: false, error: `DNS resolver responded with HTTP ${response.status}` }
+    }
+
+    const body = (await response.json()) as {
+      Status?: number
+      Answer?: { type: number; data: string }[]
+    }
+    if (body.Status === RCODE_NXDOMAIN) return { ok: true, records: [] }
+    if (body.Status !== RCODE_NOERROR) {
+      return { ok: false, error: `DNS lookup failed (status ${body.Status})` }
+    }
+
+    const records = (body.Answer ?? [])
+      .filter((answer) => answer.type === TXT_RECORD_TYPE)
+      .map((answer) => parseTxtData(answer.data))
+    return { ok: true, records }
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      return { ok: false, error: "DNS resolver did not respond in time" }
+    }
+    return { ok: false, error: error instanceof Error ? error.message : "DNS lookup failed" }
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
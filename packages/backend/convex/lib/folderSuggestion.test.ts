@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest"
+import { buildFolderSuggestionPrompt, parseFolderSuggestion } from "./folderSuggestion"
+
+describe("buildFolderSuggestionPrompt", () => {
+  it("lists the sender's issues, the folders and tags, and past choices", () => {
+    const prompt = buildFolderSuggestionPrompt({
+      senderEmail: "hello@chips.example.com",
+      senderName: "Chip Letter",
+      issues: [{ subject: "New fabs", text: "TSMC   opened\n\na fab." }],
+      folderNames: ["Tech", "Food"],
+      tagNames: [],
+      examples: [
+        {
+          senderEmail: "ai@example.com",
+          subjects: ["Models", "Agents"],
+          folderName: "Tech",
+        },
+      ],
+    })
+
+    expect(prompt).toContain("New sender: Chip Letter <hello@chips.example.com>")
+    expect(prompt).toContain("Subject: New fabs\nTSMC opened a fab.")
+    expect(prompt).toContain("Folders:\n- Tech\n- Food")
+    expect(prompt).toContain("Tags:\n(none)")
+    expect(prompt).toContain('- ai@example.com ("Models", "Agents") → Tech')
+  })
+
+  it("leaves the examples out until the reader accepted a suggestion", () => {
+    const prompt = buildFolderSuggestionPrompt({
+      senderEmail: "a@example.com",
+      issues: [{ subject: "Hi", text: "" }],
+      folderNames: [],
+      tagNames: [],
+      examples: [],
+    })
+
+    expect(prompt).not.toContain("How the reader sorted")
+  })
+})
+
+describe("parseFolderSuggestion", () => {
+  const folders = ["Tech", "Personal Finance"]
+  const tags = ["Must read"]
+
+  it("matches existing folders and tags case-insensitively", () => {
+    expect(
+      parseFolderSuggestion('{"folder": "tech", "tag": "must READ"}', folders, tags)
+    ).toEqual({ folderName: "Tech", isNewFolder: false, tagName: "Must read" })
+  })
+
+  it("treats unknown folders as new and drops unknown tags", () => {
+    expect(
+      parseFolderSuggestion('Sure! {"folder": " Cooking ", "tag": "Recipes"}', folders, tags)
+    ).toEqual({ folderName: "Cooking", isNewFolder: true })
+  })
+
+  it("returns null for answers without a folder", () => {
+    expect(parseFolderSuggestion("I don't know", folders, tags)).toBeNull()
+    expect(parseFolderSuggestion('{"folder": ""}', folders, tags)).toBeNull()
+    expect(parseFolderSuggestion("{folder: Tech}", folders, tags)).toBeNull()
+  })
+})
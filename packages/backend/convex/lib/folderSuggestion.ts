@@ -0,0 +1,132 @@
+/**
+ * AI folder suggestions for new senders
+ *
+ * Every new sender gets a folder named after it. When the user opted in, the
+ * model reads the sender's first issues and proposes one of the user's
+ * existing folders (or a new topical one) and optionally a tag. Suggestions
+ * the user accepted earlier are sent along as examples of how they sort.
+ */
+
+/** Issues of a sender the model reads (its first ones) */
+export const SUGGESTION_NEWSLETTER_COUNT = 3
+
+/** Accepted suggestions sent as examples, most recent first */
+export const MAX_SUGGESTION_EXAMPLES = 10
+
+/** Characters of body text sent per issue */
+const MAX_SUGGESTION_TEXT_LENGTH = 600
+
+/** Folders/tags listed in the prompt (the model can't pick others anyway) */
+const MAX_SUGGESTION_OPTIONS = 100
+
+export type FolderSuggestionIssue = {
+  subject: string
+  /** Plain-text body */
+  text: string
+}
+
+export type FolderSuggestionExample = {
+  senderEmail: string
+  senderName?: string
+  subjects: string[]
+  folderName: string
+}
+
+export type FolderSuggestionInput = {
+  senderEmail: string
+  senderName?: string
+  issues: FolderSuggestionIssue[]
+  /** The user's folders, except the one created for this sender */
+  folderNames: string[]
+  tagNames: string[]
+  examples: FolderSuggestionExample[]
+}
+
+/** A parsed answer: an existing folder or a new one, plus an optional tag */
+export type ParsedFolderSuggestion = {
+  folderName: string
+  isNewFolder: boolean
+  tagName?: string
+}
+
+export const FOLDER_SUGGESTION_SYSTEM_PROMPT = `You sort a reader's newsletter subscriptions into folders.
+
+You get a new sender with its first issues, the reader's folders and tags, and examples of how the reader sorted other senders.
+
+Pick the existing folder that fits the sender's topic best. Only when none fits, propose a short topical folder name (1-3 words, like "Tech" or "Personal Finance"), never the sender's own name. Pick an existing tag only if one clearly applies.
+
+Answer with JSON only, no other text:
+{"folder": "<folder name>", "tag": "<tag name or empty>"}`
+
+function formatSender(sender: { senderEmail: string; senderName?: string }): string {
+  return sender.senderName ? `${sender.senderName} <${sender.senderEmail}>` : sender.senderEmail
+}
+
+function formatList(names: string[]): string {
+  return names.length === 0
+    ? "(none)"
+    : names
+        .slice(0, MAX_SUGGESTION_OPTIONS)
+        .map((name) => `- ${name}`)
+        .join("\n")
+}
+
+/**
+ * User prompt describing the sender, the reader's folders/tags and examples
+ */
+export function buildFolderSuggestionPrompt(input: FolderSuggestionInput): string {
+  const issues = input.issues.map((issue) => {
+    const text = issue.text.replace(/\s+/g, " ").trim().slice(0, MAX_SUGGESTION_TEXT_LENGTH)
+    return `Subject: ${issue.subject}\n${text}`
+  })
+  const examples = input.examples.map(
+    (example) =>
+      `- ${formatSender(example)} (${example.subjects.map((s) => `"${s}"`).join(", ")}) → ${example.folderName}`
+  )
+
+  return [
+    `New sender: ${formatSender(input)}`,
+    `Its first issues:\n\n${issues.join("\n\n")}`,
+    `Folders:\n${formatList(input.folderNames)}`,
+    `Tags:\n${formatList(input.tagNames)}`,
+    ...(examples.length > 0 ? [`How the reader sorted other senders:\n${examples.join("\n")}`] : []),
+  ].join("\n\n")
+}
+
+/**
+ * Read the model's JSON answer, matching names case-insensitively against
+ * the folders/tags that exist
+ * @returns The suggestion, or null when the answer is unusable
+ */
+export function parseFolderSuggestion(
+  response: string,
+  folderNames: string[],
+  tagNames: string[]
+): ParsedFolderSuggestion | null {
+  const match = response.match(/\{[\s\S]*\}/)
+  if (!match) return null
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(match[0])
+  } catch {
+    return null
+  }
+  if (typeof parsed !== "object" || parsed === null) return null
+
+  const answer = parsed as { folder?: unknown; tag?: unknown }
+  const folder = typeof answer.folder === "string" ? answer.folder.trim() : ""
+  if (!folder) return null
+
+  const findName = (names: string[], name: string) =>
+    names.find((candidate) => candidate.toLowerCase() === name.toLowerCase())
+
+  const existingFolder = findName(folderNames, folder)
+  const tag = typeof answer.tag === "string" ? findName(tagNames, answer.tag.trim()) : undefined
+
+  return {
+    folderName: existingFolder ?? folder,
+    isNewFolder: existingFolder === undefined,
+    ...(tag ? { tagName: tag } : {}),
+  }
+}
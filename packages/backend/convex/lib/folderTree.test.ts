@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest"
+import type { Id } from "../_generated/dataModel"
+import {
+  getAncestorIds,
+  getDescendantIds,
+  getFolderDepth,
+  getSubtreeHeight,
+  rollUpFolderCounts,
+} from "./folderTree"
+
+const id = (value: string) => value as Id<"folders">
+
+// tech › ai › research, tech › news, cooking
+const folders = [
+  { _id: id("tech") },
+  { _id: id("ai"), parentId: id("tech") },
+  { _id: id("research"), parentId: id("ai") },
+  { _id: id("news"), parentId: id("tech") },
+  { _id: id("cooking") },
+  { _id: id("orphan"), parentId: id("deleted") },
+]
+
+describe("folderTree", () => {
+  it("walks descendants and ancestors", () => {
+    expect(getDescendantIds(folders, id("tech"))).toEqual(["ai", "news", "research"])
+    expect(getDescendantIds(folders, id("cooking"))).toEqual([])
+    expect(getAncestorIds(folders, id("research"))).toEqual(["ai", "tech"])
+    expect(getAncestorIds(folders, id("orphan"))).toEqual([])
+  })
+
+  it("measures depth and subtree height", () => {
+    expect(getFolderDepth(folders, id("tech"))).toBe(1)
+    expect(getFolderDepth(folders, id("research"))).toBe(3)
+    expect(getFolderDepth(folders, id("orphan"))).toBe(1)
+    expect(getSubtreeHeight(folders, id("tech"))).toBe(3)
+    expect(getSubtreeHeight(folders, id("news"))).toBe(1)
+  })
+
+  it("survives corrupt parent cycles", () => {
+    const cyclic = [
+      { _id: id("a"), parentId: id("b") },
+      { _id: id("b"), parentId: id("a") },
+    ]
+    expect(getDescendantIds(cyclic, id("a"))).toEqual(["b"])
+    expect(getAncestorIds(cyclic, id("a"))).toEqual(["b"])
+  })
+
+  it("rolls counts up to every ancestor", () => {
+    const totals = rollUpFolderCounts(
+      folders,
+      new Map([
+        [id("research"), { newsletterCount: 4, unreadCount: 2 }],
+        [id("news"), { newsletterCount: 3, unreadCount: 1 }],
+        [id("tech"), { newsletterCount: 1, unreadCount: 0 }],
+      ])
+    )
+    expect(totals.get(id("tech"))).toEqual({ newsletterCount: 8, unreadCount: 3 })
+    expect(totals.get(id("ai"))).toEqual({ newsletterCount: 4, unreadCount: 2 })
+    expect(totals.get(id("cooking"))).toEqual({ newsletterCount: 0, unreadCount: 0 })
+  })
+})
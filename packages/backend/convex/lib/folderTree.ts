@@ -0,0 +1,109 @@
+/**
+ * Folder hierarchy helpers
+ *
+ * Folders nest through an optional `parentId`. Every function takes the
+ * user's folders as a flat list (one by_userId read) and works in memory.
+ * A `parentId` that points outside the list is treated as a root.
+ */
+import type { Id } from "../_generated/dataModel"
+
+/** Maximum nesting depth; a top-level folder has depth 1 */
+export const MAX_FOLDER_DEPTH = 5
+
+type TreeFolder = {
+  _id: Id<"folders">
+  parentId?: Id<"folders">
+}
+
+function getChildrenByParent<T extends TreeFolder>(folders: T[]): Map<Id<"folders">, T[]> {
+  const ids = new Set(folders.map((folder) => folder._id))
+  const childrenByParent = new Map<Id<"folders">, T[]>()
+  for (const folder of folders) {
+    if (!folder.parentId || !ids.has(folder.parentId)) continue
+    const siblings = childrenByParent.get(folder.parentId) ?? []
+    siblings.push(folder)
+    childrenByParent.set(folder.parentId, siblings)
+  }
+  return childrenByParent
+}
+
+/**
+ * Every folder below `folderId` (not including it), parents before children
+ */
+export function getDescendantIds(
+  folders: TreeFolder[],
+  folderId: Id<"folders">
+): Id<"folders">[] {
+  const childrenByParent = getChildrenByParent(folders)
+  const descendants: Id<"folders">[] = []
+  const queue = [folderId]
+  while (queue.length > 0) {
+    const children = childrenByParent.get(queue.shift()!) ?? []
+    for (const child of children) {
+      // Guard against corrupt cycles
+      if (child._id === folderId || descendants.includes(child._id)) continue
+      descendants.push(child._id)
+      queue.push(child._id)
+    }
+  }
+  return descendants
+}
+
+/**
+ * Folders above `folderId`, closest parent first
+ */
+export function getAncestorIds(
+  folders: TreeFolder[],
+  folderId: Id<"folders">
+): Id<"folders">[] {
+  const byId = new Map(folders.map((folder) => [folder._id, folder]))
+  const ancestors: Id<"folders">[] = []
+  let parentId = byId.get(folderId)?.parentId
+  while (parentId && byId.has(parentId) && parentId !== folderId && !ancestors.includes(parentId)) {
+    ancestors.push(parentId)
+    parentId = byId.get(parentId)?.parentId
+  }
+  return ancestors
+}
+
+/**
+ * Depth of a folder (1 for a top-level folder)
+ */
+export function getFolderDepth(folders: TreeFolder[], folderId: Id<"folders">): number {
+  return getAncestorIds(folders, folderId).length + 1
+}
+
+/**
+ * Number of levels in the subtree rooted at `folderId` (1 for a leaf)
+ */
+export function getSubtreeHeight(folders: TreeFolder[], folderId: Id<"folders">): number {
+  const depth = getFolderDepth(folders, folderId)
+  let height = 1
+  for (const descendantId of getDescendantIds(folders, folderId)) {
+    height = Math.max(height, getFolderDepth(folders, descendantId) - depth + 1)
+  }
+  return height
+}
+
+/**
+ * Add each folder's descendants' counts to its own
+ * @param counts - Direct counts by folder id
+ * @returns Rolled-up counts by folder id (folders missing from `counts` count as 0)
+ */
+export function rollUpFolderCounts(
+  folders: TreeFolder[],
+  counts: Map<Id<"folders">, { newsletterCount: number; unreadCount: number }>
+): Map<Id<"folders">, { newsletterCount: number; unreadCount: number }> {
+  const totals = new Map<Id<"folders">, { newsletterCount: number; unreadCount: number }>()
+  for (const folder of folders) {
+    const total = { ...(counts.get(folder._id) ?? { newsletterCount: 0, unreadCount: 0 }) }
+    for (const descendantId of getDescendantIds(folders, folder._id)) {
+      const descendant = counts.get(descendantId)
+      if (!descendant) continue
+      total.newsletterCount += descendant.newsletterCount
+      total.unreadCount += descendant.unreadCount
+    }
+    totals.set(folder._id, total)
+  }
+  return totals
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest"
+import {
+  applyTranslations,
+  batchSegments,
+  buildTranslationPrompt,
+  extractTextSegments,
+  MAX_TRANSLATION_TEXT_LENGTH,
+  parseTranslatedLines,
+} from "./htmlTranslation"
+
+describe("extractTextSegments", () => {
+  it("picks out visible text, skipping the head, scripts and styles", () => {
+    const { segments } = extractTextSegments(
+      "<html><head><title>Hi</title><style>p { color: red }</style></head>" +
+        '<body><p>Bonjour &amp; bienvenue</p><img src="a.png" alt="x"><script>var a</script>' +
+        '<a href="https://example.com">Lire la suite</a> <span>&nbsp;2024 </span></body></html>'
+    )
+
+    expect(segments.map((segment) => segment.text)).toEqual([
+      "Bonjour & bienvenue",
+      "Lire la suite",
+    ])
+  })
+})
+
+describe("applyTranslations", () => {
+  it("replaces text in place, keeping tags, whitespace and untranslated text", () => {
+    const extracted = extractTextSegments(
+      '<p>\n  Bonjour\n</p><a href="https://example.com?a=1&b=2">Lire</a><em>Merci</em>'
+    )
+
+    const html = applyTranslations(
+      extracted,
+      new Map([
+        [0, "Hello"],
+        [1, "Read <more> & more"],
+      ])
+    )
+
+    expect(html).toBe(
+      '<p>\n  Hello\n</p><a href="https://example.com?a=1&b=2">Read &lt;more&gt; &amp; more</a><em>Merci</em>'
+    )
+  })
+})
+
+describe("batchSegments", () => {
+  it("groups segments up to the batch length", () => {
+    const segments = ["aaaa", "bbbb", "cccc"].map((text, partIndex) => ({ partIndex, text }))
+
+    expect(batchSegments(segments, 8)).toEqual([[0, 1], [2]])
+  })
+
+  it("stops at the per-newsletter text limit", () => {
+    const text = "a".repeat(MAX_TRANSLATION_TEXT_LENGTH / 2)
+    const segments = [text, text, "overflow"].map((t, partIndex) => ({ partIndex, text: t }))
+
+    expect(batchSegments(segments).flat()).toEqual([0, 1])
+  })
+})
+
+describe("translation lines", () => {
+  it("numbers the lines and parses the answers back", () => {
+    const segments = ["Bonjour", "Merci", "Au revoir"].map((text, partIndex) => ({
+      partIndex,
+      text,
+    }))
+
+    expect(buildTranslationPrompt(segments, [1, 2])).toBe("[1] Merci\n[2] Au revoir")
+    expect(
+      parseTranslatedLines("Sure:\n[1]\n[2]   Goodbye \n[7] Extra", [1, 2])
+    ).toEqual(
+      new Map([[2, "Goodbye"]])
+    )
+  })
+})
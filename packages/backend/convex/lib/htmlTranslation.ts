@@ -0,0 +1,153 @@
+/**
+ * Newsletter translation
+ *
+ * Only the text between tags is translated: the HTML is split into tags and
+ * text, the visible text goes to the model as numbered lines, and the answers
+ * are put back in place. Layout, links and images are never sent, so they
+ * come back untouched.
+ */
+import { stripHtmlToText } from "../ai"
+import { LANGUAGE_NAMES, type SupportedLanguage } from "./detectLanguage"
+
+/** Characters of text sent in one completion (the answer is about as long) */
+export const MAX_TRANSLATION_BATCH_LENGTH = 6000
+
+/** Characters translated per newsletter; text past it stays in the original */
+export const MAX_TRANSLATION_TEXT_LENGTH = 36_000
+
+/** Elements whose text is never shown */
+const HIDDEN_ELEMENTS = ["head", "script", "style", "noscript", "template"]
+
+export type HtmlSegments = {
+  /** Tags and text, in document order */
+  parts: string[]
+  /** Translatable text: which part it came from, and its plain text */
+  segments: Array<{ partIndex: number; text: string }>
+}
+
+/**
+ * Split HTML into tags and text, picking out the visible text worth translating
+ */
+export function extractTextSegments(html: string): HtmlSegments {
+  const parts = html.split(/(<!--[\s\S]*?-->|<[^>]*>)/)
+  const segments: HtmlSegments["segments"] = []
+  let hiddenUntil: string | null = null
+
+  parts.forEach((part, partIndex) => {
+    if (partIndex % 2 === 1) {
+      const tag = part.match(/^<(\/?)([a-zA-Z][a-zA-Z0-9-]*)/)
+      if (!tag) return
+      const [, closing, rawName] = tag
+      const name = rawName.toLowerCase()
+      if (hiddenUntil) {
+        if (closing && name === hiddenUntil) hiddenUntil = null
+      } else if (!closing && HIDDEN_ELEMENTS.includes(name) && !part.endsWith("/>")) {
+        hiddenUntil = name
+      }
+      return
+    }
+
+    if (hiddenUntil) return
+    const text = stripHtmlToText(part)
+    if (/\p{L}/u.test(text)) {
+      segments.push({ partIndex, text })
+    }
+  })
+
+  return { parts, segments }
+}
+
+/**
+ * Put translated text back in place of the original segments
+ * Whitespace around each segment is kept; missing translations keep the original.
+ */
+export function applyTranslations(
+  { parts, segments }: HtmlSegments,
+  translations: Map<number, string>
+): string {
+  const result = [...parts]
+  segments.forEach((segment, index) => {
+    const translation = translations.get(index)
+    if (!translation) return
+    const part = parts[segment.partIndex]
+    const leading = part.match(/^\s*/)?.[0] ?? ""
+    const trailing = part.match(/\s*$/)?.[0] ?? ""
+    result[segment.partIndex] = `${leading}${escapeHtmlText(translation)}${trailing}`
+  })
+  return result.join("")
+}
+
+/**
+ * Group segment indexes into batches of at most maxLength characters,
+ * stopping once MAX_TRANSLATION_TEXT_LENGTH characters are covered
+ */
+export function batchSegments(
+  segments: HtmlSegments["segments"],
+  maxLength: number = MAX_TRANSLATION_BATCH_LENGTH
+): number[][] {
+  const batches: number[][] = []
+  let current: number[] = []
+  let currentLength = 0
+  let totalLength = 0
+
+  for (let index = 0; index < segments.length; index++) {
+    const length = segments[index].text.length
+    if (totalLength + length > MAX_TRANSLATION_TEXT_LENGTH) break
+    if (current.length > 0 && currentLength + length > maxLength) {
+      batches.push(current)
+      current = []
+      currentLength = 0
+    }
+    current.push(index)
+    currentLength += length
+    totalLength += length
+  }
+  if (current.length > 0) batches.push(current)
+
+  return batches
+}
+
+/**
+ * System prompt for translating numbered lines into a language
+ */
+export function buildTranslationSystemPrompt(language: SupportedLanguage): string {
+  return `You translate the text of a newsletter into ${LANGUAGE_NAMES[language]}.
+
+You get numbered lines like "[3] Hello". Answer with every line translated, keeping its number, one per line:
+[3] Bonjour
+
+Rules:
+- Keep names, brands, URLs, code, numbers and emoji as they are
+- Never merge, split, skip or comment on lines
+- A line already in ${LANGUAGE_NAMES[language]} is repeated unchanged`
+}
+
+/**
+ * Numbered lines for one batch
+ */
+export function buildTranslationPrompt(
+  segments: HtmlSegments["segments"],
+  batch: number[]
+): string {
+  return batch.map((index) => `[${index}] ${segments[index].text}`).join("\n")
+}
+
+/**
+ * Parse "[n] text" lines from the model, keeping only the numbers asked for
+ */
+export function parseTranslatedLines(response: string, batch: number[]): Map<number, string> {
+  const expected = new Set(batch)
+  const translations = new Map<number, string>()
+  for (const match of response.matchAll(/^[ \t]*\[(\d+)\][ \t]*(.+)$/gm)) {
+    const index = Number(match[1])
+    const text = match[2].trim()
+    if (expected.has(index) && text) {
+      translations.set(index, text)
+    }
+  }
+  return translations
+}
+
+function escapeHtmlText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
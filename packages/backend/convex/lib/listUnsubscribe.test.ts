@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest"
+import { createServer, type IncomingMessage, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import {
+  getOneClickUrl,
+  isOneClickUnsubscribe,
+  isPrivateHostname,
+  parseListUnsubscribe,
+  sendOneClickUnsubscribe,
+} from "./listUnsubscribe"
+
+describe("parseListUnsubscribe", () => {
+  it("splits http and mailto targets in header order", () => {
+    const targets = parseListUnsubscribe(
+      "<mailto:unsub@example.com?subject=unsubscribe>, <https://example.com/unsub?u=1>"
+    )
+    expect(targets.httpUrls).toEqual(["https://example.com/unsub?u=1"])
+    expect(targets.mailtoUrls).toEqual(["mailto:unsub@example.com?subject=unsubscribe"])
+  })
+
+  it("ignores values without angle brackets and unsupported schemes", () => {
+    const targets = parseListUnsubscribe("https://bare.example.com, <ftp://example.com/x>, <not a url>")
+    expect(targets).toEqual({ httpUrls: [], mailtoUrls: [] })
+  })
+
+  it("returns no targets for a missing header", () => {
+    expect(parseListUnsubscribe(undefined)).toEqual({ httpUrls: [], mailtoUrls: [] })
+  })
+})
+
+describe("isOneClickUnsubscribe", () => {
+  it("accepts the RFC 8058 value", () => {
+    expect(isOneClickUnsubscribe("List-Unsubscribe=One-Click")).toBe(true)
+    expect(isOneClickUnsubscribe(" list-unsubscribe=one-click ")).toBe(true)
+  })
+
+  it("rejects anything else", () => {
+    expect(isOneClickUnsubscribe(undefined)).toBe(false)
+    expect(isOneClickUnsubscribe("List-Unsubscribe=Yes")).toBe(false)
+  })
+})
+
+describe("getOneClickUrl", () => {
+  it("only returns HTTPS URLs", () => {
+    expect(
+      getOneClickUrl({ httpUrls: ["http://example.com/a", "https://example.com/b"], mailtoUrls: [] })
+    ).toBe("https://example.com/b")
+    expect(getOneClickUrl({ httpUrls: ["http://example.com/a"], mailtoUrls: [] })).toBeUndefined()
+  })
+
+  it("skips links to private or loopback hosts", () => {
+    expect(
+      getOneClickUrl({
+        httpUrls: ["https://127.0.0.1/a", "https://[::1]/b", "https://example.com/c"],
+        mailtoUrls: [],
+      })
+    ).toBe("https://example.com/c")
+    expect(getOneClickUrl(parseListUnsubscribe("<https://2130706433/unsub>"))).toBeUndefined()
+  })
+})
+
+describe("isPrivateHostname", () => {
+  it("flags loopback, private, link-local and local names", () => {
+    for (const host of [
+      "localhost",
+      "api.localhost",
+      "printer.local",
+      "metadata.google.internal",
+      "10.1.2.3",
+      "172.16.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "[::1]",
+      "[fd00::1]",
+      "[fe80::1]",
+      "[::ffff:127.0.0.1]",
+    ]) {
+      expect(isPrivateHostname(host), host).toBe(true)
+    }
+  })
+
+  it("allows public hosts", () => {
+    for (const host of ["example.com", "8.8.8.8", "172.32.0.1", "[2606:4700::1111]"]) {
+      expect(isPrivateHostname(host), host).toBe(false)
+    }
+  })
+})
+
+describe("sendOneClickUnsubscribe (local stub server)", () => {
+  type RecordedRequest = { method?: string; url?: string; contentType?: string; cookie?: string; body: string }
+  const requests: RecordedRequest[] = []
+  let server: Server
+  let baseUrl: string
+
+  function readBody(request: IncomingMessage): Promise<string> {
+    return new Promise((resolve) => {
+      let body = ""
+      request.on("data", (chunk) => (body += chunk))
+      request.on("end", () => resolve(body))
+    })
+  }
+
+  beforeAll(async () => {
+    server = createServer(async (request, response) => {
+      const body = await readBody(request)
+      requests.push({
+        method: request.method,
+        url: request.url,
+        contentType: request.headers["content-type"],
+        cookie: request.headers.cookie,
+        body,
+      })
+
+      if (request.url === "/ok") {
+        response.writeHead(200).end("Unsubscribed")
+      } else if (request.url === "/redirect") {
+        response.writeHead(302, { Location: "/landing" }).end()
+      } else if (request.url === "/slow") {
+        setTimeout(() => response.writeHead(200).end(), 500)
+      } else {
+        response.writeHead(500).end("Nope")
+      }
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    server.closeAllConnections()
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+  })
+
+  it("POSTs the one-click body as a form without cookies", async () => {
+    const result = await sendOneClickUnsubscribe(`${baseUrl}/ok`)
+
+    expect(result).toEqual({ ok: true, status: 200 })
+    const request = requests.find((r) => r.url === "/ok")
+    expect(request).toMatchObject({
+      method: "POST",
+      contentType: "application/x-www-form-urlencoded",
+      body: "List-Unsubscribe=One-Click",
+    })
+    expect(request?.cookie).toBeUndefined()
+  })
+
+  it("does not follow redirects", async () => {
+    const result = await sendOneClickUnsubscribe(`${baseUrl}/redirect`)
+
+    expect(result).toEqual({ ok: true, status: 302 })
+    expect(requests.some((r) => r.url === "/landing")).toBe(false)
+  })
+
+  it("reports an error status as a failure", async () => {
+    const result = await sendOneClickUnsubscribe(`${baseUrl}/error`)
+    expect(result).toEqual({ ok: false, status: 500, error: "Sender responded with HTTP 500" })
+  })
+
+  it("reports a timeout as a failure", async () => {
+    const result = await sendOneClickUnsubscribe(`${baseUrl}/slow`, 50)
+    expect(result).toEqual({ ok: false, error: "Sender did not respond in time" })
+  })
+
+  it("reports an unreachable sender as a failure", async () => {
+    const result = await sendOneClickUnsubscribe("http://127.0.0.1:1/unsub")
+    expect(result.ok).toBe(false)
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * List-Unsubscribe helpers (RFC 2369 / RFC 8058)
+ *
+ * Parses the List-Unsubscribe header captured at ingestion and performs the
+ * RFC 8058 one-click POST. Server-side only - the request must not carry the
+ * user's cookies or credentials.
+ */
+
+/** RFC 8058: the only value List-Unsubscribe-Post may carry */
+const ONE_CLICK_POST_BODY = "List-Unsubscribe=One-Click"
+
+/** Default timeout for the one-click POST */
+const DEFAULT_TIMEOUT_MS = 10_000
+
+export interface ListUnsubscribeTargets {
+  /** http(s) URLs in header order */
+  httpUrls: string[]
+  /** mailto: URLs in header order */
+  mailtoUrls: string[]
+}
+
+export type OneClickUnsubscribeResult =
+  | { ok: true; status: number }
+  | { ok: false; status?: number; error: string }
+
+/**
+ * Parse a List-Unsubscribe header value
+ * e.g. "<https://example.com/unsub?u=1>, <mailto:unsub@example.com?subject=unsub>"
+ *
+ * Only angle-bracketed URIs are accepted (RFC 2369), anything else is ignored.
+ */
+export function parseListUnsubscribe(header: string | undefined): ListUnsubscribeTargets {
+  const targets: ListUnsubscribeTargets = { httpUrls: [], mailtoUrls: [] }
+  if (!header) return targets
+
+  for (const match of header.matchAll(/<([^>]+)>/g)) {
+    const uri = match[1].replace(/\s+/g, "")
+    let parsed: URL
+    try {
+      parsed = new URL(uri)
+    } catch {
+      continue
+    }
+
+    if (parsed.protocol === "https:" || parsed.protocol === "http:") {
+      targets.httpUrls.push(parsed.toString())
+    } else if (parsed.protocol === "mailto:") {
+      targets.mailtoUrls.push(uri)
+    }
+  }
+
+  return targets
+}
+
+/**
+ * Whether the sender advertises RFC 8058 one-click unsubscribe
+ */
+export function isOneClickUnsubscribe(listUnsubscribePost: string | undefined): boolean {
+  return listUnsubscribePost?.replace(/\s+/g, "").toLowerCase() === ONE_CLICK_POST_BODY.toLowerCase()
+}
+
+/**
+ * Whether a hostname points at this machine or a private network
+ * The URL comes from the sender's mail, so the server must never POST there.
+ * URL parsing already normalizes numeric forms (e.g. "2130706433") to dotted IPv4.
+ */
+export function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "")
+  if (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host.endsWith(".local") ||
+    host.endsWith(".internal")
+  ) {
+    return true
+  }
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/)
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])]
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    )
+  }
+
+  if (host.includes(":")) {
+    const mapped = host.match(/^::ffff:(.+)$/)
+    if (mapped) return mapped[1].includes(".") ? isPrivateHostname(mapped[1]) : true
+    return (
+      host === "::" ||
+      host === "::1" ||
+      /^f[cd][0-9a-f]{0,2}:/.test(host) ||
+      /^fe[89ab][0-9a-f]?:/.test(host)
+    )
+  }
+
+  return false
+}
+
+/**
+ * Pick the URL to use for a one-click POST
+ * RFC 8058 requires an HTTPS URI, so plain http links only qualify as a web fallback.
+ * Links to private or loopback hosts are never POSTed to.
+ */
+export function getOneClickUrl(targets: ListUnsubscribeTargets): string | undefined {
+  return targets.httpUrls.find(
+    (url) => url.startsWith("https://") && !isPrivateHostname(new URL(url).hostname)
+  )
+}
+
+/**
+ * Perform the RFC 8058 one-click unsubscribe POST
+ *
+ * Redirects are not followed: the sender has received the POST by then, and
+ * following them would let it point the server anywhere.
+ *
+ * Never throws - network errors and timeouts are returned as `{ ok: false }`
+ * so the caller can record the outcome.
+ */
+export async function sendOneClickUnsubscribe(
+  url: string,
+  timeout: number = DEFAULT_TIMEOUT_MS
+): Promise<OneClickUnsubscribeResult> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeout)
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: ONE_CLICK_POST_BODY,
+      credentials: "omit",
+      redirect: "manual",
+      signal: controller.signal,
+    })
+
+    const isRedirect =
+      response.type === "opaqueredirect" || (response.status >= 300 && response.status < 400)
+    if (isRedirect) {
+      return { ok: true, status: response.status }
+    }
+    if (!response.ok) {
+      return { ok: false, status: response.status, error: `Sender responded with HTTP ${response.status}` }
+    }
+    return { ok: true, status: response.status }
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      return { ok: false, error: "Sender did not respond in time" }
+    }
+    return { ok: false, error: error instanceof Error ? error.message : "Request failed" }
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
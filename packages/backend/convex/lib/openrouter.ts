@@ -6,12 +6,17 @@
  * Server-side only - API keys never exposed to client.
  */
 
-const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions"
+const DEFAULT_OPENROUTER_API_URL = "https://openrouter.ai/api/v1"
+
+/** Default completion length (sized for single-newsletter summaries) */
+const DEFAULT_MAX_TOKENS = 500
 
 export interface OpenRouterConfig {
   apiKey: string
   model: string
   timeout: number
+  /** Completion length limit (defaults to 500 tokens) */
+  maxTokens?: number
 }
 
 export interface OpenRouterMessage {
@@ -27,6 +32,30 @@ interface OpenRouterResponse {
   }>
 }
 
+interface OpenRouterEmbeddingsResponse {
+  data: Array<{
+    embedding: number[]
+    index: number
+  }>
+}
+
+/**
+ * URL of an API endpoint
+ * OPENROUTER_API_URL (the base URL, e.g. http://localhost:4010/v1) points the
+ * client at another OpenAI-compatible server, such as a local stub during
+ * development and tests.
+ */
+function getOpenRouterApiUrl(endpoint: "chat/completions" | "embeddings"): string {
+  const baseUrl = process.env.OPENROUTER_API_URL || DEFAULT_OPENROUTER_API_URL
+  return `${baseUrl.replace(/\/+$/, "")}/${endpoint}`
+}
+
+const OPENROUTER_HEADERS = {
+  "Content-Type": "application/json",
+  "HTTP-Referer": "https://hushletter.com", // Required by OpenRouter
+  "X-Title": "Hushletter", // Optional but recommended
+}
+
 /**
  * Generate a completion using OpenRouter API
  *
@@ -46,13 +75,11 @@ export async function generateCompletion(
   const timeoutId = setTimeout(() => controller.abort(), config.timeout)
 
   try {
-    const response = await fetch(OPENROUTER_API_URL, {
+    const response = await fetch(getOpenRouterApiUrl("chat/completions"), {
       method: "POST",
       headers: {
         Authorization: `Bearer ${config.apiKey}`,
-        "Content-Type": "application/json",
-        "HTTP-Referer": "https://hushletter.com", // Required by OpenRouter
-        "X-Title": "Hushletter", // Optional but recommended
+        ...OPENROUTER_HEADERS,
       },
       body: JSON.stringify({
         model: config.model,
@@ -63,7 +90,7 @@ export async function generateCompletion(
           { role: "system", content: systemPrompt },
           { role: "user", content: userPrompt },
         ],
-        max_tokens: 500, // Concise summaries
+        max_tokens: config.maxTokens ?? DEFAULT_MAX_TOKENS,
         temperature: 0.3, // More deterministic for summaries
       }),
       signal: controller.signal,
@@ -92,3 +119,53 @@ export async function generateCompletion(
     throw error
   }
 }
+
+/**
+ * Embed texts using the OpenRouter embeddings API
+ *
+ * @param config - API configuration (key, embedding model, timeout)
+ * @param inputs - Texts to embed
+ * @returns One embedding per input, in input order
+ * @throws Error with "AI_TIMEOUT" message if request times out
+ * @throws Error with API details if request fails
+ */
+export async function generateEmbeddings(
+  config: Omit<OpenRouterConfig, "maxTokens">,
+  inputs: string[]
+): Promise<number[][]> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), config.timeout)
+
+  try {
+    const response = await fetch(getOpenRouterApiUrl("embeddings"), {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${config.apiKey}`,
+        ...OPENROUTER_HEADERS,
+      },
+      body: JSON.stringify({ model: config.model, input: inputs }),
+      signal: controller.signal,
+    })
+
+    clearTimeout(timeoutId)
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw new Error(
+        `OpenRouter API error: ${response.status} - ${JSON.stringify(error)}`
+      )
+    }
+
+    const data = (await response.json()) as OpenRouterEmbeddingsResponse
+    if (data.data?.length !== inputs.length) {
+      throw new Error("OpenRouter returned the wrong number of embeddings")
+    }
+    return [...data.data].sort((a, b) => a.index - b.index).map((item) => item.embedding)
+  } catch (error) {
+    clearTimeout(timeoutId)
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new Error("AI_TIMEOUT")
+    }
+    throw error
+  }
+}
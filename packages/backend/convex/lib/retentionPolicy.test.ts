@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest"
+import { selectExpiredNewsletters, validateRetentionPolicy } from "./retentionPolicy"
+
+const DAY = 24 * 60 * 60 * 1000
+const NOW = 100 * DAY
+
+const newsletters = [
+  { id: "today", receivedAt: NOW, isRead: false },
+  { id: "lastWeek", receivedAt: NOW - 7 * DAY, isRead: true },
+  { id: "lastMonth", receivedAt: NOW - 30 * DAY, isRead: true },
+  { id: "starred", receivedAt: NOW - 60 * DAY, isRead: true, isFavorited: true },
+  { id: "old", receivedAt: NOW - 90 * DAY, isRead: false },
+]
+
+const ids = (items: Array<{ id: string }>) => items.map((item) => item.id)
+
+describe("selectExpiredNewsletters", () => {
+  it("expires newsletters older than N days", () => {
+    expect(ids(selectExpiredNewsletters(newsletters, { type: "days", days: 10 }, NOW))).toEqual([
+      "lastMonth",
+      "old",
+    ])
+  })
+
+  it("keeps only the last N issues, newest first", () => {
+    expect(
+      ids(selectExpiredNewsletters(newsletters, { type: "lastIssues", count: 2 }, NOW))
+    ).toEqual(["lastMonth", "old"])
+  })
+
+  it("keeps only unread newsletters", () => {
+    expect(ids(selectExpiredNewsletters(newsletters, { type: "unreadOnly" }, NOW))).toEqual([
+      "lastWeek",
+      "lastMonth",
+    ])
+  })
+
+  it("never expires favorites", () => {
+    expect(
+      ids(selectExpiredNewsletters(newsletters, { type: "days", days: 1 }, NOW))
+    ).not.toContain("starred")
+  })
+})
+
+describe("validateRetentionPolicy", () => {
+  it("rejects out-of-range numbers", () => {
+    expect(validateRetentionPolicy({ type: "days", days: 0 })).toMatch(/between 1 and/)
+    expect(validateRetentionPolicy({ type: "days", days: 1.5 })).toMatch(/whole number/)
+    expect(validateRetentionPolicy({ type: "lastIssues", count: 20000 })).toMatch(/between 1/)
+    expect(validateRetentionPolicy({ type: "lastIssues", count: 10 })).toBeUndefined()
+    expect(validateRetentionPolicy({ type: "unreadOnly" })).toBeUndefined()
+  })
+})
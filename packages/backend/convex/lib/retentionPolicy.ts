@@ -0,0 +1,82 @@
+/**
+ * Per-folder retention policies
+ *
+ * A folder without a policy keeps everything. Otherwise newsletters that fall
+ * outside the policy are moved to the bin by the hourly retention cron (and
+ * from there expire with the rest of the bin). Favorites are always kept.
+ */
+import { v, type Infer } from "convex/values"
+
+/** Bounds for the numeric policy settings */
+export const MAX_RETENTION_DAYS = 3650
+export const MAX_RETENTION_ISSUES = 10000
+
+/**
+ * - days: keep newsletters received in the last N days
+ * - lastIssues: keep the N most recent newsletters
+ * - unreadOnly: keep only unread newsletters
+ */
+export const retentionPolicyValidator = v.union(
+  v.object({ type: v.literal("days"), days: v.number() }),
+  v.object({ type: v.literal("lastIssues"), count: v.number() }),
+  v.object({ type: v.literal("unreadOnly") })
+)
+
+export type RetentionPolicy = Infer<typeof retentionPolicyValidator>
+
+/** The fields a policy looks at */
+export type RetentionCandidate = {
+  receivedAt: number
+  isRead: boolean
+  isFavorited?: boolean
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Check a policy's numbers are in range
+ * @returns An error message, or undefined when valid
+ */
+export function validateRetentionPolicy(policy: RetentionPolicy): string | undefined {
+  if (policy.type === "days") {
+    if (!Number.isInteger(policy.days) || policy.days < 1 || policy.days > MAX_RETENTION_DAYS) {
+      return `Days must be a whole number between 1 and ${MAX_RETENTION_DAYS}`
+    }
+  }
+  if (policy.type === "lastIssues") {
+    if (
+      !Number.isInteger(policy.count) ||
+      policy.count < 1 ||
+      policy.count > MAX_RETENTION_ISSUES
+    ) {
+      return `Issue count must be a whole number between 1 and ${MAX_RETENTION_ISSUES}`
+    }
+  }
+  return undefined
+}
+
+/**
+ * Newsletters a policy would remove from a folder
+ * @param newsletters - The folder's newsletters that aren't binned yet
+ * @param now - Current time (ms)
+ */
+export function selectExpiredNewsletters<T extends RetentionCandidate>(
+  newsletters: T[],
+  policy: RetentionPolicy,
+  now: number
+): T[] {
+  const candidates = newsletters.filter((newsletter) => !newsletter.isFavorited)
+
+  switch (policy.type) {
+    case "days": {
+      const cutoff = now - policy.days * DAY_MS
+      return candidates.filter((newsletter) => newsletter.receivedAt < cutoff)
+    }
+    case "lastIssues":
+      return [...candidates]
+        .sort((a, b) => b.receivedAt - a.receivedAt)
+        .slice(policy.count)
+    case "unreadOnly":
+      return candidates.filter((newsletter) => newsletter.isRead)
+  }
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest"
+import type { Id } from "../_generated/dataModel"
+import { detectLanguage } from "./detectLanguage"
+import {
+  isUnsafeSubjectPattern,
+  matchesRuleConditions,
+  normalizeRuleActions,
+  normalizeRuleConditions,
+  resolveRuleActions,
+} from "./ruleMatching"
+
+const candidate = {
+  senderEmail: "Ben@News.Stratechery.com",
+  subject: "Weekly Article: Antitrust and Apple",
+  subAddressTag: "Tech",
+  language: "en",
+}
+
+const ruleId = (id: string) => id as Id<"newsletterRules">
+const folderId = (id: string) => id as Id<"folders">
+const tagId = (id: string) => id as Id<"tags">
+
+describe("ruleMatching", () => {
+  describe("normalizeRuleConditions", () => {
+    it("trims, lowercases and drops empty conditions", () => {
+      expect(
+        normalizeRuleConditions({
+          senderEmail: "  Ben@Stratechery.com ",
+          domain: "@Stratechery.COM",
+          subjectPattern: "  ",
+          subAddressTag: " Tech ",
+          language: "FR",
+        })
+      ).toEqual({
+        conditions: {
+          senderEmail: "ben@stratechery.com",
+          domain: "stratechery.com",
+          subAddressTag: "tech",
+          language: "fr",
+        },
+      })
+    })
+
+    it("rejects empty and malformed conditions", () => {
+      expect(normalizeRuleConditions({ subjectPattern: " " }).error).toBe(
+        "A rule needs at least one condition"
+      )
+      expect(normalizeRuleConditions({ senderEmail: "stratechery" }).error).toBeDefined()
+      expect(normalizeRuleConditions({ domain: "not a domain" }).error).toBeDefined()
+      expect(normalizeRuleConditions({ subjectPattern: "(unclosed" }).error).toMatch(/regular expression/)
+      expect(normalizeRuleConditions({ language: "xx" }).error).toMatch(/Language/)
+      expect(normalizeRuleConditions({ subjectPattern: "(a+)+$" }).error).toMatch(/too complex/)
+    })
+  })
+
+  describe("isUnsafeSubjectPattern", () => {
+    it("refuses patterns that can backtrack catastrophically", () => {
+      const patterns = ["(a+)+$", "(\\w*)*x", "(a|ab)*c", "((ab)+)+", "(?:x+)+", "(a?){10}", "(a)\\1", "(?<w>a)\\k<w>"]
+      for (const pattern of patterns) {
+        expect(isUnsafeSubjectPattern(pattern), pattern).toBe(true)
+      }
+    })
+
+    it("accepts everyday patterns", () => {
+      const patterns = ["^weekly .*apple$", "(?:re: )?issue #\\d+", "(daily|weekly) digest", "(ab)+", "[(+*]+", "\\(a+\\)+"]
+      for (const pattern of patterns) {
+        expect(isUnsafeSubjectPattern(pattern), pattern).toBe(false)
+      }
+    })
+
+    it("refuses more than two unbounded quantifiers, which backtrack polynomially", () => {
+      const patterns = [".*.*.*x", "\\s*\\s*\\s*$", ".*.*.*.*.*.*x", "a+b{2,}c*", "(?:re: )*.*.*x"]
+      for (const pattern of patterns) {
+        expect(isUnsafeSubjectPattern(pattern), pattern).toBe(true)
+      }
+      for (const pattern of [".*apple.*", "\\s*\\d+", "x{2,5}y{1,3}z*"]) {
+        expect(isUnsafeSubjectPattern(pattern), pattern).toBe(false)
+      }
+    })
+  })
+
+  describe("normalizeRuleActions", () => {
+    it("drops unset actions and rejects rules without any", () => {
+      expect(normalizeRuleActions({ markRead: true, favorite: false })).toEqual({
+        actions: { markRead: true },
+      })
+      expect(normalizeRuleActions({ bin: false }).error).toBe("A rule needs at least one action")
+    })
+  })
+
+  describe("matchesRuleConditions", () => {
+    it("requires every condition to match", () => {
+      expect(matchesRuleConditions(candidate, { domain: "stratechery.com" })).toBe(true)
+      expect(matchesRuleConditions(candidate, { senderEmail: "ben@news.stratechery.com" })).toBe(true)
+      expect(matchesRuleConditions(candidate, { subjectPattern: "^weekly .*apple$" })).toBe(true)
+      expect(matchesRuleConditions(candidate, { subAddressTag: "tech", language: "en" })).toBe(true)
+      expect(matchesRuleConditions(candidate, { domain: "stratechery.com", language: "fr" })).toBe(false)
+      expect(matchesRuleConditions(candidate, { subAddressTag: "finance" })).toBe(false)
+      expect(matchesRuleConditions({ ...candidate, language: undefined }, { language: "en" })).toBe(false)
+    })
+
+    it("never runs an unsafe subject pattern", () => {
+      const subject = `${"a".repeat(40)}!`
+      const started = Date.now()
+
+      expect(matchesRuleConditions({ ...candidate, subject }, { subjectPattern: "^(a+)+$" })).toBe(false)
+      expect(Date.now() - started).toBeLessThan(1000)
+    })
+  })
+
+  describe("resolveRuleActions", () => {
+    it("applies every enabled match, with the first folder winning", () => {
+      const resolved = resolveRuleActions(
+        [
+          {
+            _id: ruleId("r1"),
+            isEnabled: true,
+            conditions: { domain: "stratechery.com" },
+            actions: { folderId: folderId("f1"), tagId: tagId("t1") },
+          },
+          {
+            _id: ruleId("r2"),
+            isEnabled: false,
+            conditions: { domain: "stratechery.com" },
+            actions: { bin: true },
+          },
+          {
+            _id: ruleId("r3"),
+            isEnabled: true,
+            conditions: { subjectPattern: "antitrust" },
+            actions: { folderId: folderId("f2"), tagId: tagId("t2"), markRead: true },
+          },
+          {
+            _id: ruleId("r4"),
+            isEnabled: true,
+            conditions: { language: "fr" },
+            actions: { skipInbox: true },
+          },
+        ],
+        candidate
+      )
+
+      expect(resolved).toEqual({
+        matchedRuleIds: ["r1", "r3"],
+        folderId: "f1",
+        tagIds: ["t1", "t2"],
+        markRead: true,
+        favorite: false,
+        bin: false,
+        skipInbox: false,
+      })
+    })
+  })
+
+  describe("detectLanguage", () => {
+    it("detects the main language of a body", () => {
+      expect(
+        detectLanguage(
+          "This week we look at the state of the market and what it means for you. It is the end of an era, and the start of another one for the industry."
+        )
+      ).toBe("en")
+      expect(
+        detectLanguage(
+          "Cette semaine, nous revenons sur les annonces de la rentrée. Le marché est en pleine mutation et les acteurs historiques ne sont pas prêts pour la suite."
+        )
+      ).toBe("fr")
+    })
+
+    it("returns undefined for short or ambiguous text", () => {
+      expect(detectLanguage("Hello")).toBeUndefined()
+      expect(detectLanguage("")).toBeUndefined()
+      expect(detectLanguage("12345 !!! ---")).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,286 @@
+/**
+ * Newsletter rules
+ *
+ * A rule pairs conditions (all must match) with actions, and is evaluated
+ * when a newsletter arrives. Enabled rules run in the user's order; every
+ * matching rule applies, except that the first folder move wins.
+ */
+import { v, type Infer } from "convex/values"
+import type { Id } from "../_generated/dataModel"
+import { matchesExpectedSender } from "../emailAliases"
+import { SUPPORTED_LANGUAGES } from "./detectLanguage"
+
+/** Maximum length of a text condition (sender, domain, pattern, tag) */
+export const MAX_RULE_VALUE_LENGTH = 200
+
+/** Subjects are cut to this length before a subject pattern runs on them */
+const MAX_MATCHED_SUBJECT_LENGTH = 500
+
+/**
+ * Most unbounded quantifiers (*, +, {n,}) a subject pattern may use: each one
+ * multiplies the ways a failing match is retried, so .*.*.*x is already cubic
+ */
+const MAX_UNBOUNDED_QUANTIFIERS = 2
+
+/**
+ * - senderEmail: exact sender address
+ * - domain: sender domain, subdomains included
+ * - subjectPattern: case-insensitive regular expression on the subject
+ * - subAddressTag: mail sent to name+tag@
+ * - language: detected body language (ISO 639-1)
+ */
+export const ruleConditionsValidator = v.object({
+  senderEmail: v.optional(v.string()),
+  domain: v.optional(v.string()),
+  subjectPattern: v.optional(v.string()),
+  subAddressTag: v.optional(v.string()),
+  language: v.optional(v.string()),
+})
+
+/**
+ * - folderId: move to folder
+ * - tagId: add tag
+ * - markRead / favorite: set on arrival
+ * - bin: move to the bin
+ * - skipInbox: archive right away (hidden from the inbox)
+ */
+export const ruleActionsValidator = v.object({
+  folderId: v.optional(v.id("folders")),
+  tagId: v.optional(v.id("tags")),
+  markRead: v.optional(v.boolean()),
+  favorite: v.optional(v.boolean()),
+  bin: v.optional(v.boolean()),
+  skipInbox: v.optional(v.boolean()),
+})
+
+export type RuleConditions = Infer<typeof ruleConditionsValidator>
+export type RuleActions = Infer<typeof ruleActionsValidator>
+
+/** What a rule is matched against */
+export type RuleCandidate = {
+  senderEmail: string
+  subject: string
+  subAddressTag?: string
+  language?: string
+}
+
+/** Combined effect of all matching rules */
+export type ResolvedRuleActions = {
+  matchedRuleIds: Id<"newsletterRules">[]
+  folderId?: Id<"folders">
+  tagIds: Id<"tags">[]
+  markRead: boolean
+  favorite: boolean
+  bin: boolean
+  skipInbox: boolean
+}
+
+/**
+ * Whether a subject pattern can backtrack catastrophically
+ *
+ * Patterns run inside ingestion mutations, so anything that can take
+ * exponential or high polynomial time on a crafted subject is refused:
+ * backreferences, repeated groups that contain a quantifier or an
+ * alternation, e.g. (a+)+, (\w*)* or (a|ab)*, and more than
+ * MAX_UNBOUNDED_QUANTIFIERS unbounded quantifiers, e.g. .*.*.*x.
+ * Optional groups - (re: )? - are fine.
+ */
+export function isUnsafeSubjectPattern(pattern: string): boolean {
+  // Per open group: does it contain a quantifier or an alternation?
+  const groups: boolean[] = [false]
+  let inClass = false
+  let unboundedQuantifiers = 0
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === "\\") {
+      const next = pattern[i + 1] ?? ""
+      if (!inClass && (/[1-9]/.test(next) || next === "k")) return true
+      i++
+      continue
+    }
+    if (inClass) {
+      if (char === "]") inClass = false
+      continue
+    }
+
+    if (char === "[") {
+      inClass = true
+    } else if (char === "(") {
+      groups.push(false)
+      // Skip the group kind (?: (?= (?! (?<= (?<! (?<name>, its ? isn't a quantifier
+      if (pattern[i + 1] === "?") {
+        const named = pattern[i + 2] === "<" && !/[=!]/.test(pattern[i + 3] ?? "")
+        i = named ? Math.max(pattern.indexOf(">", i), i + 1) : i + (pattern[i + 2] === "<" ? 3 : 2)
+      }
+    } else if (char === ")") {
+      const isComplex = groups.pop() ?? false
+      const next = pattern[i + 1]
+      const isRepeated = next === "*" || next === "+" || next === "{"
+      if (isRepeated && isComplex) return true
+      if (groups.length === 0) groups.push(false)
+      groups[groups.length - 1] ||= isComplex || isRepeated || next === "?"
+    } else if (char === "*" || char === "+" || char === "?" || char === "{" || char === "|") {
+      groups[groups.length - 1] = true
+      const isUnbounded =
+        char === "*" || char === "+" || (char === "{" && /^\{\d+,\}/.test(pattern.slice(i)))
+      if (isUnbounded && ++unboundedQuantifiers > MAX_UNBOUNDED_QUANTIFIERS) return true
+    }
+  }
+  return false
+}
+
+/**
+ * Compile a subject pattern, refusing invalid and unsafe ones
+ */
+function compileSubjectPattern(pattern: string): RegExp | undefined {
+  if (isUnsafeSubjectPattern(pattern)) return undefined
+  try {
+    return new RegExp(pattern, "i")
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Trim and lowercase conditions, dropping empty ones
+ * @returns The normalized conditions, or an error message
+ */
+export function normalizeRuleConditions(
+  conditions: RuleConditions
+): { conditions?: RuleConditions; error?: string } {
+  const senderEmail = conditions.senderEmail?.trim().toLowerCase() || undefined
+  const domain = conditions.domain?.trim().toLowerCase().replace(/^@/, "") || undefined
+  const subjectPattern = conditions.subjectPattern?.trim() || undefined
+  const subAddressTag = conditions.subAddressTag?.trim().toLowerCase() || undefined
+  const language = conditions.language?.trim().toLowerCase() || undefined
+
+  for (const value of [senderEmail, domain, subjectPattern, subAddressTag]) {
+    if (value && value.length > MAX_RULE_VALUE_LENGTH) {
+      return { error: `Rule values must be ${MAX_RULE_VALUE_LENGTH} characters or less` }
+    }
+  }
+  if (senderEmail && !senderEmail.includes("@")) {
+    return { error: "Sender must be an email address" }
+  }
+  if (domain && !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain)) {
+    return { error: "Domain must look like example.com" }
+  }
+  if (subjectPattern) {
+    try {
+      new RegExp(subjectPattern, "i")
+    } catch {
+      return { error: "Subject pattern is not a valid regular expression" }
+    }
+    if (isUnsafeSubjectPattern(subjectPattern)) {
+      return {
+        error:
+          "Subject pattern is too complex: avoid backreferences, repeating groups that contain *, + or |, and more than 2 of *, + or {n,}",
+      }
+    }
+  }
+  if (language && !(SUPPORTED_LANGUAGES as readonly string[]).includes(language)) {
+    return { error: `Language must be one of ${SUPPORTED_LANGUAGES.join(", ")}` }
+  }
+
+  const normalized: RuleConditions = {
+    ...(senderEmail ? { senderEmail } : {}),
+    ...(domain ? { domain } : {}),
+    ...(subjectPattern ? { subjectPattern } : {}),
+    ...(subAddressTag ? { subAddressTag } : {}),
+    ...(language ? { language } : {}),
+  }
+  if (Object.keys(normalized).length === 0) {
+    return { error: "A rule needs at least one condition" }
+  }
+  return { conditions: normalized }
+}
+
+/**
+ * Drop unset actions
+ * @returns The normalized actions, or an error message
+ */
+export function normalizeRuleActions(
+  actions: RuleActions
+): { actions?: RuleActions; error?: string } {
+  const normalized: RuleActions = {
+    ...(actions.folderId ? { folderId: actions.folderId } : {}),
+    ...(actions.tagId ? { tagId: actions.tagId } : {}),
+    ...(actions.markRead ? { markRead: true } : {}),
+    ...(actions.favorite ? { favorite: true } : {}),
+    ...(actions.bin ? { bin: true } : {}),
+    ...(actions.skipInbox ? { skipInbox: true } : {}),
+  }
+  if (Object.keys(normalized).length === 0) {
+    return { error: "A rule needs at least one action" }
+  }
+  return { actions: normalized }
+}
+
+/**
+ * Whether a newsletter matches every condition of a rule
+ */
+export function matchesRuleConditions(
+  candidate: RuleCandidate,
+  conditions: RuleConditions
+): boolean {
+  if (
+    conditions.senderEmail &&
+    !matchesExpectedSender(candidate.senderEmail, conditions.senderEmail)
+  ) {
+    return false
+  }
+  if (conditions.domain && !matchesExpectedSender(candidate.senderEmail, conditions.domain)) {
+    return false
+  }
+  if (conditions.subjectPattern) {
+    const pattern = compileSubjectPattern(conditions.subjectPattern)
+    if (!pattern?.test(candidate.subject.slice(0, MAX_MATCHED_SUBJECT_LENGTH))) return false
+  }
+  if (
+    conditions.subAddressTag &&
+    candidate.subAddressTag?.toLowerCase() !== conditions.subAddressTag
+  ) {
+    return false
+  }
+  if (conditions.language && candidate.language !== conditions.language) return false
+  return true
+}
+
+/**
+ * Evaluate rules (already sorted) against a newsletter
+ */
+export function resolveRuleActions(
+  rules: Array<{
+    _id: Id<"newsletterRules">
+    isEnabled: boolean
+    conditions: RuleConditions
+    actions: RuleActions
+  }>,
+  candidate: RuleCandidate
+): ResolvedRuleActions {
+  const resolved: ResolvedRuleActions = {
+    matchedRuleIds: [],
+    tagIds: [],
+    markRead: false,
+    favorite: false,
+    bin: false,
+    skipInbox: false,
+  }
+
+  for (const rule of rules) {
+    if (!rule.isEnabled || !matchesRuleConditions(candidate, rule.conditions)) continue
+
+    resolved.matchedRuleIds.push(rule._id)
+    const { actions } = rule
+    if (actions.folderId && !resolved.folderId) resolved.folderId = actions.folderId
+    if (actions.tagId && !resolved.tagIds.includes(actions.tagId)) {
+      resolved.tagIds.push(actions.tagId)
+    }
+    resolved.markRead ||= Boolean(actions.markRead)
+    resolved.favorite ||= Boolean(actions.favorite)
+    resolved.bin ||= Boolean(actions.bin)
+    resolved.skipInbox ||= Boolean(actions.skipInbox)
+  }
+  return resolved
+}
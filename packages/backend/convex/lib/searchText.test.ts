@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest"
+import { buildSearchText, getSearchSnippet, getSearchTerms, MAX_SEARCH_BODY_LENGTH } from "./searchText"
+
+describe("searchText", () => {
+  describe("buildSearchText", () => {
+    it("puts subject and sender on the first line and the body after it", () => {
+      expect(
+        buildSearchText({
+          subject: "Weekly\nDigest",
+          senderName: "The Weekly",
+          senderEmail: "hello@weekly.example.com",
+          bodyText: "  First   story\n\nSecond story ",
+        })
+      ).toBe("Weekly Digest The Weekly hello@weekly.example.com hello weekly example com\nFirst story Second story")
+    })
+
+    it("has only the header line without a body, and truncates long bodies", () => {
+      expect(buildSearchText({ subject: "Hi", senderEmail: "a@example.com" })).toBe("Hi a@example.com a example com")
+
+      const long = buildSearchText({ subject: "Hi", senderEmail: "a@example.com", bodyText: "x".repeat(20_000) })
+      expect(long.split("\n")[1]).toHaveLength(MAX_SEARCH_BODY_LENGTH)
+    })
+  })
+
+  describe("getSearchTerms", () => {
+    it("lowercases and splits on punctuation", () => {
+      expect(getSearchTerms("  Rust, WebAssembly!  café ")).toEqual(["rust", "webassembly", "café"])
+    })
+  })
+
+  describe("getSearchSnippet", () => {
+    const searchText = buildSearchText({
+      subject: "Issue #42",
+      senderEmail: "hello@weekly.example.com",
+      bodyText:
+        "This week we look at how compilers work. " +
+        "A long detour through parsing theory follows, with plenty of examples and history to go around. " +
+        "Finally, WebAssembly runtimes: why wasm matters for the edge and what it means for Rust developers.",
+    })
+
+    it("cuts the body around the first match and highlights every term", () => {
+      const snippet = getSearchSnippet(searchText, "webassembly rust")
+
+      expect(snippet?.text.startsWith("…")).toBe(true)
+      const highlighted = snippet?.highlights.map(({ start, end }) => snippet.text.slice(start, end))
+      expect(highlighted).toEqual(["WebAssembly", "Rust"])
+    })
+
+    it("matches terms as word prefixes only", () => {
+      const snippet = getSearchSnippet(searchText, "compil")
+
+      expect(snippet?.text.startsWith("This week")).toBe(true)
+      expect(snippet?.highlights).toHaveLength(1)
+      expect(getSearchSnippet(searchText, "ssembly")).toBeUndefined()
+    })
+
+    it("has no snippet when only the subject or sender matched", () => {
+      expect(getSearchSnippet(searchText, "issue")).toBeUndefined()
+      expect(getSearchSnippet("Issue #42 hello@weekly.example.com", "issue")).toBeUndefined()
+    })
+  })
+})
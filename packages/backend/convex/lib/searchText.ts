@@ -0,0 +1,119 @@
+/**
+ * Full-text search helpers
+ *
+ * newsletterSearchMeta.searchText holds a header line (subject, sender name
+ * and email) followed by the plain-text body, so one Convex search index
+ * covers all of them. Snippets are only taken from the body.
+ */
+
+/** Maximum body length kept for search (longer bodies are truncated) */
+export const MAX_SEARCH_BODY_LENGTH = 16_000
+
+/** Approximate length of a result snippet */
+const SNIPPET_LENGTH = 160
+
+/** Context kept before the first match in a snippet */
+const SNIPPET_LEAD = 40
+
+export type SearchSnippet = {
+  text: string
+  /** Character ranges of `text` matching a query term */
+  highlights: Array<{ start: number; end: number }>
+}
+
+/**
+ * Build the searchText of a newsletter
+ * Without a body (e.g. not indexed yet), only the header line is searchable.
+ */
+export function buildSearchText(fields: {
+  subject: string
+  senderEmail: string
+  senderName?: string
+  bodyText?: string
+}): string {
+  // The email's parts too, so "weekly" finds hello@weekly.example.com
+  const emailWords = fields.senderEmail.split(/[^\p{L}\p{N}]+/u).join(" ")
+  const header = [fields.subject, fields.senderName, fields.senderEmail, emailWords]
+    .filter(Boolean)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim()
+  const body = fields.bodyText?.replace(/\s+/g, " ").trim().slice(0, MAX_SEARCH_BODY_LENGTH)
+  return body ? `${header}\n${body}` : header
+}
+
+/**
+ * Split a query into lowercase search terms (letters and digits)
+ */
+export function getSearchTerms(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 0)
+}
+
+/**
+ * Matches any of the terms at the start of a word
+ */
+function buildTermPattern(terms: string[]): RegExp {
+  const escaped = terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+  return new RegExp(`(?<![\\p{L}\\p{N}])(${escaped.join("|")})`, "giu")
+}
+
+/**
+ * The header line of a searchText (subject and sender), without the body
+ */
+export function getSearchHeader(searchText: string | undefined): string {
+  if (!searchText) return ""
+  const newline = searchText.indexOf("\n")
+  return newline === -1 ? searchText : searchText.slice(0, newline)
+}
+
+/**
+ * Whether any of the query's terms starts a word of the text
+ * Mirrors the search index's matching, for text it doesn't index separately.
+ */
+export function matchesSearchTerms(text: string, query: string): boolean {
+  const terms = getSearchTerms(query)
+  return terms.length > 0 && buildTermPattern(terms).test(text)
+}
+
+/**
+ * Extract a snippet of the body around the first match of the query
+ * @returns undefined when the body doesn't match (e.g. only the subject did)
+ */
+export function getSearchSnippet(
+  searchText: string | undefined,
+  query: string
+): SearchSnippet | undefined {
+  const newline = searchText?.indexOf("\n") ?? -1
+  if (!searchText || newline === -1) return undefined
+
+  const terms = getSearchTerms(query)
+  if (terms.length === 0) return undefined
+
+  const body = searchText.slice(newline + 1)
+  const firstMatch = buildTermPattern(terms).exec(body)
+  if (!firstMatch) return undefined
+
+  // Cut on word boundaries around the first match
+  let start = Math.max(0, firstMatch.index - SNIPPET_LEAD)
+  if (start > 0) {
+    const space = body.indexOf(" ", start)
+    start = space !== -1 && space < firstMatch.index ? space + 1 : firstMatch.index
+  }
+  let end = Math.min(body.length, start + SNIPPET_LENGTH)
+  if (end < body.length) {
+    const space = body.lastIndexOf(" ", end)
+    if (space > firstMatch.index) end = space
+  }
+
+  const prefix = start > 0 ? "…" : ""
+  const text = `${prefix}${body.slice(start, end)}${end < body.length ? "…" : ""}`
+
+  const highlights: SearchSnippet["highlights"] = []
+  for (const match of text.matchAll(buildTermPattern(terms))) {
+    highlights.push({ start: match.index, end: match.index + match[0].length })
+  }
+  return { text, highlights }
+}
@@ -0,0 +1,58 @@
+/**
+ * Sender authentication (SPF/DKIM/DMARC) verdicts
+ *
+ * The email worker reads the Authentication-Results header added by our
+ * receiving server and sends a verdict for the From address along with the
+ * email. It is stored on the delivery log and on the newsletter.
+ */
+import { v, type Infer } from "convex/values"
+
+/** Maximum length of a raw SPF/DKIM/DMARC result (e.g. "softfail") */
+const MAX_RESULT_LENGTH = 32
+
+/**
+ * - pass: DMARC passed, or DKIM/SPF passed for a domain aligned with From
+ * - fail: the message was checked but nothing vouches for the From address
+ * - none: no authentication results were available
+ */
+export const senderAuthValidator = v.object({
+  verdict: v.union(v.literal("pass"), v.literal("fail"), v.literal("none")),
+  spf: v.optional(v.string()),
+  dkim: v.optional(v.string()),
+  dmarc: v.optional(v.string()),
+})
+
+export type SenderAuth = Infer<typeof senderAuthValidator>
+
+/**
+ * Validate the senderAuth field of an ingestion payload
+ * @returns The verdict (undefined when absent), or an error message
+ */
+export function parseSenderAuthPayload(
+  value: unknown
+): { senderAuth?: SenderAuth; error?: string } {
+  if (value === undefined || value === null) return {}
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { error: "senderAuth must be an object" }
+  }
+
+  const { verdict, spf, dkim, dmarc } = value as Record<string, unknown>
+  if (verdict !== "pass" && verdict !== "fail" && verdict !== "none") {
+    return { error: "senderAuth.verdict must be pass, fail or none" }
+  }
+
+  const senderAuth: SenderAuth = { verdict }
+  for (const [name, result] of Object.entries({ spf, dkim, dmarc })) {
+    if (result === undefined) continue
+    if (typeof result !== "string" || result.length > MAX_RESULT_LENGTH) {
+      return { error: `senderAuth.${name} must be a string of at most ${MAX_RESULT_LENGTH} characters` }
+    }
+    senderAuth[name as "spf" | "dkim" | "dmarc"] = result.toLowerCase()
+  }
+  return { senderAuth }
+}
+
+/** Whether a verdict means the sender could not be verified */
+export function isUnauthenticated(senderAuth: SenderAuth | undefined): boolean {
+  return senderAuth?.verdict === "fail"
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest"
+import { matchesSmartFolderFilter, normalizeSmartFolderFilter } from "./smartFolderFilter"
+
+const NOW = Date.UTC(2026, 5, 15)
+const DAY = 24 * 60 * 60 * 1000
+
+const newsletter = {
+  senderEmail: "Ben@News.Stratechery.com",
+  subject: "Weekly Article: Antitrust and Apple",
+  isRead: false,
+  receivedAt: NOW - 3 * DAY,
+}
+
+describe("smartFolderFilter", () => {
+  describe("normalizeSmartFolderFilter", () => {
+    it("trims, lowercases and drops empty criteria", () => {
+      expect(
+        normalizeSmartFolderFilter({
+          senderEmail: "  Ben@Stratechery.com ",
+          domain: "@Stratechery.COM",
+          subjectKeyword: "  ",
+          readState: "unread",
+        })
+      ).toEqual({
+        filter: { senderEmail: "ben@stratechery.com", domain: "stratechery.com", readState: "unread" },
+      })
+    })
+
+    it("rejects empty and malformed filters", () => {
+      expect(normalizeSmartFolderFilter({ subjectKeyword: " " }).error).toBe(
+        "A smart folder needs at least one filter"
+      )
+      expect(normalizeSmartFolderFilter({ senderEmail: "stratechery" }).error).toBeDefined()
+      expect(normalizeSmartFolderFilter({ domain: "not a domain" }).error).toBeDefined()
+      expect(normalizeSmartFolderFilter({ receivedWithinDays: 0 }).error).toBeDefined()
+      expect(normalizeSmartFolderFilter({ receivedWithinDays: 1.5 }).error).toBeDefined()
+    })
+  })
+
+  describe("matchesSmartFolderFilter", () => {
+    it("matches the sender case-insensitively and domains with subdomains", () => {
+      expect(matchesSmartFolderFilter(newsletter, { senderEmail: "ben@news.stratechery.com" }, NOW)).toBe(true)
+      expect(matchesSmartFolderFilter(newsletter, { domain: "stratechery.com" }, NOW)).toBe(true)
+      expect(matchesSmartFolderFilter(newsletter, { domain: "news.stratechery.com" }, NOW)).toBe(true)
+      expect(matchesSmartFolderFilter(newsletter, { domain: "echery.com" }, NOW)).toBe(false)
+    })
+
+    it("matches subject keywords, read state and date windows", () => {
+      expect(matchesSmartFolderFilter(newsletter, { subjectKeyword: "ANTITRUST" }, NOW)).toBe(true)
+      expect(matchesSmartFolderFilter(newsletter, { subjectKeyword: "podcast" }, NOW)).toBe(false)
+      expect(matchesSmartFolderFilter(newsletter, { readState: "unread" }, NOW)).toBe(true)
+      expect(matchesSmartFolderFilter(newsletter, { readState: "read" }, NOW)).toBe(false)
+      expect(matchesSmartFolderFilter(newsletter, { receivedWithinDays: 7 }, NOW)).toBe(true)
+      expect(matchesSmartFolderFilter(newsletter, { receivedWithinDays: 2 }, NOW)).toBe(false)
+    })
+
+    it("requires every criterion to match", () => {
+      expect(
+        matchesSmartFolderFilter(newsletter, { domain: "stratechery.com", readState: "read" }, NOW)
+      ).toBe(false)
+    })
+  })
+})
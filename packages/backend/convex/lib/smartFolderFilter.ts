@@ -0,0 +1,119 @@
+/**
+ * Smart folder filters
+ *
+ * A smart folder is a saved filter over the user's newsletters, shown in the
+ * sidebar next to real folders. All criteria of a filter must match.
+ */
+import { v, type Infer } from "convex/values"
+import { matchesExpectedSender } from "../emailAliases"
+
+/** Maximum length of a text criterion (sender, domain, keyword) */
+export const MAX_FILTER_VALUE_LENGTH = 200
+
+/** Longest supported date window */
+export const MAX_RECEIVED_WITHIN_DAYS = 3650
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * - senderEmail: exact sender address
+ * - domain: sender domain, subdomains included (example.com matches news.example.com)
+ * - subjectKeyword: subject contains this text
+ * - readState: only unread or only read newsletters
+ * - receivedWithinDays: received in the last N days
+ */
+export const smartFolderFilterValidator = v.object({
+  senderEmail: v.optional(v.string()),
+  domain: v.optional(v.string()),
+  subjectKeyword: v.optional(v.string()),
+  readState: v.optional(v.union(v.literal("unread"), v.literal("read"))),
+  receivedWithinDays: v.optional(v.number()),
+})
+
+export type SmartFolderFilter = Infer<typeof smartFolderFilterValidator>
+
+/**
+ * Trim and lowercase a filter, dropping empty criteria
+ * @returns The normalized filter, or an error message
+ */
+export function normalizeSmartFolderFilter(
+  filter: SmartFolderFilter
+): { filter?: SmartFolderFilter; error?: string } {
+  const senderEmail = filter.senderEmail?.trim().toLowerCase() || undefined
+  const domain = filter.domain?.trim().toLowerCase().replace(/^@/, "") || undefined
+  const subjectKeyword = filter.subjectKeyword?.trim() || undefined
+
+  for (const value of [senderEmail, domain, subjectKeyword]) {
+    if (value && value.length > MAX_FILTER_VALUE_LENGTH) {
+      return { error: `Filter values must be ${MAX_FILTER_VALUE_LENGTH} characters or less` }
+    }
+  }
+  if (senderEmail && !senderEmail.includes("@")) {
+    return { error: "Sender must be an email address" }
+  }
+  if (domain && !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain)) {
+    return { error: "Domain must look like example.com" }
+  }
+  if (
+    filter.receivedWithinDays !== undefined &&
+    (!Number.isInteger(filter.receivedWithinDays) ||
+      filter.receivedWithinDays < 1 ||
+      filter.receivedWithinDays > MAX_RECEIVED_WITHIN_DAYS)
+  ) {
+    return { error: `Date window must be between 1 and ${MAX_RECEIVED_WITHIN_DAYS} days` }
+  }
+
+  const normalized: SmartFolderFilter = {
+    ...(senderEmail ? { senderEmail } : {}),
+    ...(domain ? { domain } : {}),
+    ...(subjectKeyword ? { subjectKeyword } : {}),
+    ...(filter.readState ? { readState: filter.readState } : {}),
+    ...(filter.receivedWithinDays !== undefined
+      ? { receivedWithinDays: filter.receivedWithinDays }
+      : {}),
+  }
+  if (Object.keys(normalized).length === 0) {
+    return { error: "A smart folder needs at least one filter" }
+  }
+  return { filter: normalized }
+}
+
+/**
+ * Earliest receivedAt matched by the filter's date window, if any
+ */
+export function getSmartFolderReceivedAfter(
+  filter: SmartFolderFilter,
+  now: number
+): number | undefined {
+  return filter.receivedWithinDays === undefined
+    ? undefined
+    : now - filter.receivedWithinDays * DAY_MS
+}
+
+/**
+ * Whether a newsletter matches every criterion of the filter
+ */
+export function matchesSmartFolderFilter(
+  newsletter: { senderEmail: string; subject: string; isRead: boolean; receivedAt: number },
+  filter: SmartFolderFilter,
+  now: number
+): boolean {
+  if (filter.senderEmail && !matchesExpectedSender(newsletter.senderEmail, filter.senderEmail)) {
+    return false
+  }
+  if (filter.domain && !matchesExpectedSender(newsletter.senderEmail, filter.domain)) {
+    return false
+  }
+  if (
+    filter.subjectKeyword &&
+    !newsletter.subject.toLowerCase().includes(filter.subjectKeyword.toLowerCase())
+  ) {
+    return false
+  }
+  if (filter.readState === "unread" && newsletter.isRead) return false
+  if (filter.readState === "read" && !newsletter.isRead) return false
+
+  const receivedAfter = getSmartFolderReceivedAfter(filter, now)
+  if (receivedAfter !== undefined && newsletter.receivedAt < receivedAfter) return false
+  return true
+}
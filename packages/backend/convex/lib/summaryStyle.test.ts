@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest"
+import { buildSummarySystemPrompt, isDefaultSummary } from "./summaryStyle"
+
+describe("buildSummarySystemPrompt", () => {
+  it("keeps the default summary in the newsletter's language, as 3-5 bullets", () => {
+    const prompt = buildSummarySystemPrompt("bullets", undefined)
+
+    expect(prompt).toContain("Write the summary in the SAME LANGUAGE as the newsletter content")
+    expect(prompt).toContain("Key points and main topics (3-5 bullet points)")
+    expect(prompt).toContain("Keep the summary under 200 words.")
+  })
+
+  it("asks for a target language when one is given", () => {
+    const prompt = buildSummarySystemPrompt("bullets", "fr")
+
+    expect(prompt).toContain("Write the summary in French, whatever the language")
+    expect(prompt).not.toContain("SAME LANGUAGE")
+  })
+
+  it("uses each style's instructions", () => {
+    expect(buildSummarySystemPrompt("tldr", undefined)).toContain("a single sentence")
+    expect(buildSummarySystemPrompt("detailed", undefined)).toContain("under 500 words")
+    expect(buildSummarySystemPrompt("actionItems", undefined)).toContain(
+      "List only what the reader can act on"
+    )
+    expect(buildSummarySystemPrompt("beginner", "de")).toContain(
+      "a reader who is new to its subject"
+    )
+  })
+})
+
+describe("isDefaultSummary", () => {
+  it("is only the bullets style in the newsletter's language", () => {
+    expect(isDefaultSummary("bullets", undefined)).toBe(true)
+    expect(isDefaultSummary("bullets", "en")).toBe(false)
+    expect(isDefaultSummary("tldr", undefined)).toBe(false)
+  })
+})
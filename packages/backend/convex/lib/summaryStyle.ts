@@ -0,0 +1,80 @@
+/**
+ * AI summary styles
+ *
+ * The default style (bullets, in the newsletter's own language) is the one
+ * stored on newsletterContent.summary / userNewsletters.summary; every other
+ * style or target language is cached separately in summaryVariants.
+ */
+import { v, type Infer } from "convex/values"
+import { LANGUAGE_NAMES, type SupportedLanguage } from "./detectLanguage"
+
+export const summaryStyleValidator = v.union(
+  v.literal("bullets"),
+  v.literal("tldr"),
+  v.literal("detailed"),
+  v.literal("actionItems"),
+  v.literal("beginner")
+)
+
+export type SummaryStyle = Infer<typeof summaryStyleValidator>
+
+export const DEFAULT_SUMMARY_STYLE: SummaryStyle = "bullets"
+
+const STYLE_INSTRUCTIONS: Record<SummaryStyle, string> = {
+  bullets: `Create a concise summary that captures:
+- Key points and main topics (3-5 bullet points)
+- Important takeaways
+- Any action items or deadlines mentioned
+
+Keep the summary under 200 words. Use clear, simple language.
+Format as a brief introduction followed by bullet points.`,
+
+  tldr: `Write a single sentence that captures the one thing the reader should take away.
+
+Keep it under 30 words. No introduction, no bullet points.`,
+
+  detailed: `Write a detailed brief for a reader who won't read the original:
+- A short overview paragraph
+- One short section per main topic, with the key facts, figures and arguments
+- Important takeaways, action items and deadlines
+
+Keep the brief under 500 words. Use short paragraphs and bullet points.`,
+
+  actionItems: `List only what the reader can act on: action items, deadlines, events, offers and links worth following.
+Use one bullet point per item, with its date when there is one.
+
+If there is nothing to act on, say so in one sentence. Don't summarize the rest of the content.`,
+
+  beginner: `Explain the newsletter to a reader who is new to its subject:
+- Say what it's about in plain words
+- Explain the jargon, acronyms and background the reader needs
+- Cover the 3-5 main points and why they matter
+
+Keep it under 300 words. Avoid technical terms unless you explain them.`,
+}
+
+/**
+ * Whether a style/language pair is the default summary (the shared one)
+ */
+export function isDefaultSummary(style: SummaryStyle, language: SupportedLanguage | undefined): boolean {
+  return style === DEFAULT_SUMMARY_STYLE && !language
+}
+
+/**
+ * System prompt for a summary style, in the newsletter's language unless a
+ * target language is given
+ */
+export function buildSummarySystemPrompt(
+  style: SummaryStyle,
+  language: SupportedLanguage | undefined
+): string {
+  const languageRule = language
+    ? `IMPORTANT: Write the summary in ${LANGUAGE_NAMES[language]}, whatever the language of the newsletter content.`
+    : "IMPORTANT: Write the summary in the SAME LANGUAGE as the newsletter content. If the newsletter is in French, write the summary in French. If in Spanish, write in Spanish. Match the content's language exactly."
+
+  return `You are a helpful assistant that summarizes newsletter content.
+
+${languageRule}
+
+${STYLE_INSTRUCTIONS[style]}`
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest"
+import { chunkText, CHUNK_LENGTH, MAX_CHUNKS_PER_NEWSLETTER } from "./textChunks"
+
+function sentences(count: number, length = 99) {
+  return Array.from({ length: count }, (_, index) =>
+    `${String(index).padEnd(length - 1, "x")}.`
+  )
+}
+
+describe("chunkText", () => {
+  it("keeps short text in one passage with whitespace collapsed", () => {
+    expect(chunkText("  Rates   rose.\n\nMarkets dipped. ")).toEqual([
+      "Rates rose. Markets dipped.",
+    ])
+    expect(chunkText(" \n ")).toEqual([])
+  })
+
+  it("splits on sentences and repeats the end of the previous passage", () => {
+    const chunks = chunkText(sentences(15).join(" "))
+
+    expect(chunks).toHaveLength(2)
+    expect(chunks[0].length).toBeLessThanOrEqual(CHUNK_LENGTH)
+    const lastSentence = chunks[0].split(" ").pop()!
+    expect(chunks[1].startsWith(lastSentence)).toBe(true)
+  })
+
+  it("splits sentences longer than a passage on words", () => {
+    const words = Array.from({ length: 400 }, () => "word").join(" ")
+    const chunks = chunkText(words)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.every((chunk) => chunk.length <= CHUNK_LENGTH + 200)).toBe(true)
+    expect(chunks.join(" ")).toContain("word word")
+  })
+
+  it("stops at the passage limit", () => {
+    const chunks = chunkText(sentences(500).join(" "))
+    expect(chunks).toHaveLength(MAX_CHUNKS_PER_NEWSLETTER)
+  })
+})
@@ -0,0 +1,80 @@
+/**
+ * Text chunking for embeddings
+ *
+ * Newsletter bodies are split into passages of about CHUNK_LENGTH characters
+ * on sentence boundaries, each one repeating the end of the previous passage
+ * so a fact split across two chunks is still found whole in one of them.
+ */
+
+/** Embedding model (through OpenRouter) and the size of its vectors */
+export const EMBEDDING_MODEL = "openai/text-embedding-3-small"
+export const EMBEDDING_DIMENSIONS = 1536
+
+/** Target passage length (~250 tokens) */
+export const CHUNK_LENGTH = 1000
+
+/** Text repeated from the end of the previous passage */
+const CHUNK_OVERLAP = 150
+
+/** Maximum passages per newsletter (the rest of a long body isn't indexed) */
+export const MAX_CHUNKS_PER_NEWSLETTER = 16
+
+/**
+ * Split text into sentences, and sentences longer than a chunk into word
+ * groups that fit
+ */
+function splitSentences(text: string): string[] {
+  const pieces: string[] = []
+  for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+    if (sentence.length <= CHUNK_LENGTH) {
+      pieces.push(sentence)
+      continue
+    }
+
+    let current = ""
+    for (const word of sentence.split(" ")) {
+      if (current && current.length + word.length + 1 > CHUNK_LENGTH) {
+        pieces.push(current)
+        current = ""
+      }
+      current = current ? `${current} ${word}` : word.slice(0, CHUNK_LENGTH)
+    }
+    if (current) pieces.push(current)
+  }
+  return pieces
+}
+
+/**
+ * Split a plain-text body into overlapping passages
+ */
+export function chunkText(text: string): string[] {
+  const normalized = text.replace(/\s+/g, " ").trim()
+  if (!normalized) return []
+
+  const chunks: string[] = []
+  let current: string[] = []
+  let currentLength = 0
+
+  for (const sentence of splitSentences(normalized)) {
+    if (current.length > 0 && currentLength + sentence.length + 1 > CHUNK_LENGTH) {
+      chunks.push(current.join(" "))
+      if (chunks.length === MAX_CHUNKS_PER_NEWSLETTER) return chunks
+
+      // Carry the last sentences over, up to the overlap
+      const carried: string[] = []
+      let carriedLength = 0
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (carriedLength + current[i].length > CHUNK_OVERLAP) break
+        carried.unshift(current[i])
+        carriedLength += current[i].length + 1
+      }
+      current = carried
+      currentLength = carriedLength
+    }
+    current.push(sentence)
+    currentLength += sentence.length + 1
+  }
+
+  if (current.length > 0) chunks.push(current.join(" "))
+  return chunks
+}
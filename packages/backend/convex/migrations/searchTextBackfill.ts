@@ -0,0 +1,92 @@
+import { internalAction, internalQuery } from "../_generated/server"
+import { v } from "convex/values"
+import { internal } from "../_generated/api"
+import type { Id } from "../_generated/dataModel"
+import { r2 } from "../r2"
+import { stripHtmlToText } from "../ai"
+import { MAX_SEARCH_BODY_LENGTH } from "../lib/searchText"
+
+/**
+ * Search Text Backfill - Index newsletter bodies for full-text search
+ *
+ * Newsletters ingested before full-text search (and community imports) only
+ * have their subject and sender in newsletterSearchMeta.searchText. This
+ * fetches each body from R2 and adds its plain text.
+ *
+ * IDEMPOTENT: Skips rows already marked isBodyIndexed. Runs in batches,
+ * scheduling itself until the whole table has been visited.
+ *
+ * Run via Convex dashboard:
+ *   npx convex run migrations/searchTextBackfill:runMigration
+ */
+
+const BATCH_SIZE = 50
+
+type PendingSearchMeta = {
+  searchMetaId: Id<"newsletterSearchMeta">
+  r2Key: string | null
+}
+
+export const runMigration = internalAction({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args): Promise<{ indexed: number; failed: number; isDone: boolean }> => {
+    const batch: { pending: PendingSearchMeta[]; continueCursor: string; isDone: boolean } =
+      await ctx.runQuery(internal.migrations.searchTextBackfill.getPendingSearchMeta, {
+        cursor: args.cursor ?? null,
+      })
+
+    let indexed = 0
+    let failed = 0
+    for (const { searchMetaId, r2Key } of batch.pending) {
+      try {
+        // No content to index (e.g. deleted from R2): mark as indexed anyway
+        let bodyText = ""
+        if (r2Key) {
+          const response = await fetch(await r2.getUrl(r2Key, { expiresIn: 300 }))
+          if (!response.ok) throw new Error(`R2 fetch failed with status ${response.status}`)
+          bodyText = stripHtmlToText(await response.text()).slice(0, MAX_SEARCH_BODY_LENGTH)
+        }
+        await ctx.runMutation(internal.newsletters.setSearchBodyText, { searchMetaId, bodyText })
+        indexed++
+      } catch (error) {
+        console.error(`[searchTextBackfill] Failed to index ${searchMetaId}:`, error)
+        failed++
+      }
+    }
+
+    if (!batch.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.searchTextBackfill.runMigration, {
+        cursor: batch.continueCursor,
+      })
+    }
+
+    return { indexed, failed, isDone: batch.isDone }
+  },
+})
+
+/**
+ * One page of newsletterSearchMeta, reduced to the rows still missing a body
+ */
+export const getPendingSearchMeta = internalQuery({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("newsletterSearchMeta")
+      .paginate({ cursor: args.cursor, numItems: BATCH_SIZE })
+
+    const pending: PendingSearchMeta[] = []
+    for (const meta of result.page) {
+      if (meta.isBodyIndexed) continue
+
+      const newsletter = await ctx.db.get("userNewsletters", meta.userNewsletterId)
+      let r2Key = newsletter?.privateR2Key ?? null
+      if (!r2Key && newsletter?.contentId) {
+        const content = await ctx.db.get("newsletterContent", newsletter.contentId)
+        r2Key = content?.r2Key ?? null
+      }
+      pending.push({ searchMetaId: meta._id, r2Key })
+    }
+
+    return { pending, continueCursor: result.continueCursor, isDone: result.isDone }
+  },
+})
@@ -0,0 +1,349 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api, internal } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+import { AI_DAILY_LIMIT } from "./entitlements"
+import { EMBEDDING_DIMENSIONS } from "./lib/textChunks"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://r2.example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+const STUB_URL = "http://localhost:4010/v1"
+const DAY = 24 * 60 * 60 * 1000
+const TOPICS = ["regulation", "chips", "recipes"]
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>, name: string, plan: "free" | "pro" = "pro") {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: `${name}@example.com`,
+      createdAt: Date.now(),
+      authId: `auth_${name}`,
+      dedicatedEmail: `${name}-1234@hushletter.test`,
+      plan,
+      proExpiresAt: plan === "pro" ? Date.now() + 30 * DAY : undefined,
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to: "reader-1234@hushletter.test",
+      from: "weekly@news.example.com",
+      subject: "Weekly",
+      receivedAt: Date.now(),
+      htmlContent: "<p>Weekly</p>",
+      ...payload,
+    }),
+  })
+  const body = (await response.json()) as { userNewsletterId: Id<"userNewsletters"> }
+  return body.userNewsletterId
+}
+
+/** One dimension per topic the text mentions, so similar texts share them */
+function embed(text: string): number[] {
+  const embedding: number[] = Array.from({ length: EMBEDDING_DIMENSIONS }, () => 0)
+  TOPICS.forEach((topic, index) => {
+    if (text.toLowerCase().includes(topic)) embedding[index] = 1
+  })
+  embedding[TOPICS.length] = 0.1
+  return embedding
+}
+
+/**
+ * Local OpenRouter stand-in: keyword embeddings, and chat completions that
+ * answer with `answer` and record the prompt
+ */
+function stubOpenRouter(answer: string) {
+  const prompts: string[] = []
+  const realFetch = globalThis.fetch
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input)
+      if (!url.startsWith(STUB_URL)) return realFetch(input, init)
+
+      const body = JSON.parse(String(init?.body))
+      const data =
+        url === `${STUB_URL}/embeddings`
+          ? {
+              data: (body.input as string[]).map((text, index) => ({
+                embedding: embed(text),
+                index,
+              })),
+            }
+          : (prompts.push(body.messages[1].content),
+            { choices: [{ message: { content: answer } }] })
+      return new Response(JSON.stringify(data), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      })
+    })
+  )
+  return prompts
+}
+
+describe("questions across the archive", () => {
+  let previousEnv: Record<string, string | undefined>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    previousEnv = {
+      INTERNAL_API_KEY: process.env.INTERNAL_API_KEY,
+      OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY,
+      OPENROUTER_API_URL: process.env.OPENROUTER_API_URL,
+    }
+    process.env.INTERNAL_API_KEY = API_KEY
+    process.env.OPENROUTER_API_KEY = "test"
+    process.env.OPENROUTER_API_URL = STUB_URL
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    for (const [key, value] of Object.entries(previousEnv)) {
+      if (value === undefined) delete process.env[key]
+      else process.env[key] = value
+    }
+  })
+
+  it("indexes newsletters at ingestion and answers with citations", async () => {
+    const t = makeT()
+    await seedUser(t, "reader")
+    const prompts = stubOpenRouter("The EU AI Act passed [1].")
+    const regulationId = await postEmail(t, {
+      subject: "Policy brief",
+      senderName: "Policy Weekly",
+      htmlContent: "<p>The EU agreed on AI regulation this week.</p>",
+    })
+    await postEmail(t, {
+      subject: "Chip news",
+      htmlContent: "<p>New chips shipped.</p>",
+    })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+
+    const chunks = await t.run(async (ctx) => ctx.db.query("newsletterChunks").collect())
+    expect(chunks.map((chunk) => chunk.text).sort()).toEqual([
+      "New chips shipped.",
+      "The EU agreed on AI regulation this week.",
+    ])
+
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const result = await reader.action(api.newsletterQa.askNewsletters, {
+      question: "What did my newsletters say about EU AI regulation?",
+    })
+
+    expect(result.answer).toBe("The EU AI Act passed [1].")
+    expect(result.sources[0]).toMatchObject({
+      ref: 1,
+      userNewsletterId: regulationId,
+      subject: "Policy brief",
+      senderName: "Policy Weekly",
+    })
+    expect(prompts[0]).toContain("Question: What did my newsletters say about EU AI regulation?")
+    expect(prompts[0]).toContain('[1] "Policy brief" from Policy Weekly')
+    expect(prompts[0]).toContain("The EU agreed on AI regulation this week.")
+
+    const state = await t.run(async (ctx) => ({
+      usage: await ctx.db.query("aiUsageDaily").collect(),
+      locks: await ctx.db.query("aiInFlight").collect(),
+    }))
+    expect(state.usage.map((row) => row.count)).toEqual([1])
+    expect(state.locks).toEqual([])
+
+    // Deleting a newsletter removes its passages
+    await reader.mutation(api.newsletters.deleteUserNewsletter, {
+      userNewsletterId: regulationId,
+    })
+    const remaining = await t.run(async (ctx) => ctx.db.query("newsletterChunks").collect())
+    expect(remaining.map((chunk) => chunk.text)).toEqual(["New chips shipped."])
+  })
+
+  it("only quotes the asker's readable newsletters from the requested period", async () => {
+    const t = makeT()
+    await seedUser(t, "reader")
+    const prompts = stubOpenRouter("Nothing new [1].")
+    const oldId = await postEmail(t, {
+      subject: "Old regulation",
+      receivedAt: Date.now() - 40 * DAY,
+      htmlContent: "<p>Old regulation news.</p>",
+    })
+    const lockedId = await postEmail(t, {
+      subject: "Locked regulation",
+      htmlContent: "<p>Locked regulation news.</p>",
+    })
+    const binnedId = await postEmail(t, {
+      subject: "Binned regulation",
+      htmlContent: "<p>Binned regulation news.</p>",
+    })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+    await t.run(async (ctx) => {
+      await ctx.db.patch("userNewsletters", lockedId, { isLockedByPlan: true })
+      await ctx.db.patch("userNewsletters", binnedId, { isBinned: true, binnedAt: Date.now() })
+    })
+
+    // Someone else's newsletter on the same topic
+    await seedUser(t, "other")
+    await postEmail(t, {
+      to: "other-1234@hushletter.test",
+      subject: "Other regulation",
+      htmlContent: "<p>Private regulation notes.</p>",
+    })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const thisMonth = await reader.action(api.newsletterQa.askNewsletters, {
+      question: "Any regulation news?",
+      since: Date.now() - 30 * DAY,
+    })
+    expect(thisMonth).toEqual({ answer: null, sources: [] })
+    expect(prompts).toEqual([])
+
+    const anyTime = await reader.action(api.newsletterQa.askNewsletters, {
+      question: "Any regulation news?",
+    })
+    expect(anyTime.sources.map((source) => source.userNewsletterId)).toEqual([oldId])
+    expect(prompts[0]).not.toContain("Private regulation notes.")
+
+    const usage = await t.run(async (ctx) => ctx.db.query("aiUsageDaily").collect())
+    expect(usage.map((row) => row.count)).toEqual([1])
+  })
+
+  it("searches within the requested period even when older passages match better", async () => {
+    const t = makeT()
+    await seedUser(t, "reader")
+    stubOpenRouter("Chips and regulation [1].")
+    const oldId = await postEmail(t, {
+      subject: "Old regulation",
+      receivedAt: Date.now() - 60 * DAY,
+      htmlContent: "<p>Old regulation news.</p>",
+    })
+    const recentId = await postEmail(t, {
+      subject: "Recent regulation",
+      htmlContent: "<p>Regulation of chips.</p>",
+    })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+
+    // More old passages than the vector search returns, all closer to the question
+    await t.run(async (ctx) => {
+      const oldChunk = await ctx.db
+        .query("newsletterChunks")
+        .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", oldId))
+        .first()
+      const { _id, _creationTime, ...fields } = oldChunk!
+      for (let chunkIndex = 1; chunkIndex <= 40; chunkIndex++) {
+        await ctx.db.insert("newsletterChunks", { ...fields, chunkIndex })
+      }
+    })
+
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const thisWeek = await reader.action(api.newsletterQa.askNewsletters, {
+      question: "Any regulation news?",
+      since: Date.now() - 7 * DAY,
+    })
+    expect(thisWeek.sources.map((source) => source.userNewsletterId)).toEqual([recentId])
+  })
+
+  it("indexes free users' newsletters only once they upgrade, and older ones on the first question", async () => {
+    const t = makeT()
+    await seedUser(t, "reader", "free")
+    stubOpenRouter("Regulation news [1].")
+    const freeId = await postEmail(t, {
+      subject: "Policy brief",
+      htmlContent: "<p>The EU agreed on AI regulation.</p>",
+    })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+    await expect(t.run(async (ctx) => ctx.db.query("newsletterChunks").collect())).resolves.toEqual(
+      []
+    )
+
+    await t.mutation(internal.billing.applySubscriptionUpdate, {
+      userId: "auth_reader",
+      status: "active",
+      currentPeriodEnd: Date.now() + 30 * DAY,
+      eventType: "customer.subscription.created",
+    })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+    const afterUpgrade = await t.run(async (ctx) => ctx.db.query("newsletterChunks").collect())
+    expect(afterUpgrade.map((chunk) => chunk.userNewsletterId)).toEqual([freeId])
+
+    // Delivered while indexing wasn't configured
+    await seedUser(t, "early")
+    delete process.env.OPENROUTER_API_KEY
+    const earlyId = await postEmail(t, {
+      to: "early-1234@hushletter.test",
+      subject: "Early regulation",
+      htmlContent: "<p>Early regulation news.</p>",
+    })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+    process.env.OPENROUTER_API_KEY = "test"
+
+    const early = t.withIdentity({ subject: "auth_early" })
+    const question = { question: "Any regulation news?" }
+    await expect(early.action(api.newsletterQa.askNewsletters, question)).resolves.toEqual({
+      answer: null,
+      sources: [],
+    })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+    const answered = await early.action(api.newsletterQa.askNewsletters, question)
+    expect(answered.sources.map((source) => source.userNewsletterId)).toEqual([earlyId])
+  })
+
+  it("requires Pro and respects the daily AI limit and the in-flight lock", async () => {
+    const t = makeT()
+    await seedUser(t, "free", "free")
+    const userId = await seedUser(t, "reader")
+    const prompts = stubOpenRouter("Answer [1].")
+    const question = { question: "Any regulation news?" }
+
+    await expect(
+      t.withIdentity({ subject: "auth_free" }).action(api.newsletterQa.askNewsletters, question)
+    ).rejects.toThrow(/Hushletter Pro is required/)
+
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    await expect(
+      reader.action(api.newsletterQa.askNewsletters, { question: "   " })
+    ).rejects.toThrow(/Question is empty/)
+
+    const lockId = await t.run(async (ctx) =>
+      ctx.db.insert("aiInFlight", { userId, startedAt: Date.now() })
+    )
+    await expect(reader.action(api.newsletterQa.askNewsletters, question)).rejects.toThrow(
+      /Another AI request is already running/
+    )
+    await t.run(async (ctx) => ctx.db.delete("aiInFlight", lockId))
+
+    await t.run(async (ctx) =>
+      ctx.db.insert("aiUsageDaily", {
+        userId,
+        day: new Date().toISOString().slice(0, 10),
+        count: AI_DAILY_LIMIT,
+        updatedAt: Date.now(),
+      })
+    )
+    await expect(reader.action(api.newsletterQa.askNewsletters, question)).rejects.toThrow(
+      /today’s AI limit/
+    )
+
+    expect(prompts).toEqual([])
+    await expect(t.run(async (ctx) => ctx.db.query("aiInFlight").collect())).resolves.toEqual([])
+  })
+})
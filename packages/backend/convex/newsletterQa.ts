@@ -0,0 +1,458 @@
+import {
+  action,
+  internalAction,
+  internalMutation,
+  internalQuery,
+  type MutationCtx,
+} from "./_generated/server"
+import { v, ConvexError } from "convex/values"
+import { internal } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+import { AI_DAILY_LIMIT, isUserPro, requireProFromUser } from "./entitlements"
+import { generateCompletion, generateEmbeddings } from "./lib/openrouter"
+import { chunkText, EMBEDDING_MODEL } from "./lib/textChunks"
+
+/**
+ * Questions across the newsletter archive ("Ask your newsletters")
+ *
+ * A Pro user's newsletter body is split into passages and embedded right
+ * after ingestion (indexNewsletter); what arrived before they upgraded, or
+ * before their first question, is queued by backfillNewsletterIndex.
+ * askNewsletters embeds the question, finds the closest passages among the
+ * asker's own newsletters, and has the model answer from them only, citing
+ * each newsletter as [n].
+ * Asking is Pro only and counts toward AI_DAILY_LIMIT like summaries do;
+ * indexing isn't metered.
+ */
+
+/** Longest question accepted */
+const MAX_QUESTION_LENGTH = 500
+
+/** Passages fetched from the vector index before filtering */
+const VECTOR_SEARCH_LIMIT = 32
+
+/** Passages given to the model */
+const MAX_ANSWER_PASSAGES = 8
+
+/** Most months a `since` filter lists; longer periods only filter afterwards */
+const MAX_FILTER_MONTHS = 24
+
+/** Newsletters looked at per backfill batch */
+const BACKFILL_BATCH_SIZE = 50
+
+/** Pause between backfill batches, to spread out the embedding calls */
+const BACKFILL_BATCH_DELAY_MS = 10_000
+
+const QA_SYSTEM_PROMPT = `You are a helpful assistant that answers questions about the newsletters a reader received.
+
+You get the question and passages from the reader's newsletters. Each passage is labeled with its newsletter's number, like [3], subject, sender and date.
+
+Answer in the same language as the question, using only the passages:
+- Be concise: a short paragraph or a few bullet points ("- ")
+- After every statement, cite the newsletters it comes from, like [1] or [2][3]
+- If the passages don't answer the question, say so instead of guessing
+
+Never cite a number that isn't in the passages.`
+
+/**
+ * A passage's `userMonth`: the user and the UTC month it was received in
+ */
+function getUserMonth(userId: Id<"users">, timestamp: number): string {
+  return `${userId}:${new Date(timestamp).toISOString().slice(0, 7)}`
+}
+
+/**
+ * Every `userMonth` from `since` to now, or null when there are too many
+ * to filter on
+ */
+function getUserMonthsSince(userId: Id<"users">, since: number): string[] | null {
+  const months: string[] = []
+  const month = new Date(since)
+  month.setUTCDate(1)
+  month.setUTCHours(0, 0, 0, 0)
+  while (month.getTime() <= Date.now()) {
+    if (months.length === MAX_FILTER_MONTHS) return null
+    months.push(getUserMonth(userId, month.getTime()))
+    month.setUTCMonth(month.getUTCMonth() + 1)
+  }
+  return months
+}
+
+/**
+ * Remove the indexed passages of a newsletter (called when it's deleted)
+ */
+export async function deleteNewsletterChunks(
+  ctx: Pick<MutationCtx, "db">,
+  userNewsletterId: Id<"userNewsletters">
+): Promise<void> {
+  const chunks = await ctx.db
+    .query("newsletterChunks")
+    .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", userNewsletterId))
+    .collect()
+  for (const chunk of chunks) {
+    await ctx.db.delete("newsletterChunks", chunk._id)
+  }
+}
+
+/**
+ * What indexNewsletter embeds: the plain-text body kept for search
+ * Null when the newsletter is gone or its owner isn't Pro (anymore).
+ */
+export const getNewsletterForIndexing = internalQuery({
+  args: { userNewsletterId: v.id("userNewsletters") },
+  handler: async (ctx, args) => {
+    const newsletter = await ctx.db.get("userNewsletters", args.userNewsletterId)
+    if (!newsletter) return null
+    const user = await ctx.db.get("users", newsletter.userId)
+    if (!user || !isUserPro(user)) return null
+
+    const searchMeta = await ctx.db
+      .query("newsletterSearchMeta")
+      .withIndex("by_userId_userNewsletterId", (q) =>
+        q.eq("userId", newsletter.userId).eq("userNewsletterId", newsletter._id)
+      )
+      .first()
+    // searchText is a header line followed by the body (see lib/searchText.ts)
+    const newlineIndex = searchMeta?.searchText?.indexOf("\n") ?? -1
+    const bodyText = newlineIndex === -1 ? "" : searchMeta!.searchText!.slice(newlineIndex + 1)
+
+    return { subject: newsletter.subject, bodyText }
+  },
+})
+
+/**
+ * Replace a newsletter's passages (skipped when it was deleted meanwhile)
+ */
+export const replaceNewsletterChunks = internalMutation({
+  args: {
+    userNewsletterId: v.id("userNewsletters"),
+    chunks: v.array(v.object({ text: v.string(), embedding: v.array(v.float64()) })),
+  },
+  handler: async (ctx, args) => {
+    const newsletter = await ctx.db.get("userNewsletters", args.userNewsletterId)
+    if (!newsletter) return
+
+    await deleteNewsletterChunks(ctx, newsletter._id)
+    for (const [chunkIndex, chunk] of args.chunks.entries()) {
+      await ctx.db.insert("newsletterChunks", {
+        userId: newsletter.userId,
+        userNewsletterId: newsletter._id,
+        chunkIndex,
+        text: chunk.text,
+        embedding: chunk.embedding,
+        receivedAt: newsletter.receivedAt,
+        userMonth: getUserMonth(newsletter.userId, newsletter.receivedAt),
+      })
+    }
+  },
+})
+
+/**
+ * Mark the user's archive as queued and start backfillNewsletterIndex
+ * Called when a user becomes Pro and on their first question.
+ */
+export async function scheduleNewsletterIndexBackfill(
+  ctx: Pick<MutationCtx, "db" | "scheduler">,
+  userId: Id<"users">
+): Promise<void> {
+  await ctx.db.patch("users", userId, { newsletterIndexBackfilledAt: Date.now() })
+  await ctx.scheduler.runAfter(0, internal.newsletterQa.backfillNewsletterIndex, { userId })
+}
+
+/**
+ * Queue the backfill once, for users who never had it (first question)
+ */
+export const ensureNewsletterIndexBackfill = internalMutation({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get("users", args.userId)
+    if (!user || user.newsletterIndexBackfilledAt !== undefined) return
+    await scheduleNewsletterIndexBackfill(ctx, user._id)
+  },
+})
+
+/**
+ * Queue indexNewsletter for a Pro user's newsletters that have no passages
+ * yet, one batch at a time (binned ones are skipped)
+ */
+export const backfillNewsletterIndex = internalMutation({
+  args: { userId: v.id("users"), cursor: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    if (!process.env.OPENROUTER_API_KEY) return
+    const user = await ctx.db.get("users", args.userId)
+    if (!user || !isUserPro(user)) return
+
+    const page = await ctx.db
+      .query("userNewsletters")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .paginate({ numItems: BACKFILL_BATCH_SIZE, cursor: args.cursor ?? null })
+
+    for (const newsletter of page.page) {
+      if (newsletter.isBinned) continue
+      const chunk = await ctx.db
+        .query("newsletterChunks")
+        .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", newsletter._id))
+        .first()
+      if (chunk) continue
+      await ctx.scheduler.runAfter(0, internal.newsletterQa.indexNewsletter, {
+        userNewsletterId: newsletter._id,
+      })
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(
+        BACKFILL_BATCH_DELAY_MS,
+        internal.newsletterQa.backfillNewsletterIndex,
+        { userId: user._id, cursor: page.continueCursor }
+      )
+    }
+  },
+})
+
+/**
+ * Split a newsletter's body into passages and embed them
+ * Scheduled after a Pro user's ingestion and by the backfill; failures are
+ * logged, the newsletter just won't show up in answers.
+ */
+export const indexNewsletter = internalAction({
+  args: { userNewsletterId: v.id("userNewsletters") },
+  handler: async (ctx, args) => {
+    const apiKey = process.env.OPENROUTER_API_KEY
+    if (!apiKey) return
+
+    const newsletter = await ctx.runQuery(internal.newsletterQa.getNewsletterForIndexing, args)
+    if (!newsletter) return
+
+    const passages = chunkText(newsletter.bodyText)
+    if (passages.length === 0) return
+
+    try {
+      // The subject gives each passage its context
+      const embeddings = await generateEmbeddings(
+        { apiKey, model: EMBEDDING_MODEL, timeout: 30000 },
+        passages.map((passage) => `${newsletter.subject}\n\n${passage}`)
+      )
+      await ctx.runMutation(internal.newsletterQa.replaceNewsletterChunks, {
+        userNewsletterId: args.userNewsletterId,
+        chunks: passages.map((text, index) => ({ text, embedding: embeddings[index] })),
+      })
+    } catch (error) {
+      console.error("[indexNewsletter] Embedding error:", error)
+    }
+  },
+})
+
+type AnswerSource = {
+  ref: number
+  userNewsletterId: Id<"userNewsletters">
+  subject: string
+  senderEmail: string
+  senderName?: string
+  receivedAt: number
+}
+
+type AnswerPassage = {
+  userNewsletterId: Id<"userNewsletters">
+  subject: string
+  senderEmail: string
+  senderName?: string
+  receivedAt: number
+  text: string
+}
+
+/**
+ * Passages the answer may quote, in search order: only the user's own
+ * newsletters, never binned or locked by plan, received since `since`
+ */
+export const getAnswerPassages = internalQuery({
+  args: {
+    userId: v.id("users"),
+    chunkIds: v.array(v.id("newsletterChunks")),
+    since: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<AnswerPassage[]> => {
+    const passages: AnswerPassage[] = []
+    for (const chunkId of args.chunkIds) {
+      const chunk = await ctx.db.get("newsletterChunks", chunkId)
+      if (!chunk || chunk.userId !== args.userId) continue
+      if (args.since !== undefined && chunk.receivedAt < args.since) continue
+
+      const newsletter = await ctx.db.get("userNewsletters", chunk.userNewsletterId)
+      if (!newsletter || newsletter.userId !== args.userId) continue
+      // Locked newsletters can't be read, so they can't be quoted either
+      if (newsletter.isBinned || newsletter.isLockedByPlan) continue
+
+      passages.push({
+        userNewsletterId: newsletter._id,
+        subject: newsletter.subject,
+        senderEmail: newsletter.senderEmail,
+        senderName: newsletter.senderName,
+        receivedAt: newsletter.receivedAt,
+        text: chunk.text,
+      })
+      if (passages.length === MAX_ANSWER_PASSAGES) break
+    }
+    return passages
+  },
+})
+
+/**
+ * Number newsletters in order of their best passage and build the prompt
+ */
+function buildAnswerPrompt(
+  question: string,
+  passages: AnswerPassage[]
+): { prompt: string; sources: AnswerSource[] } {
+  const sources: AnswerSource[] = []
+  const refs = new Map<Id<"userNewsletters">, number>()
+  const blocks = passages.map((passage) => {
+    let ref = refs.get(passage.userNewsletterId)
+    if (ref === undefined) {
+      ref = sources.length + 1
+      refs.set(passage.userNewsletterId, ref)
+      sources.push({
+        ref,
+        userNewsletterId: passage.userNewsletterId,
+        subject: passage.subject,
+        senderEmail: passage.senderEmail,
+        senderName: passage.senderName,
+        receivedAt: passage.receivedAt,
+      })
+    }
+    const sender = passage.senderName || passage.senderEmail
+    const date = new Date(passage.receivedAt).toISOString().slice(0, 10)
+    return `[${ref}] "${passage.subject}" from ${sender}, ${date}\n${passage.text}`
+  })
+
+  return {
+    prompt: `Question: ${question}\n\nPassages:\n\n${blocks.join("\n\n")}`,
+    sources,
+  }
+}
+
+/**
+ * Answer a question from the user's newsletters, citing them as [n]
+ * `answer` is null when no newsletter matches (no AI call is made then).
+ *
+ * @throws ConvexError with codes: UNAUTHORIZED, PRO_REQUIRED, VALIDATION_ERROR,
+ *         AI_CONFIG_ERROR, AI_BUSY, AI_LIMIT_REACHED, AI_TIMEOUT, AI_UNAVAILABLE
+ */
+export const askNewsletters = action({
+  args: {
+    question: v.string(),
+    // Only newsletters received since (Unix timestamp ms)
+    since: v.optional(v.number()),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ answer: string | null; sources: AnswerSource[] }> => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+    const user = await ctx.runQuery(internal._internal.users.findByAuthId, {
+      authId: identity.subject,
+    })
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+    requireProFromUser({ plan: user.plan ?? "free", proExpiresAt: user.proExpiresAt })
+
+    const question = args.question.trim()
+    if (!question) {
+      throw new ConvexError({ code: "VALIDATION_ERROR", message: "Question is empty" })
+    }
+    if (question.length > MAX_QUESTION_LENGTH) {
+      throw new ConvexError({
+        code: "VALIDATION_ERROR",
+        message: `Questions can be at most ${MAX_QUESTION_LENGTH} characters`,
+      })
+    }
+
+    const apiKey = process.env.OPENROUTER_API_KEY
+    if (!apiKey) {
+      throw new ConvexError({
+        code: "AI_CONFIG_ERROR",
+        message: "AI service is not configured",
+      })
+    }
+    await ctx.runMutation(internal.newsletterQa.ensureNewsletterIndexBackfill, {
+      userId: user._id,
+    })
+
+    const acquired = await ctx.runMutation(internal.ai.tryAcquireAiInFlight, {
+      userId: user._id,
+    })
+    if (!acquired) {
+      throw new ConvexError({
+        code: "AI_BUSY",
+        message: "Another AI request is already running. Please wait.",
+      })
+    }
+
+    try {
+      const day = new Date().toISOString().slice(0, 10)
+      const used = await ctx.runQuery(internal.ai.getAiUsageDaily, {
+        userId: user._id,
+        day,
+      })
+      if (used >= AI_DAILY_LIMIT) {
+        throw new ConvexError({
+          code: "AI_LIMIT_REACHED",
+          message: "You’ve reached today’s AI limit. Please try again tomorrow.",
+        })
+      }
+
+      const [questionEmbedding] = await generateEmbeddings(
+        { apiKey, model: EMBEDDING_MODEL, timeout: 15000 },
+        [question]
+      )
+      // Filter by month inside the search so older passages can't crowd out
+      // the period asked about; the exact `since` is checked afterwards
+      const userMonths = args.since === undefined ? null : getUserMonthsSince(user._id, args.since)
+      const results = await ctx.vectorSearch("newsletterChunks", "by_embedding", {
+        vector: questionEmbedding,
+        limit: VECTOR_SEARCH_LIMIT,
+        filter: (q) =>
+          userMonths
+            ? q.or(...userMonths.map((userMonth) => q.eq("userMonth", userMonth)))
+            : q.eq("userId", user._id),
+      })
+      const passages = await ctx.runQuery(internal.newsletterQa.getAnswerPassages, {
+        userId: user._id,
+        chunkIds: results.map((result) => result._id),
+        since: args.since,
+      })
+      if (passages.length === 0) return { answer: null, sources: [] }
+
+      const { prompt, sources } = buildAnswerPrompt(question, passages)
+      const answer = await generateCompletion(
+        { apiKey, model: "openai/gpt-oss-120b", timeout: 30000, maxTokens: 800 },
+        QA_SYSTEM_PROMPT,
+        prompt
+      )
+      await ctx.runMutation(internal.ai.incrementAiUsageDaily, {
+        userId: user._id,
+        day,
+      })
+      return { answer, sources }
+    } catch (error) {
+      if (error instanceof ConvexError) throw error
+      if (error instanceof Error && error.message === "AI_TIMEOUT") {
+        throw new ConvexError({
+          code: "AI_TIMEOUT",
+          message: "Answering took too long. Please try again.",
+        })
+      }
+
+      console.error("[askNewsletters] AI error:", error)
+      throw new ConvexError({
+        code: "AI_UNAVAILABLE",
+        message: "AI service is temporarily unavailable. Please try again later.",
+      })
+    } finally {
+      await ctx.runMutation(internal.ai.releaseAiInFlight, { userId: user._id })
+    }
+  },
+})
@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://r2.example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+const DAY = 24 * 60 * 60 * 1000
+
+const FRENCH_BODY =
+  "<p>Cette semaine, nous revenons sur les annonces de la rentrée. Le marché est en pleine mutation et les acteurs ne sont pas prêts pour la suite.</p>"
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>, authId = "auth_reader") {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: `${authId}@example.com`,
+      createdAt: Date.now(),
+      authId,
+      dedicatedEmail: "reader-1234@hushletter.test",
+      plan: "free",
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to: "reader-1234@hushletter.test",
+      from: "hello@weekly.example.com",
+      receivedAt: Date.now(),
+      htmlContent: "<p>Hello</p>",
+      ...payload,
+    }),
+  })
+  const body = (await response.json()) as { userNewsletterId: Id<"userNewsletters"> }
+  return body.userNewsletterId
+}
+
+async function getNewsletter(t: ReturnType<typeof makeT>, id: Id<"userNewsletters">) {
+  return await t.run(async (ctx) => ctx.db.get("userNewsletters", id))
+}
+
+describe("newsletterRules", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    process.env.INTERNAL_API_KEY = previousApiKey
+  })
+
+  it("creates, reorders, toggles and deletes rules", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const folderId = await reader.mutation(api.folders.createFolder, { name: "Tech" })
+
+    const firstId = await reader.mutation(api.newsletterRules.createRule, {
+      name: " Tech ",
+      conditions: { domain: "@Example.com" },
+      actions: { folderId },
+    })
+    const secondId = await reader.mutation(api.newsletterRules.createRule, {
+      name: "Promos",
+      conditions: { subjectPattern: "sale|deal" },
+      actions: { bin: true },
+    })
+    await expect(
+      reader.mutation(api.newsletterRules.createRule, {
+        name: "Broken",
+        conditions: { subjectPattern: "(unclosed" },
+        actions: { markRead: true },
+      })
+    ).rejects.toThrow(/regular expression/)
+    await expect(
+      reader.mutation(api.newsletterRules.createRule, {
+        name: "Nothing",
+        conditions: { domain: "example.com" },
+        actions: {},
+      })
+    ).rejects.toThrow(/at least one action/)
+
+    await reader.mutation(api.newsletterRules.reorderRules, { orderedRuleIds: [secondId, firstId] })
+    await reader.mutation(api.newsletterRules.setRuleEnabled, { ruleId: secondId, isEnabled: false })
+
+    const rules = await reader.query(api.newsletterRules.listRules, {})
+    expect(rules.map((rule) => [rule.name, rule.isEnabled, rule.folderName])).toEqual([
+      ["Promos", false, undefined],
+      ["Tech", true, "Tech"],
+    ])
+    expect(rules[1].conditions).toEqual({ domain: "example.com" })
+
+    await reader.mutation(api.newsletterRules.deleteRule, { ruleId: secondId })
+    expect((await reader.query(api.newsletterRules.listRules, {})).map((rule) => rule._id)).toEqual([
+      firstId,
+    ])
+  })
+
+  it("files, tags, marks read and skips the inbox on arrival", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const folderId = await reader.mutation(api.folders.createFolder, { name: "French" })
+    const tagId = await reader.mutation(api.tags.createTag, { name: "Lecture" })
+
+    const ruleId = await reader.mutation(api.newsletterRules.createRule, {
+      name: "French mail",
+      conditions: { language: "fr" },
+      actions: { folderId, tagId, markRead: true, skipInbox: true },
+    })
+    await reader.mutation(api.newsletterRules.createRule, {
+      name: "Promos",
+      conditions: { subjectPattern: "^sale" },
+      actions: { bin: true, favorite: true },
+    })
+
+    const frenchId = await postEmail(t, { subject: "La lettre", htmlContent: FRENCH_BODY })
+    const saleId = await postEmail(t, { subject: "SALE: 50% off" })
+    const plainId = await postEmail(t, { subject: "Weekly notes" })
+
+    const french = await getNewsletter(t, frenchId)
+    expect(french).toMatchObject({ folderId, isRead: true, isHidden: true, isBinned: false, language: "fr" })
+    expect(await reader.query(api.tags.listTagsForNewsletter, { userNewsletterId: frenchId })).toEqual([
+      expect.objectContaining({ name: "Lecture" }),
+    ])
+    const meta = await t.run(async (ctx) =>
+      ctx.db
+        .query("newsletterSearchMeta")
+        .withIndex("by_userId_userNewsletterId", (q) =>
+          q.eq("userId", french!.userId).eq("userNewsletterId", frenchId)
+        )
+        .first()
+    )
+    expect(meta).toMatchObject({ isRead: true, isHidden: true })
+
+    expect(await getNewsletter(t, saleId)).toMatchObject({ isBinned: true, isFavorited: true })
+    const plain = await getNewsletter(t, plainId)
+    expect(plain).toMatchObject({ isRead: false, isHidden: false, isBinned: false })
+    expect(plain?.folderId).not.toBe(folderId)
+
+    const rules = await reader.query(api.newsletterRules.listRules, {})
+    expect(rules.find((rule) => rule._id === ruleId)?.matchCount).toBe(1)
+  })
+
+  it("previews conditions and runs a rule on existing mail", async () => {
+    vi.useFakeTimers()
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const now = Date.now()
+    const firstId = await postEmail(t, { subject: "Antitrust weekly", receivedAt: now - 2 * DAY })
+    const secondId = await postEmail(t, { subject: "Antitrust digest", receivedAt: now - DAY })
+    const otherId = await postEmail(t, { subject: "Cooking club", receivedAt: now })
+    const binnedId = await postEmail(t, { subject: "Antitrust archive", receivedAt: now })
+    await t.run(async (ctx) => ctx.db.patch("userNewsletters", binnedId, { isBinned: true }))
+
+    const preview = await reader.query(api.newsletterRules.previewRule, {
+      conditions: { subjectPattern: "antitrust" },
+    })
+    expect(preview.scanned).toBe(4)
+    expect(preview.matchCount).toBe(3)
+    expect(preview.matches.map((match) => match._id)).toEqual([binnedId, secondId, firstId])
+
+    const folderId = await reader.mutation(api.folders.createFolder, { name: "Policy" })
+    const ruleId = await reader.mutation(api.newsletterRules.createRule, {
+      name: "Policy",
+      conditions: { subjectPattern: "antitrust" },
+      actions: { folderId, markRead: true },
+    })
+    await reader.mutation(api.newsletterRules.runRuleOnExistingMail, { ruleId })
+    await t.finishAllScheduledFunctions(vi.runAllTimers)
+
+    expect(await getNewsletter(t, firstId)).toMatchObject({ folderId, isRead: true })
+    expect(await getNewsletter(t, secondId)).toMatchObject({ folderId, isRead: true })
+    expect(await getNewsletter(t, otherId)).toMatchObject({ isRead: false })
+    expect(await getNewsletter(t, binnedId)).toMatchObject({ isRead: false })
+    const rules = await reader.query(api.newsletterRules.listRules, {})
+    expect(rules[0].matchCount).toBe(2)
+  })
+
+  it("keeps rules private", async () => {
+    const t = makeT()
+    await seedUser(t)
+    await seedUser(t, "auth_other")
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const other = t.withIdentity({ subject: "auth_other" })
+    const ruleId = await reader.mutation(api.newsletterRules.createRule, {
+      name: "Tech",
+      conditions: { domain: "example.com" },
+      actions: { markRead: true },
+    })
+    const folderId = await reader.mutation(api.folders.createFolder, { name: "Tech" })
+
+    await expect(other.mutation(api.newsletterRules.deleteRule, { ruleId })).rejects.toThrow(/Rule not found/)
+    await expect(
+      other.mutation(api.newsletterRules.createRule, {
+        name: "Steal",
+        conditions: { domain: "example.com" },
+        actions: { folderId },
+      })
+    ).rejects.toThrow(/Folder not found/)
+    expect(await other.query(api.newsletterRules.listRules, {})).toEqual([])
+  })
+})
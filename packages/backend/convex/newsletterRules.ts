@@ -0,0 +1,557 @@
+import {
+  internalMutation,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server"
+import { v, ConvexError } from "convex/values"
+import { internal } from "./_generated/api"
+import type { Doc, Id } from "./_generated/dataModel"
+import { addNewsletterTag } from "./tags"
+import { detectLanguage } from "./lib/detectLanguage"
+import {
+  matchesRuleConditions,
+  normalizeRuleActions,
+  normalizeRuleConditions,
+  resolveRuleActions,
+  ruleActionsValidator,
+  ruleConditionsValidator,
+  type ResolvedRuleActions,
+  type RuleActions,
+  type RuleCandidate,
+  type RuleConditions,
+} from "./lib/ruleMatching"
+
+/**
+ * Newsletter rules: automatic filing, tagging, marking read and binning
+ * Rules are evaluated on arrival by createUserNewsletter (applyRulesOnArrival)
+ * and can be previewed against, or run on, mail already received.
+ */
+
+/** Maximum number of rules per user */
+export const MAX_RULES_PER_USER = 50
+
+/** How many recent newsletters a rule preview is tested against */
+export const RULE_PREVIEW_SCAN_LIMIT = 200
+
+/** Matches listed in a rule preview */
+const RULE_PREVIEW_MATCH_LIMIT = 50
+
+/** Newsletters visited per "run on existing mail" batch */
+const RULE_BACKFILL_BATCH_SIZE = 100
+
+const MAX_RULE_NAME_LENGTH = 100
+
+/**
+ * Validate a rule name
+ * @returns The trimmed name
+ */
+function validateRuleName(name: string): string {
+  const trimmedName = name.trim()
+  if (!trimmedName) {
+    throw new ConvexError({ code: "VALIDATION_ERROR", message: "Rule name cannot be empty" })
+  }
+  if (trimmedName.length > MAX_RULE_NAME_LENGTH) {
+    throw new ConvexError({
+      code: "VALIDATION_ERROR",
+      message: `Rule name must be ${MAX_RULE_NAME_LENGTH} characters or less`,
+    })
+  }
+  return trimmedName
+}
+
+function validateConditions(conditions: RuleConditions): RuleConditions {
+  const result = normalizeRuleConditions(conditions)
+  if (!result.conditions) {
+    throw new ConvexError({ code: "VALIDATION_ERROR", message: result.error })
+  }
+  return result.conditions
+}
+
+/**
+ * Normalize actions and check their folder/tag belong to the user
+ */
+async function validateActions(
+  ctx: Pick<MutationCtx, "db">,
+  userId: Id<"users">,
+  actions: RuleActions
+): Promise<RuleActions> {
+  const result = normalizeRuleActions(actions)
+  if (!result.actions) {
+    throw new ConvexError({ code: "VALIDATION_ERROR", message: result.error })
+  }
+  if (result.actions.folderId) {
+    const folder = await ctx.db.get("folders", result.actions.folderId)
+    if (!folder || folder.userId !== userId) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Folder not found" })
+    }
+  }
+  if (result.actions.tagId) {
+    const tag = await ctx.db.get("tags", result.actions.tagId)
+    if (!tag || tag.userId !== userId) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Tag not found" })
+    }
+  }
+  return result.actions
+}
+
+async function getAuthedUser(ctx: MutationCtx): Promise<Doc<"users">> {
+  const identity = await ctx.auth.getUserIdentity()
+  if (!identity) {
+    throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+  }
+
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+    .first()
+  if (!user) {
+    throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+  }
+  return user
+}
+
+/**
+ * Load a rule owned by the current user (throws otherwise)
+ */
+async function getOwnedRule(
+  ctx: MutationCtx,
+  ruleId: Id<"newsletterRules">
+): Promise<Doc<"newsletterRules">> {
+  const user = await getAuthedUser(ctx)
+  const rule = await ctx.db.get("newsletterRules", ruleId)
+  if (!rule || rule.userId !== user._id) {
+    throw new ConvexError({ code: "NOT_FOUND", message: "Rule not found" })
+  }
+  return rule
+}
+
+/**
+ * The user's rules in evaluation order
+ */
+async function getSortedRules(
+  ctx: Pick<QueryCtx, "db">,
+  userId: Id<"users">
+): Promise<Doc<"newsletterRules">[]> {
+  const rules = await ctx.db
+    .query("newsletterRules")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect()
+  return rules.sort((a, b) => a.sortOrder - b.sortOrder || a.createdAt - b.createdAt)
+}
+
+/**
+ * Rule candidate for a stored newsletter
+ * Newsletters from before language detection fall back to their search text.
+ */
+async function getRuleCandidate(
+  ctx: Pick<QueryCtx, "db">,
+  newsletter: Doc<"userNewsletters">
+): Promise<RuleCandidate> {
+  let language = newsletter.language
+  if (!language) {
+    const searchMeta = await ctx.db
+      .query("newsletterSearchMeta")
+      .withIndex("by_userId_userNewsletterId", (q) =>
+        q.eq("userId", newsletter.userId).eq("userNewsletterId", newsletter._id)
+      )
+      .first()
+    if (searchMeta?.isBodyIndexed) language = detectLanguage(searchMeta.searchText ?? "")
+  }
+  return {
+    senderEmail: newsletter.senderEmail,
+    subject: newsletter.subject,
+    subAddressTag: newsletter.subAddressTag,
+    language,
+  }
+}
+
+/**
+ * Drop folder/tag actions whose target was deleted since the rule was saved
+ */
+async function dropMissingTargets(
+  ctx: Pick<QueryCtx, "db">,
+  userId: Id<"users">,
+  resolved: ResolvedRuleActions
+): Promise<ResolvedRuleActions> {
+  let folderId = resolved.folderId
+  if (folderId) {
+    const folder = await ctx.db.get("folders", folderId)
+    if (!folder || folder.userId !== userId) folderId = undefined
+  }
+  const tagIds: Id<"tags">[] = []
+  for (const tagId of resolved.tagIds) {
+    const tag = await ctx.db.get("tags", tagId)
+    if (tag && tag.userId === userId) tagIds.push(tagId)
+  }
+  return { ...resolved, folderId, tagIds }
+}
+
+async function recordRuleMatches(
+  ctx: Pick<MutationCtx, "db">,
+  ruleIds: Id<"newsletterRules">[],
+  count = 1
+): Promise<void> {
+  const now = Date.now()
+  for (const ruleId of ruleIds) {
+    const rule = await ctx.db.get("newsletterRules", ruleId)
+    if (!rule) continue
+    await ctx.db.patch("newsletterRules", ruleId, {
+      matchCount: (rule.matchCount ?? 0) + count,
+      lastMatchedAt: now,
+    })
+  }
+}
+
+/**
+ * Evaluate the user's rules for a newsletter being stored
+ * Called from createUserNewsletter before the insert: the caller applies
+ * folder and state, then adds the returned tags once the newsletter exists.
+ */
+export async function applyRulesOnArrival(
+  ctx: Pick<MutationCtx, "db">,
+  args: { userId: Id<"users">; candidate: RuleCandidate }
+): Promise<ResolvedRuleActions> {
+  const rules = await getSortedRules(ctx, args.userId)
+  const resolved = await dropMissingTargets(
+    ctx,
+    args.userId,
+    resolveRuleActions(rules, args.candidate)
+  )
+  await recordRuleMatches(ctx, resolved.matchedRuleIds)
+  return resolved
+}
+
+/**
+ * Add a rule tagging everything from a sender (added last, enabled)
+ * Used when an AI folder suggestion with a tag is accepted; skipped when the
+ * user is at MAX_RULES_PER_USER or already has the same rule.
+ * @returns Whether a rule was created
+ */
+export async function addSenderTagRule(
+  ctx: Pick<MutationCtx, "db">,
+  args: { userId: Id<"users">; senderEmail: string; tagId: Id<"tags">; name: string }
+): Promise<boolean> {
+  const existing = await getSortedRules(ctx, args.userId)
+  if (existing.length >= MAX_RULES_PER_USER) return false
+
+  const senderEmail = args.senderEmail.trim().toLowerCase()
+  const isDuplicate = existing.some(
+    (rule) => rule.conditions.senderEmail === senderEmail && rule.actions.tagId === args.tagId
+  )
+  if (isDuplicate) return false
+
+  const now = Date.now()
+  await ctx.db.insert("newsletterRules", {
+    userId: args.userId,
+    name: args.name.trim().slice(0, MAX_RULE_NAME_LENGTH),
+    isEnabled: true,
+    conditions: { senderEmail },
+    actions: { tagId: args.tagId },
+    sortOrder: (existing.at(-1)?.sortOrder ?? -1) + 1,
+    createdAt: now,
+    updatedAt: now,
+  })
+  return true
+}
+
+/**
+ * Apply a rule's actions to a newsletter already in the inbox
+ * @returns Whether anything changed
+ */
+async function applyActionsToNewsletter(
+  ctx: Pick<MutationCtx, "db">,
+  newsletter: Doc<"userNewsletters">,
+  resolved: ResolvedRuleActions
+): Promise<boolean> {
+  const patch: Partial<Doc<"userNewsletters">> = {}
+  if (resolved.folderId && newsletter.folderId !== resolved.folderId) {
+    patch.folderId = resolved.folderId
+  }
+  if (resolved.markRead && !newsletter.isRead) patch.isRead = true
+  if (resolved.favorite && !newsletter.isFavorited) patch.isFavorited = true
+  if (resolved.skipInbox && !newsletter.isHidden) patch.isHidden = true
+  if (resolved.bin && !newsletter.isBinned) {
+    patch.isBinned = true
+    patch.binnedAt = Date.now()
+  }
+
+  let changed = Object.keys(patch).length > 0
+  if (changed) {
+    await ctx.db.patch("userNewsletters", newsletter._id, patch)
+
+    const searchMeta = await ctx.db
+      .query("newsletterSearchMeta")
+      .withIndex("by_userId_userNewsletterId", (q) =>
+        q.eq("userId", newsletter.userId).eq("userNewsletterId", newsletter._id)
+      )
+      .first()
+    if (searchMeta) {
+      await ctx.db.patch("newsletterSearchMeta", searchMeta._id, {
+        ...(patch.isRead ? { isRead: true } : {}),
+        ...(patch.isHidden ? { isHidden: true } : {}),
+        ...(patch.isBinned ? { isBinned: true } : {}),
+      })
+    }
+  }
+
+  for (const tagId of resolved.tagIds) {
+    const isNew = await addNewsletterTag(ctx, {
+      userId: newsletter.userId,
+      tagId,
+      userNewsletterId: newsletter._id,
+      receivedAt: newsletter.receivedAt,
+    })
+    changed ||= isNew
+  }
+  return changed
+}
+
+/**
+ * Create a rule (added last, enabled)
+ */
+export const createRule = mutation({
+  args: {
+    name: v.string(),
+    conditions: ruleConditionsValidator,
+    actions: ruleActionsValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthedUser(ctx)
+    const name = validateRuleName(args.name)
+    const conditions = validateConditions(args.conditions)
+    const actions = await validateActions(ctx, user._id, args.actions)
+
+    const existing = await getSortedRules(ctx, user._id)
+    if (existing.length >= MAX_RULES_PER_USER) {
+      throw new ConvexError({
+        code: "LIMIT_REACHED",
+        message: `You can have up to ${MAX_RULES_PER_USER} rules`,
+      })
+    }
+
+    const now = Date.now()
+    return await ctx.db.insert("newsletterRules", {
+      userId: user._id,
+      name,
+      isEnabled: true,
+      conditions,
+      actions,
+      sortOrder: (existing.at(-1)?.sortOrder ?? -1) + 1,
+      createdAt: now,
+      updatedAt: now,
+    })
+  },
+})
+
+/**
+ * Update a rule's name, conditions and actions
+ */
+export const updateRule = mutation({
+  args: {
+    ruleId: v.id("newsletterRules"),
+    name: v.string(),
+    conditions: ruleConditionsValidator,
+    actions: ruleActionsValidator,
+  },
+  handler: async (ctx, args) => {
+    const rule = await getOwnedRule(ctx, args.ruleId)
+    const name = validateRuleName(args.name)
+    const conditions = validateConditions(args.conditions)
+    const actions = await validateActions(ctx, rule.userId, args.actions)
+
+    await ctx.db.patch("newsletterRules", rule._id, {
+      name,
+      conditions,
+      actions,
+      updatedAt: Date.now(),
+    })
+  },
+})
+
+/**
+ * Enable or disable a rule
+ */
+export const setRuleEnabled = mutation({
+  args: {
+    ruleId: v.id("newsletterRules"),
+    isEnabled: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const rule = await getOwnedRule(ctx, args.ruleId)
+    await ctx.db.patch("newsletterRules", rule._id, {
+      isEnabled: args.isEnabled,
+      updatedAt: Date.now(),
+    })
+  },
+})
+
+/**
+ * Persist rule order (evaluation order)
+ * Rules not in the list keep their relative order after the listed ones.
+ */
+export const reorderRules = mutation({
+  args: { orderedRuleIds: v.array(v.id("newsletterRules")) },
+  handler: async (ctx, args) => {
+    const user = await getAuthedUser(ctx)
+    const rules = await getSortedRules(ctx, user._id)
+    const ruleIds = new Set(rules.map((rule) => rule._id))
+    const ordered = [...new Set(args.orderedRuleIds)].filter((id) => ruleIds.has(id))
+    const rest = rules.map((rule) => rule._id).filter((id) => !ordered.includes(id))
+
+    const now = Date.now()
+    for (const [sortOrder, ruleId] of [...ordered, ...rest].entries()) {
+      await ctx.db.patch("newsletterRules", ruleId, { sortOrder, updatedAt: now })
+    }
+  },
+})
+
+/**
+ * Delete a rule (newsletters it already filed are untouched)
+ */
+export const deleteRule = mutation({
+  args: { ruleId: v.id("newsletterRules") },
+  handler: async (ctx, args) => {
+    const rule = await getOwnedRule(ctx, args.ruleId)
+    await ctx.db.delete("newsletterRules", rule._id)
+  },
+})
+
+/**
+ * List the current user's rules in evaluation order, with the names of
+ * their target folder and tag (undefined when the target was deleted)
+ */
+export const listRules = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) return []
+
+    const rules = await getSortedRules(ctx, user._id)
+    return await Promise.all(
+      rules.map(async (rule) => {
+        const folder = rule.actions.folderId
+          ? await ctx.db.get("folders", rule.actions.folderId)
+          : null
+        const tag = rule.actions.tagId ? await ctx.db.get("tags", rule.actions.tagId) : null
+        return { ...rule, folderName: folder?.name, tagName: tag?.name }
+      })
+    )
+  },
+})
+
+/**
+ * Test conditions against the user's last 200 newsletters
+ * Takes conditions rather than a rule id so unsaved edits can be previewed.
+ */
+export const previewRule = query({
+  args: { conditions: ruleConditionsValidator },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+    const conditions = validateConditions(args.conditions)
+
+    const recent = await ctx.db
+      .query("userNewsletters")
+      .withIndex("by_userId_receivedAt", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .take(RULE_PREVIEW_SCAN_LIMIT)
+
+    const matches: Array<{
+      _id: Id<"userNewsletters">
+      subject: string
+      senderEmail: string
+      senderName?: string
+      receivedAt: number
+    }> = []
+    let matchCount = 0
+    for (const newsletter of recent) {
+      if (!matchesRuleConditions(await getRuleCandidate(ctx, newsletter), conditions)) continue
+      matchCount++
+      if (matches.length < RULE_PREVIEW_MATCH_LIMIT) {
+        matches.push({
+          _id: newsletter._id,
+          subject: newsletter.subject,
+          senderEmail: newsletter.senderEmail,
+          senderName: newsletter.senderName,
+          receivedAt: newsletter.receivedAt,
+        })
+      }
+    }
+    return { scanned: recent.length, matchCount, matches }
+  },
+})
+
+/**
+ * Apply a saved rule to mail already received ("run on existing mail")
+ * Runs in the background in batches; binned newsletters are skipped.
+ */
+export const runRuleOnExistingMail = mutation({
+  args: { ruleId: v.id("newsletterRules") },
+  handler: async (ctx, args) => {
+    const rule = await getOwnedRule(ctx, args.ruleId)
+    await ctx.scheduler.runAfter(0, internal.newsletterRules.applyRuleToExistingBatch, {
+      ruleId: rule._id,
+      cursor: null,
+    })
+  },
+})
+
+/**
+ * One batch of runRuleOnExistingMail, scheduling the next until done
+ */
+export const applyRuleToExistingBatch = internalMutation({
+  args: {
+    ruleId: v.id("newsletterRules"),
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args): Promise<{ applied: number; isDone: boolean }> => {
+    const rule = await ctx.db.get("newsletterRules", args.ruleId)
+    if (!rule) return { applied: 0, isDone: true }
+
+    const result = await ctx.db
+      .query("userNewsletters")
+      .withIndex("by_userId_receivedAt", (q) => q.eq("userId", rule.userId))
+      .order("desc")
+      .paginate({ cursor: args.cursor, numItems: RULE_BACKFILL_BATCH_SIZE })
+
+    let applied = 0
+    for (const newsletter of result.page) {
+      if (newsletter.isBinned) continue
+      const candidate = await getRuleCandidate(ctx, newsletter)
+      // Evaluate this rule alone, even when disabled: the user asked for it
+      const actions = await dropMissingTargets(
+        ctx,
+        rule.userId,
+        resolveRuleActions([{ ...rule, isEnabled: true }], candidate)
+      )
+      if (actions.matchedRuleIds.length === 0) continue
+      if (await applyActionsToNewsletter(ctx, newsletter, actions)) applied++
+    }
+    if (applied > 0) await recordRuleMatches(ctx, [rule._id], applied)
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.newsletterRules.applyRuleToExistingBatch, {
+        ruleId: rule._id,
+        cursor: result.continueCursor,
+      })
+    }
+    return { applied, isDone: result.isDone }
+  },
+})
@@ -0,0 +1,264 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api, internal } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://r2.example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>, { pro = true }: { pro?: boolean } = {}) {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: "reader@example.com",
+      createdAt: Date.now(),
+      authId: "auth_reader",
+      dedicatedEmail: "reader-1234@hushletter.test",
+      plan: pro ? "pro" : "free",
+      proExpiresAt: pro ? Date.now() + 30 * 24 * 60 * 60 * 1000 : undefined,
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to: "reader-1234@hushletter.test",
+      from: "hello@weekly.example.com",
+      receivedAt: Date.now(),
+      ...payload,
+    }),
+  })
+  const body = (await response.json()) as { userNewsletterId: Id<"userNewsletters"> }
+  return body.userNewsletterId
+}
+
+describe("full-text newsletter search", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    process.env.INTERNAL_API_KEY = previousApiKey
+  })
+
+  it("finds newsletters by body text and returns a highlighted snippet", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const wasmId = await postEmail(t, {
+      subject: "Issue #42",
+      htmlContent: "<h1>This week</h1><p>Why <b>WebAssembly</b> runtimes matter at the edge.</p>",
+    })
+    await postEmail(t, { subject: "Issue #43", htmlContent: "<p>All about databases.</p>" })
+
+    const results = await reader.query(api.newsletters.searchUserNewslettersMeta, { query: "webassembly" })
+
+    expect(results.map((result) => result.userNewsletterId)).toEqual([wasmId])
+    const snippet = results[0].snippet
+    expect(snippet?.text).toContain("Why WebAssembly runtimes")
+    expect(snippet?.highlights.map(({ start, end }) => snippet.text.slice(start, end))).toEqual(["WebAssembly"])
+  })
+
+  it("still matches subjects and senders, without a snippet", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    await postEmail(t, { subject: "Quarterly roundup", htmlContent: "<p>Plenty of news.</p>" })
+
+    const bySubject = await reader.query(api.newsletters.searchUserNewslettersMeta, { query: "quarterly" })
+    const bySender = await reader.query(api.newsletters.searchUserNewslettersMeta, { query: "weekly" })
+
+    expect(bySubject).toHaveLength(1)
+    expect(bySubject[0].snippet).toBeUndefined()
+    expect(bySender).toHaveLength(1)
+  })
+
+  it("searches only subject and sender for free users and locked newsletters", async () => {
+    const t = makeT()
+    const userId = await seedUser(t, { pro: false })
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    await postEmail(t, { subject: "Issue #42", htmlContent: "<p>Why WebAssembly matters</p>" })
+    const subjectId = await postEmail(t, {
+      subject: "WebAssembly weekly",
+      htmlContent: "<p>WebAssembly everywhere</p>",
+    })
+
+    const freeResults = await reader.query(api.newsletters.searchUserNewslettersMeta, { query: "webassembly" })
+
+    expect(freeResults.map((result) => result.userNewsletterId)).toEqual([subjectId])
+    expect(freeResults[0].snippet).toBeUndefined()
+
+    await t.run(async (ctx) => {
+      await ctx.db.patch("users", userId, { plan: "pro", proExpiresAt: Date.now() + 60_000 })
+      const meta = await ctx.db
+        .query("newsletterSearchMeta")
+        .withIndex("by_userId_userNewsletterId", (q) => q.eq("userId", userId).eq("userNewsletterId", subjectId))
+        .first()
+      await ctx.db.patch("newsletterSearchMeta", meta!._id, { isLockedByPlan: true })
+    })
+    const proResults = await reader.query(api.newsletters.searchUserNewslettersMeta, { query: "webassembly" })
+
+    expect(proResults).toHaveLength(2)
+    expect(proResults.find((result) => result.userNewsletterId === subjectId)?.snippet).toBeUndefined()
+    expect(
+      await reader.query(api.newsletters.searchUserNewslettersMeta, { query: '"webassembly everywhere"' })
+    ).toEqual([])
+  })
+
+  it("keeps reading past the top matches until filtered results fill the limit", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    for (let i = 0; i < 300; i++) {
+      await postEmail(t, { subject: `Rust issue ${i}`, htmlContent: "<p>Rust rust rust</p>" })
+    }
+    const otherId = await postEmail(t, {
+      from: "digest@other.example.org",
+      subject: "Other sender",
+      htmlContent: "<p>A little rust</p>",
+    })
+    const otherFolderId = await t.run(async (ctx) => (await ctx.db.get("userNewsletters", otherId))!.folderId)
+
+    const results = await reader.query(api.newsletters.searchUserNewslettersMeta, {
+      query: "rust",
+      folderId: otherFolderId,
+    })
+
+    expect(results.map((result) => result.userNewsletterId)).toEqual([otherId])
+  })
+
+  it("applies read, favorite, date and folder filters alongside the query", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const oldId = await postEmail(t, {
+      subject: "Old issue",
+      receivedAt: Date.UTC(2024, 0, 15),
+      htmlContent: "<p>Kubernetes tips</p>",
+    })
+    const newId = await postEmail(t, {
+      subject: "New issue",
+      receivedAt: Date.UTC(2025, 5, 15),
+      htmlContent: "<p>More Kubernetes tips</p>",
+    })
+    const otherSenderId = await postEmail(t, {
+      from: "digest@other.example.org",
+      subject: "Other sender",
+      htmlContent: "<p>Kubernetes in production</p>",
+    })
+    await t.run(async (ctx) => {
+      await ctx.db.patch("userNewsletters", newId, { isFavorited: true })
+      const meta = await ctx.db
+        .query("newsletterSearchMeta")
+        .filter((q) => q.eq(q.field("userNewsletterId"), oldId))
+        .first()
+      await ctx.db.patch("newsletterSearchMeta", meta!._id, { isRead: true })
+    })
+    const search = (filters: Record<string, unknown>) =>
+      reader
+        .query(api.newsletters.searchUserNewslettersMeta, { query: "kubernetes", ...filters })
+        .then((results) => results.map((result) => result.userNewsletterId).sort())
+
+    expect(await search({ isRead: true })).toEqual([oldId])
+    expect(await search({ isFavorited: true })).toEqual([newId])
+    expect(await search({ receivedAfter: Date.UTC(2025, 0, 1), receivedBefore: Date.UTC(2026, 0, 1) })).toEqual([
+      newId,
+    ])
+    const otherFolderId = await t.run(async (ctx) => (await ctx.db.get("userNewsletters", otherSenderId))!.folderId)
+    expect(await search({ folderId: otherFolderId })).toEqual([otherSenderId])
+  })
+
+  it("supports query operators, with or without free text", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const oldId = await postEmail(t, {
+      subject: "Old antitrust story",
+      receivedAt: Date.UTC(2025, 11, 20),
+      htmlContent: "<p>The antitrust case begins</p>",
+    })
+    const newId = await postEmail(t, {
+      subject: "New antitrust story",
+      receivedAt: Date.UTC(2026, 0, 10),
+      htmlContent: "<p>The antitrust case continues</p>",
+    })
+    const otherId = await postEmail(t, {
+      from: "digest@other.example.org",
+      subject: "Other antitrust story",
+      receivedAt: Date.UTC(2026, 0, 12),
+      htmlContent: "<p>Antitrust, case closed</p>",
+    })
+    await t.run(async (ctx) => {
+      const newsletter = (await ctx.db.get("userNewsletters", otherId))!
+      await ctx.db.patch("folders", newsletter.folderId!, { name: "Deep dives" })
+      await ctx.db.patch("userNewsletters", newId, { attachmentCount: 1 })
+    })
+    const search = (query: string) =>
+      reader
+        .query(api.newsletters.searchUserNewslettersMeta, { query })
+        .then((results) => results.map((result) => result.userNewsletterId).sort())
+
+    expect(await search("from:weekly after:2026-01-01 is:unread antitrust")).toEqual([newId])
+    expect(await search("before:2026-01-01")).toEqual([oldId])
+    expect(await search('folder:"deep dives"')).toEqual([otherId])
+    expect(await search("folder:Missing antitrust")).toEqual([])
+    expect(await search("has:attachment")).toEqual([newId])
+    expect(await search('"case continues"')).toEqual([newId])
+    await expect(search("size:big")).rejects.toThrow(/Unknown operator/)
+  })
+
+  it("backfills bodies of newsletters indexed before full-text search", async () => {
+    const t = makeT()
+    const userId = await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const newsletterId = await postEmail(t, { subject: "Legacy issue", htmlContent: "<p>Old content</p>" })
+    await t.run(async (ctx) => {
+      const meta = await ctx.db
+        .query("newsletterSearchMeta")
+        .withIndex("by_userId_userNewsletterId", (q) =>
+          q.eq("userId", userId).eq("userNewsletterId", newsletterId)
+        )
+        .first()
+      await ctx.db.patch("newsletterSearchMeta", meta!._id, {
+        searchText: "Legacy issue hello@weekly.example.com",
+        isBodyIndexed: undefined,
+      })
+    })
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("<p>Rediscovered <i>archive</i> content</p>"))
+    )
+
+    try {
+      const result = await t.action(internal.migrations.searchTextBackfill.runMigration, {})
+      expect(result).toEqual({ indexed: 1, failed: 0, isDone: true })
+    } finally {
+      vi.unstubAllGlobals()
+    }
+
+    const results = await reader.query(api.newsletters.searchUserNewslettersMeta, { query: "rediscovered" })
+    expect(results.map((r) => r.userNewsletterId)).toEqual([newsletterId])
+  })
+})
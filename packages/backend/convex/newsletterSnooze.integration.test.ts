@@ -0,0 +1,230 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api, internal } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://r2.example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+const HOUR = 60 * 60 * 1000
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>) {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: "reader@example.com",
+      createdAt: Date.now(),
+      authId: "auth_reader",
+      dedicatedEmail: "reader-1234@hushletter.test",
+      plan: "free",
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to: "reader-1234@hushletter.test",
+      from: "weekly@news.example.com",
+      subject: "Weekly",
+      receivedAt: Date.now(),
+      htmlContent: "<p>Weekly</p>",
+      ...payload,
+    }),
+  })
+  const body = (await response.json()) as { userNewsletterId: Id<"userNewsletters"> }
+  return body.userNewsletterId
+}
+
+describe("newsletter snooze", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    process.env.INTERNAL_API_KEY = previousApiKey
+    vi.useRealTimers()
+  })
+
+  it("moves a newsletter to the Snoozed view and wakes it unread at the top", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const olderId = await postEmail(t, { subject: "Older", receivedAt: Date.now() - 2 * HOUR })
+    const newerId = await postEmail(t, { subject: "Newer", receivedAt: Date.now() - HOUR })
+    await reader.mutation(api.newsletters.markNewsletterRead, { userNewsletterId: olderId })
+
+    await reader.mutation(api.newsletters.snoozeNewsletter, {
+      userNewsletterId: olderId,
+      snoozedUntil: Date.now() + HOUR,
+    })
+
+    const inbox = await reader.query(api.newsletters.listAllNewslettersHead, {})
+    expect(inbox.page.map((n) => n._id)).toEqual([newerId])
+    const snoozed = await reader.query(api.newsletters.listSnoozedNewslettersHead, {})
+    expect(snoozed.page.map((n) => n._id)).toEqual([olderId])
+    await expect(reader.query(api.newsletters.getSnoozedNewsletterCount, {})).resolves.toBe(1)
+
+    // Not due yet
+    await expect(t.mutation(internal.newsletters.wakeSnoozedNewsletters, {})).resolves.toEqual({
+      wokenCount: 0,
+    })
+
+    vi.useFakeTimers()
+    vi.setSystemTime(Date.now() + 2 * HOUR)
+    await expect(t.mutation(internal.newsletters.wakeSnoozedNewsletters, {})).resolves.toEqual({
+      wokenCount: 1,
+    })
+
+    const woken = await reader.query(api.newsletters.listAllNewslettersHead, {})
+    expect(woken.page.map((n) => n._id)).toEqual([olderId, newerId])
+    expect(woken.page[0].isRead).toBe(false)
+    expect(woken.page[0].snoozedUntil).toBeUndefined()
+    await expect(reader.query(api.newsletters.getSnoozedNewsletterCount, {})).resolves.toBe(0)
+  })
+
+  it("keeps the delivery date when waking, and goes back to its place once read", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const receivedAt = Date.now() - 2 * HOUR
+    const olderId = await postEmail(t, { subject: "Older", receivedAt })
+    const newerId = await postEmail(t, { subject: "Newer", receivedAt: Date.now() - HOUR })
+    const folderId = await t.run(async (ctx) => (await ctx.db.get("userNewsletters", olderId))!.folderId!)
+    await reader.mutation(api.newsletters.snoozeNewsletter, {
+      userNewsletterId: olderId,
+      snoozedUntil: Date.now() + HOUR,
+    })
+
+    vi.useFakeTimers()
+    vi.setSystemTime(Date.now() + 2 * HOUR)
+    await t.mutation(internal.newsletters.wakeSnoozedNewsletters, {})
+
+    const newsletter = await t.run(async (ctx) => ctx.db.get("userNewsletters", olderId))
+    expect(newsletter).toMatchObject({ receivedAt, isRead: false })
+    expect(newsletter?.resurfacedAt).toBe(Date.now())
+    const folderHead = await reader.query(api.newsletters.listUserNewslettersByFolderHead, { folderId })
+    expect(folderHead.page.map((n) => n._id)).toEqual([olderId, newerId])
+    const nextPage = await t.query(internal.newsletters.listAllNewslettersPageInternal, {
+      userId: newsletter!.userId,
+      cursor: null,
+      numItems: 10,
+    })
+    expect(nextPage.page.map((n) => n._id)).toEqual([newerId])
+
+    await reader.mutation(api.newsletters.markNewsletterRead, { userNewsletterId: olderId })
+
+    const inbox = await reader.query(api.newsletters.listAllNewslettersHead, {})
+    expect(inbox.page.map((n) => n._id)).toEqual([newerId, olderId])
+  })
+
+  it("leaves snoozed newsletters out of unread counts and search", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const newsletterId = await postEmail(t, { subject: "Antitrust roundup" })
+    await reader.mutation(api.smartFolders.createSmartFolder, {
+      name: "Weekly",
+      filter: { senderEmail: "weekly@news.example.com" },
+    })
+    const unreadCounts = async () => {
+      const [folders, smartFolders] = await Promise.all([
+        reader.query(api.folders.listVisibleFoldersWithUnreadCounts, {}),
+        reader.query(api.smartFolders.listSmartFoldersWithUnreadCounts, {}),
+      ])
+      return [folders[0].unreadCount, smartFolders[0].unreadCount]
+    }
+    const search = () => reader.query(api.newsletters.searchUserNewslettersMeta, { query: "antitrust" })
+    expect(await unreadCounts()).toEqual([1, 1])
+    expect(await search()).toHaveLength(1)
+
+    await reader.mutation(api.newsletters.snoozeNewsletter, {
+      userNewsletterId: newsletterId,
+      snoozedUntil: Date.now() + HOUR,
+    })
+
+    expect(await unreadCounts()).toEqual([0, 0])
+    expect(await search()).toEqual([])
+
+    vi.useFakeTimers()
+    vi.setSystemTime(Date.now() + 2 * HOUR)
+    await t.mutation(internal.newsletters.wakeSnoozedNewsletters, {})
+
+    expect(await unreadCounts()).toEqual([1, 1])
+    expect(await search()).toHaveLength(1)
+  })
+
+  it("keeps a snoozed newsletter out of search when binning recreates its search entry", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const newsletterId = await postEmail(t, { subject: "Antitrust roundup" })
+    await reader.mutation(api.newsletters.snoozeNewsletter, {
+      userNewsletterId: newsletterId,
+      snoozedUntil: Date.now() + HOUR,
+    })
+    // Newsletters from before search metadata existed have no entry yet
+    await t.run(async (ctx) => {
+      const metas = await ctx.db.query("newsletterSearchMeta").collect()
+      for (const meta of metas) await ctx.db.delete("newsletterSearchMeta", meta._id)
+    })
+
+    await reader.mutation(api.newsletters.binNewsletter, { userNewsletterId: newsletterId })
+
+    const [meta] = await t.run(async (ctx) => ctx.db.query("newsletterSearchMeta").collect())
+    expect(meta).toMatchObject({ userNewsletterId: newsletterId, isBinned: true, isSnoozed: true })
+  })
+
+  it("unsnoozes back to the original place without changing read state", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const receivedAt = Date.now() - HOUR
+    const newsletterId = await postEmail(t, { receivedAt })
+    await reader.mutation(api.newsletters.markNewsletterRead, { userNewsletterId: newsletterId })
+
+    await reader.mutation(api.newsletters.snoozeNewsletter, {
+      userNewsletterId: newsletterId,
+      snoozedUntil: Date.now() + HOUR,
+    })
+    await reader.mutation(api.newsletters.unsnoozeNewsletter, { userNewsletterId: newsletterId })
+
+    const newsletter = await t.run(async (ctx) => ctx.db.get("userNewsletters", newsletterId))
+    expect(newsletter).toMatchObject({ isRead: true, receivedAt })
+    expect(newsletter?.snoozedUntil).toBeUndefined()
+  })
+
+  it("rejects snooze times in the past", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const newsletterId = await postEmail(t, {})
+
+    await expect(
+      reader.mutation(api.newsletters.snoozeNewsletter, {
+        userNewsletterId: newsletterId,
+        snoozedUntil: Date.now() - 1000,
+      })
+    ).rejects.toThrow(/must be in the future/)
+  })
+})
@@ -6,6 +6,8 @@ import {
   query,
   action,
   type ActionCtx,
+  type MutationCtx,
+  type QueryCtx,
 } from "./_generated/server";
 import { internal } from "./_generated/api";
 import { v } from "convex/values";
@@ -21,6 +23,52 @@ import {
   UNLOCKED_NEWSLETTERS_CAP,
   isUserPro,
 } from "./entitlements";
+import {
+  deleteNewsletterAttachmentRecords,
+  incomingAttachmentValidator,
+  uploadAttachmentsToR2,
+} from "./attachments";
+import { trackMailAfterUnsubscribe } from "./unsubscribe";
+import { recordSubAddressNewsletter } from "./subAddressTags";
+import { recordAliasNewsletter } from "./emailAliases";
+import {
+  addNewsletterTag,
+  deleteNewsletterTagLinks,
+  getNewsletterTagIds,
+} from "./tags";
+import { deleteReadingQueueItem } from "./readingQueue";
+import { deleteNewsletterHighlights } from "./highlights";
+import { deleteNewsletterChunks } from "./newsletterQa";
+import { deleteNewsletterTranslations } from "./translations";
+import { applyRulesOnArrival } from "./newsletterRules";
+import { scheduleFolderSuggestion } from "./folderSuggestions";
+import { detectLanguage } from "./lib/detectLanguage";
+import { shouldQuarantineDelivery } from "./quarantine";
+import {
+  deleteSubscriptionConfirmations,
+  recordSubscriptionEmail,
+  subscriptionEmailValidator,
+} from "./subscriptionConfirmations";
+import { detectSubscriptionEmail } from "./_internal/subscriptionEmailDetection";
+import { deleteSummaryVariants, stripHtmlToText } from "./ai";
+import {
+  buildSearchText,
+  getSearchHeader,
+  getSearchSnippet,
+  matchesSearchTerms,
+  MAX_SEARCH_BODY_LENGTH,
+  type SearchSnippet,
+} from "./lib/searchText";
+import { senderAuthValidator } from "./lib/senderAuth";
+import {
+  estimateReadMinutesFromContent,
+  hasSearchCriteria,
+  parseSearchQuery,
+} from "@hushletter/shared/utils";
+import {
+  getSmartFolderReceivedAfter,
+  matchesSmartFolderFilter,
+} from "./lib/smartFolderFilter";
 
 /** Content availability status for newsletters */
 export type ContentStatus = "available" | "missing" | "error" | "locked";
@@ -48,6 +96,9 @@ type NewsletterListItem = {
   source?: "email" | "gmail" | "manual" | "community";
   isFavorited?: boolean;
   folderId?: string;
+  tagIds?: string[];
+  snoozedUntil?: number;
+  estimatedReadMinutes?: number;
 };
 
 type NewsletterListPageResult = {
@@ -72,6 +123,8 @@ function toNewsletterListItem(
     source?: "email" | "gmail" | "manual" | "community";
     isFavorited?: boolean;
     folderId?: Id<"folders">;
+    snoozedUntil?: number;
+    estimatedReadMinutes?: number;
   },
   hasSummary: boolean,
 ): NewsletterListItem {
@@ -91,11 +144,13 @@ function toNewsletterListItem(
     source: newsletter.source,
     isFavorited: newsletter.isFavorited,
     folderId: newsletter.folderId as string | undefined,
+    snoozedUntil: newsletter.snoozedUntil,
+    estimatedReadMinutes: newsletter.estimatedReadMinutes,
   };
 }
 
 async function enrichNewsletterListItems(
-  ctx: { db: { get: (table: "newsletterContent", id: any) => Promise<any> } },
+  ctx: Pick<QueryCtx, "db">,
   newsletters: Array<Doc<"userNewsletters">>,
 ): Promise<NewsletterListItem[]> {
   const contentIds = newsletters
@@ -111,8 +166,11 @@ async function enrichNewsletterListItems(
       .filter((c): c is NonNullable<typeof c> => c !== null)
       .map((c) => [c._id, c]),
   );
+  const tagIdsByNewsletter = await Promise.all(
+    newsletters.map((n) => getNewsletterTagIds(ctx, n._id)),
+  );
 
-  return newsletters.map((newsletter) => {
+  return newsletters.map((newsletter, index) => {
     let hasSummary = Boolean(newsletter.summary);
 
     if (!hasSummary && !newsletter.isPrivate && newsletter.contentId) {
@@ -120,7 +178,11 @@ async function enrichNewsletterListItems(
       hasSummary = Boolean(content?.summary);
     }
 
-    return toNewsletterListItem(newsletter, hasSummary);
+    const tagIds = tagIdsByNewsletter[index];
+    return {
+      ...toNewsletterListItem(newsletter, hasSummary),
+      ...(tagIds.length > 0 ? { tagIds: tagIds as string[] } : {}),
+    };
   });
 }
 
@@ -194,6 +256,56 @@ async function getHiddenFolderIdSet(
   );
 }
 
+/** Most woken-from-snooze newsletters shown on top of a list */
+const MAX_RESURFACED_LISTED = 50;
+
+/**
+ * Whether a newsletter was woken from a snooze and is still unread
+ * Lists show these first, latest wake first. They keep their receivedAt, so
+ * once read they go back to their place by date.
+ */
+function isResurfaced(newsletter: Doc<"userNewsletters">): boolean {
+  return newsletter.resurfacedAt !== undefined && !newsletter.isRead;
+}
+
+/**
+ * Move resurfaced newsletters to the front of a whole (unpaginated) list
+ */
+function orderResurfacedFirst(
+  newsletters: Doc<"userNewsletters">[],
+): Doc<"userNewsletters">[] {
+  const resurfaced = newsletters
+    .filter(isResurfaced)
+    .sort((a, b) => (b.resurfacedAt ?? 0) - (a.resurfacedAt ?? 0));
+  return [...resurfaced, ...newsletters.filter((n) => !isResurfaced(n))];
+}
+
+/**
+ * Put the user's resurfaced newsletters on top of a list's first page
+ * Pages by receivedAt skip resurfaced newsletters so each one is listed once;
+ * `isListed` applies the list's own criteria (folder, tag, ...) to them.
+ */
+async function withResurfacedFirst(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  page: Doc<"userNewsletters">[],
+  isListed: (newsletter: Doc<"userNewsletters">) => boolean | Promise<boolean>,
+): Promise<Doc<"userNewsletters">[]> {
+  const resurfaced = await ctx.db
+    .query("userNewsletters")
+    .withIndex("by_userId_isRead_resurfacedAt", (q) =>
+      q.eq("userId", userId).eq("isRead", false).gt("resurfacedAt", 0),
+    )
+    .order("desc")
+    .take(MAX_RESURFACED_LISTED);
+
+  const listed: Doc<"userNewsletters">[] = [];
+  for (const newsletter of resurfaced) {
+    if (await isListed(newsletter)) listed.push(newsletter);
+  }
+  return [...listed, ...page.filter((n) => !isResurfaced(n))];
+}
+
 const DEFAULT_RECENT_UNREAD_WINDOW_DAYS = 7;
 
 function getRecentUnreadWindowStart(
@@ -230,6 +342,11 @@ function getRecentUnreadWindowStart(
  * 1. Check by messageId (most reliable - globally unique per RFC 5322)
  * 2. Check by content hash for same user (user-level dedup only)
  * If duplicate found, returns { skipped: true } without storage.
+ *
+ * ATTACHMENTS:
+ * Optional file attachments are stored in R2 next to the body and linked via
+ * newsletterAttachments. They count against the plan's attachment storage cap;
+ * attachments that don't fit are skipped without failing the delivery.
  */
 export const storeNewsletterContent = internalAction({
   args: {
@@ -251,6 +368,18 @@ export const storeNewsletterContent = internalAction({
     ),
     // Story 8.4: Email Message-ID header for duplicate detection
     messageId: v.optional(v.string()),
+    attachments: v.optional(v.array(incomingAttachmentValidator)),
+    // Mailing-list headers (dedicated-address deliveries)
+    listId: v.optional(v.string()),
+    listUnsubscribe: v.optional(v.string()),
+    listUnsubscribePost: v.optional(v.string()),
+    precedence: v.optional(v.string()),
+    // Original raw message already archived in R2 ("keep original emails")
+    rawEmailR2Key: v.optional(v.string()),
+    rawEmailSizeBytes: v.optional(v.number()),
+    subAddressTag: v.optional(v.string()),
+    emailAliasId: v.optional(v.id("emailAliases")),
+    senderAuth: v.optional(senderAuthValidator),
   },
   handler: async (
     ctx,
@@ -259,6 +388,8 @@ export const storeNewsletterContent = internalAction({
     | {
         userNewsletterId: Id<"userNewsletters">;
         r2Key: string;
+        attachmentCount: number;
+        skippedAttachmentCount: number;
         skipped?: false;
       }
     | {
@@ -277,7 +408,8 @@ export const storeNewsletterContent = internalAction({
       `[newsletters] storeNewsletterContent called: user=${args.userId}, sender=${args.senderId}, ` +
         `subject="${args.subject.substring(0, 50)}...", source=${args.source}, ` +
         `folderId=${args.folderId}, htmlLen=${args.htmlContent?.length || 0}, ` +
-        `textLen=${args.textContent?.length || 0}, messageId=${args.messageId || "none"}`,
+        `textLen=${args.textContent?.length || 0}, messageId=${args.messageId || "none"}, ` +
+        `attachments=${args.attachments?.length ?? 0}`,
     );
 
     // ========================================
@@ -440,14 +572,86 @@ export const storeNewsletterContent = internalAction({
         contentId: undefined, // Story 9.2: Never set for user ingestion
         source: args.source, // Story 9.2: Track ingestion source
         messageId: args.messageId, // Story 8.4: For duplicate detection
+        listId: args.listId,
+        listUnsubscribe: args.listUnsubscribe,
+        listUnsubscribePost: args.listUnsubscribePost,
+        precedence: args.precedence,
+        rawEmailR2Key: args.rawEmailR2Key,
+        rawEmailSizeBytes: args.rawEmailSizeBytes,
+        subAddressTag: args.subAddressTag,
+        emailAliasId: args.emailAliasId,
+        senderAuth: args.senderAuth,
+        // Double opt-in/welcome emails of new subscriptions (dedicated address only)
+        subscriptionEmail:
+          args.source === "email"
+            ? (detectSubscriptionEmail({
+                subject: args.subject,
+                htmlContent: args.htmlContent,
+                textContent: args.textContent,
+              }) ?? undefined)
+            : undefined,
+        bodyText: (args.htmlContent
+          ? stripHtmlToText(args.htmlContent)
+          : (args.textContent ?? "")
+        ).slice(0, MAX_SEARCH_BODY_LENGTH),
+        estimatedReadMinutes:
+          estimateReadMinutesFromContent(content) ?? undefined,
       },
     );
 
+    // Attachments count against the plan's attachment storage cap.
+    // Uploaded only once the record exists; if they can't be linked to it,
+    // the objects are deleted and the attachments count as skipped.
+    const uploaded =
+      args.attachments && args.attachments.length > 0
+        ? await uploadAttachmentsToR2(ctx, {
+            userId: args.userId,
+            attachments: args.attachments,
+            remainingBytes:
+              entitlements.attachmentStorageCapBytes -
+              (entitlements.usage.attachmentBytesStored ?? 0) -
+              (args.rawEmailSizeBytes ?? 0),
+          })
+        : { stored: [], skippedCount: 0 };
+    let storedAttachments = uploaded.stored;
+    let skippedAttachmentCount = uploaded.skippedCount;
+
+    if (storedAttachments.length > 0) {
+      try {
+        await ctx.runMutation(
+          internal.attachments.recordNewsletterAttachments,
+          {
+            userId: args.userId,
+            userNewsletterId,
+            attachments: storedAttachments,
+          },
+        );
+      } catch (error) {
+        console.error(
+          `[newsletters] Failed to record attachments, deleting uploads: user=${args.userId}`,
+          error,
+        );
+        for (const attachment of storedAttachments) {
+          await r2
+            .deleteObject(ctx, attachment.r2Key)
+            .catch(() => undefined);
+        }
+        skippedAttachmentCount += storedAttachments.length;
+        storedAttachments = [];
+      }
+    }
+
     await ctx.runMutation(internal.entitlements.incrementUserUsageCounters, {
       userId: args.userId,
       totalDelta: 1,
       unlockedDelta: isLockedByPlan ? 0 : 1,
       lockedDelta: isLockedByPlan ? 1 : 0,
+      // The archived original counts too, once it belongs to a newsletter
+      attachmentBytesDelta:
+        storedAttachments.reduce(
+          (total, attachment) => total + attachment.sizeBytes,
+          0,
+        ) + (args.rawEmailR2Key ? (args.rawEmailSizeBytes ?? 0) : 0),
     });
 
     // Increment sender.newsletterCount after successful storage
@@ -455,11 +659,24 @@ export const storeNewsletterContent = internalAction({
       senderId: args.senderId,
     });
 
+    // Embed the body for questions across the archive (newsletterQa.ts), a
+    // Pro feature: free users' newsletters are backfilled when they upgrade
+    if (entitlements.isPro && process.env.OPENROUTER_API_KEY) {
+      await ctx.scheduler.runAfter(0, internal.newsletterQa.indexNewsletter, {
+        userNewsletterId,
+      });
+    }
+
     console.log(
       `[newsletters] Private content stored: ${r2Key}, user=${args.userId}, source=${args.source}`,
     );
 
-    return { userNewsletterId, r2Key };
+    return {
+      userNewsletterId,
+      r2Key,
+      attachmentCount: storedAttachments.length,
+      skippedAttachmentCount,
+    };
   },
 });
 
@@ -596,26 +813,94 @@ export const createUserNewsletter = internalMutation({
     ),
     // Story 8.4: Email Message-ID header for duplicate detection
     messageId: v.optional(v.string()),
+    listId: v.optional(v.string()),
+    listUnsubscribe: v.optional(v.string()),
+    listUnsubscribePost: v.optional(v.string()),
+    precedence: v.optional(v.string()),
+    rawEmailR2Key: v.optional(v.string()),
+    rawEmailSizeBytes: v.optional(v.number()),
+    subAddressTag: v.optional(v.string()),
+    emailAliasId: v.optional(v.id("emailAliases")),
+    senderAuth: v.optional(senderAuthValidator),
+    subscriptionEmail: v.optional(subscriptionEmailValidator),
+    // Plain-text body for full-text search (see lib/searchText.ts)
+    bodyText: v.optional(v.string()),
+    estimatedReadMinutes: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    // Mail from a sender the user unsubscribed from: flag it, and bin it if asked to
+    const { binOnArrival } = await trackMailAfterUnsubscribe(ctx, {
+      userId: args.userId,
+      senderId: args.senderId,
+      receivedAt: args.receivedAt,
+    });
+    // Unauthenticated mail claiming to be from a followed sender, if the user opted in
+    const quarantine = await shouldQuarantineDelivery(ctx, {
+      userId: args.userId,
+      senderId: args.senderId,
+      senderAuth: args.senderAuth,
+    });
+    const language = args.bodyText ? detectLanguage(args.bodyText) : undefined;
+    // User rules can file, tag, mark read, favorite, bin or skip the inbox
+    const rules = await applyRulesOnArrival(ctx, {
+      userId: args.userId,
+      candidate: {
+        senderEmail: args.senderEmail,
+        subject: args.subject,
+        subAddressTag: args.subAddressTag,
+        language,
+      },
+    });
+    const isBinned = binOnArrival || quarantine || rules.bin;
+    const binnedAt = isBinned ? Date.now() : undefined;
+
+    if (args.subAddressTag) {
+      await recordSubAddressNewsletter(ctx, {
+        userId: args.userId,
+        tag: args.subAddressTag,
+        receivedAt: args.receivedAt,
+      });
+    }
+
+    if (args.emailAliasId) {
+      await recordAliasNewsletter(ctx, {
+        emailAliasId: args.emailAliasId,
+        senderEmail: args.senderEmail,
+        receivedAt: args.receivedAt,
+      });
+    }
+
     const userNewsletterId = await ctx.db.insert("userNewsletters", {
       userId: args.userId,
       senderId: args.senderId,
-      folderId: args.folderId, // Story 9.2: Required
+      folderId: rules.folderId ?? args.folderId, // Story 9.2: Required
       contentId: args.contentId,
       privateR2Key: args.privateR2Key,
       subject: args.subject,
       senderEmail: args.senderEmail,
       senderName: args.senderName,
       receivedAt: args.receivedAt,
-      isRead: false,
-      isHidden: false,
-      isBinned: false,
-      isFavorited: false,
+      isRead: rules.markRead,
+      isHidden: rules.skipInbox,
+      isBinned,
+      binnedAt,
+      isFavorited: rules.favorite,
       isPrivate: args.isPrivate,
       isLockedByPlan: args.isLockedByPlan ?? false,
       source: args.source, // Story 9.2: Track ingestion source
       messageId: args.messageId, // Story 8.4: Store for duplicate detection
+      listId: args.listId,
+      listUnsubscribe: args.listUnsubscribe,
+      listUnsubscribePost: args.listUnsubscribePost,
+      precedence: args.precedence,
+      rawEmailR2Key: args.rawEmailR2Key,
+      rawEmailSizeBytes: args.rawEmailSizeBytes,
+      subAddressTag: args.subAddressTag,
+      emailAliasId: args.emailAliasId,
+      senderAuth: args.senderAuth,
+      quarantinedAt: quarantine ? binnedAt : undefined,
+      language,
+      estimatedReadMinutes: args.estimatedReadMinutes,
     });
 
     await ctx.db.insert("newsletterSearchMeta", {
@@ -625,10 +910,41 @@ export const createUserNewsletter = internalMutation({
       senderEmail: args.senderEmail,
       senderName: args.senderName,
       receivedAt: args.receivedAt,
-      isHidden: false,
-      isBinned: false,
-      isRead: false,
+      isHidden: rules.skipInbox,
+      isBinned,
+      isRead: rules.markRead,
       isLockedByPlan: args.isLockedByPlan ?? false,
+      searchText: buildSearchText(args),
+      isBodyIndexed: args.bodyText !== undefined,
+    });
+
+    for (const tagId of rules.tagIds) {
+      await addNewsletterTag(ctx, {
+        userId: args.userId,
+        tagId,
+        userNewsletterId,
+        receivedAt: args.receivedAt,
+      });
+    }
+
+    if (args.subscriptionEmail) {
+      await recordSubscriptionEmail(ctx, {
+        userId: args.userId,
+        senderId: args.senderId,
+        userNewsletterId,
+        senderEmail: args.senderEmail,
+        senderName: args.senderName,
+        subject: args.subject,
+        receivedAt: args.receivedAt,
+        subscriptionEmail: args.subscriptionEmail,
+      });
+    }
+
+    // AI folder suggestion for a new sender, if the user opted in
+    await scheduleFolderSuggestion(ctx, {
+      userId: args.userId,
+      senderId: args.senderId,
+      source: args.source,
     });
 
     return userNewsletterId;
@@ -728,6 +1044,9 @@ type UserNewsletterWithContentResult = {
   isFavorited?: boolean;
   isPrivate: boolean;
   readProgress?: number;
+  attachmentCount?: number;
+  rawEmailR2Key?: string;
+  subAddressTag?: string;
   contentUrl: string | null;
   contentStatus: ContentStatus;
 };
@@ -942,11 +1261,14 @@ export const listUserNewsletters = query({
 
     // Story 3.5 AC2: Exclude hidden newsletters from main list
     // Story 9.5 AC6: Exclude newsletters in hidden folders from "All Newsletters"
-    const visibleNewsletters = newsletters.filter(
-      (n) =>
-        !n.isHidden &&
-        !n.isBinned &&
-        (!n.folderId || !hiddenFolderIds.has(n.folderId)),
+    const visibleNewsletters = orderResurfacedFirst(
+      newsletters.filter(
+        (n) =>
+          !n.isHidden &&
+          !n.isBinned &&
+          !n.snoozedUntil &&
+          (!n.folderId || !hiddenFolderIds.has(n.folderId)),
+      ),
     );
 
     // Story 5.2: Derive hasSummary for each newsletter
@@ -1025,7 +1347,7 @@ export const listUserNewslettersBySender = query({
 
       // Story 3.5 AC2: Exclude hidden newsletters, then sort by receivedAt descending
       visibleNewsletters = newsletters
-        .filter((n) => !n.isHidden && !n.isBinned)
+        .filter((n) => !n.isHidden && !n.isBinned && !n.snoozedUntil)
         .sort((a, b) => b.receivedAt - a.receivedAt);
     } else {
       // No filter - return all non-hidden (existing behavior using proper index)
@@ -1037,7 +1359,7 @@ export const listUserNewslettersBySender = query({
 
       // Story 3.5 AC2: Exclude hidden newsletters
       visibleNewsletters = newsletters.filter(
-        (n) => !n.isHidden && !n.isBinned,
+        (n) => !n.isHidden && !n.isBinned && !n.snoozedUntil,
       );
     }
 
@@ -1122,8 +1444,10 @@ export const listUserNewslettersByFolder = query({
       .collect();
 
     // Story 3.5 AC2: Exclude hidden newsletters
-    const filteredNewsletters = newslettersInFolder.filter(
-      (n) => !n.isHidden && !n.isBinned,
+    const filteredNewsletters = orderResurfacedFirst(
+      newslettersInFolder.filter(
+        (n) => !n.isHidden && !n.isBinned && !n.snoozedUntil,
+      ),
     );
 
     // Story 5.2: Batch-fetch contentIds to avoid N+1 queries (code review fix)
@@ -1183,7 +1507,17 @@ export const listUserNewslettersByFolderHead = query({
       .order("desc")
       .paginate({ numItems: args.numItems ?? 20, cursor: null });
 
-    const visiblePage = result.page.filter((n) => !n.isHidden && !n.isBinned);
+    const isListed = (n: Doc<"userNewsletters">) =>
+      n.folderId === args.folderId &&
+      !n.isHidden &&
+      !n.isBinned &&
+      !n.snoozedUntil;
+    const visiblePage = await withResurfacedFirst(
+      ctx,
+      user._id,
+      result.page.filter(isListed),
+      isListed,
+    );
     const enriched = await enrichNewsletterListItems(ctx, visiblePage);
 
     return { ...result, page: enriched };
@@ -1206,7 +1540,10 @@ export const listUserNewslettersByFolderPageInternal = internalQuery({
       .order("desc")
       .paginate({ numItems: args.numItems, cursor: args.cursor });
 
-    const visiblePage = result.page.filter((n) => !n.isHidden && !n.isBinned);
+    const visiblePage = result.page.filter(
+      (n) =>
+        !n.isHidden && !n.isBinned && !n.snoozedUntil && !isResurfaced(n),
+    );
     const enriched = await enrichNewsletterListItems(ctx, visiblePage);
 
     return { ...result, page: enriched };
@@ -1250,6 +1587,262 @@ export const listUserNewslettersByFolderPage = action({
   },
 });
 
+/**
+ * Page of a smart folder's newsletters, newest first
+ * Scans the user's newsletters in the filter's date window; criteria the
+ * index can't express are applied to each page, so pages may be short.
+ */
+async function listSmartFolderNewslettersPageForUser(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  smartFolderId: Id<"smartFolders">,
+  paginationOpts: { cursor: string | null; numItems: number },
+): Promise<NewsletterListPageResult> {
+  const smartFolder = await ctx.db.get("smartFolders", smartFolderId);
+  if (!smartFolder || smartFolder.userId !== userId) {
+    return { page: [], isDone: true, continueCursor: null };
+  }
+
+  const now = Date.now();
+  const receivedAfter = getSmartFolderReceivedAfter(smartFolder.filter, now);
+  const readState = smartFolder.filter.readState;
+  const hiddenFolderIds = await getHiddenFolderIdSet(ctx, userId);
+
+  const result = await ctx.db
+    .query("userNewsletters")
+    .withIndex("by_userId_receivedAt", (q) =>
+      receivedAfter === undefined
+        ? q.eq("userId", userId)
+        : q.eq("userId", userId).gte("receivedAt", receivedAfter),
+    )
+    .order("desc")
+    .filter((q) =>
+      readState === undefined
+        ? q.eq(q.field("isHidden"), false)
+        : q.and(
+            q.eq(q.field("isHidden"), false),
+            q.eq(q.field("isRead"), readState === "read"),
+          ),
+    )
+    .paginate(paginationOpts);
+
+  const isListed = (n: Doc<"userNewsletters">) =>
+    !n.isHidden &&
+    !n.isBinned &&
+    !n.snoozedUntil &&
+    (readState === undefined || n.isRead === (readState === "read")) &&
+    (receivedAfter === undefined || n.receivedAt >= receivedAfter) &&
+    (!n.folderId || !hiddenFolderIds.has(n.folderId)) &&
+    matchesSmartFolderFilter(n, smartFolder.filter, now);
+  const listedPage = result.page.filter(isListed);
+  const visiblePage =
+    paginationOpts.cursor === null
+      ? await withResurfacedFirst(ctx, userId, listedPage, isListed)
+      : listedPage.filter((n) => !isResurfaced(n));
+  const enriched = await enrichNewsletterListItems(ctx, visiblePage);
+
+  return { ...result, page: enriched };
+}
+
+export const listSmartFolderNewslettersHead = query({
+  args: {
+    smartFolderId: v.id("smartFolders"),
+    numItems: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return { page: [], isDone: true, continueCursor: null };
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first();
+    if (!user) return { page: [], isDone: true, continueCursor: null };
+
+    return await listSmartFolderNewslettersPageForUser(
+      ctx,
+      user._id,
+      args.smartFolderId,
+      { numItems: args.numItems ?? 20, cursor: null },
+    );
+  },
+});
+
+export const listSmartFolderNewslettersPageInternal = internalQuery({
+  args: {
+    userId: v.id("users"),
+    smartFolderId: v.id("smartFolders"),
+    cursor: v.union(v.string(), v.null()),
+    numItems: v.number(),
+  },
+  handler: async (ctx, args) => {
+    return await listSmartFolderNewslettersPageForUser(
+      ctx,
+      args.userId,
+      args.smartFolderId,
+      { numItems: args.numItems, cursor: args.cursor },
+    );
+  },
+});
+
+export const listSmartFolderNewslettersPage = action({
+  args: {
+    smartFolderId: v.id("smartFolders"),
+    cursor: v.union(v.string(), v.null()),
+    numItems: v.number(),
+  },
+  handler: async (ctx, args): Promise<NewsletterListPageResult> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError({
+        code: "UNAUTHORIZED",
+        message: "Not authenticated",
+      });
+    }
+
+    const user = await ctx.runQuery(internal._internal.users.findByAuthId, {
+      authId: identity.subject,
+    });
+    if (!user) {
+      throw new ConvexError({
+        code: "UNAUTHORIZED",
+        message: "User not found",
+      });
+    }
+
+    return await ctx.runQuery(
+      internal.newsletters.listSmartFolderNewslettersPageInternal,
+      {
+        userId: user._id,
+        smartFolderId: args.smartFolderId,
+        cursor: args.cursor,
+        numItems: args.numItems,
+      },
+    );
+  },
+});
+
+/**
+ * Page of a tag's newsletters, newest first
+ * Paginates the tag's links (newsletterTags.by_tagId_receivedAt); archived
+ * and binned newsletters are dropped from each page, so pages may be short.
+ */
+async function listNewslettersByTagPageForUser(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  tagId: Id<"tags">,
+  paginationOpts: { cursor: string | null; numItems: number },
+): Promise<NewsletterListPageResult> {
+  const tag = await ctx.db.get("tags", tagId);
+  if (!tag || tag.userId !== userId) {
+    return { page: [], isDone: true, continueCursor: null };
+  }
+
+  const result = await ctx.db
+    .query("newsletterTags")
+    .withIndex("by_tagId_receivedAt", (q) => q.eq("tagId", tagId))
+    .order("desc")
+    .paginate(paginationOpts);
+
+  const newsletters = await Promise.all(
+    result.page.map((link) => ctx.db.get("userNewsletters", link.userNewsletterId)),
+  );
+  const listedPage = newsletters.filter(
+    (n): n is Doc<"userNewsletters"> =>
+      n !== null && !n.isHidden && !n.isBinned && !n.snoozedUntil,
+  );
+  const visiblePage =
+    paginationOpts.cursor === null
+      ? await withResurfacedFirst(
+          ctx,
+          userId,
+          listedPage,
+          async (n) =>
+            !n.isHidden &&
+            !n.isBinned &&
+            !n.snoozedUntil &&
+            (await getNewsletterTagIds(ctx, n._id)).includes(tagId),
+        )
+      : listedPage.filter((n) => !isResurfaced(n));
+  const enriched = await enrichNewsletterListItems(ctx, visiblePage);
+
+  return { ...result, page: enriched };
+}
+
+export const listNewslettersByTagHead = query({
+  args: {
+    tagId: v.id("tags"),
+    numItems: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return { page: [], isDone: true, continueCursor: null };
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first();
+    if (!user) return { page: [], isDone: true, continueCursor: null };
+
+    return await listNewslettersByTagPageForUser(ctx, user._id, args.tagId, {
+      numItems: args.numItems ?? 20,
+      cursor: null,
+    });
+  },
+});
+
+export const listNewslettersByTagPageInternal = internalQuery({
+  args: {
+    userId: v.id("users"),
+    tagId: v.id("tags"),
+    cursor: v.union(v.string(), v.null()),
+    numItems: v.number(),
+  },
+  handler: async (ctx, args) => {
+    return await listNewslettersByTagPageForUser(ctx, args.userId, args.tagId, {
+      numItems: args.numItems,
+      cursor: args.cursor,
+    });
+  },
+});
+
+export const listNewslettersByTagPage = action({
+  args: {
+    tagId: v.id("tags"),
+    cursor: v.union(v.string(), v.null()),
+    numItems: v.number(),
+  },
+  handler: async (ctx, args): Promise<NewsletterListPageResult> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError({
+        code: "UNAUTHORIZED",
+        message: "Not authenticated",
+      });
+    }
+
+    const user = await ctx.runQuery(internal._internal.users.findByAuthId, {
+      authId: identity.subject,
+    });
+    if (!user) {
+      throw new ConvexError({
+        code: "UNAUTHORIZED",
+        message: "User not found",
+      });
+    }
+
+    return await ctx.runQuery(
+      internal.newsletters.listNewslettersByTagPageInternal,
+      {
+        userId: user._id,
+        tagId: args.tagId,
+        cursor: args.cursor,
+        numItems: args.numItems,
+      },
+    );
+  },
+});
+
 export const listAllNewslettersHead = query({
   args: {
     numItems: v.optional(v.number()),
@@ -1272,11 +1865,16 @@ export const listAllNewslettersHead = query({
       .order("desc")
       .paginate({ numItems: args.numItems ?? 30, cursor: null });
 
-    const visiblePage = result.page.filter(
-      (n) =>
-        !n.isHidden &&
-        !n.isBinned &&
-        (!n.folderId || !hiddenFolderIds.has(n.folderId)),
+    const isListed = (n: Doc<"userNewsletters">) =>
+      !n.isHidden &&
+      !n.isBinned &&
+      !n.snoozedUntil &&
+      (!n.folderId || !hiddenFolderIds.has(n.folderId));
+    const visiblePage = await withResurfacedFirst(
+      ctx,
+      user._id,
+      result.page.filter(isListed),
+      isListed,
     );
     const enriched = await enrichNewsletterListItems(ctx, visiblePage);
 
@@ -1303,6 +1901,8 @@ export const listAllNewslettersPageInternal = internalQuery({
       (n) =>
         !n.isHidden &&
         !n.isBinned &&
+        !n.snoozedUntil &&
+        !isResurfaced(n) &&
         (!n.folderId || !hiddenFolderIds.has(n.folderId)),
     );
     const enriched = await enrichNewsletterListItems(ctx, visiblePage);
@@ -1377,8 +1977,17 @@ export const listRecentUnreadNewslettersHead = query({
       .order("desc")
       .paginate({ numItems: args.numItems ?? 8, cursor: null });
 
-    const visiblePage = result.page.filter(
-      (n) => !n.isBinned && (!n.folderId || !hiddenFolderIds.has(n.folderId)),
+    const isListed = (n: Doc<"userNewsletters">) =>
+      !n.isHidden &&
+      !n.isBinned &&
+      !n.snoozedUntil &&
+      (n.resurfacedAt ?? n.receivedAt) >= windowStart &&
+      (!n.folderId || !hiddenFolderIds.has(n.folderId));
+    const visiblePage = await withResurfacedFirst(
+      ctx,
+      user._id,
+      result.page.filter(isListed),
+      isListed,
     );
     const enriched = await enrichNewsletterListItems(ctx, visiblePage);
 
@@ -1411,7 +2020,11 @@ export const listRecentUnreadNewslettersPageInternal = internalQuery({
       .paginate({ numItems: args.numItems, cursor: args.cursor });
 
     const visiblePage = result.page.filter(
-      (n) => !n.isBinned && (!n.folderId || !hiddenFolderIds.has(n.folderId)),
+      (n) =>
+        !n.isBinned &&
+        !n.snoozedUntil &&
+        !isResurfaced(n) &&
+        (!n.folderId || !hiddenFolderIds.has(n.folderId)),
     );
     const enriched = await enrichNewsletterListItems(ctx, visiblePage);
 
@@ -1471,6 +2084,7 @@ export const markAsRead = internalMutation({
     await ctx.db.patch("userNewsletters", args.userNewsletterId, {
       isRead: true,
       readProgress: args.readProgress ?? 100,
+      resurfacedAt: undefined,
     });
   },
 });
@@ -1488,6 +2102,7 @@ export const updateReadProgress = internalMutation({
     await ctx.db.patch("userNewsletters", args.userNewsletterId, {
       readProgress: args.readProgress,
       isRead: args.readProgress >= 100,
+      ...(args.readProgress >= 100 ? { resurfacedAt: undefined } : {}),
     });
   },
 });
@@ -1556,7 +2171,10 @@ export const setReadProgress = mutation({
     // Only update the primary newsletter doc when we transition to "read".
     // Intermediate progress updates must not touch `userNewsletters`.
     if (clampedProgress === 100 && !userNewsletter.isRead) {
-      await ctx.db.patch("userNewsletters", args.userNewsletterId, { isRead: true });
+      await ctx.db.patch("userNewsletters", args.userNewsletterId, {
+        isRead: true,
+        resurfacedAt: undefined,
+      });
 
       const searchMeta = await getSearchMetaDoc(
         ctx,
@@ -1573,8 +2191,10 @@ export const setReadProgress = mutation({
           receivedAt: userNewsletter.receivedAt,
           isHidden: userNewsletter.isHidden,
           isBinned: Boolean(userNewsletter.isBinned),
+          isSnoozed: Boolean(userNewsletter.snoozedUntil),
           isRead: true,
           isLockedByPlan: Boolean(userNewsletter.isLockedByPlan),
+          searchText: buildSearchText(userNewsletter),
         });
       } else if (!searchMeta.isRead) {
         await ctx.db.patch("newsletterSearchMeta", searchMeta._id, { isRead: true });
@@ -1631,7 +2251,10 @@ export const markNewsletterRead = mutation({
     });
 
     if (!userNewsletter.isRead) {
-      await ctx.db.patch("userNewsletters", args.userNewsletterId, { isRead: true });
+      await ctx.db.patch("userNewsletters", args.userNewsletterId, {
+        isRead: true,
+        resurfacedAt: undefined,
+      });
     }
 
     const searchMeta = await getSearchMetaDoc(
@@ -1649,8 +2272,10 @@ export const markNewsletterRead = mutation({
         receivedAt: userNewsletter.receivedAt,
         isHidden: userNewsletter.isHidden,
         isBinned: Boolean(userNewsletter.isBinned),
+        isSnoozed: Boolean(userNewsletter.snoozedUntil),
         isRead: true,
         isLockedByPlan: Boolean(userNewsletter.isLockedByPlan),
+        searchText: buildSearchText(userNewsletter),
       });
     } else if (!searchMeta.isRead) {
       await ctx.db.patch("newsletterSearchMeta", searchMeta._id, { isRead: true });
@@ -1712,8 +2337,10 @@ export const markNewsletterUnread = mutation({
         receivedAt: userNewsletter.receivedAt,
         isHidden: userNewsletter.isHidden,
         isBinned: Boolean(userNewsletter.isBinned),
+        isSnoozed: Boolean(userNewsletter.snoozedUntil),
         isRead: false,
         isLockedByPlan: Boolean(userNewsletter.isLockedByPlan),
+        searchText: buildSearchText(userNewsletter),
       });
     } else if (searchMeta.isRead) {
       await ctx.db.patch("newsletterSearchMeta", searchMeta._id, { isRead: false });
@@ -1766,7 +2393,10 @@ export const updateNewsletterReadProgress = mutation({
     });
 
     if (clampedProgress === 100 && !userNewsletter.isRead) {
-      await ctx.db.patch("userNewsletters", args.userNewsletterId, { isRead: true });
+      await ctx.db.patch("userNewsletters", args.userNewsletterId, {
+        isRead: true,
+        resurfacedAt: undefined,
+      });
 
       const searchMeta = await getSearchMetaDoc(
         ctx,
@@ -1783,8 +2413,10 @@ export const updateNewsletterReadProgress = mutation({
           receivedAt: userNewsletter.receivedAt,
           isHidden: userNewsletter.isHidden,
           isBinned: Boolean(userNewsletter.isBinned),
+          isSnoozed: Boolean(userNewsletter.snoozedUntil),
           isRead: true,
           isLockedByPlan: Boolean(userNewsletter.isLockedByPlan),
+          searchText: buildSearchText(userNewsletter),
         });
       } else if (!searchMeta.isRead) {
         await ctx.db.patch("newsletterSearchMeta", searchMeta._id, { isRead: true });
@@ -1846,8 +2478,10 @@ export const hideNewsletter = mutation({
         receivedAt: userNewsletter.receivedAt,
         isHidden: true,
         isBinned: Boolean(userNewsletter.isBinned),
+        isSnoozed: Boolean(userNewsletter.snoozedUntil),
         isRead: userNewsletter.isRead,
         isLockedByPlan: Boolean(userNewsletter.isLockedByPlan),
+        searchText: buildSearchText(userNewsletter),
       });
     } else if (!searchMeta.isHidden) {
       await ctx.db.patch("newsletterSearchMeta", searchMeta._id, { isHidden: true });
@@ -1908,8 +2542,10 @@ export const unhideNewsletter = mutation({
         receivedAt: userNewsletter.receivedAt,
         isHidden: false,
         isBinned: Boolean(userNewsletter.isBinned),
+        isSnoozed: Boolean(userNewsletter.snoozedUntil),
         isRead: userNewsletter.isRead,
         isLockedByPlan: Boolean(userNewsletter.isLockedByPlan),
+        searchText: buildSearchText(userNewsletter),
       });
     } else if (searchMeta.isHidden) {
       await ctx.db.patch("newsletterSearchMeta", searchMeta._id, { isHidden: false });
@@ -1971,8 +2607,10 @@ export const binNewsletter = mutation({
         receivedAt: userNewsletter.receivedAt,
         isHidden: userNewsletter.isHidden,
         isBinned: true,
+        isSnoozed: Boolean(userNewsletter.snoozedUntil),
         isRead: userNewsletter.isRead,
         isLockedByPlan: Boolean(userNewsletter.isLockedByPlan),
+        searchText: buildSearchText(userNewsletter),
       });
     } else if (!searchMeta.isBinned) {
       await ctx.db.patch("newsletterSearchMeta", searchMeta._id, { isBinned: true });
@@ -2573,6 +3211,7 @@ async function backfillNewsletterSearchMetaRecentImpl(
       receivedAt: newsletter.receivedAt,
       isHidden: newsletter.isHidden,
       isBinned: Boolean(newsletter.isBinned),
+      isSnoozed: Boolean(newsletter.snoozedUntil),
       isRead: newsletter.isRead,
       isLockedByPlan: Boolean(newsletter.isLockedByPlan),
     };
@@ -2582,6 +3221,7 @@ async function backfillNewsletterSearchMetaRecentImpl(
         userId: args.userId,
         userNewsletterId: newsletter._id,
         ...desired,
+        searchText: buildSearchText(newsletter),
       });
       inserted++;
       continue;
@@ -2599,9 +3239,14 @@ async function backfillNewsletterSearchMetaRecentImpl(
       patch.isHidden = desired.isHidden;
     if (Boolean(current.isBinned) !== desired.isBinned)
       patch.isBinned = desired.isBinned;
+    if (Boolean(current.isSnoozed) !== desired.isSnoozed)
+      patch.isSnoozed = desired.isSnoozed;
     if (current.isRead !== desired.isRead) patch.isRead = desired.isRead;
     if (current.isLockedByPlan !== desired.isLockedByPlan)
       patch.isLockedByPlan = desired.isLockedByPlan;
+    // Rows created before full-text search: make at least subject/sender searchable
+    if (current.searchText === undefined)
+      patch.searchText = buildSearchText(newsletter);
 
     if (Object.keys(patch).length > 0) {
       await ctx.db.patch(current._id, patch);
@@ -2672,10 +3317,47 @@ type NewsletterSearchMetaResult = {
   receivedAt: number;
   isHidden: boolean;
   isRead: boolean;
+  /** Body excerpt around the first match (absent when only subject/sender matched) */
+  snippet?: SearchSnippet;
 };
 
 /**
- * Search the current user's newsletters by subject + sender name/email.
+ * Most candidates read from the search index (Convex returns at most 1024).
+ * Filters that aren't search filter fields (folder, sender, dates, favorites,
+ * bin) are applied while reading, which stops as soon as `limit` results are
+ * found - so heavily filtered searches keep reading past the top matches.
+ */
+const MAX_SEARCH_CANDIDATES = 1024;
+
+/**
+ * Most newest newsletters read for operator-only queries (e.g. `is:unread
+ * folder:Tech`), which have no search terms to rank by.
+ */
+const MAX_FILTER_CANDIDATES = 1000;
+
+function conflicts<T>(a: T | undefined, b: T | undefined): boolean {
+  return a !== undefined && b !== undefined && a !== b;
+}
+
+function maxDefined(a?: number, b?: number): number | undefined {
+  return a === undefined ? b : b === undefined ? a : Math.max(a, b);
+}
+
+function minDefined(a?: number, b?: number): number | undefined {
+  return a === undefined ? b : b === undefined ? a : Math.min(a, b);
+}
+
+/**
+ * Full-text search over the current user's newsletters: subject, sender and
+ * body (see lib/searchText.ts). Results are ranked by relevance and come with
+ * a highlighted body snippet.
+ *
+ * Bodies are searched for Pro users only, and never for newsletters locked by
+ * the plan: those match on subject and sender alone, without a snippet.
+ *
+ * The query supports operators (from:, folder:, tag:, after:, before:, is:, has:),
+ * parsed by the shared search query parser; invalid syntax throws
+ * INVALID_SEARCH_QUERY with the parser's message.
  *
  * Note: this is designed to be called non-reactively from the client
  * (via `useConvex().query(...)` inside TanStack Query) to avoid creating
@@ -2685,6 +3367,13 @@ export const searchUserNewslettersMeta = query({
   args: {
     query: v.string(),
     limit: v.optional(v.number()),
+    folderId: v.optional(v.id("folders")),
+    senderId: v.optional(v.id("senders")),
+    tagId: v.optional(v.id("tags")),
+    receivedAfter: v.optional(v.number()),
+    receivedBefore: v.optional(v.number()),
+    isRead: v.optional(v.boolean()),
+    isFavorited: v.optional(v.boolean()),
   },
   handler: async (ctx, args): Promise<NewsletterSearchMetaResult[]> => {
     const identity = await ctx.auth.getUserIdentity();
@@ -2707,27 +3396,160 @@ export const searchUserNewslettersMeta = query({
       });
     }
 
-    const q = args.query.trim().toLowerCase();
-    if (q.length < 2) return [];
+    const parsed = parseSearchQuery(args.query);
+    if (!parsed.success) {
+      throw new ConvexError({
+        code: "INVALID_SEARCH_QUERY",
+        message: parsed.error.message,
+      });
+    }
+    const sq = parsed.query;
+    const hasOperators = hasSearchCriteria({ ...sq, text: "" });
+    if (!hasOperators && sq.text.length < 2) return [];
 
     const limit = Math.min(args.limit ?? 20, 50);
-
-    const recent = await ctx.db
-      .query("newsletterSearchMeta")
-      .withIndex("by_userId_receivedAt", (q2: any) => q2.eq("userId", user._id))
-      .order("desc")
-      .take(500);
-
-    const matches = recent.filter((doc: Doc<"newsletterSearchMeta">) => {
-      if (doc.isBinned) return false;
-      if (doc.subject.toLowerCase().includes(q)) return true;
-      if (doc.senderEmail.toLowerCase().includes(q)) return true;
-      if (doc.senderName && doc.senderName.toLowerCase().includes(q))
-        return true;
-      return false;
+    const isPro = isUserPro({
+      plan: user.plan ?? "free",
+      proExpiresAt: user.proExpiresAt,
     });
 
-    return matches.slice(0, limit).map((doc) => ({
+    // Operators narrow the explicit filters; contradicting ones match nothing
+    if (conflicts(args.isRead, sq.isRead)) return [];
+    if (conflicts(args.isFavorited, sq.isFavorited)) return [];
+    const isRead = args.isRead ?? sq.isRead;
+    const isFavorited = args.isFavorited ?? sq.isFavorited;
+    const receivedAfter = maxDefined(args.receivedAfter, sq.receivedAfter);
+    const receivedBefore = minDefined(args.receivedBefore, sq.receivedBefore);
+
+    let folderId = args.folderId;
+    if (sq.folder !== undefined) {
+      const folderName = sq.folder.toLowerCase();
+      const folders = await ctx.db
+        .query("folders")
+        .withIndex("by_userId", (q) => q.eq("userId", user._id))
+        .collect();
+      const folder = folders.find((f) => f.name.toLowerCase() === folderName);
+      if (!folder || conflicts(args.folderId, folder._id)) return [];
+      folderId = folder._id;
+    }
+
+    let tagId = args.tagId;
+    if (sq.tag !== undefined) {
+      const tagName = sq.tag.toLowerCase();
+      const tags = await ctx.db
+        .query("tags")
+        .withIndex("by_userId", (q) => q.eq("userId", user._id))
+        .collect();
+      const tag = tags.find((t) => t.name.toLowerCase() === tagName);
+      if (!tag || conflicts(args.tagId, tag._id)) return [];
+      tagId = tag._id;
+    }
+
+    // from: doubles as the search term when there's no free text, since the
+    // sender's name and email are part of searchText
+    const searchTerms = sq.text || sq.from;
+    const candidates = searchTerms
+      ? ctx.db
+          .query("newsletterSearchMeta")
+          .withSearchIndex("search_text", (search) => {
+            const filtered = search
+              .search("searchText", searchTerms)
+              .eq("userId", user._id);
+            return isRead === undefined ? filtered : filtered.eq("isRead", isRead);
+          })
+      : ctx.db
+          .query("newsletterSearchMeta")
+          .withIndex("by_userId_receivedAt", (q) => {
+            const byUser = q.eq("userId", user._id);
+            if (receivedAfter !== undefined && receivedBefore !== undefined) {
+              return byUser
+                .gte("receivedAt", receivedAfter)
+                .lt("receivedAt", receivedBefore);
+            }
+            if (receivedAfter !== undefined) {
+              return byUser.gte("receivedAt", receivedAfter);
+            }
+            if (receivedBefore !== undefined) {
+              return byUser.lt("receivedAt", receivedBefore);
+            }
+            return byUser;
+          })
+          .order("desc");
+    const maxCandidates = searchTerms
+      ? MAX_SEARCH_CANDIDATES
+      : MAX_FILTER_CANDIDATES;
+
+    const from = sq.from?.toLowerCase();
+    const phrases = sq.phrases.map((phrase) =>
+      phrase.replace(/\s+/g, " ").toLowerCase(),
+    );
+    const needsNewsletterDoc =
+      folderId !== undefined ||
+      args.senderId !== undefined ||
+      isFavorited !== undefined ||
+      sq.hasAttachment !== undefined;
+
+    const canSearchBody = (doc: Doc<"newsletterSearchMeta">) =>
+      isPro && !doc.isLockedByPlan;
+
+    const matches: Doc<"newsletterSearchMeta">[] = [];
+    let scanned = 0;
+    for await (const doc of candidates) {
+      if (matches.length >= limit || scanned >= maxCandidates) break;
+      scanned += 1;
+      if (doc.isBinned || doc.isSnoozed) continue;
+      if (isRead !== undefined && doc.isRead !== isRead) continue;
+      if (receivedAfter !== undefined && doc.receivedAt < receivedAfter)
+        continue;
+      if (receivedBefore !== undefined && doc.receivedAt >= receivedBefore)
+        continue;
+      if (
+        from !== undefined &&
+        !doc.senderEmail.toLowerCase().includes(from) &&
+        !doc.senderName?.toLowerCase().includes(from)
+      )
+        continue;
+      const searchable = canSearchBody(doc)
+        ? (doc.searchText ?? "")
+        : getSearchHeader(doc.searchText);
+      if (
+        searchTerms &&
+        !canSearchBody(doc) &&
+        !matchesSearchTerms(searchable, searchTerms)
+      )
+        continue;
+      if (phrases.length > 0) {
+        const text = searchable.toLowerCase();
+        if (!phrases.every((phrase) => text.includes(phrase))) continue;
+      }
+
+      if (needsNewsletterDoc) {
+        const newsletter = await ctx.db.get(
+          "userNewsletters",
+          doc.userNewsletterId,
+        );
+        if (!newsletter) continue;
+        if (folderId !== undefined && newsletter.folderId !== folderId)
+          continue;
+        if (args.senderId !== undefined && newsletter.senderId !== args.senderId)
+          continue;
+        if (
+          isFavorited !== undefined &&
+          Boolean(newsletter.isFavorited) !== isFavorited
+        )
+          continue;
+        if (sq.hasAttachment && !newsletter.attachmentCount) continue;
+      }
+
+      if (tagId !== undefined) {
+        const tagIds = await getNewsletterTagIds(ctx, doc.userNewsletterId);
+        if (!tagIds.includes(tagId)) continue;
+      }
+
+      matches.push(doc);
+    }
+
+    return matches.map((doc) => ({
       userNewsletterId: doc.userNewsletterId,
       subject: doc.subject,
       senderEmail: doc.senderEmail,
@@ -2735,10 +3557,34 @@ export const searchUserNewslettersMeta = query({
       receivedAt: doc.receivedAt,
       isHidden: doc.isHidden,
       isRead: doc.isRead,
+      snippet: canSearchBody(doc)
+        ? getSearchSnippet(doc.searchText, sq.text)
+        : undefined,
     }));
   },
 });
 
+/**
+ * Store the body text of a newsletter's search metadata
+ * Used by the searchTextBackfill migration for newsletters ingested before
+ * full-text search (and community imports, whose body isn't read at import).
+ */
+export const setSearchBodyText = internalMutation({
+  args: {
+    searchMetaId: v.id("newsletterSearchMeta"),
+    bodyText: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const meta = await ctx.db.get("newsletterSearchMeta", args.searchMetaId);
+    if (!meta) return;
+
+    await ctx.db.patch("newsletterSearchMeta", meta._id, {
+      searchText: buildSearchText({ ...meta, bodyText: args.bodyText }),
+      isBodyIndexed: true,
+    });
+  },
+});
+
 // ============================================================
 // Story 6.4: Empty State Detection
 // ============================================================
@@ -2795,6 +3641,20 @@ async function deleteUserNewsletterRecord(
     await ctx.db.delete("newsletterSearchMeta", searchMeta._id);
   }
 
+  await deleteNewsletterTagLinks(ctx, userNewsletter._id);
+  await deleteReadingQueueItem(ctx, userNewsletter._id);
+  await deleteNewsletterHighlights(ctx, userNewsletter._id);
+  await deleteNewsletterChunks(ctx, userNewsletter._id);
+  await deleteSummaryVariants(ctx, userNewsletter._id);
+  await deleteNewsletterTranslations(ctx, userNewsletter._id);
+  await deleteSubscriptionConfirmations(ctx, userNewsletter._id);
+
+  const releasedAttachmentBytes =
+    (userNewsletter.attachmentCount
+      ? await deleteNewsletterAttachmentRecords(ctx, userNewsletter._id)
+      : 0) +
+    (userNewsletter.rawEmailR2Key ? (userNewsletter.rawEmailSizeBytes ?? 0) : 0);
+
   const counters = await ctx.db
     .query("userUsageCounters")
     .withIndex("by_userId", (q: any) => q.eq("userId", userId))
@@ -2809,6 +3669,10 @@ async function deleteUserNewsletterRecord(
         counters.unlockedStored - (wasLocked ? 0 : 1),
       ),
       lockedStored: Math.max(0, counters.lockedStored - (wasLocked ? 1 : 0)),
+      attachmentBytesStored: Math.max(
+        0,
+        (counters.attachmentBytesStored ?? 0) - releasedAttachmentBytes,
+      ),
       updatedAt: Date.now(),
     });
   }
@@ -2985,3 +3849,339 @@ export const cleanupExpiredBinnedNewsletters = internalMutation({
     return { deletedCount };
   },
 });
+
+// ============================================================
+// Snooze: newsletters leave the inbox lists until a chosen time
+// ============================================================
+
+/** Furthest a newsletter can be snoozed ahead */
+const MAX_SNOOZE_MS = 365 * 24 * 60 * 60 * 1000;
+
+/** Newsletters woken per wakeSnoozedNewsletters run */
+const SNOOZE_WAKE_BATCH_SIZE = 200;
+
+/**
+ * Load a newsletter owned by the current user (throws otherwise)
+ */
+async function getOwnedUserNewsletter(
+  ctx: MutationCtx,
+  userNewsletterId: Id<"userNewsletters">,
+): Promise<Doc<"userNewsletters">> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new ConvexError({
+      code: "UNAUTHORIZED",
+      message: "Not authenticated",
+    });
+  }
+
+  const userNewsletter = await ctx.db.get("userNewsletters", userNewsletterId);
+  if (!userNewsletter) {
+    throw new ConvexError({
+      code: "NOT_FOUND",
+      message: "Newsletter not found",
+    });
+  }
+
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+    .first();
+
+  if (!user || userNewsletter.userId !== user._id) {
+    throw new ConvexError({ code: "FORBIDDEN", message: "Access denied" });
+  }
+  return userNewsletter;
+}
+
+/**
+ * Keep search results in step with a snooze (snoozed newsletters aren't found)
+ */
+async function setSearchMetaSnoozed(
+  ctx: MutationCtx,
+  userNewsletter: Doc<"userNewsletters">,
+  isSnoozed: boolean,
+): Promise<void> {
+  const searchMeta = await getSearchMetaDoc(
+    ctx,
+    userNewsletter.userId,
+    userNewsletter._id,
+  );
+  if (searchMeta && Boolean(searchMeta.isSnoozed) !== isSnoozed) {
+    await ctx.db.patch("newsletterSearchMeta", searchMeta._id, { isSnoozed });
+  }
+}
+
+/**
+ * Snooze a newsletter until `snoozedUntil` (Unix timestamp ms)
+ * It drops out of the inbox lists and shows in the Snoozed view until
+ * wakeSnoozedNewsletters brings it back. Snoozing again moves the time.
+ */
+export const snoozeNewsletter = mutation({
+  args: {
+    userNewsletterId: v.id("userNewsletters"),
+    snoozedUntil: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userNewsletter = await getOwnedUserNewsletter(
+      ctx,
+      args.userNewsletterId,
+    );
+
+    const now = Date.now();
+    if (!Number.isFinite(args.snoozedUntil) || args.snoozedUntil <= now) {
+      throw new ConvexError({
+        code: "VALIDATION_ERROR",
+        message: "Snooze time must be in the future",
+      });
+    }
+    if (args.snoozedUntil > now + MAX_SNOOZE_MS) {
+      throw new ConvexError({
+        code: "VALIDATION_ERROR",
+        message: "Newsletters can be snoozed for up to a year",
+      });
+    }
+    if (userNewsletter.isBinned) {
+      throw new ConvexError({
+        code: "VALIDATION_ERROR",
+        message: "Newsletters in the bin can't be snoozed",
+      });
+    }
+
+    await ctx.db.patch("userNewsletters", userNewsletter._id, {
+      snoozedUntil: args.snoozedUntil,
+      resurfacedAt: undefined,
+    });
+    await setSearchMetaSnoozed(ctx, userNewsletter, true);
+  },
+});
+
+/**
+ * Cancel a snooze: the newsletter goes back to its original place in the
+ * inbox, read state untouched
+ */
+export const unsnoozeNewsletter = mutation({
+  args: {
+    userNewsletterId: v.id("userNewsletters"),
+  },
+  handler: async (ctx, args) => {
+    const userNewsletter = await getOwnedUserNewsletter(
+      ctx,
+      args.userNewsletterId,
+    );
+    if (userNewsletter.snoozedUntil === undefined) return;
+
+    await ctx.db.patch("userNewsletters", userNewsletter._id, {
+      snoozedUntil: undefined,
+    });
+    await setSearchMetaSnoozed(ctx, userNewsletter, false);
+  },
+});
+
+export const listSnoozedNewslettersHead = query({
+  args: {
+    numItems: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return { page: [], isDone: true, continueCursor: null };
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first();
+    if (!user) return { page: [], isDone: true, continueCursor: null };
+
+    // Soonest to wake first
+    const result = await ctx.db
+      .query("userNewsletters")
+      .withIndex("by_userId_snoozedUntil", (q) =>
+        q.eq("userId", user._id).gt("snoozedUntil", 0),
+      )
+      .order("asc")
+      .paginate({ numItems: args.numItems ?? 30, cursor: null });
+
+    const visiblePage = result.page.filter((n) => !n.isBinned);
+    const enriched = await enrichNewsletterListItems(ctx, visiblePage);
+
+    return { ...result, page: enriched };
+  },
+});
+
+export const listSnoozedNewslettersPageInternal = internalQuery({
+  args: {
+    userId: v.id("users"),
+    cursor: v.union(v.string(), v.null()),
+    numItems: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("userNewsletters")
+      .withIndex("by_userId_snoozedUntil", (q) =>
+        q.eq("userId", args.userId).gt("snoozedUntil", 0),
+      )
+      .order("asc")
+      .paginate({ numItems: args.numItems, cursor: args.cursor });
+
+    const visiblePage = result.page.filter((n) => !n.isBinned);
+    const enriched = await enrichNewsletterListItems(ctx, visiblePage);
+
+    return { ...result, page: enriched };
+  },
+});
+
+export const listSnoozedNewslettersPage = action({
+  args: {
+    cursor: v.union(v.string(), v.null()),
+    numItems: v.number(),
+  },
+  handler: async (ctx, args): Promise<NewsletterListPageResult> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError({
+        code: "UNAUTHORIZED",
+        message: "Not authenticated",
+      });
+    }
+
+    const user = await ctx.runQuery(internal._internal.users.findByAuthId, {
+      authId: identity.subject,
+    });
+    if (!user) {
+      throw new ConvexError({
+        code: "UNAUTHORIZED",
+        message: "User not found",
+      });
+    }
+
+    return await ctx.runQuery(
+      internal.newsletters.listSnoozedNewslettersPageInternal,
+      {
+        userId: user._id,
+        cursor: args.cursor,
+        numItems: args.numItems,
+      },
+    );
+  },
+});
+
+/**
+ * Get count of snoozed newsletters (sidebar "Snoozed" section)
+ */
+export const getSnoozedNewsletterCount = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return 0;
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first();
+
+    if (!user) return 0;
+
+    const snoozedNewsletters = await ctx.db
+      .query("userNewsletters")
+      .withIndex("by_userId_snoozedUntil", (q) =>
+        q.eq("userId", user._id).gt("snoozedUntil", 0),
+      )
+      .collect();
+
+    return snoozedNewsletters.filter((newsletter) => !newsletter.isBinned)
+      .length;
+  },
+});
+
+/**
+ * Cron entry point: bring back newsletters whose snooze has ended
+ * They return unread and on top of the inbox lists (resurfacedAt, see
+ * withResurfacedFirst) while keeping their delivery date. Continues in a new
+ * mutation when there are more than one batch.
+ */
+export const wakeSnoozedNewsletters = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<{ wokenCount: number }> => {
+    const now = Date.now();
+    const due = await ctx.db
+      .query("userNewsletters")
+      .withIndex("by_snoozedUntil", (q) =>
+        q.gt("snoozedUntil", 0).lte("snoozedUntil", now),
+      )
+      .take(SNOOZE_WAKE_BATCH_SIZE);
+
+    for (const newsletter of due) {
+      await ctx.db.patch("userNewsletters", newsletter._id, {
+        snoozedUntil: undefined,
+        isRead: false,
+        resurfacedAt: now,
+      });
+
+      const searchMeta = await getSearchMetaDoc(
+        ctx,
+        newsletter.userId,
+        newsletter._id,
+      );
+      if (searchMeta) {
+        await ctx.db.patch("newsletterSearchMeta", searchMeta._id, {
+          isRead: false,
+          isSnoozed: false,
+        });
+      }
+    }
+
+    if (due.length === SNOOZE_WAKE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.newsletters.wakeSnoozedNewsletters,
+        {},
+      );
+    }
+    return { wokenCount: due.length };
+  },
+});
+
+// ============================================================
+// Reading queue (mutations in readingQueue.ts)
+// ============================================================
+
+/**
+ * The user's reading queue in queue order, with the total estimated reading
+ * time. Binned newsletters stay queued but aren't listed until restored.
+ * Newsletters ingested before reading times were stored count as 0 minutes.
+ */
+export const listReadingQueue = query({
+  args: {},
+  handler: async (ctx) => {
+    const empty = { items: [], totalReadMinutes: 0 };
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return empty;
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first();
+    if (!user) return empty;
+
+    const queueItems = await ctx.db
+      .query("readingQueueItems")
+      .withIndex("by_userId_position", (q) => q.eq("userId", user._id))
+      .collect();
+    const newsletters = await Promise.all(
+      queueItems.map((item) => ctx.db.get("userNewsletters", item.userNewsletterId)),
+    );
+    const queued = newsletters.filter(
+      (newsletter): newsletter is Doc<"userNewsletters"> =>
+        newsletter !== null && !newsletter.isBinned,
+    );
+
+    const items = await enrichNewsletterListItems(ctx, queued);
+    return {
+      items,
+      totalReadMinutes: queued.reduce(
+        (total, newsletter) => total + (newsletter.estimatedReadMinutes ?? 0),
+        0,
+      ),
+    };
+  },
+});
@@ -0,0 +1,62 @@
+import { mutation, type MutationCtx } from "./_generated/server"
+import { v, ConvexError } from "convex/values"
+import type { Id } from "./_generated/dataModel"
+import { isUnauthenticated, type SenderAuth } from "./lib/senderAuth"
+
+/**
+ * Quarantine of unauthenticated mail: when the user opts in, mail that fails
+ * SPF/DKIM/DMARC while claiming to come from a sender they already follow is
+ * binned on arrival - the typical shape of a spoofed newsletter. Mail from
+ * new senders is still delivered, with the reader's "could not verify" banner.
+ */
+
+/**
+ * Whether a new delivery should be quarantined.
+ * Called from createUserNewsletter before the newsletter is inserted.
+ */
+export async function shouldQuarantineDelivery(
+  ctx: Pick<MutationCtx, "db">,
+  args: {
+    userId: Id<"users">
+    senderId: Id<"senders">
+    senderAuth: SenderAuth | undefined
+  }
+): Promise<boolean> {
+  if (!isUnauthenticated(args.senderAuth)) return false
+
+  const user = await ctx.db.get("users", args.userId)
+  if (!user?.quarantineUnauthenticatedMail) return false
+
+  // "Followed" = the user already has mail from this sender that wasn't quarantined
+  const previous = await ctx.db
+    .query("userNewsletters")
+    .withIndex("by_userId_senderId", (q) => q.eq("userId", args.userId).eq("senderId", args.senderId))
+    .filter((q) => q.eq(q.field("quarantinedAt"), undefined))
+    .first()
+  return previous !== null
+}
+
+/**
+ * Turn on/off quarantine of unauthenticated mail for the current user
+ * Only affects new deliveries.
+ */
+export const setQuarantineUnauthenticatedMail = mutation({
+  args: { enabled: v.boolean() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    await ctx.db.patch("users", user._id, { quarantineUnauthenticatedMail: args.enabled })
+    return { success: true }
+  },
+})
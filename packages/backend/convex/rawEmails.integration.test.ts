@@ -0,0 +1,376 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+import { r2 } from "./r2"
+import { FREE_ATTACHMENT_STORAGE_BYTES } from "./entitlements"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://example.com/original"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+
+const RAW_EMAIL = [
+  "From: Example News <news@example.com>",
+  "To: reader@hushletter.test",
+  "Subject: Weekly digest",
+  "Date: Wed, 15 Jan 2026 10:00:00 +0000",
+  "Message-ID: <weekly-1@mail.example.com>",
+  "Content-Type: text/html; charset=utf-8",
+  "",
+  "<p>Re-parsed body</p>",
+].join("\r\n")
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(
+  t: ReturnType<typeof makeT>,
+  overrides: { keepOriginalEmails?: boolean; isAdmin?: boolean; authId?: string } = {}
+) {
+  const authId = overrides.authId ?? "auth_reader"
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: `${authId}@example.com`,
+      createdAt: Date.now(),
+      authId,
+      dedicatedEmail: `${authId}@hushletter.test`,
+      plan: "free",
+      keepOriginalEmails: overrides.keepOriginalEmails,
+      isAdmin: overrides.isAdmin,
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to: "auth_reader@hushletter.test",
+      from: "news@example.com",
+      subject: "Weekly digest",
+      receivedAt: Date.now(),
+      htmlContent: "<p>Original body</p>",
+      rawEmail: btoa(RAW_EMAIL),
+      ...payload,
+    }),
+  })
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> }
+}
+
+/** R2 keys of the raw messages uploaded during the test */
+function getStoredOriginalKeys() {
+  return vi
+    .mocked(r2.store)
+    .mock.calls.map(([, , options]) => (typeof options === "object" ? options : undefined))
+    .filter((options) => options?.type === "message/rfc822")
+    .map((options) => options?.key)
+}
+
+function getDeliveryLogs(t: ReturnType<typeof makeT>) {
+  return t.run(async (ctx) => ctx.db.query("emailDeliveryLogs").collect())
+}
+
+function getUsageCounters(t: ReturnType<typeof makeT>, userId: Id<"users">) {
+  return t.run(async (ctx) =>
+    ctx.db
+      .query("userUsageCounters")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .first()
+  )
+}
+
+describe("keep original emails", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    process.env.INTERNAL_API_KEY = previousApiKey
+  })
+
+  it("archives the raw message and links it from the newsletter and delivery log", async () => {
+    const t = makeT()
+    const userId = await seedUser(t, { keepOriginalEmails: true })
+
+    const { status, body } = await postEmail(t, {})
+    expect(status).toBe(200)
+
+    const [originalKey] = getStoredOriginalKeys()
+    expect(originalKey).toMatch(new RegExp(`^private/${userId}/originals/.+\\.eml$`))
+
+    const newsletter = await t.run(async (ctx) =>
+      ctx.db.get("userNewsletters", body.userNewsletterId as Id<"userNewsletters">)
+    )
+    expect(newsletter?.rawEmailR2Key).toBe(originalKey)
+    expect(newsletter?.rawEmailSizeBytes).toBe(RAW_EMAIL.length)
+
+    const [log] = await getDeliveryLogs(t)
+    expect(log).toMatchObject({
+      status: "stored",
+      userNewsletterId: body.userNewsletterId,
+      rawEmailR2Key: originalKey,
+    })
+  })
+
+  it("counts the original against the attachment storage cap", async () => {
+    const t = makeT()
+    const userId = await seedUser(t, { keepOriginalEmails: true })
+
+    const { body } = await postEmail(t, { messageId: "counted@mail.example.com" })
+    const counters = await getUsageCounters(t, userId)
+    expect(counters?.attachmentBytesStored).toBe(RAW_EMAIL.length)
+
+    await t
+      .withIdentity({ subject: "auth_reader" })
+      .mutation(api.newsletters.deleteUserNewsletter, {
+        userNewsletterId: body.userNewsletterId as Id<"userNewsletters">,
+      })
+    expect((await getUsageCounters(t, userId))?.attachmentBytesStored).toBe(0)
+  })
+
+  it("does not archive the original once the storage cap is full", async () => {
+    const t = makeT()
+    const userId = await seedUser(t, { keepOriginalEmails: true })
+    await t.run(async (ctx) =>
+      ctx.db.insert("userUsageCounters", {
+        userId,
+        totalStored: 0,
+        unlockedStored: 0,
+        lockedStored: 0,
+        attachmentBytesStored: FREE_ATTACHMENT_STORAGE_BYTES - 10,
+        updatedAt: Date.now(),
+      })
+    )
+
+    const { status, body } = await postEmail(t, {})
+
+    expect(status).toBe(200)
+    expect(getStoredOriginalKeys()).toEqual([])
+    const newsletter = await t.run(async (ctx) =>
+      ctx.db.get("userNewsletters", body.userNewsletterId as Id<"userNewsletters">)
+    )
+    expect(newsletter?.rawEmailR2Key).toBeUndefined()
+  })
+
+  it("does not archive a redelivered message again", async () => {
+    const t = makeT()
+    await seedUser(t, { keepOriginalEmails: true })
+
+    await postEmail(t, { messageId: "weekly-1@mail.example.com" })
+    const { body } = await postEmail(t, { messageId: "weekly-1@mail.example.com" })
+
+    expect(body).toMatchObject({ skipped: true, reason: "duplicate" })
+    expect(getStoredOriginalKeys()).toHaveLength(1)
+  })
+
+  it("drops the raw message when the user has not opted in", async () => {
+    const t = makeT()
+    await seedUser(t)
+
+    const { status, body } = await postEmail(t, {})
+    expect(status).toBe(200)
+
+    expect(getStoredOriginalKeys()).toEqual([])
+    const newsletter = await t.run(async (ctx) =>
+      ctx.db.get("userNewsletters", body.userNewsletterId as Id<"userNewsletters">)
+    )
+    expect(newsletter?.rawEmailR2Key).toBeUndefined()
+  })
+
+  it("rejects oversized raw messages", async () => {
+    const t = makeT()
+    await seedUser(t, { keepOriginalEmails: true })
+
+    const { status, body } = await postEmail(t, { rawEmail: "A".repeat(6 * 1024 * 1024) })
+
+    expect(status).toBe(400)
+    expect(JSON.stringify(body.details)).toContain("rawEmail exceeds maximum length")
+  })
+
+  it("toggles the setting for the current user", async () => {
+    const t = makeT()
+    const userId = await seedUser(t)
+
+    await t
+      .withIdentity({ subject: "auth_reader" })
+      .mutation(api.rawEmails.setKeepOriginalEmails, { enabled: true })
+
+    const user = await t.run(async (ctx) => ctx.db.get("users", userId))
+    expect(user?.keepOriginalEmails).toBe(true)
+  })
+})
+
+describe("getOriginalEmailDownloadUrl", () => {
+  it("returns a signed URL to the owner only", async () => {
+    const t = makeT()
+    const ownerId = await seedUser(t)
+    await seedUser(t, { authId: "auth_other" })
+    const userNewsletterId = await t.run(async (ctx) => {
+      const senderId = await ctx.db.insert("senders", {
+        email: "news@example.com",
+        domain: "example.com",
+        subscriberCount: 1,
+        newsletterCount: 1,
+      })
+      return await ctx.db.insert("userNewsletters", {
+        userId: ownerId,
+        senderId,
+        subject: "Weekly: digest",
+        senderEmail: "news@example.com",
+        receivedAt: Date.now(),
+        isRead: false,
+        isHidden: false,
+        isPrivate: true,
+        rawEmailR2Key: `private/${ownerId}/originals/1-abc.eml`,
+      })
+    })
+
+    const result = await t
+      .withIdentity({ subject: "auth_reader" })
+      .action(api.rawEmails.getOriginalEmailDownloadUrl, { userNewsletterId })
+    expect(result).toEqual({ url: "https://example.com/original", filename: "Weekly_ digest.eml" })
+
+    await expect(
+      t
+        .withIdentity({ subject: "auth_other" })
+        .action(api.rawEmails.getOriginalEmailDownloadUrl, { userNewsletterId })
+    ).rejects.toThrow(/Access denied/)
+  })
+})
+
+describe("reparseDeliveryFromOriginal", () => {
+  let fetchSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response(RAW_EMAIL))
+  })
+
+  afterEach(() => {
+    fetchSpy.mockRestore()
+  })
+
+  async function seedFailedDelivery(t: ReturnType<typeof makeT>) {
+    const userId = await seedUser(t, { keepOriginalEmails: true })
+    await seedUser(t, { authId: "auth_admin", isAdmin: true })
+    const logId = await t.run(async (ctx) =>
+      ctx.db.insert("emailDeliveryLogs", {
+        recipientEmail: "auth_reader@hushletter.test",
+        senderEmail: "news@example.com",
+        subject: "Weekly digest",
+        messageId: "weekly-1@mail.example.com",
+        userId,
+        status: "failed",
+        receivedAt: Date.now(),
+        errorCode: "R2_UPLOAD_FAILED",
+        errorMessage: "R2 unavailable",
+        rawEmailR2Key: `private/${userId}/originals/1-abc.eml`,
+        retryCount: 0,
+        isAcknowledged: false,
+      })
+    )
+    return { userId, logId }
+  }
+
+  it("stores a failed delivery from its original and links the log", async () => {
+    const t = makeT()
+    const { logId } = await seedFailedDelivery(t)
+
+    const result = await t
+      .withIdentity({ subject: "auth_admin" })
+      .action(api.admin.reparseDeliveryFromOriginal, { logId })
+
+    expect(result.status).toBe("stored")
+    const newsletter = await t.run(async (ctx) => ctx.db.get("userNewsletters", result.userNewsletterId))
+    expect(newsletter).toMatchObject({
+      subject: "Weekly digest",
+      messageId: "weekly-1@mail.example.com",
+      rawEmailR2Key: expect.stringContaining("/originals/"),
+    })
+    const log = await t.run(async (ctx) => ctx.db.get("emailDeliveryLogs", logId))
+    expect(log).toMatchObject({ status: "stored", userNewsletterId: result.userNewsletterId })
+  })
+
+  it("replaces the content of an already stored delivery", async () => {
+    const t = makeT()
+    const { logId } = await seedFailedDelivery(t)
+    const admin = t.withIdentity({ subject: "auth_admin" })
+    const { userNewsletterId } = await admin.action(api.admin.reparseDeliveryFromOriginal, { logId })
+    const before = await t.run(async (ctx) => ctx.db.get("userNewsletters", userNewsletterId))
+
+    // Stale derived data from the first parse
+    await t.run(async (ctx) => {
+      await ctx.db.patch("userNewsletters", userNewsletterId, { estimatedReadMinutes: 42 })
+      const meta = await ctx.db
+        .query("newsletterSearchMeta")
+        .withIndex("by_userId_userNewsletterId", (q) =>
+          q.eq("userId", before!.userId).eq("userNewsletterId", userNewsletterId)
+        )
+        .first()
+      await ctx.db.patch("newsletterSearchMeta", meta!._id, { searchText: "Weekly digest\nold body" })
+    })
+
+    const result = await admin.action(api.admin.reparseDeliveryFromOriginal, { logId })
+
+    expect(result).toEqual({ status: "updated", userNewsletterId })
+    const after = await t.run(async (ctx) => ctx.db.get("userNewsletters", userNewsletterId))
+    expect(after?.privateR2Key).not.toBe(before?.privateR2Key)
+    expect(after?.estimatedReadMinutes).toBe(0)
+    expect(r2.deleteObject).toHaveBeenCalledWith(expect.anything(), before?.privateR2Key)
+    const meta = await t.run(async (ctx) =>
+      ctx.db
+        .query("newsletterSearchMeta")
+        .withIndex("by_userId_userNewsletterId", (q) =>
+          q.eq("userId", before!.userId).eq("userNewsletterId", userNewsletterId)
+        )
+        .first()
+    )
+    expect(meta?.searchText).toContain("Re-parsed body")
+  })
+
+  it("deletes the re-parsed upload when the newsletter was deleted meanwhile", async () => {
+    const t = makeT()
+    const { logId } = await seedFailedDelivery(t)
+    const admin = t.withIdentity({ subject: "auth_admin" })
+    const { userNewsletterId } = await admin.action(api.admin.reparseDeliveryFromOriginal, { logId })
+    await t.run(async (ctx) => ctx.db.delete("userNewsletters", userNewsletterId))
+    vi.mocked(r2.store).mockClear()
+
+    await expect(admin.action(api.admin.reparseDeliveryFromOriginal, { logId })).rejects.toThrow(
+      /Newsletter not found/
+    )
+
+    const [[, , options]] = vi.mocked(r2.store).mock.calls
+    const uploadedKey = typeof options === "object" ? options.key : undefined
+    expect(uploadedKey).toBeDefined()
+    expect(r2.deleteObject).toHaveBeenCalledWith(expect.anything(), uploadedKey)
+  })
+
+  it("requires an admin", async () => {
+    const t = makeT()
+    const { logId } = await seedFailedDelivery(t)
+
+    await expect(
+      t
+        .withIdentity({ subject: "auth_reader" })
+        .action(api.admin.reparseDeliveryFromOriginal, { logId })
+    ).rejects.toThrow(/Admin access required/)
+  })
+})
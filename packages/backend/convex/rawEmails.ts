@@ -0,0 +1,152 @@
+import { action, internalAction, internalQuery, mutation } from "./_generated/server"
+import { internal } from "./_generated/api"
+import { v, ConvexError } from "convex/values"
+import { r2 } from "./r2"
+import { isUserPro } from "./entitlements"
+import { decodeBase64, toSafeAttachmentFilename } from "./attachments"
+
+/**
+ * "Keep original emails": the raw MIME message of each delivery is archived
+ * in R2 so users can download the .eml and admins can re-run parsing.
+ */
+
+/** Maximum decoded size of an archived original (matches the email worker's limit) */
+export const MAX_RAW_EMAIL_BYTES = 4 * 1024 * 1024
+
+/**
+ * Upload a raw message to R2 under the user's private prefix.
+ * Archiving is best-effort - a failure never blocks the delivery itself.
+ * Originals count against the attachment storage cap, like attachments.
+ * @returns The stored object, or null if the message was invalid, didn't fit
+ *          in the remaining storage or the upload failed
+ */
+export const archiveRawEmail = internalAction({
+  args: {
+    userId: v.id("users"),
+    rawEmailBase64: v.string(),
+    remainingBytes: v.number(),
+  },
+  handler: async (ctx, args): Promise<{ r2Key: string; sizeBytes: number } | null> => {
+    let bytes: Uint8Array<ArrayBuffer>
+    try {
+      bytes = decodeBase64(args.rawEmailBase64)
+    } catch {
+      console.log("[rawEmails] Skipping original with invalid base64")
+      return null
+    }
+    if (bytes.byteLength === 0 || bytes.byteLength > MAX_RAW_EMAIL_BYTES) return null
+    if (bytes.byteLength > args.remainingBytes) {
+      console.log(
+        `[rawEmails] Attachment storage cap reached, not archiving original ` +
+          `(${bytes.byteLength} bytes, ${Math.max(0, args.remainingBytes)} remaining)`
+      )
+      return null
+    }
+
+    const r2Key = `private/${args.userId}/originals/${Date.now()}-${crypto.randomUUID()}.eml`
+    try {
+      const blob = new Blob([bytes], { type: "message/rfc822" })
+      await r2.store(ctx, blob, { key: r2Key, type: "message/rfc822" })
+    } catch (error) {
+      console.error(`[rawEmails] R2 upload failed for original: key=${r2Key}`, error)
+      return null
+    }
+
+    return { r2Key, sizeBytes: bytes.byteLength }
+  },
+})
+
+/**
+ * Download an archived original from R2
+ */
+export async function fetchRawEmail(r2Key: string): Promise<Uint8Array> {
+  const url = await r2.getUrl(r2Key, { expiresIn: 300 })
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new ConvexError({
+      code: "R2_FETCH_FAILED",
+      message: `Failed to fetch original email: HTTP ${response.status}`,
+    })
+  }
+  return new Uint8Array(await response.arrayBuffer())
+}
+
+/**
+ * Turn on/off archiving of original emails for the current user
+ * Only affects new deliveries - existing originals are kept.
+ */
+export const setKeepOriginalEmails = mutation({
+  args: { enabled: v.boolean() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    await ctx.db.patch("users", user._id, { keepOriginalEmails: args.enabled })
+    return { success: true }
+  },
+})
+
+/**
+ * Internal query to get a userNewsletter for the original download (no auth checks)
+ */
+export const getNewsletterOriginalInternal = internalQuery({
+  args: { userNewsletterId: v.id("userNewsletters") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get("userNewsletters", args.userNewsletterId)
+  },
+})
+
+/**
+ * Get a short-lived signed download URL for a newsletter's original .eml
+ * This is an action because r2.getUrl() makes external API calls
+ */
+export const getOriginalEmailDownloadUrl = action({
+  args: { userNewsletterId: v.id("userNewsletters") },
+  handler: async (ctx, args): Promise<{ url: string; filename: string }> => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.runQuery(internal._internal.users.findByAuthId, {
+      authId: identity.subject,
+    })
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    const userNewsletter = await ctx.runQuery(internal.rawEmails.getNewsletterOriginalInternal, {
+      userNewsletterId: args.userNewsletterId,
+    })
+    if (!userNewsletter) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Newsletter not found" })
+    }
+    if (userNewsletter.userId !== user._id) {
+      throw new ConvexError({ code: "FORBIDDEN", message: "Access denied" })
+    }
+    if (!userNewsletter.rawEmailR2Key) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "No original email stored for this newsletter" })
+    }
+
+    const isPro = isUserPro({ plan: user.plan ?? "free", proExpiresAt: user.proExpiresAt })
+    if (!isPro && userNewsletter.isLockedByPlan) {
+      throw new ConvexError({
+        code: "PRO_REQUIRED",
+        message: "Upgrade to Pro to access this newsletter.",
+      })
+    }
+
+    const url = await r2.getUrl(userNewsletter.rawEmailR2Key, { expiresIn: 3600 })
+    return { url, filename: `${toSafeAttachmentFilename(userNewsletter.subject)}.eml` }
+  },
+})
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://r2.example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>, name: string) {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: `${name}@example.com`,
+      createdAt: Date.now(),
+      authId: `auth_${name}`,
+      dedicatedEmail: `${name}-1234@hushletter.test`,
+      plan: "free",
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to: "reader-1234@hushletter.test",
+      from: "weekly@news.example.com",
+      subject: "Weekly",
+      receivedAt: Date.now(),
+      htmlContent: "<p>Weekly</p>",
+      ...payload,
+    }),
+  })
+  const body = (await response.json()) as { userNewsletterId: Id<"userNewsletters"> }
+  return body.userNewsletterId
+}
+
+function words(count: number): string {
+  return Array.from({ length: count }, (_, index) => `word${index}`).join(" ")
+}
+
+describe("reading queue", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    process.env.INTERNAL_API_KEY = previousApiKey
+  })
+
+  it("keeps the user's order and totals reading time estimated at ingestion", async () => {
+    const t = makeT()
+    await seedUser(t, "reader")
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const longId = await postEmail(t, {
+      subject: "Long read",
+      htmlContent: `<style>p { margin: 0 }</style><p>${words(900)}</p>`,
+    })
+    const shortId = await postEmail(t, { subject: "Short read", htmlContent: `<p>${words(300)}</p>` })
+
+    const stored = await t.run(async (ctx) => ctx.db.get("userNewsletters", longId))
+    expect(stored?.estimatedReadMinutes).toBe(5)
+
+    await reader.mutation(api.readingQueue.addToReadingQueue, { userNewsletterId: longId })
+    await reader.mutation(api.readingQueue.addToReadingQueue, { userNewsletterId: shortId })
+    await expect(
+      reader.mutation(api.readingQueue.addToReadingQueue, { userNewsletterId: longId })
+    ).resolves.toEqual({ alreadyQueued: true })
+
+    const queue = await reader.query(api.newsletters.listReadingQueue, {})
+    expect(queue.items.map((item) => item._id)).toEqual([longId, shortId])
+    expect(queue.totalReadMinutes).toBe(7)
+
+    await reader.mutation(api.readingQueue.reorderReadingQueue, {
+      orderedUserNewsletterIds: [shortId, longId],
+    })
+    const reordered = await reader.query(api.newsletters.listReadingQueue, {})
+    expect(reordered.items.map((item) => item._id)).toEqual([shortId, longId])
+  })
+
+  it("drops newsletters when they are removed or deleted", async () => {
+    const t = makeT()
+    await seedUser(t, "reader")
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const firstId = await postEmail(t, { subject: "First" })
+    const secondId = await postEmail(t, { subject: "Second" })
+    await reader.mutation(api.readingQueue.addToReadingQueue, { userNewsletterId: firstId })
+    await reader.mutation(api.readingQueue.addToReadingQueue, { userNewsletterId: secondId })
+
+    await reader.mutation(api.readingQueue.removeFromReadingQueue, { userNewsletterId: firstId })
+    await reader.mutation(api.newsletters.deleteUserNewsletter, { userNewsletterId: secondId })
+
+    const queue = await reader.query(api.newsletters.listReadingQueue, {})
+    expect(queue.items).toEqual([])
+    const remaining = await t.run(async (ctx) => ctx.db.query("readingQueueItems").collect())
+    expect(remaining).toEqual([])
+  })
+
+  it("rejects newsletters of other users", async () => {
+    const t = makeT()
+    await seedUser(t, "reader")
+    await seedUser(t, "other")
+    const newsletterId = await postEmail(t, {})
+
+    await expect(
+      t
+        .withIdentity({ subject: "auth_other" })
+        .mutation(api.readingQueue.addToReadingQueue, { userNewsletterId: newsletterId })
+    ).rejects.toThrow(/Access denied/)
+  })
+})
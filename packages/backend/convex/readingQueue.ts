@@ -0,0 +1,140 @@
+import { mutation, type MutationCtx } from "./_generated/server"
+import { v, ConvexError } from "convex/values"
+import type { Doc, Id } from "./_generated/dataModel"
+
+/**
+ * Reading queue: newsletters saved to read later, in the user's own order
+ * Favorites are a flag; queue items have a position the user sets by drag
+ * and drop. The queue is listed with newsletters.listReadingQueue.
+ */
+
+/** Maximum number of newsletters in a user's reading queue */
+export const MAX_READING_QUEUE_SIZE = 200
+
+async function getAuthedUser(ctx: MutationCtx): Promise<Doc<"users">> {
+  const identity = await ctx.auth.getUserIdentity()
+  if (!identity) {
+    throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+  }
+
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+    .first()
+  if (!user) {
+    throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+  }
+  return user
+}
+
+/**
+ * Queue items of a user, in queue order
+ */
+async function getQueueItems(
+  ctx: Pick<MutationCtx, "db">,
+  userId: Id<"users">
+): Promise<Doc<"readingQueueItems">[]> {
+  return await ctx.db
+    .query("readingQueueItems")
+    .withIndex("by_userId_position", (q) => q.eq("userId", userId))
+    .collect()
+}
+
+/**
+ * Remove a newsletter from its owner's queue (called when it's deleted)
+ */
+export async function deleteReadingQueueItem(
+  ctx: Pick<MutationCtx, "db">,
+  userNewsletterId: Id<"userNewsletters">
+): Promise<void> {
+  const items = await ctx.db
+    .query("readingQueueItems")
+    .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", userNewsletterId))
+    .collect()
+  for (const item of items) {
+    await ctx.db.delete("readingQueueItems", item._id)
+  }
+}
+
+/**
+ * Add a newsletter to the end of the reading queue
+ * @returns alreadyQueued when it was in the queue (its position is kept)
+ */
+export const addToReadingQueue = mutation({
+  args: { userNewsletterId: v.id("userNewsletters") },
+  handler: async (ctx, args) => {
+    const user = await getAuthedUser(ctx)
+    const newsletter = await ctx.db.get("userNewsletters", args.userNewsletterId)
+    if (!newsletter) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Newsletter not found" })
+    }
+    if (newsletter.userId !== user._id) {
+      throw new ConvexError({ code: "FORBIDDEN", message: "Access denied" })
+    }
+    if (newsletter.isBinned) {
+      throw new ConvexError({
+        code: "VALIDATION_ERROR",
+        message: "Newsletters in the bin can't be added to the reading queue",
+      })
+    }
+
+    const items = await getQueueItems(ctx, user._id)
+    if (items.some((item) => item.userNewsletterId === args.userNewsletterId)) {
+      return { alreadyQueued: true }
+    }
+    if (items.length >= MAX_READING_QUEUE_SIZE) {
+      throw new ConvexError({
+        code: "VALIDATION_ERROR",
+        message: `The reading queue holds up to ${MAX_READING_QUEUE_SIZE} newsletters`,
+      })
+    }
+
+    await ctx.db.insert("readingQueueItems", {
+      userId: user._id,
+      userNewsletterId: args.userNewsletterId,
+      position: (items.at(-1)?.position ?? -1) + 1,
+      addedAt: Date.now(),
+    })
+    return { alreadyQueued: false }
+  },
+})
+
+/**
+ * Remove a newsletter from the reading queue (no-op if it isn't queued)
+ */
+export const removeFromReadingQueue = mutation({
+  args: { userNewsletterId: v.id("userNewsletters") },
+  handler: async (ctx, args) => {
+    const user = await getAuthedUser(ctx)
+    const items = await ctx.db
+      .query("readingQueueItems")
+      .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", args.userNewsletterId))
+      .collect()
+    for (const item of items) {
+      if (item.userId !== user._id) continue
+      await ctx.db.delete("readingQueueItems", item._id)
+    }
+  },
+})
+
+/**
+ * Persist the queue order after drag-to-reorder
+ * Newsletters not in the list keep their relative order after the listed ones.
+ */
+export const reorderReadingQueue = mutation({
+  args: { orderedUserNewsletterIds: v.array(v.id("userNewsletters")) },
+  handler: async (ctx, args) => {
+    const user = await getAuthedUser(ctx)
+    const items = await getQueueItems(ctx, user._id)
+    const itemsByNewsletterId = new Map(items.map((item) => [item.userNewsletterId, item]))
+    const ordered = [...new Set(args.orderedUserNewsletterIds)]
+      .map((id) => itemsByNewsletterId.get(id))
+      .filter((item): item is Doc<"readingQueueItems"> => item !== undefined)
+    const rest = items.filter((item) => !ordered.includes(item))
+
+    for (const [position, item] of [...ordered, ...rest].entries()) {
+      if (item.position === position) continue
+      await ctx.db.patch("readingQueueItems", item._id, { position })
+    }
+  },
+})
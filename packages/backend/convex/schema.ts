@@ -1,5 +1,13 @@
 import { defineSchema, defineTable } from "convex/server"
 import { v } from "convex/values"
+import { senderAuthValidator } from "./lib/senderAuth"
+import { smartFolderFilterValidator } from "./lib/smartFolderFilter"
+import { ruleActionsValidator, ruleConditionsValidator } from "./lib/ruleMatching"
+import { retentionPolicyValidator } from "./lib/retentionPolicy"
+import { digestFrequencyValidator } from "./lib/digest"
+import { EMBEDDING_DIMENSIONS } from "./lib/textChunks"
+import { summaryStyleValidator } from "./lib/summaryStyle"
+import { supportedLanguageValidator } from "./lib/detectLanguage"
 
 export default defineSchema({
   // Users table - application user data linked to Better Auth
@@ -27,12 +35,24 @@ export default defineSchema({
 	    isAdmin: v.optional(v.boolean()),
 	    // Onboarding: timestamp when user completed the post-signup onboarding flow
 	    onboardingCompletedAt: v.optional(v.number()),
+	    // Archive the raw MIME message (.eml) of every delivery in R2
+	    keepOriginalEmails: v.optional(v.boolean()),
+	    // Send mail from followed senders that fails SPF/DKIM/DMARC to the bin
+	    quarantineUnauthenticatedMail: v.optional(v.boolean()),
+    // AI digest schedule (unset = off) and the end of the last digest's period
+    digestFrequency: v.optional(digestFrequencyValidator),
+    lastDigestAt: v.optional(v.number()),
+    // AI folder suggestions for new senders (folderSuggestions.ts)
+    autoCategorizeSenders: v.optional(v.boolean()),
+    // When older newsletters were last queued for questions across the archive
+    newsletterIndexBackfilledAt: v.optional(v.number()),
 		  })
 		    .index("by_email", ["email"])
 		    .index("by_authId", ["authId"])
 		    .index("by_dedicatedEmail", ["dedicatedEmail"])
 		    .index("by_vanityEmail", ["vanityEmail"])
-		    .index("by_dedicatedEmailShareToken", ["dedicatedEmailShareToken"]),
+		    .index("by_dedicatedEmailShareToken", ["dedicatedEmailShareToken"])
+    .index("by_digestFrequency", ["digestFrequency"]), // Digest cron
 
   // ============================================================
   // Epic 2.5: Shared Content Schema
@@ -61,6 +81,7 @@ export default defineSchema({
     communityApprovedAt: v.optional(v.number()), // Unix timestamp ms when admin approved
     communityApprovedBy: v.optional(v.id("users")), // Admin who approved for community
     importCount: v.optional(v.number()), // How many users imported from community
+    estimatedReadMinutes: v.optional(v.number()), // Copied from the published newsletter
   })
     .index("by_contentHash", ["contentHash"])
     .index("by_senderEmail", ["senderEmail"])
@@ -98,11 +119,17 @@ export default defineSchema({
 	    // Public share token for this specific newsletter (revocable/rotatable)
 	    shareToken: v.optional(v.string()),
 	    shareTokenUpdatedAt: v.optional(v.number()),
+    shareIncludesHighlights: v.optional(v.boolean()), // Public share page shows the owner's highlights
 	    // Story 5.1: AI Summary (personal for private newsletters, or user-regenerated summaries)
     summary: v.optional(v.string()),
     summaryGeneratedAt: v.optional(v.number()), // Unix timestamp ms
     // Story 8.4: Email Message-ID header for duplicate detection (without angle brackets)
     messageId: v.optional(v.string()),
+    // Mailing-list headers captured at ingestion (raw header values)
+    listId: v.optional(v.string()),
+    listUnsubscribe: v.optional(v.string()),
+    listUnsubscribePost: v.optional(v.string()), // RFC 8058 one-click marker
+    precedence: v.optional(v.string()),
     // Story 9.1: Task 1.4 - Track newsletter origin
     source: v.optional(
       v.union(
@@ -118,6 +145,27 @@ export default defineSchema({
     ),
     reviewedAt: v.optional(v.number()), // Unix timestamp ms
     reviewedBy: v.optional(v.id("users")), // Admin who reviewed
+    // Number of file attachments stored in newsletterAttachments
+    attachmentCount: v.optional(v.number()),
+    // Original raw message (.eml) archived in R2 ("keep original emails")
+    rawEmailR2Key: v.optional(v.string()),
+    rawEmailSizeBytes: v.optional(v.number()),
+    // Sub-address tag the newsletter was sent to (name+tag@domain)
+    subAddressTag: v.optional(v.string()),
+    // Disposable alias the newsletter was sent to
+    emailAliasId: v.optional(v.id("emailAliases")),
+    // SPF/DKIM/DMARC verdict for the From address
+    senderAuth: v.optional(senderAuthValidator),
+    // Set when unauthenticated mail was binned on arrival (quarantine)
+    quarantinedAt: v.optional(v.number()),
+    // Body language detected at ingestion (ISO 639-1, see lib/detectLanguage.ts)
+    language: v.optional(v.string()),
+    // Snoozed out of the inbox until this time (Unix timestamp ms)
+    snoozedUntil: v.optional(v.number()),
+    // When the snooze ended: listed first until read, receivedAt is kept (Unix timestamp ms)
+    resurfacedAt: v.optional(v.number()),
+    // Reading time estimated at ingestion (estimateReadMinutesFromContent, @hushletter/shared)
+    estimatedReadMinutes: v.optional(v.number()),
   })
     .index("by_userId", ["userId"])
     .index("by_userId_receivedAt", ["userId", "receivedAt"])
@@ -129,6 +177,7 @@ export default defineSchema({
     .index("by_userId_contentId", ["userId", "contentId"])
     .index("by_userId_folderId", ["userId", "folderId"]) // Story 9.1: Task 1.6 - For folder queries
     .index("by_userId_folderId_receivedAt", ["userId", "folderId", "receivedAt"]) // Perf: folder view sorted by date
+    .index("by_userId_subAddressTag", ["userId", "subAddressTag"]) // Which senders mailed a sub-address
     .index("by_userId_isLockedByPlan", ["userId", "isLockedByPlan"])
     .index("by_shareToken", ["shareToken"])
     .index("by_userId_isFavorited_isHidden_receivedAt", [
@@ -146,6 +195,9 @@ export default defineSchema({
     .index("by_userId_isHidden_receivedAt", ["userId", "isHidden", "receivedAt"]) // Perf: hidden list + count
     .index("by_userId_isBinned_binnedAt", ["userId", "isBinned", "binnedAt"])
     .index("by_isBinned_binnedAt", ["isBinned", "binnedAt"])
+    .index("by_userId_snoozedUntil", ["userId", "snoozedUntil"]) // Snoozed view + count
+    .index("by_snoozedUntil", ["snoozedUntil"]) // Wake cron
+    .index("by_userId_isRead_resurfacedAt", ["userId", "isRead", "resurfacedAt"]) // Woken newsletters on top of lists
     .index("by_reviewStatus", ["reviewStatus"]), // Story 9.7: Task 1.4 - For moderation queue filtering
 
   // Per-user read progress for newsletters.
@@ -160,9 +212,25 @@ export default defineSchema({
     .index("by_userId_userNewsletterId", ["userId", "userNewsletterId"])
     .index("by_userId_updatedAt", ["userId", "updatedAt"]),
 
-  // Lightweight per-user newsletter search metadata (subject + sender only).
+  // File attachments (PDFs, slide decks, calendar invites) received with a newsletter.
+  // Stored privately in R2 next to the newsletter body.
+  newsletterAttachments: defineTable({
+    userId: v.id("users"),
+    userNewsletterId: v.id("userNewsletters"),
+    filename: v.string(),
+    mimeType: v.string(),
+    sizeBytes: v.number(),
+    r2Key: v.string(),
+    contentId: v.optional(v.string()), // MIME Content-ID, without angle brackets
+    createdAt: v.number(), // Unix timestamp ms
+  })
+    .index("by_userNewsletterId", ["userNewsletterId"])
+    .index("by_userId", ["userId"]),
+
+  // Lightweight per-user newsletter search metadata.
   // Exists to keep typeahead search bounded/low-bandwidth without scanning
-  // large `userNewsletters` documents on every keystroke.
+  // large `userNewsletters` documents on every keystroke. Full-text search
+  // runs on `searchText` (subject + sender + plain-text body, see lib/searchText.ts).
 	  newsletterSearchMeta: defineTable({
 	    userId: v.id("users"),
 	    userNewsletterId: v.id("userNewsletters"),
@@ -174,9 +242,16 @@ export default defineSchema({
 	    isBinned: v.optional(v.boolean()),
 	    isRead: v.boolean(),
 	    isLockedByPlan: v.optional(v.boolean()),
+	    isSnoozed: v.optional(v.boolean()),
+	    searchText: v.optional(v.string()),
+	    isBodyIndexed: v.optional(v.boolean()), // searchText includes the body
 	  })
 	    .index("by_userId_receivedAt", ["userId", "receivedAt"])
-	    .index("by_userId_userNewsletterId", ["userId", "userNewsletterId"]),
+	    .index("by_userId_userNewsletterId", ["userId", "userNewsletterId"])
+	    .searchIndex("search_text", {
+	      searchField: "searchText",
+	      filterFields: ["userId", "isRead"],
+	    }),
 
   // Global sender registry (not user-scoped)
   // Story 2.5.1: Task 1 - Refactored senders table
@@ -200,6 +275,22 @@ export default defineSchema({
     senderId: v.id("senders"),
     isPrivate: v.boolean(), // Does this user want this sender's newsletters private?
     folderId: v.optional(v.id("folders")), // Required at app-level after Epic 9 migration
+    // List-Unsubscribe: last unsubscribe attempt and its outcome
+    unsubscribeStatus: v.optional(
+      v.union(
+        v.literal("unsubscribed"), // One-click POST accepted by the sender
+        v.literal("failed"), // One-click POST rejected or unreachable
+        v.literal("manual") // Only a mailto/web link was available - user finishes it themselves
+      )
+    ),
+    unsubscribeMethod: v.optional(
+      v.union(v.literal("one_click"), v.literal("mailto"), v.literal("url"))
+    ),
+    unsubscribeRequestedAt: v.optional(v.number()), // Unix timestamp ms
+    unsubscribeError: v.optional(v.string()),
+    binAfterUnsubscribe: v.optional(v.boolean()), // Send new mail from this sender straight to the bin
+    mailAfterUnsubscribeCount: v.optional(v.number()), // Deliveries received after the grace period
+    lastMailAfterUnsubscribeAt: v.optional(v.number()), // Unix timestamp ms
   })
     .index("by_userId", ["userId"])
     .index("by_userId_senderId", ["userId", "senderId"])
@@ -215,12 +306,200 @@ export default defineSchema({
     name: v.string(),
     color: v.optional(v.string()), // Optional color for UI
     isHidden: v.boolean(), // Story 9.1: For folder hiding feature
-    sortOrder: v.optional(v.number()), // Drag-to-reorder position
+    sortOrder: v.optional(v.number()), // Drag-to-reorder position (among siblings)
+    parentId: v.optional(v.id("folders")), // Nested folders; unset = top level (see lib/folderTree.ts)
+    retentionPolicy: v.optional(retentionPolicyValidator), // Unset = keep forever (see folderRetention.ts)
     createdAt: v.number(), // Unix timestamp ms
     updatedAt: v.number(), // Story 9.1: For folder modification tracking
   })
     .index("by_userId", ["userId"])
-    .index("by_userId_name", ["userId", "name"]),
+    .index("by_userId_name", ["userId", "name"])
+    .index("by_retentionPolicyType", ["retentionPolicy.type"]), // Retention cron: folders with a policy
+
+  /**
+   * Smart folders: saved filters shown in the sidebar next to folders
+   * Newsletters aren't assigned to them; membership is computed from the
+   * filter (see lib/smartFolderFilter.ts). Hidden/sorted like folders.
+   */
+  smartFolders: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    filter: smartFolderFilterValidator,
+    isHidden: v.boolean(),
+    sortOrder: v.optional(v.number()), // Drag-to-reorder position
+    createdAt: v.number(), // Unix timestamp ms
+    updatedAt: v.number(),
+  }).index("by_userId", ["userId"]),
+
+  /**
+   * User-defined tags on newsletters
+   * Many-to-many via newsletterTags, so unlike folders (one per sender) an
+   * issue can carry several tags.
+   */
+  tags: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    color: v.optional(v.string()), // Hex color, e.g. "#3b82f6"
+    createdAt: v.number(), // Unix timestamp ms
+    updatedAt: v.number(),
+  }).index("by_userId", ["userId"]),
+
+  /**
+   * Newsletter ↔ tag links
+   * receivedAt is copied from the newsletter so a tag's newsletters can be
+   * paginated newest first.
+   */
+  newsletterTags: defineTable({
+    userId: v.id("users"),
+    tagId: v.id("tags"),
+    userNewsletterId: v.id("userNewsletters"),
+    receivedAt: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_userNewsletterId", ["userNewsletterId"])
+    .index("by_tagId_receivedAt", ["tagId", "receivedAt"]),
+
+  /**
+   * Reading queue: newsletters saved to read later, in the user's own order
+   * Kept outside userNewsletters so reordering doesn't re-run list queries.
+   */
+  readingQueueItems: defineTable({
+    userId: v.id("users"),
+    userNewsletterId: v.id("userNewsletters"),
+    position: v.number(), // Drag-to-reorder position
+    addedAt: v.number(),
+  })
+    .index("by_userId_position", ["userId", "position"])
+    .index("by_userNewsletterId", ["userNewsletterId"]),
+
+  /**
+   * Highlights and margin notes made in the reader
+   * The quote plus its surrounding text (prefix/suffix) re-anchors a highlight
+   * when the content is reloaded; startOffset (position in the document's
+   * text) picks between repeated quotes. Subject and sender are copied from
+   * the newsletter for the Highlights page.
+   */
+  highlights: defineTable({
+    userId: v.id("users"),
+    userNewsletterId: v.id("userNewsletters"),
+    text: v.string(),
+    prefix: v.string(),
+    suffix: v.string(),
+    startOffset: v.number(),
+    color: v.union(
+      v.literal("yellow"),
+      v.literal("green"),
+      v.literal("blue"),
+      v.literal("pink")
+    ),
+    note: v.optional(v.string()),
+    subject: v.string(),
+    senderEmail: v.string(),
+    senderName: v.optional(v.string()),
+    searchText: v.string(), // Quote + note
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_userNewsletterId", ["userNewsletterId"])
+    .index("by_userId_createdAt", ["userId", "createdAt"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["userId", "color", "senderEmail"],
+    }),
+
+  /**
+   * User-defined rules applied to newsletters on arrival
+   * Evaluated in sortOrder by createUserNewsletter (see lib/ruleMatching.ts);
+   * they take precedence over the sender → folder setting.
+   */
+  newsletterRules: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    isEnabled: v.boolean(),
+    conditions: ruleConditionsValidator,
+    actions: ruleActionsValidator,
+    sortOrder: v.number(),
+    matchCount: v.optional(v.number()), // Newsletters the rule was applied to
+    lastMatchedAt: v.optional(v.number()), // Unix timestamp ms
+    createdAt: v.number(), // Unix timestamp ms
+    updatedAt: v.number(),
+  }).index("by_userId", ["userId"]),
+
+  /**
+   * Sub-address tags (name+tag@domain)
+   * Created the first time mail arrives for a tag, or by the user up front
+   * to pre-sort subscriptions. Mail to a tag with a folder is routed there.
+   */
+  subAddressTags: defineTable({
+    userId: v.id("users"),
+    tag: v.string(), // Normalized (lowercase)
+    folderId: v.optional(v.id("folders")), // Route tagged mail here instead of the sender's folder
+    newsletterCount: v.number(),
+    lastReceivedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  }).index("by_userId_tag", ["userId", "tag"]),
+
+  /**
+   * Disposable alias addresses (e.g. one per subscription)
+   * Each alias delivers to its user like the dedicated address, and can be
+   * disabled ("burned") on its own once it starts getting spam.
+   */
+  emailAliases: defineTable({
+    userId: v.id("users"),
+    address: v.string(), // Full alias address, e.g. nytimes.k3x9q2ab@domain
+    label: v.optional(v.string()),
+    expectedSender: v.optional(v.string()), // Sender email or domain this alias was given to
+    folderId: v.optional(v.id("folders")), // Route the alias's mail here instead of the sender's folder
+    isDisabled: v.boolean(),
+    disabledAt: v.optional(v.number()),
+    deliveryCount: v.number(),
+    unexpectedSenderCount: v.number(), // Deliveries from anyone but the expected sender
+    rejectedCount: v.number(), // Deliveries rejected while disabled
+    lastDeliveryAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_address", ["address"])
+    .index("by_userId", ["userId"]),
+
+  /**
+   * Custom receiving domains (Pro)
+   * Once the DNS TXT record is verified, mail to any address at the domain
+   * delivers to its owner (e.g. reading@ourcompany.com).
+   */
+  customDomains: defineTable({
+    userId: v.id("users"),
+    domain: v.string(), // Normalized (lowercase, no trailing dot)
+    verificationToken: v.string(), // Expected in the _hushletter.<domain> TXT record
+    status: v.union(v.literal("pending"), v.literal("verified"), v.literal("failed")),
+    verifiedAt: v.optional(v.number()),
+    lastCheckedAt: v.optional(v.number()),
+    lastError: v.optional(v.string()), // Why the last verification failed
+    createdAt: v.number(),
+  })
+    .index("by_domain", ["domain"])
+    .index("by_userId", ["userId"])
+    .index("by_status", ["status"]), // Re-verification cron
+
+  /**
+   * Double opt-in confirmations waiting on the user
+   * Recorded when ingestion detects a "confirm your subscription" email, and
+   * resolved when the user confirms/dismisses it or a welcome email arrives.
+   */
+  subscriptionConfirmations: defineTable({
+    userId: v.id("users"),
+    senderId: v.id("senders"),
+    userNewsletterId: v.id("userNewsletters"), // The confirmation email itself
+    senderEmail: v.string(),
+    senderName: v.optional(v.string()),
+    subject: v.string(),
+    confirmUrl: v.string(),
+    status: v.union(v.literal("pending"), v.literal("confirmed"), v.literal("dismissed")),
+    receivedAt: v.number(),
+    resolvedAt: v.optional(v.number()),
+  })
+    .index("by_userId_status", ["userId", "status"])
+    .index("by_userId_senderId", ["userId", "senderId"])
+    .index("by_userNewsletterId", ["userNewsletterId"]), // Cleanup when the email is deleted
 
   // ============================================================
   // Story 9.5: Folder Merge Undo History
@@ -241,8 +520,10 @@ export default defineSchema({
     sourceFolderName: v.string(),
     sourceFolderColor: v.optional(v.string()),
     targetFolderId: v.id("folders"),
+    sourceFolderParentId: v.optional(v.id("folders")),
     movedSenderSettingIds: v.array(v.id("userSenderSettings")),
     movedNewsletterIds: v.array(v.id("userNewsletters")),
+    movedChildFolderIds: v.optional(v.array(v.id("folders"))), // Subfolders re-parented under the target
     createdAt: v.number(), // Unix timestamp ms
 	    expiresAt: v.number(), // Unix timestamp ms - undo window expiry
 		  })
@@ -265,6 +546,7 @@ export default defineSchema({
 	    lockedStored: v.number(),
 	    gmailImportedEmails: v.optional(v.number()),
 	    gmailImportedSenderEmails: v.optional(v.array(v.string())),
+	    attachmentBytesStored: v.optional(v.number()),
 	    updatedAt: v.number(), // Unix timestamp ms
 	  }).index("by_userId", ["userId"]),
 
@@ -294,6 +576,115 @@ export default defineSchema({
 		    startedAt: v.number(),
 		  }).index("by_userId", ["userId"]),
 
+  /**
+   * AI summaries in a style or language other than the default (see
+   * lib/summaryStyle.ts). Like the default summary, the first generation for
+   * a public newsletter is shared (contentId); private newsletters and
+   * regenerations are personal (userNewsletterId).
+   */
+  summaryVariants: defineTable({
+    contentId: v.optional(v.id("newsletterContent")),
+    userNewsletterId: v.optional(v.id("userNewsletters")),
+    style: summaryStyleValidator,
+    language: v.optional(supportedLanguageValidator), // Unset = the newsletter's language
+    summary: v.string(),
+    generatedAt: v.number(), // Unix timestamp ms
+  })
+    .index("by_contentId_style_language", ["contentId", "style", "language"])
+    .index("by_userNewsletterId_style_language", ["userNewsletterId", "style", "language"]),
+
+  /**
+   * AI translations of newsletters, stored as HTML in R2 (see translations.ts).
+   * Shared per newsletterContent for public newsletters (contentId), personal
+   * for private ones (userNewsletterId).
+   */
+  newsletterTranslations: defineTable({
+    contentId: v.optional(v.id("newsletterContent")),
+    userNewsletterId: v.optional(v.id("userNewsletters")),
+    language: supportedLanguageValidator,
+    r2Key: v.string(),
+    createdAt: v.number(), // Unix timestamp ms
+  })
+    .index("by_contentId_language", ["contentId", "language"])
+    .index("by_userNewsletterId_language", ["userNewsletterId", "language"]),
+
+  /**
+   * AI digests: a scheduled briefing of everything that arrived in a period,
+   * grouped by folder (see digests.ts). The briefing cites newsletters as [n],
+   * matching `ref` in sections.
+   */
+  digests: defineTable({
+    userId: v.id("users"),
+    frequency: digestFrequencyValidator,
+    periodStart: v.number(), // Unix timestamp ms
+    periodEnd: v.number(), // Unix timestamp ms
+    briefing: v.string(),
+    sections: v.array(
+      v.object({
+        folderId: v.optional(v.id("folders")),
+        folderName: v.string(),
+        newsletters: v.array(
+          v.object({
+            ref: v.number(),
+            userNewsletterId: v.id("userNewsletters"),
+            subject: v.string(),
+            senderEmail: v.string(),
+            senderName: v.optional(v.string()),
+          })
+        ),
+      })
+    ),
+    newsletterCount: v.number(),
+    isRead: v.boolean(),
+    createdAt: v.number(), // Unix timestamp ms
+  }).index("by_userId_createdAt", ["userId", "createdAt"]),
+
+  /**
+   * Embedded passages of newsletter bodies for questions across the archive
+   * (see newsletterQa.ts). Always per user, so answers only quote the
+   * asker's own newsletters.
+   */
+  newsletterChunks: defineTable({
+    userId: v.id("users"),
+    userNewsletterId: v.id("userNewsletters"),
+    chunkIndex: v.number(),
+    text: v.string(),
+    embedding: v.array(v.float64()),
+    receivedAt: v.number(), // Unix timestamp ms (copied for date filters)
+    // "<userId>:<YYYY-MM>" of receivedAt, so date filters run inside the vector search
+    userMonth: v.string(),
+  })
+    .index("by_userNewsletterId", ["userNewsletterId"])
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: EMBEDDING_DIMENSIONS,
+      filterFields: ["userId", "userMonth"],
+    }),
+
+  /**
+   * AI suggestions of where a new sender belongs (see folderSuggestions.ts)
+   * fromFolderId is the folder created for the sender; the suggestion is
+   * either an existing folder (folderId) or a new one (newFolderName). Once
+   * accepted, folderId is where the sender went and the row serves as an
+   * example for later suggestions.
+   */
+  folderSuggestions: defineTable({
+    userId: v.id("users"),
+    senderId: v.id("senders"),
+    senderEmail: v.string(),
+    senderName: v.optional(v.string()),
+    subjects: v.array(v.string()), // The issues the suggestion was based on
+    fromFolderId: v.id("folders"),
+    folderId: v.optional(v.id("folders")),
+    newFolderName: v.optional(v.string()),
+    tagId: v.optional(v.id("tags")),
+    status: v.union(v.literal("pending"), v.literal("accepted"), v.literal("rejected")),
+    createdAt: v.number(), // Unix timestamp ms
+    resolvedAt: v.optional(v.number()),
+  })
+    .index("by_userId_status", ["userId", "status"])
+    .index("by_userId_senderId", ["userId", "senderId"]),
+
 	  // ============================================================
 	  // Epic 4: Gmail Import Tables
   // ============================================================
@@ -428,6 +819,10 @@ export default defineSchema({
 
     // User linkage (resolved during processing)
     userId: v.optional(v.id("users")),
+    userNewsletterId: v.optional(v.id("userNewsletters")), // Set once stored (or matched as a duplicate)
+
+    // Original raw message archived in R2 (only when the user keeps original emails)
+    rawEmailR2Key: v.optional(v.string()),
 
     // Delivery status tracking
     // Task 1.2: Define delivery status enum
@@ -445,7 +840,7 @@ export default defineSchema({
 
     // Error information (only for failed status)
     errorMessage: v.optional(v.string()),
-    errorCode: v.optional(v.string()), // e.g., "PARSE_ERROR", "USER_NOT_FOUND", "R2_UPLOAD_FAILED"
+    errorCode: v.optional(v.string()), // e.g., "PARSE_ERROR", "USER_NOT_FOUND", "ALIAS_DISABLED", "R2_UPLOAD_FAILED"
 
     // Processing metadata
     contentSizeBytes: v.optional(v.number()),
@@ -455,13 +850,33 @@ export default defineSchema({
     // Retry tracking
     retryCount: v.number(), // Starts at 0
     isAcknowledged: v.boolean(), // Admin has reviewed failed delivery
+    payloadStorageId: v.optional(v.id("_storage")), // Ingest payload kept for replaying failed deliveries
+    payloadStoredAt: v.optional(v.number()), // When the payload was stored (deleted after a TTL)
+    senderAuth: v.optional(senderAuthValidator), // SPF/DKIM/DMARC verdict for the From address
   })
     // Task 1.4: Add indexes for efficient querying
     .index("by_status", ["status"])
     .index("by_receivedAt", ["receivedAt"])
     .index("by_userId", ["userId"])
     .index("by_messageId", ["messageId"]) // For deduplication
-    .index("by_status_receivedAt", ["status", "receivedAt"]), // For filtered queries
+    .index("by_status_receivedAt", ["status", "receivedAt"]) // For filtered queries
+    .index("by_payloadStoredAt", ["payloadStoredAt"]), // Payload TTL cron
+
+  /**
+   * Replay attempts of failed deliveries
+   * One row per admin retry, so the history of a delivery survives later attempts.
+   */
+  emailDeliveryAttempts: defineTable({
+    logId: v.id("emailDeliveryLogs"),
+    attempt: v.number(), // 1-based, matches the log's retryCount after the attempt started
+    status: v.union(v.literal("processing"), v.literal("stored"), v.literal("failed")),
+    startedAt: v.number(),
+    completedAt: v.optional(v.number()),
+    errorMessage: v.optional(v.string()),
+    errorCode: v.optional(v.string()),
+    triggeredBy: v.optional(v.id("users")), // Admin who started the retry
+    isBulk: v.optional(v.boolean()), // Part of a "retry all with this error code" run
+  }).index("by_logId", ["logId"]),
 
   // ============================================================
   // Story 7.4: Community Content Management (Moderation)
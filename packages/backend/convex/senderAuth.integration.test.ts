@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+
+const SPOOFED = { verdict: "fail", spf: "pass", dkim: "none", dmarc: "fail" }
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>) {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: "reader@example.com",
+      createdAt: Date.now(),
+      authId: "auth_reader",
+      dedicatedEmail: "reader-1234@hushletter.test",
+      plan: "free",
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to: "reader-1234@hushletter.test",
+      from: "news@bank.example.com",
+      subject: "Your statement",
+      receivedAt: Date.now(),
+      htmlContent: "<p>Statement</p>",
+      ...payload,
+    }),
+  })
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> }
+}
+
+function getNewsletter(t: ReturnType<typeof makeT>, body: Record<string, unknown>) {
+  return t.run(async (ctx) =>
+    ctx.db.get("userNewsletters", body.userNewsletterId as Id<"userNewsletters">)
+  )
+}
+
+describe("inbound sender authentication", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    process.env.INTERNAL_API_KEY = previousApiKey
+  })
+
+  it("stores the verdict on the delivery log and the newsletter", async () => {
+    const t = makeT()
+    await seedUser(t)
+
+    const { status, body } = await postEmail(t, {
+      messageId: "<statement-1@bank.example.com>",
+      senderAuth: { verdict: "pass", spf: "PASS", dkim: "pass", dmarc: "pass" },
+    })
+
+    expect(status).toBe(200)
+    const newsletter = await getNewsletter(t, body)
+    expect(newsletter?.senderAuth).toEqual({ verdict: "pass", spf: "pass", dkim: "pass", dmarc: "pass" })
+    expect(newsletter?.isBinned).toBeFalsy()
+    const log = await t.run(async (ctx) => ctx.db.query("emailDeliveryLogs").first())
+    expect(log?.senderAuth?.verdict).toBe("pass")
+  })
+
+  it("rejects an invalid verdict", async () => {
+    const t = makeT()
+    await seedUser(t)
+
+    const { status } = await postEmail(t, { senderAuth: { verdict: "maybe" } })
+
+    expect(status).toBe(400)
+  })
+
+  it("delivers unauthenticated mail when quarantine is off", async () => {
+    const t = makeT()
+    await seedUser(t)
+    await postEmail(t, { senderAuth: { verdict: "pass" } })
+
+    const { body } = await postEmail(t, { senderAuth: SPOOFED })
+
+    const newsletter = await getNewsletter(t, body)
+    expect(newsletter?.senderAuth?.verdict).toBe("fail")
+    expect(newsletter?.isBinned).toBeFalsy()
+    expect(newsletter?.quarantinedAt).toBeUndefined()
+  })
+
+  it("quarantines unauthenticated mail from a followed sender when opted in", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    await reader.mutation(api.quarantine.setQuarantineUnauthenticatedMail, { enabled: true })
+    await postEmail(t, { senderAuth: { verdict: "pass" } })
+
+    const { body } = await postEmail(t, { senderAuth: SPOOFED })
+
+    const newsletter = await getNewsletter(t, body)
+    expect(newsletter?.isBinned).toBe(true)
+    expect(newsletter?.quarantinedAt).toBe(newsletter?.binnedAt)
+  })
+
+  it("does not quarantine mail from a new sender, or mail with no verdict", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    await reader.mutation(api.quarantine.setQuarantineUnauthenticatedMail, { enabled: true })
+
+    const first = await postEmail(t, { senderAuth: SPOOFED })
+    expect((await getNewsletter(t, first.body))?.isBinned).toBeFalsy()
+
+    const second = await postEmail(t, { from: "news@bank.example.com" })
+    expect((await getNewsletter(t, second.body))?.isBinned).toBeFalsy()
+  })
+})
@@ -10,6 +10,7 @@ import { v, ConvexError } from "convex/values"
 import { authComponent } from "./auth"
 import { r2 } from "./r2"
 import { internal } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
 
 function generateShareToken(): string {
   // 32-char, URL-safe token (UUID without dashes)
@@ -131,10 +132,13 @@ export const getUserNewsletterByShareTokenInternal = internalQuery({
 
 /**
  * Ensure the current user has a public share token for a specific newsletter.
+ * includeHighlights, when passed, sets whether the share page shows the
+ * owner's highlights and notes (the link itself stays the same).
  */
 export const ensureNewsletterShareToken = mutation({
   args: {
     userNewsletterId: v.id("userNewsletters"),
+    includeHighlights: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     const user = await requireAuthedUserDoc(ctx)
@@ -147,6 +151,15 @@ export const ensureNewsletterShareToken = mutation({
       throw new ConvexError({ code: "FORBIDDEN", message: "Access denied" })
     }
 
+    if (
+      args.includeHighlights !== undefined &&
+      args.includeHighlights !== Boolean(newsletter.shareIncludesHighlights)
+    ) {
+      await ctx.db.patch("userNewsletters", newsletter._id, {
+        shareIncludesHighlights: args.includeHighlights,
+      })
+    }
+
     if (newsletter.shareToken) {
       return { token: newsletter.shareToken }
     }
@@ -196,6 +209,18 @@ type SharedNewsletterWithContentResult = {
   receivedAt: number
   contentUrl: string | null
   contentStatus: "available" | "missing" | "error"
+  /** Only when the owner shared with highlights */
+  highlights?: SharedHighlight[]
+}
+
+type SharedHighlight = {
+  _id: Id<"highlights">
+  text: string
+  prefix: string
+  suffix: string
+  startOffset: number
+  color: "yellow" | "green" | "blue" | "pink"
+  note?: string
 }
 
 /**
@@ -241,6 +266,12 @@ export const getNewsletterByShareTokenWithContent = action({
       }
     }
 
+    const highlights = newsletter.shareIncludesHighlights
+      ? await ctx.runQuery(internal.highlights.listSharedHighlightsInternal, {
+          userNewsletterId: newsletter._id,
+        })
+      : undefined
+
     return {
       subject: newsletter.subject,
       senderEmail: newsletter.senderEmail,
@@ -248,6 +279,7 @@ export const getNewsletterByShareTokenWithContent = action({
       receivedAt: newsletter.receivedAt,
       contentUrl,
       contentStatus,
+      highlights,
     }
   },
 })
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://r2.example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+const DAY = 24 * 60 * 60 * 1000
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>, authId = "auth_reader") {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: `${authId}@example.com`,
+      createdAt: Date.now(),
+      authId,
+      dedicatedEmail: "reader-1234@hushletter.test",
+      plan: "free",
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to: "reader-1234@hushletter.test",
+      from: "hello@weekly.example.com",
+      receivedAt: Date.now(),
+      htmlContent: "<p>Hello</p>",
+      ...payload,
+    }),
+  })
+  const body = (await response.json()) as { userNewsletterId: Id<"userNewsletters"> }
+  return body.userNewsletterId
+}
+
+describe("smart folders", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    process.env.INTERNAL_API_KEY = previousApiKey
+  })
+
+  it("lists matching newsletters with live counts", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const now = Date.now()
+    const recentId = await postEmail(t, { subject: "Antitrust weekly", receivedAt: now - DAY })
+    const readId = await postEmail(t, {
+      from: "digest@news.example.com",
+      subject: "Antitrust digest",
+      receivedAt: now - 2 * DAY,
+    })
+    await postEmail(t, { subject: "Antitrust archive", receivedAt: now - 60 * DAY })
+    await postEmail(t, { from: "hi@other.example.org", subject: "Antitrust elsewhere" })
+    const hiddenId = await postEmail(t, { subject: "Antitrust hidden", receivedAt: now - DAY })
+    await t.run(async (ctx) => {
+      await ctx.db.patch("userNewsletters", readId, { isRead: true })
+      await ctx.db.patch("userNewsletters", hiddenId, { isHidden: true })
+    })
+
+    const smartFolderId = await reader.mutation(api.smartFolders.createSmartFolder, {
+      name: "Recent antitrust",
+      filter: { domain: "Example.com", subjectKeyword: "antitrust", receivedWithinDays: 30 },
+    })
+
+    const [smartFolder] = await reader.query(api.smartFolders.listSmartFoldersWithUnreadCounts, {})
+    expect(smartFolder).toMatchObject({
+      _id: smartFolderId,
+      filter: { domain: "example.com", subjectKeyword: "antitrust", receivedWithinDays: 30 },
+      newsletterCount: 2,
+      unreadCount: 1,
+      senderPreviews: [{ senderEmail: "hello@weekly.example.com" }, { senderEmail: "digest@news.example.com" }],
+    })
+
+    const head = await reader.query(api.newsletters.listSmartFolderNewslettersHead, { smartFolderId })
+    expect(head.page.map((n) => n._id)).toEqual([recentId, readId])
+
+    await reader.mutation(api.smartFolders.updateSmartFolderFilter, {
+      smartFolderId,
+      filter: { domain: "example.com", readState: "unread" },
+    })
+    const page = await reader.action(api.newsletters.listSmartFolderNewslettersPage, {
+      smartFolderId,
+      cursor: null,
+      numItems: 10,
+    })
+    expect(page.page.map((n) => n.subject).sort()).toEqual(["Antitrust archive", "Antitrust weekly"])
+  })
+
+  it("renames, hides, reorders and deletes like folders", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const unreadId = await reader.mutation(api.smartFolders.createSmartFolder, {
+      name: "Unread",
+      filter: { readState: "unread" },
+    })
+    const weekId = await reader.mutation(api.smartFolders.createSmartFolder, {
+      name: "This week",
+      filter: { receivedWithinDays: 7 },
+    })
+
+    expect(
+      await reader.mutation(api.smartFolders.renameSmartFolder, { smartFolderId: weekId, newName: " unread " })
+    ).toEqual({ name: "unread 2" })
+
+    await reader.mutation(api.smartFolders.reorderSmartFolders, { orderedSmartFolderIds: [weekId, unreadId] })
+    const listIds = async (includeHidden?: boolean) =>
+      (await reader.query(api.smartFolders.listSmartFoldersWithUnreadCounts, { includeHidden })).map((f) => f._id)
+    expect(await listIds()).toEqual([weekId, unreadId])
+
+    await reader.mutation(api.smartFolders.hideSmartFolder, { smartFolderId: weekId })
+    expect(await listIds()).toEqual([unreadId])
+    expect(await listIds(true)).toEqual([weekId, unreadId])
+
+    await reader.mutation(api.smartFolders.unhideSmartFolder, { smartFolderId: weekId })
+    await reader.mutation(api.smartFolders.deleteSmartFolder, { smartFolderId: unreadId })
+    expect(await listIds()).toEqual([weekId])
+  })
+
+  it("rejects empty filters and other users' smart folders", async () => {
+    const t = makeT()
+    await seedUser(t)
+    await seedUser(t, "auth_other")
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const other = t.withIdentity({ subject: "auth_other" })
+
+    await expect(
+      reader.mutation(api.smartFolders.createSmartFolder, { name: "Empty", filter: { subjectKeyword: "  " } })
+    ).rejects.toThrow(/at least one filter/)
+
+    const smartFolderId = await reader.mutation(api.smartFolders.createSmartFolder, {
+      name: "Mine",
+      filter: { readState: "read" },
+    })
+    await expect(other.mutation(api.smartFolders.hideSmartFolder, { smartFolderId })).rejects.toThrow(
+      /Smart folder not found/
+    )
+    expect(await other.query(api.smartFolders.getSmartFolder, { smartFolderId })).toBeNull()
+    expect(await other.query(api.newsletters.listSmartFolderNewslettersHead, { smartFolderId })).toEqual({
+      page: [],
+      isDone: true,
+      continueCursor: null,
+    })
+  })
+})
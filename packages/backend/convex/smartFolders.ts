@@ -0,0 +1,354 @@
+import { mutation, query, type MutationCtx } from "./_generated/server"
+import { v, ConvexError } from "convex/values"
+import type { Doc } from "./_generated/dataModel"
+import { makeUniqueFolderName } from "./folders"
+import {
+  matchesSmartFolderFilter,
+  normalizeSmartFolderFilter,
+  smartFolderFilterValidator,
+  type SmartFolderFilter,
+} from "./lib/smartFolderFilter"
+
+/**
+ * Smart folders: saved filters (sender, domain, subject keyword, read state,
+ * date window) listed in the sidebar with live counts. They're renamed,
+ * hidden and reordered like folders; their newsletters are listed with
+ * newsletters.listSmartFolderNewslettersHead/Page.
+ */
+
+/** Maximum number of smart folders per user */
+export const MAX_SMART_FOLDERS_PER_USER = 50
+
+/**
+ * Validate a smart folder name
+ * @returns The trimmed name
+ */
+function validateSmartFolderName(name: string): string {
+  const trimmedName = name.trim()
+  if (!trimmedName) {
+    throw new ConvexError({
+      code: "VALIDATION_ERROR",
+      message: "Smart folder name cannot be empty",
+    })
+  }
+  if (trimmedName.length > 100) {
+    throw new ConvexError({
+      code: "VALIDATION_ERROR",
+      message: "Smart folder name must be 100 characters or less",
+    })
+  }
+  return trimmedName
+}
+
+function validateSmartFolderFilter(filter: SmartFolderFilter): SmartFolderFilter {
+  const normalized = normalizeSmartFolderFilter(filter)
+  if (!normalized.filter) {
+    throw new ConvexError({ code: "VALIDATION_ERROR", message: normalized.error })
+  }
+  return normalized.filter
+}
+
+/**
+ * Load a smart folder owned by the current user (throws otherwise)
+ */
+async function getOwnedSmartFolder(
+  ctx: MutationCtx,
+  smartFolderId: Doc<"smartFolders">["_id"]
+): Promise<Doc<"smartFolders">> {
+  const identity = await ctx.auth.getUserIdentity()
+  if (!identity) {
+    throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+  }
+
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+    .first()
+  if (!user) {
+    throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+  }
+
+  const smartFolder = await ctx.db.get("smartFolders", smartFolderId)
+  if (!smartFolder || smartFolder.userId !== user._id) {
+    throw new ConvexError({ code: "NOT_FOUND", message: "Smart folder not found" })
+  }
+  return smartFolder
+}
+
+/**
+ * Save a filter as a smart folder
+ * Duplicate names get a counter appended, like renamed folders.
+ */
+export const createSmartFolder = mutation({
+  args: {
+    name: v.string(),
+    filter: smartFolderFilterValidator,
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    const name = validateSmartFolderName(args.name)
+    const filter = validateSmartFolderFilter(args.filter)
+
+    const existing = await ctx.db
+      .query("smartFolders")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .collect()
+    if (existing.length >= MAX_SMART_FOLDERS_PER_USER) {
+      throw new ConvexError({
+        code: "LIMIT_REACHED",
+        message: `You can have up to ${MAX_SMART_FOLDERS_PER_USER} smart folders`,
+      })
+    }
+
+    const now = Date.now()
+    return await ctx.db.insert("smartFolders", {
+      userId: user._id,
+      name: makeUniqueFolderName(name, existing),
+      filter,
+      isHidden: false,
+      // New smart folders go last
+      sortOrder: existing.reduce((max, folder) => Math.max(max, (folder.sortOrder ?? -1) + 1), 0),
+      createdAt: now,
+      updatedAt: now,
+    })
+  },
+})
+
+/**
+ * Replace the filter of a smart folder
+ */
+export const updateSmartFolderFilter = mutation({
+  args: {
+    smartFolderId: v.id("smartFolders"),
+    filter: smartFolderFilterValidator,
+  },
+  handler: async (ctx, args) => {
+    const smartFolder = await getOwnedSmartFolder(ctx, args.smartFolderId)
+    const filter = validateSmartFolderFilter(args.filter)
+
+    await ctx.db.patch("smartFolders", smartFolder._id, {
+      filter,
+      updatedAt: Date.now(),
+    })
+  },
+})
+
+/**
+ * Rename a smart folder
+ * Same rules as renameFolder: trimmed, 1-100 characters, duplicates get a counter.
+ */
+export const renameSmartFolder = mutation({
+  args: {
+    smartFolderId: v.id("smartFolders"),
+    newName: v.string(),
+  },
+  returns: v.object({ name: v.string() }),
+  handler: async (ctx, args) => {
+    const smartFolder = await getOwnedSmartFolder(ctx, args.smartFolderId)
+    const trimmedName = validateSmartFolderName(args.newName)
+
+    const otherFolders = (
+      await ctx.db
+        .query("smartFolders")
+        .withIndex("by_userId", (q) => q.eq("userId", smartFolder.userId))
+        .collect()
+    ).filter((folder) => folder._id !== smartFolder._id)
+    const finalName = makeUniqueFolderName(trimmedName, otherFolders)
+
+    await ctx.db.patch("smartFolders", smartFolder._id, {
+      name: finalName,
+      updatedAt: Date.now(),
+    })
+    return { name: finalName }
+  },
+})
+
+/**
+ * Hide a smart folder from the sidebar
+ */
+export const hideSmartFolder = mutation({
+  args: { smartFolderId: v.id("smartFolders") },
+  handler: async (ctx, args) => {
+    const smartFolder = await getOwnedSmartFolder(ctx, args.smartFolderId)
+
+    await ctx.db.patch("smartFolders", smartFolder._id, {
+      isHidden: true,
+      updatedAt: Date.now(),
+    })
+  },
+})
+
+/**
+ * Unhide a smart folder to restore it to the sidebar
+ */
+export const unhideSmartFolder = mutation({
+  args: { smartFolderId: v.id("smartFolders") },
+  handler: async (ctx, args) => {
+    const smartFolder = await getOwnedSmartFolder(ctx, args.smartFolderId)
+
+    await ctx.db.patch("smartFolders", smartFolder._id, {
+      isHidden: false,
+      updatedAt: Date.now(),
+    })
+  },
+})
+
+/**
+ * Persist the user's smart folder order after drag-to-reorder.
+ * Same contract as folders.reorderFolders.
+ */
+export const reorderSmartFolders = mutation({
+  args: { orderedSmartFolderIds: v.array(v.id("smartFolders")) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    const now = Date.now()
+    for (let i = 0; i < args.orderedSmartFolderIds.length; i++) {
+      const smartFolder = await ctx.db.get("smartFolders", args.orderedSmartFolderIds[i])
+      if (!smartFolder || smartFolder.userId !== user._id) continue
+      if (smartFolder.sortOrder === i) continue
+      await ctx.db.patch("smartFolders", smartFolder._id, {
+        sortOrder: i,
+        updatedAt: now,
+      })
+    }
+  },
+})
+
+/**
+ * Delete a smart folder (newsletters are untouched)
+ */
+export const deleteSmartFolder = mutation({
+  args: { smartFolderId: v.id("smartFolders") },
+  handler: async (ctx, args) => {
+    const smartFolder = await getOwnedSmartFolder(ctx, args.smartFolderId)
+    await ctx.db.delete("smartFolders", smartFolder._id)
+  },
+})
+
+/**
+ * Get a single smart folder of the current user
+ */
+export const getSmartFolder = query({
+  args: { smartFolderId: v.id("smartFolders") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return null
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) return null
+
+    const smartFolder = await ctx.db.get("smartFolders", args.smartFolderId)
+    if (!smartFolder || smartFolder.userId !== user._id) return null
+    return smartFolder
+  },
+})
+
+/**
+ * List smart folders of the current user with newsletter counts
+ * Like folders.listVisibleFoldersWithUnreadCounts: counts skip hidden and
+ * binned newsletters, and newsletters of hidden folders.
+ *
+ * Returns smart folders enriched with:
+ * - newsletterCount / unreadCount: matching newsletters
+ * - senderPreviews: up to 3 latest distinct senders for avatar groups
+ */
+export const listSmartFoldersWithUnreadCounts = query({
+  args: { includeHidden: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) return []
+
+    const smartFolders = (
+      await ctx.db
+        .query("smartFolders")
+        .withIndex("by_userId", (q) => q.eq("userId", user._id))
+        .collect()
+    ).filter((folder) => args.includeHidden || !folder.isHidden)
+    if (smartFolders.length === 0) return []
+
+    const [folders, allNewsletters] = await Promise.all([
+      ctx.db
+        .query("folders")
+        .withIndex("by_userId", (q) => q.eq("userId", user._id))
+        .collect(),
+      ctx.db
+        .query("userNewsletters")
+        .withIndex("by_userId_receivedAt", (q) => q.eq("userId", user._id))
+        .order("desc")
+        .collect(),
+    ])
+    const hiddenFolderIds = new Set(folders.filter((f) => f.isHidden).map((f) => f._id))
+    const listedNewsletters = allNewsletters.filter(
+      (n) =>
+        !n.isHidden &&
+        !n.isBinned &&
+        !n.snoozedUntil &&
+        (!n.folderId || !hiddenFolderIds.has(n.folderId))
+    )
+
+    const now = Date.now()
+    const withCounts = smartFolders.map((smartFolder) => {
+      let newsletterCount = 0
+      let unreadCount = 0
+      const senderPreviews: Array<{ senderEmail: string; senderName?: string }> = []
+      // Newest first, so previews are the latest senders
+      for (const newsletter of listedNewsletters) {
+        if (!matchesSmartFolderFilter(newsletter, smartFolder.filter, now)) continue
+        newsletterCount++
+        if (!newsletter.isRead) unreadCount++
+        if (
+          senderPreviews.length < 3 &&
+          !senderPreviews.some((preview) => preview.senderEmail === newsletter.senderEmail)
+        ) {
+          senderPreviews.push({
+            senderEmail: newsletter.senderEmail,
+            senderName: newsletter.senderName,
+          })
+        }
+      }
+
+      return { ...smartFolder, newsletterCount, unreadCount, senderPreviews }
+    })
+
+    // Sort by user-defined order (drag-to-reorder), fallback to alphabetical
+    return withCounts.sort((a, b) => {
+      const aOrder = a.sortOrder ?? Number.MAX_SAFE_INTEGER
+      const bOrder = b.sortOrder ?? Number.MAX_SAFE_INTEGER
+      if (aOrder !== bOrder) return aOrder - bOrder
+      return a.name.localeCompare(b.name)
+    })
+  },
+})
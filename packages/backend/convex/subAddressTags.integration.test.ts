@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>) {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: "reader@example.com",
+      createdAt: Date.now(),
+      authId: "auth_reader",
+      dedicatedEmail: "reader-1234@hushletter.test",
+      plan: "free",
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      from: "news@shop.example.com",
+      subject: "Weekly deals",
+      receivedAt: Date.now(),
+      htmlContent: "<p>Deals</p>",
+      ...payload,
+    }),
+  })
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> }
+}
+
+function getNewsletter(t: ReturnType<typeof makeT>, id: unknown) {
+  return t.run(async (ctx) => ctx.db.get("userNewsletters", id as Id<"userNewsletters">))
+}
+
+describe("sub-addressing", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    process.env.INTERNAL_API_KEY = previousApiKey
+  })
+
+  it("delivers plus-addresses to the user and records the tag", async () => {
+    const t = makeT()
+    const userId = await seedUser(t)
+
+    const { status, body } = await postEmail(t, { to: "reader-1234+Shop@hushletter.test" })
+
+    expect(status).toBe(200)
+    expect(body.userId).toBe(userId)
+    const newsletter = await getNewsletter(t, body.userNewsletterId)
+    expect(newsletter?.subAddressTag).toBe("shop")
+
+    const tags = await t.withIdentity({ subject: "auth_reader" }).query(api.subAddressTags.listSubAddressTags, {})
+    expect(tags).toEqual([
+      expect.objectContaining({
+        tag: "shop",
+        newsletterCount: 1,
+        senderEmails: ["news@shop.example.com"],
+      }),
+    ])
+  })
+
+  it("does not resolve plus-addresses of unknown users", async () => {
+    const t = makeT()
+    await seedUser(t)
+
+    const { status } = await postEmail(t, { to: "someone-else+shop@hushletter.test" })
+
+    expect(status).toBe(404)
+  })
+
+  it("routes tagged mail into the tag's folder", async () => {
+    const t = makeT()
+    const userId = await seedUser(t)
+    const folderId = await t.run(async (ctx) =>
+      ctx.db.insert("folders", {
+        userId,
+        name: "Shopping",
+        isHidden: false,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      })
+    )
+    await t
+      .withIdentity({ subject: "auth_reader" })
+      .mutation(api.subAddressTags.saveSubAddressTag, { tag: "shop", folderId })
+
+    const tagged = await postEmail(t, { to: "reader-1234+shop@hushletter.test" })
+    const untagged = await postEmail(t, {
+      to: "reader-1234@hushletter.test",
+      subject: "Another issue",
+      htmlContent: "<p>More deals</p>",
+    })
+
+    expect((await getNewsletter(t, tagged.body.userNewsletterId))?.folderId).toBe(folderId)
+    expect((await getNewsletter(t, untagged.body.userNewsletterId))?.folderId).not.toBe(folderId)
+  })
+
+  it("rejects invalid tags", async () => {
+    const t = makeT()
+    await seedUser(t)
+
+    await expect(
+      t
+        .withIdentity({ subject: "auth_reader" })
+        .mutation(api.subAddressTags.saveSubAddressTag, { tag: "no spaces" })
+    ).rejects.toThrow(/Tags may only contain/)
+  })
+})
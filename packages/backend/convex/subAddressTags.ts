@@ -0,0 +1,213 @@
+import { internalQuery, mutation, query, type MutationCtx } from "./_generated/server"
+import { v, ConvexError } from "convex/values"
+import type { Id } from "./_generated/dataModel"
+import { normalizeSubAddressTag } from "./_internal/emailGeneration"
+
+/**
+ * Sub-addressing: mail to name+tag@domain reaches the same user as name@domain.
+ * The tag is recorded on the newsletter (to see which site leaked or sold an
+ * address) and can route tagged mail into a folder.
+ */
+
+/** Number of recent tagged newsletters scanned to list a tag's senders */
+const TAG_SENDER_SCAN_LIMIT = 50
+
+/**
+ * Count a stored newsletter against its sub-address tag.
+ * Called from createUserNewsletter; creates the tag on first use.
+ */
+export async function recordSubAddressNewsletter(
+  ctx: Pick<MutationCtx, "db">,
+  args: {
+    userId: Id<"users">
+    tag: string
+    receivedAt: number
+  }
+): Promise<void> {
+  const existing = await ctx.db
+    .query("subAddressTags")
+    .withIndex("by_userId_tag", (q) => q.eq("userId", args.userId).eq("tag", args.tag))
+    .first()
+
+  if (existing) {
+    await ctx.db.patch("subAddressTags", existing._id, {
+      newsletterCount: existing.newsletterCount + 1,
+      lastReceivedAt: Math.max(existing.lastReceivedAt ?? 0, args.receivedAt),
+    })
+    return
+  }
+
+  await ctx.db.insert("subAddressTags", {
+    userId: args.userId,
+    tag: args.tag,
+    newsletterCount: 1,
+    lastReceivedAt: args.receivedAt,
+    createdAt: Date.now(),
+  })
+}
+
+/**
+ * Get the folder tagged mail should be routed to (no auth checks)
+ * @returns null when the tag has no folder, or the folder no longer exists
+ */
+export const getSubAddressFolder = internalQuery({
+  args: {
+    userId: v.id("users"),
+    tag: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const subAddressTag = await ctx.db
+      .query("subAddressTags")
+      .withIndex("by_userId_tag", (q) => q.eq("userId", args.userId).eq("tag", args.tag))
+      .first()
+    if (!subAddressTag?.folderId) return null
+
+    const folder = await ctx.db.get("folders", subAddressTag.folderId)
+    if (!folder || folder.userId !== args.userId) return null
+    return folder._id
+  },
+})
+
+/**
+ * List the current user's sub-address tags, most recently used first
+ * Includes the senders that mailed each tag, so users can spot leaks.
+ */
+export const listSubAddressTags = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) return []
+
+    const tags = await ctx.db
+      .query("subAddressTags")
+      .withIndex("by_userId_tag", (q) => q.eq("userId", user._id))
+      .collect()
+
+    const items = await Promise.all(
+      tags.map(async (subAddressTag) => {
+        const folder = subAddressTag.folderId ? await ctx.db.get("folders", subAddressTag.folderId) : null
+        const newsletters = await ctx.db
+          .query("userNewsletters")
+          .withIndex("by_userId_subAddressTag", (q) =>
+            q.eq("userId", user._id).eq("subAddressTag", subAddressTag.tag)
+          )
+          .order("desc")
+          .take(TAG_SENDER_SCAN_LIMIT)
+
+        return {
+          _id: subAddressTag._id,
+          tag: subAddressTag.tag,
+          folderId: folder ? folder._id : undefined,
+          folderName: folder ? folder.name : undefined,
+          newsletterCount: subAddressTag.newsletterCount,
+          lastReceivedAt: subAddressTag.lastReceivedAt,
+          createdAt: subAddressTag.createdAt,
+          senderEmails: [...new Set(newsletters.map((newsletter) => newsletter.senderEmail))],
+        }
+      })
+    )
+
+    return items.sort(
+      (a, b) => (b.lastReceivedAt ?? b.createdAt) - (a.lastReceivedAt ?? a.createdAt)
+    )
+  },
+})
+
+/**
+ * Create a tag (e.g. before signing up somewhere) or change its folder
+ * Omit folderId to stop routing the tag's mail.
+ */
+export const saveSubAddressTag = mutation({
+  args: {
+    tag: v.string(),
+    folderId: v.optional(v.id("folders")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    const tag = normalizeSubAddressTag(args.tag)
+    if (!tag) {
+      throw new ConvexError({
+        code: "VALIDATION_ERROR",
+        message: "Tags may only contain letters, numbers, dots, underscores and hyphens (max 32)",
+      })
+    }
+
+    if (args.folderId) {
+      const folder = await ctx.db.get("folders", args.folderId)
+      if (!folder) {
+        throw new ConvexError({ code: "NOT_FOUND", message: "Folder not found" })
+      }
+      if (folder.userId !== user._id) {
+        throw new ConvexError({ code: "FORBIDDEN", message: "Access denied" })
+      }
+    }
+
+    const existing = await ctx.db
+      .query("subAddressTags")
+      .withIndex("by_userId_tag", (q) => q.eq("userId", user._id).eq("tag", tag))
+      .first()
+
+    if (existing) {
+      await ctx.db.patch("subAddressTags", existing._id, { folderId: args.folderId })
+      return existing._id
+    }
+
+    return await ctx.db.insert("subAddressTags", {
+      userId: user._id,
+      tag,
+      folderId: args.folderId,
+      newsletterCount: 0,
+      createdAt: Date.now(),
+    })
+  },
+})
+
+/**
+ * Delete a tag and its folder routing
+ * Newsletters keep the tag they were sent to; the tag reappears with new mail.
+ */
+export const deleteSubAddressTag = mutation({
+  args: { tagId: v.id("subAddressTags") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    const subAddressTag = await ctx.db.get("subAddressTags", args.tagId)
+    if (!subAddressTag) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Tag not found" })
+    }
+    if (subAddressTag.userId !== user._id) {
+      throw new ConvexError({ code: "FORBIDDEN", message: "Access denied" })
+    }
+
+    await ctx.db.delete("subAddressTags", args.tagId)
+  },
+})
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api } from "./_generated/api"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>) {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: "reader@example.com",
+      createdAt: Date.now(),
+      authId: "auth_reader",
+      dedicatedEmail: "reader-1234@hushletter.test",
+      plan: "free",
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to: "reader-1234@hushletter.test",
+      from: "hello@weekly.example.com",
+      receivedAt: Date.now(),
+      ...payload,
+    }),
+  })
+  expect(response.status).toBe(200)
+}
+
+function postConfirmation(t: ReturnType<typeof makeT>, token: string) {
+  return postEmail(t, {
+    subject: "Please confirm your subscription",
+    htmlContent: `<p>Almost there (${token})</p><a href="https://weekly.example.com/confirm?t=${token}">Confirm</a>`,
+  })
+}
+
+describe("subscription confirmations", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    process.env.INTERNAL_API_KEY = previousApiKey
+  })
+
+  it("lists a detected confirmation email with its confirm link", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+
+    await postConfirmation(t, "first")
+    await postEmail(t, { subject: "Issue #1", htmlContent: "<p>First issue</p>" })
+
+    const pending = await reader.query(api.subscriptionConfirmations.listPendingConfirmations, {})
+    expect(pending).toHaveLength(1)
+    expect(pending[0]).toMatchObject({
+      senderEmail: "hello@weekly.example.com",
+      subject: "Please confirm your subscription",
+      confirmUrl: "https://weekly.example.com/confirm?t=first",
+    })
+  })
+
+  it("keeps only the newest confirmation per sender", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+
+    await postConfirmation(t, "first")
+    await postConfirmation(t, "second")
+
+    const pending = await reader.query(api.subscriptionConfirmations.listPendingConfirmations, {})
+    expect(pending.map((confirmation) => confirmation.confirmUrl)).toEqual([
+      "https://weekly.example.com/confirm?t=second",
+    ])
+  })
+
+  it("drops the confirmation when its email is deleted", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    await postConfirmation(t, "first")
+    const [confirmation] = await reader.query(api.subscriptionConfirmations.listPendingConfirmations, {})
+
+    await reader.mutation(api.newsletters.deleteUserNewsletter, {
+      userNewsletterId: confirmation.userNewsletterId,
+    })
+
+    expect(await reader.query(api.subscriptionConfirmations.listPendingConfirmations, {})).toEqual([])
+    await expect(
+      t.run(async (ctx) => ctx.db.query("subscriptionConfirmations").collect())
+    ).resolves.toEqual([])
+  })
+
+  it("resolves pending confirmations when the welcome email arrives", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+
+    await postConfirmation(t, "first")
+    await postEmail(t, { subject: "Welcome to The Weekly!", htmlContent: "<p>You're in.</p>" })
+
+    expect(await reader.query(api.subscriptionConfirmations.listPendingConfirmations, {})).toEqual([])
+    const stored = await t.run(async (ctx) => ctx.db.query("subscriptionConfirmations").collect())
+    expect(stored.map((confirmation) => confirmation.status)).toEqual(["confirmed"])
+  })
+
+  it("lets the owner confirm or dismiss, and no one else", async () => {
+    const t = makeT()
+    await seedUser(t)
+    await t.run(async (ctx) =>
+      ctx.db.insert("users", {
+        email: "other@example.com",
+        createdAt: Date.now(),
+        authId: "auth_other",
+        plan: "free",
+      })
+    )
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const other = t.withIdentity({ subject: "auth_other" })
+
+    await postConfirmation(t, "first")
+    const [confirmation] = await reader.query(api.subscriptionConfirmations.listPendingConfirmations, {})
+
+    await expect(
+      other.mutation(api.subscriptionConfirmations.resolveConfirmation, {
+        confirmationId: confirmation._id,
+        status: "dismissed",
+      })
+    ).rejects.toThrow(/Access denied/)
+
+    await reader.mutation(api.subscriptionConfirmations.resolveConfirmation, {
+      confirmationId: confirmation._id,
+      status: "confirmed",
+    })
+    expect(await reader.query(api.subscriptionConfirmations.listPendingConfirmations, {})).toEqual([])
+  })
+})
@@ -0,0 +1,171 @@
+import { mutation, query, type MutationCtx } from "./_generated/server"
+import { v, ConvexError } from "convex/values"
+import type { Id } from "./_generated/dataModel"
+import type { SubscriptionEmail } from "./_internal/subscriptionEmailDetection"
+
+/**
+ * Pending subscription confirmations: double opt-in emails detected at
+ * ingestion, surfaced as a "pending confirmations" card so they don't get
+ * buried in a brand new sender folder.
+ */
+
+/** Maximum number of pending confirmations shown in the card */
+const MAX_PENDING_CONFIRMATIONS = 20
+
+/** A detected subscription email, as passed from ingestion to createUserNewsletter */
+export const subscriptionEmailValidator = v.union(
+  v.object({ kind: v.literal("confirmation"), confirmUrl: v.string() }),
+  v.object({ kind: v.literal("welcome") })
+)
+
+/**
+ * Record a detected confirmation or welcome email.
+ * Called from createUserNewsletter once the newsletter is inserted.
+ *
+ * A confirmation replaces any pending one from the same sender (the newest
+ * link is the one that works); a welcome email means the subscription went
+ * through, so pending confirmations from that sender are resolved.
+ */
+export async function recordSubscriptionEmail(
+  ctx: Pick<MutationCtx, "db">,
+  args: {
+    userId: Id<"users">
+    senderId: Id<"senders">
+    userNewsletterId: Id<"userNewsletters">
+    senderEmail: string
+    senderName?: string
+    subject: string
+    receivedAt: number
+    subscriptionEmail: SubscriptionEmail
+  }
+): Promise<void> {
+  const pending = await ctx.db
+    .query("subscriptionConfirmations")
+    .withIndex("by_userId_senderId", (q) => q.eq("userId", args.userId).eq("senderId", args.senderId))
+    .filter((q) => q.eq(q.field("status"), "pending"))
+    .collect()
+
+  if (args.subscriptionEmail.kind === "welcome") {
+    for (const confirmation of pending) {
+      await ctx.db.patch("subscriptionConfirmations", confirmation._id, {
+        status: "confirmed",
+        resolvedAt: Date.now(),
+      })
+    }
+    return
+  }
+
+  const fields = {
+    userNewsletterId: args.userNewsletterId,
+    senderEmail: args.senderEmail,
+    senderName: args.senderName,
+    subject: args.subject,
+    confirmUrl: args.subscriptionEmail.confirmUrl,
+    receivedAt: args.receivedAt,
+  }
+  const [existing, ...duplicates] = pending
+  for (const confirmation of duplicates) {
+    await ctx.db.delete("subscriptionConfirmations", confirmation._id)
+  }
+  if (existing) {
+    await ctx.db.patch("subscriptionConfirmations", existing._id, fields)
+    return
+  }
+  await ctx.db.insert("subscriptionConfirmations", {
+    userId: args.userId,
+    senderId: args.senderId,
+    status: "pending",
+    ...fields,
+  })
+}
+
+/**
+ * Remove the confirmations recorded from a newsletter (called when it's deleted)
+ */
+export async function deleteSubscriptionConfirmations(
+  ctx: Pick<MutationCtx, "db">,
+  userNewsletterId: Id<"userNewsletters">
+): Promise<void> {
+  const confirmations = await ctx.db
+    .query("subscriptionConfirmations")
+    .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", userNewsletterId))
+    .collect()
+  for (const confirmation of confirmations) {
+    await ctx.db.delete("subscriptionConfirmations", confirmation._id)
+  }
+}
+
+/**
+ * List the current user's pending confirmations, newest first
+ */
+export const listPendingConfirmations = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) return []
+
+    const pending = await ctx.db
+      .query("subscriptionConfirmations")
+      .withIndex("by_userId_status", (q) => q.eq("userId", user._id).eq("status", "pending"))
+      .collect()
+
+    return pending
+      .sort((a, b) => b.receivedAt - a.receivedAt)
+      .slice(0, MAX_PENDING_CONFIRMATIONS)
+      .map((confirmation) => ({
+        _id: confirmation._id,
+        userNewsletterId: confirmation.userNewsletterId,
+        senderEmail: confirmation.senderEmail,
+        senderName: confirmation.senderName,
+        subject: confirmation.subject,
+        confirmUrl: confirmation.confirmUrl,
+        receivedAt: confirmation.receivedAt,
+      }))
+  },
+})
+
+/**
+ * Resolve one of the current user's pending confirmations
+ * The confirm link itself is opened by the client: confirmation pages often
+ * expect a real browser (and sometimes a second click).
+ */
+export const resolveConfirmation = mutation({
+  args: {
+    confirmationId: v.id("subscriptionConfirmations"),
+    status: v.union(v.literal("confirmed"), v.literal("dismissed")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    const confirmation = await ctx.db.get("subscriptionConfirmations", args.confirmationId)
+    if (!confirmation) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Confirmation not found" })
+    }
+    if (confirmation.userId !== user._id) {
+      throw new ConvexError({ code: "FORBIDDEN", message: "Access denied" })
+    }
+
+    await ctx.db.patch("subscriptionConfirmations", confirmation._id, {
+      status: args.status,
+      resolvedAt: Date.now(),
+    })
+    return { success: true }
+  },
+})
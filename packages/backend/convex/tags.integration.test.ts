@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://r2.example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+// http.ts pulls in auth.ts, which reads SITE_URL at module load
+process.env.SITE_URL ??= "http://localhost:3000"
+
+const modules = import.meta.glob("./**/*.ts")
+const API_KEY = "test-internal-key"
+const DAY = 24 * 60 * 60 * 1000
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>, authId = "auth_reader") {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: `${authId}@example.com`,
+      createdAt: Date.now(),
+      authId,
+      dedicatedEmail: "reader-1234@hushletter.test",
+      plan: "free",
+    })
+  )
+}
+
+async function postEmail(t: ReturnType<typeof makeT>, payload: Record<string, unknown>) {
+  const response = await t.fetch("/api/email/ingest", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Internal-API-Key": API_KEY },
+    body: JSON.stringify({
+      to: "reader-1234@hushletter.test",
+      from: "hello@weekly.example.com",
+      receivedAt: Date.now(),
+      htmlContent: "<p>Hello</p>",
+      ...payload,
+    }),
+  })
+  const body = (await response.json()) as { userNewsletterId: Id<"userNewsletters"> }
+  return body.userNewsletterId
+}
+
+describe("tags", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    previousApiKey = process.env.INTERNAL_API_KEY
+    process.env.INTERNAL_API_KEY = API_KEY
+  })
+
+  afterEach(() => {
+    process.env.INTERNAL_API_KEY = previousApiKey
+  })
+
+  it("creates, renames, colors and deletes tags", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+
+    const researchId = await reader.mutation(api.tags.createTag, { name: " Research ", color: "#3B82F6" })
+    await reader.mutation(api.tags.createTag, { name: "Later" })
+    await expect(reader.mutation(api.tags.createTag, { name: "research" })).rejects.toThrow(
+      /already exists/
+    )
+    await expect(reader.mutation(api.tags.createTag, { name: "Red", color: "red" })).rejects.toThrow(
+      /hex color/
+    )
+
+    expect(await reader.mutation(api.tags.renameTag, { tagId: researchId, newName: "Deep research" })).toEqual({
+      name: "Deep research",
+    })
+    await expect(reader.mutation(api.tags.renameTag, { tagId: researchId, newName: "LATER" })).rejects.toThrow(
+      /already exists/
+    )
+    await reader.mutation(api.tags.setTagColor, { tagId: researchId })
+
+    const tags = await reader.query(api.tags.listTags, {})
+    expect(tags.map((tag) => [tag.name, tag.color, tag.newsletterCount])).toEqual([
+      ["Deep research", undefined, 0],
+      ["Later", undefined, 0],
+    ])
+
+    await reader.mutation(api.tags.deleteTag, { tagId: researchId })
+    expect((await reader.query(api.tags.listTags, {})).map((tag) => tag.name)).toEqual(["Later"])
+  })
+
+  it("bulk-tags newsletters and filters lists and search by tag", async () => {
+    const t = makeT()
+    await seedUser(t)
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const now = Date.now()
+    const firstId = await postEmail(t, { subject: "Antitrust weekly", receivedAt: now - 2 * DAY })
+    const secondId = await postEmail(t, { subject: "Antitrust digest", receivedAt: now - DAY })
+    const archivedId = await postEmail(t, { subject: "Antitrust archive", receivedAt: now })
+    await t.run(async (ctx) => ctx.db.patch("userNewsletters", archivedId, { isHidden: true }))
+
+    const researchId = await reader.mutation(api.tags.createTag, { name: "Research" })
+    const shareId = await reader.mutation(api.tags.createTag, { name: "To share" })
+    expect(
+      await reader.mutation(api.tags.tagNewsletters, {
+        tagId: researchId,
+        userNewsletterIds: [firstId, secondId, archivedId, firstId],
+      })
+    ).toEqual({ tagged: 3 })
+    await reader.mutation(api.tags.tagNewsletters, { tagId: shareId, userNewsletterIds: [firstId] })
+
+    const head = await reader.query(api.newsletters.listNewslettersByTagHead, { tagId: researchId })
+    expect(head.page.map((n) => n._id)).toEqual([secondId, firstId])
+
+    const all = await reader.query(api.newsletters.listAllNewslettersHead, {})
+    const first = all.page.find((n) => n._id === firstId)
+    expect(first?.tagIds?.sort()).toEqual([researchId, shareId].sort())
+
+    const tagged = await reader.query(api.newsletters.searchUserNewslettersMeta, {
+      query: 'tag:"to share" Antitrust',
+    })
+    expect(tagged.map((n) => n.userNewsletterId)).toEqual([firstId])
+
+    await reader.mutation(api.tags.untagNewsletters, { tagId: researchId, userNewsletterIds: [secondId] })
+    const page = await reader.action(api.newsletters.listNewslettersByTagPage, {
+      tagId: researchId,
+      cursor: null,
+      numItems: 10,
+    })
+    expect(page.page.map((n) => n._id)).toEqual([firstId])
+    expect(await reader.query(api.tags.listTagsForNewsletter, { userNewsletterId: firstId })).toEqual([
+      expect.objectContaining({ name: "Research" }),
+      expect.objectContaining({ name: "To share" }),
+    ])
+  })
+
+  it("keeps tags private and drops links of deleted newsletters", async () => {
+    const t = makeT()
+    await seedUser(t)
+    await seedUser(t, "auth_other")
+    const reader = t.withIdentity({ subject: "auth_reader" })
+    const other = t.withIdentity({ subject: "auth_other" })
+    const newsletterId = await postEmail(t, { subject: "Antitrust weekly" })
+    const tagId = await reader.mutation(api.tags.createTag, { name: "Research" })
+
+    await expect(
+      other.mutation(api.tags.tagNewsletters, { tagId, userNewsletterIds: [newsletterId] })
+    ).rejects.toThrow(/Tag not found/)
+    const otherTagId = await other.mutation(api.tags.createTag, { name: "Mine" })
+    expect(
+      await other.mutation(api.tags.tagNewsletters, { tagId: otherTagId, userNewsletterIds: [newsletterId] })
+    ).toEqual({ tagged: 0 })
+    expect(await other.query(api.newsletters.listNewslettersByTagHead, { tagId })).toEqual({
+      page: [],
+      isDone: true,
+      continueCursor: null,
+    })
+
+    await reader.mutation(api.tags.tagNewsletters, { tagId, userNewsletterIds: [newsletterId] })
+    await reader.mutation(api.newsletters.deleteUserNewsletter, { userNewsletterId: newsletterId })
+    const links = await t.run(async (ctx) => ctx.db.query("newsletterTags").collect())
+    expect(links).toEqual([])
+  })
+})
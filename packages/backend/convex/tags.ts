@@ -0,0 +1,363 @@
+import { mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server"
+import { v, ConvexError } from "convex/values"
+import type { Doc, Id } from "./_generated/dataModel"
+
+/**
+ * Tags: user-defined labels on newsletters
+ * Folders are one-per-sender; tags are many-to-many (newsletterTags), so a
+ * single issue can be both "Research" and "To share with team". Newsletters
+ * of a tag are listed with newsletters.listNewslettersByTagHead/Page.
+ */
+
+/** Maximum number of tags per user */
+export const MAX_TAGS_PER_USER = 100
+
+/** Maximum number of newsletters tagged/untagged in one call */
+export const MAX_BULK_TAG_NEWSLETTERS = 200
+
+const MAX_TAG_NAME_LENGTH = 50
+
+/**
+ * Validate a tag name
+ * @returns The trimmed name
+ */
+function validateTagName(name: string): string {
+  const trimmedName = name.trim()
+  if (!trimmedName) {
+    throw new ConvexError({ code: "VALIDATION_ERROR", message: "Tag name cannot be empty" })
+  }
+  if (trimmedName.length > MAX_TAG_NAME_LENGTH) {
+    throw new ConvexError({
+      code: "VALIDATION_ERROR",
+      message: `Tag name must be ${MAX_TAG_NAME_LENGTH} characters or less`,
+    })
+  }
+  return trimmedName
+}
+
+function validateTagColor(color: string | undefined): string | undefined {
+  if (color === undefined) return undefined
+  if (!/^#[0-9a-f]{6}$/i.test(color)) {
+    throw new ConvexError({
+      code: "VALIDATION_ERROR",
+      message: "Tag color must be a hex color like #3b82f6",
+    })
+  }
+  return color.toLowerCase()
+}
+
+/**
+ * Throw if another tag of the user already has this name (case-insensitive)
+ */
+function assertUniqueTagName(
+  tags: Doc<"tags">[],
+  name: string,
+  ignoreTagId?: Id<"tags">
+): void {
+  const normalizedName = name.toLowerCase()
+  if (tags.some((tag) => tag._id !== ignoreTagId && tag.name.toLowerCase() === normalizedName)) {
+    throw new ConvexError({ code: "DUPLICATE", message: "A tag with this name already exists" })
+  }
+}
+
+async function getAuthedUser(ctx: MutationCtx): Promise<Doc<"users">> {
+  const identity = await ctx.auth.getUserIdentity()
+  if (!identity) {
+    throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+  }
+
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+    .first()
+  if (!user) {
+    throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+  }
+  return user
+}
+
+/**
+ * Load a tag owned by the current user (throws otherwise)
+ */
+async function getOwnedTag(ctx: MutationCtx, tagId: Id<"tags">): Promise<Doc<"tags">> {
+  const user = await getAuthedUser(ctx)
+  const tag = await ctx.db.get("tags", tagId)
+  if (!tag || tag.userId !== user._id) {
+    throw new ConvexError({ code: "NOT_FOUND", message: "Tag not found" })
+  }
+  return tag
+}
+
+/**
+ * Tag ids of a newsletter, for list items and the reader
+ */
+export async function getNewsletterTagIds(
+  ctx: Pick<QueryCtx, "db">,
+  userNewsletterId: Id<"userNewsletters">
+): Promise<Id<"tags">[]> {
+  const links = await ctx.db
+    .query("newsletterTags")
+    .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", userNewsletterId))
+    .collect()
+  return links.map((link) => link.tagId)
+}
+
+/**
+ * Tag a newsletter, unless it already has the tag
+ * @returns Whether a link was created
+ */
+export async function addNewsletterTag(
+  ctx: Pick<MutationCtx, "db">,
+  args: {
+    userId: Id<"users">
+    tagId: Id<"tags">
+    userNewsletterId: Id<"userNewsletters">
+    receivedAt: number
+  }
+): Promise<boolean> {
+  const tagIds = await getNewsletterTagIds(ctx, args.userNewsletterId)
+  if (tagIds.includes(args.tagId)) return false
+
+  await ctx.db.insert("newsletterTags", { ...args, createdAt: Date.now() })
+  return true
+}
+
+/**
+ * Remove all tag links of a newsletter (called when it's deleted)
+ */
+export async function deleteNewsletterTagLinks(
+  ctx: Pick<MutationCtx, "db">,
+  userNewsletterId: Id<"userNewsletters">
+): Promise<void> {
+  const links = await ctx.db
+    .query("newsletterTags")
+    .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", userNewsletterId))
+    .collect()
+  for (const link of links) {
+    await ctx.db.delete("newsletterTags", link._id)
+  }
+}
+
+/**
+ * Create a tag
+ */
+export const createTag = mutation({
+  args: {
+    name: v.string(),
+    color: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthedUser(ctx)
+    const name = validateTagName(args.name)
+    const color = validateTagColor(args.color)
+
+    const existing = await ctx.db
+      .query("tags")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .collect()
+    if (existing.length >= MAX_TAGS_PER_USER) {
+      throw new ConvexError({
+        code: "LIMIT_REACHED",
+        message: `You can have up to ${MAX_TAGS_PER_USER} tags`,
+      })
+    }
+    assertUniqueTagName(existing, name)
+
+    const now = Date.now()
+    return await ctx.db.insert("tags", {
+      userId: user._id,
+      name,
+      ...(color ? { color } : {}),
+      createdAt: now,
+      updatedAt: now,
+    })
+  },
+})
+
+/**
+ * Rename a tag
+ */
+export const renameTag = mutation({
+  args: {
+    tagId: v.id("tags"),
+    newName: v.string(),
+  },
+  returns: v.object({ name: v.string() }),
+  handler: async (ctx, args) => {
+    const tag = await getOwnedTag(ctx, args.tagId)
+    const name = validateTagName(args.newName)
+
+    const tags = await ctx.db
+      .query("tags")
+      .withIndex("by_userId", (q) => q.eq("userId", tag.userId))
+      .collect()
+    assertUniqueTagName(tags, name, tag._id)
+
+    await ctx.db.patch("tags", tag._id, { name, updatedAt: Date.now() })
+    return { name }
+  },
+})
+
+/**
+ * Set (or clear, when color is omitted) the color of a tag
+ */
+export const setTagColor = mutation({
+  args: {
+    tagId: v.id("tags"),
+    color: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const tag = await getOwnedTag(ctx, args.tagId)
+    const color = validateTagColor(args.color)
+
+    await ctx.db.patch("tags", tag._id, { color, updatedAt: Date.now() })
+  },
+})
+
+/**
+ * Delete a tag and untag its newsletters (newsletters are untouched)
+ */
+export const deleteTag = mutation({
+  args: { tagId: v.id("tags") },
+  handler: async (ctx, args) => {
+    const tag = await getOwnedTag(ctx, args.tagId)
+
+    const links = await ctx.db
+      .query("newsletterTags")
+      .withIndex("by_tagId_receivedAt", (q) => q.eq("tagId", tag._id))
+      .collect()
+    for (const link of links) {
+      await ctx.db.delete("newsletterTags", link._id)
+    }
+    await ctx.db.delete("tags", tag._id)
+  },
+})
+
+/**
+ * Add a tag to newsletters (bulk tagging from the list)
+ * Newsletters that already have the tag, or aren't the user's, are skipped.
+ * @returns Number of newsletters newly tagged
+ */
+export const tagNewsletters = mutation({
+  args: {
+    tagId: v.id("tags"),
+    userNewsletterIds: v.array(v.id("userNewsletters")),
+  },
+  handler: async (ctx, args) => {
+    const tag = await getOwnedTag(ctx, args.tagId)
+    if (args.userNewsletterIds.length > MAX_BULK_TAG_NEWSLETTERS) {
+      throw new ConvexError({
+        code: "VALIDATION_ERROR",
+        message: `You can tag up to ${MAX_BULK_TAG_NEWSLETTERS} newsletters at once`,
+      })
+    }
+
+    let tagged = 0
+    for (const userNewsletterId of new Set(args.userNewsletterIds)) {
+      const newsletter = await ctx.db.get("userNewsletters", userNewsletterId)
+      if (!newsletter || newsletter.userId !== tag.userId) continue
+
+      const isNew = await addNewsletterTag(ctx, {
+        userId: tag.userId,
+        tagId: tag._id,
+        userNewsletterId,
+        receivedAt: newsletter.receivedAt,
+      })
+      if (isNew) tagged++
+    }
+    return { tagged }
+  },
+})
+
+/**
+ * Remove a tag from newsletters
+ * @returns Number of newsletters untagged
+ */
+export const untagNewsletters = mutation({
+  args: {
+    tagId: v.id("tags"),
+    userNewsletterIds: v.array(v.id("userNewsletters")),
+  },
+  handler: async (ctx, args) => {
+    const tag = await getOwnedTag(ctx, args.tagId)
+    if (args.userNewsletterIds.length > MAX_BULK_TAG_NEWSLETTERS) {
+      throw new ConvexError({
+        code: "VALIDATION_ERROR",
+        message: `You can untag up to ${MAX_BULK_TAG_NEWSLETTERS} newsletters at once`,
+      })
+    }
+
+    let untagged = 0
+    for (const userNewsletterId of new Set(args.userNewsletterIds)) {
+      const links = await ctx.db
+        .query("newsletterTags")
+        .withIndex("by_userNewsletterId", (q) => q.eq("userNewsletterId", userNewsletterId))
+        .collect()
+      for (const link of links) {
+        if (link.tagId !== tag._id) continue
+        await ctx.db.delete("newsletterTags", link._id)
+        untagged++
+      }
+    }
+    return { untagged }
+  },
+})
+
+/**
+ * List the current user's tags with newsletter counts, sorted by name
+ */
+export const listTags = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) return []
+
+    const tags = await ctx.db
+      .query("tags")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .collect()
+
+    const withCounts = await Promise.all(
+      tags.map(async (tag) => {
+        const links = await ctx.db
+          .query("newsletterTags")
+          .withIndex("by_tagId_receivedAt", (q) => q.eq("tagId", tag._id))
+          .collect()
+        return { ...tag, newsletterCount: links.length }
+      })
+    )
+    return withCounts.sort((a, b) => a.name.localeCompare(b.name))
+  },
+})
+
+/**
+ * Tags of a single newsletter, for the reader
+ */
+export const listTagsForNewsletter = query({
+  args: { userNewsletterId: v.id("userNewsletters") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) return []
+
+    const newsletter = await ctx.db.get("userNewsletters", args.userNewsletterId)
+    if (!newsletter || newsletter.userId !== user._id) return []
+
+    const tagIds = await getNewsletterTagIds(ctx, newsletter._id)
+    const tags = await Promise.all(tagIds.map((tagId) => ctx.db.get("tags", tagId)))
+    return tags
+      .filter((tag): tag is Doc<"tags"> => tag !== null)
+      .sort((a, b) => a.name.localeCompare(b.name))
+  },
+})
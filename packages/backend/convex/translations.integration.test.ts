@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+import { generateCompletion } from "./lib/openrouter"
+
+/** R2 objects by key (originals are seeded, translations are stored here) */
+const r2Objects = new Map<string, string>()
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async (key: string) => `https://r2.example.com/${key}`),
+    store: vi.fn(async (_ctx: unknown, blob: Blob, { key }: { key: string }) => {
+      r2Objects.set(key, await blob.text())
+      return key
+    }),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+vi.mock("./lib/openrouter", () => ({
+  generateCompletion: vi.fn(),
+}))
+
+const modules = import.meta.glob("./**/*.ts")
+const DAY = 24 * 60 * 60 * 1000
+const ORIGINAL_HTML =
+  '<html><body><h1>Bonjour</h1><p>Lisez <a href="https://example.com">la suite</a>.</p>' +
+  '<img src="https://example.com/a.png"></body></html>'
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+async function seedUser(t: ReturnType<typeof makeT>, name: string, plan: "free" | "pro" = "pro") {
+  return await t.run(async (ctx) =>
+    ctx.db.insert("users", {
+      email: `${name}@example.com`,
+      createdAt: Date.now(),
+      authId: `auth_${name}`,
+      dedicatedEmail: `${name}@inbound.example.com`,
+      plan,
+      proExpiresAt: plan === "pro" ? Date.now() + 30 * DAY : undefined,
+    })
+  )
+}
+
+async function seedNewsletter(
+  t: ReturnType<typeof makeT>,
+  userId: Id<"users">,
+  content: { privateR2Key: string } | { contentId: Id<"newsletterContent"> }
+) {
+  return await t.run(async (ctx) => {
+    const senderId = await ctx.db.insert("senders", {
+      email: "lettre@example.fr",
+      domain: "example.fr",
+      subscriberCount: 1,
+      newsletterCount: 1,
+    })
+    return await ctx.db.insert("userNewsletters", {
+      userId,
+      senderId,
+      subject: "La lettre",
+      senderEmail: "lettre@example.fr",
+      receivedAt: Date.now(),
+      isRead: false,
+      isHidden: false,
+      isPrivate: "privateR2Key" in content,
+      ...content,
+    })
+  })
+}
+
+/** Answers every "[n] text" line with "[n] EN:text" */
+function translateLines(_config: unknown, _system: string, prompt: string) {
+  return Promise.resolve(prompt.replace(/^\[(\d+)\] (.*)$/gm, "[$1] EN:$2"))
+}
+
+describe("newsletter translations", () => {
+  let previousApiKey: string | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    r2Objects.clear()
+    previousApiKey = process.env.OPENROUTER_API_KEY
+    process.env.OPENROUTER_API_KEY = "test"
+    vi.mocked(generateCompletion).mockImplementation(translateLines)
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (input: RequestInfo | URL) => {
+        const key = String(input).replace("https://r2.example.com/", "")
+        const body = r2Objects.get(key)
+        return body === undefined
+          ? new Response("Not found", { status: 404 })
+          : new Response(body, { status: 200 })
+      })
+    )
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    process.env.OPENROUTER_API_KEY = previousApiKey
+  })
+
+  it("translates the text of a private newsletter, keeping its markup, and caches it", async () => {
+    const t = makeT()
+    const userId = await seedUser(t, "reader")
+    r2Objects.set("private/original.html", ORIGINAL_HTML)
+    const userNewsletterId = await seedNewsletter(t, userId, {
+      privateR2Key: "private/original.html",
+    })
+    const asReader = t.withIdentity({ subject: "auth_reader" })
+
+    const result = await asReader.action(api.translations.translateNewsletter, {
+      userNewsletterId,
+      language: "en",
+    })
+
+    expect(result.isShared).toBe(false)
+    expect(result.contentUrl).toMatch(
+      new RegExp(`^https://r2\\.example\\.com/private/${userId}/translations/`)
+    )
+    expect(r2Objects.get(result.contentUrl.replace("https://r2.example.com/", ""))).toBe(
+      '<html><body><h1>EN:Bonjour</h1><p>EN:Lisez <a href="https://example.com">EN:la suite</a>.</p>' +
+        '<img src="https://example.com/a.png"></body></html>'
+    )
+    expect(vi.mocked(generateCompletion).mock.calls[0][1]).toContain("into English")
+
+    // Cached: same translation, no second AI call or usage
+    await expect(
+      asReader.action(api.translations.translateNewsletter, { userNewsletterId, language: "en" })
+    ).resolves.toEqual(result)
+    expect(generateCompletion).toHaveBeenCalledTimes(1)
+    const usage = await t.run(async (ctx) => await ctx.db.query("aiUsageDaily").collect())
+    expect(usage.map((row) => row.count)).toEqual([1])
+  })
+
+  it("shares the first translation of a public newsletter with its other readers", async () => {
+    const t = makeT()
+    const firstId = await seedUser(t, "first")
+    const secondId = await seedUser(t, "second")
+    r2Objects.set("community/original.html", ORIGINAL_HTML)
+    const contentId = await t.run(async (ctx) =>
+      ctx.db.insert("newsletterContent", {
+        contentHash: "hash",
+        r2Key: "community/original.html",
+        subject: "La lettre",
+        senderEmail: "lettre@example.fr",
+        firstReceivedAt: Date.now(),
+        readerCount: 2,
+      })
+    )
+    const firstNewsletterId = await seedNewsletter(t, firstId, { contentId })
+    const secondNewsletterId = await seedNewsletter(t, secondId, { contentId })
+
+    const first = await t
+      .withIdentity({ subject: "auth_first" })
+      .action(api.translations.translateNewsletter, {
+        userNewsletterId: firstNewsletterId,
+        language: "de",
+      })
+    const second = await t
+      .withIdentity({ subject: "auth_second" })
+      .action(api.translations.translateNewsletter, {
+        userNewsletterId: secondNewsletterId,
+        language: "de",
+      })
+
+    expect(first.isShared).toBe(true)
+    expect(second).toEqual(first)
+    expect(first.contentUrl).toContain(`community/translations/${contentId}/de-`)
+    expect(generateCompletion).toHaveBeenCalledTimes(1)
+  })
+
+  it("requires Pro and ownership", async () => {
+    const t = makeT()
+    const ownerId = await seedUser(t, "owner")
+    await seedUser(t, "other")
+    await seedUser(t, "free", "free")
+    r2Objects.set("private/original.html", ORIGINAL_HTML)
+    const userNewsletterId = await seedNewsletter(t, ownerId, {
+      privateR2Key: "private/original.html",
+    })
+
+    await expect(
+      t
+        .withIdentity({ subject: "auth_free" })
+        .action(api.translations.translateNewsletter, { userNewsletterId, language: "en" })
+    ).rejects.toMatchObject({ data: expect.stringContaining('"code":"PRO_REQUIRED"') })
+    await expect(
+      t
+        .withIdentity({ subject: "auth_other" })
+        .action(api.translations.translateNewsletter, { userNewsletterId, language: "en" })
+    ).rejects.toMatchObject({ data: expect.stringContaining('"code":"NOT_FOUND"') })
+    expect(generateCompletion).not.toHaveBeenCalled()
+  })
+})
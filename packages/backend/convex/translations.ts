@@ -0,0 +1,295 @@
+import {
+  action,
+  internalMutation,
+  internalQuery,
+  type MutationCtx,
+} from "./_generated/server"
+import { v, ConvexError } from "convex/values"
+import { internal } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+import { r2 } from "./r2"
+import { AI_DAILY_LIMIT, requireProFromUser } from "./entitlements"
+import { generateCompletion } from "./lib/openrouter"
+import { supportedLanguageValidator } from "./lib/detectLanguage"
+import {
+  applyTranslations,
+  batchSegments,
+  buildTranslationPrompt,
+  buildTranslationSystemPrompt,
+  extractTextSegments,
+  parseTranslatedLines,
+} from "./lib/htmlTranslation"
+
+/**
+ * On-demand translation of newsletters (Pro)
+ *
+ * The translated HTML is stored in R2, one object per newsletter and target
+ * language. Like AI summaries, the first translation of a public newsletter
+ * is shared with every reader of its newsletterContent; private newsletters
+ * get their own. A translation counts once toward AI_DAILY_LIMIT, however
+ * many completions it takes.
+ */
+
+/** Signed URL lifetime, as for the original content */
+const TRANSLATION_URL_EXPIRES_IN = 3600
+
+/**
+ * Remove the personal translations of a newsletter (called when it's deleted)
+ */
+export async function deleteNewsletterTranslations(
+  ctx: Pick<MutationCtx, "db">,
+  userNewsletterId: Id<"userNewsletters">
+): Promise<void> {
+  const translations = await ctx.db
+    .query("newsletterTranslations")
+    .withIndex("by_userNewsletterId_language", (q) =>
+      q.eq("userNewsletterId", userNewsletterId)
+    )
+    .collect()
+  for (const translation of translations) {
+    await ctx.db.delete("newsletterTranslations", translation._id)
+  }
+}
+
+/**
+ * Newsletter to translate, with its cached translation if there is one:
+ * personal first, then shared (public newsletters only)
+ */
+export const getTranslationTarget = internalQuery({
+  args: {
+    userNewsletterId: v.id("userNewsletters"),
+    language: supportedLanguageValidator,
+  },
+  handler: async (ctx, args) => {
+    const newsletter = await ctx.db.get("userNewsletters", args.userNewsletterId)
+    if (!newsletter) return null
+
+    const personal = await ctx.db
+      .query("newsletterTranslations")
+      .withIndex("by_userNewsletterId_language", (q) =>
+        q.eq("userNewsletterId", newsletter._id).eq("language", args.language)
+      )
+      .first()
+    if (personal) {
+      return { newsletter, cached: { r2Key: personal.r2Key, isShared: false } }
+    }
+
+    const contentId = newsletter.isPrivate ? undefined : newsletter.contentId
+    if (contentId) {
+      const shared = await ctx.db
+        .query("newsletterTranslations")
+        .withIndex("by_contentId_language", (q) =>
+          q.eq("contentId", contentId).eq("language", args.language)
+        )
+        .first()
+      if (shared) {
+        return { newsletter, cached: { r2Key: shared.r2Key, isShared: true } }
+      }
+    }
+
+    return { newsletter, cached: null }
+  },
+})
+
+/**
+ * Record a stored translation, shared (contentId) or personal (userNewsletterId)
+ * If one was stored in the meantime it wins, so readers all see the same one.
+ * @returns The R2 key to serve
+ */
+export const storeTranslation = internalMutation({
+  args: {
+    contentId: v.optional(v.id("newsletterContent")),
+    userNewsletterId: v.optional(v.id("userNewsletters")),
+    language: supportedLanguageValidator,
+    r2Key: v.string(),
+  },
+  handler: async (ctx, { contentId, userNewsletterId, language, r2Key }): Promise<string> => {
+    const existing = contentId
+      ? await ctx.db
+          .query("newsletterTranslations")
+          .withIndex("by_contentId_language", (q) =>
+            q.eq("contentId", contentId).eq("language", language)
+          )
+          .first()
+      : await ctx.db
+          .query("newsletterTranslations")
+          .withIndex("by_userNewsletterId_language", (q) =>
+            q.eq("userNewsletterId", userNewsletterId).eq("language", language)
+          )
+          .first()
+    if (existing) return existing.r2Key
+
+    await ctx.db.insert("newsletterTranslations", {
+      contentId,
+      userNewsletterId: contentId ? undefined : userNewsletterId,
+      language,
+      r2Key,
+      createdAt: Date.now(),
+    })
+    return r2Key
+  },
+})
+
+/**
+ * Translate a newsletter into a language, or return the cached translation
+ *
+ * @returns A signed URL of the translated HTML, and whether it's shared
+ * @throws ConvexError with codes: UNAUTHORIZED, PRO_REQUIRED, NOT_FOUND,
+ *         CONTENT_UNAVAILABLE, CONTENT_FETCH_ERROR, NOTHING_TO_TRANSLATE,
+ *         AI_CONFIG_ERROR, AI_BUSY, AI_LIMIT_REACHED, AI_TIMEOUT, AI_UNAVAILABLE
+ */
+export const translateNewsletter = action({
+  args: {
+    userNewsletterId: v.id("userNewsletters"),
+    language: supportedLanguageValidator,
+  },
+  handler: async (
+    ctx,
+    { userNewsletterId, language }
+  ): Promise<{ contentUrl: string; isShared: boolean }> => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+    const user = await ctx.runQuery(internal._internal.users.findByAuthId, {
+      authId: identity.subject,
+    })
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+    requireProFromUser({ plan: user.plan ?? "free", proExpiresAt: user.proExpiresAt })
+
+    const target = await ctx.runQuery(internal.translations.getTranslationTarget, {
+      userNewsletterId,
+      language,
+    })
+    if (!target || target.newsletter.userId !== user._id) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Newsletter not found" })
+    }
+
+    // Cached translation - no AI call
+    if (target.cached) {
+      return {
+        contentUrl: await r2.getUrl(target.cached.r2Key, {
+          expiresIn: TRANSLATION_URL_EXPIRES_IN,
+        }),
+        isShared: target.cached.isShared,
+      }
+    }
+
+    const apiKey = process.env.OPENROUTER_API_KEY
+    if (!apiKey) {
+      throw new ConvexError({
+        code: "AI_CONFIG_ERROR",
+        message: "AI service is not configured",
+      })
+    }
+
+    const acquired = await ctx.runMutation(internal.ai.tryAcquireAiInFlight, {
+      userId: user._id,
+    })
+    if (!acquired) {
+      throw new ConvexError({
+        code: "AI_BUSY",
+        message: "Another AI request is already running. Please wait.",
+      })
+    }
+
+    try {
+      const day = new Date().toISOString().slice(0, 10)
+      const used = await ctx.runQuery(internal.ai.getAiUsageDaily, {
+        userId: user._id,
+        day,
+      })
+      if (used >= AI_DAILY_LIMIT) {
+        throw new ConvexError({
+          code: "AI_LIMIT_REACHED",
+          message: "You’ve reached today’s AI limit. Please try again tomorrow.",
+        })
+      }
+
+      const content = await ctx.runAction(
+        internal.newsletters.getUserNewsletterWithContentInternal,
+        { userNewsletterId }
+      )
+      if (content.contentStatus !== "available" || !content.contentUrl) {
+        throw new ConvexError({
+          code: "CONTENT_UNAVAILABLE",
+          message: "Newsletter content is not available for translation",
+        })
+      }
+      const response = await fetch(content.contentUrl)
+      if (!response.ok) {
+        throw new ConvexError({
+          code: "CONTENT_FETCH_ERROR",
+          message: "Failed to fetch newsletter content",
+        })
+      }
+
+      const html = await response.text()
+      const extracted = extractTextSegments(html)
+      const batches = batchSegments(extracted.segments)
+      if (batches.length === 0) {
+        throw new ConvexError({
+          code: "NOTHING_TO_TRANSLATE",
+          message: "This newsletter has no text to translate",
+        })
+      }
+
+      const translations = new Map<number, string>()
+      for (const batch of batches) {
+        const answer = await generateCompletion(
+          { apiKey, model: "openai/gpt-oss-120b", timeout: 60000, maxTokens: 4000 },
+          buildTranslationSystemPrompt(language),
+          buildTranslationPrompt(extracted.segments, batch)
+        )
+        for (const [index, text] of parseTranslatedLines(answer, batch)) {
+          translations.set(index, text)
+        }
+      }
+      if (translations.size === 0) {
+        throw new Error("Translation returned no lines")
+      }
+
+      const contentId = target.newsletter.isPrivate ? undefined : target.newsletter.contentId
+      const r2Key = contentId
+        ? `community/translations/${contentId}/${language}-${crypto.randomUUID()}.html`
+        : `private/${user._id}/translations/${Date.now()}-${crypto.randomUUID()}.html`
+      const blob = new Blob([applyTranslations(extracted, translations)], {
+        type: "text/html; charset=utf-8",
+      })
+      await r2.store(ctx, blob, { key: r2Key, type: "text/html" })
+
+      const storedKey = await ctx.runMutation(internal.translations.storeTranslation, {
+        ...(contentId ? { contentId } : { userNewsletterId }),
+        language,
+        r2Key,
+      })
+      await ctx.runMutation(internal.ai.incrementAiUsageDaily, {
+        userId: user._id,
+        day,
+      })
+
+      return {
+        contentUrl: await r2.getUrl(storedKey, { expiresIn: TRANSLATION_URL_EXPIRES_IN }),
+        isShared: Boolean(contentId),
+      }
+    } catch (error) {
+      if (error instanceof ConvexError) throw error
+      if (error instanceof Error && error.message === "AI_TIMEOUT") {
+        throw new ConvexError({
+          code: "AI_TIMEOUT",
+          message: "Translation took too long. Please try again.",
+        })
+      }
+
+      console.error("[translateNewsletter] AI error:", error)
+      throw new ConvexError({
+        code: "AI_UNAVAILABLE",
+        message: "AI service is temporarily unavailable. Please try again later.",
+      })
+    } finally {
+      await ctx.runMutation(internal.ai.releaseAiInFlight, { userId: user._id })
+    }
+  },
+})
@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { convexTest } from "convex-test"
+import schema from "./schema"
+import { api, internal } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+import { UNSUBSCRIBE_GRACE_PERIOD_MS } from "./unsubscribe"
+
+vi.mock("./r2", () => ({
+  r2: {
+    getUrl: vi.fn(async () => "https://example.com/content"),
+    store: vi.fn(async () => "r2Key"),
+    deleteObject: vi.fn(async () => undefined),
+  },
+}))
+
+const modules = import.meta.glob("./**/*.ts")
+
+function makeT() {
+  return convexTest(schema, modules)
+}
+
+type Ids = {
+  userId: Id<"users">
+  senderId: Id<"senders">
+  folderId: Id<"folders">
+}
+
+async function seed(
+  t: ReturnType<typeof makeT>,
+  headers: { listUnsubscribe?: string; listUnsubscribePost?: string }
+): Promise<Ids> {
+  return await t.run(async (ctx) => {
+    const userId = await ctx.db.insert("users", {
+      email: "reader@example.com",
+      createdAt: Date.now(),
+      authId: "auth_unsub",
+      dedicatedEmail: "reader@inbound.example.com",
+      plan: "free",
+    })
+    const senderId = await ctx.db.insert("senders", {
+      email: "news@example.com",
+      domain: "example.com",
+      name: "Example News",
+      subscriberCount: 1,
+      newsletterCount: 1,
+    })
+    const folderId = await ctx.db.insert("folders", {
+      userId,
+      name: "Example News",
+      isHidden: false,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    })
+    await ctx.db.insert("userSenderSettings", { userId, senderId, isPrivate: true, folderId })
+    await ctx.db.insert("userNewsletters", {
+      userId,
+      senderId,
+      folderId,
+      subject: "Issue 1",
+      senderEmail: "news@example.com",
+      receivedAt: Date.now() - 1000,
+      isRead: false,
+      isHidden: false,
+      isPrivate: true,
+      ...headers,
+    })
+    return { userId, senderId, folderId }
+  })
+}
+
+async function getSettings(t: ReturnType<typeof makeT>, ids: Ids) {
+  return await t.run(async (ctx) =>
+    ctx.db
+      .query("userSenderSettings")
+      .withIndex("by_userId_senderId", (q) => q.eq("userId", ids.userId).eq("senderId", ids.senderId))
+      .first()
+  )
+}
+
+function deliver(t: ReturnType<typeof makeT>, ids: Ids, receivedAt: number) {
+  return t.mutation(internal.newsletters.createUserNewsletter, {
+    ...ids,
+    subject: "Another issue",
+    senderEmail: "news@example.com",
+    receivedAt,
+    isPrivate: true,
+    source: "email",
+  })
+}
+
+describe("unsubscribeFromSender", () => {
+  let fetchSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    fetchSpy = vi.spyOn(globalThis, "fetch")
+  })
+
+  afterEach(() => {
+    fetchSpy.mockRestore()
+  })
+
+  it("performs the one-click POST and records the result", async () => {
+    const t = makeT()
+    const ids = await seed(t, {
+      listUnsubscribe: "<mailto:unsub@example.com>, <https://example.com/unsub?u=1>",
+      listUnsubscribePost: "List-Unsubscribe=One-Click",
+    })
+    fetchSpy.mockResolvedValue(new Response("ok", { status: 200 }))
+
+    const result = await t
+      .withIdentity({ subject: "auth_unsub" })
+      .action(api.unsubscribe.unsubscribeFromSender, { senderId: ids.senderId, binFutureMail: true })
+
+    expect(result).toEqual({ status: "unsubscribed" })
+    expect(fetchSpy).toHaveBeenCalledWith(
+      "https://example.com/unsub?u=1",
+      expect.objectContaining({
+        method: "POST",
+        body: "List-Unsubscribe=One-Click",
+        redirect: "manual",
+      })
+    )
+    expect(await getSettings(t, ids)).toMatchObject({
+      unsubscribeStatus: "unsubscribed",
+      unsubscribeMethod: "one_click",
+      binAfterUnsubscribe: true,
+    })
+  })
+
+  it("records a failed one-click attempt with the error", async () => {
+    const t = makeT()
+    const ids = await seed(t, {
+      listUnsubscribe: "<https://example.com/unsub?u=1>",
+      listUnsubscribePost: "List-Unsubscribe=One-Click",
+    })
+    fetchSpy.mockResolvedValue(new Response("nope", { status: 410 }))
+
+    const result = await t
+      .withIdentity({ subject: "auth_unsub" })
+      .action(api.unsubscribe.unsubscribeFromSender, { senderId: ids.senderId })
+
+    expect(result).toEqual({ status: "failed", error: "Sender responded with HTTP 410" })
+    expect(await getSettings(t, ids)).toMatchObject({
+      unsubscribeStatus: "failed",
+      unsubscribeError: "Sender responded with HTTP 410",
+    })
+  })
+
+  it("returns the web link when one-click is not advertised", async () => {
+    const t = makeT()
+    const ids = await seed(t, {
+      listUnsubscribe: "<mailto:unsub@example.com>, <https://example.com/manage>",
+    })
+
+    const result = await t
+      .withIdentity({ subject: "auth_unsub" })
+      .action(api.unsubscribe.unsubscribeFromSender, { senderId: ids.senderId, binFutureMail: true })
+
+    expect(result).toEqual({ status: "manual", method: "url", url: "https://example.com/manage" })
+    expect(fetchSpy).not.toHaveBeenCalled()
+    // Not unsubscribed yet, so future mail is not binned
+    expect(await getSettings(t, ids)).toMatchObject({
+      unsubscribeStatus: "manual",
+      binAfterUnsubscribe: false,
+    })
+  })
+
+  it("never POSTs to a private host from the header", async () => {
+    const t = makeT()
+    const ids = await seed(t, {
+      listUnsubscribe: "<https://169.254.169.254/latest/meta-data>",
+      listUnsubscribePost: "List-Unsubscribe=One-Click",
+    })
+
+    const result = await t
+      .withIdentity({ subject: "auth_unsub" })
+      .action(api.unsubscribe.unsubscribeFromSender, { senderId: ids.senderId })
+
+    expect(result).toMatchObject({ status: "manual", method: "url" })
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+
+  it("rejects senders without a List-Unsubscribe header", async () => {
+    const t = makeT()
+    const ids = await seed(t, {})
+
+    await expect(
+      t
+        .withIdentity({ subject: "auth_unsub" })
+        .action(api.unsubscribe.unsubscribeFromSender, { senderId: ids.senderId })
+    ).rejects.toThrow(/unsubscribe link/)
+  })
+})
+
+describe("mail after unsubscribe", () => {
+  it("bins new mail and flags senders that keep sending after the grace period", async () => {
+    const t = makeT()
+    const ids = await seed(t, { listUnsubscribe: "<https://example.com/manage>" })
+    const requestedAt = Date.now() - UNSUBSCRIBE_GRACE_PERIOD_MS - 60_000
+    const settings = await getSettings(t, ids)
+    await t.run(async (ctx) =>
+      ctx.db.patch("userSenderSettings", settings!._id, {
+        unsubscribeStatus: "unsubscribed",
+        unsubscribeMethod: "one_click",
+        unsubscribeRequestedAt: requestedAt,
+        binAfterUnsubscribe: true,
+      })
+    )
+
+    // Within the grace period: binned, but not "still sending"
+    const earlyId = await deliver(t, ids, requestedAt + 1000)
+    expect((await getSettings(t, ids))?.mailAfterUnsubscribeCount).toBeUndefined()
+
+    // After the grace period: binned and counted
+    const lateId = await deliver(t, ids, Date.now())
+    expect(await getSettings(t, ids)).toMatchObject({ mailAfterUnsubscribeCount: 1 })
+
+    const newsletters = await t.run(async (ctx) =>
+      Promise.all([ctx.db.get("userNewsletters", earlyId), ctx.db.get("userNewsletters", lateId)])
+    )
+    expect(newsletters.map((n) => n?.isBinned)).toEqual([true, true])
+
+    const folders = await t
+      .withIdentity({ subject: "auth_unsub" })
+      .query(api.folders.listVisibleFoldersWithUnreadCounts, {})
+    expect(folders[0]?.isStillSendingAfterUnsubscribe).toBe(true)
+  })
+
+  it("leaves mail alone when the unsubscribe attempt failed", async () => {
+    const t = makeT()
+    const ids = await seed(t, { listUnsubscribe: "<https://example.com/manage>" })
+    const settings = await getSettings(t, ids)
+    await t.run(async (ctx) =>
+      ctx.db.patch("userSenderSettings", settings!._id, {
+        unsubscribeStatus: "failed",
+        unsubscribeRequestedAt: Date.now() - UNSUBSCRIBE_GRACE_PERIOD_MS * 2,
+        binAfterUnsubscribe: true,
+      })
+    )
+
+    const newsletterId = await deliver(t, ids, Date.now())
+
+    const newsletter = await t.run(async (ctx) => ctx.db.get("userNewsletters", newsletterId))
+    expect(newsletter?.isBinned).toBe(false)
+    expect((await getSettings(t, ids))?.mailAfterUnsubscribeCount).toBeUndefined()
+  })
+})
@@ -0,0 +1,307 @@
+import {
+  action,
+  internalMutation,
+  internalQuery,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server"
+import { internal } from "./_generated/api"
+import { v, ConvexError } from "convex/values"
+import type { Doc, Id } from "./_generated/dataModel"
+import {
+  getOneClickUrl,
+  isOneClickUnsubscribe,
+  parseListUnsubscribe,
+  sendOneClickUnsubscribe,
+} from "./lib/listUnsubscribe"
+
+/**
+ * Senders may take a couple of days to process an unsubscribe; mail received
+ * within this window does not count as "still sending".
+ */
+export const UNSUBSCRIBE_GRACE_PERIOD_MS = 2 * 24 * 60 * 60 * 1000
+
+/** How many recent newsletters to scan for a List-Unsubscribe header */
+const RECENT_NEWSLETTERS_SCAN = 20
+
+type UnsubscribeHeaders = {
+  listUnsubscribe: string
+  listUnsubscribePost?: string
+}
+
+/**
+ * Find the List-Unsubscribe headers from the sender's most recent newsletter
+ * that carried them (older issues may point at stale links).
+ */
+async function findLatestUnsubscribeHeaders(
+  ctx: Pick<QueryCtx, "db">,
+  userId: Id<"users">,
+  senderId: Id<"senders">
+): Promise<UnsubscribeHeaders | null> {
+  const recent = await ctx.db
+    .query("userNewsletters")
+    .withIndex("by_userId_senderId", (q) => q.eq("userId", userId).eq("senderId", senderId))
+    .order("desc")
+    .take(RECENT_NEWSLETTERS_SCAN)
+
+  const latest = recent
+    .filter((newsletter) => newsletter.listUnsubscribe)
+    .sort((a, b) => b.receivedAt - a.receivedAt)[0]
+  if (!latest?.listUnsubscribe) return null
+
+  return {
+    listUnsubscribe: latest.listUnsubscribe,
+    listUnsubscribePost: latest.listUnsubscribePost,
+  }
+}
+
+/**
+ * Check a new delivery against the sender's unsubscribe state.
+ * Called from createUserNewsletter for every stored newsletter.
+ *
+ * - Counts mail that keeps arriving after the grace period ("still sending")
+ * - Tells the caller to bin the newsletter if the user asked for it
+ */
+export async function trackMailAfterUnsubscribe(
+  ctx: Pick<MutationCtx, "db">,
+  args: {
+    userId: Id<"users">
+    senderId: Id<"senders">
+    receivedAt: number
+  }
+): Promise<{ binOnArrival: boolean }> {
+  const settings = await ctx.db
+    .query("userSenderSettings")
+    .withIndex("by_userId_senderId", (q) => q.eq("userId", args.userId).eq("senderId", args.senderId))
+    .first()
+
+  const requestedAt = settings?.unsubscribeRequestedAt
+  if (!settings || requestedAt === undefined || settings.unsubscribeStatus === "failed") {
+    return { binOnArrival: false }
+  }
+  if (args.receivedAt < requestedAt) {
+    // Older mail (e.g. a Gmail import) says nothing about the unsubscribe
+    return { binOnArrival: false }
+  }
+
+  if (args.receivedAt > requestedAt + UNSUBSCRIBE_GRACE_PERIOD_MS) {
+    await ctx.db.patch("userSenderSettings", settings._id, {
+      mailAfterUnsubscribeCount: (settings.mailAfterUnsubscribeCount ?? 0) + 1,
+      lastMailAfterUnsubscribeAt: args.receivedAt,
+    })
+  }
+
+  return { binOnArrival: settings.binAfterUnsubscribe === true }
+}
+
+/**
+ * Whether a sender keeps mailing after the user unsubscribed
+ */
+export function isStillSendingAfterUnsubscribe(
+  settings: Pick<Doc<"userSenderSettings">, "unsubscribeStatus" | "mailAfterUnsubscribeCount">
+): boolean {
+  return (
+    settings.unsubscribeStatus !== undefined &&
+    settings.unsubscribeStatus !== "failed" &&
+    (settings.mailAfterUnsubscribeCount ?? 0) > 0
+  )
+}
+
+/**
+ * List unsubscribe options for every sender in a folder
+ * Powers the Unsubscribe dialog in the sender folder sidebar.
+ */
+export const listFolderUnsubscribeOptions = query({
+  args: { folderId: v.id("folders") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_authId", (q) => q.eq("authId", identity.subject))
+      .first()
+    if (!user) return []
+
+    const folder = await ctx.db.get("folders", args.folderId)
+    if (!folder || folder.userId !== user._id) return []
+
+    const settings = await ctx.db
+      .query("userSenderSettings")
+      .withIndex("by_folderId_userId", (q) => q.eq("folderId", args.folderId).eq("userId", user._id))
+      .collect()
+
+    const options = await Promise.all(
+      settings.map(async (setting) => {
+        const sender = await ctx.db.get("senders", setting.senderId)
+        if (!sender) return null
+
+        const headers = await findLatestUnsubscribeHeaders(ctx, user._id, setting.senderId)
+        const targets = parseListUnsubscribe(headers?.listUnsubscribe)
+        const oneClickUrl = isOneClickUnsubscribe(headers?.listUnsubscribePost)
+          ? getOneClickUrl(targets)
+          : undefined
+
+        return {
+          senderId: sender._id,
+          email: sender.email,
+          displayName: sender.name || sender.email,
+          supportsOneClick: oneClickUrl !== undefined,
+          webUrl: targets.httpUrls[0],
+          mailtoUrl: targets.mailtoUrls[0],
+          status: setting.unsubscribeStatus,
+          method: setting.unsubscribeMethod,
+          requestedAt: setting.unsubscribeRequestedAt,
+          error: setting.unsubscribeError,
+          binAfterUnsubscribe: setting.binAfterUnsubscribe ?? false,
+          mailAfterUnsubscribeCount: setting.mailAfterUnsubscribeCount ?? 0,
+          lastMailAfterUnsubscribeAt: setting.lastMailAfterUnsubscribeAt,
+          isStillSending: isStillSendingAfterUnsubscribe(setting),
+        }
+      })
+    )
+
+    return options
+      .filter((option): option is NonNullable<typeof option> => option !== null)
+      .sort((a, b) => a.displayName.localeCompare(b.displayName))
+  },
+})
+
+/**
+ * Internal query to get the sender settings and latest unsubscribe headers
+ * Used by unsubscribeFromSender action
+ */
+export const getUnsubscribeTargetInternal = internalQuery({
+  args: {
+    userId: v.id("users"),
+    senderId: v.id("senders"),
+  },
+  handler: async (ctx, args) => {
+    const settings = await ctx.db
+      .query("userSenderSettings")
+      .withIndex("by_userId_senderId", (q) => q.eq("userId", args.userId).eq("senderId", args.senderId))
+      .first()
+    if (!settings) return null
+
+    const headers = await findLatestUnsubscribeHeaders(ctx, args.userId, args.senderId)
+    return { settingsId: settings._id, headers }
+  },
+})
+
+/**
+ * Record an unsubscribe attempt and its outcome on userSenderSettings
+ * Resets the "still sending" counter - it restarts from this attempt.
+ */
+export const recordUnsubscribeAttempt = internalMutation({
+  args: {
+    settingsId: v.id("userSenderSettings"),
+    status: v.union(v.literal("unsubscribed"), v.literal("failed"), v.literal("manual")),
+    method: v.union(v.literal("one_click"), v.literal("mailto"), v.literal("url")),
+    error: v.optional(v.string()),
+    binAfterUnsubscribe: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch("userSenderSettings", args.settingsId, {
+      unsubscribeStatus: args.status,
+      unsubscribeMethod: args.method,
+      unsubscribeRequestedAt: Date.now(),
+      unsubscribeError: args.error,
+      binAfterUnsubscribe: args.binAfterUnsubscribe,
+      mailAfterUnsubscribeCount: 0,
+      lastMailAfterUnsubscribeAt: undefined,
+    })
+  },
+})
+
+/**
+ * Unsubscribe from a sender's mailing list
+ * This is an action because the one-click POST is an external HTTP call.
+ *
+ * - RFC 8058 one-click supported: POSTs "List-Unsubscribe=One-Click" and records the result
+ * - Otherwise: records a manual attempt and returns the web/mailto link for the user to open
+ *
+ * `binFutureMail` sends any further newsletters from this sender straight to the bin,
+ * once the one-click unsubscribe went through.
+ */
+export const unsubscribeFromSender = action({
+  args: {
+    senderId: v.id("senders"),
+    binFutureMail: v.optional(v.boolean()),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<
+    | { status: "unsubscribed" }
+    | { status: "failed"; error: string }
+    | { status: "manual"; method: "mailto" | "url"; url: string }
+  > => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+    }
+
+    const user = await ctx.runQuery(internal._internal.users.findByAuthId, {
+      authId: identity.subject,
+    })
+    if (!user) {
+      throw new ConvexError({ code: "UNAUTHORIZED", message: "User not found" })
+    }
+
+    const target = await ctx.runQuery(internal.unsubscribe.getUnsubscribeTargetInternal, {
+      userId: user._id,
+      senderId: args.senderId,
+    })
+    if (!target) {
+      throw new ConvexError({ code: "NOT_FOUND", message: "Sender settings not found" })
+    }
+
+    const targets = parseListUnsubscribe(target.headers?.listUnsubscribe)
+    const oneClickUrl = isOneClickUnsubscribe(target.headers?.listUnsubscribePost)
+      ? getOneClickUrl(targets)
+      : undefined
+    const binAfterUnsubscribe = args.binFutureMail ?? false
+
+    if (oneClickUrl) {
+      const result = await sendOneClickUnsubscribe(oneClickUrl)
+      if (!result.ok) {
+        console.log(`[unsubscribe] One-click unsubscribe failed for sender ${args.senderId}: ${result.error}`)
+      }
+
+      await ctx.runMutation(internal.unsubscribe.recordUnsubscribeAttempt, {
+        settingsId: target.settingsId,
+        status: result.ok ? "unsubscribed" : "failed",
+        method: "one_click",
+        error: result.ok ? undefined : result.error,
+        binAfterUnsubscribe,
+      })
+
+      return result.ok ? { status: "unsubscribed" } : { status: "failed", error: result.error }
+    }
+
+    // Prefer the web page: a mailto would be sent from the user's personal
+    // address, which the sender may not recognise as the subscribed one
+    const fallback = targets.httpUrls[0]
+      ? { method: "url" as const, url: targets.httpUrls[0] }
+      : targets.mailtoUrls[0]
+        ? { method: "mailto" as const, url: targets.mailtoUrls[0] }
+        : null
+    if (!fallback) {
+      throw new ConvexError({
+        code: "NOT_FOUND",
+        message: "This sender doesn't provide an unsubscribe link",
+      })
+    }
+
+    // Nothing was unsubscribed yet, so future mail keeps arriving as usual
+    await ctx.runMutation(internal.unsubscribe.recordUnsubscribeAttempt, {
+      settingsId: target.settingsId,
+      status: "manual",
+      method: fallback.method,
+      binAfterUnsubscribe: false,
+    })
+
+    return { status: "manual", ...fallback }
+  },
+})
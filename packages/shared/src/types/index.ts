@@ -1,3 +1,4 @@
 export * from "./newsletter"
 export * from "./user"
 export * from "./eml"
+export * from "./searchQuery"
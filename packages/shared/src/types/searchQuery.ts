@@ -0,0 +1,79 @@
+/**
+ * Search Query Types
+ *
+ * Types for the advanced search syntax of global search, e.g.
+ * `from:stratechery after:2026-01-01 is:unread folder:Tech "antitrust"`.
+ */
+
+/**
+ * Operators supported in search queries
+ */
+export type SearchOperator = "from" | "folder" | "tag" | "after" | "before" | "is" | "has"
+
+/**
+ * A search query broken down into full-text terms and operator filters
+ */
+export interface ParsedSearchQuery {
+  /** Free-text terms and phrases, for the full-text index */
+  text: string
+  /** Quoted phrases, which must appear verbatim (case-insensitive) */
+  phrases: string[]
+  /** from: - sender name or email contains this value */
+  from?: string
+  /** folder: - folder name (case-insensitive) */
+  folder?: string
+  /** tag: - tag name (case-insensitive) */
+  tag?: string
+  /** after: - received on or after this day (Unix timestamp ms, UTC midnight) */
+  receivedAfter?: number
+  /** before: - received before this day (Unix timestamp ms, UTC midnight) */
+  receivedBefore?: number
+  /** is:read / is:unread */
+  isRead?: boolean
+  /** is:starred / is:favorite */
+  isFavorited?: boolean
+  /** has:attachment */
+  hasAttachment?: boolean
+}
+
+/**
+ * Structured error codes for search query parsing failures
+ */
+export type SearchQueryErrorCode =
+  | "UNKNOWN_OPERATOR"
+  | "MISSING_VALUE"
+  | "INVALID_VALUE"
+  | "DUPLICATE_OPERATOR"
+  | "UNTERMINATED_QUOTE"
+
+/**
+ * Structured error for search query parsing failures
+ */
+export interface SearchQueryError {
+  /** Error code for programmatic handling */
+  code: SearchQueryErrorCode
+  /** Human-readable error message */
+  message: string
+  /** Offset of the offending token in the query */
+  start: number
+  /** End offset (exclusive) of the offending token */
+  end: number
+}
+
+/**
+ * Result of parsing a search query
+ */
+export type SearchQueryParseResult =
+  | { success: true; query: ParsedSearchQuery }
+  | { success: false; error: SearchQueryError }
+
+/**
+ * Operator value being typed at the end of a query, for autocomplete
+ */
+export interface SearchQueryCompletion {
+  operator: SearchOperator
+  /** What has been typed of the value so far (without quotes) */
+  partial: string
+  /** Offset where the operator token starts (replace from here) */
+  start: number
+}
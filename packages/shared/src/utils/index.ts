@@ -4,3 +4,12 @@ export {
   resolveInlineImages,
   sanitizeHtml,
 } from "./emlParser"
+export {
+  SEARCH_OPERATORS,
+  SEARCH_OPERATOR_VALUES,
+  parseSearchQuery,
+  hasSearchCriteria,
+  getSearchQueryCompletion,
+  applySearchQueryCompletion,
+} from "./searchQuery"
+export { estimateReadMinutesFromContent } from "./readingTime"
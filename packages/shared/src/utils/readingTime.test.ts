@@ -1,14 +1,14 @@
-import { describe, expect, it } from "vitest";
-import { estimateReadMinutesFromContent } from "./readingTime";
+import { describe, expect, it } from "vitest"
+import { estimateReadMinutesFromContent } from "./readingTime"
 
 function createWords(count: number): string {
-  return Array.from({ length: count }, (_, index) => `word${index + 1}`).join(" ");
+  return Array.from({ length: count }, (_, index) => `word${index + 1}`).join(" ")
 }
 
 describe("estimateReadMinutesFromContent", () => {
   it("returns 0 for short content that takes under one minute", () => {
-    expect(estimateReadMinutesFromContent("Quick newsletter update")).toBe(0);
-  });
+    expect(estimateReadMinutesFromContent("Quick newsletter update")).toBe(0)
+  })
 
   it("strips script/style/noscript tags from html before counting words", () => {
     const html = `
@@ -22,22 +22,29 @@ describe("estimateReadMinutesFromContent", () => {
           <noscript>Ignore fallback text</noscript>
         </body>
       </html>
-    `;
+    `
 
-    expect(estimateReadMinutesFromContent(html)).toBe(0);
-  });
+    expect(estimateReadMinutesFromContent(html)).toBe(0)
+  })
+
+  it("counts only visible text without a DOM", () => {
+    const html = `<html><head><title>${createWords(300)}</title></head>
+      <body><!-- ${createWords(300)} --><p>${createWords(230)}</p></body></html>`
+
+    expect(estimateReadMinutesFromContent(html)).toBe(2)
+  })
 
   it("returns null for empty or whitespace-only content", () => {
-    expect(estimateReadMinutesFromContent("   \n\t   ")).toBeNull();
-  });
+    expect(estimateReadMinutesFromContent("   \n\t   ")).toBeNull()
+  })
 
   it("rounds up word counts above 220 words", () => {
-    const words = createWords(221);
-    expect(estimateReadMinutesFromContent(words)).toBe(2);
-  });
+    const words = createWords(221)
+    expect(estimateReadMinutesFromContent(words)).toBe(2)
+  })
 
   it("returns 1 at exactly 220 words", () => {
-    const words = createWords(220);
-    expect(estimateReadMinutesFromContent(words)).toBe(1);
-  });
-});
+    const words = createWords(220)
+    expect(estimateReadMinutesFromContent(words)).toBe(1)
+  })
+})
@@ -0,0 +1,63 @@
+/**
+ * Reading Time Estimate
+ *
+ * Used by the web reader and by the backend at ingestion (stored on
+ * userNewsletters.estimatedReadMinutes), so both show the same estimate.
+ * Works without a DOM so it also runs in Convex functions.
+ */
+
+const LIKELY_HTML_PATTERN = /<[a-z][\s\S]*>/i
+const DEFAULT_WORDS_PER_MINUTE = 220
+
+/**
+ * Visible text of an HTML document: drops the head and script/style/noscript
+ * content, then the remaining tags
+ */
+function extractTextFromHtml(html: string): string {
+  return html
+    .replace(/<head\b[\s\S]*?<\/head>/gi, " ")
+    .replace(/<(script|style|noscript)\b[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;|&#160;/gi, " ")
+}
+
+/**
+ * Estimate reading time from newsletter content.
+ * Returns null when there is no readable text.
+ */
+export function estimateReadMinutesFromContent(
+  rawContent: string,
+  wordsPerMinute = DEFAULT_WORDS_PER_MINUTE
+): number | null {
+  const trimmed = rawContent.trim()
+  if (!trimmed) {
+    return null
+  }
+
+  const extractedText = LIKELY_HTML_PATTERN.test(trimmed)
+    ? extractTextFromHtml(rawContent)
+    : rawContent
+
+  const normalized = extractedText.replace(/\s+/g, " ").trim()
+  if (!normalized) {
+    return null
+  }
+
+  const wordCount = normalized.split(/\s+/).filter(Boolean).length
+  if (wordCount === 0) {
+    return null
+  }
+
+  const effectiveWordsPerMinute =
+    Number.isFinite(wordsPerMinute) && wordsPerMinute > 0
+      ? wordsPerMinute
+      : DEFAULT_WORDS_PER_MINUTE
+
+  const rawMinutes = wordCount / effectiveWordsPerMinute
+  if (rawMinutes < 1) {
+    return 0
+  }
+
+  return Math.ceil(rawMinutes)
+}
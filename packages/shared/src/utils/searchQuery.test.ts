@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest"
+import {
+  applySearchQueryCompletion,
+  getSearchQueryCompletion,
+  hasSearchCriteria,
+  parseSearchQuery,
+} from "./searchQuery"
+
+/**
+ * Helper returning the parsed query, failing the test on parse errors
+ */
+function parse(input: string) {
+  const result = parseSearchQuery(input)
+  if (!result.success) throw new Error(result.error.message)
+  return result.query
+}
+
+describe("parseSearchQuery", () => {
+  it("parses every operator alongside free text and phrases", () => {
+    expect(
+      parse(
+        "from:stratechery after:2026-01-01 before:2026-02-01 is:unread is:starred " +
+          'folder:Tech tag:"To share" has:attachment "antitrust case" google'
+      )
+    ).toEqual({
+      text: "antitrust case google",
+      phrases: ["antitrust case"],
+      from: "stratechery",
+      folder: "Tech",
+      tag: "To share",
+      receivedAfter: Date.UTC(2026, 0, 1),
+      receivedBefore: Date.UTC(2026, 1, 1),
+      isRead: false,
+      isFavorited: true,
+      hasAttachment: true,
+    })
+  })
+
+  it("accepts quoted operator values and case-insensitive operators", () => {
+    const query = parse('FROM:"Ben Thompson" folder:"Deep dives" IS:Read')
+
+    expect(query.from).toBe("Ben Thompson")
+    expect(query.folder).toBe("Deep dives")
+    expect(query.isRead).toBe(true)
+    expect(query.text).toBe("")
+  })
+
+  it("treats plain text as full-text terms", () => {
+    expect(parse("  rust   webassembly ")).toEqual({ text: "rust webassembly", phrases: [] })
+  })
+
+  it("reports unknown operators with their position", () => {
+    const result = parseSearchQuery("rust size:big")
+
+    expect(result).toEqual({
+      success: false,
+      error: expect.objectContaining({ code: "UNKNOWN_OPERATOR", start: 5, end: 13 }),
+    })
+  })
+
+  it("reports missing and invalid values", () => {
+    const cases: Array<[string, string]> = [
+      ["from:", "MISSING_VALUE"],
+      ['folder:""', "MISSING_VALUE"],
+      ["after:yesterday", "INVALID_VALUE"],
+      ["before:2026-02-30", "INVALID_VALUE"],
+      ["is:archived", "INVALID_VALUE"],
+      ["has:image", "INVALID_VALUE"],
+      ["after:2026-02-01 before:2026-01-01", "INVALID_VALUE"],
+    ]
+
+    for (const [input, code] of cases) {
+      const result = parseSearchQuery(input)
+      expect(result.success ? null : result.error.code, input).toBe(code)
+    }
+  })
+
+  it("rejects repeated and conflicting operators", () => {
+    const repeated = parseSearchQuery("from:a from:b")
+    const conflicting = parseSearchQuery("is:read is:unread")
+
+    expect(repeated.success ? null : repeated.error.code).toBe("DUPLICATE_OPERATOR")
+    expect(conflicting.success ? null : conflicting.error.message).toBe(
+      "is:read and is:unread can't be combined"
+    )
+  })
+
+  it("reports unterminated quotes", () => {
+    const phrase = parseSearchQuery('rust "open ended')
+    const value = parseSearchQuery('folder:"Deep')
+
+    expect(phrase.success ? null : phrase.error).toMatchObject({ code: "UNTERMINATED_QUOTE", start: 5 })
+    expect(value.success ? null : value.error).toMatchObject({ code: "UNTERMINATED_QUOTE", start: 0 })
+  })
+})
+
+describe("hasSearchCriteria", () => {
+  it("is true for text or any operator", () => {
+    expect(hasSearchCriteria(parse(""))).toBe(false)
+    expect(hasSearchCriteria(parse("rust"))).toBe(true)
+    expect(hasSearchCriteria(parse("is:unread"))).toBe(true)
+  })
+})
+
+describe("getSearchQueryCompletion", () => {
+  it("returns the operator value being typed at the end", () => {
+    expect(getSearchQueryCompletion("is:unread folder:te")).toEqual({
+      operator: "folder",
+      partial: "te",
+      start: 10,
+    })
+    expect(getSearchQueryCompletion('from:"Ben T')).toEqual({
+      operator: "from",
+      partial: "Ben T",
+      start: 0,
+    })
+    expect(getSearchQueryCompletion("from:")).toEqual({ operator: "from", partial: "", start: 0 })
+  })
+
+  it("returns null outside of an operator value", () => {
+    expect(getSearchQueryCompletion("rust")).toBeNull()
+    expect(getSearchQueryCompletion("from:ben ")).toBeNull()
+    expect(getSearchQueryCompletion("size:bi")).toBeNull()
+  })
+})
+
+describe("applySearchQueryCompletion", () => {
+  it("replaces the partial value, quoting values with spaces", () => {
+    const input = "rust folder:de"
+    const completion = getSearchQueryCompletion(input)!
+
+    expect(applySearchQueryCompletion(input, completion, "Deep dives")).toBe('rust folder:"Deep dives" ')
+    expect(applySearchQueryCompletion(input, completion, "Dev")).toBe("rust folder:Dev ")
+  })
+})
@@ -0,0 +1,328 @@
+/**
+ * Search Query Parser
+ *
+ * Parses the advanced search syntax of global search:
+ *   from:stratechery after:2026-01-01 is:unread folder:Tech "antitrust"
+ *
+ * Used by the web app (live validation + autocomplete) and by the backend
+ * search query, so both always agree on what a query means.
+ */
+
+import type {
+  ParsedSearchQuery,
+  SearchOperator,
+  SearchQueryCompletion,
+  SearchQueryError,
+  SearchQueryErrorCode,
+  SearchQueryParseResult,
+} from "../types/searchQuery"
+
+/**
+ * Supported operators, in the order they're suggested
+ */
+export const SEARCH_OPERATORS: readonly SearchOperator[] = [
+  "from",
+  "folder",
+  "tag",
+  "after",
+  "before",
+  "is",
+  "has",
+]
+
+/**
+ * Fixed values of operators that have them (for autocomplete)
+ */
+export const SEARCH_OPERATOR_VALUES: Partial<Record<SearchOperator, readonly string[]>> = {
+  is: ["unread", "read", "starred"],
+  has: ["attachment"],
+}
+
+const IS_VALUES: Record<string, Pick<ParsedSearchQuery, "isRead" | "isFavorited">> = {
+  unread: { isRead: false },
+  read: { isRead: true },
+  starred: { isFavorited: true },
+  favorite: { isFavorited: true },
+  favorited: { isFavorited: true },
+}
+
+const HAS_VALUES = new Set(["attachment", "attachments"])
+
+function isSearchOperator(value: string): value is SearchOperator {
+  return (SEARCH_OPERATORS as readonly string[]).includes(value)
+}
+
+/**
+ * Parse a YYYY-MM-DD date as UTC midnight
+ * @returns null for malformed or impossible dates (e.g. 2026-02-30)
+ */
+function parseDay(value: string): number | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (!match) return null
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])]
+  const timestamp = Date.UTC(year, month - 1, day)
+  const date = new Date(timestamp)
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return timestamp
+}
+
+class SearchQueryParseError extends Error {
+  constructor(
+    public readonly code: SearchQueryErrorCode,
+    message: string,
+    public readonly start: number,
+    public readonly end: number
+  ) {
+    super(message)
+  }
+}
+
+type Token =
+  | { kind: "word"; value: string; start: number; end: number }
+  | { kind: "phrase"; value: string; start: number; end: number }
+  | { kind: "operator"; name: string; value: string; start: number; end: number }
+
+/**
+ * Read a quoted string starting at the opening quote
+ * @returns The unquoted value and the offset after the closing quote
+ */
+function readQuoted(input: string, quoteAt: number, tokenStart: number): [string, number] {
+  const closing = input.indexOf('"', quoteAt + 1)
+  if (closing === -1) {
+    throw new SearchQueryParseError(
+      "UNTERMINATED_QUOTE",
+      "Missing closing quote",
+      tokenStart,
+      input.length
+    )
+  }
+  return [input.slice(quoteAt + 1, closing), closing + 1]
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++
+      continue
+    }
+
+    const start = i
+    if (input[i] === '"') {
+      const [value, end] = readQuoted(input, i, start)
+      tokens.push({ kind: "phrase", value, start, end })
+      i = end
+      continue
+    }
+
+    const operator = input.slice(i).match(/^([a-zA-Z]+):/)
+    if (operator) {
+      const valueAt = i + operator[0].length
+      let value: string
+      let end: number
+      if (input[valueAt] === '"') {
+        ;[value, end] = readQuoted(input, valueAt, start)
+      } else {
+        end = valueAt
+        while (end < input.length && !/\s/.test(input[end])) end++
+        value = input.slice(valueAt, end)
+      }
+      tokens.push({ kind: "operator", name: operator[1].toLowerCase(), value, start, end })
+      i = end
+      continue
+    }
+
+    let end = i
+    while (end < input.length && !/\s/.test(input[end])) end++
+    tokens.push({ kind: "word", value: input.slice(i, end), start, end })
+    i = end
+  }
+
+  return tokens
+}
+
+/**
+ * Parse a search query into full-text terms and operator filters
+ *
+ * Operators: from:, folder:, tag:, after:YYYY-MM-DD, before:YYYY-MM-DD,
+ * is:unread|read|starred, has:attachment. Values with spaces can be quoted
+ * (folder:"Deep dives"); quoted text outside an operator is a phrase.
+ * Dates are UTC days; before: is exclusive.
+ *
+ * @example
+ * parseSearchQuery('from:stratechery is:unread "antitrust"')
+ * // => { success: true, query: {
+ * //      text: "antitrust", phrases: ["antitrust"], from: "stratechery", isRead: false } }
+ */
+export function parseSearchQuery(input: string): SearchQueryParseResult {
+  try {
+    const query: ParsedSearchQuery = { text: "", phrases: [] }
+    const words: string[] = []
+    const seen = new Map<string, string>()
+
+    for (const token of tokenize(input)) {
+      if (token.kind === "word") {
+        words.push(token.value)
+        continue
+      }
+      if (token.kind === "phrase") {
+        if (token.value.trim()) {
+          words.push(token.value.trim())
+          query.phrases.push(token.value.trim())
+        }
+        continue
+      }
+
+      const { name, start, end } = token
+      const value = token.value.trim()
+      if (!isSearchOperator(name)) {
+        throw new SearchQueryParseError(
+          "UNKNOWN_OPERATOR",
+          `Unknown operator "${name}:". Use ${SEARCH_OPERATORS.map((op) => `${op}:`).join(", ")}`,
+          start,
+          end
+        )
+      }
+      if (!value) {
+        throw new SearchQueryParseError("MISSING_VALUE", `${name}: needs a value`, start, end)
+      }
+
+      // is: may appear several times (is:unread is:starred), but not twice for the same flag
+      const flag = IS_VALUES[value.toLowerCase()]?.isRead !== undefined ? "read" : "starred"
+      const key = name === "is" ? `is:${flag}` : name
+      const previous = seen.get(key)
+      if (previous !== undefined) {
+        throw new SearchQueryParseError(
+          "DUPLICATE_OPERATOR",
+          name === "is"
+            ? `is:${previous} and is:${value} can't be combined`
+            : `${name}: can only be used once`,
+          start,
+          end
+        )
+      }
+      seen.set(key, value)
+
+      switch (name) {
+        case "from":
+          query.from = value
+          break
+        case "folder":
+          query.folder = value
+          break
+        case "tag":
+          query.tag = value
+          break
+        case "after":
+        case "before": {
+          const day = parseDay(value)
+          if (day === null) {
+            throw new SearchQueryParseError(
+              "INVALID_VALUE",
+              `${name}: expects a date like 2026-01-31`,
+              start,
+              end
+            )
+          }
+          if (name === "after") query.receivedAfter = day
+          else query.receivedBefore = day
+          break
+        }
+        case "is": {
+          const flags = IS_VALUES[value.toLowerCase()]
+          if (!flags) {
+            throw new SearchQueryParseError(
+              "INVALID_VALUE",
+              "is: expects unread, read or starred",
+              start,
+              end
+            )
+          }
+          Object.assign(query, flags)
+          break
+        }
+        case "has":
+          if (!HAS_VALUES.has(value.toLowerCase())) {
+            throw new SearchQueryParseError("INVALID_VALUE", "has: expects attachment", start, end)
+          }
+          query.hasAttachment = true
+          break
+      }
+    }
+
+    if (
+      query.receivedAfter !== undefined &&
+      query.receivedBefore !== undefined &&
+      query.receivedAfter >= query.receivedBefore
+    ) {
+      throw new SearchQueryParseError(
+        "INVALID_VALUE",
+        "after: must be earlier than before:",
+        0,
+        input.length
+      )
+    }
+
+    query.text = words.join(" ")
+    return { success: true, query }
+  } catch (error) {
+    if (!(error instanceof SearchQueryParseError)) throw error
+    const { code, message, start, end } = error
+    const searchError: SearchQueryError = { code, message, start, end }
+    return { success: false, error: searchError }
+  }
+}
+
+/**
+ * Whether a parsed query has anything to search or filter on
+ */
+export function hasSearchCriteria(query: ParsedSearchQuery): boolean {
+  return (
+    query.text.length > 0 ||
+    query.from !== undefined ||
+    query.folder !== undefined ||
+    query.tag !== undefined ||
+    query.receivedAfter !== undefined ||
+    query.receivedBefore !== undefined ||
+    query.isRead !== undefined ||
+    query.isFavorited !== undefined ||
+    query.hasAttachment !== undefined
+  )
+}
+
+/**
+ * Operator value being typed at the end of the query, if any
+ *
+ * @example
+ * getSearchQueryCompletion("is:unread folder:te")
+ * // => { operator: "folder", partial: "te", start: 10 }
+ */
+export function getSearchQueryCompletion(input: string): SearchQueryCompletion | null {
+  const match = input.match(/(^|\s)([a-zA-Z]+):(?:"([^"]*)|([^\s"]*))$/)
+  if (!match) return null
+
+  const operator = match[2].toLowerCase()
+  if (!isSearchOperator(operator)) return null
+
+  return {
+    operator,
+    partial: match[3] ?? match[4] ?? "",
+    start: (match.index ?? 0) + match[1].length,
+  }
+}
+
+/**
+ * Replace the value being typed with a completed one
+ * Values with spaces are quoted; a trailing space is added to start the next term.
+ */
+export function applySearchQueryCompletion(
+  input: string,
+  completion: SearchQueryCompletion,
+  value: string
+): string {
+  const formatted = /\s/.test(value) ? `"${value}"` : value
+  return `${input.slice(0, completion.start)}${completion.operator}:${formatted} `
+}